@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEstateTax,
+  calculateStateDeathTax,
+  resolveFederalExemption,
+  STATE_DEATH_TAXES,
+} from '../estate-tax';
+import { calculateBBDComparison, calculateEstateAnalysis } from '../estate';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { PortfolioConfig, SimulationConfig } from '../../simulation/types';
+
+describe('Estate tax', () => {
+  describe('calculateEstateTax', () => {
+    it('taxes the estate above the exemption at the federal rate', () => {
+      const result = calculateEstateTax(20_000_000);
+      expect(result.federalTax).toBeCloseTo((20_000_000 - 13_990_000) * 0.4, 6);
+      expect(result.stateTax).toBe(0);
+      expect(result.netToHeirs).toBeCloseTo(20_000_000 - result.federalTax, 6);
+    });
+
+    it('owes nothing below the exemption and passes negative estates through', () => {
+      expect(calculateEstateTax(5_000_000).totalTax).toBe(0);
+      expect(calculateEstateTax(-100_000)).toEqual({
+        federalTax: 0,
+        stateTax: 0,
+        totalTax: 0,
+        netToHeirs: -100_000,
+      });
+    });
+
+    it('resolves sunset, custom and portable exemptions', () => {
+      expect(resolveFederalExemption({ exemptionScenario: 'sunset' })).toBe(7_000_000);
+      expect(resolveFederalExemption({ exemptionScenario: 'custom', exemption: 5_000_000 })).toBe(5_000_000);
+      expect(resolveFederalExemption({ portability: true }, 2)).toBe(13_990_000 * 4);
+      expect(calculateEstateTax(20_000_000, { portability: true }).federalTax).toBe(0);
+    });
+
+    it('applies graduated state brackets and deducts them from the federal estate', () => {
+      expect(calculateStateDeathTax(2_000_000, STATE_DEATH_TAXES.OR)).toBeCloseTo(101_250, 6);
+      expect(calculateStateDeathTax(900_000, STATE_DEATH_TAXES.OR)).toBe(0);
+
+      const result = calculateEstateTax(20_000_000, { state: 'PA' });
+      expect(result.stateTax).toBeCloseTo(900_000, 6);
+      expect(result.federalTax).toBeCloseTo((20_000_000 - 900_000 - 13_990_000) * 0.4, 6);
+      expect(result.totalTax).toBeCloseTo(result.federalTax + result.stateTax, 6);
+    });
+
+    it('rejects unknown state schedules', () => {
+      expect(() => calculateEstateTax(1_000_000, { state: 'ZZ' })).toThrow('ZZ');
+    });
+  });
+
+  describe('calculateEstateAnalysis', () => {
+    it('applies federal estate tax to the net estate', () => {
+      const analysis = calculateEstateAnalysis({
+        terminalPortfolioValue: 25_000_000,
+        terminalLoanBalance: 1_000_000,
+        costBasis: 5_000_000,
+      });
+      expect(analysis.estateTax).toBeCloseTo((24_000_000 - 13_990_000) * 0.4, 6);
+      expect(analysis.netToHeirs).toBeCloseTo(24_000_000 - analysis.estateTax, 6);
+    });
+
+    it('taxes both estates in the BBD comparison', () => {
+      const comparison = calculateBBDComparison({
+        terminalPortfolioValue: 25_000_000,
+        terminalLoanBalance: 1_000_000,
+        costBasis: 5_000_000,
+      });
+      const sellEstate = 25_000_000 - comparison.taxesPaidIfSold;
+      expect(comparison.bbdNetEstate).toBeCloseTo(24_000_000 * 0.6 + 13_990_000 * 0.4, 6);
+      expect(comparison.sellNetEstate).toBeCloseTo(sellEstate - (sellEstate - 13_990_000) * 0.4, 6);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    // Constant 10% returns make every path identical
+    const portfolio: PortfolioConfig = {
+      assets: [{ id: 'SPY', weight: 1, historicalReturns: [0.1, 0.1] }],
+      correlationMatrix: [[1]],
+    };
+
+    const config: SimulationConfig = {
+      iterations: 10,
+      timeHorizon: 10,
+      initialValue: 20_000_000,
+      inflationAdjusted: false,
+      inflationRate: 0,
+      resamplingMethod: 'simple',
+      seed: 'estate-tax-test',
+      sbloc: {
+        targetLTV: 0.65,
+        interestRate: 0.05,
+        annualWithdrawal: 500_000,
+        annualWithdrawalRaise: 0,
+        monthlyWithdrawal: false,
+        maintenanceMargin: 0.5,
+        liquidationHaircut: 0.05,
+        initialLocBalance: 0,
+      },
+      sellStrategy: { costBasisRatio: 0.4, dividendYield: 0 },
+    };
+
+    it('reports net to heirs for both strategies after estate tax', async () => {
+      const untaxed = await runMonteCarlo(config, portfolio);
+      const taxed = await runMonteCarlo({ ...config, estateTax: { state: 'WA' } }, portfolio);
+      const { bbd, sell } = taxed.estateAnalysis!.estateTax!;
+
+      expect(untaxed.estateAnalysis!.estateTax).toBeUndefined();
+      expect(bbd.taxableProbability).toBe(100);
+      expect(sell!.taxableProbability).toBe(100);
+
+      const bbdTax = calculateEstateTax(untaxed.estateAnalysis!.bbdNetEstate, { state: 'WA' });
+      expect(bbd.netToHeirs.p50).toBeCloseTo(bbdTax.netToHeirs, 0);
+      expect(bbd.medianStateTax).toBeCloseTo(bbdTax.stateTax, 0);
+      expect(taxed.estateAnalysis!.bbdNetEstate).toBe(bbd.netToHeirs.p50);
+      expect(taxed.estateAnalysis!.sellNetEstate).toBe(sell!.netToHeirs.p50);
+      expect(sell!.netToHeirs.p50).toBeLessThan(untaxed.estateAnalysis!.sellNetEstate);
+    });
+
+    it('indexes the exemption with inflation for nominal results', async () => {
+      const result = await runMonteCarlo(
+        { ...config, inflationRate: 0.03, estateTax: {} },
+        portfolio
+      );
+      expect(result.estateAnalysis!.estateTax!.federalExemption)
+        .toBeCloseTo(13_990_000 * Math.pow(1.03, 10), 0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBracketTax,
+  calculateIncomeTax,
+  incrementalIncomeTax,
+  FEDERAL_CAPITAL_GAINS_BRACKETS,
+} from '../income-tax';
+import { calculateSellStrategyFromReturns } from '../sell-strategy';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { IncomeTaxConfig, PortfolioConfig, SimulationConfig } from '../../simulation/types';
+
+describe('Income tax', () => {
+  describe('calculateIncomeTax', () => {
+    it('taxes only the slice of each bracket the income reaches', () => {
+      expect(calculateBracketTax(40_000, 60_000, FEDERAL_CAPITAL_GAINS_BRACKETS.single)).toBeCloseTo(1_747.5, 6);
+      expect(calculateBracketTax(0, 40_000, FEDERAL_CAPITAL_GAINS_BRACKETS.single)).toBe(0);
+    });
+
+    it('leaves modest gains untaxed within the deduction and the 0% bracket', () => {
+      expect(calculateIncomeTax(0, 100_000, { filingStatus: 'married-joint' }).totalTax).toBe(0);
+      // $118.5K taxable: $21.8K above the 0% bracket at 15%
+      expect(calculateIncomeTax(0, 150_000, { filingStatus: 'married-joint' }).federalTax).toBeCloseTo(3_270, 6);
+    });
+
+    it('stacks gains on other income and adds NIIT and state tax', () => {
+      const config: IncomeTaxConfig = { filingStatus: 'single', state: 'CA', otherIncome: 200_000 };
+      const result = calculateIncomeTax(0, 100_000, config);
+
+      expect(result.federalTax).toBeCloseTo(15_000, 6);
+      expect(result.niit).toBeCloseTo(3_800, 6);
+      expect(result.stateTax).toBeCloseTo(9_300, 6);
+      expect(result.totalTax).toBeCloseTo(28_100, 6);
+      // Income realised earlier in the year pushes later income up the brackets
+      expect(incrementalIncomeTax(300_000, 100_000, config)).toBeGreaterThan(result.totalTax);
+    });
+
+    it('skips state tax in no-tax states and rejects unknown schedules', () => {
+      expect(calculateIncomeTax(0, 1_000_000, { filingStatus: 'single', state: 'TX' }).stateTax).toBe(0);
+      expect(() => calculateIncomeTax(0, 1_000, { filingStatus: 'single', state: 'XX' }))
+        .toThrow('Unknown state income tax schedule');
+    });
+
+    it('indexes thresholds but not the NIIT threshold', () => {
+      const config: IncomeTaxConfig = { filingStatus: 'married-joint' };
+      expect(calculateIncomeTax(0, 150_000, config, 2).federalTax).toBe(0);
+      expect(calculateIncomeTax(0, 300_000, config, 2).niit).toBeCloseTo(50_000 * 0.038, 6);
+    });
+  });
+
+  describe('simulation', () => {
+    it('taxes Sell strategy withdrawals at marginal rates instead of the flat rate', () => {
+      const base = {
+        initialValue: 2_000_000,
+        annualWithdrawal: 80_000,
+        withdrawalGrowth: 0,
+        timeHorizon: 5,
+        capitalGainsRate: 0.238,
+        costBasisRatio: 0.4,
+        dividendYield: 0.02,
+        dividendTaxRate: 0.238,
+      };
+      const returns = [0.05, 0.05, 0.05, 0.05, 0.05];
+      const flat = calculateSellStrategyFromReturns(base, returns);
+      const brackets = calculateSellStrategyFromReturns(
+        { ...base, incomeTax: { filingStatus: 'married-joint' } },
+        returns
+      );
+      const highEarner = calculateSellStrategyFromReturns(
+        { ...base, incomeTax: { filingStatus: 'married-joint', state: 'CA', otherIncome: 1_000_000 } },
+        returns
+      );
+
+      expect(brackets.totalDividendTaxes).toBe(0);
+      expect(brackets.totalCapitalGainsTaxes).toBeLessThan(flat.totalCapitalGainsTaxes);
+      expect(brackets.terminalValue).toBeGreaterThan(flat.terminalValue);
+      // 20% + 3.8% NIIT + 12.3% California exceeds the flat 23.8%
+      expect(highEarner.totalCapitalGainsTaxes).toBeGreaterThan(flat.totalCapitalGainsTaxes);
+    });
+
+    it('borrows BBD dividend taxes at the bracket rate', async () => {
+      const portfolio: PortfolioConfig = {
+        assets: [{ id: 'A', weight: 1, historicalReturns: [0.08, 0.12, -0.05, 0.10, 0.06] }],
+        correlationMatrix: [[1]],
+      };
+      const config: SimulationConfig = {
+        iterations: 200,
+        timeHorizon: 5,
+        initialValue: 1_000_000,
+        inflationAdjusted: false,
+        inflationRate: 0.025,
+        resamplingMethod: 'simple',
+        seed: 'income-tax',
+        sbloc: {
+          targetLTV: 0.65,
+          interestRate: 0.07,
+          annualWithdrawal: 40_000,
+          annualWithdrawalRaise: 0,
+          monthlyWithdrawal: false,
+          maintenanceMargin: 0.5,
+          liquidationHaircut: 0.05,
+          initialLocBalance: 0,
+        },
+        taxModeling: {
+          enabled: true,
+          taxAdvantaged: false,
+          dividendYield: 0.02,
+          ordinaryTaxRate: 0.37,
+          ltcgTaxRate: 0.238,
+        },
+      };
+
+      const flat = await runMonteCarlo(config, portfolio);
+      const brackets = await runMonteCarlo({
+        ...config,
+        taxModeling: { ...config.taxModeling!, incomeTax: { filingStatus: 'married-joint' } },
+      }, portfolio);
+
+      expect(flat.estateAnalysis!.medianDividendTaxesBorrowed).toBeGreaterThan(0);
+      // ~$20K of dividends a year stays within the deduction and the 0% bracket
+      expect(brackets.estateAnalysis!.medianDividendTaxesBorrowed).toBe(0);
+    });
+  });
+});
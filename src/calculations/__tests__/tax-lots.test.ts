@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  capitalGainsTaxByAsset,
+  createTaxLots,
+  rebalanceTaxLots,
+  sellFromLots,
+  totalLotValue,
+} from '../tax-lots';
+import type { TaxLot } from '../tax-lots';
+import { calculateSellStrategyFromReturns } from '../sell-strategy';
+import { executeForcedLiquidation } from '../../sbloc/liquidation';
+import { DEFAULT_SBLOC_CONFIG } from '../../sbloc/types';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { AssetConfig, PortfolioConfig, SimulationConfig } from '../../simulation/types';
+
+describe('Tax lots', () => {
+  // A concentrated low-basis position next to a high-basis one
+  const assets: AssetConfig[] = [
+    { id: 'AAPL', weight: 0.5, historicalReturns: [0], costBasisRatio: 0.05 },
+    { id: 'BND', weight: 0.5, historicalReturns: [0] },
+  ];
+
+  const lotBook = (): TaxLot[] => createTaxLots(assets, 1_000_000, 0.9);
+
+  describe('createTaxLots', () => {
+    it('uses per-asset basis, falling back to the portfolio ratio', () => {
+      expect(lotBook()).toEqual([
+        { assetId: 'AAPL', value: 500_000, costBasis: 25_000 },
+        { assetId: 'BND', value: 500_000, costBasis: 450_000 },
+      ]);
+    });
+
+    it('splits an asset into its configured lots', () => {
+      const lots = createTaxLots(
+        [{
+          id: 'AAPL',
+          weight: 1,
+          historicalReturns: [],
+          lots: [{ share: 0.25, costBasisRatio: 0.1 }, { share: 0.75, costBasisRatio: 0.8 }],
+        }],
+        400_000,
+        0.5
+      );
+      expect(lots).toEqual([
+        { assetId: 'AAPL', value: 100_000, costBasis: 10_000 },
+        { assetId: 'AAPL', value: 300_000, costBasis: 240_000 },
+      ]);
+    });
+  });
+
+  describe('sellFromLots', () => {
+    it('sells the same fraction of every lot pro-rata', () => {
+      const lots = lotBook();
+      const sale = sellFromLots(lots, 100_000, 'pro-rata');
+
+      expect(sale.proceeds).toBeCloseTo(100_000, 6);
+      expect(sale.gain).toBeCloseTo(100_000 - 47_500, 6);
+      expect(sale.byAsset.map(r => r.assetId)).toEqual(['AAPL', 'BND']);
+      expect(totalLotValue(lots)).toBeCloseTo(900_000, 6);
+    });
+
+    it('sells the highest-basis lots first', () => {
+      const sale = sellFromLots(lotBook(), 100_000, 'highest-basis');
+      expect(sale.byAsset).toEqual([
+        { assetId: 'BND', proceeds: 100_000, costBasis: 90_000, gain: 10_000 },
+      ]);
+    });
+
+    it('sells the smallest dollar gains first', () => {
+      const lots: TaxLot[] = [
+        { assetId: 'A', value: 100_000, costBasis: 50_000 },
+        { assetId: 'B', value: 400_000, costBasis: 300_000 },
+      ];
+      const sale = sellFromLots(lots, 150_000, 'lowest-gain');
+
+      // A's $50K gain is smaller than B's $100K, so A is sold out first
+      expect(sale.byAsset.map(r => r.assetId)).toEqual(['A', 'B']);
+      expect(sale.gain).toBeCloseTo(50_000 + 12_500, 6);
+    });
+
+    it('sells the chosen asset first, then the rest by basis', () => {
+      const sale = sellFromLots(lotBook(), 600_000, 'specific-asset', 'AAPL');
+      expect(sale.byAsset.map(r => r.assetId)).toEqual(['AAPL', 'BND']);
+      expect(sale.byAsset[0].proceeds).toBeCloseTo(500_000, 6);
+      expect(sale.byAsset[1].proceeds).toBeCloseTo(100_000, 6);
+    });
+  });
+
+  describe('rebalanceTaxLots', () => {
+    it('sells the overweight asset and buys the shortfall at full basis', () => {
+      const lots: TaxLot[] = [
+        { assetId: 'AAPL', value: 700_000, costBasis: 35_000 },
+        { assetId: 'BND', value: 300_000, costBasis: 270_000 },
+      ];
+      const sale = rebalanceTaxLots(lots, { AAPL: 0.5, BND: 0.5 }, 'highest-basis');
+
+      expect(sale.proceeds).toBeCloseTo(200_000, 6);
+      expect(sale.gain).toBeCloseTo(200_000 * 0.95, 6);
+      expect(lots).toContainEqual({ assetId: 'BND', value: 200_000, costBasis: 200_000 });
+      expect(totalLotValue(lots)).toBeCloseTo(1_000_000, 6);
+    });
+  });
+
+  describe('capitalGainsTaxByAsset', () => {
+    it('splits the net tax across assets with gains', () => {
+      const taxes = capitalGainsTaxByAsset(
+        [
+          { assetId: 'A', proceeds: 100, costBasis: 40, gain: 60 },
+          { assetId: 'B', proceeds: 100, costBasis: 120, gain: -20 },
+          { assetId: 'C', proceeds: 100, costBasis: 80, gain: 20 },
+        ],
+        0.2
+      );
+      // Net gain $60 taxed at 20%, allocated 3:0:1
+      expect(taxes[0]).toBeCloseTo(9, 10);
+      expect(taxes[1]).toBe(0);
+      expect(taxes[2]).toBeCloseTo(3, 10);
+    });
+  });
+
+  describe('calculateSellStrategyFromReturns', () => {
+    const base = {
+      initialValue: 1_000_000,
+      annualWithdrawal: 100_000,
+      withdrawalGrowth: 0,
+      timeHorizon: 1,
+      capitalGainsRate: 0.2,
+      costBasisRatio: 0.9,
+      dividendYield: 0,
+    };
+
+    it('pays less tax selling highest-basis lots first', () => {
+      const proRata = calculateSellStrategyFromReturns(
+        { ...base, lots: lotBook(), liquidationOrder: 'pro-rata' }, [0]
+      );
+      const highestBasis = calculateSellStrategyFromReturns(
+        { ...base, lots: lotBook(), liquidationOrder: 'highest-basis' }, [0]
+      );
+
+      expect(highestBasis.totalCapitalGainsTaxes).toBeLessThan(proRata.totalCapitalGainsTaxes);
+      expect(highestBasis.terminalValue).toBeGreaterThan(proRata.terminalValue);
+      // Only BND is sold: the sale S covers the withdrawal plus 20% of its 10% gain
+      const sale = 100_000 / (1 - 0.2 * 0.1);
+      expect(highestBasis.capitalGainsTaxesByAsset![0].BND).toBeCloseTo(sale * 0.1 * 0.2, 0);
+      expect(highestBasis.capitalGainsTaxesByAsset![0].AAPL ?? 0).toBe(0);
+    });
+  });
+
+  describe('executeForcedLiquidation', () => {
+    it('reports realised gains per asset for the assets sold', () => {
+      const lots = lotBook();
+      const { newState, event } = executeForcedLiquidation(
+        {
+          loanBalance: 700_000,
+          portfolioValue: 1_000_000,
+          currentLTV: 0.7,
+          inWarningZone: true,
+          yearsSinceStart: 3,
+          lots,
+        },
+        { ...DEFAULT_SBLOC_CONFIG, liquidationOrder: 'highest-basis', capitalGainsRate: 0.2 }
+      );
+
+      expect(event.assetsLiquidated).toBeGreaterThan(0);
+      expect(event.realizedGains!.map(r => r.assetId)).toEqual(['BND']);
+      expect(event.capitalGainsTax).toBeCloseTo(event.realizedGains![0].gain * 0.2, 6);
+      expect(totalLotValue(newState.lots!)).toBeCloseTo(newState.portfolioValue, 6);
+      // The caller's lot book is left untouched
+      expect(totalLotValue(lots)).toBe(1_000_000);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    const portfolio: PortfolioConfig = {
+      assets: [
+        { id: 'A', weight: 0.6, historicalReturns: [-0.3, -0.3], costBasisRatio: 0.1 },
+        { id: 'B', weight: 0.4, historicalReturns: [0, 0], costBasisRatio: 0.95 },
+      ],
+      correlationMatrix: [[1, 0], [0, 1]],
+    };
+
+    const config: SimulationConfig = {
+      iterations: 10,
+      timeHorizon: 3,
+      initialValue: 1_000_000,
+      inflationAdjusted: false,
+      inflationRate: 0,
+      resamplingMethod: 'simple',
+      seed: 'tax-lots-test',
+      liquidation: { order: 'highest-basis' },
+      sbloc: {
+        targetLTV: 0.65,
+        interestRate: 0.07,
+        annualWithdrawal: 50_000,
+        annualWithdrawalRaise: 0,
+        monthlyWithdrawal: false,
+        maintenanceMargin: 0.5,
+        liquidationHaircut: 0.05,
+        initialLocBalance: 500_000,
+      },
+      sellStrategy: { costBasisRatio: 0.4, dividendYield: 0 },
+    };
+
+    it('reports forced-sale and sell-strategy taxes per asset', async () => {
+      const result = await runMonteCarlo(config, portfolio);
+
+      const forced = result.debugStats!.liquidationGainsByAsset!;
+      expect(result.debugStats!.liquidationOrder).toBe('highest-basis');
+      expect(forced.map(a => a.assetId)).toEqual(['A', 'B']);
+
+      // Selling the high-basis bond first realises less tax than selling pro-rata
+      const proRata = await runMonteCarlo({ ...config, liquidation: { order: 'pro-rata' } }, portfolio);
+      const forcedTax = (stats: typeof forced) => stats.reduce((sum, a) => sum + a.capitalGainsTax.median, 0);
+      expect(forcedTax(forced)).toBeLessThan(forcedTax(proRata.debugStats!.liquidationGainsByAsset!));
+
+      const byAsset = result.sellStrategy!.byAsset!;
+      expect(byAsset.map(a => a.assetId)).toEqual(['A', 'B']);
+      expect(byAsset[0].medianTaxes).toHaveLength(3);
+    });
+
+    it('omits sell-strategy lots without per-asset basis or a sale order', async () => {
+      const plain: PortfolioConfig = {
+        ...portfolio,
+        assets: portfolio.assets.map(({ costBasisRatio: _basis, ...asset }) => asset),
+      };
+      const result = await runMonteCarlo({ ...config, liquidation: undefined }, plain);
+
+      expect(result.sellStrategy!.byAsset).toBeUndefined();
+      // Forced sales always report gains, at the portfolio-wide basis
+      expect(result.debugStats!.liquidationOrder).toBe('pro-rata');
+    });
+  });
+});
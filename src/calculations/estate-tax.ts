@@ -0,0 +1,288 @@
+/**
+ * Estate and Inheritance Tax
+ *
+ * Applies death taxes to the estate each strategy leaves behind:
+ * - Federal estate tax: a flat rate (40% by default) on the estate above the
+ *   exemption. The graduated brackets below 40% are absorbed by the unified
+ *   credit for any estate large enough to owe tax, so a flat rate is exact.
+ * - Portability: a surviving spouse inherits the unused exemption of the
+ *   first spouse to die, doubling the exemption for married couples.
+ * - State estate or inheritance tax: graduated rates on the amount above the
+ *   state exemption. State death taxes are deductible from the federal
+ *   taxable estate (IRC Section 2058).
+ *
+ * State schedules are simplified 2025 tables. Cliffs (New York), per-heir
+ * exemptions and rates for non-lineal heirs are not modeled; inheritance
+ * taxes assume the estate passes to children.
+ *
+ * References:
+ * - IRC Section 2001 (Imposition and rate of tax)
+ * - IRC Section 2010(c) (Unified credit, deceased spousal unused exclusion)
+ * - IRC Section 2058 (State death taxes)
+ */
+
+import type { EstateTaxConfig } from '../simulation/types';
+import { DEFAULT_CALCULATION_CONFIG } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Marginal rate applying to the taxable amount above a threshold
+ */
+export interface DeathTaxBracket {
+  /** Amount above the exemption where this rate starts (USD) */
+  over: number;
+  /** Marginal rate (0-1) */
+  rate: number;
+}
+
+/**
+ * State estate or inheritance tax schedule
+ */
+export interface StateDeathTax {
+  /** Display name */
+  name: string;
+  /** Estate tax (paid by the estate) or inheritance tax (paid by heirs) */
+  kind: 'estate' | 'inheritance';
+  /** Amount exempt from tax (USD) */
+  exemption: number;
+  /** Graduated brackets, ascending by threshold */
+  brackets: DeathTaxBracket[];
+}
+
+/**
+ * Death taxes owed on one estate
+ */
+export interface EstateTaxResult {
+  /** Federal estate tax */
+  federalTax: number;
+  /** State estate or inheritance tax */
+  stateTax: number;
+  /** Federal plus state tax */
+  totalTax: number;
+  /** Estate left to heirs after all death taxes */
+  netToHeirs: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Federal estate tax rate above the exemption
+ */
+export const DEFAULT_FEDERAL_ESTATE_TAX_RATE = 0.40;
+
+/**
+ * Per-person federal exemption if the current exemption sunsets
+ * (the pre-2018 $5M exemption indexed to 2026, roughly half of today's)
+ */
+export const SUNSET_ESTATE_TAX_EXEMPTION = 7_000_000;
+
+/**
+ * States with an estate or inheritance tax on estates passing to children
+ */
+export const STATE_DEATH_TAXES: Record<string, StateDeathTax> = {
+  WA: {
+    name: 'Washington',
+    kind: 'estate',
+    exemption: 3_000_000,
+    brackets: [
+      { over: 0, rate: 0.10 },
+      { over: 1_000_000, rate: 0.15 },
+      { over: 2_000_000, rate: 0.17 },
+      { over: 3_000_000, rate: 0.19 },
+      { over: 4_000_000, rate: 0.23 },
+      { over: 6_000_000, rate: 0.26 },
+      { over: 7_000_000, rate: 0.30 },
+      { over: 9_000_000, rate: 0.35 },
+    ],
+  },
+  OR: {
+    name: 'Oregon',
+    kind: 'estate',
+    exemption: 1_000_000,
+    brackets: [
+      { over: 0, rate: 0.10 },
+      { over: 500_000, rate: 0.1025 },
+      { over: 1_500_000, rate: 0.105 },
+      { over: 2_500_000, rate: 0.11 },
+      { over: 3_500_000, rate: 0.12 },
+      { over: 4_500_000, rate: 0.13 },
+      { over: 5_500_000, rate: 0.14 },
+      { over: 6_500_000, rate: 0.15 },
+      { over: 7_500_000, rate: 0.16 },
+    ],
+  },
+  MA: {
+    name: 'Massachusetts',
+    kind: 'estate',
+    exemption: 2_000_000,
+    brackets: [
+      { over: 0, rate: 0.104 },
+      { over: 500_000, rate: 0.112 },
+      { over: 1_000_000, rate: 0.12 },
+      { over: 1_500_000, rate: 0.128 },
+      { over: 2_000_000, rate: 0.136 },
+      { over: 3_000_000, rate: 0.144 },
+      { over: 4_000_000, rate: 0.152 },
+      { over: 5_000_000, rate: 0.16 },
+    ],
+  },
+  NY: {
+    name: 'New York',
+    kind: 'estate',
+    exemption: 7_160_000,
+    brackets: [
+      { over: 0, rate: 0.136 },
+      { over: 1_000_000, rate: 0.144 },
+      { over: 2_000_000, rate: 0.152 },
+      { over: 3_000_000, rate: 0.16 },
+    ],
+  },
+  IL: {
+    name: 'Illinois',
+    kind: 'estate',
+    exemption: 4_000_000,
+    brackets: [
+      { over: 0, rate: 0.128 },
+      { over: 1_000_000, rate: 0.136 },
+      { over: 2_000_000, rate: 0.144 },
+      { over: 3_000_000, rate: 0.152 },
+      { over: 4_000_000, rate: 0.16 },
+    ],
+  },
+  PA: {
+    name: 'Pennsylvania',
+    kind: 'inheritance',
+    exemption: 0,
+    brackets: [{ over: 0, rate: 0.045 }],
+  },
+  NE: {
+    name: 'Nebraska',
+    kind: 'inheritance',
+    exemption: 100_000,
+    brackets: [{ over: 0, rate: 0.01 }],
+  },
+};
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+/**
+ * Resolve the federal exemption available at death
+ *
+ * @param config - Estate tax configuration
+ * @param indexation - Growth factor applied to today's dollar thresholds
+ * @returns Exemption in dollars, doubled when portability applies
+ *
+ * @example
+ * ```typescript
+ * resolveFederalExemption({ exemptionScenario: 'sunset', portability: true });
+ * // Returns: 14000000
+ * ```
+ */
+export function resolveFederalExemption(
+  config: EstateTaxConfig,
+  indexation: number = 1
+): number {
+  let exemption: number;
+  switch (config.exemptionScenario ?? 'current-law') {
+    case 'sunset':
+      exemption = SUNSET_ESTATE_TAX_EXEMPTION;
+      break;
+    case 'custom':
+      exemption = config.exemption ?? DEFAULT_CALCULATION_CONFIG.estateTaxExemption;
+      break;
+    default:
+      exemption = DEFAULT_CALCULATION_CONFIG.estateTaxExemption;
+  }
+  return exemption * indexation * (config.portability ? 2 : 1);
+}
+
+/**
+ * Calculate state estate or inheritance tax
+ *
+ * @param estate - Net estate (assets less debts)
+ * @param schedule - State schedule
+ * @param indexation - Growth factor applied to the exemption and brackets
+ * @returns State tax owed
+ *
+ * @example
+ * ```typescript
+ * calculateStateDeathTax(2_000_000, STATE_DEATH_TAXES.OR);
+ * // Returns: 101250 (10% of $500K + 10.25% of $500K)
+ * ```
+ */
+export function calculateStateDeathTax(
+  estate: number,
+  schedule: StateDeathTax,
+  indexation: number = 1
+): number {
+  const taxable = estate - schedule.exemption * indexation;
+  if (taxable <= 0) return 0;
+
+  let tax = 0;
+  schedule.brackets.forEach((bracket, index) => {
+    const start = bracket.over * indexation;
+    const next = schedule.brackets[index + 1];
+    const end = next ? next.over * indexation : Infinity;
+    if (taxable > start) {
+      tax += (Math.min(taxable, end) - start) * bracket.rate;
+    }
+  });
+  return tax;
+}
+
+/**
+ * Calculate federal and state death taxes on an estate
+ *
+ * The state tax is computed first and deducted from the federal taxable
+ * estate. Estates at or below zero owe nothing and pass through unchanged.
+ *
+ * @param netEstate - Net estate (assets less debts, e.g. portfolio - loan)
+ * @param config - Estate tax configuration
+ * @param indexation - Growth factor applied to today's dollar thresholds
+ * @returns Federal, state and total tax, and the amount left to heirs
+ * @throws Error if config.state is not a key of STATE_DEATH_TAXES
+ *
+ * @example
+ * ```typescript
+ * const result = calculateEstateTax(20_000_000, { exemptionScenario: 'sunset' });
+ * // federalTax: 5200000 (40% of $13M above the $7M exemption)
+ * // netToHeirs: 14800000
+ * ```
+ */
+export function calculateEstateTax(
+  netEstate: number,
+  config: EstateTaxConfig = {},
+  indexation: number = 1
+): EstateTaxResult {
+  let schedule: StateDeathTax | undefined;
+  if (config.state) {
+    schedule = STATE_DEATH_TAXES[config.state];
+    if (!schedule) {
+      throw new Error(`Unknown state estate tax schedule: ${config.state}`);
+    }
+  }
+
+  if (netEstate <= 0) {
+    return { federalTax: 0, stateTax: 0, totalTax: 0, netToHeirs: netEstate };
+  }
+
+  const stateTax = schedule ? calculateStateDeathTax(netEstate, schedule, indexation) : 0;
+  const federalTaxable = netEstate - stateTax - resolveFederalExemption(config, indexation);
+  const federalRate = config.federalRate ?? DEFAULT_FEDERAL_ESTATE_TAX_RATE;
+  const federalTax = Math.max(0, federalTaxable) * federalRate;
+  const totalTax = federalTax + stateTax;
+
+  return {
+    federalTax,
+    stateTax,
+    totalTax,
+    netToHeirs: netEstate - totalTax,
+  };
+}
@@ -4,6 +4,7 @@
  * Calculates the tax advantages of the Buy-Borrow-Die strategy:
  * - Embedded capital gains (unrealized appreciation)
  * - Stepped-up basis savings (tax avoided at death)
+ * - Federal estate tax above the exemption (see estate-tax.ts)
  * - BBD vs Sell comparison
  *
  * Key Tax Concept - Stepped-Up Basis:
@@ -30,6 +31,7 @@ import type {
   CalculationConfig,
 } from './types';
 import { DEFAULT_CALCULATION_CONFIG } from './types';
+import { calculateEstateTax } from './estate-tax';
 
 // ============================================================================
 // Parameter Types
@@ -126,6 +128,21 @@ export function calculateSteppedUpBasisSavings(
   return embeddedGains * capitalGainsTaxRate;
 }
 
+/**
+ * Calculate federal estate tax under a calculation configuration
+ *
+ * @param netEstate - Net estate (assets less debts)
+ * @param config - Calculation configuration with exemption and rate
+ * @returns Federal estate tax owed
+ */
+function federalEstateTax(netEstate: number, config: CalculationConfig): number {
+  return calculateEstateTax(netEstate, {
+    exemptionScenario: 'custom',
+    exemption: config.estateTaxExemption,
+    federalRate: config.estateTaxRate,
+  }).federalTax;
+}
+
 /**
  * Calculate tax if entire portfolio were sold
  *
@@ -170,7 +187,7 @@ export function calculateTaxIfSold(
  * - Net estate value (portfolio minus loan)
  * - Embedded capital gains
  * - Tax savings from stepped-up basis
- * - Estate tax exemption threshold for context
+ * - Federal estate tax above the exemption and the net left to heirs
  *
  * @param params - Estate analysis parameters
  * @returns Complete EstateAnalysis object
@@ -191,7 +208,9 @@ export function calculateTaxIfSold(
  * //   netEstate: 4200000,          // $5M - $800k loan
  * //   embeddedCapitalGains: 4000000, // $5M - $1M basis
  * //   steppedUpBasisSavings: 952000, // $4M * 23.8%
- * //   estateTaxExemption: 13990000
+ * //   estateTaxExemption: 13990000,
+ * //   estateTax: 0,                  // Below the exemption
+ * //   netToHeirs: 4200000
  * // }
  * ```
  */
@@ -220,6 +239,9 @@ export function calculateEstateAnalysis(
     config.capitalGainsTaxRate
   );
 
+  // Federal estate tax on the net estate above the exemption
+  const estateTax = federalEstateTax(netEstate, config);
+
   return {
     terminalPortfolioValue,
     terminalLoanBalance,
@@ -227,6 +249,8 @@ export function calculateEstateAnalysis(
     embeddedCapitalGains,
     steppedUpBasisSavings,
     estateTaxExemption: config.estateTaxExemption,
+    estateTax,
+    netToHeirs: netEstate - estateTax,
   };
 }
 
@@ -240,13 +264,16 @@ export function calculateEstateAnalysis(
  *    - Borrow against portfolio for spending (SBLOC)
  *    - At death: heirs inherit portfolio with stepped-up basis
  *    - Heirs pay off loan from portfolio value
- *    - Net estate = Portfolio - Loan
+ *    - Net estate = Portfolio - Loan - Estate Tax
  *
  * 2. Sell Strategy (Traditional):
  *    - Sell assets as needed for spending
  *    - Pay capital gains tax on each sale
  *    - No loan to repay
- *    - Net estate = Portfolio - Taxes Paid
+ *    - Net estate = Portfolio - Taxes Paid - Estate Tax
+ *
+ * Both estates owe federal estate tax on the amount above the exemption,
+ * which narrows the gap between them for large estates.
  *
  * The comparison shows the "BBD advantage" - how much more wealth
  * is preserved by avoiding capital gains taxes through borrowing.
@@ -287,9 +314,10 @@ export function calculateBBDComparison(
     config = DEFAULT_CALCULATION_CONFIG,
   } = params;
 
-  // BBD Strategy: Portfolio minus loan balance
+  // BBD Strategy: Portfolio minus loan balance, less estate tax
   // Heirs inherit portfolio, pay off loan, keep the rest
-  const bbdNetEstate = terminalPortfolioValue - terminalLoanBalance;
+  const bbdEstate = terminalPortfolioValue - terminalLoanBalance;
+  const bbdNetEstate = bbdEstate - federalEstateTax(bbdEstate, config);
 
   // Calculate taxes that would have been paid if selling
   const taxesPaidIfSold = calculateTaxIfSold(
@@ -298,9 +326,10 @@ export function calculateBBDComparison(
     config
   );
 
-  // Sell Strategy: Portfolio minus taxes paid
+  // Sell Strategy: Portfolio minus taxes paid, less estate tax
   // No loan, but had to pay capital gains taxes
-  const sellNetEstate = terminalPortfolioValue - taxesPaidIfSold;
+  const sellEstate = terminalPortfolioValue - taxesPaidIfSold;
+  const sellNetEstate = sellEstate - federalEstateTax(sellEstate, config);
 
   // BBD advantage = difference in net estate
   // Positive = BBD is better, Negative = selling is better
@@ -0,0 +1,350 @@
+/**
+ * Progressive Income and Capital Gains Tax
+ *
+ * Taxes the income a portfolio realises each year - dividends and long-term
+ * capital gains - with progressive brackets instead of a flat rate:
+ * - Federal long-term capital gains and qualified dividend brackets
+ *   (0/15/20%) by filing status, stacked on top of ordinary income after the
+ *   standard deduction
+ * - Net Investment Income Tax: 3.8% on investment income above a MAGI
+ *   threshold (thresholds are statutory and not inflation indexed)
+ * - State income tax, which taxes capital gains as ordinary income
+ *
+ * Portfolio income is treated as long-term gains and qualified dividends.
+ * Other income (wages, pensions) is ordinary income: it is not taxed here,
+ * but it uses up the standard deduction and the lower brackets first.
+ *
+ * Federal figures are 2025 (Rev. Proc. 2024-40, standard deduction as amended
+ * in 2025). State schedules are simplified 2025 tables without deductions or
+ * credits; schedules without joint brackets apply the single brackets to every
+ * filing status.
+ *
+ * References:
+ * - IRC Section 1 (Tax imposed), 1(h) (Maximum capital gains rate)
+ * - IRC Section 63 (Standard deduction)
+ * - IRC Section 1411 (Net investment income tax)
+ */
+
+import type { FilingStatus, IncomeTaxConfig } from '../simulation/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Marginal rate applying to taxable income above a threshold
+ */
+export interface IncomeTaxBracket {
+  /** Taxable income where this rate starts (USD) */
+  over: number;
+  /** Marginal rate (0-1) */
+  rate: number;
+}
+
+/**
+ * State income tax schedule
+ */
+export interface StateIncomeTax {
+  /** Display name */
+  name: string;
+  /** Brackets for single filers, ascending by threshold (empty = no income tax) */
+  brackets: IncomeTaxBracket[];
+  /** Brackets for married couples filing jointly (omitted = single brackets) */
+  jointBrackets?: IncomeTaxBracket[];
+}
+
+/**
+ * Income taxes owed on a year's portfolio income
+ */
+export interface IncomeTaxResult {
+  /** Federal tax on the portfolio income at the capital gains rates */
+  federalTax: number;
+  /** Net Investment Income Tax */
+  niit: number;
+  /** State income tax on the portfolio income */
+  stateTax: number;
+  /** Federal, NIIT and state tax */
+  totalTax: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Federal long-term capital gains and qualified dividend brackets (2025)
+ */
+export const FEDERAL_CAPITAL_GAINS_BRACKETS: Record<FilingStatus, IncomeTaxBracket[]> = {
+  single: [
+    { over: 0, rate: 0 },
+    { over: 48_350, rate: 0.15 },
+    { over: 533_400, rate: 0.20 },
+  ],
+  'married-joint': [
+    { over: 0, rate: 0 },
+    { over: 96_700, rate: 0.15 },
+    { over: 600_050, rate: 0.20 },
+  ],
+  'married-separate': [
+    { over: 0, rate: 0 },
+    { over: 48_350, rate: 0.15 },
+    { over: 300_000, rate: 0.20 },
+  ],
+  'head-of-household': [
+    { over: 0, rate: 0 },
+    { over: 64_750, rate: 0.15 },
+    { over: 566_700, rate: 0.20 },
+  ],
+};
+
+/**
+ * Federal standard deduction (2025)
+ */
+export const STANDARD_DEDUCTION: Record<FilingStatus, number> = {
+  single: 15_750,
+  'married-joint': 31_500,
+  'married-separate': 15_750,
+  'head-of-household': 23_625,
+};
+
+/**
+ * Net Investment Income Tax rate
+ */
+export const NIIT_RATE = 0.038;
+
+/**
+ * MAGI above which the NIIT applies (fixed by statute, not indexed)
+ */
+export const NIIT_THRESHOLDS: Record<FilingStatus, number> = {
+  single: 200_000,
+  'married-joint': 250_000,
+  'married-separate': 125_000,
+  'head-of-household': 200_000,
+};
+
+/**
+ * State income tax schedules, including states without an income tax
+ */
+export const STATE_INCOME_TAXES: Record<string, StateIncomeTax> = {
+  CA: {
+    name: 'California',
+    brackets: [
+      { over: 0, rate: 0.01 },
+      { over: 10_756, rate: 0.02 },
+      { over: 25_499, rate: 0.04 },
+      { over: 40_245, rate: 0.06 },
+      { over: 55_866, rate: 0.08 },
+      { over: 70_606, rate: 0.093 },
+      { over: 360_659, rate: 0.103 },
+      { over: 432_787, rate: 0.113 },
+      { over: 721_314, rate: 0.123 },
+      { over: 1_000_000, rate: 0.133 },
+    ],
+    jointBrackets: [
+      { over: 0, rate: 0.01 },
+      { over: 21_512, rate: 0.02 },
+      { over: 50_998, rate: 0.04 },
+      { over: 80_490, rate: 0.06 },
+      { over: 111_732, rate: 0.08 },
+      { over: 141_212, rate: 0.093 },
+      { over: 721_318, rate: 0.103 },
+      { over: 865_574, rate: 0.113 },
+      { over: 1_000_000, rate: 0.123 },
+      { over: 1_442_628, rate: 0.133 },
+    ],
+  },
+  NY: {
+    name: 'New York',
+    brackets: [
+      { over: 0, rate: 0.04 },
+      { over: 8_500, rate: 0.045 },
+      { over: 11_700, rate: 0.0525 },
+      { over: 13_900, rate: 0.055 },
+      { over: 80_650, rate: 0.06 },
+      { over: 215_400, rate: 0.0685 },
+      { over: 1_077_550, rate: 0.0965 },
+      { over: 5_000_000, rate: 0.103 },
+      { over: 25_000_000, rate: 0.109 },
+    ],
+    jointBrackets: [
+      { over: 0, rate: 0.04 },
+      { over: 17_150, rate: 0.045 },
+      { over: 23_600, rate: 0.0525 },
+      { over: 27_900, rate: 0.055 },
+      { over: 161_550, rate: 0.06 },
+      { over: 323_200, rate: 0.0685 },
+      { over: 2_155_350, rate: 0.0965 },
+      { over: 5_000_000, rate: 0.103 },
+      { over: 25_000_000, rate: 0.109 },
+    ],
+  },
+  NJ: {
+    name: 'New Jersey',
+    brackets: [
+      { over: 0, rate: 0.014 },
+      { over: 20_000, rate: 0.0175 },
+      { over: 35_000, rate: 0.035 },
+      { over: 40_000, rate: 0.05525 },
+      { over: 75_000, rate: 0.0637 },
+      { over: 500_000, rate: 0.0897 },
+      { over: 1_000_000, rate: 0.1075 },
+    ],
+    jointBrackets: [
+      { over: 0, rate: 0.014 },
+      { over: 20_000, rate: 0.0175 },
+      { over: 50_000, rate: 0.0245 },
+      { over: 70_000, rate: 0.035 },
+      { over: 80_000, rate: 0.05525 },
+      { over: 150_000, rate: 0.0637 },
+      { over: 500_000, rate: 0.0897 },
+      { over: 1_000_000, rate: 0.1075 },
+    ],
+  },
+  MA: {
+    name: 'Massachusetts',
+    brackets: [
+      { over: 0, rate: 0.05 },
+      { over: 1_083_150, rate: 0.09 },
+    ],
+  },
+  IL: { name: 'Illinois', brackets: [{ over: 0, rate: 0.0495 }] },
+  PA: { name: 'Pennsylvania', brackets: [{ over: 0, rate: 0.0307 }] },
+  CO: { name: 'Colorado', brackets: [{ over: 0, rate: 0.044 }] },
+  NC: { name: 'North Carolina', brackets: [{ over: 0, rate: 0.0425 }] },
+  AZ: { name: 'Arizona', brackets: [{ over: 0, rate: 0.025 }] },
+  AK: { name: 'Alaska', brackets: [] },
+  FL: { name: 'Florida', brackets: [] },
+  NV: { name: 'Nevada', brackets: [] },
+  NH: { name: 'New Hampshire', brackets: [] },
+  SD: { name: 'South Dakota', brackets: [] },
+  TN: { name: 'Tennessee', brackets: [] },
+  TX: { name: 'Texas', brackets: [] },
+  WY: { name: 'Wyoming', brackets: [] },
+};
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+/**
+ * Tax on the slice of income between two levels of taxable income
+ *
+ * @param from - Taxable income already taxed (USD)
+ * @param to - Taxable income including the slice (USD)
+ * @param brackets - Graduated brackets, ascending by threshold
+ * @param indexation - Growth factor applied to the thresholds
+ * @returns Tax on the slice
+ *
+ * @example
+ * ```typescript
+ * calculateBracketTax(40_000, 60_000, FEDERAL_CAPITAL_GAINS_BRACKETS.single);
+ * // Returns: 1747.5 (0% up to $48,350, 15% on the $11,650 above it)
+ * ```
+ */
+export function calculateBracketTax(
+  from: number,
+  to: number,
+  brackets: IncomeTaxBracket[],
+  indexation: number = 1
+): number {
+  let tax = 0;
+  brackets.forEach((bracket, index) => {
+    const start = bracket.over * indexation;
+    const next = brackets[index + 1];
+    const end = next ? next.over * indexation : Infinity;
+    const slice = Math.min(to, end) - Math.max(from, start);
+    if (slice > 0) {
+      tax += slice * bracket.rate;
+    }
+  });
+  return tax;
+}
+
+/**
+ * Look up the state schedule of an income tax configuration
+ *
+ * @throws Error if config.state is not a key of STATE_INCOME_TAXES
+ */
+function resolveStateIncomeTax(config: IncomeTaxConfig): IncomeTaxBracket[] {
+  if (!config.state) return [];
+  const schedule = STATE_INCOME_TAXES[config.state];
+  if (!schedule) {
+    throw new Error(`Unknown state income tax schedule: ${config.state}`);
+  }
+  return config.filingStatus === 'married-joint' && schedule.jointBrackets
+    ? schedule.jointBrackets
+    : schedule.brackets;
+}
+
+/**
+ * Calculate the taxes on a slice of portfolio income
+ *
+ * The slice is stacked on top of the year's other income and on any
+ * portfolio income already realised earlier in the year, so it is taxed at
+ * the marginal rates it actually reaches.
+ *
+ * @param prior - Portfolio income already realised this year (USD)
+ * @param income - Portfolio income to tax (USD)
+ * @param config - Filing status, state and other income
+ * @param indexation - Growth factor applied to today's dollar thresholds
+ * @returns Federal, NIIT, state and total tax on the slice
+ * @throws Error if config.state is not a key of STATE_INCOME_TAXES
+ *
+ * @example
+ * ```typescript
+ * calculateIncomeTax(0, 100_000, { filingStatus: 'married-joint' }).totalTax;
+ * // Returns: 0 (within the standard deduction and the 0% bracket)
+ * ```
+ */
+export function calculateIncomeTax(
+  prior: number,
+  income: number,
+  config: IncomeTaxConfig,
+  indexation: number = 1
+): IncomeTaxResult {
+  const stateBrackets = resolveStateIncomeTax(config);
+  if (income <= 0) {
+    return { federalTax: 0, niit: 0, stateTax: 0, totalTax: 0 };
+  }
+
+  const status = config.filingStatus;
+  const otherIncome = Math.max(0, config.otherIncome ?? 0) * indexation;
+  const start = otherIncome + Math.max(0, prior);
+  const end = start + income;
+
+  // Federal: the deduction shelters ordinary income first, and capital gains
+  // fill the brackets above taxable ordinary income
+  const deduction = STANDARD_DEDUCTION[status] * indexation;
+  const federalTax = calculateBracketTax(
+    Math.max(0, start - deduction),
+    Math.max(0, end - deduction),
+    FEDERAL_CAPITAL_GAINS_BRACKETS[status],
+    indexation
+  );
+
+  // NIIT: investment income above the threshold; the threshold is not indexed
+  const threshold = NIIT_THRESHOLDS[status];
+  const niit = Math.max(0, end - Math.max(start, threshold)) * NIIT_RATE;
+
+  const stateTax = calculateBracketTax(start, end, stateBrackets, indexation);
+
+  return { federalTax, niit, stateTax, totalTax: federalTax + niit + stateTax };
+}
+
+/**
+ * Total tax on a slice of portfolio income
+ *
+ * @param prior - Portfolio income already realised this year (USD)
+ * @param income - Portfolio income to tax (USD)
+ * @param config - Filing status, state and other income
+ * @param indexation - Growth factor applied to today's dollar thresholds
+ * @returns Tax owed on the slice
+ */
+export function incrementalIncomeTax(
+  prior: number,
+  income: number,
+  config: IncomeTaxConfig,
+  indexation: number = 1
+): number {
+  return calculateIncomeTax(prior, income, config, indexation).totalTax;
+}
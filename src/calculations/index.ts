@@ -8,7 +8,10 @@
  * - TWRR (Time-Weighted Rate of Return)
  * - Margin call probability analysis
  * - Estate analysis and BBD tax advantages
+ * - Federal estate and state inheritance tax
+ * - Progressive federal and state income tax on portfolio income
  * - Salary equivalent calculations
+ * - Per-asset tax lots and liquidation ordering
  *
  * Usage:
  * ```typescript
@@ -101,6 +104,40 @@ export {
 // Also export parameter types from estate module
 export type { EstateAnalysisParams, BBDComparisonParams } from './estate';
 
+// ============================================================================
+// Estate and Inheritance Tax
+// ============================================================================
+
+export {
+  calculateEstateTax,
+  calculateStateDeathTax,
+  resolveFederalExemption,
+  DEFAULT_FEDERAL_ESTATE_TAX_RATE,
+  SUNSET_ESTATE_TAX_EXEMPTION,
+  STATE_DEATH_TAXES,
+  type DeathTaxBracket,
+  type StateDeathTax,
+  type EstateTaxResult,
+} from './estate-tax';
+
+// ============================================================================
+// Income and Capital Gains Tax
+// ============================================================================
+
+export {
+  calculateIncomeTax,
+  calculateBracketTax,
+  incrementalIncomeTax,
+  FEDERAL_CAPITAL_GAINS_BRACKETS,
+  STANDARD_DEDUCTION,
+  NIIT_RATE,
+  NIIT_THRESHOLDS,
+  STATE_INCOME_TAXES,
+  type IncomeTaxBracket,
+  type StateIncomeTax,
+  type IncomeTaxResult,
+} from './income-tax';
+
 // ============================================================================
 // Salary Equivalent
 // ============================================================================
@@ -117,6 +154,27 @@ export {
   type SellStrategyConfig,
 } from './sell-strategy';
 
+// ============================================================================
+// Tax Lots
+// ============================================================================
+
+export {
+  createTaxLots,
+  cloneTaxLots,
+  totalLotValue,
+  growTaxLots,
+  sellFromLots,
+  rebalanceTaxLots,
+  mergeLotSales,
+  addRealizations,
+  applySaleHaircut,
+  capitalGainsTaxOnSale,
+  capitalGainsTaxByAsset,
+  type TaxLot,
+  type AssetRealization,
+  type LotSale,
+} from './tax-lots';
+
 // ============================================================================
 // Return Probabilities
 // ============================================================================
@@ -8,9 +8,20 @@
  * @module calculations/sell-strategy
  */
 
-import type { YearlyPercentiles } from '../simulation/types';
+import type { IncomeTaxConfig, LiquidationOrder, YearlyPercentiles } from '../simulation/types';
 import { percentile as calcPercentile } from '../math';
 import { DEFAULT_SELL_CONFIG } from '../config';
+import { incrementalIncomeTax } from './income-tax';
+import {
+  capitalGainsTaxByAsset,
+  cloneTaxLots,
+  growTaxLots,
+  rebalanceTaxLots,
+  sellFromLots,
+  totalLotValue,
+  type AssetRealization,
+  type TaxLot,
+} from './tax-lots';
 
 // ============================================================================
 // Types
@@ -839,12 +850,31 @@ export interface SellStrategyFromReturnsConfig {
   timeHorizon: number;
   /** Capital gains tax rate (default: 0.238 for 23.8%) */
   capitalGainsRate?: number;
+  /** Capital gains tax rate on rebalancing trades (default: capitalGainsRate) */
+  rebalancingCapitalGainsRate?: number;
   /** Initial cost basis as fraction of portfolio (default: 0.4 for 40%) */
   costBasisRatio?: number;
   /** Annual dividend yield as decimal (default: 0.02 for 2%) */
   dividendYield?: number;
   /** Dividend tax rate as decimal (default: 0.238 for 23.8%) */
   dividendTaxRate?: number;
+  /**
+   * Progressive brackets replacing capitalGainsRate and dividendTaxRate
+   * (optional). Dividends and gains realised in a year stack on each other.
+   */
+  incomeTax?: IncomeTaxConfig;
+  /** Annual growth of the bracket thresholds, e.g. inflation (default: 0) */
+  bracketInflation?: number;
+  /**
+   * Starting tax lots, summing to initialValue (optional).
+   * When set, sales draw on the lots in liquidationOrder instead of using
+   * costBasisRatio, and gains are reported per asset.
+   */
+  lots?: TaxLot[];
+  /** Sale ordering across lots (default: 'pro-rata') */
+  liquidationOrder?: LiquidationOrder;
+  /** Asset sold first when liquidationOrder is 'specific-asset' */
+  liquidationAssetId?: string;
 }
 
 /**
@@ -857,12 +887,18 @@ export interface SellIterationResult {
   totalCapitalGainsTaxes: number;
   /** Total dividend taxes paid over lifetime */
   totalDividendTaxes: number;
+  /** Capital gains taxes realised by rebalancing trades (included in totalCapitalGainsTaxes) */
+  totalRebalancingTaxes: number;
   /** Whether portfolio was depleted (reached zero) */
   depleted: boolean;
   /** Portfolio values by year (includes year 0) */
   yearlyValues: number[];
   /** Cumulative taxes by year (capital gains + dividend) */
   yearlyTaxes: number[];
+  /** Capital gains realised per asset id in each year (only with tax lots) */
+  realizedGainsByAsset?: Record<string, number>[];
+  /** Capital gains taxes per asset id in each year (only with tax lots) */
+  capitalGainsTaxesByAsset?: Record<string, number>[];
 }
 
 /**
@@ -877,9 +913,23 @@ export interface SellIterationResult {
  * 1. Dividend tax paid from portfolio
  * 2. Withdrawal + capital gains tax (gross-up calculation)
  * 3. Market returns applied to reduced portfolio
+ * 4. Rebalancing sales at year end realise gains at the average cost basis;
+ *    the tax is paid from the portfolio and the proceeds are reinvested
+ *
+ * With tax lots (config.lots), withdrawals sell lots in config.liquidationOrder
+ * and are grossed up for the tax the chosen lots actually trigger. Lots grow
+ * with assetReturns and are rescaled to the portfolio value, and in years with
+ * rebalancing turnover they are reset to their starting asset weights,
+ * realising gains lot by lot.
+ *
+ * With progressive brackets (config.incomeTax), each year's dividends, sales
+ * and rebalancing gains are taxed at the marginal rates they reach together,
+ * with thresholds grown by config.bracketInflation each year.
  *
  * @param config - Configuration with withdrawal and tax parameters
  * @param portfolioReturns - Array of portfolio returns (one per year) from BBD iteration
+ * @param rebalancingTurnover - Fraction of the portfolio sold to rebalance each year (default none)
+ * @param assetReturns - Return per asset id for each year, used to grow tax lots (default none)
  * @returns Single iteration result with terminal value and tax tracking
  *
  * @example
@@ -891,7 +941,9 @@ export interface SellIterationResult {
  */
 export function calculateSellStrategyFromReturns(
   config: SellStrategyFromReturnsConfig,
-  portfolioReturns: number[]
+  portfolioReturns: number[],
+  rebalancingTurnover: number[] = [],
+  assetReturns: Record<string, number>[] = []
 ): SellIterationResult {
   const {
     initialValue,
@@ -899,23 +951,65 @@ export function calculateSellStrategyFromReturns(
     withdrawalGrowth,
     timeHorizon,
     capitalGainsRate = DEFAULT_SELL_CONFIG.capitalGainsRate,
+    rebalancingCapitalGainsRate = capitalGainsRate,
     costBasisRatio = DEFAULT_SELL_CONFIG.costBasisRatio,
     dividendYield = DEFAULT_SELL_CONFIG.dividendYield,
     dividendTaxRate = DEFAULT_SELL_CONFIG.dividendTaxRate,
+    liquidationOrder = 'pro-rata',
+    liquidationAssetId,
+    incomeTax,
+    bracketInflation = 0,
   } = config;
 
   // Validation is silent - uses available returns
 
+  // Portfolio income realised so far in the year, which later income stacks on
+  let yearIncome = 0;
+  let indexation = 1;
+  const taxOn = (income: number, flatRate: number): number => {
+    if (income <= 0) return 0;
+    return incomeTax
+      ? incrementalIncomeTax(yearIncome, income, incomeTax, indexation)
+      : income * flatRate;
+  };
+  const realize = (income: number): void => {
+    yearIncome += Math.max(0, income);
+  };
+  // Rate that attributes a sale's tax to its assets
+  const saleRate = (gain: number, tax: number, flatRate: number): number =>
+    incomeTax ? (gain > 0 ? tax / gain : 0) : flatRate;
+
+  // Tax lots (optional): per-asset basis, rebalanced to the starting asset weights
+  const lots = config.lots ? cloneTaxLots(config.lots) : null;
+  const targetWeights = lots ? lotAssetWeights(lots) : {};
+  const realizedGainsByAsset: Record<string, number>[] = [];
+  const capitalGainsTaxesByAsset: Record<string, number>[] = [];
+  const recordSale = (year: number, realizations: AssetRealization[], taxRate: number): void => {
+    const taxes = capitalGainsTaxByAsset(realizations, taxRate);
+    realizations.forEach((r, k) => {
+      const gains = realizedGainsByAsset[year];
+      const yearTaxes = capitalGainsTaxesByAsset[year];
+      gains[r.assetId] = (gains[r.assetId] ?? 0) + r.gain;
+      yearTaxes[r.assetId] = (yearTaxes[r.assetId] ?? 0) + taxes[k];
+    });
+  };
+
   let portfolioValue = initialValue;
   let costBasis = initialValue * costBasisRatio;
   let currentWithdrawal = annualWithdrawal;
   let totalCapitalGainsTaxes = 0;
   let totalDividendTaxes = 0;
+  let totalRebalancingTaxes = 0;
   let depleted = false;
   const yearlyValues: number[] = [initialValue];
   const yearlyTaxes: number[] = [0];
 
   for (let year = 0; year < timeHorizon; year++) {
+    realizedGainsByAsset.push({});
+    capitalGainsTaxesByAsset.push({});
+    yearIncome = 0;
+    indexation = Math.pow(1 + bracketInflation, year);
+
     if (portfolioValue <= 0) {
       depleted = true;
       yearlyValues.push(0);
@@ -928,10 +1022,14 @@ export function calculateSellStrategyFromReturns(
     // 1. DIVIDEND TAX FIRST (before withdrawal)
     if (dividendYield > 0) {
       const dividendIncome = portfolioValue * dividendYield;
-      const dividendTax = dividendIncome * dividendTaxRate;
+      const dividendTax = taxOn(dividendIncome, dividendTaxRate);
+      realize(dividendIncome);
       totalDividendTaxes += dividendTax;
       yearTaxes += dividendTax;
       portfolioValue -= dividendTax;
+      if (lots) {
+        growTaxLots(lots, undefined, portfolioValue);
+      }
 
       if (portfolioValue <= 0) {
         depleted = true;
@@ -945,50 +1043,106 @@ export function calculateSellStrategyFromReturns(
     const adjustedWithdrawal = currentWithdrawal;
     currentWithdrawal *= (1 + withdrawalGrowth);
 
-    if (adjustedWithdrawal >= portfolioValue) {
-      // Full depletion - pay taxes on remaining portfolio
-      const finalTax = calculateCapitalGainsTax(
-        portfolioValue,
-        portfolioValue * (costBasis / portfolioValue),
-        capitalGainsRate
-      );
-      totalCapitalGainsTaxes += finalTax;
-      yearTaxes += finalTax;
-      portfolioValue = 0;
-      depleted = true;
-      yearlyValues.push(0);
-      yearlyTaxes.push(yearlyTaxes[yearlyTaxes.length - 1] + yearTaxes);
-      continue;
-    }
+    if (lots) {
+      // Gross up for the tax the ordered lots trigger: sale = withdrawal + tax(sale)
+      let grossSale = adjustedWithdrawal;
+      for (let k = 0; k < 3 && grossSale < portfolioValue; k++) {
+        const trial = sellFromLots(cloneTaxLots(lots), grossSale, liquidationOrder, liquidationAssetId);
+        grossSale = adjustedWithdrawal + taxOn(trial.gain, capitalGainsRate);
+      }
 
-    // Calculate taxes on sale
-    const saleAmount = adjustedWithdrawal;
-    const basisSold = costBasis * (saleAmount / portfolioValue);
-    const gain = saleAmount - basisSold;
-    const tax = gain > 0 ? gain * capitalGainsRate : 0;
-    totalCapitalGainsTaxes += tax;
-    yearTaxes += tax;
+      const sale = sellFromLots(lots, grossSale, liquidationOrder, liquidationAssetId);
+      const tax = taxOn(sale.gain, capitalGainsRate);
+      realize(sale.gain);
+      recordSale(year, sale.byAsset, saleRate(sale.gain, tax, capitalGainsRate));
+      totalCapitalGainsTaxes += tax;
+      yearTaxes += tax;
 
-    // Gross-up: must sell withdrawal + tax amount
-    const grossSale = saleAmount + tax;
+      if (grossSale >= portfolioValue) {
+        portfolioValue = 0;
+        depleted = true;
+        yearlyValues.push(0);
+        yearlyTaxes.push(yearlyTaxes[yearlyTaxes.length - 1] + yearTaxes);
+        continue;
+      }
 
-    if (grossSale >= portfolioValue) {
-      // Depleted after accounting for taxes
-      portfolioValue = 0;
-      depleted = true;
-      yearlyValues.push(0);
-      yearlyTaxes.push(yearlyTaxes[yearlyTaxes.length - 1] + yearTaxes);
-      continue;
-    }
+      portfolioValue -= grossSale;
+    } else {
+      if (adjustedWithdrawal >= portfolioValue) {
+        // Full depletion - pay taxes on remaining portfolio
+        const finalTax = taxOn(portfolioValue - costBasis, capitalGainsRate);
+        totalCapitalGainsTaxes += finalTax;
+        yearTaxes += finalTax;
+        portfolioValue = 0;
+        depleted = true;
+        yearlyValues.push(0);
+        yearlyTaxes.push(yearlyTaxes[yearlyTaxes.length - 1] + yearTaxes);
+        continue;
+      }
 
-    // Update portfolio and cost basis
-    const saleFraction = grossSale / portfolioValue;
-    portfolioValue -= grossSale;
-    costBasis *= (1 - saleFraction);
+      // Calculate taxes on sale
+      const saleAmount = adjustedWithdrawal;
+      const basisSold = costBasis * (saleAmount / portfolioValue);
+      const gain = saleAmount - basisSold;
+      const tax = taxOn(gain, capitalGainsRate);
+      realize(gain);
+      totalCapitalGainsTaxes += tax;
+      yearTaxes += tax;
+
+      // Gross-up: must sell withdrawal + tax amount
+      const grossSale = saleAmount + tax;
+
+      if (grossSale >= portfolioValue) {
+        // Depleted after accounting for taxes
+        portfolioValue = 0;
+        depleted = true;
+        yearlyValues.push(0);
+        yearlyTaxes.push(yearlyTaxes[yearlyTaxes.length - 1] + yearTaxes);
+        continue;
+      }
+
+      // Update portfolio and cost basis
+      const saleFraction = grossSale / portfolioValue;
+      portfolioValue -= grossSale;
+      costBasis *= (1 - saleFraction);
+    }
 
     // 3. GROWTH APPLIED TO REDUCED PORTFOLIO
     const portfolioReturn = portfolioReturns[year] ?? 0;
     portfolioValue *= (1 + portfolioReturn);
+    if (lots) {
+      growTaxLots(lots, assetReturns[year], portfolioValue);
+    }
+
+    // 4. REBALANCING TRADES REALISE GAINS
+    const turnover = rebalancingTurnover[year] ?? 0;
+    if (lots && turnover > 0 && portfolioValue > 0) {
+      // Lots are reset to the starting asset weights, realising gains lot by lot
+      const rebalanceSale = rebalanceTaxLots(lots, targetWeights, liquidationOrder);
+      const rebalanceTax = taxOn(rebalanceSale.gain, rebalancingCapitalGainsRate);
+      realize(rebalanceSale.gain);
+      recordSale(
+        year,
+        rebalanceSale.byAsset,
+        saleRate(rebalanceSale.gain, rebalanceTax, rebalancingCapitalGainsRate)
+      );
+      totalCapitalGainsTaxes += rebalanceTax;
+      totalRebalancingTaxes += rebalanceTax;
+      yearTaxes += rebalanceTax;
+      portfolioValue -= rebalanceTax;
+      growTaxLots(lots, undefined, portfolioValue);
+    } else if (turnover > 0 && portfolioValue > 0) {
+      const rebalanceSale = portfolioValue * Math.min(1, turnover);
+      const rebalanceBasis = costBasis * (rebalanceSale / portfolioValue);
+      const rebalanceTax = taxOn(rebalanceSale - rebalanceBasis, rebalancingCapitalGainsRate);
+      realize(rebalanceSale - rebalanceBasis);
+      totalCapitalGainsTaxes += rebalanceTax;
+      totalRebalancingTaxes += rebalanceTax;
+      yearTaxes += rebalanceTax;
+      // Proceeds net of tax are reinvested at today's prices
+      portfolioValue -= rebalanceTax;
+      costBasis += rebalanceSale - rebalanceTax - rebalanceBasis;
+    }
 
     yearlyValues.push(portfolioValue);
     yearlyTaxes.push(yearlyTaxes[yearlyTaxes.length - 1] + yearTaxes);
@@ -998,12 +1152,26 @@ export function calculateSellStrategyFromReturns(
     terminalValue: portfolioValue,
     totalCapitalGainsTaxes,
     totalDividendTaxes,
+    totalRebalancingTaxes,
     depleted,
     yearlyValues,
     yearlyTaxes,
+    ...(lots && { realizedGainsByAsset, capitalGainsTaxesByAsset }),
   };
 }
 
+/**
+ * Weight of each asset in a lot book
+ */
+function lotAssetWeights(lots: TaxLot[]): Record<string, number> {
+  const total = totalLotValue(lots);
+  const weights: Record<string, number> = {};
+  for (const lot of lots) {
+    weights[lot.assetId] = (weights[lot.assetId] ?? 0) + (total > 0 ? lot.value / total : 0);
+  }
+  return weights;
+}
+
 /**
  * Extract cumulative taxes by year from scenarios.
  *
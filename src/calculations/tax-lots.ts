@@ -0,0 +1,410 @@
+/**
+ * Tax Lot Tracking
+ *
+ * Per-asset cost basis bookkeeping for taxable sales. Instead of treating the
+ * portfolio as one position with a single cost basis ratio, a lot book holds
+ * one entry per asset purchase lot with its own market value and basis.
+ * Withdrawals, forced liquidations and rebalancing trades draw on the lots in
+ * a chosen order (see LiquidationOrder), so a concentrated low-basis holding
+ * can be left untouched while high-basis positions fund the cash need.
+ *
+ * Lot values always sum to the portfolio value they describe. Callers apply
+ * market moves with growTaxLots, which rescales the lots to the portfolio's
+ * own value so lot bookkeeping never changes simulated portfolio values.
+ *
+ * All functions that take a lot book mutate it in place; use cloneTaxLots
+ * where the previous state must be preserved.
+ */
+
+import type { AssetConfig, LiquidationOrder } from '../simulation/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A purchase lot of one asset
+ */
+export interface TaxLot {
+  /** Asset identifier */
+  assetId: string;
+  /** Current market value in dollars */
+  value: number;
+  /** Remaining cost basis in dollars */
+  costBasis: number;
+}
+
+/**
+ * Gains realised from one asset by a sale
+ */
+export interface AssetRealization {
+  /** Asset identifier */
+  assetId: string;
+  /** Sale proceeds in dollars */
+  proceeds: number;
+  /** Cost basis sold in dollars */
+  costBasis: number;
+  /** Realised gain (proceeds - costBasis, negative for a loss) */
+  gain: number;
+}
+
+/**
+ * Result of selling from a lot book
+ */
+export interface LotSale {
+  /** Total sale proceeds */
+  proceeds: number;
+  /** Total cost basis sold */
+  costBasis: number;
+  /** Net realised gain across all assets */
+  gain: number;
+  /** Realisations per asset, in order of first sale */
+  byAsset: AssetRealization[];
+}
+
+// ============================================================================
+// Lot Book Construction
+// ============================================================================
+
+/**
+ * Build the starting lot book for a portfolio
+ *
+ * Each asset contributes its configured lots, or a single lot at its own
+ * costBasisRatio (falling back to the portfolio-wide ratio).
+ *
+ * @param assets - Portfolio assets with weights and optional basis
+ * @param initialValue - Starting portfolio value
+ * @param defaultCostBasisRatio - Basis ratio for assets without their own
+ * @returns Lot book whose values sum to initialValue
+ *
+ * @example
+ * ```typescript
+ * const lots = createTaxLots(
+ *   [
+ *     { id: 'AAPL', weight: 0.5, historicalReturns: [], costBasisRatio: 0.05 },
+ *     { id: 'BND', weight: 0.5, historicalReturns: [] },
+ *   ],
+ *   1000000,
+ *   0.9
+ * );
+ * // [{ assetId: 'AAPL', value: 500000, costBasis: 25000 },
+ * //  { assetId: 'BND', value: 500000, costBasis: 450000 }]
+ * ```
+ */
+export function createTaxLots(
+  assets: AssetConfig[],
+  initialValue: number,
+  defaultCostBasisRatio: number
+): TaxLot[] {
+  const lots: TaxLot[] = [];
+
+  for (const asset of assets) {
+    const positionValue = initialValue * asset.weight;
+
+    if (asset.lots && asset.lots.length > 0) {
+      const totalShare = asset.lots.reduce((sum, lot) => sum + lot.share, 0);
+      for (const lot of asset.lots) {
+        const value = totalShare > 0 ? positionValue * (lot.share / totalShare) : 0;
+        lots.push({ assetId: asset.id, value, costBasis: value * lot.costBasisRatio });
+      }
+    } else {
+      const ratio = asset.costBasisRatio ?? defaultCostBasisRatio;
+      lots.push({ assetId: asset.id, value: positionValue, costBasis: positionValue * ratio });
+    }
+  }
+
+  return lots;
+}
+
+/**
+ * Copy a lot book so it can be changed without affecting the original
+ */
+export function cloneTaxLots(lots: TaxLot[]): TaxLot[] {
+  return lots.map(lot => ({ ...lot }));
+}
+
+/**
+ * Total market value of a lot book
+ */
+export function totalLotValue(lots: TaxLot[]): number {
+  let total = 0;
+  for (const lot of lots) {
+    total += lot.value;
+  }
+  return total;
+}
+
+/**
+ * Apply asset returns to the lots and align them with the portfolio value
+ *
+ * Lots of assets missing from assetReturns keep their value before the
+ * rescale. The rescale absorbs any difference between the lot-level growth
+ * and the portfolio return (intra-year rebalancing, trading costs), so the
+ * lots always describe the portfolio being simulated. Cost basis is unchanged.
+ *
+ * @param lots - Lot book, updated in place
+ * @param assetReturns - Return per asset id for the period (omit to scale proportionally)
+ * @param portfolioValue - Portfolio value the lots must sum to
+ */
+export function growTaxLots(
+  lots: TaxLot[],
+  assetReturns: Record<string, number> | undefined,
+  portfolioValue: number
+): void {
+  if (assetReturns) {
+    for (const lot of lots) {
+      lot.value *= Math.max(0, 1 + (assetReturns[lot.assetId] ?? 0));
+    }
+  }
+
+  const total = totalLotValue(lots);
+  const scale = total > 0 ? portfolioValue / total : 0;
+  for (const lot of lots) {
+    lot.value *= scale;
+  }
+}
+
+// ============================================================================
+// Sales
+// ============================================================================
+
+/**
+ * Sell a dollar amount from the lot book in the given order
+ *
+ * Sales are capped at the book's total value.
+ *
+ * @param lots - Lot book, updated in place
+ * @param amount - Dollar value to sell
+ * @param order - Sale ordering
+ * @param assetId - Asset sold first when order is 'specific-asset'
+ * @returns Proceeds, basis sold and realised gains per asset
+ *
+ * @example
+ * ```typescript
+ * const lots = [
+ *   { assetId: 'AAPL', value: 500000, costBasis: 25000 },
+ *   { assetId: 'BND', value: 500000, costBasis: 450000 },
+ * ];
+ * const sale = sellFromLots(lots, 100000, 'highest-basis');
+ * // Sells BND only: proceeds 100000, basis 90000, gain 10000
+ * ```
+ */
+export function sellFromLots(
+  lots: TaxLot[],
+  amount: number,
+  order: LiquidationOrder,
+  assetId?: string
+): LotSale {
+  const sale: LotSale = { proceeds: 0, costBasis: 0, gain: 0, byAsset: [] };
+  const total = totalLotValue(lots);
+  const target = Math.min(amount, total);
+  if (target <= 0) {
+    return sale;
+  }
+
+  if (order === 'pro-rata') {
+    const fraction = target / total;
+    for (const lot of lots) {
+      sellFromLot(lot, lot.value * fraction, sale);
+    }
+    return sale;
+  }
+
+  let remaining = target;
+  for (const lot of orderLots(lots, order, assetId)) {
+    if (remaining <= 0) break;
+    const sold = Math.min(remaining, lot.value);
+    sellFromLot(lot, sold, sale);
+    remaining -= sold;
+  }
+
+  return sale;
+}
+
+/**
+ * Reset the lot book to target asset weights
+ *
+ * Overweight assets sell lots in the given order; the proceeds buy the
+ * underweight assets as new lots with a full cost basis.
+ *
+ * @param lots - Lot book, updated in place (emptied lots are removed)
+ * @param targetWeights - Target weight per asset id (0-1)
+ * @param order - Sale ordering within each overweight asset
+ * @returns Gains realised by the rebalancing sales
+ */
+export function rebalanceTaxLots(
+  lots: TaxLot[],
+  targetWeights: Record<string, number>,
+  order: LiquidationOrder
+): LotSale {
+  const sale: LotSale = { proceeds: 0, costBasis: 0, gain: 0, byAsset: [] };
+  const total = totalLotValue(lots);
+  if (total <= 0) {
+    return sale;
+  }
+
+  const assetValues = new Map<string, number>();
+  for (const lot of lots) {
+    assetValues.set(lot.assetId, (assetValues.get(lot.assetId) ?? 0) + lot.value);
+  }
+
+  for (const [assetId, value] of assetValues) {
+    const excess = value - total * (targetWeights[assetId] ?? 0);
+    if (excess > 0) {
+      const assetLots = lots.filter(lot => lot.assetId === assetId);
+      mergeLotSales(sale, sellFromLots(assetLots, excess, order));
+    }
+  }
+
+  for (let k = lots.length - 1; k >= 0; k--) {
+    if (lots[k].value <= 0) {
+      lots.splice(k, 1);
+    }
+  }
+
+  for (const [assetId, value] of assetValues) {
+    const shortfall = total * (targetWeights[assetId] ?? 0) - value;
+    if (shortfall > 0) {
+      lots.push({ assetId, value: shortfall, costBasis: shortfall });
+    }
+  }
+
+  return sale;
+}
+
+/**
+ * Add one sale's realisations to another
+ *
+ * @param into - Accumulated sale, updated in place
+ * @param from - Sale to add
+ */
+export function mergeLotSales(into: LotSale, from: LotSale): void {
+  into.proceeds += from.proceeds;
+  into.costBasis += from.costBasis;
+  into.gain += from.gain;
+  addRealizations(into.byAsset, from.byAsset);
+}
+
+/**
+ * Add per-asset realisations to an accumulated list
+ *
+ * @param into - Accumulated realisations, updated in place
+ * @param from - Realisations to add
+ */
+export function addRealizations(into: AssetRealization[], from: AssetRealization[]): void {
+  for (const realization of from) {
+    addRealization(into, realization.assetId, realization.proceeds, realization.costBasis);
+  }
+}
+
+/**
+ * Reduce the proceeds of a sale by a forced-sale haircut
+ *
+ * Forced liquidations sell below market value, so the realised gain is
+ * measured against the discounted proceeds.
+ *
+ * @param sale - Sale at market value
+ * @param haircut - Haircut as decimal (e.g., 0.05 for 5%)
+ * @returns Sale with discounted proceeds and gains
+ */
+export function applySaleHaircut(sale: LotSale, haircut: number): LotSale {
+  const keep = 1 - haircut;
+  const byAsset = sale.byAsset.map(r => ({
+    ...r,
+    proceeds: r.proceeds * keep,
+    gain: r.proceeds * keep - r.costBasis,
+  }));
+  const proceeds = sale.proceeds * keep;
+  return { proceeds, costBasis: sale.costBasis, gain: proceeds - sale.costBasis, byAsset };
+}
+
+// ============================================================================
+// Taxes
+// ============================================================================
+
+/**
+ * Capital gains tax on a sale (losses offset gains across assets)
+ */
+export function capitalGainsTaxOnSale(sale: LotSale, taxRate: number): number {
+  return sale.gain > 0 ? sale.gain * taxRate : 0;
+}
+
+/**
+ * Attribute the capital gains tax on a set of realisations to their assets
+ *
+ * The net tax (after losses offset gains) is split in proportion to each
+ * asset's positive gain.
+ *
+ * @param realizations - Per-asset realisations (e.g., LotSale.byAsset)
+ * @param taxRate - Capital gains tax rate
+ * @returns Tax per asset, aligned with realizations
+ */
+export function capitalGainsTaxByAsset(realizations: AssetRealization[], taxRate: number): number[] {
+  let netGain = 0;
+  let positiveGains = 0;
+  for (const r of realizations) {
+    netGain += r.gain;
+    positiveGains += Math.max(0, r.gain);
+  }
+  const totalTax = netGain > 0 ? netGain * taxRate : 0;
+  return realizations.map(r =>
+    positiveGains > 0 ? totalTax * (Math.max(0, r.gain) / positiveGains) : 0
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Lots in sale order (non-pro-rata orderings)
+ */
+function orderLots(lots: TaxLot[], order: LiquidationOrder, assetId?: string): TaxLot[] {
+  const basisRatio = (lot: TaxLot) => (lot.value > 0 ? lot.costBasis / lot.value : 0);
+  const byHighestBasis = (a: TaxLot, b: TaxLot) => basisRatio(b) - basisRatio(a);
+
+  switch (order) {
+    case 'lowest-gain':
+      return [...lots].sort((a, b) => (a.value - a.costBasis) - (b.value - b.costBasis));
+    case 'specific-asset':
+      return [...lots].sort((a, b) =>
+        Number(b.assetId === assetId) - Number(a.assetId === assetId) || byHighestBasis(a, b)
+      );
+    case 'highest-basis':
+    default:
+      return [...lots].sort(byHighestBasis);
+  }
+}
+
+/**
+ * Sell part of one lot, recording the realisation
+ */
+function sellFromLot(lot: TaxLot, amount: number, sale: LotSale): void {
+  if (amount <= 0 || lot.value <= 0) return;
+  const basisSold = lot.costBasis * (amount / lot.value);
+  lot.value -= amount;
+  lot.costBasis -= basisSold;
+  sale.proceeds += amount;
+  sale.costBasis += basisSold;
+  sale.gain += amount - basisSold;
+  addRealization(sale.byAsset, lot.assetId, amount, basisSold);
+}
+
+/**
+ * Add proceeds and basis to an asset's realisation entry
+ */
+function addRealization(
+  realizations: AssetRealization[],
+  assetId: string,
+  proceeds: number,
+  costBasis: number
+): void {
+  let realization = realizations.find(r => r.assetId === assetId);
+  if (!realization) {
+    realization = { assetId, proceeds: 0, costBasis: 0, gain: 0 };
+    realizations.push(realization);
+  }
+  realization.proceeds += proceeds;
+  realization.costBasis += costBasis;
+  realization.gain += proceeds - costBasis;
+}
@@ -197,7 +197,9 @@ export interface TWRRResult {
  *   netEstate: 4200000,
  *   embeddedCapitalGains: 3500000,   // $3.5M unrealized gains
  *   steppedUpBasisSavings: 833000,   // Tax avoided at 23.8%
- *   estateTaxExemption: 13990000     // 2025 exemption
+ *   estateTaxExemption: 13990000,    // 2025 exemption
+ *   estateTax: 0,                    // Below the exemption
+ *   netToHeirs: 4200000
  * };
  * ```
  */
@@ -238,6 +240,18 @@ export interface EstateAnalysis {
    * For context on whether estate taxes would apply
    */
   estateTaxExemption: number;
+
+  /**
+   * Federal estate tax owed on the net estate
+   * Formula: max(0, netEstate - estateTaxExemption) * estateTaxRate
+   */
+  estateTax: number;
+
+  /**
+   * Net estate left to heirs after estate tax
+   * Formula: netEstate - estateTax
+   */
+  netToHeirs: number;
 }
 
 // ============================================================================
@@ -263,7 +277,7 @@ export interface EstateAnalysis {
 export interface BBDComparison {
   /**
    * Net estate value using BBD strategy
-   * (Portfolio - Loan) with stepped-up basis benefit
+   * (Portfolio - Loan) with stepped-up basis benefit, after estate tax
    */
   bbdNetEstate: number;
 
@@ -350,6 +364,7 @@ export interface SalaryEquivalent {
  * const config: CalculationConfig = {
  *   capitalGainsTaxRate: 0.238,      // 20% + 3.8% NIIT
  *   estateTaxExemption: 13990000,    // 2025 exemption
+ *   estateTaxRate: 0.40,             // Federal rate above the exemption
  *   effectiveIncomeTaxRate: 0.37     // Top federal bracket
  * };
  * ```
@@ -371,6 +386,13 @@ export interface CalculationConfig {
    */
   estateTaxExemption: number;
 
+  /**
+   * Federal estate tax rate on the estate above the exemption
+   *
+   * Default: 0.40 (40% top federal rate)
+   */
+  estateTaxRate: number;
+
   /**
    * Effective income tax rate for salary equivalent calculation
    *
@@ -395,5 +417,6 @@ export interface CalculationConfig {
 export const DEFAULT_CALCULATION_CONFIG: CalculationConfig = {
   capitalGainsTaxRate: 0.238,        // 20% + 3.8% NIIT
   estateTaxExemption: 13990000,      // 2025 exemption
+  estateTaxRate: 0.40,               // Top federal estate tax rate
   effectiveIncomeTaxRate: 0.37,      // Top federal bracket
 };
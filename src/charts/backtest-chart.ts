@@ -0,0 +1,217 @@
+/**
+ * Historical Backtest Bar Chart Web Component.
+ *
+ * Shows terminal net worth for every historical start year:
+ * - BBD bars, red where the window hit a margin call
+ * - Sell bars next to them (when a sell strategy is configured)
+ * - Dashed line at the starting value
+ */
+import { ChartConfiguration, ChartDataset } from 'chart.js';
+import { BaseChart } from './base-chart';
+import { getChartTheme } from './theme';
+import { ChartTheme } from './types';
+
+/**
+ * Data structure for backtest chart
+ */
+export interface BacktestChartData {
+  /** Start year labels for x-axis */
+  labels: string[];
+  /** BBD terminal net worth per start year */
+  bbd: number[];
+  /** Whether each BBD window had a margin call */
+  marginCalls: boolean[];
+  /** Sell terminal value per start year (omitted without sell strategy) */
+  sell?: number[];
+  /** Starting portfolio value */
+  initialValue: number;
+}
+
+/** Series colors */
+const BBD_COLOR = '#0d9488';
+const SELL_COLOR = '#3b82f6';
+const MARGIN_CALL_COLOR = '#ef4444';
+
+/** Dash pattern for the starting value line */
+const INITIAL_DASH = [6, 4];
+
+/**
+ * Backtest Chart Web Component.
+ *
+ * Usage:
+ * ```html
+ * <backtest-chart></backtest-chart>
+ * ```
+ *
+ * Set data via property:
+ * ```javascript
+ * const chart = document.querySelector('backtest-chart');
+ * chart.data = {
+ *   labels: ['2000', '2001'],
+ *   bbd: [640_000, 910_000],
+ *   marginCalls: [true, false],
+ *   sell: [720_000, 880_000],
+ *   initialValue: 1_000_000,
+ * };
+ * ```
+ */
+export class BacktestChart extends BaseChart {
+  /** Chart data for one backtest */
+  private _data: BacktestChartData | null = null;
+
+  /** Set chart data and trigger update */
+  set data(value: BacktestChartData | null) {
+    this._data = value;
+    if (this.chart && value) {
+      this.updateData(this.buildChartData(value, getChartTheme()));
+    }
+  }
+
+  /** Get current chart data */
+  get data(): BacktestChartData | null {
+    return this._data;
+  }
+
+  /**
+   * Build Chart.js data structure from BacktestChartData.
+   */
+  private buildChartData(backtestData: BacktestChartData, theme: ChartTheme) {
+    const { labels, bbd, marginCalls, sell, initialValue } = backtestData;
+    const bbdColors = marginCalls.map(called => (called ? MARGIN_CALL_COLOR : BBD_COLOR));
+
+    const datasets: ChartDataset<'bar' | 'line'>[] = [
+      {
+        type: 'bar',
+        label: 'BBD Net Worth',
+        data: bbd,
+        backgroundColor: bbdColors,
+        borderColor: bbdColors,
+        borderWidth: 1,
+        order: 2,
+      },
+    ];
+
+    if (sell) {
+      datasets.push({
+        type: 'bar',
+        label: 'Sell Net Worth',
+        data: sell,
+        backgroundColor: SELL_COLOR,
+        borderColor: SELL_COLOR,
+        borderWidth: 1,
+        order: 2,
+      });
+    }
+
+    datasets.push({
+      type: 'line',
+      label: 'Starting Value',
+      data: labels.map(() => initialValue),
+      borderColor: theme.secondary,
+      backgroundColor: 'transparent',
+      borderWidth: 1,
+      borderDash: INITIAL_DASH,
+      pointRadius: 0,
+      fill: false,
+      order: 1,
+    });
+
+    return { labels, datasets };
+  }
+
+  /**
+   * Update dataset colors when theme changes.
+   * Bar colors are fixed; the starting value line follows the theme.
+   */
+  protected updateDatasetColors(theme: ChartTheme): void {
+    if (!this.chart) return;
+
+    const initialDataset = this.chart.data.datasets.find(d => d.label === 'Starting Value');
+    if (initialDataset) {
+      initialDataset.borderColor = theme.secondary;
+    }
+  }
+
+  /**
+   * Returns Chart.js configuration for backtest bar chart.
+   */
+  protected getChartConfig(): ChartConfiguration {
+    const theme = getChartTheme();
+    const chartData = this._data
+      ? this.buildChartData(this._data, theme)
+      : { labels: [], datasets: [] };
+
+    const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+
+    return {
+      type: 'bar',
+      data: chartData as ChartConfiguration['data'],
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: {
+          mode: 'index',
+          intersect: false,
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              color: theme.text,
+            },
+          },
+          tooltip: {
+            callbacks: {
+              label: (context) => {
+                const label = context.dataset.label || '';
+                return `${label}: ${formatCurrency(context.parsed.y)}`;
+              },
+              afterBody: (items) => {
+                const index = items[0]?.dataIndex ?? -1;
+                return this._data?.marginCalls[index] ? 'BBD margin call' : '';
+              },
+            },
+          },
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Start Year',
+              color: theme.text,
+            },
+            grid: {
+              display: false,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+          y: {
+            title: {
+              display: true,
+              text: 'Terminal Net Worth ($)',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+              callback: (value) => formatCurrency(Number(value)),
+            },
+          },
+        },
+      },
+    };
+  }
+}
+
+// Register the custom element
+customElements.define('backtest-chart', BacktestChart);
@@ -25,7 +25,7 @@ const CORRELATION_COLORS = {
  * @param t - Interpolation factor (0 to 1)
  * @returns Interpolated hex color
  */
-function interpolateHexColor(color1: string, color2: string, t: number): string {
+export function interpolateHexColor(color1: string, color2: string, t: number): string {
   // Parse hex colors
   const r1 = parseInt(color1.slice(1, 3), 16);
   const g1 = parseInt(color1.slice(3, 5), 16);
@@ -83,7 +83,7 @@ export function interpolateColor(value: number, isDiagonal: boolean = false): st
  * @param bgColor - Background hex color
  * @returns '#ffffff' or '#1e293b'
  */
-function getContrastTextColor(bgColor: string): string {
+export function getContrastTextColor(bgColor: string): string {
   const brightness = parseInt(bgColor.slice(1, 3), 16) * 0.299 +
                     parseInt(bgColor.slice(3, 5), 16) * 0.587 +
                     parseInt(bgColor.slice(5, 7), 16) * 0.114;
@@ -0,0 +1,221 @@
+/**
+ * Efficient Frontier Chart Web Component.
+ *
+ * Plots the long-only efficient frontier as expected return against
+ * volatility, with the current portfolio and the BBD optimum marked.
+ * Frontier portfolios over the margin call cap are drawn in the negative
+ * color, and clicking a frontier point selects it.
+ */
+import { ChartConfiguration } from 'chart.js';
+import { BaseChart } from './base-chart';
+import { getChartTheme } from './theme';
+import { ChartTheme } from './types';
+
+/**
+ * One portfolio on the chart (values as decimals)
+ */
+export interface FrontierChartPoint {
+  /** Annual volatility */
+  volatility: number;
+  /** Expected annual return */
+  expectedReturn: number;
+}
+
+/**
+ * Data structure for efficient frontier chart
+ */
+export interface EfficientFrontierData {
+  /** Frontier portfolios in ascending expected return */
+  frontier: (FrontierChartPoint & { withinCap: boolean })[];
+  /** Current portfolio */
+  current: FrontierChartPoint;
+  /** Index of the BBD optimum in frontier, if any */
+  optimalIndex: number | null;
+  /** Index of the selected frontier point, if any */
+  selectedIndex: number | null;
+}
+
+/**
+ * Marker color for the current portfolio
+ */
+const CURRENT_COLOR = '#f59e0b'; // amber-500
+
+/**
+ * Web Component for the efficient frontier.
+ *
+ * Usage:
+ * ```html
+ * <efficient-frontier-chart></efficient-frontier-chart>
+ * ```
+ *
+ * Set data via property:
+ * ```typescript
+ * const chart = document.querySelector('efficient-frontier-chart');
+ * chart.data = {
+ *   frontier: [{ volatility: 0.08, expectedReturn: 0.06, withinCap: true }, ...],
+ *   current: { volatility: 0.12, expectedReturn: 0.08 },
+ *   optimalIndex: 4,
+ *   selectedIndex: 4,
+ * };
+ * ```
+ *
+ * @fires frontier-point-select - detail: { index } when a frontier point is clicked
+ */
+export class EfficientFrontierChart extends BaseChart {
+  /** Chart data */
+  private _data: EfficientFrontierData | null = null;
+
+  /** Set chart data and trigger update */
+  set data(value: EfficientFrontierData | null) {
+    this._data = value;
+    if (this.chart && value) {
+      this.updateData(this.buildChartData(value, getChartTheme()));
+    }
+  }
+
+  /** Get current chart data */
+  get data(): EfficientFrontierData | null {
+    return this._data;
+  }
+
+  protected styles(): string {
+    return `
+      ${super.styles()}
+
+      :host {
+        height: 320px;
+      }
+    `;
+  }
+
+  /**
+   * Build Chart.js datasets: frontier line, current portfolio and BBD optimum.
+   */
+  private buildChartData(data: EfficientFrontierData, theme: ChartTheme) {
+    const toXY = (p: FrontierChartPoint) => ({ x: p.volatility * 100, y: p.expectedReturn * 100 });
+    const optimal = data.optimalIndex !== null ? data.frontier[data.optimalIndex] : null;
+
+    return {
+      datasets: [
+        {
+          label: 'Efficient Frontier',
+          data: data.frontier.map(toXY),
+          borderColor: theme.primary,
+          backgroundColor: data.frontier.map(p => (p.withinCap ? theme.primary : theme.negative)),
+          showLine: true,
+          borderWidth: 2,
+          pointRadius: data.frontier.map((_, i) => (i === data.selectedIndex ? 8 : 4)),
+          pointHoverRadius: 8,
+        },
+        {
+          label: 'Current Portfolio',
+          data: [toXY(data.current)],
+          borderColor: CURRENT_COLOR,
+          backgroundColor: CURRENT_COLOR,
+          pointStyle: 'rectRot',
+          pointRadius: 8,
+          pointHoverRadius: 10,
+        },
+        {
+          label: 'BBD Optimum',
+          data: optimal ? [toXY(optimal)] : [],
+          borderColor: theme.positive,
+          backgroundColor: theme.positive,
+          pointStyle: 'star',
+          pointRadius: 12,
+          pointHoverRadius: 14,
+          borderWidth: 2,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Update dataset colors when theme changes.
+   */
+  protected updateDatasetColors(theme: ChartTheme): void {
+    if (!this.chart || !this._data) return;
+    const datasets = this.buildChartData(this._data, theme).datasets;
+    this.chart.data.datasets.forEach((dataset, i) => {
+      dataset.borderColor = datasets[i].borderColor;
+      dataset.backgroundColor = datasets[i].backgroundColor;
+    });
+  }
+
+  /**
+   * Returns Chart.js configuration for the efficient frontier chart.
+   */
+  protected getChartConfig(): ChartConfiguration {
+    const theme = getChartTheme();
+    const chartData = this._data
+      ? this.buildChartData(this._data, theme)
+      : { datasets: [] };
+
+    return {
+      type: 'scatter',
+      data: chartData,
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        onClick: (_event, elements) => {
+          const hit = elements.find(e => e.datasetIndex === 0);
+          if (!hit) return;
+          this.dispatchEvent(new CustomEvent('frontier-point-select', {
+            bubbles: true,
+            composed: true,
+            detail: { index: hit.index },
+          }));
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              color: theme.text,
+              usePointStyle: true,
+            },
+          },
+          tooltip: {
+            callbacks: {
+              label: (context) => {
+                const label = context.dataset.label || '';
+                return `${label}: ${context.parsed.y.toFixed(1)}% return, ${context.parsed.x.toFixed(1)}% volatility`;
+              },
+            },
+          },
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Volatility (%)',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+          y: {
+            title: {
+              display: true,
+              text: 'Expected Return (%)',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+        },
+      },
+    };
+  }
+}
+
+// Register the custom element
+customElements.define('efficient-frontier-chart', EfficientFrontierChart);
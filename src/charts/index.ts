@@ -20,3 +20,9 @@ export * from './comparison-line-chart';
 export * from './cumulative-costs-chart';
 export * from './terminal-comparison-chart';
 export * from './sbloc-utilization-chart';
+export * from './weight-drift-chart';
+export * from './scenario-cone-chart';
+export * from './sweep-heatmap';
+export * from './efficient-frontier-chart';
+export * from './path-explorer-chart';
+export * from './backtest-chart';
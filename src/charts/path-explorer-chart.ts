@@ -0,0 +1,224 @@
+/**
+ * Path Explorer Line Chart Web Component.
+ *
+ * Follows a single simulated iteration year by year:
+ * - Portfolio value (solid line)
+ * - SBLOC loan balance (dashed line, SBLOC runs only)
+ * - Net worth (filled line)
+ * Years with a margin call are marked with a red point on the loan line.
+ */
+import { ChartConfiguration, ChartDataset } from 'chart.js';
+import { BaseChart } from './base-chart';
+import { getChartTheme } from './theme';
+import { ChartTheme } from './types';
+
+/**
+ * Data structure for path explorer chart
+ */
+export interface PathExplorerChartData {
+  /** Year labels for x-axis */
+  labels: string[];
+  /** Gross portfolio value per year */
+  portfolioValue: number[];
+  /** Net worth per year */
+  netWorth: number[];
+  /** Loan balance per year (omitted without SBLOC) */
+  loanBalance?: number[];
+  /** Whether each year had a margin call */
+  marginCalls?: boolean[];
+}
+
+/** Series colors */
+const PORTFOLIO_COLOR = '#0d9488';
+const NET_WORTH_COLOR = '#3b82f6';
+const LOAN_COLOR = '#f59e0b';
+const MARGIN_CALL_COLOR = '#ef4444';
+
+/** Dash pattern for the loan line */
+const LOAN_DASH = [6, 4];
+
+/**
+ * Path Explorer Chart Web Component.
+ *
+ * Usage:
+ * ```html
+ * <path-explorer-chart></path-explorer-chart>
+ * ```
+ *
+ * Set data via property:
+ * ```javascript
+ * const chart = document.querySelector('path-explorer-chart');
+ * chart.data = {
+ *   labels: ['Year 1', 'Year 2'],
+ *   portfolioValue: [1_080_000, 1_020_000],
+ *   netWorth: [1_000_000, 860_000],
+ *   loanBalance: [80_000, 160_000],
+ *   marginCalls: [false, false],
+ * };
+ * ```
+ */
+export class PathExplorerChart extends BaseChart {
+  /** Chart data for one iteration */
+  private _data: PathExplorerChartData | null = null;
+
+  /** Set chart data and trigger update */
+  set data(value: PathExplorerChartData | null) {
+    this._data = value;
+    if (this.chart && value) {
+      this.updateData(this.buildChartData(value));
+    }
+  }
+
+  /** Get current chart data */
+  get data(): PathExplorerChartData | null {
+    return this._data;
+  }
+
+  /**
+   * Build Chart.js data structure from PathExplorerChartData.
+   */
+  private buildChartData(pathData: PathExplorerChartData) {
+    const { labels, portfolioValue, netWorth, loanBalance, marginCalls } = pathData;
+    const called = (index: number) => marginCalls?.[index] ?? false;
+
+    const datasets: ChartDataset<'line'>[] = [
+      {
+        label: 'Portfolio Value',
+        data: portfolioValue,
+        borderColor: PORTFOLIO_COLOR,
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        borderDash: [],
+        tension: 0.1,
+        pointRadius: 2,
+        pointHoverRadius: 4,
+        pointBackgroundColor: PORTFOLIO_COLOR,
+        fill: false,
+      },
+      {
+        label: 'Net Worth',
+        data: netWorth,
+        borderColor: NET_WORTH_COLOR,
+        backgroundColor: `${NET_WORTH_COLOR}26`,
+        borderWidth: 2,
+        borderDash: [],
+        tension: 0.1,
+        pointRadius: 2,
+        pointHoverRadius: 4,
+        pointBackgroundColor: NET_WORTH_COLOR,
+        fill: 'origin',
+      },
+    ];
+
+    if (loanBalance) {
+      datasets.push({
+        label: 'Loan Balance',
+        data: loanBalance,
+        borderColor: LOAN_COLOR,
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        borderDash: LOAN_DASH,
+        tension: 0.1,
+        // Margin call years stand out on the loan line
+        pointRadius: labels.map((_, i) => (called(i) ? 6 : 2)),
+        pointHoverRadius: 6,
+        pointBackgroundColor: labels.map((_, i) => (called(i) ? MARGIN_CALL_COLOR : LOAN_COLOR)),
+        fill: false,
+      });
+    }
+
+    return { labels, datasets };
+  }
+
+  /**
+   * Update dataset colors when theme changes.
+   * Series colors are fixed and work on both light and dark themes.
+   */
+  protected updateDatasetColors(_theme: ChartTheme): void {
+    // Series colors are theme-independent
+  }
+
+  /**
+   * Returns Chart.js configuration for path explorer line chart.
+   */
+  protected getChartConfig(): ChartConfiguration {
+    const theme = getChartTheme();
+    const chartData = this._data
+      ? this.buildChartData(this._data)
+      : { labels: [], datasets: [] };
+
+    const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+
+    return {
+      type: 'line',
+      data: chartData,
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: {
+          mode: 'index',
+          intersect: false,
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              color: theme.text,
+              usePointStyle: true,
+            },
+          },
+          tooltip: {
+            callbacks: {
+              label: (context) => {
+                const label = context.dataset.label || '';
+                return `${label}: ${formatCurrency(context.parsed.y)}`;
+              },
+              afterBody: (items) => {
+                const index = items[0]?.dataIndex ?? -1;
+                return this._data?.marginCalls?.[index] ? 'Margin call' : '';
+              },
+            },
+          },
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Year',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+          y: {
+            title: {
+              display: true,
+              text: 'Value ($)',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+              callback: (value) => formatCurrency(Number(value)),
+            },
+          },
+        },
+      },
+    };
+  }
+}
+
+// Register the custom element
+customElements.define('path-explorer-chart', PathExplorerChart);
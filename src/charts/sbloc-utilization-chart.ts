@@ -7,7 +7,8 @@
  * Features:
  * - Percentile lines (P10, P25, P50, P75, P90) showing utilization spread
  * - Fill between bands for visual uncertainty
- * - Reference line at maxBorrowing limit
+ * - Reference line at maxBorrowing limit, or the effective LTV limit over
+ *   time when advance rates vary by asset class
  * - Y-axis: Percentage (0-200%+)
  * - Legend for percentiles
  * - Color gradient from green (low utilization) to red (high)
@@ -35,6 +36,8 @@ export interface SBLOCUtilizationChartData {
   p90: number[];
   /** Maximum borrowing limit (e.g., 65 for 65%) */
   maxBorrowing: number;
+  /** Median effective LTV limit by year (percent); replaces the maxBorrowing line when set */
+  effectiveLimit?: number[];
 }
 
 /**
@@ -98,7 +101,7 @@ export class SBLOCUtilizationChart extends BaseChart {
    * Orders datasets from P90 (top) to P10 (bottom) for proper fill layering.
    */
   private buildChartData(chartData: SBLOCUtilizationChartData) {
-    const { labels, p10, p25, p50, p75, p90 } = chartData;
+    const { labels, p10, p25, p50, p75, p90, effectiveLimit } = chartData;
     const alpha = CHART_ALPHA.bandFill;
 
     // Color scheme: gradient from green (low utilization) to red (high)
@@ -185,6 +188,21 @@ export class SBLOCUtilizationChart extends BaseChart {
           pointRadius: 0,
           pointHoverRadius: 4,
         },
+        // Effective LTV limit (drawn last so it does not affect band fills)
+        ...(effectiveLimit
+          ? [{
+            label: 'Effective LTV Limit',
+            data: effectiveLimit,
+            borderColor: '#dc2626',  // red-600, matches the max borrowing line
+            backgroundColor: 'transparent',
+            borderWidth: 2,
+            borderDash: [10, 5],
+            fill: false,
+            tension: 0,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+          }]
+          : []),
       ],
     };
   }
@@ -221,13 +239,14 @@ export class SBLOCUtilizationChart extends BaseChart {
 
   /**
    * Create annotation plugin for max borrowing reference line.
+   * Skipped when the effective LTV limit is plotted as a series.
    */
   private createAnnotationPlugin(): Plugin {
-    const maxBorrowing = this._data?.maxBorrowing || 65;
-
     return {
       id: 'maxBorrowingLine',
       beforeDraw: (chart) => {
+        if (this._data?.effectiveLimit) return;
+        const maxBorrowing = this._data?.maxBorrowing || 65;
         const ctx = chart.ctx;
         const yScale = chart.scales.y;
         const xScale = chart.scales.x;
@@ -288,6 +307,7 @@ export class SBLOCUtilizationChart extends BaseChart {
           ...this._data.p50,
           ...this._data.p75,
           ...this._data.p90,
+          ...(this._data.effectiveLimit ?? []),
           this._data.maxBorrowing
         )
       : 65;
@@ -0,0 +1,269 @@
+/**
+ * Scenario Cone Chart Web Component.
+ *
+ * Overlays the probability cones of several pinned scenarios on one chart.
+ * Each scenario is drawn in its own color: a translucent P10-P90 band with
+ * a solid median line. The baseline scenario's median is drawn thicker.
+ */
+import { ChartConfiguration } from 'chart.js';
+import { BaseChart } from './base-chart';
+import { getChartTheme } from './theme';
+import { ChartTheme } from './types';
+
+/**
+ * Percentile band of one scenario
+ */
+export interface ScenarioConeSeries {
+  /** Scenario name shown in the legend */
+  label: string;
+  /** 10th percentile per year */
+  p10: number[];
+  /** Median per year */
+  p50: number[];
+  /** 90th percentile per year */
+  p90: number[];
+  /** Whether this is the baseline scenario */
+  isBaseline?: boolean;
+}
+
+/**
+ * Data structure for scenario cone chart
+ */
+export interface ScenarioConeData {
+  /** Array of years on x-axis (shared by all scenarios) */
+  years: number[];
+  /** One cone per scenario */
+  scenarios: ScenarioConeSeries[];
+}
+
+/**
+ * Distinct colors assigned to scenarios in pin order (cycled past eight)
+ */
+export const SCENARIO_COLORS = [
+  '#0d9488', // teal-600
+  '#8b5cf6', // violet-500
+  '#f59e0b', // amber-500
+  '#3b82f6', // blue-500
+  '#ec4899', // pink-500
+  '#84cc16', // lime-500
+  '#ef4444', // red-500
+  '#64748b', // slate-500
+] as const;
+
+/**
+ * Fill opacity for overlapping scenario bands (lighter than a single cone)
+ */
+const SCENARIO_BAND_ALPHA = 0.12;
+
+/**
+ * Web Component for overlaid scenario probability cones.
+ *
+ * Usage:
+ * ```html
+ * <scenario-cone-chart></scenario-cone-chart>
+ * ```
+ *
+ * Set data via property:
+ * ```typescript
+ * const chart = document.querySelector('scenario-cone-chart');
+ * chart.data = {
+ *   years: [0, 1, 2],
+ *   scenarios: [
+ *     { label: '50% LTV', p10: [...], p50: [...], p90: [...], isBaseline: true },
+ *     { label: '65% LTV', p10: [...], p50: [...], p90: [...] },
+ *   ],
+ * };
+ * ```
+ */
+export class ScenarioConeChart extends BaseChart {
+  /** Chart data for all scenarios */
+  private _data: ScenarioConeData | null = null;
+
+  /** Set chart data and trigger update */
+  set data(value: ScenarioConeData | null) {
+    this._data = value;
+    if (this.chart && value) {
+      this.updateData(this.buildChartData(value));
+    }
+  }
+
+  /** Get current chart data */
+  get data(): ScenarioConeData | null {
+    return this._data;
+  }
+
+  /**
+   * Currency formatter for Y-axis labels.
+   * Uses compact notation for large values (e.g., $1.5M).
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  /**
+   * Helper to add alpha to hex color
+   */
+  private withAlpha(hex: string, a: number): string {
+    const alpha256 = Math.round(a * 255)
+      .toString(16)
+      .padStart(2, '0');
+    return hex + alpha256;
+  }
+
+  /**
+   * Build Chart.js data structure from ScenarioConeData.
+   * Each scenario contributes three datasets: P90 edge, P10 edge filled
+   * back to P90, and the median line.
+   */
+  private buildChartData(coneData: ScenarioConeData) {
+    const labels = coneData.years.map((y) => `Year ${y}`);
+
+    const datasets = coneData.scenarios.flatMap((scenario, index) => {
+      const color = SCENARIO_COLORS[index % SCENARIO_COLORS.length];
+      return [
+        // P90 upper edge
+        {
+          label: `${scenario.label} P90`,
+          data: scenario.p90,
+          borderColor: this.withAlpha(color, 0.4),
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          fill: false,
+          tension: 0.1,
+          pointRadius: 0,
+          pointHoverRadius: 0,
+        },
+        // P10 lower edge, filled up to P90
+        {
+          label: `${scenario.label} P10`,
+          data: scenario.p10,
+          borderColor: this.withAlpha(color, 0.4),
+          backgroundColor: this.withAlpha(color, SCENARIO_BAND_ALPHA),
+          borderWidth: 1,
+          fill: '-1', // Fill to previous dataset (P90)
+          tension: 0.1,
+          pointRadius: 0,
+          pointHoverRadius: 0,
+        },
+        // Median line
+        {
+          label: scenario.label,
+          data: scenario.p50,
+          borderColor: color,
+          backgroundColor: color,
+          borderWidth: scenario.isBaseline ? 4 : 2,
+          fill: false,
+          tension: 0.1,
+          pointRadius: 0,
+          pointHoverRadius: 4,
+        },
+      ];
+    });
+
+    return { labels, datasets };
+  }
+
+  /**
+   * Update dataset colors when theme changes.
+   * Scenario colors are designed to work on both light and dark themes.
+   */
+  protected updateDatasetColors(_theme: ChartTheme): void {
+    // Scenario palette is theme-independent
+  }
+
+  /**
+   * Returns Chart.js configuration for scenario cone chart.
+   */
+  protected getChartConfig(): ChartConfiguration {
+    const theme = getChartTheme();
+    const emptyData = {
+      labels: [],
+      datasets: [],
+    };
+
+    const chartData = this._data
+      ? this.buildChartData(this._data)
+      : emptyData;
+
+    return {
+      type: 'line',
+      data: chartData,
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: {
+          mode: 'index',
+          intersect: false,
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              color: theme.text,
+              usePointStyle: true,
+              pointStyle: 'circle',
+              // Show one legend entry (the median) per scenario
+              filter: (item) => {
+                const label = item.text || '';
+                return !label.endsWith(' P90') && !label.endsWith(' P10');
+              },
+            },
+          },
+          tooltip: {
+            // Band edges would triple the tooltip; show medians only
+            filter: (item) => {
+              const label = item.dataset.label || '';
+              return !label.endsWith(' P90') && !label.endsWith(' P10');
+            },
+            callbacks: {
+              label: (context) => {
+                const label = context.dataset.label || '';
+                const value = context.parsed.y;
+                return `${label}: ${this.formatCurrency(value)}`;
+              },
+            },
+          },
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Year',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+          y: {
+            title: {
+              display: true,
+              text: 'Portfolio Value',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+              callback: (value) =>
+                this.formatCurrency(value as number),
+            },
+          },
+        },
+      },
+    };
+  }
+}
+
+// Register the custom element
+customElements.define('scenario-cone-chart', ScenarioConeChart);
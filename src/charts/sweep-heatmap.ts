@@ -0,0 +1,250 @@
+/**
+ * Sweep Heatmap Web Component.
+ *
+ * Shows one metric of a parameter sweep as a matrix chart: columns are the
+ * x-axis values, rows the y-axis values (a single row for one-dimensional
+ * sweeps). Cells run from red (worst) through amber to green (best) across
+ * the range of the grid, with the value printed in each cell.
+ */
+import { Chart, ChartConfiguration, Plugin, VisualElement } from 'chart.js';
+import { BaseChart } from './base-chart';
+import { getChartTheme } from './theme';
+import { getContrastTextColor, interpolateHexColor } from './correlation-heatmap';
+
+/**
+ * Data structure for sweep heatmap
+ */
+export interface SweepHeatmapData {
+  /** Column labels (x-axis values) */
+  xLabels: string[];
+  /** Row labels (y-axis values); one empty label for 1D sweeps */
+  yLabels: string[];
+  /** Metric values by row then column */
+  values: number[][];
+  /** X-axis title */
+  xTitle: string;
+  /** Y-axis title (omitted for 1D sweeps) */
+  yTitle?: string;
+  /** How cell values are displayed (percent values are 0-100) */
+  format: 'currency' | 'percent';
+  /** Whether larger values are better (false colors high values red) */
+  higherIsBetter: boolean;
+}
+
+/**
+ * One matrix cell: column index, row index and metric value
+ */
+interface SweepMatrixPoint {
+  x: number;
+  y: number;
+  v: number;
+}
+
+/**
+ * Diverging scale from worst to best
+ */
+const SWEEP_COLORS = {
+  worst: '#dc2626',  // red-600
+  middle: '#fbbf24', // amber-400
+  best: '#16a34a',   // green-600
+};
+
+/**
+ * Web Component for parameter sweep heatmaps.
+ *
+ * Usage:
+ * ```html
+ * <sweep-heatmap></sweep-heatmap>
+ * ```
+ *
+ * Set data via property:
+ * ```typescript
+ * const heatmap = document.querySelector('sweep-heatmap');
+ * heatmap.data = {
+ *   xLabels: ['$50K', '$100K', '$150K'],
+ *   yLabels: ['5%', '7%'],
+ *   values: [[98, 91, 74], [97, 85, 62]],
+ *   xTitle: 'Annual Withdrawal',
+ *   yTitle: 'SBLOC Interest Rate',
+ *   format: 'percent',
+ *   higherIsBetter: true,
+ * };
+ * ```
+ */
+export class SweepHeatmap extends BaseChart {
+  /** Heatmap data */
+  private _data: SweepHeatmapData | null = null;
+
+  /** Set heatmap data; axes change with the data, so the chart is rebuilt */
+  set data(value: SweepHeatmapData | null) {
+    this._data = value;
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+      this.render();
+    }
+  }
+
+  /** Get current heatmap data */
+  get data(): SweepHeatmapData | null {
+    return this._data;
+  }
+
+  protected styles(): string {
+    return `
+      ${super.styles()}
+
+      :host {
+        height: 360px;
+      }
+    `;
+  }
+
+  /**
+   * Format a cell value for labels and tooltips
+   */
+  private formatValue(value: number): string {
+    if (this._data?.format === 'percent') {
+      return `${value.toFixed(1)}%`;
+    }
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  /**
+   * Color a value by its position in the grid's range
+   */
+  private cellColor(value: number, min: number, max: number): string {
+    const position = max > min ? (value - min) / (max - min) : 1;
+    const t = this._data?.higherIsBetter === false ? 1 - position : position;
+    return t < 0.5
+      ? interpolateHexColor(SWEEP_COLORS.worst, SWEEP_COLORS.middle, t / 0.5)
+      : interpolateHexColor(SWEEP_COLORS.middle, SWEEP_COLORS.best, (t - 0.5) / 0.5);
+  }
+
+  /**
+   * Plugin drawing each cell's value on top of the matrix
+   */
+  private valueLabelPlugin(min: number, max: number): Plugin<'matrix'> {
+    return {
+      id: 'sweepValueLabels',
+      afterDatasetsDraw: (chart: Chart<'matrix'>) => {
+        const { ctx } = chart;
+        const meta = chart.getDatasetMeta(0);
+        ctx.save();
+        ctx.font = '600 12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        meta.data.forEach((element, index) => {
+          const point = chart.data.datasets[0].data[index] as unknown as SweepMatrixPoint;
+          const { x, y } = (element as unknown as VisualElement).getCenterPoint();
+          if (x === null || y === null) return;
+          ctx.fillStyle = getContrastTextColor(this.cellColor(point.v, min, max));
+          ctx.fillText(this.formatValue(point.v), x, y);
+        });
+        ctx.restore();
+      },
+    };
+  }
+
+  /**
+   * Returns Chart.js configuration for the sweep heatmap.
+   */
+  protected getChartConfig(): ChartConfiguration {
+    const theme = getChartTheme();
+    const data = this._data;
+
+    const points: SweepMatrixPoint[] = data
+      ? data.values.flatMap((row, y) => row.map((v, x) => ({ x, y, v })))
+      : [];
+    const values = points.map(p => p.v);
+    const min = values.length > 0 ? Math.min(...values) : 0;
+    const max = values.length > 0 ? Math.max(...values) : 0;
+    const columns = data?.xLabels.length || 1;
+    const rows = data?.yLabels.length || 1;
+
+    const config: ChartConfiguration<'matrix'> = {
+      type: 'matrix',
+      data: {
+        datasets: [
+          {
+            label: data?.xTitle ?? '',
+            data: points,
+            backgroundColor: (context) => {
+              const point = context.raw as SweepMatrixPoint | undefined;
+              return point ? this.cellColor(point.v, min, max) : 'transparent';
+            },
+            borderColor: theme.background,
+            borderWidth: 1,
+            width: ({ chart }) => (chart.chartArea?.width ?? 0) / columns - 2,
+            height: ({ chart }) => (chart.chartArea?.height ?? 0) / rows - 2,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            display: false,
+          },
+          tooltip: {
+            callbacks: {
+              title: (items) => {
+                const point = items[0]?.raw as SweepMatrixPoint | undefined;
+                if (!point || !data) return '';
+                const xPart = `${data.xTitle}: ${data.xLabels[point.x]}`;
+                return data.yTitle ? `${xPart}, ${data.yTitle}: ${data.yLabels[point.y]}` : xPart;
+              },
+              label: (context) => this.formatValue((context.raw as SweepMatrixPoint).v),
+            },
+          },
+        },
+        scales: {
+          x: {
+            type: 'category',
+            labels: data?.xLabels ?? [],
+            offset: true,
+            title: {
+              display: true,
+              text: data?.xTitle ?? '',
+              color: theme.text,
+            },
+            grid: {
+              display: false,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+          y: {
+            type: 'category',
+            labels: data?.yLabels ?? [],
+            offset: true,
+            title: {
+              display: !!data?.yTitle,
+              text: data?.yTitle ?? '',
+              color: theme.text,
+            },
+            grid: {
+              display: false,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+        },
+      },
+      plugins: [this.valueLabelPlugin(min, max)],
+    };
+
+    return config as unknown as ChartConfiguration;
+  }
+}
+
+// Register the custom element
+customElements.define('sweep-heatmap', SweepHeatmap);
@@ -0,0 +1,223 @@
+/**
+ * Weight Drift Line Chart Web Component.
+ *
+ * Visualizes how portfolio weights drift away from the target allocation
+ * under the selected rebalancing policy. Each asset shows:
+ * - Median year-end weight (solid line, before any year-end rebalance)
+ * - Target weight (dashed line in the same color)
+ */
+import { ChartConfiguration } from 'chart.js';
+import { BaseChart } from './base-chart';
+import { getChartTheme } from './theme';
+import { ChartTheme } from './types';
+
+/**
+ * Weight series for one asset
+ */
+export interface WeightDriftSeries {
+  /** Asset label (e.g., ticker) */
+  label: string;
+  /** Median year-end weight per year (percent, 0-100) */
+  median: number[];
+  /** Target weight (percent, 0-100) */
+  target: number;
+  /** Optional line color */
+  color?: string;
+}
+
+/**
+ * Data structure for weight drift chart
+ */
+export interface WeightDriftChartData {
+  /** Year labels for x-axis */
+  labels: string[];
+  /** One series per asset */
+  assets: WeightDriftSeries[];
+}
+
+/**
+ * Default colors for asset series.
+ */
+const LINE_COLORS = [
+  '#0d9488', // teal
+  '#8b5cf6', // purple
+  '#f59e0b', // amber
+  '#ef4444', // red
+  '#3b82f6', // blue
+];
+
+/** Dash pattern for target weight lines */
+const TARGET_DASH = [6, 4];
+
+/**
+ * Weight Drift Chart Web Component.
+ *
+ * Usage:
+ * ```html
+ * <weight-drift-chart></weight-drift-chart>
+ * ```
+ *
+ * Set data via property:
+ * ```javascript
+ * const chart = document.querySelector('weight-drift-chart');
+ * chart.data = {
+ *   labels: ['Year 1', 'Year 2', 'Year 3'],
+ *   assets: [
+ *     { label: 'SPY', median: [62, 64, 66], target: 60 },
+ *     { label: 'BND', median: [38, 36, 34], target: 40 },
+ *   ],
+ * };
+ * ```
+ */
+export class WeightDriftChart extends BaseChart {
+  /** Chart data with one series per asset */
+  private _data: WeightDriftChartData | null = null;
+
+  /** Set chart data and trigger update */
+  set data(value: WeightDriftChartData | null) {
+    this._data = value;
+    if (this.chart && value) {
+      this.updateData(this.buildChartData(value));
+    }
+  }
+
+  /** Get current chart data */
+  get data(): WeightDriftChartData | null {
+    return this._data;
+  }
+
+  /**
+   * Get line color based on asset index and optional custom color.
+   */
+  private getLineColor(index: number, customColor?: string): string {
+    if (customColor) return customColor;
+    return LINE_COLORS[index % LINE_COLORS.length];
+  }
+
+  /**
+   * Build Chart.js data structure from WeightDriftChartData.
+   * Each asset contributes a median line followed by its target line.
+   */
+  private buildChartData(driftData: WeightDriftChartData) {
+    const { labels, assets } = driftData;
+
+    return {
+      labels,
+      datasets: assets.flatMap((asset, index) => {
+        const color = this.getLineColor(index, asset.color);
+        return [
+          {
+            label: asset.label,
+            data: asset.median,
+            borderColor: color,
+            backgroundColor: 'transparent',
+            borderWidth: 2,
+            borderDash: [],
+            tension: 0.1,
+            pointRadius: 2,
+            pointHoverRadius: 4,
+            pointBackgroundColor: color,
+            fill: false,
+          },
+          {
+            label: `${asset.label} target`,
+            data: labels.map(() => asset.target),
+            borderColor: color,
+            backgroundColor: 'transparent',
+            borderWidth: 1,
+            borderDash: TARGET_DASH,
+            tension: 0,
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            pointBackgroundColor: color,
+            fill: false,
+          },
+        ];
+      }),
+    };
+  }
+
+  /**
+   * Update dataset colors when theme changes.
+   * Asset colors are fixed and work on both light and dark themes.
+   */
+  protected updateDatasetColors(_theme: ChartTheme): void {
+    // Asset colors are theme-independent
+  }
+
+  /**
+   * Returns Chart.js configuration for weight drift line chart.
+   */
+  protected getChartConfig(): ChartConfiguration {
+    const theme = getChartTheme();
+    const chartData = this._data
+      ? this.buildChartData(this._data)
+      : { labels: [], datasets: [] };
+
+    return {
+      type: 'line',
+      data: chartData,
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: {
+          mode: 'index',
+          intersect: false,
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              color: theme.text,
+              usePointStyle: true,
+              // Target lines are explained in the section note, not the legend
+              filter: (item) => !item.text.endsWith(' target'),
+            },
+          },
+          tooltip: {
+            callbacks: {
+              label: (context) => {
+                const label = context.dataset.label || '';
+                return `${label}: ${context.parsed.y.toFixed(1)}%`;
+              },
+            },
+          },
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Year',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+            },
+          },
+          y: {
+            title: {
+              display: true,
+              text: 'Weight (%)',
+              color: theme.text,
+            },
+            grid: {
+              color: theme.grid,
+            },
+            ticks: {
+              color: theme.text,
+              callback: (value) => `${value}%`,
+            },
+            beginAtZero: true,
+          },
+        },
+      },
+    };
+  }
+}
+
+// Register the custom element
+customElements.define('weight-drift-chart', WeightDriftChart);
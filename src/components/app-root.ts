@@ -2,9 +2,29 @@ import { BaseComponent } from './base-component';
 // Import UI components to register them
 import './ui';
 // Import simulation module
-import { runSimulation, SimulationConfig, PortfolioConfig, SimulationOutput, AssetConfig } from '../simulation';
+import {
+  runSimulation,
+  runSweep,
+  runGoalSeek,
+  runOptimizer,
+  runPathTrace,
+  runStressTest,
+  runBacktest,
+  sweepRange,
+  SWEEP_PARAMETERS,
+  optimalBlockLength,
+  resolveFatTailParams,
+  FAT_TAIL_PARAMS,
+  SimulationConfig,
+  PortfolioConfig,
+  SimulationOutput,
+  AssetConfig,
+  MIN_MONTHLY_HISTORY,
+} from '../simulation';
 // Import preset service for historical returns
 import { getPresetData, getEffectiveData } from '../data/services/preset-service';
+// Import cached monthly returns for the monthly time step
+import { getLiveMonthlyReturns } from '../data/services/live-data-service';
 // Import correlation calculation
 import { correlationMatrix as calcCorrelationMatrix } from '../math/correlation';
 // Import portfolio composition types
@@ -19,12 +39,18 @@ import {
   clearPortfolioDebugLogs,
   isUsingLocalStorageFallback,
 } from '../data/services/portfolio-service';
+// Import run history persistence
+import { saveSimulationRun, loadSimulationRun } from '../data/services/simulation-run-service';
+import { buildShareLink } from '../data/services/share-link-service';
+import type { RunHistory } from './ui/run-history';
 // Import theme service for header toggle
 import { getResolvedTheme, setTheme, onThemeChange } from '../services/theme-service';
 // Import comparison dashboard
 import type { ComparisonDashboard } from './ui/comparison-dashboard';
 // Import print utilities
-import { extractDashboardData, generatePrintHtmlFromDashboard, openPrintWindow } from '../utils/print-utils';
+import { extractAllChartImages, buildPrintableData } from '../utils/print-utils';
+import { downloadPdfReport } from '../utils/pdf-report';
+import { logoUrl } from '../assets/logo';
 
 // UI component types for type casting
 type RangeSlider = import('./ui/range-slider').RangeSlider;
@@ -39,7 +65,96 @@ import type {
   WithdrawalChaptersConfig,
   TaxModelingConfig,
   RegimeCalibrationMode,
+  AssetClass as SimulationAssetClass,
+  FatTailParams,
+  FatTailParamsOverrides,
+  RebalancingConfig,
+  RebalancingStrategy,
+  ConvergenceConfig,
+  LiquidationConfig,
+  LiquidationOrder,
+  InterestRateModelConfig,
+  BenchmarkRateProcess,
+  EstateTaxConfig,
+  EstateExemptionScenario,
+  FilingStatus,
+  IncomeTaxConfig,
+  SweepAxis,
+  SweepConfig,
+  SweepParameter,
+  SweepResult,
+  GoalSeekConfig,
+  OptimizerResult,
+  StressMode,
+  StressTestResult,
+  BacktestEdge,
 } from '../simulation/types';
+import { DEFAULT_LTV_BY_ASSET_CLASS, type LTVByAssetClass } from '../sbloc';
+import { STATE_DEATH_TAXES } from '../calculations/estate-tax';
+import { STATE_INCOME_TAXES } from '../calculations/income-tax';
+
+/** State death tax choices for the estate tax select */
+const STATE_DEATH_TAX_OPTIONS = [
+  { value: '', label: 'None' },
+  ...Object.entries(STATE_DEATH_TAXES).map(([code, schedule]) => ({
+    value: code,
+    label: `${schedule.name} (${schedule.kind} tax)`,
+  })),
+];
+
+/** Filing status choices for the tax bracket select */
+const FILING_STATUS_OPTIONS: { value: FilingStatus; label: string }[] = [
+  { value: 'single', label: 'Single' },
+  { value: 'married-joint', label: 'Married Filing Jointly' },
+  { value: 'married-separate', label: 'Married Filing Separately' },
+  { value: 'head-of-household', label: 'Head of Household' },
+];
+
+/** State income tax choices for the tax bracket select */
+const STATE_INCOME_TAX_OPTIONS = [
+  { value: '', label: 'None' },
+  ...Object.entries(STATE_INCOME_TAXES).map(([code, schedule]) => ({
+    value: code,
+    label: schedule.brackets.length > 0 ? schedule.name : `${schedule.name} (no income tax)`,
+  })),
+];
+
+/** Sweepable parameter choices for the sweep axis selects */
+const SWEEP_PARAMETER_OPTIONS = Object.entries(SWEEP_PARAMETERS).map(([value, definition]) => ({
+  value,
+  label: definition.label,
+}));
+
+/** Replay modes for the stress test select */
+const STRESS_MODE_OPTIONS: { value: StressMode; label: string }[] = [
+  { value: 'crisis-start', label: 'Crisis first, then resampled' },
+  { value: 'rolling', label: 'Rolling historical window' },
+];
+
+/** Sidebar return model values (persisted as PortfolioRecord.returnModel) */
+type ReturnModel = NonNullable<PortfolioRecord['returnModel']>;
+
+/** Maps sidebar return model to the simulation resampling method */
+const RESAMPLING_METHOD_BY_MODEL: Record<ReturnModel, SimulationConfig['resamplingMethod']> = {
+  'bootstrap': 'simple',
+  'block': 'block',
+  'regime': 'regime',
+  'fat-tail': 'fat-tail',
+};
+
+/** Sidebar inputs for each fat-tail parameter (survivorship bias is shown in %) */
+const FAT_TAIL_INPUTS: { id: string; field: keyof FatTailParams; scale: number }[] = [
+  { id: 'fat-tail-df', field: 'degreesOfFreedom', scale: 1 },
+  { id: 'fat-tail-skew', field: 'skewMultiplier', scale: 1 },
+  { id: 'fat-tail-vol', field: 'volatilityScaling', scale: 1 },
+  { id: 'fat-tail-bias', field: 'survivorshipBias', scale: 100 },
+];
+
+/** Iteration cap of auto (converge-and-stop) runs */
+const AUTO_ITERATION_CAP = 100_000;
+
+/** Fixed iteration count used for sweeps when the sidebar is set to auto */
+const AUTO_SWEEP_ITERATIONS = 10_000;
 
 /**
  * Format currency values for display
@@ -53,6 +168,14 @@ function formatCurrency(value: number): string {
   }).format(value);
 }
 
+/**
+ * Draw a fresh 9-digit seed for a run without a user-fixed seed.
+ * Kept numeric so it can be typed back into the seed field.
+ */
+function generateSeed(): string {
+  return String(Math.floor(Math.random() * 900_000_000) + 100_000_000);
+}
+
 export class AppRoot extends BaseComponent {
   /** Stored simulation result for charts */
   private _simulationResult: SimulationOutput | null = null;
@@ -60,12 +183,24 @@ export class AppRoot extends BaseComponent {
   /** Stored simulation config for print feature */
   private _simulationConfig: SimulationConfig | null = null;
 
+  /** Portfolio of the last run, kept with its config so the run can be replayed */
+  private _simulationPortfolio: PortfolioConfig | null = null;
+
   /** Track if simulation is running */
   private _isRunning = false;
 
   /** Track regime calibration mode */
   private _regimeCalibration: RegimeCalibrationMode = 'conservative';
 
+  /** Track block size mode for block bootstrap */
+  private _blockSizeMode: 'auto' | 'manual' = 'auto';
+
+  /** Fat-tail parameters being edited (defaults plus user overrides) */
+  private _fatTailParams: Record<SimulationAssetClass, FatTailParams> = resolveFatTailParams();
+
+  /** Asset class currently shown in the fat-tail parameter editor */
+  private _fatTailAssetClass: SimulationAssetClass = 'equity_index';
+
   protected template(): string {
     const currentYear = new Date().getFullYear();
     return `
@@ -185,6 +320,75 @@ export class AppRoot extends BaseComponent {
                 suffix="%"
               ></range-slider>
             </div>
+            <div class="param-group">
+              <label>
+                Rate Type
+                <help-tooltip content="SBLOC rates float with a benchmark such as SOFR. Variable rates start at the rate above and then follow a simulated benchmark plus your spread. Regime-linked rates fall in crashes and rise in bull markets." position="bottom"></help-tooltip>
+              </label>
+              <select-input
+                id="rate-model"
+                value="fixed"
+                options='[{"value":"fixed","label":"Fixed"},{"value":"mean-reverting","label":"Variable (Mean-Reverting Benchmark)"},{"value":"regime","label":"Variable (Regime-Linked Benchmark)"}]'
+              ></select-input>
+              <span class="help-text" id="rate-model-help-text">Same rate every year</span>
+            </div>
+            <div class="rate-model-group" id="rate-model-group">
+              <div class="param-group">
+                <label>Spread Over Benchmark (%)</label>
+                <number-input
+                  id="rate-spread"
+                  value="2.5"
+                  min="0"
+                  max="10"
+                  step="0.25"
+                  suffix="%"
+                ></number-input>
+                <span class="help-text">Starting benchmark = rate above minus spread</span>
+              </div>
+              <div class="param-group">
+                <label>Long-Run Benchmark (%)</label>
+                <number-input
+                  id="rate-long-run"
+                  value="3.5"
+                  min="0"
+                  max="15"
+                  step="0.25"
+                  suffix="%"
+                ></number-input>
+              </div>
+              <div class="param-group">
+                <label>Benchmark Volatility (%)</label>
+                <number-input
+                  id="rate-volatility"
+                  value="1"
+                  min="0"
+                  max="5"
+                  step="0.1"
+                  suffix="%"
+                ></number-input>
+                <span class="help-text">Typical yearly change in the benchmark</span>
+              </div>
+              <div class="param-group">
+                <label>Rate Floor / Cap (%)</label>
+                <div class="rate-limits">
+                  <number-input
+                    id="rate-floor"
+                    min="0"
+                    max="25"
+                    step="0.25"
+                    suffix="%"
+                  ></number-input>
+                  <number-input
+                    id="rate-cap"
+                    min="0"
+                    max="25"
+                    step="0.25"
+                    suffix="%"
+                  ></number-input>
+                </div>
+                <span class="help-text">Blank = no floor or cap</span>
+              </div>
+            </div>
             <div class="param-group">
               <label>
                 Max LTV / Hard Margin (%)
@@ -227,6 +431,28 @@ export class AppRoot extends BaseComponent {
               ></range-slider>
               <span class="help-text">Market impact + transaction costs on forced sale</span>
             </div>
+            <div class="param-group">
+              <label>
+                Asset-Class Collateral
+                <help-tooltip content="Lenders advance more against bonds than stocks. When enabled, the margin call LTV each year is the value-weighted advance rate of the current holdings: Max LTV for equities and commodities, the bond rate for bonds." position="bottom"></help-tooltip>
+              </label>
+              <checkbox-input
+                id="asset-class-ltv"
+                label="Blend Max LTV by Asset Class"
+              ></checkbox-input>
+            </div>
+            <div class="param-group bond-ltv-group" id="bond-ltv-group">
+              <label>Bond Advance Rate (%)</label>
+              <range-slider
+                id="bond-ltv"
+                value="85"
+                min="50"
+                max="95"
+                step="5"
+                suffix="%"
+              ></range-slider>
+              <span class="help-text">Equities use Max LTV; the limit moves as weights drift</span>
+            </div>
           </param-section>
 
           <div class="section-divider">
@@ -237,14 +463,26 @@ export class AppRoot extends BaseComponent {
             <div class="param-group">
               <label>
                 Simulation Iterations
-                <help-tooltip content="Number of Monte Carlo scenarios. More = accurate but slower." position="bottom"></help-tooltip>
+                <help-tooltip content="Number of Monte Carlo scenarios. More = accurate but slower. Auto keeps adding scenarios until the key metrics are pinned down to the chosen tolerance." position="bottom"></help-tooltip>
               </label>
               <select-input
                 id="num-simulations"
                 value="10000"
-                options='[{"value":"1000","label":"1,000 (Fast)"},{"value":"5000","label":"5,000 (Quick)"},{"value":"10000","label":"10,000 (Precise)"},{"value":"50000","label":"50,000 (Accurate)"},{"value":"100000","label":"100,000 (High Precision)"}]'
+                options='[{"value":"1000","label":"1,000 (Fast)"},{"value":"5000","label":"5,000 (Quick)"},{"value":"10000","label":"10,000 (Precise)"},{"value":"50000","label":"50,000 (Accurate)"},{"value":"100000","label":"100,000 (High Precision)"},{"value":"auto","label":"Auto (Until Converged)"}]'
               ></select-input>
             </div>
+            <div class="param-group convergence-tolerance-group" id="convergence-tolerance-group">
+              <label>Convergence Tolerance (± %)</label>
+              <number-input
+                id="convergence-tolerance"
+                value="1"
+                min="0.1"
+                max="5"
+                step="0.1"
+                suffix="%"
+              ></number-input>
+              <span class="help-text">Stop once success rate and margin call risk are within this many points and the median within this percent (95% confidence, up to 100,000 runs)</span>
+            </div>
             <div class="param-group">
               <label>Expected Annual Inflation (%)</label>
               <range-slider
@@ -262,10 +500,97 @@ export class AppRoot extends BaseComponent {
               <select-input
                 id="return-model"
                 value="regime"
-                options='[{"value":"bootstrap","label":"Bootstrap Resampling"},{"value":"regime","label":"Regime-Switching (Bull/Bear)"}]'
+                options='[{"value":"bootstrap","label":"Bootstrap Resampling"},{"value":"block","label":"Block Bootstrap (Multi-Year Sequences)"},{"value":"regime","label":"Regime-Switching (Bull/Bear)"},{"value":"fat-tail","label":"Fat-Tail (Student&#39;s t)"}]'
               ></select-input>
               <span class="help-text">How to model market returns and volatility</span>
             </div>
+            <div class="param-group">
+              <label>
+                Time Step
+                <help-tooltip content="Monthly steps the portfolio and credit line month by month, so a drawdown that recovers by December can still trigger a margin call. Slower than annual." position="bottom"></help-tooltip>
+              </label>
+              <select-input
+                id="time-step"
+                value="annual"
+                options='[{"value":"annual","label":"Annual"},{"value":"monthly","label":"Monthly (Intra-Year Drawdowns)"}]'
+              ></select-input>
+              <span class="help-text" id="time-step-help-text">One step per year</span>
+            </div>
+            <div class="param-group">
+              <label>
+                Rebalancing
+                <help-tooltip content="How holdings are brought back to the target weights. Without rebalancing, winners grow into a larger share of the portfolio. In the Sell strategy, rebalancing sales realize capital gains." position="bottom"></help-tooltip>
+              </label>
+              <select-input
+                id="rebalancing"
+                value="annual"
+                options='[{"value":"none","label":"None (Buy and Hold)"},{"value":"annual","label":"Annual"},{"value":"quarterly","label":"Quarterly"},{"value":"threshold","label":"Threshold Bands"}]'
+              ></select-input>
+              <span class="help-text" id="rebalancing-help-text">Reset to target weights every year end</span>
+            </div>
+            <div class="param-group rebalancing-band-group" id="rebalancing-band-group">
+              <label>Drift Band (± %)</label>
+              <number-input
+                id="rebalancing-band"
+                value="5"
+                min="0.5"
+                max="50"
+                step="0.5"
+                suffix="%"
+              ></number-input>
+              <span class="help-text">Rebalance when any weight drifts this far from target</span>
+            </div>
+            <div class="param-group">
+              <label>Rebalancing Cost (%)</label>
+              <number-input
+                id="rebalancing-cost"
+                value="0"
+                min="0"
+                max="2"
+                step="0.05"
+                suffix="%"
+              ></number-input>
+              <span class="help-text">Trading cost per dollar bought or sold</span>
+            </div>
+            <div class="param-group block-size-group" id="block-size-group">
+              <label>
+                Block Size
+                <help-tooltip content="Number of consecutive historical years resampled together. Longer blocks preserve multi-year trends such as extended bear markets." position="bottom"></help-tooltip>
+              </label>
+              <div class="toggle-group">
+                <button type="button" class="toggle-btn active" id="block-size-auto">Auto</button>
+                <button type="button" class="toggle-btn" id="block-size-manual">Manual</button>
+              </div>
+              <number-input
+                id="block-size"
+                class="block-size-input"
+                value="3"
+                min="1"
+                max="20"
+                step="1"
+                suffix="years"
+              ></number-input>
+              <span class="help-text" id="block-size-help-text">Estimated from return autocorrelation (Politis-White)</span>
+            </div>
+            <div class="param-group fat-tail-group" id="fat-tail-group">
+              <label>
+                Fat-Tail Parameters
+                <help-tooltip content="Student's t parameters applied to each asset by its class. Lower degrees of freedom = fatter tails; negative skew = crashes larger than rallies." position="bottom"></help-tooltip>
+              </label>
+              <div class="toggle-group fat-tail-class-toggle">
+                <button type="button" class="toggle-btn" data-asset-class="equity_stock">Stocks</button>
+                <button type="button" class="toggle-btn active" data-asset-class="equity_index">Indices</button>
+                <button type="button" class="toggle-btn" data-asset-class="commodity">Commod.</button>
+                <button type="button" class="toggle-btn" data-asset-class="bond">Bonds</button>
+              </div>
+              <div class="fat-tail-grid">
+                <number-input id="fat-tail-df" label="Degrees of Freedom" min="1" max="30" step="1"></number-input>
+                <number-input id="fat-tail-skew" label="Skew" min="-1" max="1" step="0.05"></number-input>
+                <number-input id="fat-tail-vol" label="Volatility Scaling" min="0.25" max="3" step="0.05" suffix="×"></number-input>
+                <number-input id="fat-tail-bias" label="Survivorship Bias" min="-5" max="5" step="0.1" suffix="%"></number-input>
+              </div>
+              <button type="button" class="reset-defaults-btn" id="fat-tail-reset">Reset to defaults</button>
+            </div>
             <div class="param-group regime-calibration-group visible" id="regime-calibration-group">
               <label>Regime Calibration</label>
               <div class="toggle-group">
@@ -274,6 +599,19 @@ export class AppRoot extends BaseComponent {
               </div>
               <span class="help-text" id="regime-help-text">Stress-testing with extended crash durations</span>
             </div>
+            <div class="param-group">
+              <label>
+                Random Seed
+                <help-tooltip content="Same seed + same inputs = identical results. Leave blank to draw a new seed for every run." position="bottom"></help-tooltip>
+              </label>
+              <number-input
+                id="sim-seed"
+                min="0"
+                step="1"
+              ></number-input>
+              <span class="help-text" id="seed-help-text">Blank = new random seed each run</span>
+              <button type="button" class="seed-keep-btn hidden" id="seed-keep">Keep last seed</button>
+            </div>
           </param-section>
 
           <param-section title="Withdrawal Chapters (Optional)" icon="<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><rect x='8' y='2' width='8' height='4' rx='1' ry='1'/><path d='M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2'/><path d='M12 11h4'/><path d='M12 16h4'/><path d='M8 11h.01'/><path d='M8 16h.01'/></svg>">
@@ -387,6 +725,46 @@ export class AppRoot extends BaseComponent {
                   ></range-slider>
                   <span class="help-text">Federal LTCG (20%) + NIIT (3.8%)</span>
                 </div>
+                <div class="param-group">
+                  <checkbox-input
+                    id="enable-tax-brackets"
+                    label="Use Progressive Tax Brackets"
+                  ></checkbox-input>
+                  <span class="help-text">Replaces the flat rates for dividends and Sell strategy sales</span>
+                </div>
+                <div class="tax-brackets-group" id="tax-brackets-group">
+                  <div class="param-group">
+                    <label>Filing Status</label>
+                    <select-input
+                      id="filing-status"
+                      value="married-joint"
+                      options='${JSON.stringify(FILING_STATUS_OPTIONS)}'
+                    ></select-input>
+                  </div>
+                  <div class="param-group">
+                    <label>State Income Tax</label>
+                    <select-input
+                      id="income-tax-state"
+                      value=""
+                      options='${JSON.stringify(STATE_INCOME_TAX_OPTIONS)}'
+                    ></select-input>
+                    <span class="help-text">Simplified schedules; capital gains taxed as income</span>
+                  </div>
+                  <div class="param-group">
+                    <label>
+                      Other Annual Income ($)
+                      <help-tooltip content="Wages, pensions or other ordinary income in today's dollars. It uses up the standard deduction and the lower brackets before portfolio income." position="bottom"></help-tooltip>
+                    </label>
+                    <number-input
+                      id="other-income"
+                      value="0"
+                      min="0"
+                      max="10000000"
+                      step="10000"
+                      suffix="$"
+                    ></number-input>
+                  </div>
+                </div>
               </div>
             </div>
           </param-section>
@@ -422,8 +800,157 @@ export class AppRoot extends BaseComponent {
               ></range-slider>
               <span class="help-text">Higher yield = more dividend taxes in Sell strategy</span>
             </div>
+            <div class="param-group">
+              <label>
+                Sale Order
+                <help-tooltip content="Which holdings are sold first for withdrawals and margin-call liquidations. Set a per-asset cost basis in the portfolio to model concentrated low-basis positions." position="bottom"></help-tooltip>
+              </label>
+              <select-input
+                id="liquidation-order"
+                value="pro-rata"
+                options='[{"value":"pro-rata","label":"Pro-Rata (All Holdings)"},{"value":"highest-basis","label":"Highest Basis First"},{"value":"lowest-gain","label":"Lowest Gain First"},{"value":"specific-asset","label":"Specific Asset First"}]'
+              ></select-input>
+              <span class="help-text" id="liquidation-order-help-text">Sell every holding in proportion</span>
+            </div>
+            <div class="param-group liquidation-asset-group" id="liquidation-asset-group">
+              <label>Sell First</label>
+              <select-input
+                id="liquidation-asset"
+                value=""
+                options='[]'
+              ></select-input>
+              <span class="help-text">Remaining sales use the highest-basis order</span>
+            </div>
+          </param-section>
+
+          <param-section title="Estate Tax (Optional)" icon="<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><path d='m3 9 9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z'/><path d='M9 22V12h6v10'/></svg>">
+            <div class="param-group">
+              <checkbox-input
+                id="enable-estate-tax"
+                label="Apply Estate &amp; Inheritance Tax at Death"
+              ></checkbox-input>
+            </div>
+            <div class="estate-tax-group" id="estate-tax-group">
+              <div class="param-group">
+                <label>
+                  Federal Exemption
+                  <help-tooltip content="Estates above the exemption pay federal estate tax. Current law exempts $13.99M per person; the sunset scenario roughly halves it. Amounts are in today's dollars and grow with inflation." position="bottom"></help-tooltip>
+                </label>
+                <select-input
+                  id="estate-exemption"
+                  value="current-law"
+                  options='[{"value":"current-law","label":"Current Law ($13.99M)"},{"value":"sunset","label":"Sunset (~$7M)"},{"value":"custom","label":"Custom"}]'
+                ></select-input>
+              </div>
+              <div class="param-group estate-custom-group" id="estate-custom-group">
+                <label>Exemption per Person ($)</label>
+                <number-input
+                  id="estate-exemption-amount"
+                  value="13990000"
+                  min="0"
+                  max="100000000"
+                  step="100000"
+                  suffix="$"
+                ></number-input>
+              </div>
+              <div class="param-group">
+                <label>Federal Estate Tax Rate (%)</label>
+                <range-slider
+                  id="estate-tax-rate"
+                  value="40"
+                  min="0"
+                  max="60"
+                  step="1"
+                  suffix="%"
+                ></range-slider>
+              </div>
+              <div class="param-group">
+                <checkbox-input
+                  id="estate-portability"
+                  label="Married (Portable Exemption)"
+                ></checkbox-input>
+                <span class="help-text">The surviving spouse's exemption doubles</span>
+              </div>
+              <div class="param-group">
+                <label>State Estate / Inheritance Tax</label>
+                <select-input
+                  id="estate-state"
+                  value=""
+                  options='${JSON.stringify(STATE_DEATH_TAX_OPTIONS)}'
+                ></select-input>
+                <span class="help-text">Simplified schedules for estates passing to children</span>
+              </div>
+            </div>
           </param-section>
 
+          <param-section title="Parameter Sweep" icon="<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><rect x='3' y='3' width='7' height='7'/><rect x='14' y='3' width='7' height='7'/><rect x='3' y='14' width='7' height='7'/><rect x='14' y='14' width='7' height='7'/></svg>">
+            <div class="sweep-controls">
+              <div class="param-group">
+                <label>Vary (Columns)</label>
+                <select-input
+                  id="sweep-x"
+                  value="annualWithdrawal"
+                  options='${JSON.stringify(SWEEP_PARAMETER_OPTIONS)}'
+                ></select-input>
+                <div class="sweep-range">
+                  <number-input id="sweep-x-min" label="From" value="25000" step="any" suffix="$"></number-input>
+                  <number-input id="sweep-x-max" label="To" value="150000" step="any" suffix="$"></number-input>
+                  <number-input id="sweep-x-steps" label="Steps" value="5" min="2" max="10" step="1"></number-input>
+                </div>
+              </div>
+              <div class="param-group">
+                <label>And (Rows)</label>
+                <select-input
+                  id="sweep-y"
+                  value=""
+                  options='${JSON.stringify([{ value: '', label: 'Nothing (1D sweep)' }, ...SWEEP_PARAMETER_OPTIONS])}'
+                ></select-input>
+                <div class="sweep-range sweep-y-group" id="sweep-y-group">
+                  <number-input id="sweep-y-min" label="From" step="any"></number-input>
+                  <number-input id="sweep-y-max" label="To" step="any"></number-input>
+                  <number-input id="sweep-y-steps" label="Steps" value="5" min="2" max="10" step="1"></number-input>
+                </div>
+              </div>
+              <button class="sweep-run-btn" id="run-sweep" type="button">Run Sweep</button>
+              <span class="help-text">Each cell runs the full iteration count with the same seed, so cells differ only by the swept values</span>
+            </div>
+          </param-section>
+
+          <param-section title="Portfolio Optimizer" icon="<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><path d='M3 3v18h18'/><path d='M6 17c3-7 7-10 14-11'/></svg>">
+            <div class="optimizer-controls">
+              <div class="param-group">
+                <label>Margin Call Cap</label>
+                <number-input id="optimizer-cap" value="10" min="0" max="100" step="1" suffix="%"></number-input>
+                <span class="help-text">Highest acceptable chance of a margin call for the BBD optimum</span>
+              </div>
+              <div class="param-group">
+                <label>Iterations per Portfolio</label>
+                <number-input id="optimizer-iterations" value="500" min="100" max="5000" step="100"></number-input>
+              </div>
+              <button class="sweep-run-btn" id="run-optimizer" type="button">Optimize Weights</button>
+              <span class="help-text">Computes the efficient frontier of the selected assets, then scores each portfolio with a short simulation sharing one seed</span>
+            </div>
+          </param-section>
+
+          <param-section title="Stress Test" icon="<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><polyline points='23 18 13.5 8.5 8.5 13.5 1 6'/><polyline points='17 18 23 18 23 12'/></svg>">
+            <div class="stress-controls">
+              <div class="param-group">
+                <label>Replay</label>
+                <select-input
+                  id="stress-mode"
+                  value="crisis-start"
+                  options='${JSON.stringify(STRESS_MODE_OPTIONS)}'
+                ></select-input>
+              </div>
+              <button class="sweep-run-btn" id="run-stress" type="button">Run Stress Test</button>
+              <span class="help-text">Replays the dot-com crash, 2008, the lost decade and 2022 from the selected assets' history, with the same seed as an unstressed baseline</span>
+            </div>
+          </param-section>
+
+          <param-section title="Run History" icon="<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><path d='M3 12a9 9 0 1 0 3-6.7L3 8'/><path d='M3 3v5h5'/><path d='M12 7v5l4 2'/></svg>">
+            <run-history id="run-history"></run-history>
+            <span class="help-text">Every completed run is saved on this device; open one to see its results again without re-simulating</span>
+          </param-section>
           <details class="debug-panel" id="debug-panel">
             <summary class="debug-toggle">Debug Log</summary>
             <div class="debug-controls">
@@ -452,13 +979,25 @@ export class AppRoot extends BaseComponent {
 
         <app-header slot="header">
           <div slot="actions" class="header-buttons">
-            <button id="btn-print" class="header-btn hidden" aria-label="Print report" title="Print report">
+            <button id="btn-replay" class="header-btn hidden" aria-label="Replay this run" title="Replay this run (same inputs and seed)">
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <polyline points="1 4 1 10 7 10"></polyline>
+                <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path>
+              </svg>
+            </button>
+            <button id="btn-print" class="header-btn hidden" aria-label="Download PDF report" title="Download PDF report">
               <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
                 <polyline points="6 9 6 2 18 2 18 9"></polyline>
                 <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2"></path>
                 <rect x="6" y="14" width="12" height="8"></rect>
               </svg>
             </button>
+            <button id="btn-share" class="header-btn" aria-label="Copy scenario link" title="Copy scenario link">
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path>
+                <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>
+              </svg>
+            </button>
             <button id="btn-guide" class="header-btn" aria-label="User Guide" title="User Guide">
               <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
                 <circle cx="12" cy="12" r="10"></circle>
@@ -515,6 +1054,9 @@ export class AppRoot extends BaseComponent {
             This simulator models the risks and outcomes of this strategy.
           </help-section>
 -->
+          <portfolio-optimizer id="portfolio-optimizer" class="hidden"></portfolio-optimizer>
+          <stress-results id="stress-results" class="hidden"></stress-results>
+          <sweep-results id="sweep-results" class="hidden"></sweep-results>
           <comparison-dashboard id="results"></comparison-dashboard>
         </div>
       </main-layout>
@@ -770,6 +1312,110 @@ export class AppRoot extends BaseComponent {
         display: block;
       }
 
+      /* Block Size and Fat-Tail Groups - conditionally shown */
+      .block-size-group,
+      .fat-tail-group,
+      .rebalancing-band-group,
+      .convergence-tolerance-group,
+      .liquidation-asset-group,
+      .bond-ltv-group,
+      .rate-model-group,
+      .estate-tax-group,
+      .estate-custom-group,
+      .tax-brackets-group,
+      .sweep-y-group {
+        display: none;
+      }
+
+      .block-size-group.visible,
+      .fat-tail-group.visible,
+      .rebalancing-band-group.visible,
+      .convergence-tolerance-group.visible,
+      .liquidation-asset-group.visible,
+      .bond-ltv-group.visible,
+      .rate-model-group.visible,
+      .estate-tax-group.visible,
+      .estate-custom-group.visible,
+      .tax-brackets-group.visible {
+        display: block;
+      }
+
+      .sweep-y-group.visible {
+        display: grid;
+      }
+
+      .sweep-range {
+        display: grid;
+        grid-template-columns: 1fr 1fr 0.7fr;
+        gap: var(--spacing-sm, 8px);
+        margin-top: var(--spacing-sm, 8px);
+      }
+
+      .sweep-run-btn {
+        width: 100%;
+        padding: var(--spacing-sm, 8px) var(--spacing-md, 16px);
+        margin-bottom: var(--spacing-sm, 8px);
+        background: transparent;
+        border: 2px solid var(--color-primary, #0d9488);
+        border-radius: var(--radius-md, 6px);
+        color: var(--color-primary, #0d9488);
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 600;
+        cursor: pointer;
+      }
+
+      .sweep-run-btn:hover:not(:disabled) {
+        background: var(--color-primary, #0d9488);
+        color: white;
+      }
+
+      .sweep-run-btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .rate-limits {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--spacing-sm, 8px);
+      }
+
+      .block-size-input {
+        display: none;
+        margin-top: var(--spacing-sm, 8px);
+      }
+
+      .block-size-input.visible {
+        display: block;
+      }
+
+      .fat-tail-grid {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--spacing-sm, 8px);
+        margin-top: var(--spacing-md, 16px);
+      }
+
+      .fat-tail-class-toggle .toggle-btn {
+        padding: var(--spacing-sm, 8px) var(--spacing-xs, 4px);
+      }
+
+      .reset-defaults-btn,
+      .seed-keep-btn {
+        margin-top: var(--spacing-sm, 8px);
+        padding: 0;
+        border: none;
+        background: none;
+        color: var(--color-primary, #0d9488);
+        font-size: var(--font-size-sm, 0.875rem);
+        cursor: pointer;
+        text-decoration: underline;
+      }
+
+      .seed-keep-btn.hidden {
+        display: none;
+      }
+
       /* Chapters Configuration */
       .chapters-config {
         display: none;
@@ -964,40 +1610,304 @@ export class AppRoot extends BaseComponent {
   }
 
   /**
-   * Calculate CAGR from current simulation result
+   * Get the user-fixed random seed, or undefined when the field is blank
    */
-  private calculateCAGRFromResult(): number {
-    if (!this._simulationResult || !this._simulationConfig) return 0;
-
-    const config = this._simulationConfig;
-    const initialValue = config.initialValue;
-    const terminalValue = this._simulationResult.statistics.median;
-    const years = config.timeHorizon;
-
-    if (initialValue <= 0 || terminalValue <= 0 || years <= 0) return 0;
+  private getFixedSeed(): string | undefined {
+    const el = this.$('#sim-seed') as (NumberInput & { value: number | null }) | null;
+    const value = el?.value;
+    return value === null || value === undefined ? undefined : String(Math.trunc(Math.abs(value)));
+  }
 
-    return Math.pow(terminalValue / initialValue, 1 / years) - 1;
+  /**
+   * Get the iteration count from the sidebar (the cap in auto mode)
+   */
+  private getIterations(): number {
+    const value = this.getSelectInputValue('num-simulations', '10000');
+    return value === 'auto' ? AUTO_ITERATION_CAP : parseInt(value, 10);
   }
 
   /**
-   * Refresh the debug panel output with current logs
+   * Get the auto-iteration stopping rule, or undefined for a fixed count
    */
-  private refreshDebugOutput(): void {
-    const output = this.$('.debug-output') as HTMLPreElement;
-    if (!output) return;
+  private getConvergenceConfig(): ConvergenceConfig | undefined {
+    if (this.getSelectInputValue('num-simulations', '10000') !== 'auto') {
+      return undefined;
+    }
+    return { tolerance: Math.max(0.1, this.getNumberInputValue('convergence-tolerance', 1)) };
+  }
 
-    const logs = getPortfolioDebugLogs();
-    const usingFallback = isUsingLocalStorageFallback();
+  /**
+   * Get the rebalancing policy from the sidebar (band and cost in 0-1 scale)
+   */
+  private getRebalancingConfig(): RebalancingConfig {
+    const strategy = this.getSelectInputValue('rebalancing', 'annual') as RebalancingStrategy;
+    const transactionCost = Math.max(0, this.getNumberInputValue('rebalancing-cost', 0)) / 100;
+    return {
+      strategy,
+      thresholdBand: strategy === 'threshold'
+        ? Math.max(0.5, this.getNumberInputValue('rebalancing-band', 5)) / 100
+        : undefined,
+      transactionCost: transactionCost > 0 ? transactionCost : undefined,
+    };
+  }
 
-    let header = '';
-    if (usingFallback) {
-      header = '*** Using localStorage fallback (IndexedDB unavailable) ***\n\n';
+  /**
+   * Get the variable-rate model from the sidebar (0-1 scale), or undefined for a fixed rate
+   */
+  private getRateModelConfig(): InterestRateModelConfig | undefined {
+    const process = this.getSelectInputValue('rate-model', 'fixed');
+    if (process !== 'mean-reverting' && process !== 'regime') {
+      return undefined;
     }
+    // Floor and cap are optional: a blank field means no limit
+    const optionalPercent = (id: string): number | undefined => {
+      const value = (this.$(`#${id}`) as (NumberInput & { value: number | null }) | null)?.value;
+      return value === null || value === undefined ? undefined : Math.max(0, value) / 100;
+    };
+    return {
+      process,
+      spread: Math.max(0, this.getNumberInputValue('rate-spread', 2.5)) / 100,
+      longRunBenchmark: Math.max(0, this.getNumberInputValue('rate-long-run', 3.5)) / 100,
+      volatility: Math.max(0, this.getNumberInputValue('rate-volatility', 1)) / 100,
+      floor: optionalPercent('rate-floor'),
+      cap: optionalPercent('rate-cap'),
+    };
+  }
 
-    if (logs.length === 0) {
-      output.textContent = header + 'No logs yet. Enable logging and perform save/load operations.';
-    } else {
-      output.textContent = header + logs.join('\n');
+  /**
+   * Get per-asset-class advance rates when asset-class collateral is enabled.
+   * Equities use the Max LTV slider; cash uses the default rate.
+   */
+  private getCollateralLimits(): LTVByAssetClass | undefined {
+    if (!this.getCheckboxValue('asset-class-ltv', false)) {
+      return undefined;
+    }
+    return {
+      equities: this.getRangeSliderValue('max-borrowing', 65) / 100,
+      bonds: this.getRangeSliderValue('bond-ltv', 85) / 100,
+      cash: DEFAULT_LTV_BY_ASSET_CLASS.cash,
+    };
+  }
+
+  /**
+   * Get the sale order for withdrawals and forced liquidations.
+   * Pro-rata selling is the default and returns undefined.
+   */
+  private getLiquidationConfig(): LiquidationConfig | undefined {
+    const order = this.getSelectInputValue('liquidation-order', 'pro-rata') as LiquidationOrder;
+    if (order === 'pro-rata') {
+      return undefined;
+    }
+    const assetId = this.getSelectInputValue('liquidation-asset', '');
+    return {
+      order,
+      assetId: order === 'specific-asset' && assetId ? assetId : undefined,
+    };
+  }
+
+  /**
+   * Get the tax bracket settings, or undefined when flat rates apply
+   */
+  private getIncomeTaxConfig(): IncomeTaxConfig | undefined {
+    if (!this.getCheckboxValue('enable-tax-brackets', false)) {
+      return undefined;
+    }
+    const state = this.getSelectInputValue('income-tax-state', '');
+    return {
+      filingStatus: this.getSelectInputValue('filing-status', 'married-joint') as FilingStatus,
+      state: state || undefined,
+      otherIncome: Math.max(0, this.getNumberInputValue('other-income', 0)),
+    };
+  }
+
+  /**
+   * Get the estate tax settings, or undefined when estate tax is off
+   */
+  private getEstateTaxConfig(): EstateTaxConfig | undefined {
+    if (!this.getCheckboxValue('enable-estate-tax', false)) {
+      return undefined;
+    }
+    const exemptionScenario = this.getSelectInputValue('estate-exemption', 'current-law') as EstateExemptionScenario;
+    const state = this.getSelectInputValue('estate-state', '');
+    return {
+      exemptionScenario,
+      exemption: exemptionScenario === 'custom'
+        ? Math.max(0, this.getNumberInputValue('estate-exemption-amount', 13_990_000))
+        : undefined,
+      federalRate: this.getRangeSliderValue('estate-tax-rate', 40) / 100,
+      portability: this.getCheckboxValue('estate-portability', false),
+      state: state || undefined,
+    };
+  }
+
+  /**
+   * Scale between a sweep parameter's config units and the sidebar inputs
+   * (percent parameters are entered as percentages)
+   */
+  private sweepDisplayScale(parameter: SweepParameter): number {
+    return SWEEP_PARAMETERS[parameter].unit === 'percent' ? 100 : 1;
+  }
+
+  /**
+   * Reset a sweep axis range to the parameter's suggested range
+   */
+  private applySweepDefaults(axis: 'x' | 'y'): void {
+    const parameter = this.getSelectInputValue(`sweep-${axis}`, '') as SweepParameter | '';
+    if (!parameter) return;
+    const { unit, defaultRange } = SWEEP_PARAMETERS[parameter];
+    const scale = this.sweepDisplayScale(parameter);
+    const suffix = unit === 'currency' ? '$' : unit === 'percent' ? '%' : 'yrs';
+    (['min', 'max'] as const).forEach((bound, index) => {
+      const el = this.$(`#sweep-${axis}-${bound}`) as (NumberInput & { value: number | null }) | null;
+      if (!el) return;
+      el.setAttribute('suffix', suffix);
+      el.value = defaultRange[index] * scale;
+    });
+  }
+
+  /**
+   * Read one sweep axis from the sidebar, or undefined when it is unset
+   */
+  private getSweepAxis(axis: 'x' | 'y'): SweepAxis | undefined {
+    const parameter = this.getSelectInputValue(`sweep-${axis}`, '') as SweepParameter | '';
+    if (!parameter) return undefined;
+    const [defaultMin, defaultMax] = SWEEP_PARAMETERS[parameter].defaultRange;
+    const scale = this.sweepDisplayScale(parameter);
+    const min = this.getNumberInputValue(`sweep-${axis}-min`, defaultMin * scale) / scale;
+    const max = this.getNumberInputValue(`sweep-${axis}-max`, defaultMax * scale) / scale;
+    const steps = Math.min(10, Math.max(2, this.getNumberInputValue(`sweep-${axis}-steps`, 5)));
+    return { parameter, values: sweepRange(min, max, steps) };
+  }
+
+  /**
+   * Get the sweep grid from the sidebar
+   */
+  private getSweepConfig(): SweepConfig {
+    return {
+      x: this.getSweepAxis('x') ?? {
+        parameter: 'annualWithdrawal',
+        values: sweepRange(...SWEEP_PARAMETERS.annualWithdrawal.defaultRange, 5),
+      },
+      y: this.getSweepAxis('y'),
+    };
+  }
+
+  /**
+   * Fill the "Sell First" select with the portfolio's symbols,
+   * keeping the current choice when it is still held
+   */
+  private updateLiquidationAssets(symbols: string[]): void {
+    const el = this.$('#liquidation-asset') as SelectInput | null;
+    if (!el) return;
+    const current = el.value || el.getAttribute('value') || '';
+    el.options = symbols.map((symbol) => ({ value: symbol, label: symbol }));
+    el.value = symbols.includes(current) ? current : (symbols[0] ?? '');
+  }
+
+  /**
+   * Show the seed used by the last run and offer to keep it
+   */
+  private showLastSeed(seed: string | undefined): void {
+    const helpText = this.$('#seed-help-text');
+    const keepBtn = this.$('#seed-keep');
+    const fixed = this.getFixedSeed();
+    if (helpText) {
+      helpText.textContent = seed
+        ? `Last run used seed ${seed}`
+        : 'Blank = new random seed each run';
+    }
+    // Keeping only makes sense when the seed was drawn automatically
+    keepBtn?.classList.toggle('hidden', !seed || seed === fixed || !/^\d+$/.test(seed));
+  }
+
+  /**
+   * Get fat-tail parameters that differ from FAT_TAIL_PARAMS
+   * Returns undefined when everything is at its default
+   */
+  private getFatTailOverrides(): FatTailParamsOverrides | undefined {
+    const overrides: FatTailParamsOverrides = {};
+    let hasOverrides = false;
+
+    for (const assetClass of Object.keys(FAT_TAIL_PARAMS) as SimulationAssetClass[]) {
+      for (const { field } of FAT_TAIL_INPUTS) {
+        const value = this._fatTailParams[assetClass][field];
+        if (value !== FAT_TAIL_PARAMS[assetClass][field]) {
+          overrides[assetClass] = { ...overrides[assetClass], [field]: value };
+          hasOverrides = true;
+        }
+      }
+    }
+
+    return hasOverrides ? overrides : undefined;
+  }
+
+  /**
+   * Show the fat-tail parameters of an asset class in the sidebar editor
+   */
+  private showFatTailAssetClass(assetClass: SimulationAssetClass): void {
+    this._fatTailAssetClass = assetClass;
+
+    this.$$('.fat-tail-class-toggle .toggle-btn').forEach((btn) => {
+      btn.classList.toggle('active', (btn as HTMLElement).dataset.assetClass === assetClass);
+    });
+
+    for (const { id, field, scale } of FAT_TAIL_INPUTS) {
+      const el = this.$(`#${id}`) as NumberInput | null;
+      if (el) el.value = Number((this._fatTailParams[assetClass][field] * scale).toFixed(4));
+    }
+  }
+
+  /**
+   * Switch block size between automatic estimation and a manual value
+   */
+  private setBlockSizeMode(mode: 'auto' | 'manual'): void {
+    this._blockSizeMode = mode;
+    this.$('#block-size-auto')?.classList.toggle('active', mode === 'auto');
+    this.$('#block-size-manual')?.classList.toggle('active', mode === 'manual');
+    this.$('#block-size')?.classList.toggle('visible', mode === 'manual');
+    const helpText = this.$('#block-size-help-text');
+    if (helpText) {
+      helpText.textContent = mode === 'auto'
+        ? 'Estimated from return autocorrelation (Politis-White)'
+        : 'Fixed number of consecutive years per block';
+    }
+  }
+
+  /**
+   * Calculate CAGR from current simulation result
+   */
+  private calculateCAGRFromResult(): number {
+    if (!this._simulationResult || !this._simulationConfig) return 0;
+
+    const config = this._simulationConfig;
+    const initialValue = config.initialValue;
+    const terminalValue = this._simulationResult.statistics.median;
+    const years = config.timeHorizon;
+
+    if (initialValue <= 0 || terminalValue <= 0 || years <= 0) return 0;
+
+    return Math.pow(terminalValue / initialValue, 1 / years) - 1;
+  }
+
+  /**
+   * Refresh the debug panel output with current logs
+   */
+  private refreshDebugOutput(): void {
+    const output = this.$('.debug-output') as HTMLPreElement;
+    if (!output) return;
+
+    const logs = getPortfolioDebugLogs();
+    const usingFallback = isUsingLocalStorageFallback();
+
+    let header = '';
+    if (usingFallback) {
+      header = '*** Using localStorage fallback (IndexedDB unavailable) ***\n\n';
+    }
+
+    if (logs.length === 0) {
+      output.textContent = header + 'No logs yet. Enable logging and perform save/load operations.';
+    } else {
+      output.textContent = header + logs.join('\n');
     }
   }
 
@@ -1021,15 +1931,26 @@ export class AppRoot extends BaseComponent {
 
     // SBLOC Terms (convert from % to 0-1 scale)
     const sblocRate = this.getRangeSliderValue('sbloc-rate', 7) / 100;
+    const rateModel = this.getRateModelConfig();
     const maxBorrowing = this.getRangeSliderValue('max-borrowing', 65) / 100;
     const maintenanceMargin = this.getRangeSliderValue('maintenance-margin', 50) / 100;
     const liquidationHaircut = this.getRangeSliderValue('liquidation-haircut', 5) / 100;
+    const ltvByAssetClass = this.getCollateralLimits();
 
     // Simulation Settings
-    const iterations = parseInt(this.getSelectInputValue('num-simulations', '10000'), 10);
+    const iterations = this.getIterations();
+    const convergence = this.getConvergenceConfig();
     const inflationRate = this.getRangeSliderValue('inflation-rate', 2.5) / 100;
-    const returnModel = this.getSelectInputValue('return-model', 'bootstrap') as 'bootstrap' | 'regime';
+    const returnModel = this.getSelectInputValue('return-model', 'bootstrap') as ReturnModel;
     const regimeCalibration = this._regimeCalibration;
+    const blockSize = this._blockSizeMode === 'manual'
+      ? Math.max(1, Math.round(this.getNumberInputValue('block-size', 3)))
+      : undefined;
+    const fatTailParams = this.getFatTailOverrides();
+    const seed = this.getFixedSeed();
+    const timeStep = this.getSelectInputValue('time-step', 'annual') as NonNullable<PortfolioRecord['timeStep']>;
+    const rebalancing = this.getRebalancingConfig();
+    const liquidation = this.getLiquidationConfig();
 
     // Withdrawal Chapters
     const enableChapters = this.getCheckboxValue('enable-chapters', false);
@@ -1054,7 +1975,9 @@ export class AppRoot extends BaseComponent {
       dividendYield: enableTaxModeling && !taxAdvantaged ? this.getRangeSliderValue('dividend-yield', 0.5) / 100 : 0,
       ordinaryTaxRate: enableTaxModeling && !taxAdvantaged ? this.getRangeSliderValue('ordinary-tax-rate', 37) / 100 : 0,
       ltcgTaxRate: enableTaxModeling && !taxAdvantaged ? this.getRangeSliderValue('ltcg-tax-rate', 23.8) / 100 : 0,
+      incomeTax: enableTaxModeling && !taxAdvantaged ? this.getIncomeTaxConfig() : undefined,
     };
+    const estateTax = this.getEstateTaxConfig();
 
     return {
       initialValue,
@@ -1066,15 +1989,25 @@ export class AppRoot extends BaseComponent {
       annualRaise,
       monthlyWithdrawal,
       sblocRate,
+      rateModel,
       maxBorrowing,
       maintenanceMargin,
       liquidationHaircut,
+      ltvByAssetClass,
       iterations,
+      convergence,
       inflationRate,
       returnModel,
       regimeCalibration,
+      blockSize,
+      fatTailParams,
+      seed,
+      timeStep,
+      rebalancing,
+      liquidation,
       withdrawalChapters,
       taxModeling,
+      estateTax,
     };
   }
 
@@ -1123,6 +2056,23 @@ export class AppRoot extends BaseComponent {
     if (params.sblocRate !== undefined) {
       const el = this.$('#sbloc-rate') as RangeSlider;
       if (el) el.value = params.sblocRate * 100;
+
+      // Portfolios saved before variable rates existed use a fixed rate
+      const rateModel = params.rateModel;
+      const setPercent = (id: string, value: number | undefined, fallback: number | null) => {
+        const input = this.$(`#${id}`) as NumberInput;
+        if (input) input.value = value !== undefined ? value * 100 : fallback;
+      };
+      setPercent('rate-spread', rateModel?.spread, 2.5);
+      setPercent('rate-long-run', rateModel?.longRunBenchmark, 3.5);
+      setPercent('rate-volatility', rateModel?.volatility, 1);
+      setPercent('rate-floor', rateModel?.floor, null);
+      setPercent('rate-cap', rateModel?.cap, null);
+      const rateModelEl = this.$('#rate-model') as SelectInput;
+      if (rateModelEl) {
+        rateModelEl.value = rateModel?.process ?? 'fixed';
+        rateModelEl.dispatchEvent(new Event('change'));
+      }
     }
     if (params.maxBorrowing !== undefined) {
       const el = this.$('#max-borrowing') as RangeSlider;
@@ -1136,11 +2086,26 @@ export class AppRoot extends BaseComponent {
       const el = this.$('#liquidation-haircut') as RangeSlider;
       if (el) el.value = params.liquidationHaircut * 100;
     }
+    if (params.maxBorrowing !== undefined) {
+      // Portfolios saved before asset-class collateral existed use a single max LTV
+      const bondEl = this.$('#bond-ltv') as RangeSlider;
+      if (bondEl) bondEl.value = (params.ltvByAssetClass?.bonds ?? DEFAULT_LTV_BY_ASSET_CLASS.bonds) * 100;
+      const el = this.$('#asset-class-ltv') as CheckboxInput;
+      if (el) {
+        el.checked = params.ltvByAssetClass !== undefined;
+        el.dispatchEvent(new Event('change')); // Trigger visibility
+      }
+    }
 
     // Simulation Settings
-    if (params.iterations !== undefined) {
+    if (params.iterations !== undefined || params.convergence !== undefined) {
       const el = this.$('#num-simulations') as SelectInput;
-      if (el) el.value = params.iterations.toString();
+      const toleranceEl = this.$('#convergence-tolerance') as NumberInput;
+      if (toleranceEl && params.convergence) toleranceEl.value = params.convergence.tolerance;
+      if (el) {
+        el.value = params.convergence ? 'auto' : String(params.iterations);
+        el.dispatchEvent(new Event('change'));
+      }
     }
     if (params.inflationRate !== undefined) {
       const el = this.$('#inflation-rate') as RangeSlider;
@@ -1165,6 +2130,54 @@ export class AppRoot extends BaseComponent {
           : 'Stress-testing with extended crash durations';
       }
     }
+    if (params.returnModel !== undefined) {
+      // Block size and fat-tail parameters are stored only when customized,
+      // so an absent field means auto block size / default parameters
+      if (params.blockSize !== undefined) {
+        const el = this.$('#block-size') as NumberInput;
+        if (el) el.value = params.blockSize;
+        this.setBlockSizeMode('manual');
+      } else {
+        this.setBlockSizeMode('auto');
+      }
+      this._fatTailParams = resolveFatTailParams(params.fatTailParams);
+      this.showFatTailAssetClass(this._fatTailAssetClass);
+
+      // Seed is likewise stored only when fixed; absent means a fresh seed per run
+      const seedEl = this.$('#sim-seed') as NumberInput;
+      const seed = params.seed !== undefined && /^\d+$/.test(params.seed) ? Number(params.seed) : null;
+      if (seedEl) seedEl.value = seed;
+      this.showLastSeed(this._simulationResult?.seed);
+
+      // Portfolios saved before monthly mode existed run annually
+      const timeStepEl = this.$('#time-step') as SelectInput;
+      if (timeStepEl) {
+        timeStepEl.value = params.timeStep ?? 'annual';
+        timeStepEl.dispatchEvent(new Event('change'));
+      }
+
+      // Portfolios saved before rebalancing policies existed rebalance annually at no cost
+      const rebalancingEl = this.$('#rebalancing') as SelectInput;
+      const bandEl = this.$('#rebalancing-band') as NumberInput;
+      const costEl = this.$('#rebalancing-cost') as NumberInput;
+      if (bandEl) bandEl.value = (params.rebalancing?.thresholdBand ?? 0.05) * 100;
+      if (costEl) costEl.value = (params.rebalancing?.transactionCost ?? 0) * 100;
+      if (rebalancingEl) {
+        rebalancingEl.value = params.rebalancing?.strategy ?? 'annual';
+        rebalancingEl.dispatchEvent(new Event('change'));
+      }
+
+      // Portfolios saved before sale ordering existed sell pro-rata
+      const liquidationAssetEl = this.$('#liquidation-asset') as SelectInput;
+      if (liquidationAssetEl && params.liquidation?.assetId) {
+        liquidationAssetEl.value = params.liquidation.assetId;
+      }
+      const liquidationOrderEl = this.$('#liquidation-order') as SelectInput;
+      if (liquidationOrderEl) {
+        liquidationOrderEl.value = params.liquidation?.order ?? 'pro-rata';
+        liquidationOrderEl.dispatchEvent(new Event('change'));
+      }
+    }
 
     // Withdrawal Chapters
     if (params.withdrawalChapters !== undefined) {
@@ -1211,6 +2224,41 @@ export class AppRoot extends BaseComponent {
         if (ordinaryEl) ordinaryEl.value = params.taxModeling.ordinaryTaxRate * 100;
         if (ltcgEl) ltcgEl.value = params.taxModeling.ltcgTaxRate * 100;
       }
+
+      // Portfolios saved before tax brackets existed use the flat rates
+      const incomeTax = params.taxModeling.incomeTax;
+      const filingStatusEl = this.$('#filing-status') as SelectInput;
+      const incomeStateEl = this.$('#income-tax-state') as SelectInput;
+      const otherIncomeEl = this.$('#other-income') as NumberInput;
+      if (filingStatusEl) filingStatusEl.value = incomeTax?.filingStatus ?? 'married-joint';
+      if (incomeStateEl) incomeStateEl.value = incomeTax?.state ?? '';
+      if (otherIncomeEl) otherIncomeEl.value = incomeTax?.otherIncome ?? 0;
+      const bracketsEl = this.$('#enable-tax-brackets') as CheckboxInput;
+      if (bracketsEl) {
+        bracketsEl.checked = incomeTax !== undefined;
+        bracketsEl.dispatchEvent(new Event('change')); // Trigger visibility
+      }
+
+      // Portfolios saved before estate tax existed apply none
+      const estateTax = params.estateTax;
+      const exemptionEl = this.$('#estate-exemption') as SelectInput;
+      const exemptionAmountEl = this.$('#estate-exemption-amount') as NumberInput;
+      const estateRateEl = this.$('#estate-tax-rate') as RangeSlider;
+      const portabilityEl = this.$('#estate-portability') as CheckboxInput;
+      const stateEl = this.$('#estate-state') as SelectInput;
+      if (exemptionAmountEl) exemptionAmountEl.value = estateTax?.exemption ?? 13_990_000;
+      if (estateRateEl) estateRateEl.value = (estateTax?.federalRate ?? 0.40) * 100;
+      if (portabilityEl) portabilityEl.checked = estateTax?.portability ?? false;
+      if (stateEl) stateEl.value = estateTax?.state ?? '';
+      if (exemptionEl) {
+        exemptionEl.value = estateTax?.exemptionScenario ?? 'current-law';
+        exemptionEl.dispatchEvent(new Event('change'));
+      }
+      const enableEstateEl = this.$('#enable-estate-tax') as CheckboxInput;
+      if (enableEstateEl) {
+        enableEstateEl.checked = estateTax !== undefined;
+        enableEstateEl.dispatchEvent(new Event('change')); // Trigger visibility
+      }
     }
   }
 
@@ -1282,7 +2330,7 @@ export class AppRoot extends BaseComponent {
     // Portfolio Settings
     const initialValue = this.getNumberInputValue('initial-investment', 5000000);
     const initialLocBalance = this.getNumberInputValue('initial-loc-balance', 0);
-    const iterations = parseInt(this.getSelectInputValue('num-simulations', '10000'), 10);
+    const iterations = this.getIterations();
     const inflationRate = this.getRangeSliderValue('inflation-rate', 2.5) / 100;
 
     // Timeline
@@ -1308,7 +2356,8 @@ export class AppRoot extends BaseComponent {
     const liquidationHaircut = this.getRangeSliderValue('liquidation-haircut', 5) / 100;
 
     // Return Distribution Model
-    const returnModel = this.getSelectInputValue('return-model', 'bootstrap');
+    const returnModel = this.getSelectInputValue('return-model', 'bootstrap') as ReturnModel;
+    const resamplingMethod = RESAMPLING_METHOD_BY_MODEL[returnModel] ?? 'simple';
     const regimeCalibration = this._regimeCalibration;
 
     // Withdrawal Chapters
@@ -1336,6 +2385,7 @@ export class AppRoot extends BaseComponent {
       dividendYield: enableTaxModeling && !taxAdvantaged ? this.getRangeSliderValue('dividend-yield', 0.5) / 100 : 0,
       ordinaryTaxRate: enableTaxModeling && !taxAdvantaged ? this.getRangeSliderValue('ordinary-tax-rate', 37) / 100 : 0,
       ltcgTaxRate: enableTaxModeling && !taxAdvantaged ? this.getRangeSliderValue('ltcg-tax-rate', 23.8) / 100 : 0,
+      incomeTax: enableTaxModeling && !taxAdvantaged ? this.getIncomeTaxConfig() : undefined,
     };
 
     // Sell Strategy Comparison
@@ -1356,6 +2406,8 @@ export class AppRoot extends BaseComponent {
       maintenanceMargin,
       liquidationHaircut,
       initialLocBalance,
+      ltvByAssetClass: this.getCollateralLimits(),
+      rateModel: this.getRateModelConfig(),
     };
 
     // Build Timeline config
@@ -1367,51 +2419,51 @@ export class AppRoot extends BaseComponent {
     // Build SimulationConfig
     const config: SimulationConfig = {
       iterations,
+      convergence: this.getConvergenceConfig(),
       timeHorizon,
       initialValue,
       inflationRate,
       inflationAdjusted: false,
-      resamplingMethod: returnModel === 'regime' ? 'regime' : 'simple',
-      regimeCalibration: returnModel === 'regime' ? regimeCalibration : undefined,
-      seed: undefined,
+      resamplingMethod,
+      regimeCalibration: resamplingMethod === 'regime' ? regimeCalibration : undefined,
+      fatTailParams: resamplingMethod === 'fat-tail' ? this.getFatTailOverrides() : undefined,
+      seed: this.getFixedSeed() ?? generateSeed(),
+      timeStep: this.getSelectInputValue('time-step', 'annual') === 'monthly' ? 'monthly' : 'annual',
+      rebalancing: this.getRebalancingConfig(),
+      liquidation: this.getLiquidationConfig(),
       timeline,
       sbloc: sblocConfig,
       withdrawalChapters,
       taxModeling,
       sellStrategy,
+      estateTax: this.getEstateTaxConfig(),
     };
 
     // Build PortfolioConfig from portfolio-composition assets
-    const portfolioComp = this.$('#portfolio-composition') as (PortfolioComposition & { getWeights(): Record<string, number> }) | null;
+    const portfolioComp = this.$('#portfolio-composition') as PortfolioComposition | null;
     const weights: Record<string, number> = portfolioComp?.getWeights() ?? { SPY: 60, BND: 30, GLD: 10 };
+    const costBasis = portfolioComp?.getCostBasis() ?? {};
     const assets: AssetConfig[] = [];
 
     // Collect returns with year information for correlation calculation
     const assetReturnsByYear: Map<string, Map<string, number>> = new Map();
 
     for (const [symbol, weightPercent] of Object.entries(weights)) {
-      // Get historical returns - check custom data first, fall back to bundled presets
+      // Get historical returns - custom data, then bundled presets, then fetched live data
       const preset = await getEffectiveData(symbol);
-      let historicalReturns: number[];
-      const returnsByYear: Map<string, number> = new Map();
-
-      if (preset) {
-        // Extract return values from preset data, keeping year information
-        historicalReturns = preset.returns.map((r) => r.return);
-        for (const r of preset.returns) {
-          returnsByYear.set(r.date, r.return);
-        }
-      } else {
-        // Fallback: use placeholder returns with warning
-        console.warn(`No preset data for ${symbol}, using placeholder returns`);
-        // Generate 20 years of placeholder returns (roughly 8% annual with 15% vol)
-        historicalReturns = Array.from({ length: 20 }, () =>
-          0.08 + (Math.random() - 0.5) * 0.30
+      if (!preset || preset.returns.length === 0) {
+        // Never fabricate returns: the simulation would look valid but be meaningless
+        throw new Error(
+          `No historical data for ${symbol}. Fetch it from your market data provider or import it in Settings.`
         );
-        // Create synthetic year labels for placeholders
-        for (let i = 0; i < historicalReturns.length; i++) {
-          returnsByYear.set(String(2005 + i), historicalReturns[i]);
-        }
+      }
+
+      // Extract return values from preset data, keeping year information
+      const historicalReturns = preset.returns.map((r) => r.return);
+      const historicalYears = preset.returns.map((r) => Number(r.date.slice(0, 4)));
+      const returnsByYear: Map<string, number> = new Map();
+      for (const r of preset.returns) {
+        returnsByYear.set(r.date, r.return);
       }
 
       assetReturnsByYear.set(symbol, returnsByYear);
@@ -1420,9 +2472,27 @@ export class AppRoot extends BaseComponent {
         id: symbol,
         weight: weightPercent / 100, // Convert percentage to decimal
         historicalReturns,
+        historicalYears,
+        assetClass: preset.assetClass && preset.assetClass in FAT_TAIL_PARAMS
+          ? preset.assetClass as SimulationAssetClass
+          : undefined,
+        ...costBasis[symbol],
       });
     }
 
+    // Monthly mode resamples real months when every asset has cached monthly history
+    if (config.timeStep === 'monthly' && assets.length > 0) {
+      await this.attachMonthlyReturns(assets);
+    }
+
+    // Resolve block size: manual value, or the same Politis-White estimate
+    // correlatedBlockBootstrap would compute, recorded so the run is self-describing
+    if (resamplingMethod === 'block' && assets.length > 0) {
+      config.blockSize = this._blockSizeMode === 'manual'
+        ? Math.max(1, Math.round(this.getNumberInputValue('block-size', 3)))
+        : optimalBlockLength(assets[0].historicalReturns);
+    }
+
     // Calculate correlation matrix from year-aligned returns
     const n = assets.length;
     let correlationMatrix: number[][];
@@ -1471,6 +2541,35 @@ export class AppRoot extends BaseComponent {
     return { config, portfolio };
   }
 
+  /**
+   * Attach calendar-aligned monthly returns to each asset, if all of them
+   * have at least MIN_MONTHLY_HISTORY common months of fetched data.
+   * Otherwise the bootstrap models bridge annual returns into monthly paths.
+   */
+  private async attachMonthlyReturns(assets: AssetConfig[]): Promise<void> {
+    const monthlyByAsset: Map<string, number>[] = [];
+    for (const asset of assets) {
+      const monthly = await getLiveMonthlyReturns(asset.id);
+      if (!monthly) {
+        console.log(`[Monthly] No monthly history for ${asset.id}; bridging annual returns`);
+        return;
+      }
+      monthlyByAsset.push(new Map(monthly.map((r) => [r.date, r.return])));
+    }
+
+    const commonMonths = Array.from(monthlyByAsset[0].keys())
+      .filter((month) => monthlyByAsset.every((byMonth) => byMonth.has(month)))
+      .sort();
+    if (commonMonths.length < MIN_MONTHLY_HISTORY) {
+      console.log(`[Monthly] Only ${commonMonths.length} common months of history; bridging annual returns`);
+      return;
+    }
+
+    assets.forEach((asset, i) => {
+      asset.monthlyReturns = commonMonths.map((month) => monthlyByAsset[i].get(month)!);
+    });
+  }
+
   protected override afterRender(): void {
     const runBtn = this.$('#run-sim') as HTMLButtonElement;
     const progress = this.$('#sim-progress') as HTMLElement;
@@ -1595,21 +2694,23 @@ export class AppRoot extends BaseComponent {
     });
 
     // =========================================================================
-    // Print button handler
+    // PDF report button handler
     // =========================================================================
     const printBtn = this.$('#btn-print');
 
-    // Show print button when simulation completes
+    // Show print and replay buttons when simulation completes
     document.addEventListener('simulation-complete', () => {
       printBtn?.classList.remove('hidden');
+      this.$('#btn-replay')?.classList.remove('hidden');
     });
 
-    // Print button click handler
+    // Generate the PDF report from the displayed run
     printBtn?.addEventListener('click', async () => {
       // Get results dashboard element
       const dashboard = this.$('#results') as any;
-      if (!dashboard || !this._simulationResult) {
-        toastContainer?.show('No simulation results to print', 'warning');
+      const result = this._simulationResult;
+      if (!dashboard || !result) {
+        toastContainer?.show('No simulation results to report', 'warning');
         return;
       }
 
@@ -1620,22 +2721,27 @@ export class AppRoot extends BaseComponent {
 
       if (!dashboardShadowRoot) {
         console.error('Could not access results dashboard shadow root');
-        toastContainer?.show('Could not access dashboard for printing', 'error');
+        toastContainer?.show('Could not access dashboard for the report', 'error');
         return;
       }
 
-      // Get simulation config
-      const config = this._simulationConfig || (await this.collectSimulationParams()).config;
-
-      // Extract all dashboard data from rendered DOM
-      const dashboardData = extractDashboardData(dashboardShadowRoot, config);
+      // Report the displayed run: its stored config and portfolio, not the sidebar
+      const { config, portfolio } = this._simulationConfig && this._simulationPortfolio
+        ? { config: this._simulationConfig, portfolio: this._simulationPortfolio }
+        : await this.collectSimulationParams();
 
-      // Generate high-fidelity print HTML and open print window
-      const htmlContent = generatePrintHtmlFromDashboard(dashboardData);
-      const printWindow = openPrintWindow(htmlContent);
-
-      if (printWindow) {
-        toastContainer?.show('Print preview opened in new window', 'info');
+      try {
+        const data = buildPrintableData(
+          result,
+          config,
+          portfolio,
+          extractAllChartImages(dashboardShadowRoot)
+        );
+        await downloadPdfReport(data, { logoUrl });
+        toastContainer?.show('PDF report downloaded', 'success');
+      } catch (error) {
+        console.error('Failed to generate PDF report:', error);
+        toastContainer?.show('Could not generate PDF report', 'error');
       }
     });
 
@@ -1707,16 +2813,99 @@ export class AppRoot extends BaseComponent {
     const regimeConservativeBtn = this.$('#regime-conservative') as HTMLButtonElement | null;
     const regimeHelpText = this.$('#regime-help-text');
 
+    const blockSizeGroup = this.$('#block-size-group');
+    const fatTailGroup = this.$('#fat-tail-group');
+
     const updateRegimeVisibility = () => {
       const isRegime = returnModelSelect?.value === 'regime';
       if (regimeCalibrationGroup) {
         regimeCalibrationGroup.classList.toggle('visible', isRegime);
       }
+      blockSizeGroup?.classList.toggle('visible', returnModelSelect?.value === 'block');
+      fatTailGroup?.classList.toggle('visible', returnModelSelect?.value === 'fat-tail');
     };
 
     returnModelSelect?.addEventListener('change', updateRegimeVisibility);
     updateRegimeVisibility(); // Initial state
 
+    // Time step help text
+    const timeStepSelect = this.$('#time-step') as (SelectInput & { value: string }) | null;
+    const timeStepHelpText = this.$('#time-step-help-text');
+    const updateTimeStepHelp = () => {
+      if (timeStepHelpText) {
+        timeStepHelpText.textContent = timeStepSelect?.value === 'monthly'
+          ? 'Margin calls checked every month along the simulated path'
+          : 'One step per year';
+      }
+    };
+    timeStepSelect?.addEventListener('change', () => {
+      updateTimeStepHelp();
+      notifyParamsChanged();
+    });
+    updateTimeStepHelp();
+
+    // Iterations: tolerance shown only for auto runs
+    const iterationsSelect = this.$('#num-simulations') as (SelectInput & { value: string }) | null;
+    const convergenceToleranceGroup = this.$('#convergence-tolerance-group');
+    const updateIterations = () => {
+      convergenceToleranceGroup?.classList.toggle('visible', iterationsSelect?.value === 'auto');
+    };
+    iterationsSelect?.addEventListener('change', () => {
+      updateIterations();
+      notifyParamsChanged();
+    });
+    this.$('#convergence-tolerance')?.addEventListener('change', notifyParamsChanged);
+    updateIterations();
+
+    // Rebalancing policy: drift band shown only for threshold rebalancing
+    const rebalancingSelect = this.$('#rebalancing') as (SelectInput & { value: string }) | null;
+    const rebalancingBandGroup = this.$('#rebalancing-band-group');
+    const rebalancingHelpText = this.$('#rebalancing-help-text');
+    const rebalancingHelp: Record<RebalancingStrategy, string> = {
+      none: 'Weights drift with returns; no rebalancing trades',
+      annual: 'Reset to target weights every year end',
+      quarterly: 'Reset to target weights every quarter end',
+      threshold: 'Reset when any weight leaves its drift band',
+    };
+    const updateRebalancing = () => {
+      const strategy = (rebalancingSelect?.value ?? 'annual') as RebalancingStrategy;
+      rebalancingBandGroup?.classList.toggle('visible', strategy === 'threshold');
+      if (rebalancingHelpText) {
+        rebalancingHelpText.textContent = rebalancingHelp[strategy] ?? rebalancingHelp.annual;
+      }
+    };
+    rebalancingSelect?.addEventListener('change', () => {
+      updateRebalancing();
+      notifyParamsChanged();
+    });
+    this.$('#rebalancing-band')?.addEventListener('change', notifyParamsChanged);
+    this.$('#rebalancing-cost')?.addEventListener('change', notifyParamsChanged);
+    updateRebalancing();
+
+    // Sale order: asset picker shown only for specific-asset ordering
+    const liquidationOrderSelect = this.$('#liquidation-order') as (SelectInput & { value: string }) | null;
+    const liquidationAssetGroup = this.$('#liquidation-asset-group');
+    const liquidationOrderHelpText = this.$('#liquidation-order-help-text');
+    const liquidationOrderHelp: Record<LiquidationOrder, string> = {
+      'pro-rata': 'Sell every holding in proportion',
+      'highest-basis': 'Sell the lots with the least embedded gain per dollar first',
+      'lowest-gain': 'Sell the lots with the smallest dollar gain first',
+      'specific-asset': 'Sell one holding first, then highest basis',
+    };
+    const updateLiquidationOrder = () => {
+      const order = (liquidationOrderSelect?.value ?? 'pro-rata') as LiquidationOrder;
+      liquidationAssetGroup?.classList.toggle('visible', order === 'specific-asset');
+      if (liquidationOrderHelpText) {
+        liquidationOrderHelpText.textContent = liquidationOrderHelp[order] ?? liquidationOrderHelp['pro-rata'];
+      }
+    };
+    liquidationOrderSelect?.addEventListener('change', () => {
+      updateLiquidationOrder();
+      notifyParamsChanged();
+    });
+    this.$('#liquidation-asset')?.addEventListener('change', notifyParamsChanged);
+    updateLiquidationOrder();
+
     // Regime calibration toggle buttons
     const updateRegimeCalibration = (mode: RegimeCalibrationMode) => {
       this._regimeCalibration = mode;
@@ -1738,6 +2927,72 @@ export class AppRoot extends BaseComponent {
       notifyParamsChanged();
     });
 
+    // Block size mode toggle buttons
+    this.setBlockSizeMode(this._blockSizeMode);
+    this.$('#block-size-auto')?.addEventListener('click', () => {
+      this.setBlockSizeMode('auto');
+      notifyParamsChanged();
+    });
+    this.$('#block-size-manual')?.addEventListener('click', () => {
+      this.setBlockSizeMode('manual');
+      notifyParamsChanged();
+    });
+
+    // Fat-tail parameter editor: asset class tabs, field inputs, reset
+    this.showFatTailAssetClass(this._fatTailAssetClass);
+    this.$$('.fat-tail-class-toggle .toggle-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        this.showFatTailAssetClass((btn as HTMLElement).dataset.assetClass as SimulationAssetClass);
+      });
+    });
+    for (const { id, field, scale } of FAT_TAIL_INPUTS) {
+      this.$(`#${id}`)?.addEventListener('input', (e) => {
+        const value = (e as CustomEvent).detail?.value;
+        if (typeof value === 'number') {
+          this._fatTailParams[this._fatTailAssetClass][field] = value / scale;
+        }
+      });
+    }
+    this.$('#fat-tail-reset')?.addEventListener('click', () => {
+      this._fatTailParams = resolveFatTailParams();
+      this.showFatTailAssetClass(this._fatTailAssetClass);
+      notifyParamsChanged();
+    });
+
+    // =========================================================================
+    // Variable Rate Model
+    // =========================================================================
+    const rateModelSelect = this.$('#rate-model') as (SelectInput & { value: string }) | null;
+    const rateModelGroup = this.$('#rate-model-group');
+    const rateModelHelpText = this.$('#rate-model-help-text');
+    const rateModelHelp: Record<BenchmarkRateProcess | 'fixed', string> = {
+      'fixed': 'Same rate every year',
+      'mean-reverting': 'Benchmark drifts toward its long-run level',
+      'regime': 'Benchmark is cut in crashes and rises in bull markets',
+    };
+    const updateRateModel = () => {
+      const process = (rateModelSelect?.value ?? 'fixed') as BenchmarkRateProcess | 'fixed';
+      rateModelGroup?.classList.toggle('visible', process !== 'fixed');
+      if (rateModelHelpText) {
+        rateModelHelpText.textContent = rateModelHelp[process] ?? rateModelHelp.fixed;
+      }
+    };
+    rateModelSelect?.addEventListener('change', updateRateModel);
+    updateRateModel();
+
+    // =========================================================================
+    // Asset-Class Collateral Toggle
+    // =========================================================================
+    const assetClassLtvCheckbox = this.$('#asset-class-ltv') as (CheckboxInput & { checked: boolean }) | null;
+    const bondLtvGroup = this.$('#bond-ltv-group');
+
+    const updateCollateralVisibility = () => {
+      bondLtvGroup?.classList.toggle('visible', assetClassLtvCheckbox?.checked ?? false);
+    };
+
+    assetClassLtvCheckbox?.addEventListener('change', updateCollateralVisibility);
+    updateCollateralVisibility(); // Initial state
+
     // =========================================================================
     // Withdrawal Chapters Toggle
     // =========================================================================
@@ -1761,6 +3016,8 @@ export class AppRoot extends BaseComponent {
     const taxConfig = this.$('#tax-config');
     const taxAdvantagedCheckbox = this.$('#tax-advantaged') as (CheckboxInput & { checked: boolean }) | null;
     const taxRatesGroup = this.$('#tax-rates-group');
+    const taxBracketsCheckbox = this.$('#enable-tax-brackets') as (CheckboxInput & { checked: boolean }) | null;
+    const taxBracketsGroup = this.$('#tax-brackets-group');
 
     const updateTaxVisibility = () => {
       const isEnabled = enableTaxCheckbox?.checked ?? false;
@@ -1772,14 +3029,52 @@ export class AppRoot extends BaseComponent {
       if (taxRatesGroup) {
         taxRatesGroup.classList.toggle('hidden', isTaxAdvantaged);
       }
+      taxBracketsGroup?.classList.toggle('visible', taxBracketsCheckbox?.checked ?? false);
     };
 
     enableTaxCheckbox?.addEventListener('change', updateTaxVisibility);
     taxAdvantagedCheckbox?.addEventListener('change', updateTaxVisibility);
+    taxBracketsCheckbox?.addEventListener('change', updateTaxVisibility);
     updateTaxVisibility(); // Initial state
 
-    // Portfolio composition changes are handled internally by the component
-    // The component dispatches 'portfolio-change' events which we can listen to if needed
+    // =========================================================================
+    // Estate Tax Toggle
+    // =========================================================================
+    const enableEstateCheckbox = this.$('#enable-estate-tax') as (CheckboxInput & { checked: boolean }) | null;
+    const estateTaxGroup = this.$('#estate-tax-group');
+    const estateExemptionSelect = this.$('#estate-exemption') as (SelectInput & { value: string }) | null;
+    const estateCustomGroup = this.$('#estate-custom-group');
+
+    const updateEstateTaxVisibility = () => {
+      estateTaxGroup?.classList.toggle('visible', enableEstateCheckbox?.checked ?? false);
+      estateCustomGroup?.classList.toggle('visible', estateExemptionSelect?.value === 'custom');
+    };
+
+    enableEstateCheckbox?.addEventListener('change', updateEstateTaxVisibility);
+    estateExemptionSelect?.addEventListener('change', updateEstateTaxVisibility);
+    updateEstateTaxVisibility(); // Initial state
+
+    // =========================================================================
+    // Parameter Sweep Axes
+    // =========================================================================
+    const sweepXSelect = this.$('#sweep-x') as (SelectInput & { value: string }) | null;
+    const sweepYSelect = this.$('#sweep-y') as (SelectInput & { value: string }) | null;
+    const sweepYGroup = this.$('#sweep-y-group');
+
+    sweepXSelect?.addEventListener('change', () => this.applySweepDefaults('x'));
+    sweepYSelect?.addEventListener('change', () => {
+      sweepYGroup?.classList.toggle('visible', !!sweepYSelect.value);
+      this.applySweepDefaults('y');
+    });
+
+    // Portfolio composition changes are handled internally by the component;
+    // only the "Sell First" choices follow the selected symbols
+    const portfolioComposition = this.$('#portfolio-composition') as PortfolioComposition | null;
+    portfolioComposition?.addEventListener('portfolio-change', (e) => {
+      const { assets } = (e as CustomEvent<{ assets: { symbol: string }[] }>).detail;
+      this.updateLiquidationAssets(assets.map((a) => a.symbol));
+    });
+    this.updateLiquidationAssets(Object.keys(portfolioComposition?.getWeights() ?? {}));
 
     // =========================================================================
     // Auto-run simulation on parameter commit (Enter key or slider mouseup)
@@ -1796,6 +3091,11 @@ export class AppRoot extends BaseComponent {
       const target = e.target as HTMLElement;
       const isMobile = window.matchMedia('(max-width: 768px)').matches;
 
+      // Sweep ranges and optimizer settings only apply when those tools run
+      if (target.closest('.sweep-controls, .optimizer-controls, .stress-controls')) {
+        return;
+      }
+
       // On mobile, skip auto-run for range sliders (too disruptive when adjusting multiple params)
       if (isMobile && target.tagName === 'RANGE-SLIDER') {
         return;
@@ -1807,7 +3107,10 @@ export class AppRoot extends BaseComponent {
     // Listen for changes on all input components
     this.shadowRoot?.addEventListener('input', (e) => {
       const target = e.target as HTMLElement;
-      // Only notify for parameter inputs, not search inputs etc.
+      // Only notify for parameter inputs, not search inputs or tool settings
+      if (target.closest('.sweep-controls, .optimizer-controls, .stress-controls')) {
+        return;
+      }
       if (target.tagName === 'RANGE-SLIDER' ||
           target.tagName === 'NUMBER-INPUT' ||
           target.tagName === 'SELECT-INPUT' ||
@@ -1819,13 +3122,88 @@ export class AppRoot extends BaseComponent {
     // Also listen for change events (for selects and checkboxes)
     this.shadowRoot?.addEventListener('change', (e) => {
       const target = e.target as HTMLElement;
+      if (target.closest('.sweep-controls, .optimizer-controls, .stress-controls')) {
+        return;
+      }
       if (target.tagName === 'SELECT-INPUT' ||
           target.tagName === 'CHECKBOX-INPUT') {
         notifyParamsChanged();
       }
     });
 
-    runBtn?.addEventListener('click', async () => {
+    // Backtests the displayed run over its assets' shared history. A failure
+    // (e.g. no shared years) is shown in place of the backtest, not as a failed run
+    const loadBacktest = async (edge: BacktestEdge) => {
+      const dashboard = this.$('#results') as ComparisonDashboard | null;
+      const config = this._simulationConfig;
+      const portfolio = this._simulationPortfolio;
+      if (!dashboard || !config || !portfolio) return;
+
+      try {
+        dashboard.backtestResult = await runBacktest(config, portfolio, { edge });
+      } catch (error) {
+        console.error('Backtest failed:', error);
+        dashboard.backtestError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    };
+
+    const runHistory = this.$('#run-history') as RunHistory | null;
+
+    // Shows a run's results in the dashboard, from a fresh run or one
+    // reopened from the run history
+    const showResults = (result: SimulationOutput, config: SimulationConfig, portfolio: PortfolioConfig) => {
+      // Store result for charts
+      this._simulationResult = result;
+
+      // Store config for print feature, and with the portfolio for replay
+      this._simulationConfig = config;
+      this._simulationPortfolio = portfolio;
+      this.showLastSeed(result.seed);
+
+      // Hide welcome screen once results are shown
+      welcome?.classList.add('hidden');
+
+      // Update results dashboard with simulation data
+      const dashboard = this.$('#results') as ComparisonDashboard & {
+        data: SimulationOutput | null;
+        portfolioWeights: { symbol: string; weight: number }[] | null;
+        correlationMatrix: { labels: string[]; matrix: number[][] } | null;
+        initialValue: number;
+        timeHorizon: number;
+        annualWithdrawal: number;
+        effectiveTaxRate: number;
+      };
+      if (dashboard) {
+        // Set configuration values for extended stats calculation
+        dashboard.initialValue = config.initialValue;
+        dashboard.timeHorizon = config.timeHorizon;
+        dashboard.annualWithdrawal = config.sbloc?.annualWithdrawal ?? 50000;
+        dashboard.effectiveTaxRate = 0.37; // Default federal tax rate
+
+        // Set simulation config for yearly analysis table (annualWithdrawalRaise, etc.)
+        (dashboard as any).simulationConfig = config;
+
+        // Set simulation data (triggers chart updates)
+        dashboard.data = this._simulationResult;
+
+        // Set portfolio composition for donut chart (weights in percent)
+        const portfolioWeights = portfolio.assets.map(asset => ({
+          symbol: asset.id,
+          weight: asset.weight * 100
+        }));
+        dashboard.portfolioWeights = portfolioWeights;
+
+        // Set correlation matrix for heatmap
+        dashboard.correlationMatrix = {
+          labels: portfolioWeights.map(w => w.symbol),
+          matrix: portfolio.correlationMatrix
+        };
+      }
+    };
+
+    // Runs the simulation from the sidebar inputs, or replays a previous
+    // run exactly when given its stored config (seed included) and portfolio
+    const executeRun = async (replay?: { config: SimulationConfig; portfolio: PortfolioConfig }) => {
       // Prevent double-runs
       if (this._isRunning) {
         return;
@@ -1850,7 +3228,7 @@ export class AppRoot extends BaseComponent {
         }
 
         // Collect parameters from UI (async to load custom historical data)
-        const { config, portfolio } = await this.collectSimulationParams();
+        const { config, portfolio } = replay ?? await this.collectSimulationParams();
 
         // Run the real Monte Carlo simulation
         const result = await runSimulation(config, portfolio, (percent) => {
@@ -1859,53 +3237,9 @@ export class AppRoot extends BaseComponent {
           }
         });
 
-        // Store result for charts
-        this._simulationResult = result;
+        showResults(result, config, portfolio);
 
-        // Store config for print feature
-        this._simulationConfig = config;
-
-        // Hide welcome screen after successful simulation
-        welcome?.classList.add('hidden');
-
-        // Update results dashboard with simulation data
-        const dashboard = this.$('#results') as ComparisonDashboard & {
-          data: SimulationOutput | null;
-          portfolioWeights: { symbol: string; weight: number }[] | null;
-          correlationMatrix: { labels: string[]; matrix: number[][] } | null;
-          initialValue: number;
-          timeHorizon: number;
-          annualWithdrawal: number;
-          effectiveTaxRate: number;
-        };
-        if (dashboard) {
-          // Set configuration values for extended stats calculation
-          dashboard.initialValue = config.initialValue;
-          dashboard.timeHorizon = config.timeHorizon;
-          dashboard.annualWithdrawal = config.sbloc?.annualWithdrawal ?? 50000;
-          dashboard.effectiveTaxRate = 0.37; // Default federal tax rate
-
-          // Set simulation config for yearly analysis table (annualWithdrawalRaise, etc.)
-          (dashboard as any).simulationConfig = config;
-
-          // Set simulation data (triggers chart updates)
-          dashboard.data = this._simulationResult;
-
-          // Set portfolio composition for donut chart
-          const portfolioCompTyped = this.$('#portfolio-composition') as (PortfolioComposition & { getWeights(): Record<string, number> }) | null;
-          const currentWeights = portfolioCompTyped?.getWeights() ?? {};
-          const portfolioWeights = Object.entries(currentWeights).map(([symbol, weight]) => ({
-            symbol,
-            weight: weight as number
-          }));
-          dashboard.portfolioWeights = portfolioWeights;
-
-          // Set correlation matrix for heatmap
-          dashboard.correlationMatrix = {
-            labels: portfolioWeights.map(w => w.symbol),
-            matrix: portfolio.correlationMatrix
-          };
-        }
+        await loadBacktest('wrap');
 
         // Hide progress
         if (progress) {
@@ -1915,7 +3249,7 @@ export class AppRoot extends BaseComponent {
         // Show success toast
         if (toastContainer && typeof toastContainer.show === 'function') {
           toastContainer.show(
-            `Simulation complete: ${config.iterations.toLocaleString()} iterations, median ${formatCurrency(result.statistics.median)}`,
+            `${replay ? 'Replay' : 'Simulation'} complete: ${result.terminalValues.length.toLocaleString()} iterations${result.convergence?.converged === false ? ' (tolerance not reached)' : ''}, median ${formatCurrency(result.statistics.median)}`,
             'success'
           );
         }
@@ -1928,6 +3262,14 @@ export class AppRoot extends BaseComponent {
             composed: true,
           })
         );
+
+        // Keep the run in the history; failing to save does not fail the run
+        try {
+          await saveSimulationRun(config, portfolio, result);
+          await runHistory?.refresh();
+        } catch (error) {
+          console.error('Failed to save run to history:', error);
+        }
       } catch (error) {
         console.error('Simulation failed:', error);
 
@@ -1947,6 +3289,417 @@ export class AppRoot extends BaseComponent {
         this._isRunning = false;
         runBtn.disabled = false;
       }
+    };
+
+    runBtn?.addEventListener('click', () => executeRun());
+
+    // Reopens a run from the history with its stored results, without re-simulating
+    this.shadowRoot?.addEventListener('open-simulation-run', async (e: Event) => {
+      if (this._isRunning) {
+        return;
+      }
+
+      try {
+        const { id } = (e as CustomEvent).detail;
+        const stored = await loadSimulationRun(id);
+        if (!stored) {
+          toastContainer?.show('This run is no longer in the history', 'warning');
+          await runHistory?.refresh();
+          return;
+        }
+
+        showResults(stored.output, stored.run.config, stored.run.portfolio);
+        await loadBacktest('wrap');
+        toastContainer?.show(`Opened ${stored.run.name}`, 'success');
+
+        this.dispatchEvent(
+          new CustomEvent('simulation-complete', {
+            detail: { result: stored.output, config: stored.run.config },
+            bubbles: true,
+            composed: true,
+          })
+        );
+      } catch (error) {
+        console.error('Failed to open run:', error);
+        toastContainer?.show(
+          `Could not open run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'error'
+        );
+      }
+    });
+
+    // Runs the current sidebar configuration over the sweep grid and shows
+    // the heatmap above the dashboard
+    const sweepBtn = this.$('#run-sweep') as HTMLButtonElement | null;
+    const sweepResults = this.$('#sweep-results') as (HTMLElement & { result: SweepResult | null }) | null;
+    const executeSweep = async () => {
+      if (this._isRunning) {
+        return;
+      }
+
+      try {
+        this._isRunning = true;
+        runBtn.disabled = true;
+        if (sweepBtn) sweepBtn.disabled = true;
+
+        if (progress) {
+          progress.classList.remove('hidden');
+          progress.setAttribute('value', '0');
+        }
+
+        const { config: sidebarConfig, portfolio } = await this.collectSimulationParams();
+        // Sweep cells compare at a fixed iteration count
+        const config = sidebarConfig.convergence
+          ? { ...sidebarConfig, iterations: AUTO_SWEEP_ITERATIONS, convergence: undefined }
+          : sidebarConfig;
+        const sweep = this.getSweepConfig();
+        const result = await runSweep(config, portfolio, sweep, (percent) => {
+          if (progress) {
+            progress.setAttribute('value', String(Math.round(percent)));
+          }
+        });
+
+        if (sweepResults) {
+          sweepResults.result = result;
+          sweepResults.classList.remove('hidden');
+          sweepResults.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+        welcome?.classList.add('hidden');
+
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          const cells = result.cells.length * result.x.values.length;
+          toastContainer.show(`Sweep complete: ${cells} runs of ${config.iterations.toLocaleString()} iterations`, 'success');
+        }
+      } catch (error) {
+        console.error('Sweep failed:', error);
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(
+            `Sweep failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            'error'
+          );
+        }
+      } finally {
+        if (progress) {
+          progress.classList.add('hidden');
+        }
+        this._isRunning = false;
+        runBtn.disabled = false;
+        if (sweepBtn) sweepBtn.disabled = false;
+      }
+    };
+
+    sweepBtn?.addEventListener('click', () => executeSweep());
+    sweepResults?.addEventListener('sweep-close', () => {
+      sweepResults.classList.add('hidden');
+      sweepResults.result = null;
+    });
+
+    // Computes the efficient frontier of the sidebar portfolio and shows it
+    // above the dashboard; applying a point writes its weights back
+    const optimizerBtn = this.$('#run-optimizer') as HTMLButtonElement | null;
+    const optimizerResults = this.$('#portfolio-optimizer') as (HTMLElement & { result: OptimizerResult | null }) | null;
+    const executeOptimizer = async () => {
+      if (this._isRunning) {
+        return;
+      }
+
+      try {
+        this._isRunning = true;
+        runBtn.disabled = true;
+        if (optimizerBtn) optimizerBtn.disabled = true;
+
+        if (progress) {
+          progress.classList.remove('hidden');
+          progress.setAttribute('value', '0');
+        }
+
+        const { config, portfolio } = await this.collectSimulationParams();
+        const result = await runOptimizer(config, portfolio, {
+          marginCallCap: this.getNumberInputValue('optimizer-cap', 10),
+          iterations: this.getNumberInputValue('optimizer-iterations', 500),
+        }, (percent) => {
+          if (progress) {
+            progress.setAttribute('value', String(Math.round(percent)));
+          }
+        });
+
+        if (optimizerResults) {
+          optimizerResults.result = result;
+          optimizerResults.classList.remove('hidden');
+          optimizerResults.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+        welcome?.classList.add('hidden');
+
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(`Optimization complete: ${result.frontier.length + 1} portfolios evaluated`, 'success');
+        }
+      } catch (error) {
+        console.error('Optimization failed:', error);
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(
+            `Optimization failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            'error'
+          );
+        }
+      } finally {
+        if (progress) {
+          progress.classList.add('hidden');
+        }
+        this._isRunning = false;
+        runBtn.disabled = false;
+        if (optimizerBtn) optimizerBtn.disabled = false;
+      }
+    };
+
+    optimizerBtn?.addEventListener('click', () => executeOptimizer());
+
+    // Replays historical crises on the sidebar plan and shows BBD vs Sell
+    // for each above the dashboard
+    const stressBtn = this.$('#run-stress') as HTMLButtonElement | null;
+    const stressResults = this.$('#stress-results') as (HTMLElement & { result: StressTestResult | null }) | null;
+    const executeStressTest = async () => {
+      if (this._isRunning) {
+        return;
+      }
+
+      try {
+        this._isRunning = true;
+        runBtn.disabled = true;
+        if (stressBtn) stressBtn.disabled = true;
+
+        if (progress) {
+          progress.classList.remove('hidden');
+          progress.setAttribute('value', '0');
+        }
+
+        const { config: sidebarConfig, portfolio } = await this.collectSimulationParams();
+        // Scenarios compare at a fixed iteration count
+        const config = sidebarConfig.convergence
+          ? { ...sidebarConfig, iterations: AUTO_SWEEP_ITERATIONS, convergence: undefined }
+          : sidebarConfig;
+        const mode = this.getSelectInputValue('stress-mode', 'crisis-start') as StressMode;
+        const result = await runStressTest(config, portfolio, { mode }, (percent) => {
+          if (progress) {
+            progress.setAttribute('value', String(Math.round(percent)));
+          }
+        });
+
+        if (stressResults) {
+          stressResults.result = result;
+          stressResults.classList.remove('hidden');
+          stressResults.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+        welcome?.classList.add('hidden');
+
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(
+            result.scenarios.length > 0
+              ? `Stress test complete: ${result.scenarios.length} crises replayed`
+              : 'No crisis is covered by the shared history of the selected assets',
+            result.scenarios.length > 0 ? 'success' : 'warning'
+          );
+        }
+      } catch (error) {
+        console.error('Stress test failed:', error);
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(
+            `Stress test failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            'error'
+          );
+        }
+      } finally {
+        if (progress) {
+          progress.classList.add('hidden');
+        }
+        this._isRunning = false;
+        runBtn.disabled = false;
+        if (stressBtn) stressBtn.disabled = false;
+      }
+    };
+
+    stressBtn?.addEventListener('click', () => executeStressTest());
+    stressResults?.addEventListener('stress-close', () => {
+      stressResults.classList.add('hidden');
+      stressResults.result = null;
+    });
+    optimizerResults?.addEventListener('optimizer-close', () => {
+      optimizerResults.classList.add('hidden');
+      optimizerResults.result = null;
+    });
+    optimizerResults?.addEventListener('apply-weights', (e) => {
+      const { weights } = (e as CustomEvent<{ weights: Record<string, number> }>).detail;
+      portfolioComposition?.applyWeights(weights);
+      if (toastContainer && typeof toastContainer.show === 'function') {
+        toastContainer.show('Optimized weights applied. Run the simulation to see full results.', 'info');
+      }
+    });
+
+    // Solves for a target against the displayed run: same config, portfolio
+    // and seed, so the solution describes the paths shown on the dashboard
+    const executeGoalSeek = async (goal: GoalSeekConfig) => {
+      const dashboard = this.$('#results') as ComparisonDashboard | null;
+      const config = this._simulationConfig;
+      const portfolio = this._simulationPortfolio;
+      if (this._isRunning || !config || !portfolio) {
+        // Re-setting the current solution ends the section's pending state
+        if (dashboard) dashboard.goalSeekResult = dashboard.goalSeekResult;
+        return;
+      }
+
+      try {
+        this._isRunning = true;
+        runBtn.disabled = true;
+
+        if (progress) {
+          progress.classList.remove('hidden');
+          progress.setAttribute('value', '0');
+        }
+
+        const seed = this._simulationResult?.seed ?? config.seed;
+        // Evaluate at the iteration count the displayed run completed (after an
+        // auto run, where it converged rather than the cap)
+        const iterations = this._simulationResult?.terminalValues.length ?? config.iterations;
+        const result = await runGoalSeek({ ...config, seed }, portfolio, { ...goal, iterations }, (percent) => {
+          if (progress) {
+            progress.setAttribute('value', String(Math.round(percent)));
+          }
+        });
+
+        if (dashboard) dashboard.goalSeekResult = result;
+
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(`Goal seek complete: ${result.evaluations} runs`, 'success');
+        }
+      } catch (error) {
+        console.error('Goal seek failed:', error);
+        if (dashboard) dashboard.goalSeekResult = null;
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(
+            `Goal seek failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            'error'
+          );
+        }
+      } finally {
+        if (progress) {
+          progress.classList.add('hidden');
+        }
+        this._isRunning = false;
+        runBtn.disabled = false;
+      }
+    };
+
+    this.addEventListener('goal-seek-request', (e: Event) => {
+      executeGoalSeek((e as CustomEvent<GoalSeekConfig>).detail);
+    });
+
+    // Replays one iteration of the displayed run from its stored config and seed
+    const executePathTrace = async (iteration: number) => {
+      const dashboard = this.$('#results') as ComparisonDashboard | null;
+      const config = this._simulationConfig;
+      const portfolio = this._simulationPortfolio;
+      const result = this._simulationResult;
+      if (this._isRunning || !config || !portfolio || !result) {
+        // Clearing the trace ends the explorer's pending state
+        if (dashboard) dashboard.pathTrace = null;
+        return;
+      }
+
+      try {
+        this._isRunning = true;
+        runBtn.disabled = true;
+
+        const seed = result.seed ?? config.seed;
+        // After an auto run, trace within the iterations it converged at
+        const iterations = result.terminalValues.length;
+        const trace = await runPathTrace({ ...config, seed, iterations }, portfolio, iteration);
+
+        if (dashboard) dashboard.pathTrace = trace;
+      } catch (error) {
+        console.error('Path trace failed:', error);
+        if (dashboard) dashboard.pathTrace = null;
+        if (toastContainer && typeof toastContainer.show === 'function') {
+          toastContainer.show(
+            `Path trace failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            'error'
+          );
+        }
+      } finally {
+        this._isRunning = false;
+        runBtn.disabled = false;
+      }
+    };
+
+    this.addEventListener('path-trace-request', (e: Event) => {
+      executePathTrace((e as CustomEvent<{ iteration: number }>).detail.iteration);
+    });
+
+    // Reruns the displayed run's backtest with other edge handling
+    const executeBacktest = async (edge: BacktestEdge) => {
+      const dashboard = this.$('#results') as ComparisonDashboard | null;
+      if (this._isRunning) {
+        // Re-setting the result ends the panel's pending state
+        if (dashboard) dashboard.backtestResult = dashboard.backtestResult;
+        return;
+      }
+
+      try {
+        this._isRunning = true;
+        runBtn.disabled = true;
+        await loadBacktest(edge);
+      } finally {
+        this._isRunning = false;
+        runBtn.disabled = false;
+      }
+    };
+
+    this.addEventListener('backtest-request', (e: Event) => {
+      executeBacktest((e as CustomEvent<{ edge: BacktestEdge }>).detail.edge);
+    });
+
+    // Replay re-runs the stored config and portfolio rather than the current
+    // sidebar, so edits made since the run don't leak into the replay
+    const replayBtn = this.$('#btn-replay');
+    replayBtn?.addEventListener('click', () => {
+      if (!this._simulationConfig || !this._simulationPortfolio) {
+        toastContainer?.show('No simulation to replay yet', 'warning');
+        return;
+      }
+      executeRun({ config: this._simulationConfig, portfolio: this._simulationPortfolio });
+    });
+
+    // Copy a link encoding the current portfolio and parameters. Without a
+    // fixed seed the link carries the last run's seed, so it reproduces the
+    // results on screen
+    this.$('#btn-share')?.addEventListener('click', async () => {
+      const portfolioComp = this.$('#portfolio-composition') as PortfolioComposition | null;
+      const assets = portfolioComp?.getAssetRecords() ?? [];
+      if (assets.length === 0) {
+        toastContainer?.show('Add assets to the portfolio before sharing', 'warning');
+        return;
+      }
+      const params = this.getSimulationParams();
+      const seed = params.seed ?? this._simulationResult?.seed;
+      try {
+        const link = await buildShareLink(
+          { ...params, seed, name: portfolioComp?.portfolioName ?? '', assets },
+          window.location.href
+        );
+        await navigator.clipboard.writeText(link);
+        toastContainer?.show('Scenario link copied to clipboard', 'success');
+      } catch (error) {
+        console.error('Failed to copy scenario link:', error);
+        toastContainer?.show('Could not copy scenario link', 'error');
+      }
+    });
+
+    // Copy the last drawn seed into the seed field so later runs reuse it
+    this.$('#seed-keep')?.addEventListener('click', () => {
+      const seed = this._simulationResult?.seed;
+      const seedEl = this.$('#sim-seed') as NumberInput;
+      if (!seed || !seedEl) return;
+      seedEl.value = Number(seed);
+      this.showLastSeed(seed);
+      notifyParamsChanged();
     });
 
     // Handle request for current portfolio state (from portfolio-composition)
@@ -1,14 +1,18 @@
 import { BaseComponent } from '../base-component';
+import { fetchLiveData, normalizeTicker } from '../../data/services/live-data-service';
 
 /**
  * Asset search/filter/select component.
  * Provides a searchable list of assets with multi-selection support.
+ * Typing a ticker that is not in the list offers to fetch its history
+ * from the configured market data provider.
  *
  * @element asset-selector
  * @attr {string} assets - JSON array of asset tickers (e.g., '["SPY","QQQ","VTI"]')
  * @attr {string} selected - JSON array of selected assets
  * @attr {number} max-selection - Maximum number of selectable assets (default: 5)
  * @fires selection-change - Dispatched when selection changes
+ * @fires asset-fetched - Dispatched with { symbol, data, warnings } after a ticker is fetched and added
  *
  * @example
  * <asset-selector
@@ -24,6 +28,7 @@ export class AssetSelector extends BaseComponent {
 
   private filteredAssets: string[] = [];
   private selectedAssets: Set<string> = new Set();
+  private fetchingSymbol: string | null = null;
 
   protected template(): string {
     const maxSelection = this.getMaxSelection();
@@ -38,6 +43,7 @@ export class AssetSelector extends BaseComponent {
         <ul class="asset-list" role="listbox" aria-label="Available assets">
           <!-- Populated dynamically -->
         </ul>
+        <div class="fetch-error" role="alert" hidden></div>
         <div class="selected-count">
           <span class="count">${selectedCount}</span>/<span class="max">${maxSelection}</span> selected
         </div>
@@ -146,6 +152,19 @@ export class AssetSelector extends BaseComponent {
         font-size: 12px;
       }
 
+      .asset-item.fetch-item .asset-name {
+        font-style: italic;
+      }
+
+      .fetch-error {
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--color-danger, #dc2626);
+      }
+
+      .fetch-error[hidden] {
+        display: none;
+      }
+
       .selected-count {
         font-size: var(--font-size-sm, 0.875rem);
         color: var(--text-secondary, #64748b);
@@ -168,6 +187,7 @@ export class AssetSelector extends BaseComponent {
   protected override afterRender(): void {
     const searchInput = this.$('.search-input') as HTMLInputElement;
     searchInput?.addEventListener('input', () => {
+      this.showFetchError(null);
       this.filterAssets(searchInput.value);
     });
 
@@ -197,6 +217,10 @@ export class AssetSelector extends BaseComponent {
     }
   }
 
+  private getQuery(): string {
+    return (this.$('.search-input') as HTMLInputElement | null)?.value ?? '';
+  }
+
   private filterAssets(query: string): void {
     const allAssets = this.getAllAssets();
     const lowerQuery = query.toLowerCase().trim();
@@ -236,7 +260,7 @@ export class AssetSelector extends BaseComponent {
           </li>
         `;
       })
-      .join('');
+      .join('') + this.renderFetchItem(atMaxSelection);
 
     // Add click and keyboard handlers
     this.$$('.asset-item').forEach((item) => {
@@ -248,15 +272,87 @@ export class AssetSelector extends BaseComponent {
     this.updateCountDisplay();
   }
 
+  /**
+   * Offer to fetch the typed ticker when it is not one of the listed assets
+   */
+  private renderFetchItem(atMaxSelection: boolean): string {
+    const symbol = normalizeTicker(this.getQuery());
+    if (!symbol || this.getAllAssets().includes(symbol)) return '';
+
+    const isFetching = this.fetchingSymbol === symbol;
+    const isDisabled = atMaxSelection || this.fetchingSymbol !== null;
+    return `
+      <li class="asset-item fetch-item"
+          role="option"
+          tabindex="0"
+          data-fetch-symbol="${symbol}"
+          aria-selected="false"
+          ${isDisabled ? 'aria-disabled="true"' : ''}>
+        <span class="checkmark">&#8595;</span>
+        <span class="asset-name">${isFetching ? `Fetching ${symbol}...` : `Fetch ${symbol} from data provider`}</span>
+      </li>
+    `;
+  }
+
   private handleItemClick(item: Element): void {
     if (item.getAttribute('aria-disabled') === 'true') return;
 
+    const fetchSymbol = (item as HTMLElement).dataset.fetchSymbol;
+    if (fetchSymbol) {
+      this.fetchAsset(fetchSymbol);
+      return;
+    }
+
     const asset = (item as HTMLElement).dataset.asset;
     if (asset) {
       this.toggleAsset(asset);
     }
   }
 
+  /**
+   * Fetch a ticker's history, add it to the asset list and select it.
+   * On failure the error is shown and nothing is added.
+   */
+  private async fetchAsset(symbol: string): Promise<void> {
+    this.fetchingSymbol = symbol;
+    this.showFetchError(null);
+    this.renderAssetList();
+
+    try {
+      const { data, warnings } = await fetchLiveData(symbol);
+      this.fetchingSymbol = null;
+
+      const assets = this.getAllAssets();
+      if (!assets.includes(symbol)) {
+        this.setAttribute('assets', JSON.stringify([...assets, symbol]));
+      }
+
+      this.dispatchEvent(
+        new CustomEvent('asset-fetched', {
+          bubbles: true,
+          composed: true,
+          detail: { symbol, data, warnings },
+        })
+      );
+
+      this.filterAssets(this.getQuery());
+      if (!this.selectedAssets.has(symbol)) {
+        this.toggleAsset(symbol);
+      }
+    } catch (error) {
+      this.fetchingSymbol = null;
+      this.showFetchError(error instanceof Error ? error.message : `Could not fetch ${symbol}`);
+      this.renderAssetList();
+    }
+  }
+
+  private showFetchError(message: string | null): void {
+    const errorEl = this.$('.fetch-error') as HTMLElement | null;
+    if (!errorEl) return;
+    errorEl.textContent = message ?? '';
+    errorEl.hidden = message === null;
+  }
+
   private handleItemKeydown(e: Event, item: Element): void {
     const keyEvent = e as KeyboardEvent;
     if (keyEvent.key === 'Enter' || keyEvent.key === ' ') {
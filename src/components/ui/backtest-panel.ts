@@ -0,0 +1,312 @@
+/**
+ * Historical Backtest Panel Component
+ *
+ * Shows how the plan would have fared from every start year in the
+ * portfolio's shared history: terminal net worth per start year, the
+ * distribution of outcomes for BBD and Sell, and the worst start years.
+ * A non-synthetic check next to the probability cone.
+ */
+
+import { BaseComponent } from '../base-component';
+import type { BacktestEdge, BacktestResult, BacktestSummary } from '../../simulation/types';
+import type { BacktestChartData } from '../../charts/backtest-chart';
+
+// Import chart to register it
+import '../../charts/backtest-chart';
+
+/**
+ * Edge handling choices, in button order
+ */
+const EDGE_CHOICES: { edge: BacktestEdge; label: string; title: string }[] = [
+  { edge: 'wrap', label: 'Wrap', title: 'Continue from the oldest year so every window spans the horizon' },
+  { edge: 'truncate', label: 'Truncate', title: 'Stop at the newest year, so late windows are shorter' },
+];
+
+/**
+ * Backtest Panel - BBD and Sell over every historical start year
+ *
+ * Usage:
+ * ```html
+ * <backtest-panel></backtest-panel>
+ * ```
+ *
+ * Properties:
+ * - result: BacktestResult | null
+ * - error: string | null (why no backtest could run)
+ *
+ * @fires backtest-request - detail: { edge } when the user switches edge handling
+ */
+export class BacktestPanel extends BaseComponent {
+  private _result: BacktestResult | null = null;
+  private _error: string | null = null;
+  private _pendingEdge: BacktestEdge | null = null;
+
+  /**
+   * Set backtest result
+   */
+  set result(value: BacktestResult | null) {
+    this._result = value;
+    this._error = null;
+    this._pendingEdge = null;
+    this.render();
+  }
+
+  /**
+   * Get backtest result
+   */
+  get result(): BacktestResult | null {
+    return this._result;
+  }
+
+  /**
+   * Set the reason no backtest could run
+   */
+  set error(value: string | null) {
+    this._error = value;
+    this._pendingEdge = null;
+    if (value) this._result = null;
+    this.render();
+  }
+
+  /**
+   * Get the reason no backtest could run
+   */
+  get error(): string | null {
+    return this._error;
+  }
+
+  protected template(): string {
+    if (this._error) {
+      return `<p class="backtest-note">Backtest unavailable: ${this.escapeHtml(this._error)}.</p>`;
+    }
+    const result = this._result;
+    if (!result) return '';
+
+    const windows = result.windows;
+    const first = windows[0]?.startYear;
+    const last = windows[windows.length - 1]?.startYear;
+    const activeEdge = this._pendingEdge ?? result.edge;
+
+    return `
+      <div class="backtest-controls">
+        <span class="backtest-note">
+          ${windows.length} start years (${first}-${last}) with the actual returns that followed.
+          Red bars hit a margin call.
+        </span>
+        <div class="edge-buttons" role="group" aria-label="Windows past the newest year">
+          ${EDGE_CHOICES.map(({ edge, label, title }) => `
+            <button type="button" class="edge-btn ${edge === activeEdge ? 'active' : ''}"
+              data-edge="${edge}" title="${title}" ${this._pendingEdge ? 'disabled' : ''}>${label}</button>
+          `).join('')}
+        </div>
+      </div>
+
+      <div class="chart-container">
+        <backtest-chart id="backtest-chart"></backtest-chart>
+      </div>
+
+      <table class="backtest-table">
+        <thead>
+          <tr>
+            <th scope="col">Strategy</th>
+            <th scope="col">Worst</th>
+            <th scope="col">P10</th>
+            <th scope="col">Median</th>
+            <th scope="col">P90</th>
+            <th scope="col">Best</th>
+            <th scope="col">Success</th>
+            <th scope="col">Failed</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${this.summaryRow('Buy-Borrow-Die', result.bbd, 'Margin call')}
+          ${result.sell ? this.summaryRow('Sell Assets', result.sell, 'Depleted') : ''}
+        </tbody>
+      </table>
+
+      <p class="backtest-note">
+        Worst start years for BBD: ${result.worstStartYears.join(', ')}.
+      </p>
+    `;
+  }
+
+  /**
+   * Table row of one strategy's distribution
+   */
+  private summaryRow(name: string, summary: BacktestSummary, failureLabel: string): string {
+    return `
+      <tr>
+        <th scope="row">${name}</th>
+        <td>${this.formatCurrency(summary.worst)}</td>
+        <td>${this.formatCurrency(summary.p10)}</td>
+        <td>${this.formatCurrency(summary.median)}</td>
+        <td>${this.formatCurrency(summary.p90)}</td>
+        <td>${this.formatCurrency(summary.best)}</td>
+        <td>${summary.successRate.toFixed(1)}%</td>
+        <td title="${failureLabel}">${summary.failureRate.toFixed(1)}%</td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Build chart data from a backtest result
+   */
+  private buildChartData(result: BacktestResult): BacktestChartData {
+    const hasSell = !!result.sell;
+    return {
+      labels: result.windows.map(w => String(w.startYear)),
+      bbd: result.windows.map(w => w.bbdNetWorth),
+      marginCalls: result.windows.map(w => w.marginCallYear !== null),
+      ...(hasSell && { sell: result.windows.map(w => w.sellNetWorth ?? 0) }),
+      initialValue: result.initialValue,
+    };
+  }
+
+  /**
+   * Ask for the backtest to rerun with other edge handling
+   */
+  private requestBacktest(edge: BacktestEdge): void {
+    if (!this._result || this._pendingEdge || edge === this._result.edge) return;
+
+    this._pendingEdge = edge;
+    this.render();
+    this.dispatchEvent(new CustomEvent('backtest-request', {
+      bubbles: true,
+      composed: true,
+      detail: { edge },
+    }));
+  }
+
+  /**
+   * Format a dollar amount in compact notation
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      *, *::before, *::after {
+        box-sizing: border-box;
+      }
+
+      .backtest-controls {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        justify-content: space-between;
+        gap: var(--spacing-sm, 8px);
+        margin-bottom: var(--spacing-sm, 8px);
+      }
+
+      .backtest-note {
+        margin: var(--spacing-sm, 8px) 0 0 0;
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .backtest-controls .backtest-note {
+        margin: 0;
+      }
+
+      .edge-buttons {
+        display: flex;
+        gap: var(--spacing-xs, 4px);
+      }
+
+      .edge-btn {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        background: var(--surface-secondary, #f8fafc);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-md, 6px);
+        color: var(--text-primary, #1e293b);
+        font-size: var(--font-size-sm, 0.875rem);
+        cursor: pointer;
+      }
+
+      .edge-btn:hover:not(:disabled) {
+        border-color: var(--color-primary, #0d9488);
+      }
+
+      .edge-btn:disabled {
+        cursor: wait;
+      }
+
+      .edge-btn.active {
+        background: var(--color-primary, #0d9488);
+        border-color: var(--color-primary, #0d9488);
+        color: white;
+      }
+
+      .chart-container {
+        position: relative;
+        height: 300px;
+      }
+
+      .chart-container backtest-chart {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+      }
+
+      .backtest-table {
+        width: 100%;
+        margin-top: var(--spacing-md, 16px);
+        border-collapse: collapse;
+        font-size: var(--font-size-sm, 0.875rem);
+        font-variant-numeric: tabular-nums;
+      }
+
+      .backtest-table th,
+      .backtest-table td {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+        text-align: right;
+      }
+
+      .backtest-table thead th {
+        color: var(--text-primary, #1e293b);
+        font-weight: 600;
+      }
+
+      .backtest-table th[scope="row"] {
+        text-align: left;
+        color: var(--text-primary, #1e293b);
+        font-weight: 500;
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    const chart = this.$('#backtest-chart') as (HTMLElement & { data: BacktestChartData | null }) | null;
+    if (chart && this._result) chart.data = this.buildChartData(this._result);
+
+    this.$$('.edge-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.requestBacktest((btn as HTMLElement).dataset.edge as BacktestEdge);
+      });
+    });
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Register the custom element
+customElements.define('backtest-panel', BacktestPanel);
@@ -2,17 +2,21 @@
  * Comparison Dashboard Component
  *
  * Container for side-by-side comparison of two simulation results on desktop.
- * Falls back to single dashboard when not in comparison mode.
+ * Falls back to single dashboard when not in comparison mode. In single mode a
+ * scenario bar pins runs to the scenario set, and any number of pinned
+ * scenarios can be compared against a baseline.
  */
 
 import { BaseComponent } from '../base-component';
 import { comparisonState } from '../../services/comparison-state';
 import { computeComparisonMetrics } from '../../utils/delta-calculations';
-import type { SimulationOutput, SimulationConfig } from '../../simulation/types';
+import type { SimulationOutput, SimulationConfig, GoalSeekResult, PathTrace, BacktestResult } from '../../simulation/types';
+import type { ScenarioRecord } from '../../data/schemas/scenario';
 
-// Import results-dashboard and trade-off-summary to register them
+// Import results-dashboard, trade-off-summary and scenario-comparison to register them
 import './results-dashboard';
 import './trade-off-summary';
+import './scenario-comparison';
 // Note: fab-navigation is imported by results-dashboard, which this component wraps
 
 /**
@@ -59,6 +63,12 @@ export class ComparisonDashboard extends BaseComponent {
   /** Name/label for current preset */
   private _currentPresetName: string = '';
 
+  /** Whether the N-way scenario comparison is shown */
+  private _isScenarioMode: boolean = false;
+
+  /** Pinned scenarios (mirrors comparisonState) */
+  private _scenarios: ScenarioRecord[] = [];
+
   /** Current active tab for mobile view */
   private _activeTab: 'previous' | 'current' | 'delta' = 'previous';
 
@@ -74,16 +84,35 @@ export class ComparisonDashboard extends BaseComponent {
   /** Simulation configuration for param summary */
   private _simulationConfig: SimulationConfig | null = null;
 
+  /** Goal seek solution for the current run */
+  private _goalSeekResult: GoalSeekResult | null = null;
+
+  /** Historical backtest of the current run */
+  private _backtestResult: BacktestResult | null = null;
+  /** Why no backtest could run for the current run */
+  private _backtestError: string | null = null;
+
   connectedCallback(): void {
     super.connectedCallback();
 
     // Listen for comparison state changes from global state manager
     window.addEventListener('comparison-state-change', this.handleStateChange);
+
+    // Scenario actions bubble up from scenario-comparison
+    this.addEventListener('scenario-baseline-select', this.handleBaselineSelect);
+    this.addEventListener('scenario-unpin', this.handleUnpin);
+    this.addEventListener('exit-scenario-comparison', this.handleExitScenarios);
+
+    // Restore pinned scenarios from IndexedDB
+    comparisonState.loadScenarios();
   }
 
   disconnectedCallback(): void {
     super.disconnectedCallback();
     window.removeEventListener('comparison-state-change', this.handleStateChange);
+    this.removeEventListener('scenario-baseline-select', this.handleBaselineSelect);
+    this.removeEventListener('scenario-unpin', this.handleUnpin);
+    this.removeEventListener('exit-scenario-comparison', this.handleExitScenarios);
   }
 
   /**
@@ -93,6 +122,8 @@ export class ComparisonDashboard extends BaseComponent {
     const customEvent = event as CustomEvent;
     const state = customEvent.detail;
 
+    this.updateScenarios(state.scenarios ?? []);
+
     if (state.isComparisonMode && state.previousResult && state.currentResult) {
       this.enterComparisonMode(
         state.previousResult,
@@ -111,6 +142,104 @@ export class ComparisonDashboard extends BaseComponent {
     }
   };
 
+  /**
+   * Sync pinned scenarios, leaving the scenario view when fewer than two remain
+   */
+  private updateScenarios(scenarios: ScenarioRecord[]): void {
+    this._scenarios = scenarios;
+
+    if (this._isScenarioMode) {
+      if (scenarios.length < 2) {
+        this._isScenarioMode = false;
+        this.render();
+      } else {
+        const view = this.$('#scenario-comparison') as (HTMLElement & { scenarios: ScenarioRecord[] }) | null;
+        if (view) view.scenarios = scenarios;
+      }
+    } else {
+      this.updateScenarioBar();
+    }
+  }
+
+  /**
+   * Show the N-way comparison of pinned scenarios
+   */
+  enterScenarioMode(): void {
+    if (this._scenarios.length < 2) return;
+    this._isScenarioMode = true;
+    this.render();
+  }
+
+  /**
+   * Return from the scenario comparison to the single dashboard
+   */
+  exitScenarioMode(): void {
+    this._isScenarioMode = false;
+    this.render();
+  }
+
+  private handleBaselineSelect = (event: Event): void => {
+    const { id } = (event as CustomEvent<{ id: number }>).detail;
+    comparisonState.setBaselineScenario(id).catch((error) => {
+      console.error('Failed to set baseline scenario:', error);
+    });
+  };
+
+  private handleUnpin = (event: Event): void => {
+    const { id } = (event as CustomEvent<{ id: number }>).detail;
+    comparisonState.unpinScenario(id).catch((error) => {
+      console.error('Failed to unpin scenario:', error);
+    });
+  };
+
+  private handleExitScenarios = (): void => {
+    this.exitScenarioMode();
+  };
+
+  /**
+   * Pin the displayed run to the scenario set
+   */
+  private async pinCurrentRun(): Promise<void> {
+    if (!this._currentData || !this._simulationConfig) return;
+
+    const input = this.$('#scenario-name') as HTMLInputElement | null;
+    const name = input?.value.trim() || `Scenario ${this._scenarios.length + 1}`;
+
+    try {
+      await comparisonState.pinScenario(name, this._currentData, this._simulationConfig);
+      if (input) input.value = '';
+      this.showToast(`Pinned scenario: ${name}`, 'success');
+    } catch (error) {
+      console.error('Failed to pin scenario:', error);
+      this.showToast('Failed to pin scenario', 'error');
+    }
+  }
+
+  /**
+   * Refresh scenario bar buttons without re-rendering the dashboard
+   */
+  private updateScenarioBar(): void {
+    const pinBtn = this.$('#pin-btn') as HTMLButtonElement | null;
+    const compareBtn = this.$('#compare-scenarios-btn') as HTMLButtonElement | null;
+    const count = this._scenarios.length;
+
+    if (pinBtn) {
+      pinBtn.disabled = !this._currentData || !this._simulationConfig;
+    }
+    if (compareBtn) {
+      compareBtn.disabled = count < 2;
+      compareBtn.textContent = `Compare Scenarios (${count})`;
+    }
+  }
+
+  private showToast(message: string, type: 'success' | 'error' | 'info' = 'info'): void {
+    this.dispatchEvent(new CustomEvent('show-toast', {
+      bubbles: true,
+      composed: true,
+      detail: { message, type },
+    }));
+  }
+
   /**
    * Enter comparison mode with two sets of results
    */
@@ -158,7 +287,13 @@ export class ComparisonDashboard extends BaseComponent {
    */
   set data(value: SimulationOutput | null) {
     if (!this._isComparisonMode) {
+      // A new run replaces the scenario view so its results are visible
+      this._isScenarioMode = false;
       this._currentData = value;
+      // Solutions and backtests belong to the run they were made for
+      this._goalSeekResult = null;
+      this._backtestResult = null;
+      this._backtestError = null;
       this.render();
     }
   }
@@ -221,6 +356,7 @@ export class ComparisonDashboard extends BaseComponent {
   set simulationConfig(value: SimulationConfig | null) {
     this._simulationConfig = value;
     this.updateChildDashboardConfigData();
+    this.updateScenarioBar();
   }
 
   /**
@@ -248,6 +384,57 @@ export class ComparisonDashboard extends BaseComponent {
     if (singleDashboard) singleDashboard.annualWithdrawal = value;
   }
 
+  /**
+   * Set goal seek solution for the current run (forwarded to child dashboards).
+   */
+  set goalSeekResult(value: GoalSeekResult | null) {
+    this._goalSeekResult = value;
+    const singleDashboard = this.$('#single-dashboard') as any;
+    if (singleDashboard) singleDashboard.goalSeekResult = value;
+  }
+
+  /**
+   * Set historical backtest for the current run (forwarded to the single dashboard).
+   */
+  set backtestResult(value: BacktestResult | null) {
+    this._backtestResult = value;
+    this._backtestError = null;
+    const singleDashboard = this.$('#single-dashboard') as any;
+    if (singleDashboard) singleDashboard.backtestResult = value;
+  }
+
+  /**
+   * Get historical backtest.
+   */
+  get backtestResult(): BacktestResult | null {
+    return this._backtestResult;
+  }
+
+  /**
+   * Set the reason no backtest could run (forwarded to the single dashboard).
+   */
+  set backtestError(value: string | null) {
+    this._backtestError = value;
+    if (value) this._backtestResult = null;
+    const singleDashboard = this.$('#single-dashboard') as any;
+    if (singleDashboard) singleDashboard.backtestError = value;
+  }
+
+  /**
+   * Set the traced iteration for the path explorer (forwarded to the single dashboard).
+   */
+  set pathTrace(value: PathTrace | null) {
+    const singleDashboard = this.$('#single-dashboard') as any;
+    if (singleDashboard) singleDashboard.pathTrace = value;
+  }
+
+  /**
+   * Get goal seek solution.
+   */
+  get goalSeekResult(): GoalSeekResult | null {
+    return this._goalSeekResult;
+  }
+
   /**
    * Set effective tax rate (forwarded to child dashboards).
    */
@@ -306,6 +493,9 @@ export class ComparisonDashboard extends BaseComponent {
   }
 
   protected template(): string {
+    if (this._isScenarioMode && this._scenarios.length >= 2) {
+      return `<scenario-comparison id="scenario-comparison"></scenario-comparison>`;
+    }
     if (this._isComparisonMode && this._previousData && this._currentData) {
       return this.comparisonTemplate();
     } else {
@@ -447,7 +637,16 @@ export class ComparisonDashboard extends BaseComponent {
    * Template for single mode (not comparing)
    */
   private singleTemplate(): string {
+    const count = this._scenarios.length;
     return `
+      <div class="scenario-bar" ${this._currentData ? '' : 'hidden'}>
+        <input type="text" id="scenario-name" class="scenario-name-input"
+          placeholder="Scenario ${count + 1}" aria-label="Scenario name" maxlength="60">
+        <button class="scenario-btn" id="pin-btn">Pin Run</button>
+        <button class="scenario-btn primary" id="compare-scenarios-btn" ${count < 2 ? 'disabled' : ''}>
+          Compare Scenarios (${count})
+        </button>
+      </div>
       <results-dashboard id="single-dashboard"></results-dashboard>
     `;
   }
@@ -659,11 +858,61 @@ export class ComparisonDashboard extends BaseComponent {
       #single-dashboard {
         display: block;
       }
+
+      /* Scenario bar */
+      .scenario-bar {
+        display: flex;
+        flex-wrap: wrap;
+        justify-content: flex-end;
+        gap: var(--spacing-sm, 8px);
+        margin-bottom: var(--spacing-md, 16px);
+      }
+
+      .scenario-bar[hidden] {
+        display: none;
+      }
+
+      .scenario-name-input {
+        min-width: 0;
+        flex: 0 1 220px;
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-md, 6px);
+        background: var(--surface-primary, #ffffff);
+        color: var(--text-primary, #1e293b);
+        font-size: var(--font-size-sm, 0.875rem);
+      }
+
+      .scenario-btn {
+        padding: var(--spacing-xs, 4px) var(--spacing-md, 16px);
+        background: transparent;
+        border: 2px solid var(--color-primary, #0d9488);
+        border-radius: var(--radius-md, 6px);
+        color: var(--color-primary, #0d9488);
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 600;
+        cursor: pointer;
+        transition: all 0.2s ease;
+      }
+
+      .scenario-btn.primary,
+      .scenario-btn:hover:not(:disabled) {
+        background: var(--color-primary, #0d9488);
+        color: white;
+      }
+
+      .scenario-btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
     `;
   }
 
   protected override afterRender(): void {
-    if (this._isComparisonMode && this._previousData && this._currentData) {
+    if (this._isScenarioMode && this._scenarios.length >= 2) {
+      const view = this.$('#scenario-comparison') as (HTMLElement & { scenarios: ScenarioRecord[] }) | null;
+      if (view) view.scenarios = this._scenarios;
+    } else if (this._isComparisonMode && this._previousData && this._currentData) {
       // Wire exit button
       const exitBtn = this.$('#exit-btn') as HTMLButtonElement | null;
       if (exitBtn) {
@@ -750,6 +999,11 @@ export class ComparisonDashboard extends BaseComponent {
         tradeOffSummary.currentName = this._currentPresetName;
       }
     } else {
+      // Scenario bar
+      this.$('#pin-btn')?.addEventListener('click', () => this.pinCurrentRun());
+      this.$('#compare-scenarios-btn')?.addEventListener('click', () => this.enterScenarioMode());
+      this.updateScenarioBar();
+
       // Single mode - pass data to single dashboard
       const singleDashboard = this.$('#single-dashboard') as any;
       if (singleDashboard && this._currentData) {
@@ -760,6 +1014,9 @@ export class ComparisonDashboard extends BaseComponent {
         // Pass config data for param summary
         singleDashboard.initialValue = this._initialValue;
         if (this._simulationConfig) singleDashboard.simulationConfig = this._simulationConfig;
+        if (this._goalSeekResult) singleDashboard.goalSeekResult = this._goalSeekResult;
+        if (this._backtestResult) singleDashboard.backtestResult = this._backtestResult;
+        if (this._backtestError) singleDashboard.backtestError = this._backtestError;
       }
     }
   }
@@ -40,6 +40,9 @@ export { ModalDialog, type ModalOptions } from './modal-dialog';
 export { PortfolioManager } from './portfolio-manager';
 export { PortfolioList } from './portfolio-list';
 
+// Run History Components
+export { RunHistory } from './run-history';
+
 // Results Display Components
 export { ResultsDashboard } from './results-dashboard';
 export { PercentileSpectrum, type PercentileSpectrumProps } from './percentile-spectrum';
@@ -53,6 +56,7 @@ export {
   type SellMetrics,
   type StrategyVerdict,
   type WealthDifferential,
+  type NetToHeirs,
   type StrategyInsights,
 } from './strategy-analysis';
 export {
@@ -78,8 +82,24 @@ export {
 // Comparison Mode Components
 export { DeltaIndicator } from './delta-indicator';
 export { ComparisonDashboard } from './comparison-dashboard';
+export { ScenarioComparison } from './scenario-comparison';
 export { TradeOffSummary } from './trade-off-summary';
 
+// Parameter Sweep Components
+export { SweepResults } from './sweep-results';
+
+// Portfolio Optimizer Components
+export { PortfolioOptimizer } from './portfolio-optimizer';
+
+// Stress Test Components
+export { StressResults } from './stress-results';
+
+// Historical Backtest Components
+export { BacktestPanel } from './backtest-panel';
+
+// Path Explorer Components
+export { PathExplorer } from './path-explorer';
+
 // Welcome Components
 export { WelcomeScreen } from './welcome-screen';
 export { UserGuideModal } from './user-guide-modal';
@@ -7,6 +7,9 @@
  * - Strategy Success: BBD success rate, vs Sell comparison, median utilization
  * - Portfolio Growth: CAGR, starting/terminal values, vs Sell comparison
  * - Leverage Safety: Margin call probability, utilization metrics
+ *
+ * Success rate, median terminal value and margin call probability carry
+ * ± error bars (95% confidence) when intervals are provided.
  */
 import { BaseComponent } from '../base-component';
 import { logoUrl } from '../../assets/logo';
@@ -36,6 +39,11 @@ export interface KeyMetricsData {
 
   // Time horizon for context
   timeHorizon?: number; // years
+
+  // 95% confidence intervals, shown as error bars when present
+  bbdSuccessRateCI?: [number, number]; // 0-100 percentage
+  medianTerminalCI?: [number, number]; // currency
+  marginCallProbabilityCI?: [number, number]; // 0-100 percentage
 }
 
 /** Success rate threshold for "Escape Velocity" status */
@@ -118,6 +126,7 @@ export class KeyMetricsBanner extends BaseComponent {
             <div class="hero-metric">
               <span class="hero-value" id="bbd-success">--</span>
               <span class="hero-unit" id="bbd-success-unit">%</span>
+              <span class="hero-error" id="bbd-success-error" hidden></span>
             </div>
             <div class="hero-label">PROBABILITY OF SUCCESS</div>
             <div class="metrics-grid">
@@ -170,6 +179,7 @@ export class KeyMetricsBanner extends BaseComponent {
               </div>
               <div class="metric-item">
                 <span class="metric-value" id="median-terminal">--</span>
+                <span class="metric-error" id="median-terminal-error" hidden></span>
                 <span class="metric-label">Median Terminal</span>
               </div>
               <div class="metric-item highlight-positive">
@@ -204,6 +214,7 @@ export class KeyMetricsBanner extends BaseComponent {
             <div class="hero-metric">
               <span class="hero-value" id="margin-call-prob">--</span>
               <span class="hero-unit" id="margin-call-unit">%</span>
+              <span class="hero-error" id="margin-call-error" hidden></span>
             </div>
             <div class="hero-label">MARGIN CALL PROBABILITY</div>
             <div class="metrics-grid">
@@ -623,6 +634,15 @@ export class KeyMetricsBanner extends BaseComponent {
         color: #4A90D9;
       }
 
+      /* Error bar: half-width of the 95% confidence interval */
+      .hero-error {
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 500;
+        color: var(--text-tertiary, #94a3b8);
+        margin-left: var(--spacing-xs, 4px);
+        cursor: help;
+      }
+
       .hero-label {
         font-size: var(--font-size-xs, 0.75rem);
         color: var(--text-tertiary, #94a3b8);
@@ -658,6 +678,12 @@ export class KeyMetricsBanner extends BaseComponent {
         color: var(--text-tertiary, #94a3b8);
       }
 
+      .metric-error {
+        font-size: var(--font-size-xs, 0.75rem);
+        color: var(--text-tertiary, #94a3b8);
+        cursor: help;
+      }
+
       .highlight-negative .metric-value {
         color: var(--color-danger, #ef4444);
       }
@@ -1005,6 +1031,19 @@ export class KeyMetricsBanner extends BaseComponent {
 
     const formatPercent = (n: number, decimals = 1) => `${n.toFixed(decimals)}%`;
 
+    // Error bars show the half-width of the 95% confidence interval
+    const showErrorBar = (
+      el: Element | null,
+      interval: [number, number] | undefined,
+      format: (n: number) => string
+    ) => {
+      if (!el) return;
+      el.toggleAttribute('hidden', !interval);
+      if (!interval) return;
+      el.textContent = `±${format((interval[1] - interval[0]) / 2)}`;
+      el.setAttribute('title', `95% confidence interval: ${format(interval[0])} to ${format(interval[1])}`);
+    };
+
     // Determine overall status
     const isSuccess = this._data.bbdSuccessRate >= SUCCESS_THRESHOLD;
     const isSafetyGood = this._data.marginCallProbability <= MARGIN_CALL_THRESHOLD;
@@ -1113,6 +1152,7 @@ export class KeyMetricsBanner extends BaseComponent {
       bbdSuccessUnit.classList.remove('unit-success', 'unit-warning');
       bbdSuccessUnit.classList.add(isSuccess ? 'unit-success' : 'unit-warning');
     }
+    showErrorBar(this.$('#bbd-success-error'), this._data.bbdSuccessRateCI, formatPercent);
     if (vsSellSuccess) {
       const diff = this._data.bbdSuccessRate - this._data.sellSuccessRate;
       vsSellSuccess.textContent = diff >= 0 ? `+${diff.toFixed(1)}` : diff.toFixed(1);
@@ -1132,6 +1172,7 @@ export class KeyMetricsBanner extends BaseComponent {
     if (cagr) cagr.textContent = (this._data.cagr * 100).toFixed(1);
     if (startingValue) startingValue.textContent = formatCurrencyFull(this._data.startingValue);
     if (medianTerminal) medianTerminal.textContent = formatCurrencyFull(this._data.medianTerminal);
+    showErrorBar(this.$('#median-terminal-error'), this._data.medianTerminalCI, formatCurrency);
     if (vsSellTerminal) {
       const diff = this._data.medianTerminal - this._data.sellTerminal;
       const pctDiff = ((diff / this._data.sellTerminal) * 100).toFixed(1);
@@ -1179,6 +1220,7 @@ export class KeyMetricsBanner extends BaseComponent {
       marginCallUnit.classList.remove('unit-success', 'unit-warning');
       marginCallUnit.classList.add(isSafetyGood ? 'unit-success' : 'unit-warning');
     }
+    showErrorBar(this.$('#margin-call-error'), this._data.marginCallProbabilityCI, formatPercent);
     if (peakUtil) peakUtil.textContent = formatPercent(this._data.peakUtilizationP90);
     if (safetyBuffer) safetyBuffer.textContent = formatPercent(this._data.safetyBufferP10);
     if (medianUtilSafety) medianUtilSafety.textContent = formatPercent(this._data.medianUtilization);
@@ -5,10 +5,43 @@
  * - Portfolio donut chart with asset breakdown bars
  * - Parameter grid: Starting Portfolio, Time Horizon, Annual Withdrawal,
  *   Withdrawal Growth, SBLOC Interest Rate, Max Borrowing, Maintenance Margin,
- *   Simulations Run
+ *   Simulations Run, Return Model, Rebalancing
  */
 import { BaseComponent } from '../base-component';
 import { Chart, DoughnutController, ArcElement } from 'chart.js/auto';
+import { resolveFatTailParams } from '../../simulation/fat-tail';
+import type {
+  AssetClass,
+  FatTailParamsOverrides,
+  RebalancingConfig,
+  RebalancingStrategy,
+  RegimeCalibrationMode,
+  SimulationConfig,
+} from '../../simulation/types';
+
+/** Display labels for each return model */
+const RETURN_MODEL_LABELS: Record<SimulationConfig['resamplingMethod'], string> = {
+  'simple': 'Bootstrap Resampling',
+  'block': 'Block Bootstrap',
+  'regime': 'Regime-Switching',
+  'fat-tail': "Fat-Tail (Student's t)",
+};
+
+/** Display labels for each rebalancing policy */
+const REBALANCING_LABELS: Record<RebalancingStrategy, string> = {
+  none: 'None (buy and hold)',
+  annual: 'Annual',
+  quarterly: 'Quarterly',
+  threshold: 'Threshold bands',
+};
+
+/** Short display labels for fat-tail asset classes */
+const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  equity_stock: 'Stocks',
+  equity_index: 'Indices',
+  commodity: 'Commodities',
+  bond: 'Bonds',
+};
 
 /**
  * Asset data for portfolio visualization.
@@ -32,6 +65,13 @@ export interface ParamSummaryData {
   maxBorrowing: number; // percentage (65 = 65%)
   maintenanceMargin: number; // percentage (50 = 50%)
   simulationsRun: number; // count
+  returnModel?: SimulationConfig['resamplingMethod'];
+  regimeCalibration?: RegimeCalibrationMode; // regime model only
+  blockSize?: number; // years, block bootstrap only
+  fatTailParams?: FatTailParamsOverrides; // fat-tail model only
+  seed?: string; // RNG seed the run used
+  timeStep?: SimulationConfig['timeStep']; // omitted = annual
+  rebalancing?: RebalancingConfig; // omitted = annual, no cost
 }
 
 /**
@@ -162,6 +202,18 @@ export class ParamSummary extends BaseComponent {
               <span class="param-label">SIMULATIONS RUN</span>
               <span class="param-value" id="simulations-run">--</span>
             </div>
+            <div class="param-item full-row">
+              <span class="param-label">RETURN MODEL</span>
+              <span class="param-value" id="return-model">--</span>
+            </div>
+            <div class="param-item full-row">
+              <span class="param-label">REBALANCING</span>
+              <span class="param-value" id="rebalancing">--</span>
+            </div>
+            <div class="param-item full-row">
+              <span class="param-label">RANDOM SEED</span>
+              <span class="param-value" id="random-seed">--</span>
+            </div>
           </div>
         </div>
       </div>
@@ -357,6 +409,10 @@ export class ParamSummary extends BaseComponent {
         gap: var(--spacing-xs, 4px);
       }
 
+      .param-item.full-row {
+        grid-column: 1 / -1;
+      }
+
       .param-label {
         font-size: var(--font-size-xs, 0.75rem);
         font-weight: 500;
@@ -707,6 +763,74 @@ export class ParamSummary extends BaseComponent {
     if (maxBorrowing) maxBorrowing.textContent = formatPercent(this._data.maxBorrowing);
     if (maintenanceMargin) maintenanceMargin.textContent = formatPercent(this._data.maintenanceMargin);
     if (simulationsRun) simulationsRun.textContent = formatNumber(this._data.simulationsRun);
+
+    const returnModel = this.$('#return-model') as HTMLElement | null;
+    if (returnModel) {
+      returnModel.textContent = this.formatReturnModel(this._data);
+      returnModel.title = this.describeFatTailParams(this._data);
+    }
+
+    const rebalancing = this.$('#rebalancing');
+    if (rebalancing) rebalancing.textContent = this.formatRebalancing(this._data.rebalancing);
+
+    const randomSeed = this.$('#random-seed');
+    if (randomSeed) randomSeed.textContent = this._data.seed ?? '--';
+  }
+
+  /**
+   * Format the return model with its model-specific setting and time step.
+   */
+  private formatReturnModel(data: ParamSummaryData): string {
+    const model = this.formatReturnModelSetting(data);
+    return data.timeStep === 'monthly' ? `${model}, monthly steps` : model;
+  }
+
+  /**
+   * Format the return model with its model-specific setting.
+   */
+  private formatReturnModelSetting(data: ParamSummaryData): string {
+    const method = data.returnModel ?? 'simple';
+    const label = RETURN_MODEL_LABELS[method];
+
+    if (method === 'block' && data.blockSize) {
+      return `${label} (${data.blockSize}-year blocks)`;
+    }
+    if (method === 'regime' && data.regimeCalibration) {
+      return `${label} (${data.regimeCalibration === 'historical' ? 'Historical' : 'Conservative'})`;
+    }
+    if (method === 'fat-tail') {
+      return data.fatTailParams ? `${label}, custom parameters` : label;
+    }
+    return label;
+  }
+
+  /**
+   * Format the rebalancing policy with its drift band and trading cost.
+   */
+  private formatRebalancing(config?: RebalancingConfig): string {
+    const strategy = config?.strategy ?? 'annual';
+    let text = REBALANCING_LABELS[strategy];
+    if (strategy === 'threshold') {
+      text += ` (±${((config?.thresholdBand ?? 0.05) * 100).toFixed(1)}%)`;
+    }
+    if (strategy !== 'none' && config?.transactionCost) {
+      text += `, ${(config.transactionCost * 100).toFixed(2)}% trading cost`;
+    }
+    return text;
+  }
+
+  /**
+   * Tooltip listing the fat-tail parameters in effect for each asset class.
+   */
+  private describeFatTailParams(data: ParamSummaryData): string {
+    if (data.returnModel !== 'fat-tail') return '';
+
+    const params = resolveFatTailParams(data.fatTailParams);
+    return (Object.keys(params) as AssetClass[]).map((assetClass) => {
+      const p = params[assetClass];
+      return `${ASSET_CLASS_LABELS[assetClass]}: df ${p.degreesOfFreedom}, skew ${p.skewMultiplier}, ` +
+        `vol ×${p.volatilityScaling}, bias ${(p.survivorshipBias * 100).toFixed(1)}%`;
+    }).join('\n');
   }
 }
 
@@ -0,0 +1,418 @@
+/**
+ * Path Explorer Component
+ *
+ * Opens a single iteration of the displayed run - a representative
+ * percentile path, the worst path, a random one or any iteration by number -
+ * and shows it year by year: asset returns, market regime, withdrawals,
+ * interest, LTV, margin calls and forced liquidations.
+ */
+
+import { BaseComponent } from '../base-component';
+import type { PathTrace, PathYear, RepresentativePaths } from '../../simulation/types';
+import type { PathExplorerChartData } from '../../charts/path-explorer-chart';
+
+// Import chart to register it
+import '../../charts/path-explorer-chart';
+
+/**
+ * Iterations available to explore
+ */
+export interface PathExplorerPaths {
+  /** Representative iterations of the run */
+  representative: RepresentativePaths;
+  /** Iterations in the run */
+  iterations: number;
+}
+
+/**
+ * Named path choices, in button order
+ */
+const PATH_CHOICES: { key: keyof RepresentativePaths; label: string }[] = [
+  { key: 'worst', label: 'Worst' },
+  { key: 'p10', label: 'P10' },
+  { key: 'p50', label: 'Median' },
+  { key: 'p90', label: 'P90' },
+];
+
+/**
+ * Path Explorer - year-by-year view of one simulated iteration
+ *
+ * Usage:
+ * ```html
+ * <path-explorer></path-explorer>
+ * ```
+ *
+ * Properties:
+ * - paths: PathExplorerPaths | null (resets the explorer)
+ * - trace: PathTrace | null (null ends a pending request without a path)
+ *
+ * @fires path-trace-request - detail: { iteration } when the user opens a path
+ */
+export class PathExplorer extends BaseComponent {
+  private _paths: PathExplorerPaths | null = null;
+  private _trace: PathTrace | null = null;
+  private _pendingIteration: number | null = null;
+
+  /**
+   * Set the run's iterations; clears any open path
+   */
+  set paths(value: PathExplorerPaths | null) {
+    this._paths = value;
+    this._trace = null;
+    this._pendingIteration = null;
+    this.render();
+  }
+
+  /**
+   * Get the run's iterations
+   */
+  get paths(): PathExplorerPaths | null {
+    return this._paths;
+  }
+
+  /**
+   * Set the traced path
+   */
+  set trace(value: PathTrace | null) {
+    this._trace = value;
+    this._pendingIteration = null;
+    this.render();
+  }
+
+  /**
+   * Get the traced path
+   */
+  get trace(): PathTrace | null {
+    return this._trace;
+  }
+
+  protected template(): string {
+    const paths = this._paths;
+    if (!paths) return '';
+    const trace = this._trace;
+    const active = trace?.iteration ?? this._pendingIteration;
+
+    return `
+      <div class="explorer-controls">
+        <div class="path-buttons" role="group" aria-label="Path to explore">
+          ${PATH_CHOICES.map(({ key, label }) => `
+            <button type="button" class="path-btn ${paths.representative[key] === active ? 'active' : ''}"
+              data-iteration="${paths.representative[key]}">${label}</button>
+          `).join('')}
+          <button type="button" class="path-btn" id="random-btn">Random</button>
+        </div>
+        <form class="iteration-form" id="iteration-form">
+          <label for="iteration-input">Iteration</label>
+          <input type="number" id="iteration-input" min="1" max="${paths.iterations}" step="1"
+            value="${active !== null ? active + 1 : ''}" placeholder="1-${paths.iterations}">
+          <button type="submit" class="path-btn">Open</button>
+        </form>
+      </div>
+
+      ${this._pendingIteration !== null
+        ? `<p class="explorer-note">Replaying iteration ${(this._pendingIteration + 1).toLocaleString()}...</p>`
+        : trace
+          ? this.traceTemplate(trace)
+          : '<p class="explorer-note">Pick a path to follow one simulated lifetime year by year.</p>'}
+    `;
+  }
+
+  /**
+   * Summary, chart and year table of a traced path
+   */
+  private traceTemplate(trace: PathTrace): string {
+    const years = trace.years;
+    const hasSbloc = years.some(y => y.maxLTV !== undefined);
+    const hasRegimes = years.some(y => y.regime !== undefined);
+    const marginCalls = years.filter(y => y.marginCall).length;
+    const last = years[years.length - 1];
+
+    return `
+      <p class="explorer-note">
+        Iteration ${(trace.iteration + 1).toLocaleString()} of seed ${this.escapeHtml(trace.seed)}:
+        ends at ${this.formatCurrency(last?.netWorth ?? 0)} net worth${hasSbloc
+          ? `, ${marginCalls === 0 ? 'no margin calls' : `${marginCalls} margin call year${marginCalls === 1 ? '' : 's'}`}`
+          : ''}.
+      </p>
+
+      <div class="chart-container">
+        <path-explorer-chart id="path-chart"></path-explorer-chart>
+      </div>
+
+      <div class="table-wrapper">
+        <table class="path-table">
+          <thead>
+            <tr>
+              <th scope="col">Year</th>
+              ${hasRegimes ? '<th scope="col">Regime</th>' : ''}
+              ${trace.assetIds.map(id => `<th scope="col">${this.escapeHtml(id)}</th>`).join('')}
+              <th scope="col">Portfolio</th>
+              ${hasSbloc ? `
+                <th scope="col">Withdrawal</th>
+                <th scope="col">Rate</th>
+                <th scope="col">Interest</th>
+                <th scope="col">Loan</th>
+                <th scope="col">LTV</th>
+                <th scope="col">Liquidated</th>
+              ` : ''}
+              <th scope="col">Value</th>
+              <th scope="col">Net Worth</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${years.map(y => this.yearRow(y, hasSbloc, hasRegimes)).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  /**
+   * Table row of one year
+   */
+  private yearRow(y: PathYear, hasSbloc: boolean, hasRegimes: boolean): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const signed = (value: number) => `<span class="${value < 0 ? 'negative' : ''}">${percent(value)}</span>`;
+
+    return `
+      <tr class="${y.marginCall ? 'margin-call' : ''}">
+        <th scope="row">${y.year}</th>
+        ${hasRegimes ? `<td class="regime ${y.regime ?? ''}">${y.regime ?? ''}</td>` : ''}
+        ${y.assetReturns.map(r => `<td>${signed(r)}</td>`).join('')}
+        <td>${signed(y.portfolioReturn)}</td>
+        ${hasSbloc ? `
+          <td>${this.formatCurrency(y.withdrawal)}</td>
+          <td>${y.interestRate !== undefined ? percent(y.interestRate) : ''}</td>
+          <td>${this.formatCurrency(y.interestCharged)}</td>
+          <td>${this.formatCurrency(y.loanBalance)}</td>
+          <td title="${y.maxLTV !== undefined ? `Margin call at ${percent(y.maxLTV)}` : ''}">${percent(y.ltv)}</td>
+          <td>${y.assetsLiquidated > 0
+            ? `${this.formatCurrency(y.assetsLiquidated)}${y.haircut > 0 ? ` <span class="detail">(-${this.formatCurrency(y.haircut)} haircut)</span>` : ''}`
+            : ''}</td>
+        ` : ''}
+        <td>${this.formatCurrency(y.portfolioValue)}</td>
+        <td>${this.formatCurrency(y.netWorth)}</td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Build chart data from a traced path
+   */
+  private buildChartData(trace: PathTrace): PathExplorerChartData {
+    const hasSbloc = trace.years.some(y => y.maxLTV !== undefined);
+    return {
+      labels: trace.years.map(y => `Year ${y.year}`),
+      portfolioValue: trace.years.map(y => y.portfolioValue),
+      netWorth: trace.years.map(y => y.netWorth),
+      ...(hasSbloc && {
+        loanBalance: trace.years.map(y => y.loanBalance),
+        marginCalls: trace.years.map(y => y.marginCall),
+      }),
+    };
+  }
+
+  /**
+   * Ask for an iteration to be traced
+   */
+  private requestTrace(iteration: number): void {
+    const paths = this._paths;
+    if (!paths || !Number.isInteger(iteration) || iteration < 0 || iteration >= paths.iterations) return;
+    if (this._pendingIteration !== null || this._trace?.iteration === iteration) return;
+
+    this._pendingIteration = iteration;
+    this.render();
+    this.dispatchEvent(new CustomEvent('path-trace-request', {
+      bubbles: true,
+      composed: true,
+      detail: { iteration },
+    }));
+  }
+
+  /**
+   * Format a dollar amount in compact notation
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      *, *::before, *::after {
+        box-sizing: border-box;
+      }
+
+      .explorer-controls {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        justify-content: space-between;
+        gap: var(--spacing-sm, 8px);
+        margin-bottom: var(--spacing-sm, 8px);
+      }
+
+      .path-buttons,
+      .iteration-form {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs, 4px);
+      }
+
+      .iteration-form label {
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .iteration-form input {
+        width: 7rem;
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        background: var(--surface-primary, #ffffff);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-md, 6px);
+        color: var(--text-primary, #1e293b);
+        font-size: var(--font-size-sm, 0.875rem);
+      }
+
+      .path-btn {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        background: var(--surface-secondary, #f8fafc);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-md, 6px);
+        color: var(--text-primary, #1e293b);
+        font-size: var(--font-size-sm, 0.875rem);
+        cursor: pointer;
+      }
+
+      .path-btn:hover {
+        border-color: var(--color-primary, #0d9488);
+      }
+
+      .path-btn.active {
+        background: var(--color-primary, #0d9488);
+        border-color: var(--color-primary, #0d9488);
+        color: white;
+      }
+
+      .explorer-note {
+        margin: 0 0 var(--spacing-sm, 8px) 0;
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .chart-container {
+        position: relative;
+        height: 300px;
+      }
+
+      .chart-container path-explorer-chart {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+      }
+
+      .table-wrapper {
+        margin-top: var(--spacing-md, 16px);
+        max-height: 400px;
+        overflow: auto;
+      }
+
+      .path-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: var(--font-size-sm, 0.875rem);
+        font-variant-numeric: tabular-nums;
+      }
+
+      .path-table th,
+      .path-table td {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+        text-align: right;
+        white-space: nowrap;
+      }
+
+      .path-table thead th {
+        position: sticky;
+        top: 0;
+        background: var(--surface-primary, #ffffff);
+        color: var(--text-primary, #1e293b);
+        font-weight: 600;
+      }
+
+      .path-table tbody th {
+        color: var(--text-secondary, #475569);
+        font-weight: 500;
+      }
+
+      .path-table .regime {
+        text-align: left;
+        text-transform: capitalize;
+      }
+
+      .regime.bear,
+      .regime.crash,
+      .negative {
+        color: var(--color-danger, #dc2626);
+      }
+
+      .regime.bull {
+        color: var(--color-success, #059669);
+      }
+
+      .margin-call {
+        background: rgba(239, 68, 68, 0.08);
+      }
+
+      .detail {
+        color: var(--text-secondary, #64748b);
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    const paths = this._paths;
+    if (!paths) return;
+
+    const chart = this.$('#path-chart') as (HTMLElement & { data: PathExplorerChartData | null }) | null;
+    if (chart && this._trace) chart.data = this.buildChartData(this._trace);
+
+    this.$$('.path-btn[data-iteration]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.requestTrace(Number((btn as HTMLElement).dataset.iteration));
+      });
+    });
+
+    this.$('#random-btn')?.addEventListener('click', () => {
+      this.requestTrace(Math.floor(Math.random() * paths.iterations));
+    });
+
+    this.$('#iteration-form')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const input = this.$('#iteration-input') as HTMLInputElement | null;
+      // Iterations are numbered from 1 for display
+      this.requestTrace(Number(input?.value) - 1);
+    });
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Register the custom element
+customElements.define('path-explorer', PathExplorer);
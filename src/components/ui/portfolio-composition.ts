@@ -2,6 +2,7 @@ import { BaseComponent } from '../base-component';
 // Modal dialogs are shown via app-root to avoid mobile overflow clipping issues
 import { getPresetData, getPresetSymbols, getEffectiveData, PresetData } from '../../data/services/preset-service';
 import { getCustomSymbols } from '../../data/services/custom-data-service';
+import { fetchLiveData, getLiveSymbols, normalizeTicker } from '../../data/services/live-data-service';
 import {
   saveTempPortfolio,
   loadLastPortfolio,
@@ -15,7 +16,9 @@ import {
   TEMP_PORTFOLIO_KEY,
   isPortfolioDebugMode,
 } from '../../data/services/portfolio-service';
+import { decodeShareFragment, findUnknownSymbols } from '../../data/services/share-link-service';
 import type { AssetRecord, PortfolioRecord } from '../../data/schemas/portfolio';
+import type { CostBasisLot } from '../../simulation/types';
 import { Chart, DoughnutController, ArcElement } from 'chart.js/auto';
 import { comparisonState } from '../../services/comparison-state';
 
@@ -37,6 +40,10 @@ interface AssetStats {
  */
 interface SelectedAsset extends AssetStats {
   weight: number;
+  /** Cost basis as % of position value (undefined = portfolio-wide ratio) */
+  costBasis?: number;
+  /** Purchase lots with their own basis (from imported portfolios) */
+  lots?: CostBasisLot[];
 }
 
 // Color palette for portfolio assets
@@ -59,6 +66,7 @@ const ASSET_COLORS = [
  * Features:
  * - Available assets list with stats (years, avg return, volatility)
  * - Add assets via + button or double-click
+ * - Fetch any other ticker from the configured market data provider
  * - Selected assets with color swatch, stats, weight input, remove button
  * - Visual weight distribution bar
  * - Balance/Clear buttons
@@ -77,6 +85,7 @@ export class PortfolioComposition extends BaseComponent {
   private _isDirty = false; // Track unsaved changes
   private _savedSnapshot = ''; // Snapshot of state at load/save time
   private _pendingComparisonMode: boolean = false;
+  private _fetchingSymbol: string | null = null; // Ticker currently being fetched from the API provider
 
   protected template(): string {
     return `
@@ -337,6 +346,10 @@ export class PortfolioComposition extends BaseComponent {
         cursor: not-allowed;
       }
 
+      .available-asset-item.fetch-item .asset-stats {
+        font-style: italic;
+      }
+
       .asset-info {
         flex: 1;
       }
@@ -818,6 +831,36 @@ export class PortfolioComposition extends BaseComponent {
         color: var(--text-primary, #1e293b);
       }
 
+      .basis-input-group {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin-left: auto;
+        flex-shrink: 0;
+      }
+
+      .basis-label {
+        font-size: 10px;
+        color: var(--text-secondary, #64748b);
+        text-transform: uppercase;
+      }
+
+      .basis-input {
+        width: 44px;
+        padding: 2px 6px;
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--border-radius-sm, 4px);
+        font-size: 11px;
+        font-family: inherit;
+        text-align: center;
+        background: var(--surface-secondary, #f8fafc);
+        color: var(--text-primary, #1e293b);
+      }
+
+      .basis-input:disabled {
+        opacity: 0.5;
+      }
+
       .weight-input:focus {
         outline: none;
         border-color: var(--color-primary, #0d9488);
@@ -1010,6 +1053,9 @@ export class PortfolioComposition extends BaseComponent {
   }
 
   private async loadInitialPortfolio(): Promise<void> {
+    // A shared scenario link takes precedence over the last session
+    if (await this.loadSharedScenario()) return;
+
     try {
       const lastPortfolio = await loadLastPortfolio();
       if (lastPortfolio && lastPortfolio.assets.length > 0) {
@@ -1028,6 +1074,39 @@ export class PortfolioComposition extends BaseComponent {
     }
   }
 
+  /**
+   * Restore the scenario encoded in the URL fragment, if any.
+   * The fragment is cleared afterwards so a reload keeps the user's edits.
+   * @returns true if a scenario was restored
+   */
+  private async loadSharedScenario(): Promise<boolean> {
+    let scenario: PortfolioRecord | null;
+    try {
+      scenario = await decodeShareFragment(window.location.hash);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid scenario link';
+      setTimeout(() => this.showToast(message, 'error'), 500);
+      return false;
+    }
+    if (!scenario) return false;
+
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    this.populateFromPortfolio(scenario);
+
+    // Unknown symbols are kept so the scenario stays intact; the run reports them
+    const unknown = await findUnknownSymbols(scenario);
+    setTimeout(() => {
+      this.showToast(`Opened shared scenario: ${scenario.name}`, 'info');
+      if (unknown.length > 0) {
+        this.showToast(
+          `No historical data for ${unknown.join(', ')}. Fetch or import it before running.`,
+          'error'
+        );
+      }
+    }, 500);
+    return true;
+  }
+
   private populateFromPortfolio(portfolio: PortfolioRecord): void {
     // Track if this is a named portfolio (not temp)
     if (portfolio.name !== TEMP_PORTFOLIO_KEY) {
@@ -1051,6 +1130,8 @@ export class PortfolioComposition extends BaseComponent {
         volatility: availableAsset?.volatility || 0,
         color,
         weight: asset.weight * 100, // Convert from 0-1 to 0-100
+        costBasis: asset.costBasisRatio !== undefined ? asset.costBasisRatio * 100 : undefined,
+        lots: asset.lots,
       };
     });
 
@@ -1160,6 +1241,17 @@ export class PortfolioComposition extends BaseComponent {
         }
       }
 
+      // Add tickers previously fetched from a live data provider
+      const knownSymbols = new Set(this.availableAssets.map(a => a.symbol));
+      const liveOnlySymbols = (await getLiveSymbols()).filter(s => !knownSymbols.has(s));
+      for (const symbol of liveOnlySymbols) {
+        const data = await getEffectiveData(symbol);
+        if (data) {
+          this.availableAssets.push(this.calculateAssetStats(symbol, data, this.availableAssets.length));
+          needsRender = true;
+        }
+      }
+
       // Re-render if any data changed
       if (needsRender) {
         this.render();
@@ -1258,7 +1350,7 @@ export class PortfolioComposition extends BaseComponent {
           <button class="add-btn" aria-label="Add ${asset.symbol}">+</button>
         </div>
       `;
-    }).join('');
+    }).join('') + this.renderFetchItem();
 
     // Attach click handlers
     this.$$('.available-asset-item').forEach(item => {
@@ -1273,6 +1365,82 @@ export class PortfolioComposition extends BaseComponent {
         this.addAsset(symbol);
       });
     });
+
+    const fetchItem = this.$('.fetch-item') as HTMLElement | null;
+    const fetchSymbol = fetchItem?.dataset.fetchSymbol;
+    if (fetchItem && fetchSymbol) {
+      fetchItem.addEventListener('dblclick', () => this.fetchAndAddAsset(fetchSymbol));
+      fetchItem.querySelector('.add-btn')?.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.fetchAndAddAsset(fetchSymbol);
+      });
+    }
+  }
+
+  /**
+   * Render the "fetch from provider" row when the search text is a ticker
+   * that is not already available
+   */
+  private renderFetchItem(): string {
+    const symbol = normalizeTicker(this.searchQuery);
+    if (!symbol) return '';
+    if (this.availableAssets.some(a => a.symbol === symbol)) return '';
+    if (this.selectedAssets.some(a => a.symbol === symbol)) return '';
+
+    const isFetching = this._fetchingSymbol === symbol;
+    return `
+      <div class="available-asset-item fetch-item"
+           data-fetch-symbol="${symbol}"
+           role="option"
+           aria-selected="false">
+        <div class="asset-info">
+          <div>
+            <span class="asset-name">${symbol}</span>
+          </div>
+          <div class="asset-stats">
+            ${isFetching ? 'Fetching history...' : 'Not bundled - fetch history from your data provider'}
+          </div>
+        </div>
+        <button class="add-btn" aria-label="Fetch ${symbol}" ${isFetching ? 'disabled' : ''}>&#8595;</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Fetch a ticker from the preferred API provider and add it to the portfolio.
+   * Failures are reported; no placeholder data is ever substituted.
+   */
+  private async fetchAndAddAsset(symbol: string): Promise<void> {
+    if (this._fetchingSymbol) return;
+
+    this._fetchingSymbol = symbol;
+    this.renderAvailableAssets();
+
+    try {
+      const { data, warnings } = await fetchLiveData(symbol);
+      const existingIndex = this.availableAssets.findIndex(a => a.symbol === symbol);
+      const stats = this.calculateAssetStats(symbol, data, existingIndex >= 0 ? existingIndex : this.availableAssets.length);
+      if (existingIndex >= 0) {
+        this.availableAssets[existingIndex] = stats;
+      } else {
+        this.availableAssets.push(stats);
+      }
+
+      // Clear the search so the new asset is visible in context
+      this.searchQuery = '';
+      const searchInput = this.$('.search-input') as HTMLInputElement | null;
+      if (searchInput) searchInput.value = '';
+
+      this._fetchingSymbol = null;
+      this.addAsset(symbol);
+      const warningNote = warnings.length > 0 ? ` (${warnings.length} data warning${warnings.length === 1 ? '' : 's'}, see console)` : '';
+      warnings.forEach(w => console.warn(`[${symbol}] ${w.message}`));
+      this.showToast(`Added ${symbol}: ${data.returns.length} years of history${warningNote}`, 'success');
+    } catch (error) {
+      this._fetchingSymbol = null;
+      this.renderAvailableAssets();
+      this.showToast(error instanceof Error ? error.message : `Could not fetch ${symbol}`, 'error');
+    }
   }
 
   private renderSelectedAssets(): void {
@@ -1354,6 +1522,20 @@ export class PortfolioComposition extends BaseComponent {
         <div class="selected-asset-row2">
           <span class="selected-asset-badge type-${asset.assetClass.toLowerCase()}">${asset.assetClass}</span>
           <span class="selected-asset-name">${asset.name}</span>
+          <label class="basis-input-group" title="Cost basis as % of position value. Blank uses the portfolio-wide ratio.">
+            <span class="basis-label">${asset.lots?.length ? `${asset.lots.length} lots` : 'Basis'}</span>
+            <input type="number"
+                   class="basis-input"
+                   value="${asset.costBasis !== undefined ? asset.costBasis.toFixed(0) : ''}"
+                   placeholder="&ndash;"
+                   min="0"
+                   max="100"
+                   step="1"
+                   data-index="${index}"
+                   ${asset.lots?.length ? 'disabled' : ''}
+                   aria-label="Cost basis for ${asset.symbol}" />
+            <span class="weight-percent">%</span>
+          </label>
         </div>
       </div>
     `).join('');
@@ -1385,6 +1567,22 @@ export class PortfolioComposition extends BaseComponent {
       });
     });
 
+    // Attach cost basis input handlers (blank = portfolio-wide ratio)
+    this.$$('.basis-input').forEach(input => {
+      input.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        const idx = parseInt(target.dataset.index || '0');
+        const value = parseFloat(target.value);
+        if (this.selectedAssets[idx]) {
+          this.selectedAssets[idx].costBasis = Number.isFinite(value)
+            ? Math.min(100, Math.max(0, value))
+            : undefined;
+          this.markDirty();
+          this.dispatchPortfolioChange();
+        }
+      });
+    });
+
     // Attach remove button handlers
     this.$$('.remove-btn').forEach(btn => {
       btn.addEventListener('click', () => {
@@ -2123,6 +2321,8 @@ export class PortfolioComposition extends BaseComponent {
                    asset.assetClass.toLowerCase() === 'index' ? 'equity' :
                    asset.assetClass.toLowerCase()) as any,
       weight: asset.weight / 100, // Convert from 0-100 to 0-1
+      ...(asset.costBasis !== undefined && { costBasisRatio: asset.costBasis / 100 }),
+      ...(asset.lots?.length && { lots: asset.lots }),
     }));
   }
 
@@ -2236,6 +2436,36 @@ export class PortfolioComposition extends BaseComponent {
     return weights;
   }
 
+  /**
+   * Get the selected assets as portfolio asset records (weights 0-1)
+   */
+  public getAssetRecords(): AssetRecord[] {
+    return this.buildAssetRecords();
+  }
+
+  /**
+   * Name of the loaded portfolio, or '' when none is loaded
+   */
+  public get portfolioName(): string {
+    return this._currentPortfolioName;
+  }
+
+  /**
+   * Get per-asset cost basis overrides, keyed by symbol
+   * Assets without their own basis are omitted.
+   */
+  public getCostBasis(): Record<string, { costBasisRatio?: number; lots?: CostBasisLot[] }> {
+    const basis: Record<string, { costBasisRatio?: number; lots?: CostBasisLot[] }> = {};
+    this.selectedAssets.forEach(a => {
+      if (a.lots?.length) {
+        basis[a.symbol] = { lots: a.lots };
+      } else if (a.costBasis !== undefined) {
+        basis[a.symbol] = { costBasisRatio: a.costBasis / 100 };
+      }
+    });
+    return basis;
+  }
+
   /**
    * Set portfolio weights programmatically
    * @param weights - Record of symbol to weight (0-100 scale)
@@ -2275,6 +2505,22 @@ export class PortfolioComposition extends BaseComponent {
     this.dispatchPortfolioChange();
   }
 
+  /**
+   * Update the weights of already selected assets, keeping their cost basis
+   * @param weights - Record of symbol to weight (0-100 scale); unlisted assets are unchanged
+   */
+  public applyWeights(weights: Record<string, number>): void {
+    this.selectedAssets.forEach(asset => {
+      if (asset.symbol in weights) {
+        asset.weight = weights[asset.symbol];
+      }
+    });
+
+    this.renderSelectedAssets();
+    this.markDirty();
+    this.dispatchPortfolioChange();
+  }
+
   /**
    * Get selected asset symbols
    */
@@ -0,0 +1,313 @@
+/**
+ * Portfolio Optimizer Component
+ *
+ * Shows the efficient frontier of the selected assets with the current
+ * portfolio and the BBD optimum, the weights and simulated metrics of the
+ * selected frontier point, and a button to apply those weights.
+ */
+
+import { BaseComponent } from '../base-component';
+import type { FrontierPoint, OptimizerResult } from '../../simulation/types';
+import type { EfficientFrontierData } from '../../charts/efficient-frontier-chart';
+
+// Import chart to register it
+import '../../charts/efficient-frontier-chart';
+
+/**
+ * Portfolio Optimizer - efficient frontier with apply-to-weights
+ *
+ * Usage:
+ * ```html
+ * <portfolio-optimizer></portfolio-optimizer>
+ * ```
+ *
+ * Properties:
+ * - result: OptimizerResult | null
+ *
+ * @fires apply-weights - detail: { weights } (symbol to 0-100 weight) when the user applies a point
+ * @fires optimizer-close - when the user dismisses the results
+ */
+export class PortfolioOptimizer extends BaseComponent {
+  private _result: OptimizerResult | null = null;
+  private _selectedIndex: number = 0;
+
+  /**
+   * Set optimizer result; selects the BBD optimum (or the minimum-variance portfolio)
+   */
+  set result(value: OptimizerResult | null) {
+    this._result = value;
+    this._selectedIndex = value?.bbdOptimalIndex ?? 0;
+    this.render();
+  }
+
+  /**
+   * Get optimizer result
+   */
+  get result(): OptimizerResult | null {
+    return this._result;
+  }
+
+  protected template(): string {
+    const result = this._result;
+    if (!result) return '';
+    const selected = result.frontier[this._selectedIndex];
+    const isOptimal = this._selectedIndex === result.bbdOptimalIndex;
+
+    return `
+      <div class="optimizer-card">
+        <div class="optimizer-header">
+          <div>
+            <h3>Portfolio Optimizer</h3>
+            <span class="optimizer-meta">
+              ${result.frontier.length} frontier portfolios, ${result.iterations.toLocaleString()} iterations each,
+              shared seed ${this.escapeHtml(result.seed)}
+            </span>
+          </div>
+          <button class="close-btn" id="close-btn" aria-label="Close optimizer results">&times;</button>
+        </div>
+
+        <p class="optimizer-summary">
+          ${result.bbdOptimalIndex === null
+            ? `No frontier portfolio keeps margin call risk within ${result.marginCallCap}%.`
+            : `The BBD optimum has the highest median net worth with margin call risk within ${result.marginCallCap}%.`}
+          Click a point on the frontier to inspect it.
+        </p>
+
+        <efficient-frontier-chart id="frontier-chart"></efficient-frontier-chart>
+
+        <table class="weights-table">
+          <thead>
+            <tr>
+              <th scope="col"></th>
+              <th scope="col">Current</th>
+              <th scope="col">${isOptimal ? 'BBD Optimum' : `Frontier #${this._selectedIndex + 1}`}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${result.assetIds.map((id, i) => `
+              <tr>
+                <th scope="row">${this.escapeHtml(id)}</th>
+                <td>${(result.current.weights[i] * 100).toFixed(1)}%</td>
+                <td>${(selected.weights[i] * 100).toFixed(1)}%</td>
+              </tr>
+            `).join('')}
+            ${this.metricRow('Expected Return', result.current, selected, p => `${(p.expectedReturn * 100).toFixed(1)}%`)}
+            ${this.metricRow('Volatility', result.current, selected, p => `${(p.volatility * 100).toFixed(1)}%`)}
+            ${this.metricRow('Median Net Worth', result.current, selected, p => this.formatCurrency(p.medianNetWorth))}
+            ${this.metricRow('Margin Call Risk', result.current, selected, p => `${p.marginCallProbability.toFixed(1)}%`)}
+          </tbody>
+        </table>
+
+        <button class="apply-btn" id="apply-btn">Apply Weights</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Metric row comparing the current portfolio with the selected point
+   */
+  private metricRow(
+    label: string,
+    current: FrontierPoint,
+    selected: FrontierPoint,
+    format: (point: FrontierPoint) => string
+  ): string {
+    return `
+      <tr class="metric-row">
+        <th scope="row">${label}</th>
+        <td>${format(current)}</td>
+        <td>${format(selected)}</td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Weights of a frontier point as percentages rounded to 0.1 and summing to 100
+   */
+  private toPercentWeights(point: FrontierPoint, assetIds: string[]): Record<string, number> {
+    const rounded = point.weights.map(w => Math.round(w * 1000) / 10);
+    // Put the rounding remainder on the largest holding
+    const largest = rounded.indexOf(Math.max(...rounded));
+    const remainder = 100 - rounded.reduce((sum, w) => sum + w, 0);
+    rounded[largest] = Math.round((rounded[largest] + remainder) * 10) / 10;
+
+    const weights: Record<string, number> = {};
+    assetIds.forEach((id, i) => {
+      weights[id] = rounded[i];
+    });
+    return weights;
+  }
+
+  /**
+   * Build chart data with the selected point highlighted
+   */
+  private buildChartData(result: OptimizerResult): EfficientFrontierData {
+    return {
+      frontier: result.frontier.map(p => ({
+        volatility: p.volatility,
+        expectedReturn: p.expectedReturn,
+        withinCap: p.marginCallProbability <= result.marginCallCap,
+      })),
+      current: result.current,
+      optimalIndex: result.bbdOptimalIndex,
+      selectedIndex: this._selectedIndex,
+    };
+  }
+
+  /**
+   * Format a dollar amount in compact notation
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      :host(.hidden) {
+        display: none;
+      }
+
+      *, *::before, *::after {
+        box-sizing: border-box;
+      }
+
+      .optimizer-card {
+        margin-bottom: var(--spacing-lg, 24px);
+        padding: var(--spacing-md, 16px);
+        background: var(--surface-primary, #ffffff);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-lg, 8px);
+      }
+
+      .optimizer-header {
+        display: flex;
+        align-items: flex-start;
+        justify-content: space-between;
+        gap: var(--spacing-md, 16px);
+        margin-bottom: var(--spacing-sm, 8px);
+      }
+
+      .optimizer-header h3 {
+        margin: 0;
+        font-size: var(--font-size-lg, 1.125rem);
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
+      .optimizer-meta,
+      .optimizer-summary {
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .optimizer-summary {
+        margin: 0 0 var(--spacing-md, 16px) 0;
+      }
+
+      .close-btn {
+        padding: 0 var(--spacing-sm, 8px);
+        background: none;
+        border: none;
+        color: var(--text-secondary, #64748b);
+        font-size: 1.5rem;
+        line-height: 1;
+        cursor: pointer;
+      }
+
+      .close-btn:hover {
+        color: var(--text-primary, #1e293b);
+      }
+
+      .weights-table {
+        width: 100%;
+        margin-top: var(--spacing-md, 16px);
+        border-collapse: collapse;
+        font-size: var(--font-size-sm, 0.875rem);
+      }
+
+      .weights-table th,
+      .weights-table td {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+        text-align: right;
+      }
+
+      .weights-table th[scope="row"] {
+        text-align: left;
+        color: var(--text-secondary, #475569);
+        font-weight: 500;
+      }
+
+      .weights-table thead th {
+        color: var(--text-primary, #1e293b);
+        font-weight: 600;
+      }
+
+      tr:not(.metric-row) + .metric-row th,
+      tr:not(.metric-row) + .metric-row td {
+        border-top: 2px solid var(--border-color, #e2e8f0);
+      }
+
+      .apply-btn {
+        margin-top: var(--spacing-md, 16px);
+        padding: var(--spacing-sm, 8px) var(--spacing-lg, 24px);
+        background: var(--color-primary, #0d9488);
+        border: none;
+        border-radius: var(--radius-md, 6px);
+        color: white;
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 600;
+        cursor: pointer;
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    const result = this._result;
+    if (!result) return;
+
+    const chart = this.$('#frontier-chart') as (HTMLElement & { data: EfficientFrontierData | null }) | null;
+    if (chart) chart.data = this.buildChartData(result);
+
+    chart?.addEventListener('frontier-point-select', (e) => {
+      this._selectedIndex = (e as CustomEvent<{ index: number }>).detail.index;
+      this.render();
+    });
+
+    this.$('#close-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('optimizer-close', {
+        bubbles: true,
+        composed: true,
+      }));
+    });
+
+    this.$('#apply-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('apply-weights', {
+        bubbles: true,
+        composed: true,
+        detail: { weights: this.toPercentWeights(result.frontier[this._selectedIndex], result.assetIds) },
+      }));
+    });
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Register the custom element
+customElements.define('portfolio-optimizer', PortfolioOptimizer);
@@ -3,11 +3,14 @@
  *
  * Displays actionable insights and important considerations
  * based on simulation results. Provides recommendations for
- * risk management and strategy optimization.
+ * risk management and strategy optimization, and a solve-for-target
+ * form that finds e.g. the maximum safe withdrawal.
  */
 import { BaseComponent } from '../base-component';
 import type { Insight, InsightType, Consideration, ConsiderationType } from '../../utils/insight-generator';
 import { getInsightColor } from '../../utils/insight-generator';
+import { GOAL_SEEK_PARAMETERS } from '../../simulation/goal-seek';
+import type { GoalSeekConfig, GoalSeekParameter, GoalSeekResult, GoalSeekTarget } from '../../simulation/types';
 
 // ============================================================================
 // Types
@@ -21,8 +24,21 @@ export interface RecommendationsSectionProps {
   insights: Insight[];
   /** Standard risk considerations */
   considerations: Consideration[];
+  /** Latest goal seek solution for this run */
+  goalSeek?: GoalSeekResult | null;
 }
 
+/**
+ * Targets offered by the solve-for-target form
+ */
+const GOAL_SEEK_TARGETS: { id: string; label: string; target: GoalSeekTarget }[] = [
+  { id: 'margin-10', label: '90% confidence of no margin call', target: { metric: 'marginCallProbability', max: 10 } },
+  { id: 'margin-5', label: '95% confidence of no margin call', target: { metric: 'marginCallProbability', max: 5 } },
+  { id: 'margin-1', label: '99% confidence of no margin call', target: { metric: 'marginCallProbability', max: 1 } },
+  { id: 'success-90', label: '90% success rate', target: { metric: 'successRate', min: 90 } },
+  { id: 'p10-initial', label: 'P10 net worth above initial', target: { metric: 'p10NetWorth' } },
+];
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -33,6 +49,7 @@ export interface RecommendationsSectionProps {
  * Features:
  * - Insights with colored icons based on severity
  * - Actionable recommendations with "Action:" prefix
+ * - Solve-for-target form (fires goal-seek-request)
  * - Collapsible considerations list
  * - Mobile-responsive layout
  *
@@ -47,11 +64,15 @@ export interface RecommendationsSectionProps {
  *   };
  * </script>
  * ```
+ *
+ * @fires goal-seek-request - detail: GoalSeekConfig when the user clicks Solve
  */
 export class RecommendationsSection extends BaseComponent {
   private _insights: Insight[] = [];
   private _considerations: Consideration[] = [];
   private _considerationsExpanded: boolean = true;
+  private _goalSeek: GoalSeekResult | null = null;
+  private _solving: boolean = false;
 
   /**
    * Set the full data object at once.
@@ -60,10 +81,14 @@ export class RecommendationsSection extends BaseComponent {
     if (!value) {
       this._insights = [];
       this._considerations = [];
+      this._goalSeek = null;
     } else {
       this._insights = value.insights;
       this._considerations = value.considerations;
+      this._goalSeek = value.goalSeek ?? null;
     }
+    // New data ends any pending solve (the result, or null on failure)
+    this._solving = false;
     this.updateDisplay();
   }
 
@@ -114,6 +139,30 @@ export class RecommendationsSection extends BaseComponent {
           </div>
         </div>
 
+        <div class="goal-seek-section">
+          <div class="section-header">
+            <h4>Solve for Target</h4>
+          </div>
+          <div class="goal-seek-form">
+            <label>
+              <span>Solve for</span>
+              <select id="goal-seek-parameter">
+                ${(Object.keys(GOAL_SEEK_PARAMETERS) as GoalSeekParameter[]).map(parameter => `
+                  <option value="${parameter}">${GOAL_SEEK_PARAMETERS[parameter].label}</option>
+                `).join('')}
+              </select>
+            </label>
+            <label>
+              <span>Target</span>
+              <select id="goal-seek-target">
+                ${GOAL_SEEK_TARGETS.map(t => `<option value="${t.id}">${t.label}</option>`).join('')}
+              </select>
+            </label>
+            <button class="solve-btn" id="goal-seek-btn">Solve</button>
+          </div>
+          <div class="goal-seek-result" id="goal-seek-result" aria-live="polite"></div>
+        </div>
+
         <div class="considerations-section">
           <button class="section-toggle" id="considerations-toggle" aria-expanded="true">
             <h4>Important Considerations</h4>
@@ -268,6 +317,72 @@ export class RecommendationsSection extends BaseComponent {
         font-weight: 600;
       }
 
+      /* Goal Seek Section */
+      .goal-seek-section {
+        padding: var(--spacing-lg, 24px);
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+      }
+
+      .goal-seek-form {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: flex-end;
+        gap: var(--spacing-md, 16px);
+      }
+
+      .goal-seek-form label {
+        display: flex;
+        flex-direction: column;
+        gap: var(--spacing-xs, 4px);
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #475569);
+      }
+
+      .goal-seek-form select {
+        padding: var(--spacing-sm, 8px) var(--spacing-md, 12px);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-md, 6px);
+        background: var(--surface-primary, #ffffff);
+        color: var(--text-primary, #1e293b);
+        font-size: var(--font-size-sm, 0.875rem);
+      }
+
+      .solve-btn {
+        padding: var(--spacing-sm, 8px) var(--spacing-lg, 24px);
+        background: var(--color-primary, #0d9488);
+        border: none;
+        border-radius: var(--radius-md, 6px);
+        color: white;
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 600;
+        cursor: pointer;
+      }
+
+      .solve-btn:disabled {
+        opacity: 0.6;
+        cursor: wait;
+      }
+
+      .goal-seek-result:not(:empty) {
+        margin-top: var(--spacing-md, 16px);
+        padding: var(--spacing-md, 16px);
+        background: var(--surface-secondary, #f8fafc);
+        border-radius: var(--radius-md, 6px);
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #475569);
+        line-height: 1.5;
+      }
+
+      .goal-seek-result strong {
+        color: var(--text-primary, #1e293b);
+      }
+
+      .goal-seek-meta {
+        display: block;
+        font-size: var(--font-size-xs, 0.75rem);
+        color: var(--text-tertiary, #94a3b8);
+      }
+
       /* Considerations Section */
       .considerations-section {
         padding: var(--spacing-lg, 24px);
@@ -400,6 +515,7 @@ export class RecommendationsSection extends BaseComponent {
         }
 
         .insights-section,
+        .goal-seek-section,
         .considerations-section {
           padding: var(--spacing-md, 16px);
           max-width: 100%;
@@ -496,6 +612,8 @@ export class RecommendationsSection extends BaseComponent {
       list?.classList.toggle('collapsed', !this._considerationsExpanded);
     });
 
+    this.$('#goal-seek-btn')?.addEventListener('click', () => this.requestGoalSeek());
+
     this.updateDisplay();
   }
 
@@ -504,9 +622,119 @@ export class RecommendationsSection extends BaseComponent {
    */
   private updateDisplay(): void {
     this.renderInsights();
+    this.renderGoalSeek();
     this.renderConsiderations();
   }
 
+  /**
+   * Ask the app to solve for the selected parameter and target.
+   */
+  private requestGoalSeek(): void {
+    const parameter = (this.$('#goal-seek-parameter') as HTMLSelectElement | null)?.value as GoalSeekParameter | undefined;
+    const targetId = (this.$('#goal-seek-target') as HTMLSelectElement | null)?.value;
+    const target = GOAL_SEEK_TARGETS.find(t => t.id === targetId)?.target;
+    if (!parameter || !target) return;
+
+    this._solving = true;
+    this.renderGoalSeek();
+
+    const detail: GoalSeekConfig = { parameter, target };
+    this.dispatchEvent(new CustomEvent('goal-seek-request', {
+      bubbles: true,
+      composed: true,
+      detail,
+    }));
+  }
+
+  /**
+   * Render the solve button state and latest goal seek solution.
+   */
+  private renderGoalSeek(): void {
+    const button = this.$('#goal-seek-btn') as HTMLButtonElement | null;
+    const container = this.$('#goal-seek-result') as HTMLElement | null;
+    if (button) {
+      button.disabled = this._solving;
+      button.textContent = this._solving ? 'Solving...' : 'Solve';
+    }
+    if (!container) return;
+
+    const result = this._goalSeek;
+    if (this._solving || !result) {
+      container.innerHTML = '';
+      return;
+    }
+
+    const definition = GOAL_SEEK_PARAMETERS[result.parameter];
+    const targetLabel = GOAL_SEEK_TARGETS.find(
+      t => JSON.stringify(t.target) === JSON.stringify(result.target)
+    )?.label ?? 'the target';
+    const [low, high] = result.confidenceInterval;
+    const metric = `${this.formatMetric(result, result.metricValue)} ` +
+      `(95% CI ${this.formatMetric(result, low)}-${this.formatMetric(result, high)})`;
+    const meta = `<span class="goal-seek-meta">${result.evaluations} runs on seed ${this.escapeHtml(result.seed)}</span>`;
+
+    if (result.value === null) {
+      container.innerHTML = `
+        No ${definition.label.toLowerCase()} in the search range meets <strong>${targetLabel}</strong>.
+        Closest: ${this.metricLabel(result)} ${metric}.
+        ${meta}
+      `;
+      return;
+    }
+
+    const bound = definition.direction === 'maximize' ? 'Maximum' : 'Minimum';
+    container.innerHTML = `
+      ${bound} ${definition.label.toLowerCase()} for <strong>${targetLabel}</strong>:
+      <strong>${this.formatParameter(result.parameter, result.value)}</strong>${result.bounded ? ' (the whole search range meets the target)' : ''}.
+      ${this.metricLabel(result)} at the solution: ${metric}.
+      ${meta}
+    `;
+  }
+
+  /**
+   * Name of the goal seek target metric.
+   */
+  private metricLabel(result: GoalSeekResult): string {
+    switch (result.target.metric) {
+      case 'marginCallProbability':
+        return 'Margin call risk';
+      case 'successRate':
+        return 'Success rate';
+      case 'p10NetWorth':
+        return 'P10 net worth';
+    }
+  }
+
+  /**
+   * Format a goal seek target metric value.
+   */
+  private formatMetric(result: GoalSeekResult, value: number): string {
+    return result.target.metric === 'p10NetWorth'
+      ? this.formatCurrency(value)
+      : `${value.toFixed(1)}%`;
+  }
+
+  /**
+   * Format a solved parameter value.
+   */
+  private formatParameter(parameter: GoalSeekParameter, value: number): string {
+    return parameter === 'targetLTV'
+      ? `${(value * 100).toFixed(1)}%`
+      : this.formatCurrency(value);
+  }
+
+  /**
+   * Format a dollar amount in compact notation.
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
   /**
    * Render insights list.
    */
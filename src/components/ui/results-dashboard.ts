@@ -7,15 +7,27 @@
  * - Summary statistics (median, mean, success rate, std deviation)
  */
 import { BaseComponent } from '../base-component';
-import type { SimulationOutput, YearlyPercentiles, SimulationStatistics, SimulationConfig } from '../../simulation/types';
+import type {
+  SimulationOutput,
+  YearlyPercentiles,
+  SimulationStatistics,
+  SimulationConfig,
+  MarginCallStats,
+  GoalSeekResult,
+  MetricEstimate,
+  PathTrace,
+  BacktestResult,
+} from '../../simulation/types';
 import type { ProbabilityConeData, HistogramData, HistogramBin, HeatmapData, BarChartData, LineChartData } from '../../charts/types';
 import type { BBDComparisonChartData } from '../../charts/bbd-comparison-chart';
 import type { ComparisonLineChartData } from '../../charts/comparison-line-chart';
 import type { CumulativeCostsChartData } from '../../charts/cumulative-costs-chart';
 import type { TerminalComparisonChartData } from '../../charts/terminal-comparison-chart';
 import type { SBLOCUtilizationChartData } from '../../charts/sbloc-utilization-chart';
+import type { WeightDriftChartData } from '../../charts/weight-drift-chart';
 import type { KeyMetricsData } from './key-metrics-banner';
 import type { ParamSummaryData, PortfolioAsset } from './param-summary';
+import type { PathExplorerPaths } from './path-explorer';
 import type { StrategyAnalysisProps, StrategyAnalysis } from './strategy-analysis';
 import {
   calculateCAGR,
@@ -41,6 +53,7 @@ import { calculateWithdrawals } from './yearly-analysis-table';
 import type { RecommendationsSection, RecommendationsSectionProps } from './recommendations-section';
 import { generateInsights, generateConsiderations } from '../../utils/insight-generator';
 import { getPresetData } from '../../data/services/preset-service';
+import { downloadResults, type ResultsExportFormat } from '../../data/services/results-export-service';
 import { mean, stddev } from '../../math';
 // Import chart components to register them
 import '../../charts';
@@ -63,6 +76,8 @@ import './performance-table';
 import './return-probability-table';
 // Import recommendations section
 import './recommendations-section';
+import './path-explorer';
+import './backtest-panel';
 // Import portfolio visualization card
 import './portfolio-viz-card';
 // Import FAB navigation
@@ -83,6 +98,19 @@ const PORTFOLIO_COLORS = [
   '#f97316', // orange
 ];
 
+/**
+ * Probability of the first margin call landing in each month of the year,
+ * summed across all years. Undefined for annual runs (no month timing).
+ */
+function sumMonthlyMarginCallProbability(stats: MarginCallStats[]): number[] | undefined {
+  if (!stats.some(s => s.monthlyProbability)) return undefined;
+  const byMonth = new Array(12).fill(0);
+  for (const s of stats) {
+    s.monthlyProbability?.forEach((p, month) => { byMonth[month] += p; });
+  }
+  return byMonth;
+}
+
 /**
  * Dashboard container with chart components for displaying simulation results.
  *
@@ -122,12 +150,21 @@ export class ResultsDashboard extends BaseComponent {
   /** Number of simulations run */
   private _simulationsRun: number = 10000;
 
+  /** Goal seek solution shown in recommendations */
+  private _goalSeekResult: GoalSeekResult | null = null;
+
+  /** Historical backtest of the current run */
+  private _backtestResult: BacktestResult | null = null;
+  /** Why no backtest could run */
+  private _backtestError: string | null = null;
+
   /**
    * Set simulation data and update all charts/stats.
    */
   set data(value: SimulationOutput | null) {
     this._data = value;
     this.updateCharts();
+    this.updatePathExplorer();
   }
 
   /**
@@ -195,6 +232,54 @@ export class ResultsDashboard extends BaseComponent {
     this._effectiveTaxRate = value;
   }
 
+  /**
+   * Set goal seek solution for the recommendations section.
+   */
+  set goalSeekResult(value: GoalSeekResult | null) {
+    this._goalSeekResult = value;
+    this.updateRecommendationsSection();
+  }
+
+  /**
+   * Get goal seek solution.
+   */
+  get goalSeekResult(): GoalSeekResult | null {
+    return this._goalSeekResult;
+  }
+
+  /**
+   * Set historical backtest shown next to the probability cone.
+   */
+  set backtestResult(value: BacktestResult | null) {
+    this._backtestResult = value;
+    this._backtestError = null;
+    this.updateBacktest();
+  }
+
+  /**
+   * Get historical backtest.
+   */
+  get backtestResult(): BacktestResult | null {
+    return this._backtestResult;
+  }
+
+  /**
+   * Set the reason no historical backtest could run.
+   */
+  set backtestError(value: string | null) {
+    this._backtestError = value;
+    if (value) this._backtestResult = null;
+    this.updateBacktest();
+  }
+
+  /**
+   * Set the traced iteration shown in the path explorer.
+   */
+  set pathTrace(value: PathTrace | null) {
+    const explorer = this.$('#path-explorer') as (HTMLElement & { trace: PathTrace | null }) | null;
+    if (explorer) explorer.trace = value;
+  }
+
   /**
    * Set simulation configuration for parameter summary display.
    */
@@ -236,6 +321,11 @@ export class ResultsDashboard extends BaseComponent {
           </div>
         </section>
 
+        <section class="chart-section full-width backtest-section" id="backtest-section">
+          <h3>Historical Backtest</h3>
+          <backtest-panel id="backtest-panel"></backtest-panel>
+        </section>
+
         <section class="chart-section full-width">
           <h3>Terminal Value Distribution</h3>
           <div class="chart-container">
@@ -302,6 +392,19 @@ export class ResultsDashboard extends BaseComponent {
           </div>
         </section>
 
+        <section class="chart-section full-width drift-section" id="weight-drift-section">
+          <h3>Portfolio Weight Drift</h3>
+          <div class="chart-container">
+            <weight-drift-chart id="weight-drift-chart"></weight-drift-chart>
+          </div>
+          <p class="chart-note visible" id="weight-drift-note"></p>
+        </section>
+
+        <section class="chart-section full-width explorer-section" id="path-explorer-section">
+          <h3>Path Explorer</h3>
+          <path-explorer id="path-explorer"></path-explorer>
+        </section>
+
         <section class="salary-section full-width" id="salary-equivalent-section">
           <salary-equivalent-section id="salary-equivalent"></salary-equivalent-section>
         </section>
@@ -338,6 +441,7 @@ export class ResultsDashboard extends BaseComponent {
           <div class="chart-container">
             <margin-call-chart id="margin-call-chart"></margin-call-chart>
           </div>
+          <p class="chart-note" id="margin-call-timing"></p>
         </section>
 
         <section class="chart-section sbloc-section" id="sbloc-balance-section">
@@ -419,6 +523,25 @@ export class ResultsDashboard extends BaseComponent {
         <section class="table-section full-width sbloc-section" id="sell-yearly-analysis-section">
           <sell-yearly-analysis-table id="sell-yearly-analysis-table"></sell-yearly-analysis-table>
         </section>
+
+        <section class="stats-section full-width" id="export-section">
+          <h3>Export Results</h3>
+          <div class="export-controls">
+            <label class="export-option">
+              <input type="checkbox" id="export-percentiles" />
+              Percentile bands per year
+            </label>
+            <label class="export-option">
+              <input type="checkbox" id="export-terminal-values" />
+              Every terminal value
+            </label>
+            <div class="export-buttons">
+              <button class="export-btn" data-format="csv">CSV</button>
+              <button class="export-btn" data-format="xls">Excel</button>
+              <button class="export-btn" data-format="json">JSON</button>
+            </div>
+          </div>
+        </section>
       </div>
 
       <!-- Debug Panel (development only) -->
@@ -524,7 +647,8 @@ export class ResultsDashboard extends BaseComponent {
       .chart-container correlation-heatmap,
       .chart-container bbd-comparison-chart,
       .chart-container margin-call-chart,
-      .chart-container sbloc-balance-chart {
+      .chart-container sbloc-balance-chart,
+      .chart-container weight-drift-chart {
         position: absolute;
         inset: 0;
         width: 100%;
@@ -614,6 +738,45 @@ export class ResultsDashboard extends BaseComponent {
         display: block;
       }
 
+      /* Weight drift section hidden by default (multi-asset portfolios only) */
+      .drift-section {
+        display: none;
+      }
+
+      .drift-section.visible {
+        display: block;
+      }
+
+      /* Backtest hidden until one has run (or failed) for the current run */
+      .backtest-section {
+        display: none;
+      }
+
+      .backtest-section.visible {
+        display: block;
+      }
+
+      /* Path explorer hidden until a run reports its representative paths */
+      .explorer-section {
+        display: none;
+      }
+
+      .explorer-section.visible {
+        display: block;
+      }
+
+      /* Margin call timing note (monthly runs only) */
+      .chart-note {
+        display: none;
+        margin: var(--spacing-sm, 8px) 0 0;
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #475569);
+      }
+
+      .chart-note.visible {
+        display: block;
+      }
+
       /* Salary equivalent section hidden by default (show when withdrawal > 0) */
       .salary-section {
         display: none;
@@ -1036,6 +1199,44 @@ export class ResultsDashboard extends BaseComponent {
         transform: rotate(90deg);
       }
 
+      .export-controls {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: var(--spacing-md, 16px);
+      }
+
+      .export-option {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs, 4px);
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+        cursor: pointer;
+      }
+
+      .export-buttons {
+        display: flex;
+        gap: var(--spacing-sm, 8px);
+        margin-left: auto;
+      }
+
+      .export-btn {
+        padding: var(--spacing-sm, 8px) var(--spacing-md, 16px);
+        background: var(--color-primary, #0d9488);
+        color: white;
+        border: none;
+        border-radius: var(--radius-md, 6px);
+        cursor: pointer;
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 500;
+        transition: background 0.2s ease;
+      }
+
+      .export-btn:hover {
+        background: var(--color-primary-dark, #0f766e);
+      }
+
       .debug-copy {
         padding: var(--spacing-sm, 8px) var(--spacing-md, 16px);
         margin-right: var(--spacing-sm, 8px);
@@ -1237,6 +1438,24 @@ export class ResultsDashboard extends BaseComponent {
   protected override afterRender(): void {
     // Initial state: show no-data message
     this.updateCharts();
+    this.updatePathExplorer();
+    this.updateBacktest();
+
+    // Export buttons download the current results with the chosen options
+    this.$$('.export-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        if (!this._data || !this._simulationConfig) return;
+        downloadResults(
+          this._data,
+          this._simulationConfig,
+          (button as HTMLElement).dataset.format as ResultsExportFormat,
+          {
+            includePercentiles: (this.$('#export-percentiles') as HTMLInputElement).checked,
+            includeTerminalValues: (this.$('#export-terminal-values') as HTMLInputElement).checked,
+          }
+        );
+      });
+    });
 
     // Setup debug panel toggle
     const toggle = this.$('#debug-toggle');
@@ -1342,6 +1561,9 @@ export class ResultsDashboard extends BaseComponent {
     // Update salary equivalent section (show only when withdrawal > 0)
     this.updateSalaryEquivalentSection();
 
+    // Update weight drift chart (multi-asset portfolios only)
+    this.updateWeightDrift();
+
     // Update margin call risk chart (SBLOC section)
     const marginSection = this.$('#margin-call-section');
     const marginChart = this.$('#margin-call-chart') as HTMLElement & {
@@ -1358,6 +1580,21 @@ export class ResultsDashboard extends BaseComponent {
         },
         stats.map(s => s.cumulativeProbability)
       );
+
+      // Monthly runs: note which month of the year first calls cluster in
+      const timing = this.$('#margin-call-timing');
+      const byMonth = sumMonthlyMarginCallProbability(stats);
+      if (timing) {
+        const total = byMonth ? byMonth.reduce((a, b) => a + b, 0) : 0;
+        if (byMonth && total > 0) {
+          const peak = byMonth.indexOf(Math.max(...byMonth));
+          timing.textContent = `Monthly steps: first margin calls peak in month ${peak + 1} of the year ` +
+            `(${((byMonth[peak] / total) * 100).toFixed(0)}% of first calls).`;
+          timing.classList.add('visible');
+        } else {
+          timing.classList.remove('visible');
+        }
+      }
     } else {
       marginSection?.classList.remove('visible');
     }
@@ -1429,9 +1666,12 @@ export class ResultsDashboard extends BaseComponent {
         percentilesWithYear0,
       );
 
-      // Use BBD net estate from simulation, but correct sell terminal value
+      // Use BBD net estate from simulation, but correct sell terminal value.
+      // With estate tax, both sides come from the simulation so both are after tax.
       const bbdNetEstate = this._data.estateAnalysis.bbdNetEstate;
-      const sellNetEstate = sellResult.terminalNetWorth;
+      const sellNetEstate = this._data.estateAnalysis.estateTax?.sell
+        ? this._data.estateAnalysis.sellNetEstate
+        : sellResult.terminalNetWorth;
       const bbdAdvantage = bbdNetEstate - sellNetEstate;
 
       bbdChart.setData({
@@ -1860,6 +2100,9 @@ export class ResultsDashboard extends BaseComponent {
     // for SBLOC simulations (converted in monte-carlo.ts post-processing)
     const medianTerminalNetWorth = this._data.statistics.median;
     const p10NetWorth = p10PortfolioValue;
+    const confidence = this._data.statistics.confidence;
+    const interval = (estimate?: MetricEstimate): [number, number] | undefined =>
+      estimate && [estimate.lower, estimate.upper];
 
     banner.data = {
       bbdSuccessRate: this._data.statistics.successRate,
@@ -1876,9 +2119,84 @@ export class ResultsDashboard extends BaseComponent {
       safetyBufferP10,
       mostDangerousYear,
       timeHorizon,
+      bbdSuccessRateCI: interval(confidence?.successRate),
+      medianTerminalCI: interval(confidence?.median),
+      marginCallProbabilityCI: interval(confidence?.marginCallProbability),
     };
   }
 
+  /**
+   * Update the weight drift chart with median year-end weights per asset.
+   */
+  private updateWeightDrift(): void {
+    const section = this.$('#weight-drift-section');
+    const chart = this.$('#weight-drift-chart') as HTMLElement & { data: WeightDriftChartData | null };
+    const note = this.$('#weight-drift-note');
+    const drift = this._data?.weightDrift;
+
+    if (!drift || !section || !chart) {
+      section?.classList.remove('visible');
+      return;
+    }
+
+    section.classList.add('visible');
+    chart.data = {
+      labels: drift.years.map(y => `Year ${y}`),
+      assets: drift.assetIds.map((id, a) => ({
+        label: id,
+        median: drift.p50[a].map(w => w * 100),
+        target: drift.targetWeights[a] * 100,
+        color: PORTFOLIO_COLORS[a % PORTFOLIO_COLORS.length],
+      })),
+    };
+
+    if (note) {
+      const maxDrift = Math.max(...drift.assetIds.map((_, a) =>
+        Math.max(...drift.p50[a].map(w => Math.abs(w - drift.targetWeights[a])))
+      ));
+      const medianTurnover = percentile(drift.medianTurnover, 50);
+      note.textContent = `Year-end weights before rebalancing; dashed lines are targets. ` +
+        `Largest median drift ${(maxDrift * 100).toFixed(1)} points. ` +
+        `Typical year trades ${(medianTurnover * 100).toFixed(1)}% of the portfolio ` +
+        `(${drift.meanRebalances.toFixed(1)} rebalances per path on average).`;
+    }
+  }
+
+  /**
+   * Point the path explorer at the current run's iterations.
+   * Only a new run resets it, so an open path survives other updates.
+   */
+  private updatePathExplorer(): void {
+    const section = this.$('#path-explorer-section') as HTMLElement | null;
+    const explorer = this.$('#path-explorer') as (HTMLElement & { paths: PathExplorerPaths | null }) | null;
+    const representative = this._data?.representativePaths;
+    if (!section || !explorer) return;
+
+    section.classList.toggle('visible', !!representative);
+    explorer.paths = representative && this._data
+      ? { representative, iterations: this._data.terminalValues.length }
+      : null;
+  }
+
+  /**
+   * Show the historical backtest, or why none could run.
+   */
+  private updateBacktest(): void {
+    const section = this.$('#backtest-section') as HTMLElement | null;
+    const panel = this.$('#backtest-panel') as (HTMLElement & {
+      result: BacktestResult | null;
+      error: string | null;
+    }) | null;
+    if (!section || !panel) return;
+
+    section.classList.toggle('visible', !!(this._backtestResult || this._backtestError));
+    if (this._backtestError) {
+      panel.error = this._backtestError;
+    } else {
+      panel.result = this._backtestResult;
+    }
+  }
+
   /**
    * Update parameter summary with simulation configuration and portfolio assets.
    */
@@ -1901,6 +2219,13 @@ export class ResultsDashboard extends BaseComponent {
       maxBorrowing: (config?.sbloc?.targetLTV || 0.65) * 100,
       maintenanceMargin: (config?.sbloc?.maintenanceMargin || 0.50) * 100,
       simulationsRun: config?.iterations || this._simulationsRun,
+      returnModel: config?.resamplingMethod,
+      regimeCalibration: config?.regimeCalibration,
+      blockSize: config?.blockSize,
+      fatTailParams: config?.fatTailParams,
+      seed: this._data?.seed ?? config?.seed,
+      timeStep: config?.timeStep,
+      rebalancing: config?.rebalancing,
     };
 
     // Pass portfolio assets for visualization
@@ -2062,12 +2387,22 @@ export class ResultsDashboard extends BaseComponent {
       compoundingAdvantage: Math.max(0, advantage - taxSavings),
     };
 
+    // Net to heirs after estate tax (only when the simulation applied it to both strategies)
+    const estateTax = this._data.estateAnalysis.estateTax;
+    const heirs = estateTax?.sell ? {
+      bbd: estateTax.bbd.netToHeirs,
+      sell: estateTax.sell.netToHeirs,
+      bbdEstateTax: estateTax.bbd.medianFederalTax + estateTax.bbd.medianStateTax,
+      sellEstateTax: estateTax.sell.medianFederalTax + estateTax.sell.medianStateTax,
+    } : undefined;
+
     // Set component data
     component.data = {
       bbdData,
       sellData,
       verdict,
       differential,
+      heirs,
       insights,
       simulationsRun: this._simulationConfig?.iterations ?? this._simulationsRun,
       timeHorizon,
@@ -2326,6 +2661,7 @@ export class ResultsDashboard extends BaseComponent {
 
     // Get max borrowing from config or default
     const maxBorrowing = (this._simulationConfig?.sbloc?.targetLTV || 0.65) * 100;
+    const effectiveLimit = traj.effectiveLTV?.p50.map(ltv => ltv * 100);
 
     chart.setData({
       labels: years.map(y => `Year ${y}`),
@@ -2335,6 +2671,7 @@ export class ResultsDashboard extends BaseComponent {
       p75,
       p90,
       maxBorrowing,
+      effectiveLimit,
     });
   }
 
@@ -2466,12 +2803,20 @@ export class ResultsDashboard extends BaseComponent {
     // Get cumulative taxes (skip year 0)
     const cumulativeTaxes = sellResult.cumulativeTaxes.slice(1);
 
+    // Per-asset capital gains taxes come from the Monte Carlo sell strategy
+    // and are present only when tax lots are modeled
+    const assetTaxes = this._data.sellStrategy?.byAsset?.map(a => ({
+      label: a.assetId,
+      annual: a.medianTaxes,
+    }));
+
     // Set table data
     table.data = {
       startYear,
       withdrawals,
       cumulativeTaxes,
       percentiles,
+      assetTaxes,
     };
   }
 
@@ -2539,6 +2884,7 @@ export class ResultsDashboard extends BaseComponent {
       config: this._simulationConfig,
       sblocTrajectory: this._data.sblocTrajectory,
       cagr,
+      goalSeek: this._goalSeekResult,
     });
 
     // Get margin call probability for considerations
@@ -2556,6 +2902,7 @@ export class ResultsDashboard extends BaseComponent {
     component.data = {
       insights,
       considerations,
+      goalSeek: this._goalSeekResult,
     };
   }
 
@@ -2646,9 +2993,33 @@ export class ResultsDashboard extends BaseComponent {
     lines.push(`  Annual Withdrawal:  $${(config?.sbloc?.annualWithdrawal ?? this._annualWithdrawal).toLocaleString()}`);
     lines.push(`  Withdrawal Growth:  ${((config?.sbloc?.annualWithdrawalRaise ?? 0.03) * 100).toFixed(1)}%`);
     lines.push(`  SBLOC Interest:     ${((config?.sbloc?.interestRate ?? 0.07) * 100).toFixed(2)}%`);
+    const rateModel = config?.sbloc?.rateModel;
+    const paidRate = this._data?.sblocTrajectory?.interestRate;
+    if (rateModel && paidRate) {
+      const finalYear = paidRate.p50.length - 1;
+      lines.push(`  Rate Model:         ${rateModel.process}, spread ${(rateModel.spread * 100).toFixed(2)}%` +
+        ` (final-year median ${(paidRate.p50[finalYear] * 100).toFixed(2)}%, P90 ${(paidRate.p90[finalYear] * 100).toFixed(2)}%)`);
+    }
     lines.push(`  Target LTV:         ${((config?.sbloc?.targetLTV ?? 0.65) * 100).toFixed(0)}%`);
     lines.push(`  Maint. Margin:      ${((config?.sbloc?.maintenanceMargin ?? 0.50) * 100).toFixed(0)}%`);
+    if (config?.sbloc?.ltvByAssetClass) {
+      const limits = config.sbloc.ltvByAssetClass;
+      const finalLimit = this._data?.sblocTrajectory?.effectiveLTV?.p50.at(-1);
+      lines.push(`  Collateral LTV:     equities ${(limits.equities * 100).toFixed(0)}%, bonds ${(limits.bonds * 100).toFixed(0)}%` +
+        (finalLimit !== undefined ? ` (final median limit ${(finalLimit * 100).toFixed(1)}%)` : ''));
+    }
     lines.push(`  Iterations:         ${config?.iterations?.toLocaleString() ?? 'N/A'}`);
+    lines.push(`  Random Seed:        ${this._data?.seed ?? config?.seed ?? 'N/A'}`);
+    lines.push(`  Time Step:          ${config?.timeStep === 'monthly' ? 'Monthly' : 'Annual'}`);
+    const rebalancing = config?.rebalancing;
+    lines.push(`  Rebalancing:        ${rebalancing?.strategy ?? 'annual'}` +
+      (rebalancing?.strategy === 'threshold' ? ` (±${((rebalancing.thresholdBand ?? 0.05) * 100).toFixed(1)}%)` : '') +
+      (rebalancing?.transactionCost ? `, cost ${(rebalancing.transactionCost * 100).toFixed(2)}%` : ''));
+    if (this._data?.weightDrift) {
+      lines.push(`  Rebalances / Path:  ${this._data.weightDrift.meanRebalances.toFixed(1)} (mean)`);
+    }
+    lines.push(`  Sale Order:         ${config?.liquidation?.order ?? 'pro-rata'}` +
+      (config?.liquidation?.assetId ? ` (${config.liquidation.assetId} first)` : ''));
     lines.push('');
 
     // Phase 23: Methodology Configuration
@@ -2669,6 +3040,11 @@ export class ResultsDashboard extends BaseComponent {
       lines.push(`  Calibration Mode:   ${calibMode} (survivorship bias: ${biasAmount})`);
     }
 
+    // Block bootstrap info
+    if (resamplingMethod === 'block') {
+      lines.push(`  Block Size:         ${config?.blockSize ? `${config.blockSize} years` : 'auto'}`);
+    }
+
     // Withdrawal chapters
     if (config?.withdrawalChapters?.enabled) {
       const ch = config.withdrawalChapters;
@@ -2802,6 +3178,12 @@ export class ResultsDashboard extends BaseComponent {
       if (mcStats.length > 8) {
         lines.push(`    ... (${mcStats.length - 8} more years)`);
       }
+      const byMonth = sumMonthlyMarginCallProbability(mcStats);
+      if (byMonth) {
+        lines.push('');
+        lines.push('  FIRST CALL BY MONTH OF YEAR:');
+        lines.push(`    ${byMonth.map((p, m) => `M${m + 1}: ${p.toFixed(2)}%`).join('  ')}`);
+      }
       lines.push('');
     } else {
       lines.push('▸ MARGIN CALL STATISTICS: Not available');
@@ -2814,6 +3196,19 @@ export class ResultsDashboard extends BaseComponent {
       lines.push(`  bbdNetEstate:       $${estate.bbdNetEstate.toLocaleString(undefined, {maximumFractionDigits: 0})}`);
       lines.push(`  sellNetEstate:      $${estate.sellNetEstate.toLocaleString(undefined, {maximumFractionDigits: 0})}`);
       lines.push(`  bbdAdvantage:       $${estate.bbdAdvantage.toLocaleString(undefined, {maximumFractionDigits: 0})}`);
+      if (estate.estateTax) {
+        const fmt = (n: number) => `$${n.toLocaleString(undefined, {maximumFractionDigits: 0})}`;
+        const estateTaxConfig = config?.estateTax;
+        lines.push(`  Estate Tax:         ${estateTaxConfig?.exemptionScenario ?? 'current-law'}, ` +
+          `${((estateTaxConfig?.federalRate ?? 0.40) * 100).toFixed(0)}% above ${fmt(estate.estateTax.federalExemption)}` +
+          (estateTaxConfig?.state ? `, state ${estateTaxConfig.state}` : ''));
+        const strategies = [['BBD', estate.estateTax.bbd], ['Sell', estate.estateTax.sell]] as const;
+        for (const [label, summary] of strategies) {
+          if (!summary) continue;
+          lines.push(`  ${`${label} to Heirs:`.padEnd(20)}P10 ${fmt(summary.netToHeirs.p10)}, P50 ${fmt(summary.netToHeirs.p50)}, ` +
+            `P90 ${fmt(summary.netToHeirs.p90)} (taxed in ${summary.taxableProbability.toFixed(1)}%)`);
+        }
+      }
       lines.push('');
     } else {
       lines.push('▸ ESTATE ANALYSIS: Not available');
@@ -2875,6 +3270,17 @@ export class ResultsDashboard extends BaseComponent {
       lines.push(`    Mean:            $${ds.finalGrossPortfolio.mean.toLocaleString(undefined, {maximumFractionDigits: 0})}`);
       lines.push('');
 
+      // Forced-sale gains by asset (tax lots)
+      if (ds.liquidationGainsByAsset && ds.liquidationGainsByAsset.length > 0) {
+        lines.push(`  FORCED-SALE GAINS BY ASSET (order: ${ds.liquidationOrder ?? 'pro-rata'}):`);
+        for (const asset of ds.liquidationGainsByAsset) {
+          lines.push(`    ${asset.assetId}: gains median=$${asset.realizedGains.median.toLocaleString(undefined, {maximumFractionDigits: 0})}` +
+            `, tax median=$${asset.capitalGainsTax.median.toLocaleString(undefined, {maximumFractionDigits: 0})}` +
+            ` (mean $${asset.capitalGainsTax.mean.toLocaleString(undefined, {maximumFractionDigits: 0})})`);
+        }
+        lines.push('');
+      }
+
       // Portfolio returns analysis
       if (ds.portfolioReturns) {
         lines.push('  PORTFOLIO RETURNS (cumulative over 15 years):');
@@ -0,0 +1,261 @@
+/**
+ * Run history component for browsing saved simulation runs.
+ *
+ * Lists completed runs, newest first, with open/rename/tag/delete actions.
+ * Opening a run is left to the parent, which shows its stored results
+ * without re-simulating.
+ *
+ * @element run-history
+ * @fires open-simulation-run - Dispatched when user clicks open button
+ */
+
+import { BaseComponent } from '../base-component';
+import {
+  loadSimulationRuns,
+  renameSimulationRun,
+  setSimulationRunTags,
+  deleteSimulationRun,
+} from '../../data/services/simulation-run-service';
+import type { SimulationRunSummary } from '../../data/schemas/simulation-run';
+
+export class RunHistory extends BaseComponent {
+  private _runs: SimulationRunSummary[] = [];
+
+  override async connectedCallback(): Promise<void> {
+    super.connectedCallback();
+    await this.refresh();
+  }
+
+  /**
+   * Refresh the run list from IndexedDB.
+   */
+  async refresh(): Promise<void> {
+    this._runs = await loadSimulationRuns();
+    this.renderList();
+  }
+
+  protected template(): string {
+    return `
+      <div class="run-list" id="list">
+        <p class="empty-message">No saved runs</p>
+      </div>
+    `;
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      .run-list {
+        display: flex;
+        flex-direction: column;
+        gap: var(--spacing-sm, 8px);
+        max-height: 360px;
+        overflow-y: auto;
+      }
+
+      .empty-message {
+        color: var(--text-tertiary, #94a3b8);
+        font-size: var(--font-size-sm, 0.875rem);
+        text-align: center;
+        padding: var(--spacing-md, 16px);
+        margin: 0;
+      }
+
+      .run-item {
+        display: flex;
+        flex-direction: column;
+        gap: var(--spacing-xs, 4px);
+        padding: var(--spacing-sm, 8px) var(--spacing-md, 16px);
+        background: var(--surface-secondary, #f8fafc);
+        border-radius: var(--radius-md, 6px);
+        transition: background 0.2s;
+      }
+
+      .run-item:hover {
+        background: var(--surface-tertiary, #f1f5f9);
+      }
+
+      .run-name {
+        font-weight: 500;
+        color: var(--text-primary, #1e293b);
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+
+      .run-meta {
+        font-size: var(--font-size-xs, 0.75rem);
+        color: var(--text-tertiary, #94a3b8);
+      }
+
+      .run-tags {
+        display: flex;
+        flex-wrap: wrap;
+        gap: var(--spacing-xs, 4px);
+      }
+
+      .run-tag {
+        padding: 0 var(--spacing-xs, 4px);
+        background: var(--surface-primary, #ffffff);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-sm, 4px);
+        font-size: var(--font-size-xs, 0.75rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .run-actions {
+        display: flex;
+        gap: var(--spacing-xs, 4px);
+      }
+
+      .run-actions button {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-sm, 4px);
+        font-size: var(--font-size-xs, 0.75rem);
+        font-family: inherit;
+        cursor: pointer;
+        transition: background 0.2s, border-color 0.2s;
+        background: var(--surface-primary, #ffffff);
+        color: var(--text-primary, #1e293b);
+      }
+
+      .run-actions button:hover {
+        border-color: var(--color-primary, #0d9488);
+      }
+
+      .run-actions .btn-open:hover {
+        background: var(--color-primary, #0d9488);
+        color: var(--text-inverse, #ffffff);
+      }
+
+      .run-actions .btn-delete {
+        color: var(--color-error, #dc2626);
+        border-color: var(--color-error-light, #fecaca);
+      }
+
+      .run-actions .btn-delete:hover {
+        background: var(--color-error, #dc2626);
+        color: var(--text-inverse, #ffffff);
+        border-color: var(--color-error, #dc2626);
+      }
+
+      .run-actions button:focus-visible {
+        outline: 2px solid var(--color-primary, #0d9488);
+        outline-offset: 2px;
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    const list = this.$('#list');
+    list?.addEventListener('click', async (e) => {
+      const target = e.target as HTMLElement;
+      const id = parseInt(target.dataset.id || '', 10);
+      if (isNaN(id)) return;
+      const run = this._runs.find(r => r.id === id);
+
+      if (target.classList.contains('btn-open')) {
+        this.dispatchEvent(new CustomEvent('open-simulation-run', {
+          detail: { id },
+          bubbles: true,
+          composed: true
+        }));
+      }
+
+      if (target.classList.contains('btn-rename') && run) {
+        const name = prompt('Run name', run.name);
+        if (name !== null && name.trim()) {
+          await renameSimulationRun(id, name);
+          await this.refresh();
+        }
+      }
+
+      if (target.classList.contains('btn-tags') && run) {
+        const tags = prompt('Tags (comma-separated)', run.tags.join(', '));
+        if (tags !== null) {
+          await setSimulationRunTags(id, tags.split(','));
+          await this.refresh();
+        }
+      }
+
+      if (target.classList.contains('btn-delete')) {
+        if (confirm('Delete this run?')) {
+          await deleteSimulationRun(id);
+          await this.refresh();
+        }
+      }
+    });
+  }
+
+  /**
+   * Render the run list from current data.
+   */
+  private renderList(): void {
+    const list = this.$('#list') as HTMLElement;
+    if (!list) return;
+
+    if (this._runs.length === 0) {
+      list.innerHTML = '<p class="empty-message">No saved runs</p>';
+      return;
+    }
+
+    list.innerHTML = this._runs.map(r => `
+      <div class="run-item" data-id="${r.id}">
+        <span class="run-name">${this.escapeHtml(r.name)}</span>
+        <span class="run-meta">
+          ${this.formatDate(r.createdAt)} · ${r.iterations.toLocaleString()} iterations ·
+          median ${this.formatCurrency(r.statistics.median)} · ${r.statistics.successRate.toFixed(1)}% success
+        </span>
+        ${r.tags.length > 0 ? `
+          <div class="run-tags">
+            ${r.tags.map(tag => `<span class="run-tag">${this.escapeHtml(tag)}</span>`).join('')}
+          </div>
+        ` : ''}
+        <div class="run-actions">
+          <button class="btn-open" data-id="${r.id}">Open</button>
+          <button class="btn-rename" data-id="${r.id}">Rename</button>
+          <button class="btn-tags" data-id="${r.id}">Tags</button>
+          <button class="btn-delete" data-id="${r.id}">Delete</button>
+        </div>
+      </div>
+    `).join('');
+  }
+
+  /**
+   * Escape HTML to prevent XSS.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  /**
+   * Format a dollar amount in compact notation
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  /**
+   * Format ISO date string to date and time.
+   */
+  private formatDate(isoString: string): string {
+    const date = new Date(isoString);
+    return isNaN(date.getTime())
+      ? 'Unknown'
+      : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  }
+}
+
+// Register the custom element
+customElements.define('run-history', RunHistory);
@@ -0,0 +1,394 @@
+/**
+ * Scenario Comparison Component
+ *
+ * N-way comparison of pinned scenarios: overlaid probability cones and a
+ * metrics matrix with each scenario's delta against the chosen baseline.
+ */
+
+import { BaseComponent } from '../base-component';
+import { computeScenarioMatrix, type ScenarioMetricRow } from '../../utils/delta-calculations';
+import { SCENARIO_COLORS, type ScenarioConeData } from '../../charts/scenario-cone-chart';
+import type { DeltaMetrics } from '../../utils/delta-calculations';
+import type { ScenarioRecord } from '../../data/schemas/scenario';
+
+// Import chart to register it
+import '../../charts/scenario-cone-chart';
+
+/**
+ * Scenario Comparison - overlaid cones and metrics matrix for pinned runs
+ *
+ * Usage:
+ * ```html
+ * <scenario-comparison></scenario-comparison>
+ * ```
+ *
+ * Properties:
+ * - scenarios: ScenarioRecord[] (one flagged isBaseline)
+ *
+ * @fires scenario-baseline-select - detail: { id } when a new baseline is chosen
+ * @fires scenario-unpin - detail: { id } when a scenario is removed
+ * @fires exit-scenario-comparison - when the user leaves the comparison
+ */
+export class ScenarioComparison extends BaseComponent {
+  private _scenarios: ScenarioRecord[] = [];
+
+  /**
+   * Set pinned scenarios
+   */
+  set scenarios(value: ScenarioRecord[]) {
+    this._scenarios = value;
+    this.render();
+  }
+
+  /**
+   * Get pinned scenarios
+   */
+  get scenarios(): ScenarioRecord[] {
+    return this._scenarios;
+  }
+
+  /**
+   * Index of the baseline scenario (first scenario if none is flagged)
+   */
+  private get baselineIndex(): number {
+    return Math.max(0, this._scenarios.findIndex(s => s.isBaseline));
+  }
+
+  protected template(): string {
+    const count = this._scenarios.length;
+    const rows = computeScenarioMatrix(
+      this._scenarios.map(s => s.result),
+      this.baselineIndex
+    );
+
+    return `
+      <div class="scenario-container">
+        <div class="scenario-header">
+          <h2>Comparing ${count} Scenarios</h2>
+          <button class="exit-btn" id="exit-btn">Exit Comparison</button>
+        </div>
+
+        <div class="chart-card">
+          <h3>Probability Cones (P10-P90)</h3>
+          <scenario-cone-chart id="scenario-cones"></scenario-cone-chart>
+        </div>
+
+        <div class="matrix-card">
+          <h3>Metrics vs Baseline</h3>
+          <div class="matrix-scroll">
+            <table class="scenario-matrix">
+              <thead>
+                <tr>
+                  <th scope="col">Metric</th>
+                  ${this._scenarios.map((s, i) => this.scenarioHeaderTemplate(s, i)).join('')}
+                </tr>
+              </thead>
+              <tbody>
+                ${rows.map(row => this.rowTemplate(row)).join('')}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Column header with scenario name, baseline selector and unpin button
+   */
+  private scenarioHeaderTemplate(scenario: ScenarioRecord, index: number): string {
+    const color = SCENARIO_COLORS[index % SCENARIO_COLORS.length];
+    const isBaseline = index === this.baselineIndex;
+    return `
+      <th scope="col" class="${isBaseline ? 'baseline' : ''}">
+        <div class="scenario-name" style="border-color: ${color}">
+          ${this.escapeHtml(scenario.name)}
+        </div>
+        <div class="scenario-actions">
+          ${isBaseline
+            ? '<span class="baseline-badge">Baseline</span>'
+            : `<button class="link-btn" data-action="baseline" data-id="${scenario.id}">Set baseline</button>`}
+          <button class="link-btn unpin" data-action="unpin" data-id="${scenario.id}"
+            aria-label="Unpin ${this.escapeHtml(scenario.name)}">Unpin</button>
+        </div>
+      </th>
+    `;
+  }
+
+  /**
+   * Matrix row: one metric across all scenarios
+   */
+  private rowTemplate(row: ScenarioMetricRow): string {
+    const cells = row.values.map((value, index) => {
+      if (value === null) {
+        return '<td class="na">N/A</td>';
+      }
+      const delta = row.deltas[index];
+      return `
+        <td>
+          <span class="value">${this.formatValue(value, row.format)}</span>
+          ${delta ? this.deltaTemplate(delta, row) : ''}
+        </td>
+      `;
+    });
+
+    return `
+      <tr>
+        <th scope="row">${row.label}</th>
+        ${cells.join('')}
+      </tr>
+    `;
+  }
+
+  /**
+   * Delta against the baseline, colored by whether the change is favorable
+   */
+  private deltaTemplate(delta: DeltaMetrics, row: ScenarioMetricRow): string {
+    if (delta.direction === 'neutral') {
+      return '<span class="delta neutral">no change</span>';
+    }
+    const improved = (delta.direction === 'up') === row.higherIsBetter;
+    const sign = delta.absolute > 0 ? '+' : '';
+    const amount = row.format === 'percent'
+      ? `${sign}${delta.absolute.toFixed(1)} pts`
+      : `${sign}${this.formatValue(delta.absolute, 'currency')} (${sign}${delta.percentChange.toFixed(1)}%)`;
+    return `<span class="delta ${improved ? 'better' : 'worse'}">${amount}</span>`;
+  }
+
+  /**
+   * Format a matrix value
+   */
+  private formatValue(value: number, format: 'currency' | 'percent'): string {
+    if (format === 'percent') {
+      return `${value.toFixed(1)}%`;
+    }
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  /**
+   * Build overlaid cone data from each scenario's yearly percentiles
+   */
+  private buildConeData(): ScenarioConeData {
+    const baselineIndex = this.baselineIndex;
+    const longest = this._scenarios.reduce(
+      (max, s) => Math.max(max, s.result.yearlyPercentiles.length),
+      0
+    );
+
+    return {
+      years: Array.from({ length: longest }, (_, year) => year),
+      scenarios: this._scenarios.map((s, index) => ({
+        label: s.name,
+        p10: s.result.yearlyPercentiles.map(p => p.p10),
+        p50: s.result.yearlyPercentiles.map(p => p.p50),
+        p90: s.result.yearlyPercentiles.map(p => p.p90),
+        isBaseline: index === baselineIndex,
+      })),
+    };
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      *, *::before, *::after {
+        box-sizing: border-box;
+      }
+
+      .scenario-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-bottom: var(--spacing-lg, 24px);
+        padding-bottom: var(--spacing-md, 16px);
+        border-bottom: 2px solid var(--color-primary, #0d9488);
+      }
+
+      .scenario-header h2 {
+        margin: 0;
+        font-size: var(--font-size-xl, 1.25rem);
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
+      .exit-btn {
+        padding: var(--spacing-sm, 8px) var(--spacing-md, 16px);
+        background: transparent;
+        border: 2px solid var(--color-primary, #0d9488);
+        border-radius: var(--radius-md, 6px);
+        color: var(--color-primary, #0d9488);
+        font-size: var(--font-size-sm, 0.875rem);
+        font-weight: 600;
+        cursor: pointer;
+        transition: all 0.2s ease;
+      }
+
+      .exit-btn:hover {
+        background: var(--color-primary, #0d9488);
+        color: white;
+      }
+
+      .chart-card,
+      .matrix-card {
+        margin-bottom: var(--spacing-lg, 24px);
+        padding: var(--spacing-md, 16px);
+        background: var(--surface-primary, #ffffff);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-lg, 8px);
+      }
+
+      .chart-card h3,
+      .matrix-card h3 {
+        margin: 0 0 var(--spacing-md, 16px) 0;
+        font-size: var(--font-size-lg, 1.125rem);
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
+      scenario-cone-chart {
+        height: 400px;
+      }
+
+      .matrix-scroll {
+        overflow-x: auto;
+      }
+
+      .scenario-matrix {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: var(--font-size-sm, 0.875rem);
+      }
+
+      .scenario-matrix th,
+      .scenario-matrix td {
+        padding: var(--spacing-sm, 8px);
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+        text-align: right;
+        vertical-align: top;
+        white-space: nowrap;
+      }
+
+      .scenario-matrix th[scope="row"],
+      .scenario-matrix thead th:first-child {
+        text-align: left;
+        color: var(--text-secondary, #475569);
+        font-weight: 500;
+      }
+
+      .scenario-matrix thead th.baseline {
+        background: var(--surface-secondary, #f8fafc);
+      }
+
+      .scenario-name {
+        padding-left: var(--spacing-xs, 4px);
+        border-left: 4px solid;
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+        text-align: left;
+      }
+
+      .scenario-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: var(--spacing-sm, 8px);
+        margin-top: var(--spacing-xs, 4px);
+      }
+
+      .baseline-badge {
+        font-size: 0.75rem;
+        font-weight: 600;
+        color: var(--color-primary, #0d9488);
+        text-transform: uppercase;
+        letter-spacing: 0.05em;
+      }
+
+      .link-btn {
+        padding: 0;
+        background: none;
+        border: none;
+        color: var(--color-primary, #0d9488);
+        font-size: 0.75rem;
+        cursor: pointer;
+      }
+
+      .link-btn.unpin {
+        color: var(--text-secondary, #64748b);
+      }
+
+      .link-btn:hover {
+        text-decoration: underline;
+      }
+
+      .value {
+        display: block;
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
+      .delta {
+        display: block;
+        font-size: 0.75rem;
+      }
+
+      .delta.better {
+        color: var(--color-success, #10b981);
+      }
+
+      .delta.worse {
+        color: var(--color-danger, #ef4444);
+      }
+
+      .delta.neutral,
+      .na {
+        color: var(--text-tertiary, #94a3b8);
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    const chart = this.$('#scenario-cones') as HTMLElement & { data: ScenarioConeData | null };
+    if (chart && this._scenarios.length > 0) {
+      chart.data = this.buildConeData();
+    }
+
+    this.$('#exit-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('exit-scenario-comparison', {
+        bubbles: true,
+        composed: true,
+      }));
+    });
+
+    (this.$$('.link-btn') as NodeListOf<HTMLButtonElement>).forEach(button => {
+      button.addEventListener('click', () => {
+        const id = Number(button.dataset.id);
+        const event = button.dataset.action === 'baseline'
+          ? 'scenario-baseline-select'
+          : 'scenario-unpin';
+        this.dispatchEvent(new CustomEvent(event, {
+          bubbles: true,
+          composed: true,
+          detail: { id },
+        }));
+      });
+    });
+  }
+
+  /**
+   * Escape HTML to prevent XSS in scenario names
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Register the custom element
+customElements.define('scenario-comparison', ScenarioComparison);
@@ -4,6 +4,7 @@
  * Displays detailed year-by-year breakdown for Sell strategy:
  * - Annual and cumulative withdrawals
  * - Cumulative taxes paid (capital gains + dividends)
+ * - Optional median capital gains tax per asset (when tax lots are modeled)
  * - Net worth percentiles (P10, P25, P50, P75, P90)
  * - Color-coded values (green positive, red negative)
  *
@@ -40,6 +41,16 @@ export interface SellWithdrawalData {
   cumulative: number[];
 }
 
+/**
+ * Median annual capital gains tax realized on one asset
+ */
+export interface SellAssetTaxData {
+  /** Asset label (e.g., ticker) */
+  label: string;
+  /** Median capital gains tax on this asset's sales for each year */
+  annual: number[];
+}
+
 /**
  * Props for the SellYearlyAnalysisTable component
  */
@@ -52,6 +63,8 @@ export interface SellYearlyAnalysisTableProps {
   cumulativeTaxes: number[];
   /** Yearly percentile data */
   percentiles: SellYearlyPercentileData[];
+  /** Per-asset capital gains tax columns (omitted = cumulative total only) */
+  assetTaxes?: SellAssetTaxData[];
 }
 
 /**
@@ -106,13 +119,13 @@ export class SellYearlyAnalysisTable extends BaseComponent {
                 <tr>
                   <th rowspan="2" class="sticky-col">Year</th>
                   <th colspan="2" class="withdrawal-header">Withdrawals</th>
-                  <th class="tax-header">Taxes</th>
+                  <th class="tax-header" id="tax-header">Taxes</th>
                   <th colspan="5" class="percentile-header">Portfolio Value by Percentile</th>
                 </tr>
                 <tr>
                   <th>Annual</th>
                   <th>Cumulative</th>
-                  <th class="tax-col-header">Cumulative</th>
+                  <th class="tax-col-header" id="tax-col-header">Cumulative</th>
                   <th class="p10">10th %ile</th>
                   <th class="p25">25th %ile</th>
                   <th class="p50">50th %ile</th>
@@ -447,6 +460,21 @@ export class SellYearlyAnalysisTable extends BaseComponent {
     return '';
   }
 
+  /**
+   * Show one annual tax column per asset under the Taxes header.
+   */
+  private updateAssetTaxHeaders(assetTaxes: SellAssetTaxData[]): void {
+    const taxHeader = this.$('#tax-header') as HTMLTableCellElement | null;
+    const cumulativeHeader = this.$('#tax-col-header');
+    if (!taxHeader || !cumulativeHeader) return;
+
+    this.$$('.asset-tax-header').forEach(th => th.remove());
+    taxHeader.colSpan = 1 + assetTaxes.length;
+    cumulativeHeader.insertAdjacentHTML('afterend', assetTaxes
+      .map(a => `<th class="tax-col-header asset-tax-header">${a.label}</th>`)
+      .join(''));
+  }
+
   /**
    * Update table with current data.
    */
@@ -454,10 +482,13 @@ export class SellYearlyAnalysisTable extends BaseComponent {
     const tableBody = this.$('#table-body') as HTMLTableSectionElement | null;
     if (!tableBody) return;
 
+    const assetTaxes = this._data?.assetTaxes ?? [];
+    this.updateAssetTaxHeaders(assetTaxes);
+
     if (!this._data || this._data.percentiles.length === 0) {
       tableBody.innerHTML = `
         <tr>
-          <td colspan="9" class="empty-state">No data available</td>
+          <td colspan="${9 + assetTaxes.length}" class="empty-state">No data available</td>
         </tr>
       `;
       return;
@@ -478,6 +509,7 @@ export class SellYearlyAnalysisTable extends BaseComponent {
           <td class="withdrawal-col">${this.formatCurrency(annualWithdrawal)}</td>
           <td class="withdrawal-col">${this.formatCurrency(cumulativeWithdrawal)}</td>
           <td class="tax-col">${this.formatCurrency(cumulativeTax)}</td>
+          ${assetTaxes.map(a => `<td class="tax-col">${this.formatCurrency(a.annual[index] || 0)}</td>`).join('')}
           <td class="${this.getValueClass(p.p10)}">${this.formatCurrency(p.p10)}</td>
           <td class="${this.getValueClass(p.p25)}">${this.formatCurrency(p.p25)}</td>
           <td class="median-col ${this.getValueClass(p.p50)}">${this.formatCurrency(p.p50)}</td>
@@ -8,10 +8,13 @@
 import { BaseComponent } from '../base-component';
 import {
   getSettings,
+  saveSettings,
   setApiKey,
   clearApiKey,
   setCorsConfig
 } from '../../data/services/settings-service';
+import { API_SOURCE_LABELS } from '../../data/services/live-data-service';
+import { YAHOO_DISCLAIMER } from '../../data/api/yahoo-api';
 import type { ApiSource } from '../../data/schemas/market-data';
 import type { CorsProxyType } from '../../data/schemas/settings';
 import './theme-toggle';
@@ -52,6 +55,18 @@ const API_PROVIDERS: Array<{
   }
 ];
 
+/**
+ * Data source options for fetching non-bundled tickers
+ * (every keyed provider, plus the keyless Yahoo fallback)
+ */
+const DATA_SOURCE_OPTIONS: Array<{
+  source: ApiSource;
+  description: string;
+}> = [
+  ...API_PROVIDERS.map(p => ({ source: p.source, description: 'Requires API key above' })),
+  { source: 'yahoo', description: `No key needed. ${YAHOO_DISCLAIMER}` }
+];
+
 /**
  * CORS proxy options for settings UI
  */
@@ -115,6 +130,16 @@ export class SettingsPanel extends BaseComponent {
       </div>
     `).join('');
 
+    const sourceOptions = DATA_SOURCE_OPTIONS.map(o => `
+      <label class="radio-option">
+        <input type="radio" name="preferred-source" value="${o.source}" />
+        <span>
+          <span class="option-name">${API_SOURCE_LABELS[o.source]}</span>
+          <span class="option-desc">${o.description}</span>
+        </span>
+      </label>
+    `).join('');
+
     const corsOptions = CORS_PROXY_OPTIONS.map(o => `
       <label class="radio-option">
         <input type="radio" name="cors-proxy" value="${o.type}" />
@@ -144,6 +169,14 @@ export class SettingsPanel extends BaseComponent {
             ${apiInputs}
           </section>
 
+          <section class="data-source-section">
+            <h3>Market Data Source</h3>
+            <p class="section-info">Provider used when you fetch a ticker that is not bundled.</p>
+            <div class="cors-options">
+              ${sourceOptions}
+            </div>
+          </section>
+
           <section class="cors-section">
             <h3>CORS Proxy</h3>
             <p class="section-info">Required for fetching data from external APIs in browser.</p>
@@ -513,6 +546,10 @@ export class SettingsPanel extends BaseComponent {
       }
     }
 
+    // Set preferred data source radio
+    const sourceRadio = this.$(`input[name="preferred-source"][value="${settings.preferredSource}"]`) as HTMLInputElement;
+    if (sourceRadio) sourceRadio.checked = true;
+
     // Set CORS proxy radio
     const proxyRadio = this.$(`input[name="cors-proxy"][value="${settings.corsProxyType}"]`) as HTMLInputElement;
     if (proxyRadio) proxyRadio.checked = true;
@@ -599,6 +636,12 @@ export class SettingsPanel extends BaseComponent {
       }
     }
 
+    // Save preferred data source
+    const selectedSource = (this.$('input[name="preferred-source"]:checked') as HTMLInputElement)?.value as ApiSource | undefined;
+    if (selectedSource) {
+      await saveSettings({ preferredSource: selectedSource });
+    }
+
     // Save CORS config
     const selectedProxy = (this.$('input[name="cors-proxy"]:checked') as HTMLInputElement)?.value as CorsProxyType;
     const customUrl = (this.$('#cors-custom-url') as HTMLInputElement)?.value;
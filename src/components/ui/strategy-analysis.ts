@@ -6,6 +6,7 @@
  * - Verdict banner (BBD Recommended or Consider Sell Assets)
  * - Side-by-side comparison cards
  * - Wealth differential metrics
+ * - Net to heirs after estate tax (when estate tax is modeled)
  * - Strategy insights
  *
  * @module components/ui/strategy-analysis
@@ -77,6 +78,29 @@ export interface WealthDifferential {
   estateValue: number;
 }
 
+/**
+ * Percentiles of the estate left to heirs
+ */
+export interface HeirsPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * Estate left to heirs after estate and inheritance tax
+ */
+export interface NetToHeirs {
+  /** BBD strategy net to heirs */
+  bbd: HeirsPercentiles;
+  /** Sell strategy net to heirs */
+  sell: HeirsPercentiles;
+  /** Median estate and inheritance tax under BBD */
+  bbdEstateTax: number;
+  /** Median estate and inheritance tax under Sell */
+  sellEstateTax: number;
+}
+
 /**
  * Strategy insights for explanation section
  */
@@ -103,6 +127,8 @@ export interface StrategyAnalysisProps {
   verdict: StrategyVerdict;
   /** Wealth differential metrics */
   differential: WealthDifferential;
+  /** Net to heirs after estate tax (omitted when estate tax is not modeled) */
+  heirs?: NetToHeirs;
   /** Strategy insights */
   insights: StrategyInsights;
   /** Number of simulations run */
@@ -280,6 +306,38 @@ export class StrategyAnalysis extends BaseComponent {
           </div>
         </div>
 
+        <!-- Net to Heirs -->
+        <div class="heirs-section" id="heirs-section">
+          <h4 class="section-title">Net to Heirs (After Estate Tax)</h4>
+          <table class="heirs-table">
+            <thead>
+              <tr>
+                <th>Strategy</th>
+                <th>P10</th>
+                <th>Median</th>
+                <th>P90</th>
+                <th>Median Estate Tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>BBD</td>
+                <td id="heirs-bbd-p10">-</td>
+                <td id="heirs-bbd-p50">-</td>
+                <td id="heirs-bbd-p90">-</td>
+                <td id="heirs-bbd-tax">-</td>
+              </tr>
+              <tr>
+                <td>Sell Assets</td>
+                <td id="heirs-sell-p10">-</td>
+                <td id="heirs-sell-p50">-</td>
+                <td id="heirs-sell-p90">-</td>
+                <td id="heirs-sell-tax">-</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
         <!-- Why Strategy Performs Well -->
         <div class="insights-section" id="insights-section">
           <h4 class="section-title">Why <span id="winning-strategy">BBD</span> Performs Well</h4>
@@ -616,6 +674,45 @@ export class StrategyAnalysis extends BaseComponent {
         color: var(--color-error, #ef4444);
       }
 
+      /* Net to Heirs Section */
+      .heirs-section {
+        display: none;
+        margin-bottom: var(--spacing-lg, 24px);
+      }
+
+      .heirs-section.visible {
+        display: block;
+      }
+
+      .heirs-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: var(--font-size-sm, 0.875rem);
+      }
+
+      .heirs-table th,
+      .heirs-table td {
+        padding: var(--spacing-sm, 8px);
+        text-align: right;
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+      }
+
+      .heirs-table th:first-child,
+      .heirs-table td:first-child {
+        text-align: left;
+      }
+
+      .heirs-table th {
+        font-size: var(--font-size-xs, 0.75rem);
+        font-weight: 600;
+        color: var(--text-secondary, #475569);
+      }
+
+      .heirs-table td {
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
       /* Insights Section */
       .insights-section {
         background: var(--surface-secondary, #f8fafc);
@@ -861,6 +958,7 @@ export class StrategyAnalysis extends BaseComponent {
       sellData,
       verdict,
       differential,
+      heirs,
       insights,
       simulationsRun,
       timeHorizon,
@@ -942,6 +1040,27 @@ export class StrategyAnalysis extends BaseComponent {
     if (diffTaxSavings) diffTaxSavings.textContent = formatCurrency(differential.taxSavings);
     if (diffEstate) diffEstate.textContent = formatCurrency(differential.estateValue);
 
+    // Update net to heirs
+    this.$('#heirs-section')?.classList.toggle('visible', heirs !== undefined);
+    if (heirs) {
+      const rows: Array<[string, HeirsPercentiles, number]> = [
+        ['bbd', heirs.bbd, heirs.bbdEstateTax],
+        ['sell', heirs.sell, heirs.sellEstateTax],
+      ];
+      for (const [strategy, values, estateTax] of rows) {
+        const cells: Record<string, number> = {
+          p10: values.p10,
+          p50: values.p50,
+          p90: values.p90,
+          tax: estateTax,
+        };
+        for (const [column, value] of Object.entries(cells)) {
+          const cell = this.$(`#heirs-${strategy}-${column}`);
+          if (cell) cell.textContent = formatCurrency(value);
+        }
+      }
+    }
+
     // Update insights
     const winningStrategy = this.$('#winning-strategy');
     const insightQuote = this.$('#insight-quote');
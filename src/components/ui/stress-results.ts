@@ -0,0 +1,285 @@
+/**
+ * Stress Test Results Component
+ *
+ * Compares BBD with selling under each replayed historical crisis, next to
+ * the unstressed baseline, and lists crises the portfolio's history could
+ * not cover.
+ */
+
+import { BaseComponent } from '../base-component';
+import type { StressComparison, StressOutcome, StressTestResult } from '../../simulation/types';
+
+/**
+ * Stress Test Results - BBD vs Sell per historical crisis
+ *
+ * Usage:
+ * ```html
+ * <stress-results></stress-results>
+ * ```
+ *
+ * Properties:
+ * - result: StressTestResult | null
+ *
+ * @fires stress-close - when the user dismisses the results
+ */
+export class StressResults extends BaseComponent {
+  private _result: StressTestResult | null = null;
+
+  /**
+   * Set stress test result
+   */
+  set result(value: StressTestResult | null) {
+    this._result = value;
+    this.render();
+  }
+
+  /**
+   * Get stress test result
+   */
+  get result(): StressTestResult | null {
+    return this._result;
+  }
+
+  protected template(): string {
+    const result = this._result;
+    if (!result) return '';
+    const hasSell = !!result.baseline.sell;
+
+    return `
+      <div class="stress-card">
+        <div class="stress-header">
+          <div>
+            <h3>Historical Stress Test</h3>
+            <span class="stress-meta">
+              ${result.mode === 'rolling' ? 'Rolling historical windows' : 'Crisis years first, then resampled'},
+              ${result.iterations.toLocaleString()} iterations each, shared seed ${this.escapeHtml(result.seed)}
+            </span>
+          </div>
+          <button class="close-btn" id="close-btn" aria-label="Close stress test results">&times;</button>
+        </div>
+
+        <table class="stress-table">
+          <thead>
+            <tr>
+              <th scope="col" rowspan="2">Scenario</th>
+              <th scope="colgroup" colspan="4">Buy-Borrow-Die</th>
+              ${hasSell ? '<th scope="colgroup" colspan="4">Sell Assets</th>' : ''}
+            </tr>
+            <tr>
+              ${this.outcomeHeaders('Margin Call')}
+              ${hasSell ? this.outcomeHeaders('Depleted') : ''}
+            </tr>
+          </thead>
+          <tbody>
+            ${this.scenarioRow('Baseline (no replay)', '', result.baseline, hasSell)}
+            ${result.scenarios.map(s => this.scenarioRow(
+              s.crisis.name,
+              this.formatYears(s.replayedYears),
+              s,
+              hasSell
+            )).join('')}
+          </tbody>
+        </table>
+
+        ${result.skipped.length > 0 ? `
+          <p class="stress-note">
+            Skipped: ${result.skipped.map(s => `${this.escapeHtml(s.crisis.name)} (${this.escapeHtml(s.reason)})`).join('; ')}.
+          </p>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Column headers of one strategy
+   */
+  private outcomeHeaders(failureLabel: string): string {
+    return `
+      <th scope="col">Median</th>
+      <th scope="col">P10</th>
+      <th scope="col">Success</th>
+      <th scope="col">${failureLabel}</th>
+    `;
+  }
+
+  /**
+   * Table row of one scenario
+   */
+  private scenarioRow(name: string, years: string, comparison: StressComparison, hasSell: boolean): string {
+    return `
+      <tr class="${years ? '' : 'baseline-row'}">
+        <th scope="row">
+          ${this.escapeHtml(name)}
+          ${years ? `<span class="years">${years}</span>` : ''}
+        </th>
+        ${this.outcomeCells(comparison.bbd)}
+        ${hasSell ? (comparison.sell ? this.outcomeCells(comparison.sell) : '<td colspan="4"></td>') : ''}
+      </tr>
+    `;
+  }
+
+  /**
+   * Cells of one strategy's outcome
+   */
+  private outcomeCells(outcome: StressOutcome): string {
+    return `
+      <td>${this.formatCurrency(outcome.medianNetWorth)}</td>
+      <td>${this.formatCurrency(outcome.p10NetWorth)}</td>
+      <td>${outcome.successRate.toFixed(1)}%</td>
+      <td>${outcome.failureProbability.toFixed(1)}%</td>
+    `;
+  }
+
+  /**
+   * Replayed calendar years as ranges (e.g. "2000-2002", or "2008-2024, 1995-1997" when wrapped)
+   */
+  private formatYears(years: number[]): string {
+    const ranges: string[] = [];
+    let first = years[0];
+    for (let k = 1; k <= years.length; k++) {
+      if (k === years.length || years[k] !== years[k - 1] + 1) {
+        ranges.push(first === years[k - 1] ? `${first}` : `${first}-${years[k - 1]}`);
+        first = years[k];
+      }
+    }
+    return ranges.join(', ');
+  }
+
+  /**
+   * Format a dollar amount in compact notation
+   */
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      :host(.hidden) {
+        display: none;
+      }
+
+      *, *::before, *::after {
+        box-sizing: border-box;
+      }
+
+      .stress-card {
+        margin-bottom: var(--spacing-lg, 24px);
+        padding: var(--spacing-md, 16px);
+        background: var(--surface-primary, #ffffff);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-lg, 8px);
+      }
+
+      .stress-header {
+        display: flex;
+        align-items: flex-start;
+        justify-content: space-between;
+        gap: var(--spacing-md, 16px);
+        margin-bottom: var(--spacing-md, 16px);
+      }
+
+      .stress-header h3 {
+        margin: 0;
+        font-size: var(--font-size-lg, 1.125rem);
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
+      .stress-meta,
+      .stress-note {
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .stress-note {
+        margin: var(--spacing-md, 16px) 0 0 0;
+      }
+
+      .close-btn {
+        padding: 0 var(--spacing-sm, 8px);
+        background: none;
+        border: none;
+        color: var(--text-secondary, #64748b);
+        font-size: 1.5rem;
+        line-height: 1;
+        cursor: pointer;
+      }
+
+      .close-btn:hover {
+        color: var(--text-primary, #1e293b);
+      }
+
+      .stress-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: var(--font-size-sm, 0.875rem);
+        font-variant-numeric: tabular-nums;
+      }
+
+      .stress-table th,
+      .stress-table td {
+        padding: var(--spacing-xs, 4px) var(--spacing-sm, 8px);
+        border-bottom: 1px solid var(--border-color, #e2e8f0);
+        text-align: right;
+      }
+
+      .stress-table thead th {
+        color: var(--text-primary, #1e293b);
+        font-weight: 600;
+      }
+
+      .stress-table thead th[scope="colgroup"] {
+        text-align: center;
+      }
+
+      .stress-table th[scope="row"] {
+        text-align: left;
+        color: var(--text-primary, #1e293b);
+        font-weight: 500;
+      }
+
+      .years {
+        display: block;
+        color: var(--text-secondary, #64748b);
+        font-size: var(--font-size-xs, 0.75rem);
+        font-weight: 400;
+      }
+
+      .baseline-row th,
+      .baseline-row td {
+        color: var(--text-secondary, #64748b);
+        border-bottom-width: 2px;
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    this.$('#close-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('stress-close', {
+        bubbles: true,
+        composed: true,
+      }));
+    });
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Register the custom element
+customElements.define('stress-results', StressResults);
@@ -0,0 +1,243 @@
+/**
+ * Sweep Results Component
+ *
+ * Displays a parameter sweep as a heatmap with a selector for the metric
+ * shown: success rate, margin call risk or median net worth.
+ */
+
+import { BaseComponent } from '../base-component';
+import { SWEEP_PARAMETERS } from '../../simulation/sweep';
+import type { SweepAxis, SweepCell, SweepResult } from '../../simulation/types';
+import type { SweepHeatmapData } from '../../charts/sweep-heatmap';
+
+// Import chart to register it
+import '../../charts/sweep-heatmap';
+
+/**
+ * Metric displayed by the heatmap
+ */
+type SweepMetric = keyof SweepCell;
+
+/**
+ * Display settings for each sweep metric
+ */
+const SWEEP_METRICS: Record<SweepMetric, { label: string; format: 'currency' | 'percent'; higherIsBetter: boolean }> = {
+  successRate: { label: 'Success Rate', format: 'percent', higherIsBetter: true },
+  marginCallProbability: { label: 'Margin Call Risk', format: 'percent', higherIsBetter: false },
+  medianNetWorth: { label: 'Median Net Worth', format: 'currency', higherIsBetter: true },
+};
+
+/**
+ * Sweep Results - heatmap of one sweep metric across the parameter grid
+ *
+ * Usage:
+ * ```html
+ * <sweep-results></sweep-results>
+ * ```
+ *
+ * Properties:
+ * - result: SweepResult | null
+ *
+ * @fires sweep-close - when the user dismisses the results
+ */
+export class SweepResults extends BaseComponent {
+  private _result: SweepResult | null = null;
+  private _metric: SweepMetric = 'successRate';
+
+  /**
+   * Set sweep result
+   */
+  set result(value: SweepResult | null) {
+    this._result = value;
+    this.render();
+  }
+
+  /**
+   * Get sweep result
+   */
+  get result(): SweepResult | null {
+    return this._result;
+  }
+
+  protected template(): string {
+    if (!this._result) return '';
+    const { x, y, cells } = this._result;
+    const count = cells.length * x.values.length;
+    const axes = y
+      ? `${SWEEP_PARAMETERS[x.parameter].label} × ${SWEEP_PARAMETERS[y.parameter].label}`
+      : SWEEP_PARAMETERS[x.parameter].label;
+
+    return `
+      <div class="sweep-card">
+        <div class="sweep-header">
+          <div>
+            <h3>Parameter Sweep: ${axes}</h3>
+            <span class="sweep-meta">${count} runs, shared seed ${this.escapeHtml(this._result.seed)}</span>
+          </div>
+          <button class="close-btn" id="close-btn" aria-label="Close sweep results">&times;</button>
+        </div>
+        <div class="metric-toggle" role="group" aria-label="Heatmap metric">
+          ${(Object.keys(SWEEP_METRICS) as SweepMetric[]).map(metric => `
+            <button class="metric-btn ${metric === this._metric ? 'active' : ''}" data-metric="${metric}"
+              aria-pressed="${metric === this._metric}">
+              ${SWEEP_METRICS[metric].label}
+            </button>
+          `).join('')}
+        </div>
+        <sweep-heatmap id="sweep-heatmap"></sweep-heatmap>
+      </div>
+    `;
+  }
+
+  /**
+   * Format an axis value for tick labels
+   */
+  private formatAxisValue(axis: SweepAxis, value: number): string {
+    switch (SWEEP_PARAMETERS[axis.parameter].unit) {
+      case 'currency':
+        return new Intl.NumberFormat('en-US', {
+          style: 'currency',
+          currency: 'USD',
+          notation: 'compact',
+          maximumFractionDigits: 1,
+        }).format(value);
+      case 'percent':
+        return `${(value * 100).toFixed(1)}%`;
+      case 'years':
+        return `${Math.round(value)} yrs`;
+    }
+  }
+
+  /**
+   * Build heatmap data for the selected metric
+   */
+  private buildHeatmapData(result: SweepResult): SweepHeatmapData {
+    const { x, y, cells } = result;
+    const metric = SWEEP_METRICS[this._metric];
+    return {
+      xLabels: x.values.map(v => this.formatAxisValue(x, v)),
+      yLabels: y ? y.values.map(v => this.formatAxisValue(y, v)) : [''],
+      values: cells.map(row => row.map(cell => cell[this._metric])),
+      xTitle: SWEEP_PARAMETERS[x.parameter].label,
+      yTitle: y ? SWEEP_PARAMETERS[y.parameter].label : undefined,
+      format: metric.format,
+      higherIsBetter: metric.higherIsBetter,
+    };
+  }
+
+  protected styles(): string {
+    return `
+      :host {
+        display: block;
+      }
+
+      :host(.hidden) {
+        display: none;
+      }
+
+      *, *::before, *::after {
+        box-sizing: border-box;
+      }
+
+      .sweep-card {
+        margin-bottom: var(--spacing-lg, 24px);
+        padding: var(--spacing-md, 16px);
+        background: var(--surface-primary, #ffffff);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-lg, 8px);
+      }
+
+      .sweep-header {
+        display: flex;
+        align-items: flex-start;
+        justify-content: space-between;
+        gap: var(--spacing-md, 16px);
+        margin-bottom: var(--spacing-md, 16px);
+      }
+
+      .sweep-header h3 {
+        margin: 0;
+        font-size: var(--font-size-lg, 1.125rem);
+        font-weight: 600;
+        color: var(--text-primary, #1e293b);
+      }
+
+      .sweep-meta {
+        font-size: var(--font-size-sm, 0.875rem);
+        color: var(--text-secondary, #64748b);
+      }
+
+      .close-btn {
+        padding: 0 var(--spacing-sm, 8px);
+        background: none;
+        border: none;
+        color: var(--text-secondary, #64748b);
+        font-size: 1.5rem;
+        line-height: 1;
+        cursor: pointer;
+      }
+
+      .close-btn:hover {
+        color: var(--text-primary, #1e293b);
+      }
+
+      .metric-toggle {
+        display: flex;
+        gap: var(--spacing-xs, 4px);
+        margin-bottom: var(--spacing-md, 16px);
+      }
+
+      .metric-btn {
+        flex: 1;
+        padding: var(--spacing-sm, 8px) var(--spacing-xs, 4px);
+        background: var(--surface-secondary, #f8fafc);
+        border: 1px solid var(--border-color, #e2e8f0);
+        border-radius: var(--radius-md, 6px);
+        color: var(--text-secondary, #475569);
+        font-size: var(--font-size-sm, 0.875rem);
+        cursor: pointer;
+        transition: all 0.2s ease;
+      }
+
+      .metric-btn.active {
+        background: var(--color-primary, #0d9488);
+        border-color: var(--color-primary, #0d9488);
+        color: white;
+        font-weight: 600;
+      }
+    `;
+  }
+
+  protected override afterRender(): void {
+    if (!this._result) return;
+
+    const heatmap = this.$('#sweep-heatmap') as (HTMLElement & { data: SweepHeatmapData | null }) | null;
+    if (heatmap) heatmap.data = this.buildHeatmapData(this._result);
+
+    this.$('#close-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('sweep-close', {
+        bubbles: true,
+        composed: true,
+      }));
+    });
+
+    (this.$$('.metric-btn') as NodeListOf<HTMLButtonElement>).forEach(button => {
+      button.addEventListener('click', () => {
+        this._metric = button.dataset.metric as SweepMetric;
+        this.render();
+      });
+    });
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Register the custom element
+customElements.define('sweep-results', SweepResults);
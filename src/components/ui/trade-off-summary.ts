@@ -6,7 +6,7 @@
  */
 
 import { BaseComponent } from '../base-component';
-import type { ComparisonMetrics } from '../../utils/delta-calculations';
+import type { ComparisonMetrics, HeirsComparison } from '../../utils/delta-calculations';
 
 /**
  * Assessment of which strategy performs better
@@ -120,6 +120,16 @@ export class TradeOffSummary extends BaseComponent {
       }
     }
 
+    // Median BBD net to heirs after estate tax (+1)
+    const heirs = this._metrics.netToHeirs;
+    if (heirs) {
+      if (heirs.bbd.median.direction === 'up') {
+        currentScore += 1;
+      } else if (heirs.bbd.median.direction === 'down') {
+        previousScore += 1;
+      }
+    }
+
     // Determine assessment
     let assessment: StrategyAssessment;
     if (currentScore > previousScore) {
@@ -173,6 +183,20 @@ export class TradeOffSummary extends BaseComponent {
       });
     }
 
+    // Net to heirs differences, per strategy
+    if (heirs) {
+      const strategies: Array<[string, HeirsComparison | undefined]> = [['BBD', heirs.bbd], ['Sell', heirs.sell]];
+      for (const [label, comparison] of strategies) {
+        if (!comparison || comparison.median.direction === 'neutral') continue;
+        const better = comparison.median.direction === 'up' ? this._currentName : this._previousName;
+        const magnitude = Math.abs(comparison.median.absolute);
+        differences.push({
+          text: `${better} leaves ${this.formatCurrency(magnitude)} more to heirs under ${label} (median, after estate tax)`,
+          magnitude,
+        });
+      }
+    }
+
     // Sort by magnitude and take top 4
     differences.sort((a, b) => b.magnitude - a.magnitude);
     const keyDifferences = differences.slice(0, 4).map(d => d.text);
@@ -217,6 +241,41 @@ export class TradeOffSummary extends BaseComponent {
     }).format(value);
   }
 
+  /**
+   * Net-to-heirs percentile table for both strategies and both simulations
+   */
+  private heirsTemplate(): string {
+    const heirs = this._metrics?.netToHeirs;
+    if (!heirs) return '';
+
+    const rows: Array<[string, HeirsComparison | undefined]> = [['BBD', heirs.bbd], ['Sell', heirs.sell]];
+    const body = rows
+      .filter((row): row is [string, HeirsComparison] => row[1] !== undefined)
+      .flatMap(([label, comparison]) => [
+        [`${label} (${this._previousName})`, comparison.previous],
+        [`${label} (${this._currentName})`, comparison.current],
+      ] as const)
+      .map(([label, values]) => `
+        <tr>
+          <td>${label}</td>
+          <td>${this.formatCurrency(values.p10)}</td>
+          <td>${this.formatCurrency(values.p50)}</td>
+          <td>${this.formatCurrency(values.p90)}</td>
+        </tr>
+      `)
+      .join('');
+
+    return `
+      <table class="heirs-table">
+        <caption>Net to Heirs (After Estate Tax)</caption>
+        <thead>
+          <tr><th>Strategy</th><th>P10</th><th>Median</th><th>P90</th></tr>
+        </thead>
+        <tbody>${body}</tbody>
+      </table>
+    `;
+  }
+
   protected template(): string {
     const summary = this.generateSummary();
 
@@ -234,6 +293,7 @@ export class TradeOffSummary extends BaseComponent {
             ${differencesList}
           </ul>
         ` : ''}
+        ${this.heirsTemplate()}
         <p class="recommendation">${summary.recommendation}</p>
       </div>
     `;
@@ -287,6 +347,37 @@ export class TradeOffSummary extends BaseComponent {
         font-style: italic;
       }
 
+      .heirs-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin: 0 0 1rem 0;
+        font-size: 0.875rem;
+      }
+
+      .heirs-table caption {
+        text-align: left;
+        font-weight: 600;
+        margin-bottom: 0.5rem;
+        color: var(--text-primary, #111827);
+      }
+
+      .heirs-table th,
+      .heirs-table td {
+        padding: 0.375rem 0.5rem;
+        text-align: right;
+        border-bottom: 1px solid var(--border-color, #e5e7eb);
+      }
+
+      .heirs-table th:first-child,
+      .heirs-table td:first-child {
+        text-align: left;
+      }
+
+      .heirs-table th {
+        color: var(--text-secondary, #6b7280);
+        font-weight: 600;
+      }
+
       .recommendation {
         margin: 0;
         padding-top: 1rem;
@@ -57,6 +57,11 @@ export class UserGuideModal extends BaseComponent {
                   How your portfolio is distributed across asset classes. Select from available
                   assets (stocks, bonds, alternatives) and assign percentage weights. Weights
                   must sum to 100%. Different allocations produce different risk/return profiles.
+                  <br><br>
+                  To use a ticker that isn't bundled, type it in the search box and fetch it. History
+                  comes from the market data source chosen in Settings (most providers need an API
+                  key) and is converted to calendar-year returns. If a ticker can't be fetched, it
+                  can't be simulated; eVelo never substitutes made-up returns.
                 </dd>
 
                 <dt>Initial LOC Balance</dt>
@@ -123,6 +128,26 @@ export class UserGuideModal extends BaseComponent {
                   Includes bid-ask spreads, commissions, and potential market impact.
                   Typical range: 2-5%.
                 </dd>
+
+                <dt>Asset-Class Collateral</dt>
+                <dd>
+                  Lenders advance more against bonds than against stocks. When enabled, the
+                  margin call LTV each year is the value-weighted advance rate of the holdings
+                  at year end: Max LTV for stocks, funds and commodities, the bond rate for
+                  bonds. A 60/40 portfolio can therefore borrow more than an all-stock one, and
+                  the limit falls as stocks outgrow bonds. The Warning Zone moves with it, and
+                  the SBLOC Utilization chart plots the median effective limit.
+                </dd>
+
+                <dt>Rate Type</dt>
+                <dd>
+                  SBLOC rates float over a benchmark such as SOFR. A variable rate charges the
+                  Annual Interest Rate in year one, then follows a simulated benchmark plus your
+                  spread. The mean-reverting benchmark drifts toward its long-run level with
+                  random yearly moves; the regime-linked benchmark is also cut in crashes and
+                  rises in bull markets. An optional floor and cap bound the rate charged.
+                  Debug data shows the median and 90th percentile rate paid in the final year.
+                </dd>
               </dl>
             </help-section>
 
@@ -133,7 +158,19 @@ export class UserGuideModal extends BaseComponent {
                 <dd>
                   The number of random scenarios to simulate. More iterations provide more
                   statistically robust results but take longer to compute. 10,000 iterations
-                  is typically sufficient for reliable percentile estimates.
+                  is typically sufficient for reliable percentile estimates. Large runs are
+                  split across your device's processor cores, which gives the same results
+                  as running them on one core.
+                </dd>
+
+                <dt>Auto Iterations</dt>
+                <dd>
+                  Choose Auto to keep adding scenarios, 1,000 at a time, until the success
+                  rate and margin call probability are known to within the tolerance (in
+                  percentage points) and the median to within the tolerance as a percent of
+                  its value, at 95% confidence. Runs stop at 100,000 scenarios if the
+                  tolerance is not reached. The ± figures on the key metric cards show how
+                  far each estimate could move with more scenarios.
                 </dd>
 
                 <dt>Return Distribution Model</dt>
@@ -141,9 +178,113 @@ export class UserGuideModal extends BaseComponent {
                   <strong>Bootstrap:</strong> Randomly samples from historical returns,
                   preserving actual market behavior including fat tails and clustering.
                   <br><br>
+                  <strong>Block Bootstrap:</strong> Samples runs of consecutive historical
+                  years, preserving multi-year trends such as extended bear markets. Block
+                  size is estimated automatically from autocorrelation or set manually.
+                  <br><br>
                   <strong>Regime-Switching:</strong> Models distinct market states (bull,
                   bear, crash) with different return characteristics and transition
                   probabilities. Better captures market regime changes.
+                  <br><br>
+                  <strong>Fat-Tail:</strong> Draws returns from a skewed Student's t
+                  distribution centered on each asset's history. Degrees of freedom, skew,
+                  volatility scaling and survivorship bias are editable per asset class.
+                </dd>
+
+                <dt>Time Step</dt>
+                <dd>
+                  <strong>Annual</strong> applies one return per year. <strong>Monthly</strong>
+                  steps the portfolio and credit line month by month, checking for margin calls
+                  every month, so a crash that recovers before year end (as in 2020) can still
+                  force a sale. The regime and fat-tail models draw every month from their annual
+                  parameters scaled to a month, and regimes can change mid-year. The bootstrap
+                  models resample fetched tickers with at least two years of shared monthly
+                  history month by month; otherwise each resampled year is split into a
+                  realistic monthly path that compounds to the same annual return.
+                </dd>
+
+                <dt>Rebalancing</dt>
+                <dd>
+                  Between trades, each holding's weight drifts with its returns.
+                  <strong>None</strong> lets winners grow into a larger share (buy and hold).
+                  <strong>Annual</strong> and <strong>Quarterly</strong> reset to the target
+                  weights on a calendar schedule. <strong>Threshold Bands</strong> reset only
+                  when a weight drifts past the band. An optional trading cost is charged on
+                  every dollar bought or sold. In the Sell strategy, rebalancing sales realize
+                  capital gains. The Portfolio Weight Drift chart shows the median year-end weights.
+                </dd>
+
+                <dt>Cost Basis and Sale Order</dt>
+                <dd>
+                  Each holding can carry its own cost basis (set next to its weight; blank uses
+                  the portfolio-wide Cost Basis Ratio). <strong>Sale Order</strong> decides which
+                  holdings are sold first for Sell strategy withdrawals and for forced sales after
+                  a margin call: <strong>Pro-Rata</strong> sells everything in proportion,
+                  <strong>Highest Basis First</strong> sells the holdings with the least gain per
+                  dollar, <strong>Lowest Gain First</strong> sells the smallest dollar gains, and
+                  <strong>Specific Asset First</strong> sells one chosen holding before the rest.
+                  Realized gains and taxes are reported per holding in the Sell Strategy
+                  Year-by-Year table and the debug log.
+                </dd>
+
+                <dt>Progressive Tax Brackets</dt>
+                <dd>
+                  Replaces the flat dividend and capital gains rates with the actual brackets
+                  for a <strong>Filing Status</strong>: the 0/15/20% federal rates on gains and
+                  qualified dividends, the 3.8% Net Investment Income Tax and an optional
+                  <strong>State</strong> income tax. <strong>Other Income</strong> (wages,
+                  pensions) fills the standard deduction and the lower brackets first. Dividends
+                  and sales within a year stack, so larger withdrawals reach higher rates.
+                  Amounts are in today's dollars and the brackets grow with inflation. Forced
+                  sales after a margin call still use the flat capital gains rate.
+                </dd>
+
+                <dt>Estate Tax</dt>
+                <dd>
+                  Optionally applies federal estate tax at death to what each strategy leaves
+                  behind: the <strong>Federal Estate Tax Rate</strong> on the estate above the
+                  exemption, under current law, a sunset to roughly half, or a custom amount.
+                  <strong>Married</strong> doubles the exemption through portability. A state
+                  estate or inheritance tax can be added; it is deducted before the federal tax.
+                  Exemptions are in today's dollars and grow with inflation. Strategy Analysis
+                  then shows the P10, median and P90 left to heirs for BBD and Sell.
+                </dd>
+
+                <dt>Parameter Sweep</dt>
+                <dd>
+                  Runs the current settings across a range of one or two parameters, such as
+                  annual withdrawal against SBLOC interest rate, and shows a heatmap of success
+                  rate, margin call risk or median net worth for every combination. All cells
+                  share one seed, so differences between cells come from the parameters alone.
+                </dd>
+
+                <dt>Portfolio Optimizer</dt>
+                <dd>
+                  Plots the efficient frontier of the selected assets (the lowest-volatility
+                  mix for each expected return, without short positions) from their historical
+                  returns and correlations. Each frontier portfolio is then simulated briefly
+                  with one shared seed, and the BBD optimum is the one with the highest median
+                  net worth whose margin call risk stays within your cap. Click any point and
+                  apply its weights to your portfolio.
+                </dd>
+
+                <dt>Stress Test</dt>
+                <dd>
+                  Replays the dot-com crash (2000-2002), 2008, the 2000s lost decade and the 2022
+                  rate shock from your assets' own history. <strong>Crisis first</strong> opens every
+                  scenario with the crisis years and resamples the rest; <strong>rolling window</strong>
+                  replays history from the crisis start for the whole horizon, wrapping to the
+                  oldest shared year. Each crisis is compared for BBD and selling against an
+                  unstressed baseline with the same seed. Crises outside the years all your
+                  assets have data for are skipped.
+                </dd>
+
+                <dt>Solve for Target</dt>
+                <dd>
+                  In Recommendations, finds the largest annual withdrawal or borrowing limit,
+                  or the smallest initial investment, that meets a goal such as 90% confidence
+                  of no margin call. The search re-runs the displayed simulation with its seed
+                  and reports the solution with a 95% confidence interval for the goal metric.
                 </dd>
 
                 <dt>Expected Inflation</dt>
@@ -152,6 +293,15 @@ export class UserGuideModal extends BaseComponent {
                   returns. Used to show purchasing power outcomes alongside nominal values.
                   Historical average is around 3%.
                 </dd>
+
+                <dt>Random Seed</dt>
+                <dd>
+                  Every run draws its random scenarios from a seed. The same seed with the
+                  same inputs always produces identical results. Leave the field blank to get
+                  a new seed each run; the seed used is shown in the sidebar and the results
+                  summary, and the replay button in the header re-runs the last simulation
+                  exactly.
+                </dd>
               </dl>
             </help-section>
 
@@ -188,6 +338,69 @@ export class UserGuideModal extends BaseComponent {
                   withdrawals plus compounding interest grow the debt over time. Compare
                   against the maximum borrowing limit to gauge margin call risk.
                 </dd>
+
+                <dt>Historical Backtest</dt>
+                <dd>
+                  Runs your plan from every start year your assets share history for, with
+                  the returns that actually followed - no simulation involved. Bars show the
+                  final net worth of BBD and selling per start year, red where BBD hit a
+                  margin call, and the table gives the spread of outcomes and the worst start
+                  years. <strong>Wrap</strong> continues late windows from the oldest year;
+                  <strong>Truncate</strong> ends them at the newest, so they are shorter.
+                </dd>
+
+                <dt>Path Explorer</dt>
+                <dd>
+                  Follow a single simulated scenario year by year: the worst, P10, median or
+                  P90 path by final net worth, a random one, or any scenario by number. The
+                  table lists each asset's return, the market regime, withdrawals, interest,
+                  LTV and forced sales; margin call years are highlighted. Paths are replayed
+                  from the run's seed, so they match the results shown.
+                </dd>
+
+                <dt>Scenario Comparison</dt>
+                <dd>
+                  <strong>Pin Run</strong> above the results saves the current run under a name;
+                  pinned scenarios are kept between sessions. With two or more pinned,
+                  <strong>Compare Scenarios</strong> overlays their P10-P90 cones and lists key
+                  metrics side by side, each with its change from the baseline scenario.
+                </dd>
+
+                <dt>Run History</dt>
+                <dd>
+                  Every completed run is saved in your browser with its settings and results;
+                  the 50 most recent are kept. <strong>Open</strong> shows a run's results again
+                  without re-simulating, and Replay then re-runs it exactly.
+                  <strong>Rename</strong> and <strong>Tags</strong> help you find runs later.
+                </dd>
+
+                <dt>PDF Report</dt>
+                <dd>
+                  The report button in the header downloads a PDF of the displayed run: a
+                  cover with key metrics and the portfolio, the charts, the year-by-year
+                  projection, the assumptions used and disclosures. It is built in your
+                  browser, so it works offline and needs no popups.
+                </dd>
+
+                <dt>Share Link</dt>
+                <dd>
+                  The link button in the header copies a link holding your portfolio, every
+                  setting and the seed. Opening it restores the scenario, so the recipient's
+                  run matches yours. Nothing is uploaded: the scenario lives in the link
+                  itself, which also works offline. Assets without historical data on the
+                  recipient's device are kept and flagged until their data is added.
+                </dd>
+
+                <dt>Export Results</dt>
+                <dd>
+                  Downloads the run for your own spreadsheets: summary statistics, the yearly
+                  analysis, the Sell strategy by year, margin call risk, the SBLOC trajectory,
+                  the terminal value distribution and the settings used. <strong>CSV</strong>
+                  puts every table in one file, <strong>Excel</strong> gives one sheet per
+                  table, and <strong>JSON</strong> holds the complete results. Medians are
+                  exported per year unless <strong>Percentile bands per year</strong> is
+                  checked; <strong>Every terminal value</strong> adds one row per iteration.
+                </dd>
               </dl>
             </help-section>
 
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiClient } from '../services/market-data-service';
+import { toAnnualPresetData, normalizeTicker } from '../services/live-data-service';
+import type { DailyReturn } from '../schemas/market-data';
+
+/**
+ * Weekday dates from start to end (inclusive), YYYY-MM-DD
+ */
+function tradingDays(start: string, end: string): string[] {
+  const days: string[] = [];
+  const date = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (date <= last) {
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      days.push(date.toISOString().split('T')[0]);
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/** Constant daily return used by the mock providers */
+const DAILY = 0.0005;
+
+/** Mid-2020 through mid-2024: complete years are 2021-2023 */
+const DATES = tradingDays('2020-06-01', '2024-06-28');
+
+/** Prices implied by DAILY, one per date plus a base price before the first */
+const PRICES = [100, ...DATES.map((_, i) => 100 * Math.pow(1 + DAILY, i + 1))];
+
+function expectedAnnual(year: string): number {
+  const count = DATES.filter((d) => d.startsWith(year)).length;
+  return Math.pow(1 + DAILY, count) - 1;
+}
+
+/**
+ * Local stand-in for the provider APIs. Clients are pointed at it through
+ * their CORS proxy prefix, so it receives the real provider URL in `url`.
+ */
+function handleProviderRequest(target: URL): { status: number; body: unknown } {
+  const symbol = target.searchParams.get('symbol') ?? target.pathname.split('/').filter(Boolean)[2];
+  if (symbol === 'MISSING') {
+    return { status: 404, body: { error: 'Unknown symbol' } };
+  }
+
+  switch (target.hostname) {
+    case 'financialmodelingprep.com':
+      return {
+        status: 200,
+        body: {
+          historical: DATES.map((date) => ({
+            date,
+            open: 0, high: 0, low: 0, close: 0, adjClose: 0, volume: 0,
+            changePercent: DAILY * 100,
+          })).reverse(),
+        },
+      };
+    case 'api.tiingo.com':
+      return {
+        status: 200,
+        body: ['2020-05-29', ...DATES].map((date, i) => ({
+          date: `${date}T00:00:00.000Z`,
+          adjClose: PRICES[i],
+        })),
+      };
+    default:
+      return { status: 400, body: { error: `Unexpected host ${target.hostname}` } };
+  }
+}
+
+describe('Live market data', () => {
+  let server: Server;
+  let proxyPrefix: string;
+  const requested: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const proxied = new URL(req.url ?? '/', 'http://localhost').searchParams.get('url') ?? '';
+      requested.push(proxied);
+      const { status, body } = handleProviderRequest(new URL(proxied));
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    proxyPrefix = `http://127.0.0.1:${port}/proxy?url=`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('provider clients', () => {
+    it('fetches FMP daily returns and aggregates complete calendar years', async () => {
+      const client = createApiClient('fmp', 'test-key', proxyPrefix);
+      const daily = await client.getHistoricalData('ACME', '2020-01-01', '2024-06-30');
+
+      expect(requested.at(-1)).toContain('symbol=ACME');
+      expect(requested.at(-1)).toContain('apikey=test-key');
+      expect(daily[0].date).toBe('2020-06-01');
+
+      const annual = toAnnualPresetData('ACME', daily).data;
+      expect(annual.returns.map((r) => r.date)).toEqual(['2021', '2022', '2023']);
+      for (const r of annual.returns) {
+        expect(r.return).toBeCloseTo(expectedAnnual(r.date), 10);
+      }
+      expect(annual.startDate).toBe('2021-01-01');
+      expect(annual.endDate).toBe('2023-12-29');
+    });
+
+    it('fetches Tiingo adjusted closes and produces the same annual returns', async () => {
+      const client = createApiClient('tiingo', 'test-key', proxyPrefix);
+      const daily = await client.getHistoricalData('ACME', '2020-01-01', '2024-06-30');
+      const annual = toAnnualPresetData('ACME', daily).data;
+
+      expect(annual.returns.map((r) => r.date)).toEqual(['2021', '2022', '2023']);
+      for (const r of annual.returns) {
+        expect(r.return).toBeCloseTo(expectedAnnual(r.date), 10);
+      }
+    });
+
+    it('rejects on provider errors instead of returning data', async () => {
+      const client = createApiClient('fmp', 'test-key', proxyPrefix);
+      await expect(
+        client.getHistoricalData('MISSING', '2020-01-01', '2024-06-30')
+      ).rejects.toThrow('API error: 404');
+    });
+  });
+
+  describe('toAnnualPresetData', () => {
+    it('throws when there are fewer than two complete years', () => {
+      const daily: DailyReturn[] = tradingDays('2023-03-01', '2024-12-31').map((date) => ({
+        date,
+        return: DAILY,
+      }));
+      expect(() => toAnnualPresetData('SHORT', daily)).toThrow(/Not enough history for SHORT/);
+    });
+
+    it('throws on an empty series', () => {
+      expect(() => toAnnualPresetData('EMPTY', [])).toThrow(/0 complete calendar year/);
+    });
+  });
+
+  describe('normalizeTicker', () => {
+    it('upper-cases and trims valid tickers', () => {
+      expect(normalizeTicker(' brk.b ')).toBe('BRK.B');
+      expect(normalizeTicker('^gspc')).toBeNull();
+      expect(normalizeTicker('vti')).toBe('VTI');
+    });
+
+    it('rejects text that is not a ticker', () => {
+      expect(normalizeTicker('')).toBeNull();
+      expect(normalizeTicker('two words')).toBeNull();
+      expect(normalizeTicker('<script>')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { validatePortfolio } from '../services/portfolio-service';
+import type { IncomeTaxConfig } from '../../simulation/types';
+
+describe('validatePortfolio income tax settings', () => {
+  const withIncomeTax = (incomeTax: unknown) => ({
+    name: 'Taxed',
+    assets: [{ id: 'SPY', symbol: 'SPY', name: 'S&P 500', assetClass: 'equity', weight: 1 }],
+    taxModeling: {
+      enabled: true,
+      taxAdvantaged: false,
+      dividendYield: 0.02,
+      ordinaryTaxRate: 0.37,
+      ltcgTaxRate: 0.238,
+      incomeTax,
+    },
+  });
+
+  it('accepts valid settings and their absence', () => {
+    const valid: IncomeTaxConfig = { filingStatus: 'married-joint', state: 'CA', otherIncome: 120_000 };
+    expect(validatePortfolio(withIncomeTax(valid))).toBe(true);
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'single' }))).toBe(true);
+    expect(validatePortfolio(withIncomeTax(undefined))).toBe(true);
+  });
+
+  it('rejects an unknown filing status', () => {
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'joint' }))).toBe(false);
+    expect(validatePortfolio(withIncomeTax({ state: 'CA' }))).toBe(false);
+  });
+
+  it('rejects a state without an income tax schedule', () => {
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'single', state: 'ZZ' }))).toBe(false);
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'single', state: 'toString' }))).toBe(false);
+  });
+
+  it('rejects negative or non-finite other income', () => {
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'single', otherIncome: -1 }))).toBe(false);
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'single', otherIncome: Infinity }))).toBe(false);
+    expect(validatePortfolio(withIncomeTax({ filingStatus: 'single', otherIncome: '50000' }))).toBe(false);
+  });
+
+  it('rejects a non-object setting', () => {
+    expect(validatePortfolio(withIncomeTax('single'))).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import Papa from 'papaparse';
+import {
+  buildResultsTables,
+  exportResultsToCsv,
+  exportResultsToJson,
+  exportResultsToSpreadsheet,
+  RESULTS_EXPORT_SCHEMA,
+  RESULTS_EXPORT_VERSION,
+  type ResultsJsonExport,
+} from '../services/results-export-service';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { PortfolioConfig, SimulationConfig, SimulationOutput } from '../../simulation/types';
+
+describe('Results export', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      { id: 'A', weight: 0.6, historicalReturns: [0.12, -0.08, 0.21, 0.05, 0.15, -0.02, 0.09] },
+      { id: 'B<&>', weight: 0.4, costBasisRatio: 0.8, historicalReturns: [0.03, 0.04, 0.02, 0.05, 0.01, 0.03, 0.04] },
+    ],
+    correlationMatrix: [[1, 0.1], [0.1, 1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 300,
+    timeHorizon: 6,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0.025,
+    resamplingMethod: 'simple',
+    seed: 'export',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 50_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  let output: SimulationOutput;
+  beforeAll(async () => {
+    output = await runMonteCarlo(config, portfolio);
+  });
+
+  it('builds medians by default and bands and terminal values on request', () => {
+    const tables = buildResultsTables(output, config);
+    const names = tables.map(t => t.name);
+    expect(names).toEqual([
+      'Summary',
+      'Yearly Analysis',
+      'Sell Strategy Yearly',
+      'Margin Calls',
+      'SBLOC Trajectory',
+      'Terminal Distribution',
+      'Configuration',
+    ]);
+
+    const yearly = tables[1];
+    expect(yearly.rows).toHaveLength(6);
+    expect(yearly.columns).toContain('Net Worth Median');
+    expect(yearly.columns).not.toContain('Net Worth P10');
+    // Withdrawals grow by the annual raise
+    expect(yearly.rows[0][1]).toBeCloseTo(50_000, 6);
+    expect(yearly.rows[1][1]).toBeCloseTo(51_500, 6);
+
+    const full = buildResultsTables(output, config, { includePercentiles: true, includeTerminalValues: true });
+    expect(full.find(t => t.name === 'Yearly Analysis')!.columns).toContain('Net Worth P90');
+    expect(full.find(t => t.name === 'Terminal Distribution')!.rows).toHaveLength(99);
+    const values = full.find(t => t.name === 'Terminal Values')!;
+    expect(values.rows).toHaveLength(300);
+    expect(values.rows[7][1]).toBe(output.terminalValues[7]);
+  });
+
+  it('writes every table as a named CSV section', () => {
+    const csv = exportResultsToCsv(output, config);
+    const sections = csv.split('\n\n');
+    expect(sections).toHaveLength(7);
+
+    const yearly = Papa.parse<string[]>(sections[1]).data;
+    expect(yearly[0]).toEqual(['Yearly Analysis']);
+    expect(yearly[1][0]).toBe('Year');
+    expect(Number(yearly[2][4])).toBeCloseTo(output.yearlyPercentiles[0].p50, 6);
+  });
+
+  it('serializes the full output under a versioned schema', () => {
+    const parsed = JSON.parse(exportResultsToJson(output, config)) as ResultsJsonExport;
+    expect(parsed.schema).toBe(RESULTS_EXPORT_SCHEMA);
+    expect(parsed.version).toBe(RESULTS_EXPORT_VERSION);
+    expect(parsed.config).toEqual(config);
+    expect(parsed.output.yearlyPercentiles).toEqual(output.yearlyPercentiles);
+    expect(parsed.output.terminalValues).toBeUndefined();
+
+    const withValues = JSON.parse(
+      exportResultsToJson(output, config, { includeTerminalValues: true })
+    ) as ResultsJsonExport;
+    expect(withValues.output.terminalValues).toEqual(Array.from(output.terminalValues));
+    expect(withValues.output.sellStrategy!.terminalValues).toHaveLength(300);
+  });
+
+  it('writes one escaped worksheet per table', () => {
+    const xml = exportResultsToSpreadsheet(output, config);
+    expect(xml.startsWith('<?xml')).toBe(true);
+    expect(xml.match(/<Worksheet /g)).toHaveLength(7);
+    expect(xml).toContain('<Worksheet ss:Name="Sell Strategy Yearly">');
+    expect(xml).toContain('B&lt;&amp;&gt; Realized Gains Median');
+    expect(xml).not.toContain('B<&>');
+  });
+});
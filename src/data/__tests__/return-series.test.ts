@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectFrequency,
+  pricesToReturns,
+  aggregateReturns,
+  toAnnualReturns,
+  type PriceObservation,
+} from '../services/return-series-service';
+import { parseAndValidateCsv } from '../validation/data-validator';
+import type { DailyReturn } from '../schemas/market-data';
+
+/**
+ * Dates from start to end (inclusive) every `step` days, skipping weekends for daily steps
+ */
+function dateRange(start: string, end: string, step = 1): string[] {
+  const dates: string[] = [];
+  const date = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (date <= last) {
+    const weekday = date.getUTCDay();
+    if (step !== 1 || (weekday !== 0 && weekday !== 6)) {
+      dates.push(date.toISOString().split('T')[0]);
+    }
+    date.setUTCDate(date.getUTCDate() + step);
+  }
+  return dates;
+}
+
+function constantReturns(dates: string[], value: number): DailyReturn[] {
+  return dates.map((date) => ({ date, return: value }));
+}
+
+describe('Return Series Service', () => {
+  describe('detectFrequency', () => {
+    it('recognizes annual, monthly, weekly and daily series', () => {
+      expect(detectFrequency(['2020', '2021', '2022'])).toBe('annual');
+      expect(detectFrequency(['2020-12-31', '2021-12-31', '2022-12-30'])).toBe('annual');
+      expect(detectFrequency(['2020-01', '2020-02', '2020-03'])).toBe('monthly');
+      expect(detectFrequency(['2020-01-31', '2020-02-29', '2020-03-31', '2020-04-30'])).toBe('monthly');
+      expect(detectFrequency(dateRange('2020-01-03', '2020-06-26', 7))).toBe('weekly');
+      expect(detectFrequency(dateRange('2020-01-01', '2020-03-31'))).toBe('daily');
+    });
+
+    it('treats sparse daily samples spanning years as irregular', () => {
+      const sparse = [
+        ...dateRange('2000-05-26', '2000-06-09'),
+        ...dateRange('2008-09-29', '2008-10-15'),
+        ...dateRange('2020-03-12', '2020-03-30'),
+      ];
+      expect(detectFrequency(sparse)).toBe('irregular');
+    });
+  });
+
+  describe('aggregateReturns', () => {
+    it('compounds daily returns into complete calendar years and drops partial ones', () => {
+      const dates = dateRange('2019-07-01', '2022-03-31');
+      const { returns, warnings } = aggregateReturns(constantReturns(dates, 0.001), 'annual');
+
+      expect(returns.map((r) => r.date)).toEqual(['2020', '2021']);
+      const days2020 = dates.filter((d) => d.startsWith('2020')).length;
+      expect(returns[0].return).toBeCloseTo(Math.pow(1.001, days2020) - 1, 12);
+
+      const messages = warnings.map((w) => w.message);
+      expect(messages).toContain('Dropped partial year 2019 (data covers 2019-07-01 to 2019-12-31).');
+      expect(messages).toContain('Dropped partial year 2022 (data covers 2022-01-03 to 2022-03-31).');
+    });
+
+    it('keeps partial periods when asked, with a warning', () => {
+      const dates = dateRange('2021-01-04', '2022-06-30');
+      const { returns, warnings } = aggregateReturns(constantReturns(dates, 0.001), 'annual', {
+        partialPeriods: 'keep',
+      });
+
+      expect(returns.map((r) => r.date)).toEqual(['2021', '2022']);
+      expect(warnings.some((w) => w.type === 'gap' && w.message.startsWith('Partial year 2022'))).toBe(true);
+    });
+
+    it('aggregates weekly returns to months', () => {
+      const dates = dateRange('2021-01-01', '2021-03-26', 7);
+      const { returns } = aggregateReturns(constantReturns(dates, 0.01), 'monthly');
+
+      expect(returns.map((r) => r.date)).toEqual(['2021-01', '2021-02', '2021-03']);
+      const janWeeks = dates.filter((d) => d.startsWith('2021-01')).length;
+      expect(returns[0].return).toBeCloseTo(Math.pow(1.01, janWeeks) - 1, 12);
+    });
+
+    it('requires all twelve months when compounding monthly data to years', () => {
+      const months = [
+        ...Array.from({ length: 12 }, (_, i) => `2020-${String(i + 1).padStart(2, '0')}`),
+        '2021-01',
+        '2021-02',
+      ];
+      const { returns, warnings } = aggregateReturns(constantReturns(months, 0.01), 'annual');
+
+      expect(returns).toEqual([{ date: '2020', return: Math.pow(1.01, 12) - 1 }]);
+      expect(warnings.some((w) => w.message.startsWith('Dropped partial year 2021'))).toBe(true);
+    });
+
+    it('reports gaps inside the data and missing periods', () => {
+      const dates = [
+        ...dateRange('2018-01-01', '2018-12-31'),
+        ...dateRange('2020-01-01', '2020-12-31').filter((d) => d < '2020-05-01' || d > '2020-06-15'),
+      ];
+      const { returns, warnings } = aggregateReturns(constantReturns(dates, 0), 'annual');
+
+      expect(returns.map((r) => r.date)).toEqual(['2018', '2020']);
+      const messages = warnings.map((w) => w.message);
+      expect(messages).toContain('Missing data between 2020-04-30 and 2020-06-16 (47 days).');
+      expect(messages).toContain('No usable data for year 2019.');
+    });
+
+    it('flags extreme annual results', () => {
+      const dates = dateRange('2020-01-01', '2020-12-31');
+      const { warnings } = aggregateReturns(constantReturns(dates, 0.01), 'annual');
+      expect(warnings.some((w) => w.type === 'extreme_value')).toBe(true);
+    });
+
+    it('passes annual data through and refuses to split it into months', () => {
+      const annual = [{ date: '2020-12-31', return: 0.1 }, { date: '2021-12-31', return: -0.05 }];
+      expect(aggregateReturns(annual, 'annual').returns).toEqual([
+        { date: '2020', return: 0.1 },
+        { date: '2021', return: -0.05 },
+      ]);
+      expect(() => aggregateReturns(annual, 'monthly')).toThrow(/monthly returns from annual/);
+    });
+  });
+
+  describe('pricesToReturns', () => {
+    it('prefers adjusted closes when every observation has one', () => {
+      const prices: PriceObservation[] = [
+        { date: '2021-01-04', close: 100, adjClose: 50 },
+        { date: '2021-01-05', close: 110, adjClose: 51 },
+      ];
+      const { returns } = pricesToReturns(prices);
+      expect(returns).toEqual([{ date: '2021-01-05', return: 51 / 50 - 1 }]);
+    });
+
+    it('adjusts raw closes for recorded splits and dividends', () => {
+      const prices: PriceObservation[] = [
+        { date: '2021-01-04', close: 200 },
+        { date: '2021-01-05', close: 101, splitRatio: 2 },
+        { date: '2021-01-06', close: 100, dividend: 2 },
+      ];
+      const { returns, warnings } = pricesToReturns(prices);
+
+      expect(returns[0].return).toBeCloseTo(0.01, 12);
+      expect(returns[1].return).toBeCloseTo(0.0099, 4);
+      expect(warnings).toEqual([]);
+    });
+
+    it('warns about large unexplained moves and invalid prices', () => {
+      const prices: PriceObservation[] = [
+        { date: '2021-01-04', close: 200 },
+        { date: '2021-01-05', close: 0 },
+        { date: '2021-01-06', close: 100 },
+      ];
+      const { returns, warnings } = pricesToReturns(prices);
+
+      expect(returns).toEqual([{ date: '2021-01-06', return: -0.5 }]);
+      expect(warnings.map((w) => w.type)).toEqual(['anomaly', 'anomaly']);
+      expect(warnings[1].message).toContain('unadjusted corporate action');
+    });
+  });
+
+  describe('toAnnualReturns', () => {
+    it('leaves irregular series unchanged with a warning', () => {
+      const series = constantReturns([
+        ...dateRange('2000-05-26', '2000-06-09'),
+        ...dateRange('2008-09-29', '2008-10-15'),
+      ], 0.01);
+      const { returns, warnings } = toAnnualReturns(series);
+      expect(returns).toBe(series);
+      expect(warnings[0].type).toBe('anomaly');
+    });
+  });
+
+  describe('import validation', () => {
+    it('converts a daily CSV import to calendar-year returns', () => {
+      const dates = dateRange('2015-01-01', '2021-12-31');
+      const csv = 'year,annual_return\n' + dates.map((d) => `${d},0.0002`).join('\n');
+      const result = parseAndValidateCsv(csv, 'daily', 'Daily Import');
+
+      expect(result.valid).toBe(true);
+      expect(result.data?.returns.map((r) => r.date)).toEqual([
+        '2015', '2016', '2017', '2018', '2019', '2020', '2021',
+      ]);
+    });
+
+    it('rejects a daily import that covers too few complete years', () => {
+      const dates = dateRange('2020-06-01', '2022-12-31');
+      const csv = 'year,annual_return\n' + dates.map((d) => `${d},0.0002`).join('\n');
+      const result = parseAndValidateCsv(csv, 'short', 'Short Import');
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].type).toBe('insufficient_data');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHARE_LINK_VERSION,
+  buildShareLink,
+  decodeShareFragment,
+  encodeShareFragment,
+  type SharedScenario,
+} from '../services/share-link-service';
+
+describe('Share links', () => {
+  const scenario: SharedScenario = {
+    name: 'Retire at 60',
+    assets: [
+      { id: 'SPY', symbol: 'SPY', name: 'S&P 500', assetClass: 'equity', weight: 0.7, costBasisRatio: 0.3 },
+      { id: 'BND', symbol: 'BND', name: 'Total Bond', assetClass: 'bond', weight: 0.3 },
+    ],
+    initialValue: 3_000_000,
+    timeHorizon: 25,
+    annualWithdrawal: 150_000,
+    sblocRate: 0.065,
+    returnModel: 'regime',
+    seed: '123456789',
+  };
+
+  it('restores the scenario from a link', async () => {
+    const link = await buildShareLink(scenario, 'https://example.com/evelo/?x=1#old');
+    expect(link.startsWith(`https://example.com/evelo/?x=1#scenario=${SHARE_LINK_VERSION}.`)).toBe(true);
+    expect(link).not.toMatch(/[+/=]$/);
+
+    const restored = await decodeShareFragment(new URL(link).hash);
+    expect(restored).toMatchObject(scenario);
+    expect(restored?.id).toBeUndefined();
+  });
+
+  it('returns null when the fragment holds no scenario', async () => {
+    expect(await decodeShareFragment('')).toBeNull();
+    expect(await decodeShareFragment('#section=results')).toBeNull();
+  });
+
+  it('names unnamed scenarios', async () => {
+    const fragment = await encodeShareFragment({ ...scenario, name: '' });
+    expect((await decodeShareFragment(fragment))?.name).toBe('Shared scenario');
+  });
+
+  it('rejects damaged, invalid and newer links', async () => {
+    const fragment = await encodeShareFragment(scenario);
+    const payload = fragment.split('.')[1];
+
+    await expect(decodeShareFragment('scenario=1.not-deflated')).rejects.toThrow('Invalid scenario link');
+    await expect(decodeShareFragment(`scenario=x.${payload}`)).rejects.toThrow('Invalid scenario link');
+    await expect(decodeShareFragment(`scenario=${SHARE_LINK_VERSION + 1}.${payload}`)).rejects.toThrow('newer version');
+
+    const unbalanced = await encodeShareFragment({
+      ...scenario,
+      assets: scenario.assets.map(a => ({ ...a, weight: 0.9 })),
+    });
+    await expect(decodeShareFragment(unbalanced)).rejects.toThrow('Invalid scenario link');
+  });
+});
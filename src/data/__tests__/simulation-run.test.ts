@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { compressResults, decompressResults } from '../services/simulation-run-service';
+import { exportResultsToJson, parseResultsJson } from '../services/results-export-service';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { PortfolioConfig, SimulationConfig } from '../../simulation/types';
+
+describe('Simulation run storage', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [{ id: 'A', weight: 1, historicalReturns: [0.12, -0.08, 0.21, 0.05, 0.15, -0.02, 0.09] }],
+    correlationMatrix: [[1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 500,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0.025,
+    resamplingMethod: 'simple',
+    seed: 'history',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 50_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  it('restores compressed results exactly', async () => {
+    const output = await runMonteCarlo(config, portfolio);
+    const compressed = await compressResults(output, config);
+    const restored = await decompressResults(compressed);
+
+    expect(compressed.byteLength).toBeLessThan(
+      exportResultsToJson(output, config, { includeTerminalValues: true }).length / 2
+    );
+    expect(restored.terminalValues).toBeInstanceOf(Float64Array);
+    expect(Array.from(restored.terminalValues)).toEqual(Array.from(output.terminalValues));
+    expect(restored.sellStrategy!.terminalValues).toEqual(output.sellStrategy!.terminalValues);
+    expect(restored.yearlyPercentiles).toEqual(output.yearlyPercentiles);
+    expect(restored.sblocTrajectory).toEqual(output.sblocTrajectory);
+    expect(restored.seed).toBe('history');
+  });
+
+  it('rejects exports that cannot be reopened', async () => {
+    const output = await runMonteCarlo({ ...config, iterations: 100 }, portfolio);
+    const json = exportResultsToJson(output, config);
+
+    expect(() => parseResultsJson(json)).toThrow('without terminal values');
+    expect(() => parseResultsJson('{"schema":"other"}')).toThrow('Not a simulation results export');
+    expect(() => parseResultsJson(json.replace('"version": 1', '"version": 99'))).toThrow('version 99');
+  });
+});
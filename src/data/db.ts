@@ -2,7 +2,7 @@
  * Dexie database singleton for eVelo
  *
  * Provides typed IndexedDB access for portfolios, market data cache,
- * and user settings.
+ * user settings, pinned comparison scenarios and the simulation run history.
  */
 
 import Dexie, { type EntityTable } from 'dexie';
@@ -10,6 +10,8 @@ import type { PortfolioRecord } from './schemas/portfolio';
 import type { CachedMarketData } from './schemas/market-data';
 import type { UserSettings } from './schemas/settings';
 import type { CustomMarketData } from './schemas/custom-market-data';
+import type { ScenarioRecord } from './schemas/scenario';
+import type { SimulationRunRecord } from './schemas/simulation-run';
 
 // Safari lazy-load workaround
 // Safari can hang on first IndexedDB access if it's complex
@@ -26,6 +28,8 @@ class EveloDatabase extends Dexie {
   marketData!: EntityTable<CachedMarketData, 'id'>;
   settings!: EntityTable<UserSettings, 'id'>;
   customMarketData!: EntityTable<CustomMarketData, 'id'>;
+  scenarios!: EntityTable<ScenarioRecord, 'id'>;
+  simulationRuns!: EntityTable<SimulationRunRecord, 'id'>;
 
   constructor() {
     super('evelo');
@@ -50,6 +54,29 @@ class EveloDatabase extends Dexie {
       settings: 'id',
       customMarketData: '++id, symbol, importedAt'
     });
+
+    // Schema version 3
+    // Added:
+    // - scenarios: pinned simulation runs for N-way comparison
+    this.version(3).stores({
+      portfolios: '++id, name, modified',
+      marketData: '++id, [symbol+source], fetchedAt',
+      settings: 'id',
+      customMarketData: '++id, symbol, importedAt',
+      scenarios: '++id, pinnedAt'
+    });
+
+    // Schema version 4
+    // Added:
+    // - simulationRuns: completed runs with compressed results, for the run history
+    this.version(4).stores({
+      portfolios: '++id, name, modified',
+      marketData: '++id, [symbol+source], fetchedAt',
+      settings: 'id',
+      customMarketData: '++id, symbol, importedAt',
+      scenarios: '++id, pinnedAt',
+      simulationRuns: '++id, createdAt, *tags'
+    });
   }
 }
 
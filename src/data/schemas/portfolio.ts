@@ -6,6 +6,17 @@
  */
 
 import type { AssetClass } from '../../types/portfolio';
+import type { LTVByAssetClass } from '../../sbloc/types';
+import type {
+  ConvergenceConfig,
+  CostBasisLot,
+  FatTailParamsOverrides,
+  EstateTaxConfig,
+  IncomeTaxConfig,
+  InterestRateModelConfig,
+  LiquidationConfig,
+  RebalancingConfig,
+} from '../../simulation/types';
 
 /**
  * Individual asset record within a portfolio
@@ -16,6 +27,8 @@ export interface AssetRecord {
   name: string;
   assetClass: AssetClass;
   weight: number; // 0-1
+  costBasisRatio?: number; // 0-1, undefined = portfolio-wide sell strategy ratio
+  lots?: CostBasisLot[]; // Purchase lots, overrides costBasisRatio when present
 }
 
 /**
@@ -44,15 +57,24 @@ export interface PortfolioRecord {
 
   // SBLOC Terms
   sblocRate?: number; // 0-1 scale (not percent)
+  rateModel?: InterestRateModelConfig; // Variable rate, 0-1 scale; omitted = fixed sblocRate
   maxBorrowing?: number; // 0-1 scale (not percent)
   maintenanceMargin?: number; // 0-1 scale (not percent)
   liquidationHaircut?: number; // 0-1 scale (not percent)
+  ltvByAssetClass?: LTVByAssetClass; // Advance rates 0-1; omitted = single max LTV
 
   // Simulation Settings
-  iterations?: number;
+  iterations?: number; // Iteration cap when convergence is set
+  convergence?: ConvergenceConfig; // Auto iterations (tolerance in %); omitted = fixed count
   inflationRate?: number; // 0-1 scale (not percent)
-  returnModel?: 'bootstrap' | 'regime';
+  returnModel?: 'bootstrap' | 'block' | 'regime' | 'fat-tail';
   regimeCalibration?: 'historical' | 'conservative';
+  blockSize?: number; // Years per block; omitted = auto (optimalBlockLength)
+  fatTailParams?: FatTailParamsOverrides; // Per-asset-class overrides of FAT_TAIL_PARAMS
+  seed?: string; // Fixed RNG seed (digits); omitted = fresh seed each run
+  timeStep?: 'annual' | 'monthly'; // Simulation step; omitted = annual
+  rebalancing?: RebalancingConfig; // Band and cost 0-1; omitted = annual, no cost
+  liquidation?: LiquidationConfig; // Sale order for forced and sell-strategy sales; omitted = pro-rata
 
   // Withdrawal Chapters
   withdrawalChapters?: {
@@ -68,5 +90,9 @@ export interface PortfolioRecord {
     dividendYield: number; // 0-1 scale (not percent)
     ordinaryTaxRate: number; // 0-1 scale (not percent)
     ltcgTaxRate: number; // 0-1 scale (not percent)
+    incomeTax?: IncomeTaxConfig; // Progressive brackets; omitted = flat rates above
   };
+
+  // Estate Tax
+  estateTax?: EstateTaxConfig; // Rate 0-1, exemption in USD; omitted = no estate tax
 }
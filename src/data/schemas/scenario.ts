@@ -0,0 +1,21 @@
+/**
+ * Scenario schema for IndexedDB storage
+ *
+ * A scenario is a pinned simulation run kept for side-by-side comparison.
+ * Results are stored whole; IndexedDB's structured clone keeps the
+ * Float64Array of terminal values intact.
+ */
+
+import type { SimulationConfig, SimulationOutput } from '../../simulation/types';
+
+/**
+ * Pinned simulation run stored in IndexedDB
+ */
+export interface ScenarioRecord {
+  id?: number;                    // Auto-increment primary key
+  name: string;                   // User-facing label, e.g. "65% LTV"
+  pinnedAt: string;               // ISO timestamp, orders the scenario set
+  isBaseline: boolean;            // Deltas are measured against this scenario
+  config: SimulationConfig;       // Configuration the run was produced with
+  result: SimulationOutput;       // Full simulation output
+}
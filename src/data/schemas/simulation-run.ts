@@ -0,0 +1,31 @@
+/**
+ * Simulation run schema for IndexedDB storage
+ *
+ * A simulation run is a completed run kept in the run history, so results
+ * survive closing the tab and can be reopened without re-simulating. The
+ * summary fields are stored plainly for listing; the full output is stored
+ * as the gzip-compressed JSON results export.
+ */
+
+import type { PortfolioConfig, SimulationConfig, SimulationStatistics } from '../../simulation/types';
+
+/**
+ * Completed simulation run stored in IndexedDB
+ */
+export interface SimulationRunRecord {
+  id?: number;                    // Auto-increment primary key
+  name: string;                   // User-facing label
+  tags: string[];                 // User-assigned tags, e.g. ["retirement", "65% LTV"]
+  createdAt: string;              // ISO timestamp of the run
+  seed?: string;                  // Seed the run was initialized with
+  iterations: number;             // Iterations completed
+  config: SimulationConfig;       // Configuration the run was produced with
+  portfolio: PortfolioConfig;     // Portfolio the run was produced with (for replay and backtests)
+  statistics: SimulationStatistics; // Terminal value statistics, for the history list
+  results: Uint8Array<ArrayBuffer>; // Gzip-compressed JSON results export
+}
+
+/**
+ * Simulation run without its compressed results, as listed in the run history
+ */
+export type SimulationRunSummary = Omit<SimulationRunRecord, 'results'>;
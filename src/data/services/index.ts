@@ -43,6 +43,7 @@ export type { PortfolioExport } from './portfolio-service';
 
 // Market data service
 export {
+  createApiClient,
   getCachedOrFetch,
   fetchMarketData,
   clearCache,
@@ -52,6 +53,32 @@ export {
 
 export type { CacheStats } from './market-data-service';
 
+// Live market data service
+export {
+  API_SOURCE_LABELS,
+  normalizeTicker,
+  toAnnualPresetData,
+  fetchLiveData,
+  getLiveData,
+  getLiveMonthlyReturns,
+  getLiveSymbols
+} from './live-data-service';
+
+export type { LiveDataResult } from './live-data-service';
+
+// Return series service
+export {
+  detectFrequency,
+  pricesToReturns,
+  aggregateReturns,
+  toAnnualReturns,
+  type SeriesFrequency,
+  type AggregationPeriod,
+  type PriceObservation,
+  type ReturnSeriesResult,
+  type AggregationOptions
+} from './return-series-service';
+
 // Settings service
 export {
   SETTINGS_ID,
@@ -81,6 +108,33 @@ export {
 
 export type { CustomMarketData } from '../schemas/custom-market-data';
 
+// Scenario service
+export {
+  pinScenario,
+  loadScenarios,
+  renameScenario,
+  setBaselineScenario,
+  deleteScenario,
+  clearScenarios
+} from './scenario-service';
+
+export type { ScenarioRecord } from '../schemas/scenario';
+
+// Simulation run service
+export {
+  MAX_SIMULATION_RUNS,
+  compressResults,
+  decompressResults,
+  saveSimulationRun,
+  loadSimulationRuns,
+  loadSimulationRun,
+  renameSimulationRun,
+  setSimulationRunTags,
+  deleteSimulationRun
+} from './simulation-run-service';
+
+export type { SimulationRunRecord, SimulationRunSummary } from '../schemas/simulation-run';
+
 // Bulk export service
 export {
   exportAllToCsv,
@@ -97,3 +151,32 @@ export {
   type ParsedBulkData,
   type ParsedAsset
 } from './bulk-import-service';
+
+// Results export service
+export {
+  RESULTS_EXPORT_SCHEMA,
+  RESULTS_EXPORT_VERSION,
+  buildResultsTables,
+  exportResultsToCsv,
+  exportResultsToJson,
+  exportResultsToSpreadsheet,
+  parseResultsJson,
+  downloadResults,
+  type ResultsExportFormat,
+  type ResultsExportOptions,
+  type ResultsTable,
+  type ResultsCell,
+  type ResultsJsonExport,
+  type SerializedSimulationOutput,
+  type SerializedSellStrategyOutput
+} from './results-export-service';
+
+// Share link service
+export {
+  SHARE_LINK_VERSION,
+  encodeShareFragment,
+  buildShareLink,
+  decodeShareFragment,
+  findUnknownSymbols,
+  type SharedScenario
+} from './share-link-service';
@@ -0,0 +1,208 @@
+/**
+ * Live market data service
+ *
+ * Fetches historical prices for any ticker from the user's preferred
+ * API provider (UserSettings.preferredSource), caches the daily returns
+ * in the marketData table and converts them to the annual PresetData
+ * shape the simulation consumes.
+ *
+ * Never substitutes synthetic data: a symbol that cannot be fetched or
+ * does not have enough history is reported as an error.
+ */
+
+import type { ApiSource, DailyReturn } from '../schemas/market-data';
+import type { PresetData, PresetReturn } from './preset-service';
+import type { ValidationWarning } from '../validation/data-validator';
+import { aggregateReturns } from './return-series-service';
+import { getSettings } from './settings-service';
+import { createApiClient, getCachedData, getCachedOrFetch, getCacheStats } from './market-data-service';
+import { getCorsProxyUrl } from '../api/cors-proxy';
+
+/**
+ * Display names for API sources (used in messages and settings)
+ */
+export const API_SOURCE_LABELS: Record<ApiSource, string> = {
+  fmp: 'Financial Modeling Prep',
+  eodhd: 'EOD Historical Data',
+  alphavantage: 'Alpha Vantage',
+  tiingo: 'Tiingo',
+  yahoo: 'Yahoo Finance'
+};
+
+/**
+ * Fetched data converted for simulation, with data-quality warnings
+ */
+export interface LiveDataResult {
+  data: PresetData;
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Default number of calendar years of history to request
+ */
+const DEFAULT_HISTORY_YEARS = 30;
+
+/**
+ * Minimum complete calendar years needed for a usable return series
+ */
+const MIN_ANNUAL_RETURNS = 2;
+
+/**
+ * Accepted ticker format (letters, digits and common exchange punctuation)
+ */
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-^=]{0,14}$/;
+
+/**
+ * Normalize a user-entered ticker, or return null if it is not a plausible symbol
+ *
+ * @param input - Raw ticker text
+ * @returns Upper-case ticker or null
+ */
+export function normalizeTicker(input: string): string | null {
+  const symbol = input.trim().toUpperCase();
+  return TICKER_PATTERN.test(symbol) ? symbol : null;
+}
+
+/**
+ * Compound daily returns into calendar-year total returns
+ *
+ * Partial first/last years of a fetched range are dropped (see
+ * aggregateReturns) so they don't bias the annual distribution.
+ *
+ * @param symbol - Ticker symbol for the resulting dataset
+ * @param daily - Daily returns in chronological order
+ * @returns Annual PresetData (dates are 'YYYY', like the bundled presets) and warnings
+ * @throws Error if fewer than two complete years are available
+ */
+export function toAnnualPresetData(symbol: string, daily: DailyReturn[]): LiveDataResult {
+  const { returns, warnings } = aggregateReturns(daily, 'annual');
+
+  if (returns.length < MIN_ANNUAL_RETURNS) {
+    throw new Error(
+      `Not enough history for ${symbol}: ${returns.length} complete calendar year(s), need at least ${MIN_ANNUAL_RETURNS}`
+    );
+  }
+
+  const keptYears = new Set(returns.map((r) => r.date));
+  const keptDays = daily.filter((d) => keptYears.has(d.date.slice(0, 4)));
+
+  return {
+    data: {
+      symbol,
+      name: symbol,
+      startDate: keptDays[0].date,
+      endDate: keptDays[keptDays.length - 1].date,
+      returns
+    },
+    warnings
+  };
+}
+
+/**
+ * Fetch annual returns for a ticker from the preferred API provider
+ *
+ * Daily data is cached in the marketData table, so repeat requests within
+ * the cache window do not hit the provider.
+ *
+ * @param symbol - Ticker symbol (any case)
+ * @param years - Calendar years of history to request
+ * @returns Annual PresetData for the symbol and data-quality warnings
+ * @throws Error if the ticker is invalid, no API key is configured,
+ *   the provider request fails, or the history is too short
+ */
+export async function fetchLiveData(
+  symbol: string,
+  years: number = DEFAULT_HISTORY_YEARS
+): Promise<LiveDataResult> {
+  const ticker = normalizeTicker(symbol);
+  if (!ticker) {
+    throw new Error(`"${symbol}" is not a valid ticker symbol`);
+  }
+
+  const settings = await getSettings();
+  const source = settings.preferredSource;
+  const label = API_SOURCE_LABELS[source];
+  const apiKey = source === 'yahoo' ? '' : settings.apiKeys[source] ?? '';
+  if (source !== 'yahoo' && !apiKey) {
+    throw new Error(`No API key configured for ${label}. Add one in Settings to fetch ${ticker}.`);
+  }
+
+  const corsProxyUrl = getCorsProxyUrl({
+    type: settings.corsProxyType,
+    customUrl: settings.corsProxyUrl
+  });
+
+  const now = new Date();
+  const startDate = `${now.getFullYear() - years}-01-01`;
+  const endDate = now.toISOString().split('T')[0];
+  const client = createApiClient(source, apiKey, corsProxyUrl);
+
+  let daily: DailyReturn[];
+  try {
+    daily = await getCachedOrFetch(ticker, source, startDate, endDate, () =>
+      client.getHistoricalData(ticker, startDate, endDate)
+    );
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not fetch ${ticker} from ${label}: ${reason}`);
+  }
+
+  return toAnnualPresetData(ticker, daily);
+}
+
+/**
+ * Get annual data for a previously fetched ticker from the cache
+ *
+ * Uses the most recently fetched record regardless of age, so fetched
+ * tickers stay usable offline.
+ *
+ * @param symbol - Ticker symbol (any case)
+ * @returns Annual PresetData, or undefined if not cached or too short
+ */
+export async function getLiveData(symbol: string): Promise<PresetData | undefined> {
+  const ticker = symbol.toUpperCase();
+  try {
+    const records = await getCachedData(ticker);
+    if (records.length === 0) return undefined;
+
+    const latest = records.reduce((a, b) => (a.fetchedAt >= b.fetchedAt ? a : b));
+    return toAnnualPresetData(ticker, latest.data).data;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get calendar-month returns for a previously fetched ticker from the cache
+ *
+ * Used by the monthly simulation mode to resample real months. Partial
+ * first/last months are dropped.
+ *
+ * @param symbol - Ticker symbol (any case)
+ * @returns Monthly returns with 'YYYY-MM' dates, or undefined if not cached
+ */
+export async function getLiveMonthlyReturns(symbol: string): Promise<PresetReturn[] | undefined> {
+  const ticker = symbol.toUpperCase();
+  try {
+    const records = await getCachedData(ticker);
+    if (records.length === 0) return undefined;
+
+    const latest = records.reduce((a, b) => (a.fetchedAt >= b.fetchedAt ? a : b));
+    return aggregateReturns(latest.data, 'monthly').returns;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get all tickers that have cached live data
+ *
+ * @returns Sorted array of symbols
+ */
+export async function getLiveSymbols(): Promise<string[]> {
+  try {
+    return (await getCacheStats()).symbols;
+  } catch {
+    return [];
+  }
+}
@@ -9,10 +9,12 @@
 import { db } from '../db';
 import type { DailyReturn, ApiSource, CachedMarketData } from '../schemas/market-data';
 import {
+  RateLimitedApiClient,
   FmpApiClient,
   EodhdApiClient,
   AlphaVantageApiClient,
-  TiingoApiClient
+  TiingoApiClient,
+  YahooApiClient
 } from '../api';
 
 /**
@@ -85,6 +87,35 @@ export async function getCachedOrFetch(
   return freshData;
 }
 
+/**
+ * Create the API client for a data source
+ *
+ * @param source - API source to use
+ * @param apiKey - API key for the selected source (ignored by Yahoo)
+ * @param corsProxyUrl - Optional CORS proxy URL prefix
+ * @returns Rate-limited client for the source
+ */
+export function createApiClient(
+  source: ApiSource,
+  apiKey: string,
+  corsProxyUrl?: string
+): RateLimitedApiClient {
+  switch (source) {
+    case 'fmp':
+      return new FmpApiClient(apiKey, corsProxyUrl);
+    case 'eodhd':
+      return new EodhdApiClient(apiKey, corsProxyUrl);
+    case 'alphavantage':
+      return new AlphaVantageApiClient(apiKey, corsProxyUrl);
+    case 'tiingo':
+      return new TiingoApiClient(apiKey, corsProxyUrl);
+    case 'yahoo':
+      return new YahooApiClient(corsProxyUrl);
+    default:
+      throw new Error(`Unknown API source: ${source}`);
+  }
+}
+
 /**
  * Fetch market data using appropriate API client with caching
  *
@@ -104,36 +135,11 @@ export async function fetchMarketData(
   apiKey: string,
   corsProxyUrl?: string
 ): Promise<DailyReturn[]> {
-  // Create appropriate API client based on source
-  const createFetchFn = (): (() => Promise<DailyReturn[]>) => {
-    switch (source) {
-      case 'fmp': {
-        const client = new FmpApiClient(apiKey, corsProxyUrl);
-        return () => client.getHistoricalData(symbol, startDate, endDate);
-      }
-      case 'eodhd': {
-        const client = new EodhdApiClient(apiKey, corsProxyUrl);
-        return () => client.getHistoricalData(symbol, startDate, endDate);
-      }
-      case 'alphavantage': {
-        const client = new AlphaVantageApiClient(apiKey, corsProxyUrl);
-        return () => client.getHistoricalData(symbol, startDate, endDate);
-      }
-      case 'tiingo': {
-        const client = new TiingoApiClient(apiKey, corsProxyUrl);
-        return () => client.getHistoricalData(symbol, startDate, endDate);
-      }
-      case 'yahoo':
-        // Yahoo is not implemented - use bundled presets as fallback
-        throw new Error(
-          'Yahoo Finance API not implemented. Use bundled presets for historical data.'
-        );
-      default:
-        throw new Error(`Unknown API source: ${source}`);
-    }
-  };
+  const client = createApiClient(source, apiKey, corsProxyUrl);
 
-  return getCachedOrFetch(symbol, source, startDate, endDate, createFetchFn());
+  return getCachedOrFetch(symbol, source, startDate, endDate, () =>
+    client.getHistoricalData(symbol, startDate, endDate)
+  );
 }
 
 /**
@@ -152,10 +158,10 @@ export async function clearCache(
     return db.marketData.where('[symbol+source]').equals([symbol, source]).delete();
   } else if (symbol) {
     // Clear all sources for a symbol
-    return db.marketData.where('symbol').equals(symbol).delete();
+    return db.marketData.filter((record) => record.symbol === symbol).delete();
   } else if (source) {
     // Clear all symbols for a source
-    return db.marketData.where('source').equals(source).delete();
+    return db.marketData.filter((record) => record.source === source).delete();
   } else {
     // Clear all cached data
     return db.marketData.clear().then(() => -1); // -1 indicates "all cleared"
@@ -204,5 +210,6 @@ export async function getCachedData(
     return record ? [record] : [];
   }
 
-  return db.marketData.where('symbol').equals(symbol).toArray();
+  // marketData only indexes [symbol+source], so scan for symbol-only lookups
+  return db.marketData.filter((record) => record.symbol === symbol).toArray();
 }
@@ -8,6 +8,8 @@
 
 import { db } from '../db';
 import type { PortfolioRecord, AssetRecord } from '../schemas/portfolio';
+import { STATE_DEATH_TAXES } from '../../calculations/estate-tax';
+import { STATE_INCOME_TAXES } from '../../calculations/income-tax';
 
 // =============================================================================
 // Debug Logging
@@ -324,6 +326,39 @@ export const EXPORT_VERSION = 1;
 /** Tolerance for weight sum validation */
 const WEIGHT_TOLERANCE = 0.01;
 
+/** Return models a portfolio may persist */
+const VALID_RETURN_MODELS = ['bootstrap', 'block', 'regime', 'fat-tail'];
+
+/** Simulation time steps a portfolio may persist */
+const VALID_TIME_STEPS = ['annual', 'monthly'];
+
+/** Rebalancing policies a portfolio may persist */
+const VALID_REBALANCING_STRATEGIES = ['none', 'annual', 'quarterly', 'threshold'];
+
+/** Sale orderings a portfolio may persist */
+const VALID_LIQUIDATION_ORDERS = ['pro-rata', 'highest-basis', 'lowest-gain', 'specific-asset'];
+
+/** Benchmark processes a variable-rate model may persist */
+const VALID_RATE_PROCESSES = ['mean-reverting', 'regime'];
+
+/** Federal exemption scenarios an estate tax setting may persist */
+const VALID_EXEMPTION_SCENARIOS = ['current-law', 'sunset', 'custom'];
+
+/** Federal filing statuses an income tax setting may persist */
+const VALID_FILING_STATUSES = ['single', 'married-joint', 'married-separate', 'head-of-household'];
+
+/** Optional 0-1 fields of a variable-rate model */
+const RATE_MODEL_FIELDS = ['longRunBenchmark', 'reversionSpeed', 'volatility', 'floor', 'cap'];
+
+/** Collateral classes of a persisted advance-rate table */
+const LTV_ASSET_CLASSES = ['equities', 'bonds', 'cash'];
+
+/** Asset classes accepted in fat-tail parameter overrides */
+const FAT_TAIL_ASSET_CLASSES = ['equity_stock', 'equity_index', 'commodity', 'bond'];
+
+/** Fields of a fat-tail parameter override */
+const FAT_TAIL_FIELDS = ['survivorshipBias', 'volatilityScaling', 'degreesOfFreedom', 'skewMultiplier'];
+
 /**
  * Exported portfolio file format
  */
@@ -381,6 +416,7 @@ export function validatePortfolio(p: unknown): p is PortfolioRecord {
     if (typeof a.name !== 'string') return false;
     if (typeof a.assetClass !== 'string') return false;
     if (typeof a.weight !== 'number' || a.weight < 0 || a.weight > 1) return false;
+    if (!validateAssetCostBasis(a)) return false;
 
     weightSum += a.weight;
   }
@@ -390,6 +426,195 @@ export function validatePortfolio(p: unknown): p is PortfolioRecord {
     return false;
   }
 
+  return validateReturnModelSettings(record) && validateEstateTax(record) && validateIncomeTax(record);
+}
+
+/**
+ * Validate the optional progressive income tax settings of a portfolio
+ * (taxModeling.incomeTax). Absent fields are valid.
+ */
+function validateIncomeTax(record: Record<string, unknown>): boolean {
+  if (typeof record.taxModeling !== 'object' || record.taxModeling === null) {
+    return true;
+  }
+  const { incomeTax } = record.taxModeling as Record<string, unknown>;
+  if (incomeTax === undefined) {
+    return true;
+  }
+  if (typeof incomeTax !== 'object' || incomeTax === null) {
+    return false;
+  }
+
+  const { filingStatus, state, otherIncome } = incomeTax as Record<string, unknown>;
+  if (!VALID_FILING_STATUSES.includes(filingStatus as string)) return false;
+  if (state !== undefined && (typeof state !== 'string' || !Object.hasOwn(STATE_INCOME_TAXES, state))) {
+    return false;
+  }
+  if (otherIncome !== undefined &&
+    (typeof otherIncome !== 'number' || !Number.isFinite(otherIncome) || otherIncome < 0)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate the optional estate tax settings of a portfolio. Absent fields are valid.
+ */
+function validateEstateTax(record: Record<string, unknown>): boolean {
+  if (record.estateTax === undefined) {
+    return true;
+  }
+  if (typeof record.estateTax !== 'object' || record.estateTax === null) {
+    return false;
+  }
+
+  const { exemptionScenario, exemption, federalRate, portability, state } =
+    record.estateTax as Record<string, unknown>;
+  if (exemptionScenario !== undefined && !VALID_EXEMPTION_SCENARIOS.includes(exemptionScenario as string)) {
+    return false;
+  }
+  if (exemption !== undefined && (typeof exemption !== 'number' || !(exemption >= 0))) return false;
+  if (federalRate !== undefined && (typeof federalRate !== 'number' || !(federalRate >= 0 && federalRate <= 1))) {
+    return false;
+  }
+  if (portability !== undefined && typeof portability !== 'boolean') return false;
+  if (state !== undefined && (typeof state !== 'string' || !(state in STATE_DEATH_TAXES))) return false;
+
+  return true;
+}
+
+/**
+ * Validate the optional cost basis of an asset (costBasisRatio, lots).
+ * Lot shares must be positive and sum to approximately 1.
+ */
+function validateAssetCostBasis(a: Record<string, unknown>): boolean {
+  const isRatio = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+
+  if (a.costBasisRatio !== undefined && !isRatio(a.costBasisRatio)) {
+    return false;
+  }
+
+  if (a.lots !== undefined) {
+    if (!Array.isArray(a.lots) || a.lots.length === 0) return false;
+    let shareSum = 0;
+    for (const lot of a.lots) {
+      if (typeof lot !== 'object' || lot === null) return false;
+      const { share, costBasisRatio } = lot as Record<string, unknown>;
+      if (typeof share !== 'number' || !(share > 0 && share <= 1)) return false;
+      if (!isRatio(costBasisRatio)) return false;
+      shareSum += share;
+    }
+    if (Math.abs(shareSum - 1) > WEIGHT_TOLERANCE) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate the optional return model settings of a portfolio
+ * (returnModel, blockSize, fatTailParams, seed, timeStep, rebalancing, liquidation,
+ * ltvByAssetClass, rateModel, convergence). Absent fields are valid.
+ */
+function validateReturnModelSettings(record: Record<string, unknown>): boolean {
+  if (record.returnModel !== undefined && !VALID_RETURN_MODELS.includes(record.returnModel as string)) {
+    return false;
+  }
+
+  if (record.blockSize !== undefined) {
+    if (typeof record.blockSize !== 'number' || !Number.isInteger(record.blockSize) || record.blockSize < 1) {
+      return false;
+    }
+  }
+
+  if (record.fatTailParams !== undefined) {
+    if (typeof record.fatTailParams !== 'object' || record.fatTailParams === null) {
+      return false;
+    }
+    for (const [assetClass, params] of Object.entries(record.fatTailParams)) {
+      if (!FAT_TAIL_ASSET_CLASSES.includes(assetClass)) return false;
+      if (typeof params !== 'object' || params === null) return false;
+      for (const [field, value] of Object.entries(params)) {
+        if (!FAT_TAIL_FIELDS.includes(field)) return false;
+        if (typeof value !== 'number' || !isFinite(value)) return false;
+      }
+    }
+  }
+
+  if (record.seed !== undefined) {
+    if (typeof record.seed !== 'string' || !/^\d+$/.test(record.seed)) {
+      return false;
+    }
+  }
+
+  if (record.timeStep !== undefined && !VALID_TIME_STEPS.includes(record.timeStep as string)) {
+    return false;
+  }
+
+  if (record.rebalancing !== undefined) {
+    if (typeof record.rebalancing !== 'object' || record.rebalancing === null) {
+      return false;
+    }
+    const { strategy, thresholdBand, transactionCost } = record.rebalancing as Record<string, unknown>;
+    if (!VALID_REBALANCING_STRATEGIES.includes(strategy as string)) return false;
+    if (thresholdBand !== undefined &&
+      (typeof thresholdBand !== 'number' || !(thresholdBand > 0 && thresholdBand < 1))) {
+      return false;
+    }
+    if (transactionCost !== undefined &&
+      (typeof transactionCost !== 'number' || !(transactionCost >= 0 && transactionCost < 1))) {
+      return false;
+    }
+  }
+
+  if (record.liquidation !== undefined) {
+    if (typeof record.liquidation !== 'object' || record.liquidation === null) {
+      return false;
+    }
+    const { order, assetId } = record.liquidation as Record<string, unknown>;
+    if (!VALID_LIQUIDATION_ORDERS.includes(order as string)) return false;
+    if (assetId !== undefined && typeof assetId !== 'string') return false;
+  }
+
+  if (record.ltvByAssetClass !== undefined) {
+    if (typeof record.ltvByAssetClass !== 'object' || record.ltvByAssetClass === null) {
+      return false;
+    }
+    const limits = record.ltvByAssetClass as Record<string, unknown>;
+    for (const field of LTV_ASSET_CLASSES) {
+      const value = limits[field];
+      if (typeof value !== 'number' || !(value > 0 && value <= 1)) return false;
+    }
+  }
+
+  if (record.rateModel !== undefined) {
+    if (typeof record.rateModel !== 'object' || record.rateModel === null) {
+      return false;
+    }
+    const model = record.rateModel as Record<string, unknown>;
+    if (!VALID_RATE_PROCESSES.includes(model.process as string)) return false;
+    if (typeof model.spread !== 'number' || !(model.spread >= 0 && model.spread < 1)) return false;
+    for (const field of RATE_MODEL_FIELDS) {
+      const value = model[field];
+      if (value !== undefined && (typeof value !== 'number' || !(value >= 0 && value <= 1))) return false;
+    }
+    if (typeof model.floor === 'number' && typeof model.cap === 'number' && model.floor > model.cap) {
+      return false;
+    }
+  }
+
+  if (record.convergence !== undefined) {
+    if (typeof record.convergence !== 'object' || record.convergence === null) {
+      return false;
+    }
+    const { tolerance, minIterations } = record.convergence as Record<string, unknown>;
+    if (typeof tolerance !== 'number' || !(tolerance > 0)) return false;
+    if (minIterations !== undefined &&
+      (typeof minIterations !== 'number' || !Number.isInteger(minIterations) || minIterations < 1)) {
+      return false;
+    }
+  }
+
   return true;
 }
 
@@ -13,6 +13,7 @@
 import stocksData from '../presets/stocks.json';
 import indicesData from '../presets/indices.json';
 import { getCustomData, hasCustomData } from './custom-data-service';
+import { getLiveData } from './live-data-service';
 
 /**
  * Single period's return in a preset dataset
@@ -87,10 +88,11 @@ export function isPresetSymbol(symbol: string): boolean {
  * Get effective data for a symbol (custom data takes precedence)
  *
  * This is the recommended function to use when fetching data for simulation.
- * It checks for user-imported custom data first, falling back to bundled presets.
+ * It checks for user-imported custom data first, then bundled presets, then
+ * live data previously fetched from an API provider.
  *
  * @param symbol - The symbol to look up
- * @returns PresetData if found (custom or bundled), undefined otherwise
+ * @returns PresetData if found (custom, bundled or fetched), undefined otherwise
  */
 export async function getEffectiveData(symbol: string): Promise<PresetData | undefined> {
   const upperSymbol = symbol.toUpperCase();
@@ -108,8 +110,8 @@ export async function getEffectiveData(symbol: string): Promise<PresetData | und
     };
   }
 
-  // Fall back to bundled preset
-  return BUNDLED_PRESETS[upperSymbol];
+  // Fall back to bundled preset, then to cached live data
+  return BUNDLED_PRESETS[upperSymbol] ?? getLiveData(upperSymbol);
 }
 
 /**
@@ -0,0 +1,531 @@
+/**
+ * Results export service for taking simulation results into spreadsheets
+ *
+ * Serializes a SimulationOutput together with the SimulationConfig that
+ * produced it to:
+ * - CSV: every table in one file, each headed by its name
+ * - JSON: the full output under a versioned schema
+ * - SpreadsheetML: a multi-sheet XML workbook that Excel, LibreOffice and
+ *   Numbers open directly
+ *
+ * JSON exports that include terminal values can be parsed back into a
+ * SimulationOutput, which is how the run history stores results.
+ *
+ * The tabular formats report medians per year unless percentile bands are
+ * requested. Raw terminal values are left out unless requested, since they
+ * hold one row per iteration.
+ */
+
+import Papa from 'papaparse';
+import { percentiles } from '../../math';
+import type { SellStrategyOutput, SimulationConfig, SimulationOutput } from '../../simulation/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Output formats of a results export
+ */
+export type ResultsExportFormat = 'csv' | 'json' | 'xls';
+
+/**
+ * Optional, potentially large parts of a results export
+ */
+export interface ResultsExportOptions {
+  /** Include every iteration's terminal value (default: false) */
+  includeTerminalValues?: boolean;
+  /** Include P10-P90 bands per year instead of medians only (tabular formats, default: false) */
+  includePercentiles?: boolean;
+}
+
+/**
+ * Value of one table cell (null = empty)
+ */
+export type ResultsCell = number | string | null;
+
+/**
+ * One table of a results export (one CSV section, one workbook sheet)
+ */
+export interface ResultsTable {
+  /** Table name (at most 31 characters, the workbook sheet name limit) */
+  name: string;
+  columns: string[];
+  rows: ResultsCell[][];
+}
+
+/**
+ * SellStrategyOutput with terminal values as a plain array
+ */
+export type SerializedSellStrategyOutput = Omit<SellStrategyOutput, 'terminalValues'> & {
+  terminalValues?: number[];
+};
+
+/**
+ * SimulationOutput with typed arrays converted for JSON
+ */
+export type SerializedSimulationOutput = Omit<SimulationOutput, 'terminalValues' | 'sellStrategy'> & {
+  terminalValues?: number[];
+  sellStrategy?: SerializedSellStrategyOutput;
+};
+
+/**
+ * JSON export structure
+ */
+export interface ResultsJsonExport {
+  schema: typeof RESULTS_EXPORT_SCHEMA;
+  version: number;
+  exportedAt: string;
+  config: SimulationConfig;
+  output: SerializedSimulationOutput;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Schema identifier of JSON results exports
+ */
+export const RESULTS_EXPORT_SCHEMA = 'evelo-simulation-results';
+
+/**
+ * Current JSON results export version
+ * Increment when the exported structure changes incompatibly
+ */
+export const RESULTS_EXPORT_VERSION = 1;
+
+/**
+ * Terminal value percentiles reported when percentile bands are not requested
+ */
+const DISTRIBUTION_PERCENTILES = [1, 5, 10, 25, 50, 75, 90, 95, 99];
+
+/**
+ * MIME type and file extension per format
+ */
+const FORMAT_FILES: Record<ResultsExportFormat, { type: string; extension: string }> = {
+  csv: { type: 'text/csv', extension: 'csv' },
+  json: { type: 'application/json', extension: 'json' },
+  xls: { type: 'application/vnd.ms-excel', extension: 'xls' },
+};
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+/**
+ * Build the tables of a results export
+ *
+ * Tables without data in the output (e.g. margin calls of a run without an
+ * SBLOC) are left out.
+ *
+ * @param output - Simulation results
+ * @param config - Configuration that produced the results
+ * @param options - Optional parts to include
+ * @returns Tables in display order
+ */
+export function buildResultsTables(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  options: ResultsExportOptions = {}
+): ResultsTable[] {
+  const bands = options.includePercentiles ?? false;
+  const sell = output.sellStrategy;
+  const trajectory = output.sblocTrajectory;
+  const tables: ResultsTable[] = [buildSummaryTable(output, config)];
+
+  // Withdrawals per simulation year (1-based), from the cumulative schedule
+  const cumulative = trajectory?.cumulativeWithdrawals;
+  const withdrawal = (year: number): ResultsCell => {
+    if (!cumulative || year < 1 || year > cumulative.length) return null;
+    return cumulative[year - 1] - (year > 1 ? cumulative[year - 2] : 0);
+  };
+
+  const netWorthColumns = bands
+    ? ['Net Worth P10', 'Net Worth P25', 'Net Worth Median', 'Net Worth P75', 'Net Worth P90']
+    : ['Net Worth Median'];
+  tables.push({
+    name: 'Yearly Analysis',
+    columns: [
+      'Year',
+      ...(trajectory ? ['Withdrawal', 'Cumulative Withdrawals', 'Loan Balance Median'] : []),
+      ...netWorthColumns,
+    ],
+    rows: output.yearlyPercentiles.map(p => {
+      const k = trajectory?.years.indexOf(p.year) ?? -1;
+      return [
+        p.year,
+        ...(trajectory ? [withdrawal(p.year), cumulative![p.year - 1] ?? null, trajectory.loanBalance.p50[k] ?? null] : []),
+        ...(bands ? [p.p10, p.p25, p.p50, p.p75, p.p90] : [p.p50]),
+      ];
+    }),
+  });
+
+  if (sell) {
+    const byAsset = sell.byAsset ?? [];
+    tables.push({
+      name: 'Sell Strategy Yearly',
+      columns: [
+        'Year',
+        ...(trajectory ? ['Withdrawal'] : []),
+        ...(bands
+          ? ['Portfolio P10', 'Portfolio P25', 'Portfolio Median', 'Portfolio P75', 'Portfolio P90']
+          : ['Portfolio Median']),
+        ...byAsset.flatMap(a => [`${a.assetId} Realized Gains Median`, `${a.assetId} Tax Median`]),
+      ],
+      rows: sell.yearlyPercentiles.filter(p => p.year >= 1).map(p => [
+        p.year,
+        ...(trajectory ? [withdrawal(p.year)] : []),
+        ...(bands ? [p.p10, p.p25, p.p50, p.p75, p.p90] : [p.p50]),
+        ...byAsset.flatMap(a => [a.medianRealizedGains[p.year - 1] ?? null, a.medianTaxes[p.year - 1] ?? null]),
+      ]),
+    });
+  }
+
+  if (output.marginCallStats && output.marginCallStats.length > 0) {
+    tables.push({
+      name: 'Margin Calls',
+      columns: ['Year', 'Probability (%)', 'Cumulative Probability (%)'],
+      rows: output.marginCallStats.map(s => [s.year, s.probability, s.cumulativeProbability]),
+    });
+  }
+
+  if (trajectory) {
+    const { loanBalance, cumulativeInterest, interestRate, effectiveLTV } = trajectory;
+    tables.push({
+      name: 'SBLOC Trajectory',
+      columns: [
+        'Year',
+        'Cumulative Withdrawals',
+        ...(bands
+          ? ['Loan Balance P10', 'Loan Balance P25', 'Loan Balance Median', 'Loan Balance P75', 'Loan Balance P90']
+          : ['Loan Balance Median']),
+        ...(bands
+          ? ['Cumulative Interest P10', 'Cumulative Interest Median', 'Cumulative Interest P90']
+          : ['Cumulative Interest Median']),
+        ...(interestRate ? ['Interest Rate Median'] : []),
+        ...(effectiveLTV ? ['Effective LTV Median'] : []),
+      ],
+      rows: trajectory.years.map((year, k) => [
+        year,
+        trajectory.cumulativeWithdrawals[k],
+        ...(bands
+          ? [loanBalance.p10[k], loanBalance.p25[k], loanBalance.p50[k], loanBalance.p75[k], loanBalance.p90[k]]
+          : [loanBalance.p50[k]]),
+        ...(bands
+          ? [cumulativeInterest.p10[k], cumulativeInterest.p50[k], cumulativeInterest.p90[k]]
+          : [cumulativeInterest.p50[k]]),
+        ...(interestRate ? [interestRate.p50[k]] : []),
+        ...(effectiveLTV ? [effectiveLTV.p50[k]] : []),
+      ]),
+    });
+  }
+
+  const ps = bands ? Array.from({ length: 99 }, (_, k) => k + 1) : DISTRIBUTION_PERCENTILES;
+  const bbdDistribution = percentiles(output.terminalValues, ps);
+  const sellDistribution = sell ? percentiles(sell.terminalValues, ps) : [];
+  tables.push({
+    name: 'Terminal Distribution',
+    columns: ['Percentile', 'Terminal Value', ...(sell ? ['Sell Strategy Terminal Value'] : [])],
+    rows: ps.map((p, k) => [p, bbdDistribution[k], ...(sell ? [sellDistribution[k]] : [])]),
+  });
+
+  if (options.includeTerminalValues) {
+    tables.push({
+      name: 'Terminal Values',
+      columns: ['Iteration', 'Terminal Value', ...(sell ? ['Sell Strategy Terminal Value'] : [])],
+      rows: Array.from(output.terminalValues, (value, i) => [
+        i + 1,
+        value,
+        ...(sell ? [sell.terminalValues[i] ?? null] : []),
+      ]),
+    });
+  }
+
+  tables.push({
+    name: 'Configuration',
+    columns: ['Setting', 'Value'],
+    rows: flattenConfig(config),
+  });
+
+  return tables;
+}
+
+/**
+ * Headline statistics of a run
+ */
+function buildSummaryTable(output: SimulationOutput, config: SimulationConfig): ResultsTable {
+  const { statistics, sellStrategy: sell, marginCallStats, estateAnalysis } = output;
+  const rows: ResultsCell[][] = [
+    ['Initial Value', config.initialValue],
+    ['Time Horizon (years)', config.timeHorizon],
+    ['Iterations', output.terminalValues.length],
+    ['Seed', output.seed ?? null],
+    ['Inflation Adjusted', config.inflationAdjusted ? 'Yes' : 'No'],
+    ['Mean Terminal Value', statistics.mean],
+    ['Median Terminal Value', statistics.median],
+    ['Terminal Value Std Dev', statistics.stddev],
+    ['Success Rate (%)', statistics.successRate],
+  ];
+
+  if (statistics.cagr !== undefined) {
+    rows.push(['CAGR', statistics.cagr]);
+  }
+  if (marginCallStats && marginCallStats.length > 0) {
+    rows.push(['Margin Call Probability (%)', marginCallStats[marginCallStats.length - 1].cumulativeProbability]);
+  }
+  if (sell) {
+    rows.push(
+      ['Sell Strategy Success Rate (%)', sell.successRate],
+      ['Sell Strategy Median Terminal Value', sell.percentiles.p50],
+      ['Sell Strategy Depletion Probability (%)', sell.depletionProbability],
+      ['Sell Strategy Median Taxes', sell.taxes.medianTotal]
+    );
+  }
+  if (estateAnalysis) {
+    rows.push(
+      ['BBD Median Net Estate', estateAnalysis.bbdNetEstate],
+      ['Sell Strategy Median Net Estate', estateAnalysis.sellNetEstate],
+      ['BBD Advantage', estateAnalysis.bbdAdvantage]
+    );
+  }
+
+  return { name: 'Summary', columns: ['Metric', 'Value'], rows };
+}
+
+/**
+ * Flatten a configuration into dotted setting paths
+ *
+ * Arrays of numbers or strings become one semicolon-separated value; arrays
+ * of objects are indexed (e.g. withdrawalChapters.0.reductionPercent).
+ */
+function flattenConfig(value: unknown, path: string = ''): ResultsCell[][] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) {
+    if (value.every(v => typeof v !== 'object' || v === null)) {
+      return [[path, value.join('; ')]];
+    }
+    return value.flatMap((v, i) => flattenConfig(v, `${path}.${i}`));
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, v]) => flattenConfig(v, path ? `${path}.${key}` : key));
+  }
+  if (typeof value === 'boolean') {
+    return [[path, value ? 'Yes' : 'No']];
+  }
+  return [[path, value as number | string]];
+}
+
+// =============================================================================
+// Serializers
+// =============================================================================
+
+/**
+ * Export results to CSV
+ *
+ * Tables follow each other in one file, each headed by a row with its name
+ * and separated by a blank line.
+ *
+ * @returns CSV string ready for download
+ */
+export function exportResultsToCsv(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  options: ResultsExportOptions = {}
+): string {
+  return buildResultsTables(output, config, options)
+    .map(table => [
+      Papa.unparse([[table.name]], { newline: '\n', escapeFormulae: true }),
+      Papa.unparse(
+        { fields: table.columns, data: table.rows.map(row => row.map(csvCell)) },
+        { newline: '\n', escapeFormulae: true }
+      ),
+    ].join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Export results to JSON
+ *
+ * Carries the complete output, whatever the options, except for terminal
+ * values, which are included only when requested.
+ *
+ * @returns JSON string with 2-space indentation
+ */
+export function exportResultsToJson(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  options: ResultsExportOptions = {}
+): string {
+  const { terminalValues, sellStrategy, ...rest } = output;
+  const includeValues = options.includeTerminalValues ?? false;
+
+  let serializedSell: SerializedSellStrategyOutput | undefined;
+  if (sellStrategy) {
+    const { terminalValues: sellValues, ...sellRest } = sellStrategy;
+    serializedSell = { ...sellRest, ...(includeValues && { terminalValues: Array.from(sellValues) }) };
+  }
+
+  const exportData: ResultsJsonExport = {
+    schema: RESULTS_EXPORT_SCHEMA,
+    version: RESULTS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+    output: {
+      ...rest,
+      ...(includeValues && { terminalValues: Array.from(terminalValues) }),
+      ...(serializedSell && { sellStrategy: serializedSell }),
+    },
+  };
+
+  return JSON.stringify(exportData, null, 2);
+}
+
+/**
+ * Parse a JSON results export back into its configuration and output
+ *
+ * @param json - JSON string produced by exportResultsToJson with terminal values
+ * @returns Configuration and output with terminal values as Float64Arrays
+ * @throws Error if the JSON is not a results export, is from a newer version,
+ *   or was exported without terminal values
+ */
+export function parseResultsJson(json: string): { config: SimulationConfig; output: SimulationOutput } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  if (typeof data !== 'object' || data === null || (data as Record<string, unknown>).schema !== RESULTS_EXPORT_SCHEMA) {
+    throw new Error('Not a simulation results export');
+  }
+
+  const exportData = data as ResultsJsonExport;
+  if (typeof exportData.version !== 'number') {
+    throw new Error('Missing or invalid version field');
+  }
+  if (exportData.version > RESULTS_EXPORT_VERSION) {
+    throw new Error(`Unsupported results export version ${exportData.version}. Please update eVelo to open these results.`);
+  }
+
+  const { terminalValues, sellStrategy, ...rest } = exportData.output;
+  if (!terminalValues) {
+    throw new Error('Results were exported without terminal values');
+  }
+
+  return {
+    config: exportData.config,
+    output: {
+      ...rest,
+      terminalValues: Float64Array.from(terminalValues),
+      ...(sellStrategy && {
+        sellStrategy: { ...sellStrategy, terminalValues: Float64Array.from(sellStrategy.terminalValues ?? []) },
+      }),
+    },
+  };
+}
+
+/**
+ * Export results to a SpreadsheetML 2003 workbook, one worksheet per table
+ *
+ * @returns Workbook XML ready for download
+ */
+export function exportResultsToSpreadsheet(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  options: ResultsExportOptions = {}
+): string {
+  const sheets = buildResultsTables(output, config, options).map(table => {
+    const header = `<Row>${table.columns.map(c => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeXml(c)}</Data></Cell>`).join('')}</Row>`;
+    const rows = table.rows.map(row => `<Row>${row.map(spreadsheetCell).join('')}</Row>`);
+    return [
+      ` <Worksheet ss:Name="${escapeXml(table.name.slice(0, 31))}">`,
+      '  <Table>',
+      `   ${header}`,
+      ...rows.map(r => `   ${r}`),
+      '  </Table>',
+      ' </Worksheet>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet"',
+    ' xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    ' <Styles>',
+    '  <Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+    ' </Styles>',
+    ...sheets,
+    '</Workbook>',
+  ].join('\n');
+}
+
+/**
+ * CSV value of a cell (non-finite numbers are left empty)
+ */
+function csvCell(cell: ResultsCell): string | number {
+  if (cell === null) return '';
+  if (typeof cell === 'number' && !Number.isFinite(cell)) return '';
+  return cell;
+}
+
+/**
+ * SpreadsheetML cell (non-finite numbers and nulls become empty cells)
+ */
+function spreadsheetCell(cell: ResultsCell): string {
+  if (cell === null || (typeof cell === 'number' && !Number.isFinite(cell))) {
+    return '<Cell/>';
+  }
+  if (typeof cell === 'number') {
+    return `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`;
+  }
+  return `<Cell><Data ss:Type="String">${escapeXml(cell)}</Data></Cell>`;
+}
+
+/**
+ * Escape XML special characters
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// =============================================================================
+// Download
+// =============================================================================
+
+/**
+ * Export results and trigger a file download
+ *
+ * @param format - Output format
+ * @param filename - Optional custom filename (default: evelo-results-YYYY-MM-DD.<ext>)
+ */
+export function downloadResults(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  format: ResultsExportFormat,
+  options: ResultsExportOptions = {},
+  filename?: string
+): void {
+  const content =
+    format === 'csv' ? exportResultsToCsv(output, config, options)
+    : format === 'json' ? exportResultsToJson(output, config, options)
+    : exportResultsToSpreadsheet(output, config, options);
+
+  const { type, extension } = FORMAT_FILES[format];
+  const date = new Date().toISOString().split('T')[0];
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename || `evelo-results-${date}.${extension}`;
+  anchor.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,350 @@
+/**
+ * Return series conversion service
+ *
+ * Converts daily or weekly price/return series into the calendar-year
+ * (and monthly) total returns the simulation consumes, so fetched and
+ * imported data feed AssetConfig.historicalReturns the same way.
+ *
+ * Data-quality issues (partial periods, gaps, suspected unadjusted splits,
+ * extreme values) are reported as ValidationWarning entries rather than
+ * silently patched.
+ */
+
+import type { DailyReturn } from '../schemas/market-data';
+import type { PresetReturn } from './preset-service';
+import type { ValidationWarning } from '../validation/data-validator';
+
+/**
+ * Observation frequency of a dated series
+ */
+export type SeriesFrequency = 'daily' | 'weekly' | 'monthly' | 'annual' | 'irregular';
+
+/**
+ * Target period for aggregation
+ */
+export type AggregationPeriod = 'annual' | 'monthly';
+
+/**
+ * Single price observation
+ */
+export interface PriceObservation {
+  date: string; // YYYY-MM-DD
+  close: number; // Raw close
+  adjClose?: number; // Split- and dividend-adjusted close (preferred when present)
+  dividend?: number; // Cash dividend per share going ex on this date
+  splitRatio?: number; // New shares per old share effective this date (2 = 2-for-1)
+}
+
+/**
+ * Converted series plus data-quality warnings
+ */
+export interface ReturnSeriesResult<T> {
+  returns: T[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Aggregation options
+ */
+export interface AggregationOptions {
+  /** Drop (default) or keep periods not fully covered by the data */
+  partialPeriods?: 'drop' | 'keep';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar days an observation may sit inside a period boundary and
+ * still count as covering it (weekends, holidays, weekly sampling)
+ */
+const EDGE_TOLERANCE_DAYS: Record<'daily' | 'weekly', number> = {
+  daily: 7,
+  weekly: 10,
+};
+
+/**
+ * Spacing (calendar days) above which consecutive observations are a gap
+ */
+const MAX_SPACING_DAYS: Record<'daily' | 'weekly' | 'monthly', number> = {
+  daily: 10,
+  weekly: 21,
+  monthly: 62,
+};
+
+/**
+ * Typical calendar days between observations, used for coverage checks
+ */
+const TYPICAL_SPACING_DAYS: Record<'daily' | 'weekly' | 'monthly', number> = {
+  daily: 365 / 252,
+  weekly: 7,
+  monthly: 365 / 12,
+};
+
+/**
+ * Single-period price move treated as a suspected unadjusted split
+ */
+const SPLIT_SUSPICION_THRESHOLD = 0.4;
+
+/**
+ * Aggregated annual returns outside this range are flagged
+ * (same bounds as the import validator)
+ */
+const EXTREME_ANNUAL_MIN = -0.9;
+const EXTREME_ANNUAL_MAX = 3.0;
+
+function toTime(date: string): number {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function periodKey(date: string, period: AggregationPeriod): string {
+  return period === 'annual' ? date.slice(0, 4) : date.slice(0, 7);
+}
+
+function periodBounds(key: string, period: AggregationPeriod): { start: number; end: number } {
+  const year = parseInt(key.slice(0, 4), 10);
+  if (period === 'annual') {
+    return { start: Date.UTC(year, 0, 1), end: Date.UTC(year, 11, 31) };
+  }
+  const month = parseInt(key.slice(5, 7), 10) - 1;
+  return { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 0) };
+}
+
+function nextPeriodKey(key: string, period: AggregationPeriod): string {
+  const year = parseInt(key.slice(0, 4), 10);
+  if (period === 'annual') return String(year + 1);
+  const month = parseInt(key.slice(5, 7), 10);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+function periodLabel(key: string, period: AggregationPeriod): string {
+  return period === 'annual' ? `year ${key}` : `month ${key}`;
+}
+
+/**
+ * Detect the observation frequency of a series from its dates
+ *
+ * Dates may be YYYY, YYYY-MM or YYYY-MM-DD. A series whose spacing looks
+ * daily/weekly/monthly but covers less than half the observations that
+ * frequency implies (e.g. a handful of sample days per decade) is
+ * 'irregular'.
+ *
+ * @param dates - Dates in chronological order
+ * @returns Detected frequency
+ */
+export function detectFrequency(dates: string[]): SeriesFrequency {
+  if (dates.length === 0) return 'irregular';
+  if (dates.every((d) => /^\d{4}$/.test(d))) return 'annual';
+  if (dates.every((d) => /^\d{4}-\d{2}$/.test(d))) return 'monthly';
+  if (dates.length < 2) return 'irregular';
+
+  const times = dates.map((d) => toTime(d.length === 7 ? `${d}-01` : d));
+  const spacings = times.slice(1).map((t, i) => (t - times[i]) / DAY_MS).sort((a, b) => a - b);
+  const median = spacings[Math.floor(spacings.length / 2)];
+
+  let frequency: SeriesFrequency;
+  if (median <= 4) frequency = 'daily';
+  else if (median <= 10) frequency = 'weekly';
+  else if (median <= 45) frequency = 'monthly';
+  else if (median >= 300) return 'annual';
+  else return 'irregular';
+
+  const spanDays = (times[times.length - 1] - times[0]) / DAY_MS;
+  const expected = spanDays / TYPICAL_SPACING_DAYS[frequency];
+  return dates.length >= expected * 0.5 ? frequency : 'irregular';
+}
+
+/**
+ * Convert a price series into period-to-period total returns
+ *
+ * Uses adjusted closes when every observation has one. Otherwise the raw
+ * close is adjusted for recorded splits (close × splitRatio) and cash
+ * dividends (added back on the ex-date). Large unexplained moves are
+ * reported as suspected unadjusted splits but kept, since they may be real.
+ *
+ * @param prices - Price observations (any order)
+ * @returns Returns dated by the later observation, plus warnings
+ */
+export function pricesToReturns(prices: PriceObservation[]): ReturnSeriesResult<DailyReturn> {
+  const warnings: ValidationWarning[] = [];
+  const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+  const useAdjusted = sorted.length > 0 && sorted.every((p) => p.adjClose !== undefined);
+
+  const valid = sorted.filter((p) => {
+    const price = useAdjusted ? p.adjClose! : p.close;
+    if (!isFinite(price) || price <= 0) {
+      warnings.push({ type: 'anomaly', message: `Invalid price on ${p.date} was skipped.` });
+      return false;
+    }
+    return true;
+  });
+
+  const returns: DailyReturn[] = [];
+  for (let i = 1; i < valid.length; i++) {
+    const prev = valid[i - 1];
+    const curr = valid[i];
+
+    let value: number;
+    if (useAdjusted) {
+      value = curr.adjClose! / prev.adjClose! - 1;
+    } else {
+      const splitRatio = curr.splitRatio && curr.splitRatio > 0 ? curr.splitRatio : 1;
+      value = (curr.close * splitRatio + (curr.dividend ?? 0)) / prev.close - 1;
+
+      if (splitRatio === 1 && Math.abs(value) > SPLIT_SUSPICION_THRESHOLD) {
+        warnings.push({
+          type: 'anomaly',
+          message: `Price moved ${(value * 100).toFixed(1)}% on ${curr.date} with no recorded split; check for an unadjusted corporate action.`,
+        });
+      }
+    }
+
+    returns.push({ date: curr.date, return: value });
+  }
+
+  return { returns, warnings };
+}
+
+/**
+ * Compound a return series into calendar-year or monthly total returns
+ *
+ * A period is complete when the data reaches both of its boundaries
+ * (within a tolerance for weekends, holidays and weekly sampling), or,
+ * for monthly input aggregated to years, when all twelve months are
+ * present. Partial periods are dropped by default. Gaps inside the data,
+ * missing periods and extreme results produce warnings.
+ *
+ * @param series - Dated returns (YYYY-MM-DD, or YYYY-MM for monthly input)
+ * @param period - Target period
+ * @param options - Aggregation options
+ * @returns Period returns dated 'YYYY' (annual) or 'YYYY-MM' (monthly), plus warnings
+ * @throws Error if asked to split annual data into months
+ */
+export function aggregateReturns(
+  series: DailyReturn[] | PresetReturn[],
+  period: AggregationPeriod,
+  options: AggregationOptions = {}
+): ReturnSeriesResult<PresetReturn> {
+  const partialPeriods = options.partialPeriods ?? 'drop';
+  const warnings: ValidationWarning[] = [];
+
+  const sorted = series
+    .filter((r) => {
+      if (isFinite(r.return)) return true;
+      warnings.push({ type: 'anomaly', message: `Non-numeric return on ${r.date} was skipped.` });
+      return false;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (sorted.length === 0) {
+    return { returns: [], warnings };
+  }
+
+  let frequency = detectFrequency(sorted.map((r) => r.date));
+  if (frequency === 'annual') {
+    if (period === 'monthly') {
+      throw new Error('Cannot derive monthly returns from annual data');
+    }
+    return {
+      returns: sorted.map((r) => ({ date: r.date.slice(0, 4), return: r.return })),
+      warnings,
+    };
+  }
+  if (frequency === 'irregular') {
+    warnings.push({
+      type: 'anomaly',
+      message: 'Observation spacing is irregular; period coverage is checked as if the data were daily.',
+    });
+    frequency = 'daily';
+  }
+
+  // Gaps between consecutive observations
+  const maxSpacing = MAX_SPACING_DAYS[frequency];
+  for (let i = 1; i < sorted.length; i++) {
+    const days = (toTime(sorted[i].date) - toTime(sorted[i - 1].date)) / DAY_MS;
+    if (days > maxSpacing) {
+      warnings.push({
+        type: 'gap',
+        message: `Missing data between ${sorted[i - 1].date} and ${sorted[i].date} (${Math.round(days)} days).`,
+      });
+    }
+  }
+
+  // Group into periods
+  const groups = new Map<string, (DailyReturn | PresetReturn)[]>();
+  for (const r of sorted) {
+    const key = periodKey(r.date, period);
+    const group = groups.get(key);
+    if (group) group.push(r);
+    else groups.set(key, [r]);
+  }
+
+  const returns: PresetReturn[] = [];
+  for (const [key, group] of groups) {
+    let complete: boolean;
+    if (frequency === 'monthly') {
+      // Monthly input: a year needs all twelve months; a month is itself
+      const months = new Set(group.map((r) => r.date.slice(0, 7)));
+      complete = period === 'monthly' || months.size === 12;
+    } else {
+      const { start, end } = periodBounds(key, period);
+      const tolerance = EDGE_TOLERANCE_DAYS[frequency] * DAY_MS;
+      const first = toTime(group[0].date);
+      const last = toTime(group[group.length - 1].date);
+      complete = first - start <= tolerance && end - last <= tolerance;
+    }
+
+    if (!complete) {
+      const range = `${group[0].date} to ${group[group.length - 1].date}`;
+      if (partialPeriods === 'drop') {
+        warnings.push({ type: 'gap', message: `Dropped partial ${periodLabel(key, period)} (data covers ${range}).` });
+        continue;
+      }
+      warnings.push({ type: 'gap', message: `Partial ${periodLabel(key, period)} included (data covers ${range}).` });
+    }
+
+    const value = group.reduce((acc, r) => acc * (1 + r.return), 1) - 1;
+    if (period === 'annual' && (value < EXTREME_ANNUAL_MIN || value > EXTREME_ANNUAL_MAX)) {
+      warnings.push({
+        type: 'extreme_value',
+        message: `Return of ${(value * 100).toFixed(1)}% for ${key} is unusually extreme.`,
+      });
+    }
+    returns.push({ date: key, return: value });
+  }
+
+  // Whole periods missing between the first and last kept ones
+  for (let i = 1; i < returns.length; i++) {
+    let key = nextPeriodKey(returns[i - 1].date, period);
+    while (key < returns[i].date) {
+      warnings.push({ type: 'gap', message: `No usable data for ${periodLabel(key, period)}.` });
+      key = nextPeriodKey(key, period);
+    }
+  }
+
+  return { returns, warnings };
+}
+
+/**
+ * Normalize any dated return series to calendar-year returns
+ *
+ * Annual data is passed through (dates trimmed to YYYY). Daily, weekly
+ * and monthly data is compounded with aggregateReturns. Irregular series
+ * cannot be aggregated reliably and are passed through unchanged with a
+ * warning.
+ *
+ * @param series - Dated returns
+ * @returns Annual returns plus warnings
+ */
+export function toAnnualReturns(series: PresetReturn[]): ReturnSeriesResult<PresetReturn> {
+  const frequency = detectFrequency([...series].map((r) => r.date).sort());
+  if (frequency === 'irregular') {
+    return {
+      returns: series,
+      warnings: [{
+        type: 'anomaly',
+        message: 'Dates are irregularly spaced; each entry is treated as one annual return.',
+      }],
+    };
+  }
+  return aggregateReturns(series, 'annual');
+}
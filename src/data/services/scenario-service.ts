@@ -0,0 +1,88 @@
+/**
+ * Service for managing pinned comparison scenarios
+ *
+ * Scenarios are stored in IndexedDB so a scenario set survives reloads and
+ * can grow past the two runs of previous-vs-current comparison. Exactly one
+ * scenario is the baseline whenever the set is non-empty.
+ */
+
+import { db } from '../db';
+import type { ScenarioRecord } from '../schemas/scenario';
+import type { SimulationConfig, SimulationOutput } from '../../simulation/types';
+
+/**
+ * Pin a simulation run to the scenario set
+ * The first scenario pinned becomes the baseline.
+ *
+ * @param name - Display name for the scenario
+ * @param config - Configuration the run was produced with
+ * @param result - Simulation output to keep
+ * @returns The ID of the pinned scenario
+ */
+export async function pinScenario(
+  name: string,
+  config: SimulationConfig,
+  result: SimulationOutput
+): Promise<number> {
+  return db.transaction('rw', db.scenarios, async () => {
+    const count = await db.scenarios.count();
+    const record: ScenarioRecord = {
+      name: name.trim() || `Scenario ${count + 1}`,
+      pinnedAt: new Date().toISOString(),
+      isBaseline: count === 0,
+      config,
+      result,
+    };
+    return db.scenarios.add(record) as Promise<number>;
+  });
+}
+
+/**
+ * Get all pinned scenarios in the order they were pinned
+ */
+export async function loadScenarios(): Promise<ScenarioRecord[]> {
+  return db.scenarios.orderBy('pinnedAt').toArray();
+}
+
+/**
+ * Rename a pinned scenario
+ */
+export async function renameScenario(id: number, name: string): Promise<void> {
+  await db.scenarios.update(id, { name: name.trim() });
+}
+
+/**
+ * Make a scenario the baseline that deltas are measured against
+ */
+export async function setBaselineScenario(id: number): Promise<void> {
+  await db.transaction('rw', db.scenarios, async () => {
+    await db.scenarios.toCollection().modify(scenario => {
+      scenario.isBaseline = scenario.id === id;
+    });
+  });
+}
+
+/**
+ * Unpin a scenario
+ * When the baseline is removed, the earliest remaining scenario takes its place.
+ */
+export async function deleteScenario(id: number): Promise<void> {
+  await db.transaction('rw', db.scenarios, async () => {
+    const scenario = await db.scenarios.get(id);
+    await db.scenarios.delete(id);
+
+    if (scenario?.isBaseline) {
+      const next = await db.scenarios.orderBy('pinnedAt').first();
+      if (next?.id !== undefined) {
+        await db.scenarios.update(next.id, { isBaseline: true });
+      }
+    }
+  });
+}
+
+/**
+ * Unpin every scenario
+ */
+export async function clearScenarios(): Promise<void> {
+  await db.scenarios.clear();
+}
@@ -0,0 +1,156 @@
+/**
+ * Service for shareable scenario links
+ *
+ * Encodes a scenario - the portfolio's assets and every simulation parameter,
+ * seed included - into the URL fragment, so a link reproduces the scenario
+ * on any device. The fragment is never sent to a server and decoding needs
+ * no network, so links work offline.
+ *
+ * Fragment format: `scenario=<version>.<payload>`, where the payload is the
+ * scenario as JSON, deflate-compressed and base64url-encoded. Links from
+ * older versions are upgraded step by step on decode.
+ */
+
+import type { PortfolioRecord } from '../schemas/portfolio';
+import { validatePortfolio } from './portfolio-service';
+import { getEffectiveData } from './preset-service';
+
+/** Current share link format version */
+export const SHARE_LINK_VERSION = 1;
+
+/** Fragment key holding the encoded scenario */
+const FRAGMENT_KEY = 'scenario';
+
+/** Name given to shared scenarios saved without one */
+const DEFAULT_SCENARIO_NAME = 'Shared scenario';
+
+/**
+ * Scenario carried by a share link: a portfolio record without its
+ * storage fields
+ */
+export type SharedScenario = Omit<PortfolioRecord, 'id' | 'created' | 'modified' | 'version'>;
+
+/**
+ * Upgrades from each older link version to the next, keyed by the version
+ * they upgrade from
+ */
+const UPGRADES: Record<number, (scenario: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Deflate a string and encode it as base64url
+ */
+async function deflateToBase64Url(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url and inflate it back to a string
+ */
+async function inflateFromBase64Url(encoded: string): Promise<string> {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Encode a scenario as a URL fragment (without the leading '#')
+ *
+ * Storage fields (id, timestamps, record version) are dropped.
+ */
+export async function encodeShareFragment(scenario: SharedScenario | PortfolioRecord): Promise<string> {
+  const { id: _id, created: _created, modified: _modified, version: _version, ...shared } =
+    scenario as Partial<PortfolioRecord>;
+  const payload = await deflateToBase64Url(JSON.stringify(shared));
+  return `${FRAGMENT_KEY}=${SHARE_LINK_VERSION}.${payload}`;
+}
+
+/**
+ * Build a full share link for a scenario
+ *
+ * @param base - Page URL the link opens (any existing fragment is replaced)
+ */
+export async function buildShareLink(scenario: SharedScenario | PortfolioRecord, base: string): Promise<string> {
+  return `${base.split('#')[0]}#${await encodeShareFragment(scenario)}`;
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Decode a scenario from a URL fragment
+ *
+ * @param hash - Fragment, with or without the leading '#'
+ * @returns The scenario as an unsaved portfolio record, or null if the
+ *          fragment holds no scenario
+ * @throws Error if the link is damaged, invalid, or from a newer version
+ */
+export async function decodeShareFragment(hash: string): Promise<PortfolioRecord | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const value = params.get(FRAGMENT_KEY);
+  if (value === null) return null;
+
+  const separator = value.indexOf('.');
+  const version = Number(value.slice(0, separator));
+  if (separator < 1 || !Number.isInteger(version) || version < 1) {
+    throw new Error('Invalid scenario link');
+  }
+  if (version > SHARE_LINK_VERSION) {
+    throw new Error(`This scenario link was made with a newer version of eVelo (link version ${version}). Please update eVelo to open it.`);
+  }
+
+  let scenario: unknown;
+  try {
+    scenario = JSON.parse(await inflateFromBase64Url(value.slice(separator + 1)));
+  } catch {
+    throw new Error('Invalid scenario link');
+  }
+  if (typeof scenario !== 'object' || scenario === null || Array.isArray(scenario)) {
+    throw new Error('Invalid scenario link');
+  }
+
+  let upgraded = scenario as Record<string, unknown>;
+  for (let v = version; v < SHARE_LINK_VERSION; v++) {
+    upgraded = UPGRADES[v](upgraded);
+  }
+
+  const now = new Date().toISOString();
+  const record = {
+    ...upgraded,
+    id: undefined,
+    name: typeof upgraded.name === 'string' && upgraded.name.trim() ? upgraded.name : DEFAULT_SCENARIO_NAME,
+    created: now,
+    modified: now,
+    version: 1,
+  };
+  if (!validatePortfolio(record)) {
+    throw new Error('Invalid scenario link');
+  }
+  return record;
+}
+
+/**
+ * Find the symbols of a scenario that have no historical data on this device
+ *
+ * Shared links may name custom or fetched symbols the recipient does not
+ * have; those assets are kept but cannot be simulated until data is added.
+ */
+export async function findUnknownSymbols(scenario: Pick<PortfolioRecord, 'assets'>): Promise<string[]> {
+  const unknown: string[] = [];
+  for (const asset of scenario.assets) {
+    const data = await getEffectiveData(asset.symbol);
+    if (!data || data.returns.length === 0) {
+      unknown.push(asset.symbol);
+    }
+  }
+  return unknown;
+}
@@ -0,0 +1,143 @@
+/**
+ * Service for the simulation run history
+ *
+ * Every completed run is saved to IndexedDB with its configuration,
+ * portfolio, summary statistics and gzip-compressed results, so closing the
+ * tab no longer loses results and a run can be reopened without
+ * re-simulating. The history keeps the most recent MAX_SIMULATION_RUNS runs.
+ */
+
+import { db } from '../db';
+import type { SimulationRunRecord, SimulationRunSummary } from '../schemas/simulation-run';
+import { exportResultsToJson, parseResultsJson } from './results-export-service';
+import type { PortfolioConfig, SimulationConfig, SimulationOutput } from '../../simulation/types';
+
+/**
+ * Number of runs kept in the history; older runs are removed when a run is saved
+ */
+export const MAX_SIMULATION_RUNS = 50;
+
+// =============================================================================
+// Compression
+// =============================================================================
+
+/**
+ * Compress simulation results for storage
+ *
+ * Stores the JSON results export (terminal values included) gzip-compressed.
+ *
+ * @returns Compressed results
+ */
+export async function compressResults(output: SimulationOutput, config: SimulationConfig): Promise<Uint8Array<ArrayBuffer>> {
+  const json = exportResultsToJson(output, config, { includeTerminalValues: true });
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decompress stored simulation results
+ *
+ * @returns The output exactly as it was compressed
+ * @throws Error if the data is not compressed results
+ */
+export async function decompressResults(results: Uint8Array<ArrayBuffer>): Promise<SimulationOutput> {
+  const stream = new Blob([results]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return parseResultsJson(await new Response(stream).text()).output;
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+/**
+ * Save a completed run to the history
+ * Runs beyond MAX_SIMULATION_RUNS are removed, oldest first.
+ *
+ * @param config - Configuration the run was produced with
+ * @param portfolio - Portfolio the run was produced with
+ * @param output - Simulation output to keep
+ * @param name - Display name (default: "Run <id>")
+ * @returns The ID of the saved run
+ */
+export async function saveSimulationRun(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  output: SimulationOutput,
+  name: string = ''
+): Promise<number> {
+  // Compress outside the transaction: IndexedDB transactions do not survive
+  // awaiting non-database work
+  const results = await compressResults(output, config);
+
+  return db.transaction('rw', db.simulationRuns, async () => {
+    const record: SimulationRunRecord = {
+      name: name.trim(),
+      tags: [],
+      createdAt: new Date().toISOString(),
+      seed: output.seed,
+      iterations: output.terminalValues.length,
+      config,
+      portfolio,
+      statistics: output.statistics,
+      results,
+    };
+    const id = await db.simulationRuns.add(record) as number;
+    if (!record.name) {
+      await db.simulationRuns.update(id, { name: `Run ${id}` });
+    }
+
+    const excess = await db.simulationRuns.count() - MAX_SIMULATION_RUNS;
+    if (excess > 0) {
+      const oldest = await db.simulationRuns.orderBy('createdAt').limit(excess).primaryKeys();
+      await db.simulationRuns.bulkDelete(oldest);
+    }
+
+    return id;
+  });
+}
+
+/**
+ * Get the run history, newest first, without the compressed results
+ */
+export async function loadSimulationRuns(): Promise<SimulationRunSummary[]> {
+  const runs = await db.simulationRuns.orderBy('createdAt').reverse().toArray();
+  return runs.map(({ results: _results, ...summary }) => summary);
+}
+
+/**
+ * Reopen a run from the history
+ *
+ * @returns The stored run with its decompressed output, or undefined if not found
+ */
+export async function loadSimulationRun(
+  id: number
+): Promise<{ run: SimulationRunSummary; output: SimulationOutput } | undefined> {
+  const record = await db.simulationRuns.get(id);
+  if (!record) return undefined;
+
+  const { results, ...run } = record;
+  return { run, output: await decompressResults(results) };
+}
+
+/**
+ * Rename a run
+ */
+export async function renameSimulationRun(id: number, name: string): Promise<void> {
+  await db.simulationRuns.update(id, { name: name.trim() });
+}
+
+/**
+ * Replace the tags of a run
+ * Tags are trimmed and de-duplicated; empty tags are dropped.
+ */
+export async function setSimulationRunTags(id: number, tags: string[]): Promise<void> {
+  const cleaned = [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+  await db.simulationRuns.update(id, { tags: cleaned });
+}
+
+/**
+ * Delete a run from the history
+ */
+export async function deleteSimulationRun(id: number): Promise<void> {
+  await db.simulationRuns.delete(id);
+}
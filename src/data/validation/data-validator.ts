@@ -10,6 +10,12 @@
 import Papa from 'papaparse';
 import type { PresetData, PresetReturn } from '../services/preset-service';
 import { hasCustomData } from '../services/custom-data-service';
+import { aggregateReturns, detectFrequency } from '../services/return-series-service';
+
+/**
+ * Minimum calendar years of returns required for simulation
+ */
+const MIN_ANNUAL_ROWS = 5;
 
 /**
  * Result of validation attempt
@@ -71,6 +77,39 @@ export interface AssetValidationResult {
   result: ValidationResult;
 }
 
+/**
+ * Convert daily, weekly or monthly returns to calendar-year returns
+ *
+ * The simulation treats every entry as one year, so sub-annual imports are
+ * compounded per calendar year. Annual and irregularly spaced series are
+ * returned unchanged.
+ *
+ * @param returns - Validated returns in chronological order
+ * @param errors - Receives an insufficient_data error if too few years remain
+ * @param warnings - Receives data-quality warnings from the conversion
+ * @returns Annual returns
+ */
+function normalizeToAnnual(
+  returns: PresetReturn[],
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
+): PresetReturn[] {
+  const frequency = detectFrequency(returns.map(r => r.date));
+  if (frequency === 'annual' || frequency === 'irregular') {
+    return returns;
+  }
+
+  const result = aggregateReturns(returns, 'annual');
+  warnings.push(...result.warnings);
+  if (result.returns.length < MIN_ANNUAL_ROWS) {
+    errors.push({
+      type: 'insufficient_data',
+      message: `Insufficient data. ${returns.length} ${frequency} returns cover ${result.returns.length} complete calendar year(s), minimum ${MIN_ANNUAL_ROWS} required.`
+    });
+  }
+  return result.returns;
+}
+
 /**
  * Parse and validate CSV content
  *
@@ -195,7 +234,7 @@ export function parseAndValidateCsv(
   });
 
   // Check minimum data requirement
-  if (returns.length < 5 && errors.length === 0) {
+  if (returns.length < MIN_ANNUAL_ROWS && errors.length === 0) {
     errors.push({
       type: 'insufficient_data',
       message: `Insufficient data. Found ${returns.length} rows, minimum 5 years required for simulation.`
@@ -235,7 +274,10 @@ export function parseAndValidateCsv(
   }
 
   // Build result
-  const sortedReturns = returns.sort((a, b) => a.date.localeCompare(b.date));
+  const sortedReturns = normalizeToAnnual(returns.sort((a, b) => a.date.localeCompare(b.date)), errors, warnings);
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
   const data: PresetData = {
     symbol: symbol.toUpperCase(),
     name,
@@ -337,7 +379,7 @@ export function parseAndValidateJson(content: string): ValidationResult {
   });
 
   // Minimum data check
-  if (returns.length < 5 && errors.length === 0) {
+  if (returns.length < MIN_ANNUAL_ROWS && errors.length === 0) {
     errors.push({
       type: 'insufficient_data',
       message: `Insufficient data. Found ${returns.length} entries, minimum 5 required.`
@@ -357,7 +399,10 @@ export function parseAndValidateJson(content: string): ValidationResult {
     return { valid: false, errors, warnings };
   }
 
-  const sortedReturns = returns.sort((a, b) => a.date.localeCompare(b.date));
+  const sortedReturns = normalizeToAnnual(returns.sort((a, b) => a.date.localeCompare(b.date)), errors, warnings);
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
   const data: PresetData = {
     symbol: (obj.symbol as string).toUpperCase(),
     name: obj.name as string,
@@ -4,6 +4,7 @@
  * Provides unified access to all math functions:
  * - Precision utilities for floating point handling
  * - Statistical functions for analysis
+ * - Quantile sketches for streaming percentiles
  * - Correlation functions for asset relationships
  * - Distribution functions for Monte Carlo sampling
  */
@@ -12,7 +13,17 @@
 export { sum, round, almostEqual, EPSILON } from './precision';
 
 // Statistical functions
-export { mean, variance, stddev, percentile } from './statistics';
+export { mean, variance, stddev, percentile, percentiles } from './statistics';
+
+// Streaming percentile sketches
+export {
+  SKETCH_ACCURACY,
+  SKETCH_BINS,
+  createSketches,
+  addToSketch,
+  mergeSketches,
+  sketchPercentiles,
+} from './quantile-sketch';
 
 // Correlation functions
 export { pearsonCorrelation, correlationMatrix, choleskyDecomposition, regularizeCorrelationMatrix } from './correlation';
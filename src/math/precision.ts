@@ -33,7 +33,7 @@ export function almostEqual(a: number, b: number, epsilon: number = EPSILON): bo
  *
  * @see https://en.wikipedia.org/wiki/Kahan_summation_algorithm
  */
-export function sum(values: number[]): number {
+export function sum(values: ArrayLike<number>): number {
   if (values.length === 0) return 0;
 
   let sum = 0;
@@ -0,0 +1,105 @@
+/**
+ * Fixed-bin quantile sketches for streaming percentiles
+ *
+ * A sketch counts values in logarithmically spaced bins, so its size depends
+ * only on the value range and accuracy, never on how many values were added.
+ * Every sketch uses the same bins, which makes merging exact: the counts of
+ * sketches built from separate batches simply add up.
+ *
+ * Bins cover SKETCH_RANGE below and above a scale (such as the initial
+ * portfolio value). A percentile read from a sketch is within
+ * SKETCH_ACCURACY of the true value, relative to its size. Values below the
+ * range (including zero and negative values) fall in a bottom bin reported
+ * as 0; values above it are reported at the top edge of the range.
+ */
+
+import { round } from './precision';
+
+/** Relative accuracy of sketch percentiles */
+export const SKETCH_ACCURACY = 0.01;
+
+/** Ratio of the range covered above (and below) the scale */
+const SKETCH_RANGE = 1e5;
+
+/** Ratio between consecutive bin edges */
+const GAMMA = (1 + SKETCH_ACCURACY) / (1 - SKETCH_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+/** Bins per sketch: one for values below the range, then the log-spaced bins */
+export const SKETCH_BINS = 1 + Math.ceil(2 * Math.log(SKETCH_RANGE) / LOG_GAMMA);
+
+/**
+ * Allocate one empty sketch per column (e.g. per simulated year)
+ *
+ * @param columns Number of sketches
+ * @returns Counts laid out as [column * SKETCH_BINS + bin]
+ */
+export function createSketches(columns: number): Uint32Array {
+  return new Uint32Array(columns * SKETCH_BINS);
+}
+
+/**
+ * Add a value to one column's sketch
+ *
+ * @param sketches Counts from createSketches
+ * @param column Column to add to
+ * @param value Value to count
+ * @param scale Center of the covered range (the same for every sketch that is merged)
+ */
+export function addToSketch(sketches: Uint32Array, column: number, value: number, scale: number): void {
+  const low = scale / SKETCH_RANGE;
+  const bin = value < low
+    ? 0
+    : Math.min(SKETCH_BINS - 1, Math.max(1, Math.ceil(Math.log(value / low) / LOG_GAMMA)));
+  sketches[column * SKETCH_BINS + bin]++;
+}
+
+/**
+ * Merge sketches built over separate batches of values
+ *
+ * @param parts Sketches with the same number of columns
+ * @returns Counts of every batch combined
+ */
+export function mergeSketches(parts: Uint32Array[]): Uint32Array {
+  const merged = new Uint32Array(parts[0].length);
+  for (const part of parts) {
+    for (let k = 0; k < part.length; k++) merged[k] += part[k];
+  }
+  return merged;
+}
+
+/**
+ * Read several percentiles of one column's sketch
+ *
+ * Uses the same rank interpolation as percentiles, between the values
+ * represented by the bins the neighbouring ranks fall in.
+ *
+ * @param sketches Counts from createSketches
+ * @param column Column to read
+ * @param ps Percentile values (0-100, not 0-1)
+ * @param scale Scale the values were added with
+ * @returns One value per requested percentile (0 for an empty sketch)
+ */
+export function sketchPercentiles(sketches: Uint32Array, column: number, ps: number[], scale: number): number[] {
+  const counts = sketches.subarray(column * SKETCH_BINS, (column + 1) * SKETCH_BINS);
+  const n = counts.reduce((a, b) => a + b, 0);
+  if (n === 0) return ps.map(() => 0);
+
+  const low = scale / SKETCH_RANGE;
+  // Value at a zero-based rank: the midpoint (in relative terms) of its bin
+  const valueAt = (rank: number): number => {
+    let seen = 0;
+    for (let bin = 0; bin < SKETCH_BINS; bin++) {
+      seen += counts[bin];
+      if (rank < seen) return bin === 0 ? 0 : low * 2 * Math.pow(GAMMA, bin) / (GAMMA + 1);
+    }
+    return low * Math.pow(GAMMA, SKETCH_BINS - 1);
+  };
+
+  return ps.map(p => {
+    const index = (Math.max(0, Math.min(100, p)) / 100) * (n - 1);
+    const lower = valueAt(Math.floor(index));
+    const fraction = index - Math.floor(index);
+    return fraction === 0 ? lower : round(lower + fraction * (valueAt(Math.ceil(index)) - lower), 6);
+  });
+}
@@ -16,7 +16,7 @@ const DEFAULT_PRECISION = 6;
  *
  * @returns 0 for empty array
  */
-export function mean(values: number[]): number {
+export function mean(values: ArrayLike<number>): number {
   if (values.length === 0) return 0;
   return round(sum(values) / values.length, DEFAULT_PRECISION);
 }
@@ -29,7 +29,7 @@ export function mean(values: number[]): number {
  *                     If false (default), use N-1 denominator (sample variance)
  * @returns 0 for empty array or length < 2 when sample variance
  */
-export function variance(values: number[], population: boolean = false): number {
+export function variance(values: ArrayLike<number>, population: boolean = false): number {
   const n = values.length;
 
   if (n === 0) return 0;
@@ -57,7 +57,7 @@ export function variance(values: number[], population: boolean = false): number
  *                     If false (default), use sample stddev (N-1 denominator)
  * @returns Square root of variance
  */
-export function stddev(values: number[], population: boolean = false): number {
+export function stddev(values: ArrayLike<number>, population: boolean = false): number {
   return round(Math.sqrt(variance(values, population)), DEFAULT_PRECISION);
 }
 
@@ -71,14 +71,45 @@ export function stddev(values: number[], population: boolean = false): number {
  * @param p - Percentile value (0-100, not 0-1)
  * @returns 0 for empty array, the single value for single-element array
  */
-export function percentile(values: number[], p: number): number {
+export function percentile(values: ArrayLike<number>, p: number): number {
   const n = values.length;
 
   if (n === 0) return 0;
   if (n === 1) return values[0];
 
   // Sort values (create copy to avoid mutation)
-  const sorted = [...values].sort((a, b) => a - b);
+  const sorted = Array.from(values).sort((a, b) => a - b);
+
+  return interpolateSorted(sorted, p);
+}
+
+/**
+ * Calculate several percentiles of an array of numbers with a single sort
+ *
+ * Same interpolation as percentile. Accepts typed arrays, so one column of
+ * a Float64Array buffer can be summarized without copying it to a JS array.
+ *
+ * @param values - Array of numbers
+ * @param ps - Percentile values (0-100, not 0-1)
+ * @returns One value per requested percentile
+ */
+export function percentiles(values: ArrayLike<number>, ps: number[]): number[] {
+  const n = values.length;
+
+  if (n === 0) return ps.map(() => 0);
+  if (n === 1) return ps.map(() => values[0]);
+
+  // Numeric sort of a typed copy (no comparator callback)
+  const sorted = Float64Array.from(values).sort();
+
+  return ps.map(p => interpolateSorted(sorted, p));
+}
+
+/**
+ * Interpolated percentile of sorted values (at least two)
+ */
+function interpolateSorted(sorted: ArrayLike<number>, p: number): number {
+  const n = sorted.length;
 
   // Clamp percentile to valid range
   const clampedP = Math.max(0, Math.min(100, p));
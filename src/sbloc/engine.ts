@@ -21,6 +21,7 @@ import { calculateLTV } from './ltv';
 import { detectMarginCall, isInWarningZone } from './margin-call';
 import { executeForcedLiquidation } from './liquidation';
 import { validateSBLOCState, SBLOCStateValidationError } from './validation';
+import { cloneTaxLots, growTaxLots, type AssetRealization } from '../calculations/tax-lots';
 
 // ============================================================================
 // State Initialization
@@ -106,6 +107,11 @@ export interface SBLOCYearResult {
   withdrawalMade: number;
   /** Dividend tax borrowed this year (BBD advantage: borrow to pay taxes) */
   dividendTaxBorrowed: number;
+  /** Month (0-11) of the first margin call when the year was stepped monthly */
+  marginCallMonth?: number;  /** Gains realised per asset by forced liquidations this step (states with a lot book only) */
+  realizedGains?: AssetRealization[];
+  /** Capital gains tax triggered by forced liquidations this step (states with a lot book only) */
+  capitalGainsTax?: number;
 }
 
 // ============================================================================
@@ -144,6 +150,7 @@ export interface SBLOCYearResult {
  * @param config - SBLOC configuration
  * @param portfolioReturn - Annual return as decimal (e.g., 0.10 for 10%)
  * @param currentYear - Current simulation year (0-indexed)
+ * @param assetReturns - Return per asset id, used to grow the lot book (optional)
  * @returns Year result with new state and events
  *
  * @example
@@ -179,7 +186,8 @@ export function stepSBLOC(
   state: SBLOCState,
   config: SBLOCConfig,
   portfolioReturn: number,
-  currentYear: number
+  currentYear: number,
+  assetReturns?: Record<string, number>
 ): SBLOCYearResult {
   // Start with a copy of current state
   let newPortfolioValue = state.portfolioValue;
@@ -192,6 +200,12 @@ export function stepSBLOC(
   // Floor at 0 - portfolio value cannot go negative (even with -100% return)
   newPortfolioValue = Math.max(0, newPortfolioValue * (1 + portfolioReturn));
 
+  // Lots follow their own asset returns, rescaled to the portfolio value
+  const lots = state.lots ? cloneTaxLots(state.lots) : undefined;
+  if (lots) {
+    growTaxLots(lots, assetReturns, newPortfolioValue);
+  }
+
   // Step 1.5: Apply dividend tax via SBLOC borrowing (BBD advantage)
   // This happens BEFORE withdrawals but AFTER returns.
   // Order of operations per reference: returns → dividend tax → withdrawals → interest → margin call
@@ -309,6 +323,9 @@ export function stepSBLOC(
     inWarningZone: false,
     yearsSinceStart: state.yearsSinceStart + 1,
   };
+  if (lots) {
+    newState.lots = lots;
+  }
 
   // Step 5: Check for margin call
   const marginCall = detectMarginCall(newState, config);
@@ -355,5 +372,7 @@ export function stepSBLOC(
     interestCharged,
     withdrawalMade,
     dividendTaxBorrowed,
+    realizedGains: liquidationEvent?.realizedGains,
+    capitalGainsTax: liquidationEvent?.capitalGainsTax,
   };
 }
@@ -8,7 +8,7 @@
  * Key exports:
  * - Types: SBLOCConfig, SBLOCState, MarginCallEvent, LiquidationEvent
  * - Engine: stepSBLOC, initializeSBLOCState (main simulation functions)
- * - Monthly: stepSBLOCYear, stepSBLOCMonth, annualToMonthlyReturns (monthly granularity)
+ * - Monthly: stepSBLOCYear, stepSBLOCMonths, stepSBLOCMonth, annualToMonthlyReturns (monthly granularity)
  * - Interest: accrueInterest, projectLoanBalance
  * - LTV: calculateLTV, calculateMaxBorrowing, calculateAvailableCredit
  * - Margin: detectMarginCall, isInWarningZone, calculateMarginBuffer
@@ -67,6 +67,7 @@ export { initializeSBLOCState, stepSBLOC } from './engine';
 export {
   annualToMonthlyReturns,
   stepSBLOCMonth,
+  stepSBLOCMonths,
   stepSBLOCYear,
 } from './monthly';
 
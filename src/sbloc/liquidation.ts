@@ -22,6 +22,12 @@
 
 import type { SBLOCConfig, SBLOCState, LiquidationEvent } from './types';
 import { calculateLTV } from './ltv';
+import {
+  applySaleHaircut,
+  capitalGainsTaxOnSale,
+  cloneTaxLots,
+  sellFromLots,
+} from '../calculations/tax-lots';
 
 // ============================================================================
 // Liquidation Calculations
@@ -198,6 +204,11 @@ export interface LiquidationResult {
  * 4. Recalculates LTV
  * 5. Checks if portfolio failed
  *
+ * When the state carries a lot book (state.lots), the sale draws on the lots
+ * in config.liquidationOrder and the event reports the realised gains per
+ * asset and the capital gains tax at config.capitalGainsRate. Gains are
+ * measured against the post-haircut proceeds.
+ *
  * Pure function - does not mutate input state.
  *
  * @param state - Current SBLOC state
@@ -306,6 +317,18 @@ export function executeForcedLiquidation(
     newPortfolioValue,
   };
 
+  // Sell from the lot book in the configured order (tax reporting only)
+  if (state.lots) {
+    const lots = cloneTaxLots(state.lots);
+    const sale = applySaleHaircut(
+      sellFromLots(lots, actualAssetsToSell, config.liquidationOrder ?? 'pro-rata', config.liquidationAssetId),
+      config.liquidationHaircut
+    );
+    newState.lots = lots;
+    event.realizedGains = sale.byAsset;
+    event.capitalGainsTax = capitalGainsTaxOnSale(sale, config.capitalGainsRate ?? 0);
+  }
+
   return {
     newState,
     event,
@@ -4,6 +4,10 @@
  * Provides monthly granularity for SBLOC simulation when monthlyWithdrawal flag is set.
  * This enables more accurate interest accrual and earlier margin call detection.
  *
+ * stepSBLOCYear spreads an annual return evenly over 12 months. stepSBLOCMonths
+ * instead steps along actual monthly returns (monthly simulation mode), so
+ * intra-year drawdowns are visible to the margin call check.
+ *
  * Why monthly compounding matters:
  * - Monthly compounding produces ~0.26% higher effective interest rate than annual
  *   (e.g., 7.4% nominal annual rate = 7.66% effective with monthly compounding)
@@ -22,6 +26,7 @@
 
 import type { SBLOCConfig, SBLOCState, LiquidationEvent } from './types';
 import { stepSBLOC, type SBLOCYearResult } from './engine';
+import { addRealizations, type AssetRealization } from '../calculations/tax-lots';
 
 /**
  * Convert annual return to monthly return
@@ -47,7 +52,6 @@ export function annualToMonthlyReturn(annualReturn: number): number {
 
 /**
  * Convert annual return to 12 equal monthly returns that compound to the same total
- * @deprecated Use annualToMonthlyReturn for better performance
  */
 export function annualToMonthlyReturns(annualReturn: number): number[] {
   const monthlyReturn = annualToMonthlyReturn(annualReturn);
@@ -68,6 +72,7 @@ export function annualToMonthlyReturns(annualReturn: number): number[] {
  * @param monthlyReturn - Portfolio return for this month (use annualToMonthlyReturns to convert)
  * @param currentYear - Current simulation year (0-indexed)
  * @param currentMonth - Current month within year (0-11)
+ * @param assetReturns - Return per asset id for this month, used to grow the lot book (optional)
  * @returns SBLOCYearResult (same type for consistency, represents one month's result)
  *
  * @example
@@ -87,7 +92,8 @@ export function stepSBLOCMonth(
   config: SBLOCConfig,
   monthlyReturn: number,
   currentYear: number,
-  currentMonth: number
+  currentMonth: number,
+  assetReturns?: Record<string, number>
 ): SBLOCYearResult {
   // Create adjusted config for monthly step
   // - Withdrawal is 1/12 of annual
@@ -113,7 +119,7 @@ export function stepSBLOCMonth(
 
   // Call stepSBLOC for one month
   // Note: stepSBLOC increments yearsSinceStart, so we'll correct this
-  const result = stepSBLOC(tempState, monthlyConfig, monthlyReturn, currentYear);
+  const result = stepSBLOC(tempState, monthlyConfig, monthlyReturn, currentYear, assetReturns);
 
   // Correct yearsSinceStart - only increment at year boundary (month 11)
   // stepSBLOC already incremented it, so we need to decrement if not month 11
@@ -146,6 +152,7 @@ export function stepSBLOCMonth(
  * @param portfolioReturn - Annual return as decimal (will be distributed across 12 months if monthly mode)
  * @param currentYear - Current simulation year (0-indexed)
  * @param monthlyWithdrawal - If true, process 12 monthly substeps; if false, delegate to stepSBLOC
+ * @param assetReturns - Annual return per asset id, used to grow the lot book (optional)
  * @returns SBLOCYearResult with aggregated totals for the year
  *
  * @example
@@ -171,7 +178,8 @@ export function stepSBLOCYear(
   config: SBLOCConfig,
   portfolioReturn: number,
   currentYear: number,
-  monthlyWithdrawal: boolean
+  monthlyWithdrawal: boolean,
+  assetReturns?: Record<string, number>
 ): SBLOCYearResult {
   // =========================================================================
   // Backward compatible path: delegate directly to stepSBLOC
@@ -183,7 +191,7 @@ export function stepSBLOCYear(
   if (!monthlyWithdrawal) {
     // IDENTICAL call to stepSBLOC - no modifications whatsoever
     // Verification test: stepSBLOCYear(s, c, 0.10, y, false).newState === stepSBLOC(s, c, 0.10, y).newState
-    return stepSBLOC(state, config, portfolioReturn, currentYear);
+    return stepSBLOC(state, config, portfolioReturn, currentYear, assetReturns);
   }
 
   // =========================================================================
@@ -201,26 +209,68 @@ export function stepSBLOCYear(
   // 4. Total withdrawal amount is identical ($50k/year = 12 x $4,166.67)
   // =========================================================================
 
-  // Convert annual return to monthly return (single value, not array)
-  const monthlyReturn = annualToMonthlyReturn(portfolioReturn);
+  // Convert annual return to 12 equal monthly returns
+  const assetMonthlyReturns = assetReturns
+    ? Object.fromEntries(
+      Object.entries(assetReturns).map(([id, r]) => [id, annualToMonthlyReturns(r)])
+    )
+    : undefined;
+  return stepSBLOCMonths(
+    state,
+    config,
+    annualToMonthlyReturns(portfolioReturn),
+    currentYear,
+    assetMonthlyReturns
+  );
+}
+
+/**
+ * Execute one year of SBLOC simulation along an actual monthly return path
+ *
+ * Used by the monthly simulation mode, where each month has its own
+ * resampled return. Unlike the smoothed path from stepSBLOCYear, a year
+ * that falls sharply and recovers by December can still trigger a margin
+ * call at its low point.
+ *
+ * @param state - Current SBLOC state
+ * @param config - SBLOC configuration (annual values)
+ * @param monthlyReturns - Portfolio return for each of the 12 months
+ * @param currentYear - Current simulation year (0-indexed)
+ * @param assetMonthlyReturns - 12 monthly returns per asset id, used to grow the lot book (optional)
+ * @returns SBLOCYearResult with aggregated totals and the month of the first margin call
+ * @throws Error if monthlyReturns does not have 12 entries
+ */
+export function stepSBLOCMonths(
+  state: SBLOCState,
+  config: SBLOCConfig,
+  monthlyReturns: number[],
+  currentYear: number,
+  assetMonthlyReturns?: Record<string, number[]>
+): SBLOCYearResult {
+  if (monthlyReturns.length !== 12) {
+    throw new Error(`Expected 12 monthly returns, got ${monthlyReturns.length}`);
+  }
 
   // Initialize aggregation variables
   let currentState = { ...state };
   let totalInterestCharged = 0;
   let totalWithdrawalMade = 0;
   let totalDividendTaxBorrowed = 0;
-  let firstMarginCall = false;
+  let marginCallMonth: number | undefined;
   let firstLiquidationEvent: LiquidationEvent | null = null;
   let portfolioFailed = false;
+  let realizedGains: AssetRealization[] | undefined;
+  let capitalGainsTax: number | undefined;
 
   // Process each month
   for (let month = 0; month < 12; month++) {
     const monthResult = stepSBLOCMonth(
       currentState,
       config,
-      monthlyReturn,
+      monthlyReturns[month],
       currentYear,
-      month
+      month,
+      assetMonthlyReturns && monthAssetReturns(assetMonthlyReturns, month)
     );
 
     // Update state for next month
@@ -232,8 +282,8 @@ export function stepSBLOCYear(
     totalDividendTaxBorrowed += monthResult.dividendTaxBorrowed;
 
     // Track first margin call
-    if (monthResult.marginCallTriggered && !firstMarginCall) {
-      firstMarginCall = true;
+    if (monthResult.marginCallTriggered && marginCallMonth === undefined) {
+      marginCallMonth = month;
     }
 
     // Track first liquidation event
@@ -241,6 +291,13 @@ export function stepSBLOCYear(
       firstLiquidationEvent = monthResult.liquidationEvent;
     }
 
+    // Accumulate realised gains across every forced sale in the year
+    if (monthResult.realizedGains) {
+      realizedGains = realizedGains ?? [];
+      addRealizations(realizedGains, monthResult.realizedGains);
+      capitalGainsTax = (capitalGainsTax ?? 0) + (monthResult.capitalGainsTax ?? 0);
+    }
+
     // If portfolio failed, break out of loop
     if (monthResult.portfolioFailed) {
       portfolioFailed = true;
@@ -251,11 +308,28 @@ export function stepSBLOCYear(
   // Return aggregated result for the year
   return {
     newState: currentState,
-    marginCallTriggered: firstMarginCall,
+    marginCallTriggered: marginCallMonth !== undefined,
     liquidationEvent: firstLiquidationEvent,
     portfolioFailed,
     interestCharged: totalInterestCharged,
     withdrawalMade: totalWithdrawalMade,
     dividendTaxBorrowed: totalDividendTaxBorrowed,
+    marginCallMonth,
+    realizedGains,
+    capitalGainsTax,
   };
 }
+
+/**
+ * Pick one month's return for each asset
+ */
+function monthAssetReturns(
+  assetMonthlyReturns: Record<string, number[]>,
+  month: number
+): Record<string, number> {
+  const returns: Record<string, number> = {};
+  for (const id in assetMonthlyReturns) {
+    returns[id] = assetMonthlyReturns[id][month];
+  }
+  return returns;
+}
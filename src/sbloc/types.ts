@@ -9,6 +9,9 @@
  * - Asset-class-specific LTV limits
  */
 
+import type { LiquidationOrder } from '../simulation/types';
+import type { TaxLot, AssetRealization } from '../calculations/tax-lots';
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -163,6 +166,28 @@ export interface SBLOCConfig {
    * @default 0 (no dividend tax)
    */
   dividendTaxRate?: number;
+
+  /**
+   * Order in which tax lots are sold by forced liquidations.
+   * Only used when the state carries a lot book (SBLOCState.lots).
+   *
+   * @default 'pro-rata'
+   */
+  liquidationOrder?: LiquidationOrder;
+
+  /**
+   * Asset sold first when liquidationOrder is 'specific-asset'
+   */
+  liquidationAssetId?: string;
+
+  /**
+   * Capital gains tax rate used to report the tax triggered by forced sales
+   * (e.g., 0.238 for 23.8%). The tax is reported, not deducted: BBD results
+   * are unchanged.
+   *
+   * @default 0
+   */
+  capitalGainsRate?: number;
 }
 
 // ============================================================================
@@ -216,6 +241,13 @@ export interface SBLOCState {
    * Used to track when to apply annual withdrawals
    */
   yearsSinceStart: number;
+
+  /**
+   * Per-asset cost basis lots of the collateral (optional).
+   * When present, forced liquidations sell lots in config.liquidationOrder
+   * and report the realised gains per asset.
+   */
+  lots?: TaxLot[];
 }
 
 // ============================================================================
@@ -293,9 +325,15 @@ export interface LiquidationEvent {
 
   /**
    * Capital gains tax triggered by forced sale (optional)
-   * For future use - enables tax-aware simulation
+   * Set when the state carries a lot book, at config.capitalGainsRate
    */
   capitalGainsTax?: number;
+
+  /**
+   * Gains realised per asset by the forced sale (optional)
+   * Set when the state carries a lot book
+   */
+  realizedGains?: AssetRealization[];
 }
 
 // ============================================================================
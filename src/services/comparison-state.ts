@@ -1,11 +1,21 @@
 /**
  * Comparison State Manager
  *
- * Singleton service for managing comparison mode state with sessionStorage persistence.
- * Handles Float64Array serialization for simulation results.
+ * Singleton service for managing comparison mode state.
+ * Previous-vs-current comparison is held in memory; pinned scenarios for
+ * N-way comparison are persisted in IndexedDB via the scenario service.
  */
 
 import type { SimulationOutput, SimulationConfig } from '../simulation/types';
+import {
+  clearScenarios,
+  deleteScenario,
+  loadScenarios,
+  pinScenario,
+  renameScenario,
+  setBaselineScenario,
+} from '../data/services/scenario-service';
+import type { ScenarioRecord } from '../data/schemas/scenario';
 
 /**
  * Comparison mode state interface
@@ -25,35 +35,8 @@ export interface ComparisonState {
   currentConfig: SimulationConfig | null;
   /** Name of current preset */
   currentPresetName: string;
-}
-
-/**
- * Session storage key for comparison state
- */
-const STORAGE_KEY = 'comparisonState';
-
-/**
- * Helper to convert Float64Array to Array for JSON serialization
- */
-function prepareForStorage(result: SimulationOutput | null): any {
-  if (!result) return null;
-
-  return {
-    ...result,
-    terminalValues: Array.from(result.terminalValues),
-  };
-}
-
-/**
- * Helper to convert Array back to Float64Array after deserialization
- */
-function restoreFromStorage(data: any): SimulationOutput | null {
-  if (!data) return null;
-
-  return {
-    ...data,
-    terminalValues: new Float64Array(data.terminalValues),
-  };
+  /** Pinned scenarios in pin order (one is flagged as baseline) */
+  scenarios: ScenarioRecord[];
 }
 
 /**
@@ -68,42 +51,18 @@ export class ComparisonStateManager {
     currentResult: null,
     currentConfig: null,
     currentPresetName: '',
+    scenarios: [],
   };
 
   /**
-   * Save current state to sessionStorage
-   */
-  saveToSession(): void {
-    try {
-      const serializable = {
-        ...this.state,
-        previousResult: prepareForStorage(this.state.previousResult),
-        currentResult: prepareForStorage(this.state.currentResult),
-      };
-      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(serializable));
-    } catch (error) {
-      console.error('Failed to save comparison state to session:', error);
-    }
-  }
-
-  /**
-   * Load state from sessionStorage
+   * Load the pinned scenario set from IndexedDB
    */
-  loadFromSession(): void {
+  async loadScenarios(): Promise<void> {
     try {
-      const stored = sessionStorage.getItem(STORAGE_KEY);
-      if (!stored) return;
-
-      const parsed = JSON.parse(stored);
-      this.state = {
-        ...parsed,
-        previousResult: restoreFromStorage(parsed.previousResult),
-        currentResult: restoreFromStorage(parsed.currentResult),
-      };
-
+      this.state.scenarios = await loadScenarios();
       this.dispatchChange();
     } catch (error) {
-      console.error('Failed to load comparison state from session:', error);
+      console.error('Failed to load scenarios:', error);
     }
   }
 
@@ -126,7 +85,6 @@ export class ComparisonStateManager {
     this.state.currentPresetName = presetName;
     this.state.isComparisonMode = true;
 
-    this.saveToSession();
     this.dispatchChange();
   }
 
@@ -139,7 +97,6 @@ export class ComparisonStateManager {
     this.state.previousConfig = null;
     this.state.previousPresetName = '';
 
-    this.saveToSession();
     this.dispatchChange();
   }
 
@@ -159,7 +116,6 @@ export class ComparisonStateManager {
     this.state.previousConfig = null;
     this.state.previousPresetName = '';
 
-    this.saveToSession();
     this.dispatchChange();
   }
 
@@ -177,6 +133,60 @@ export class ComparisonStateManager {
     return this.state.previousResult;
   }
 
+  /**
+   * Pin a simulation run to the scenario set
+   *
+   * @returns The ID of the pinned scenario
+   */
+  async pinScenario(
+    name: string,
+    result: SimulationOutput,
+    config: SimulationConfig
+  ): Promise<number> {
+    const id = await pinScenario(name, config, result);
+    await this.loadScenarios();
+    return id;
+  }
+
+  /**
+   * Unpin a scenario
+   */
+  async unpinScenario(id: number): Promise<void> {
+    await deleteScenario(id);
+    await this.loadScenarios();
+  }
+
+  /**
+   * Rename a pinned scenario
+   */
+  async renameScenario(id: number, name: string): Promise<void> {
+    await renameScenario(id, name);
+    await this.loadScenarios();
+  }
+
+  /**
+   * Choose the scenario that deltas are measured against
+   */
+  async setBaselineScenario(id: number): Promise<void> {
+    await setBaselineScenario(id);
+    await this.loadScenarios();
+  }
+
+  /**
+   * Unpin every scenario
+   */
+  async clearScenarios(): Promise<void> {
+    await clearScenarios();
+    await this.loadScenarios();
+  }
+
+  /**
+   * Get pinned scenarios
+   */
+  getScenarios(): ScenarioRecord[] {
+    return this.state.scenarios;
+  }
+
   /**
    * Get full state (readonly copy)
    */
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { runHistoricalBacktest, WORST_START_YEARS } from '../backtest';
+import type { SimulationConfig, PortfolioConfig } from '../types';
+
+describe('Historical rolling-window backtest', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      {
+        id: 'A',
+        weight: 0.7,
+        historicalReturns: [0.10, 0.15, -0.05, -0.45, 0.12, 0.05, -0.10, 0.18, 0.07, 0.09],
+        historicalYears: [2005, 2006, 2007, 2008, 2009, 2010, 2011, 2012, 2013, 2014],
+        assetClass: 'equity_index',
+      },
+      {
+        id: 'B',
+        weight: 0.3,
+        historicalReturns: [0.01, 0.03, 0.04, 0.02, 0.05, 0.06, 0.01, 0.03, 0.02, 0.04, 0.03],
+        historicalYears: [2004, 2005, 2006, 2007, 2008, 2009, 2010, 2011, 2012, 2013, 2014],
+        assetClass: 'bond',
+      },
+    ],
+    correlationMatrix: [[1.0, 0.2], [0.2, 1.0]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 500,
+    timeHorizon: 4,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'backtest',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 60_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  it('runs one window per shared start year, wrapping past the newest year', async () => {
+    const result = await runHistoricalBacktest(config, portfolio, { edge: 'wrap' });
+
+    expect(result.windows.map(w => w.startYear)).toEqual(
+      [2005, 2006, 2007, 2008, 2009, 2010, 2011, 2012, 2013, 2014]
+    );
+    expect(result.windows[8].years).toEqual([2013, 2014, 2005, 2006]);
+    expect(result.windows.every(w => w.years.length === 4)).toBe(true);
+  });
+
+  it('shortens late windows when truncating', async () => {
+    const result = await runHistoricalBacktest(config, portfolio, { edge: 'truncate' });
+
+    expect(result.windows[8].years).toEqual([2013, 2014]);
+    expect(result.windows[9].years).toEqual([2014]);
+  });
+
+  it('replays the same history for the same start year, whatever the seed', async () => {
+    const a = await runHistoricalBacktest(config, portfolio, { edge: 'wrap' });
+    const b = await runHistoricalBacktest({ ...config, seed: 'other' }, portfolio, { edge: 'wrap' });
+
+    expect(b.windows.map(w => w.bbdNetWorth)).toEqual(a.windows.map(w => w.bbdNetWorth));
+  });
+
+  it('summarizes both strategies and ranks the worst start years', async () => {
+    const result = await runHistoricalBacktest(config, portfolio, { edge: 'wrap' });
+    const bbd = result.windows.map(w => w.bbdNetWorth);
+
+    expect(result.bbd.worst).toBe(Math.min(...bbd));
+    expect(result.bbd.best).toBe(Math.max(...bbd));
+    expect(result.bbd.median).toBeGreaterThanOrEqual(result.bbd.p10);
+    expect(result.sell).toBeDefined();
+    expect(result.worstStartYears).toHaveLength(WORST_START_YEARS);
+    // The window opening with the 2008 crash is among the worst
+    expect(result.worstStartYears).toContain(2008);
+    expect(result.bbd.worst).toBe(
+      result.windows.find(w => w.startYear === result.worstStartYears[0])!.bbdNetWorth
+    );
+
+    await expect(runHistoricalBacktest(config, {
+      ...portfolio,
+      assets: [portfolio.assets[0], { ...portfolio.assets[1], historicalYears: portfolio.assets[1].historicalYears!.map(y => y - 50) }],
+    }, { edge: 'wrap' })).rejects.toThrow('share no years');
+  });
+});
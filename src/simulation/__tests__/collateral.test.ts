@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo } from '../monte-carlo';
+import { DEFAULT_LTV_BY_ASSET_CLASS } from '../../sbloc';
+import type { SimulationConfig, PortfolioConfig, SBLOCSimConfig } from '../types';
+
+describe('Asset-class collateral', () => {
+  // Constant returns make every path identical
+  const balanced: PortfolioConfig = {
+    assets: [
+      { id: 'SPY', weight: 0.6, historicalReturns: [0.2, 0.2], assetClass: 'equity_index' },
+      { id: 'BND', weight: 0.4, historicalReturns: [0, 0], assetClass: 'bond' },
+    ],
+    correlationMatrix: [[1, 0], [0, 1]],
+  };
+
+  const flat: PortfolioConfig = {
+    ...balanced,
+    assets: balanced.assets.map(asset => ({ ...asset, historicalReturns: [0, 0] })),
+  };
+
+  const concentrated: PortfolioConfig = {
+    assets: [{ id: 'TSLA', weight: 1, historicalReturns: [0, 0], assetClass: 'equity_stock' }],
+    correlationMatrix: [[1]],
+  };
+
+  const sbloc: SBLOCSimConfig = {
+    targetLTV: 0.65,
+    interestRate: 0,
+    annualWithdrawal: 0,
+    annualWithdrawalRaise: 0,
+    monthlyWithdrawal: false,
+    maintenanceMargin: 0.5,
+    liquidationHaircut: 0,
+    initialLocBalance: 680_000,
+  };
+
+  const config: SimulationConfig = {
+    iterations: 10,
+    timeHorizon: 5,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'collateral-test',
+    rebalancing: { strategy: 'none' },
+    sbloc: { ...sbloc, ltvByAssetClass: DEFAULT_LTV_BY_ASSET_CLASS },
+  };
+
+  it('blends advance rates across the drifting holdings', async () => {
+    const result = await runMonteCarlo(config, balanced);
+    const limits = result.sblocTrajectory!.effectiveLTV!.p50;
+
+    const blended = (equity: number) => (equity * 0.65 + 0.4 * 0.85) / (equity + 0.4);
+    expect(limits[0]).toBeCloseTo(blended(0.6 * 1.2), 5);
+    expect(limits[4]).toBeCloseTo(blended(0.6 * Math.pow(1.2, 5)), 5);
+    // Stocks outgrow bonds, so the limit falls toward the equity rate
+    expect(limits[4]).toBeLessThan(limits[0]);
+  });
+
+  it('lends more against a 60/40 portfolio than a single stock', async () => {
+    const balancedResult = await runMonteCarlo(config, flat);
+    const stockResult = await runMonteCarlo(config, concentrated);
+
+    // A 68% loan is within the 73% blended limit but over the 65% equity limit
+    expect(balancedResult.sblocTrajectory!.effectiveLTV!.p50[0]).toBeCloseTo(0.73, 5);
+    expect(balancedResult.marginCallStats![0].probability).toBe(0);
+    expect(stockResult.sblocTrajectory!.effectiveLTV!.p50[0]).toBeCloseTo(0.65, 5);
+    expect(stockResult.marginCallStats![0].probability).toBe(100);
+  });
+
+  it('keeps the single max LTV when advance rates are not set', async () => {
+    const result = await runMonteCarlo({ ...config, sbloc }, flat);
+    expect(result.sblocTrajectory!.effectiveLTV).toBeUndefined();
+    expect(result.marginCallStats![0].probability).toBe(100);
+  });
+});
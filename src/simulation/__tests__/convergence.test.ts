@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { convergedShards, estimateMetrics, hasConverged } from '../convergence';
+import { runMonteCarlo, simulateShards } from '../monte-carlo';
+import { SHARD_SIZE } from '../sharding';
+import type { SimulationConfig, PortfolioConfig } from '../types';
+
+describe('Convergence diagnostics', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      {
+        id: 'A',
+        weight: 0.7,
+        historicalReturns: [0.10, 0.15, -0.05, 0.08, -0.20, 0.12, 0.05, -0.10, 0.18, 0.07],
+        assetClass: 'equity_index',
+      },
+      {
+        id: 'B',
+        weight: 0.3,
+        historicalReturns: [0.03, 0.04, 0.02, 0.05, 0.06, 0.01, 0.03, 0.02, 0.04, 0.03],
+        assetClass: 'bond',
+      },
+    ],
+    correlationMatrix: [[1.0, 0.2], [0.2, 1.0]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 6 * SHARD_SIZE,
+    timeHorizon: 8,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'convergence',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 60_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+  };
+
+  describe('estimateMetrics', () => {
+    it('reports binomial standard errors with intervals around the estimates', () => {
+      // 300 of 1,000 above the initial value, 100 margin calls
+      const values = Array.from({ length: 1000 }, (_, i) => (i < 300 ? 2 : 0.5) + i * 1e-6);
+      const marginCallYears = Array.from({ length: 1000 }, (_, i) => (i < 100 ? 3 : -1));
+      const estimate = estimateMetrics(values, 1, marginCallYears);
+
+      expect(estimate.iterations).toBe(1000);
+      expect(estimate.successRate.value).toBe(30);
+      expect(estimate.successRate.standardError).toBeCloseTo(Math.sqrt((30 * 70) / 1000), 10);
+      expect(estimate.marginCallProbability!.value).toBe(10);
+      for (const metric of [estimate.successRate, estimate.median, estimate.marginCallProbability!]) {
+        expect(metric.lower).toBeLessThanOrEqual(metric.value);
+        expect(metric.upper).toBeGreaterThanOrEqual(metric.value);
+      }
+      expect(estimate.median.standardError).toBeGreaterThan(0);
+    });
+
+    it('omits margin call probability without SBLOC', () => {
+      expect(estimateMetrics([1, 2, 3], 1, null).marginCallProbability).toBeUndefined();
+    });
+  });
+
+  it('checks every metric against the tolerance', () => {
+    const estimate = estimateMetrics(Array.from({ length: 4000 }, (_, i) => 1 + i / 4000), 1.5, null);
+
+    // Success rate half-width is about 1.5 points at n = 4,000
+    expect(hasConverged(estimate, 2)).toBe(true);
+    expect(hasConverged(estimate, 1)).toBe(false);
+  });
+
+  it('reports running estimates and the final confidence on fixed runs', async () => {
+    const result = await runMonteCarlo({ ...config, iterations: 2 * SHARD_SIZE + 500 }, portfolio);
+    const { checkpoints, tolerance, converged } = result.convergence!;
+
+    expect(checkpoints.map(c => c.iterations)).toEqual([SHARD_SIZE, 2 * SHARD_SIZE, 2 * SHARD_SIZE + 500]);
+    expect(tolerance).toBeUndefined();
+    expect(converged).toBeUndefined();
+
+    const confidence = result.statistics.confidence!;
+    expect(confidence.successRate.value).toBeCloseTo(result.statistics.successRate, 10);
+    expect(confidence.median.value).toBe(result.statistics.median);
+    expect(confidence.marginCallProbability!.value)
+      .toBeCloseTo(result.marginCallStats![config.timeHorizon - 1].cumulativeProbability, 10);
+  });
+
+  it('stops an auto run once the metrics converge, matching a fixed run of that length', async () => {
+    const auto = await runMonteCarlo({ ...config, convergence: { tolerance: 3 } }, portfolio);
+    const { checkpoints, converged } = auto.convergence!;
+    const iterations = checkpoints[checkpoints.length - 1].iterations;
+
+    expect(converged).toBe(true);
+    expect(iterations).toBeLessThan(config.iterations);
+    expect(checkpoints.slice(0, -1).every(c => !hasConverged(c, 3))).toBe(true);
+
+    const fixed = await runMonteCarlo({ ...config, iterations }, portfolio);
+    expect(auto.statistics).toEqual(fixed.statistics);
+    expect(Array.from(auto.terminalValues)).toEqual(Array.from(fixed.terminalValues));
+  });
+
+  it('runs to the cap when the tolerance is not met', async () => {
+    const auto = await runMonteCarlo(
+      { ...config, iterations: 2 * SHARD_SIZE, convergence: { tolerance: 0.01 } },
+      portfolio
+    );
+
+    expect(auto.terminalValues.length).toBe(2 * SHARD_SIZE);
+    expect(auto.convergence!.converged).toBe(false);
+  });
+
+  it('finds the same stopping shard however shards are batched', async () => {
+    const autoConfig = { ...config, convergence: { tolerance: 3 } };
+    const parts = await Promise.all(
+      Array.from({ length: 6 }, (_, shard) => simulateShards(autoConfig, portfolio, { first: shard, count: 1 }))
+    );
+
+    let sequential: number | null = null;
+    for (let shard = 0; shard < parts.length && sequential === null; shard++) {
+      sequential = convergedShards(parts.slice(0, shard + 1), autoConfig, shard);
+    }
+    // Waves of four shards, completing out of order
+    let batched = convergedShards(parts.slice(0, 4).reverse(), autoConfig);
+    if (batched === null) batched = convergedShards(parts, autoConfig, 4);
+
+    expect(sequential).not.toBeNull();
+    expect(batched).toBe(sequential);
+  });
+});
@@ -7,7 +7,9 @@ import {
   studentT,
   generateFatTailReturn,
   generateCorrelatedFatTailReturns,
+  resolveFatTailParams,
 } from '../fat-tail';
+import { FAT_TAIL_PARAMS } from '../types';
 
 describe('studentT', () => {
   it('should generate values with mean near 0', () => {
@@ -211,3 +213,47 @@ describe('generateCorrelatedFatTailReturns', () => {
     ).toThrow('generateCorrelatedFatTailReturns: historicalReturns cannot be empty');
   });
 });
+
+describe('resolveFatTailParams', () => {
+  it('should return defaults when no overrides are given', () => {
+    expect(resolveFatTailParams()).toEqual(FAT_TAIL_PARAMS);
+  });
+
+  it('should merge partial overrides over defaults per asset class', () => {
+    const params = resolveFatTailParams({
+      equity_stock: { degreesOfFreedom: 3 },
+      bond: { survivorshipBias: 0.001, skewMultiplier: -0.1 },
+    });
+
+    expect(params.equity_stock).toEqual({ ...FAT_TAIL_PARAMS.equity_stock, degreesOfFreedom: 3 });
+    expect(params.bond).toEqual({ ...FAT_TAIL_PARAMS.bond, survivorshipBias: 0.001, skewMultiplier: -0.1 });
+    expect(params.equity_index).toEqual(FAT_TAIL_PARAMS.equity_index);
+  });
+
+  it('should round degrees of freedom to a positive integer', () => {
+    expect(resolveFatTailParams({ commodity: { degreesOfFreedom: 0 } }).commodity.degreesOfFreedom).toBe(1);
+    expect(resolveFatTailParams({ commodity: { degreesOfFreedom: 6.6 } }).commodity.degreesOfFreedom).toBe(7);
+  });
+
+  it('should not mutate FAT_TAIL_PARAMS', () => {
+    const params = resolveFatTailParams();
+    params.equity_index.degreesOfFreedom = 99;
+    expect(FAT_TAIL_PARAMS.equity_index.degreesOfFreedom).toBe(7);
+  });
+
+  it('should apply overridden parameters when generating returns', () => {
+    const historicalReturns = [0.10, 0.12, -0.05, 0.08, 0.15];
+    const samples = 5000;
+    const biased = resolveFatTailParams({ equity_index: { survivorshipBias: 0.05 } });
+
+    let sum = 0;
+    for (let i = 0; i < samples; i++) {
+      sum += generateCorrelatedFatTailReturns([historicalReturns], ['equity_index'], [[1]], biased)[0];
+    }
+
+    // Historical mean 0.08 plus 5% bias; negative skew pulls the mean down slightly
+    const mean = sum / samples;
+    expect(mean).toBeGreaterThan(0.10);
+    expect(mean).toBeLessThan(0.16);
+  });
+});
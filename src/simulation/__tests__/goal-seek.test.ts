@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { percentile } from '../../math';
+import { quantileInterval, wilsonInterval } from '../convergence';
+import { solveForTarget } from '../goal-seek';
+import { runMonteCarlo } from '../monte-carlo';
+import type { PortfolioConfig, SimulationConfig } from '../types';
+
+describe('Goal seek', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [{ id: 'SPY', weight: 1, historicalReturns: [0.25, -0.1, 0.15, 0.05, 0.3, -0.2] }],
+    correlationMatrix: [[1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 50,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'goal-seek-test',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 50_000,
+      annualWithdrawalRaise: 0,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+  };
+
+  const finalMarginCallProbability = async (withdrawal: number) => {
+    const output = await runMonteCarlo(
+      { ...config, sbloc: { ...config.sbloc!, annualWithdrawal: withdrawal } },
+      portfolio
+    );
+    const stats = output.marginCallStats!;
+    return stats[stats.length - 1].cumulativeProbability;
+  };
+
+  describe('confidence intervals', () => {
+    it('brackets the observed proportion with a Wilson interval', () => {
+      const [low, high] = wilsonInterval(10, 100);
+      expect(low).toBeCloseTo(5.52, 1);
+      expect(high).toBeCloseTo(17.44, 1);
+      expect(wilsonInterval(0, 100)[0]).toBe(0);
+    });
+
+    it('brackets the quantile with order statistics', () => {
+      const values = Array.from({ length: 1000 }, (_, i) => i);
+      const [low, high] = quantileInterval(values, 0.1);
+      expect(low).toBeLessThan(100);
+      expect(high).toBeGreaterThan(100);
+    });
+  });
+
+  describe('solveForTarget', () => {
+    it('finds the largest withdrawal meeting a margin call target', async () => {
+      const result = await solveForTarget(config, portfolio, {
+        parameter: 'annualWithdrawal',
+        target: { metric: 'marginCallProbability', max: 10 },
+        bounds: [0, 400_000],
+        steps: 6,
+      });
+
+      expect(result.seed).toBe('goal-seek-test');
+      expect(result.evaluations).toBe(8);
+      expect(result.bounded).toBe(false);
+      expect(result.value).not.toBeNull();
+      expect(result.metricValue).toBeLessThanOrEqual(10);
+      expect(result.confidenceInterval[0]).toBeLessThanOrEqual(result.metricValue);
+      expect(result.confidenceInterval[1]).toBeGreaterThanOrEqual(result.metricValue);
+
+      // Same seed reproduces the solution's metric; one search step more misses
+      expect(await finalMarginCallProbability(result.value!)).toBe(result.metricValue);
+      expect(await finalMarginCallProbability(result.value! + 400_000 / 2 ** 6)).toBeGreaterThan(10);
+    });
+
+    it('reports no solution when even the safe bound misses', async () => {
+      const result = await solveForTarget(config, portfolio, {
+        parameter: 'initialValue',
+        target: { metric: 'p10NetWorth', min: 1e12 },
+        steps: 2,
+      });
+
+      expect(result.value).toBeNull();
+      expect(result.evaluations).toBe(1);
+    });
+
+    it('reports the same interpolated P10 as the dashboard', async () => {
+      const result = await solveForTarget(config, portfolio, {
+        parameter: 'annualWithdrawal',
+        target: { metric: 'p10NetWorth', min: 250_000 },
+        bounds: [0, 200_000],
+        steps: 3,
+      });
+      expect(result.value).not.toBeNull();
+
+      const output = await runMonteCarlo(
+        { ...config, sbloc: { ...config.sbloc!, annualWithdrawal: result.value! } },
+        portfolio
+      );
+      expect(result.metricValue).toBe(percentile(output.terminalValues, 10));
+    });
+
+    it('evaluates at the completed iteration count of an auto-iteration run', async () => {
+      // The cap would be 5000 iterations per evaluation; the annotated run stopped at 50
+      const auto: SimulationConfig = { ...config, iterations: 5000, convergence: { tolerance: 1 } };
+      const result = await solveForTarget(auto, portfolio, {
+        parameter: 'annualWithdrawal',
+        target: { metric: 'p10NetWorth', min: 250_000 },
+        bounds: [0, 200_000],
+        steps: 3,
+        iterations: 50,
+      });
+
+      const output = await runMonteCarlo(
+        { ...config, sbloc: { ...config.sbloc!, annualWithdrawal: result.value! } },
+        portfolio
+      );
+      expect(output.terminalValues).toHaveLength(50);
+      expect(result.metricValue).toBe(percentile(output.terminalValues, 10));
+
+      await expect(solveForTarget(auto, portfolio, {
+        parameter: 'annualWithdrawal',
+        target: { metric: 'p10NetWorth' },
+        iterations: 0,
+      })).rejects.toThrow('iterations');
+    });
+
+    it('rejects empty search ranges', async () => {
+      await expect(solveForTarget(config, portfolio, {
+        parameter: 'targetLTV',
+        target: { metric: 'successRate', min: 90 },
+        bounds: [0.6, 0.4],
+      })).rejects.toThrow('search range');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { generateRatePath, REGIME_BENCHMARK_OFFSET } from '../interest-rates';
+import { runMonteCarlo } from '../monte-carlo';
+import type { InterestRateModelConfig, MarketRegime, PortfolioConfig, SimulationConfig } from '../types';
+
+describe('Variable-rate interest', () => {
+  const calm: InterestRateModelConfig = {
+    process: 'mean-reverting',
+    spread: 0.025,
+    longRunBenchmark: 0.035,
+    reversionSpeed: 0.5,
+    volatility: 0,
+  };
+
+  describe('generateRatePath', () => {
+    it('charges the starting rate in year one', () => {
+      const rates = generateRatePath(0.07, { process: 'mean-reverting', spread: 0.025 }, 10);
+      expect(rates).toHaveLength(10);
+      expect(rates[0]).toBe(0.07);
+    });
+
+    it('reverts toward the long-run benchmark plus spread', () => {
+      const rates = generateRatePath(0.07, calm, 30);
+
+      // The 1% gap to the long-run rate halves every year
+      expect(rates[1]).toBeCloseTo(0.065, 12);
+      expect(rates[2]).toBeCloseTo(0.0625, 12);
+      expect(rates[29]).toBeCloseTo(0.06, 8);
+    });
+
+    it('clamps the all-in rate to the floor and cap', () => {
+      const rates = generateRatePath(
+        0.03,
+        { ...calm, volatility: 0.05, floor: 0.04, cap: 0.08 },
+        50,
+        undefined,
+        () => 0.5
+      );
+      expect(rates[0]).toBe(0.04);
+      expect(Math.min(...rates)).toBeGreaterThanOrEqual(0.04);
+      expect(Math.max(...rates)).toBeLessThanOrEqual(0.08);
+    });
+
+    it('shifts the benchmark target with the market regime', () => {
+      const regimes: MarketRegime[] = ['bull', 'crash', 'crash', 'bull'];
+      const rates = generateRatePath(0.06, { ...calm, process: 'regime', reversionSpeed: 1 }, 4, regimes);
+
+      expect(rates[1]).toBeCloseTo(0.06 + REGIME_BENCHMARK_OFFSET.crash, 12);
+      expect(rates[2]).toBeCloseTo(0.06 + REGIME_BENCHMARK_OFFSET.crash, 12);
+      expect(rates[3]).toBeCloseTo(0.06 + REGIME_BENCHMARK_OFFSET.bull, 12);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    const portfolio: PortfolioConfig = {
+      assets: [{ id: 'SPY', weight: 1, historicalReturns: [0.25, -0.1, 0.15, 0.05, 0.3, -0.2] }],
+      correlationMatrix: [[1]],
+    };
+
+    const config: SimulationConfig = {
+      iterations: 50,
+      timeHorizon: 10,
+      initialValue: 1_000_000,
+      inflationAdjusted: false,
+      inflationRate: 0,
+      resamplingMethod: 'simple',
+      seed: 'interest-rate-test',
+      sbloc: {
+        targetLTV: 0.65,
+        interestRate: 0.07,
+        annualWithdrawal: 20_000,
+        annualWithdrawalRaise: 0,
+        monthlyWithdrawal: false,
+        maintenanceMargin: 0.5,
+        liquidationHaircut: 0.05,
+        initialLocBalance: 0,
+      },
+      sellStrategy: { costBasisRatio: 0.4, dividendYield: 0 },
+    };
+
+    it('keeps market returns unchanged and charges a fixed rate by default', async () => {
+      const fixed = await runMonteCarlo(config, portfolio);
+      const variable = await runMonteCarlo(
+        { ...config, sbloc: { ...config.sbloc!, rateModel: { process: 'mean-reverting', spread: 0.025 } } },
+        portfolio
+      );
+
+      expect(fixed.sblocTrajectory!.interestRate).toBeUndefined();
+      // Rates draw from their own stream, so the sell strategy sees the same markets
+      expect(variable.sellStrategy!.yearlyPercentiles).toEqual(fixed.sellStrategy!.yearlyPercentiles);
+    });
+
+    it('reports the distribution of rates paid and cumulative interest', async () => {
+      const result = await runMonteCarlo(
+        { ...config, sbloc: { ...config.sbloc!, rateModel: { ...calm, volatility: 0.01 } } },
+        portfolio
+      );
+      const { interestRate, cumulativeInterest } = result.sblocTrajectory!;
+
+      expect(interestRate!.p50[0]).toBeCloseTo(0.07, 5);
+      expect(interestRate!.p10[9]).toBeLessThan(interestRate!.p90[9]);
+      for (let year = 0; year < 10; year++) {
+        expect(cumulativeInterest.p10[year]).toBeLessThanOrEqual(cumulativeInterest.p50[year]);
+        expect(cumulativeInterest.p50[year]).toBeLessThanOrEqual(cumulativeInterest.p90[year]);
+      }
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest';
+import seedrandom from 'seedrandom';
+import { runMonteCarlo } from '../monte-carlo';
+import {
+  bridgeAnnualReturns,
+  compoundMonthlyToAnnual,
+  estimateMonthlyVolatility,
+  hasMonthlyHistory,
+  monthlyLogParams,
+} from '../monthly-returns';
+import { generateCorrelatedMonthlyRegimeReturns, monthlyTransitionMatrix } from '../regime-switching';
+import { generateCorrelatedFatTailReturns, generateCorrelatedMonthlyFatTailReturns } from '../fat-tail';
+import { FAT_TAIL_PARAMS, REGIME_CONFIG } from '../types';
+import {
+  initializeSBLOCState,
+  stepSBLOCMonths,
+  stepSBLOCYear,
+  type SBLOCConfig,
+} from '../../sbloc';
+import type { SimulationConfig, PortfolioConfig, AssetConfig } from '../types';
+
+describe('Monthly Simulation', () => {
+  describe('bridgeAnnualReturns', () => {
+    const annual = [
+      [0.10, -0.35, 0.25, 0.02],
+      [0.04, 0.06, -0.01, 0.03],
+    ];
+
+    it('produces months that compound exactly to each annual return', () => {
+      const monthly = bridgeAnnualReturns(annual, [0.05, 0.01], [[1, 0.3], [0.3, 1]], seedrandom('bridge'));
+
+      expect(monthly[0]).toHaveLength(48);
+      compoundMonthlyToAnnual(monthly[0]).forEach((r, year) => {
+        expect(r).toBeCloseTo(annual[0][year], 12);
+      });
+      compoundMonthlyToAnnual(monthly[1]).forEach((r, year) => {
+        expect(r).toBeCloseTo(annual[1][year], 12);
+      });
+    });
+
+    it('adds intra-year volatility proportional to the monthly volatility', () => {
+      const monthly = bridgeAnnualReturns(annual, [0.05, 0], [[1, 0], [0, 1]], seedrandom('bridge'));
+
+      // Volatile asset: months spread well apart
+      const firstYear = monthly[0].slice(0, 12);
+      expect(Math.max(...firstYear) - Math.min(...firstYear)).toBeGreaterThan(0.05);
+
+      // Zero volatility: 12 equal months
+      const flat = monthly[1].slice(0, 12);
+      for (const r of flat) {
+        expect(r).toBeCloseTo(Math.pow(1.04, 1 / 12) - 1, 12);
+      }
+    });
+  });
+
+  describe('history helpers', () => {
+    const asset: AssetConfig = {
+      id: 'A',
+      weight: 1,
+      historicalReturns: [0.2, -0.1, 0.15, 0.05],
+    };
+
+    it('requires two years of monthly history for every asset', () => {
+      expect(hasMonthlyHistory([asset])).toBe(false);
+      expect(hasMonthlyHistory([{ ...asset, monthlyReturns: new Array(24).fill(0.01) }])).toBe(true);
+      expect(hasMonthlyHistory([
+        { ...asset, monthlyReturns: new Array(24).fill(0.01) },
+        { ...asset, id: 'B', monthlyReturns: new Array(12).fill(0.01) },
+      ])).toBe(false);
+    });
+
+    it('scales annual volatility by 1/sqrt(12) without monthly history', () => {
+      const logs = asset.historicalReturns.map(r => Math.log(1 + r));
+      const m = logs.reduce((a, b) => a + b, 0) / logs.length;
+      const sd = Math.sqrt(logs.reduce((a, b) => a + (b - m) ** 2, 0) / (logs.length - 1));
+      expect(estimateMonthlyVolatility(asset)).toBeCloseTo(sd / Math.sqrt(12), 5);
+    });
+  });
+
+  describe('monthly return models', () => {
+    it('scales an annual distribution so 12 compounded months keep its mean and volatility', () => {
+      const { mean, stddev } = monthlyLogParams(0.08, 0.18);
+      const annualLogMean = 12 * mean;
+      const annualLogVariance = 12 * stddev * stddev;
+
+      expect(Math.exp(annualLogMean + annualLogVariance / 2)).toBeCloseTo(1.08, 12);
+      const annualVariance = Math.exp(2 * annualLogMean + annualLogVariance) * (Math.exp(annualLogVariance) - 1);
+      expect(Math.sqrt(annualVariance)).toBeCloseTo(0.18, 12);
+    });
+
+    it('keeps the chance of a regime lasting a whole year when stepping monthly', () => {
+      const annual = REGIME_CONFIG.historical.transitions;
+      const monthly = monthlyTransitionMatrix(annual);
+
+      for (const from of ['bull', 'bear', 'crash', 'recovery'] as const) {
+        const row = monthly[from];
+        expect(row.bull + row.bear + row.crash + row.recovery).toBeCloseTo(1, 12);
+        expect(Math.pow(row[from], 12)).toBeCloseTo(annual[from][from], 12);
+      }
+      // Exits keep their annual proportions
+      expect(monthly.bear.crash / monthly.bear.recovery).toBeCloseTo(0.2 / 0.3, 12);
+    });
+
+    it('switches regimes month by month', () => {
+      const years = 500;
+      const { returns, regimes } = generateCorrelatedMonthlyRegimeReturns(
+        years, 1, [[1]], seedrandom('monthly-regime')
+      );
+      expect(returns[0]).toHaveLength(years * 12);
+      expect(regimes).toHaveLength(years);
+
+      // Years spent mostly in a crash lose money on average; bull years gain
+      const annual = compoundMonthlyToAnnual(returns[0]);
+      const meanOf = (regime: string) => {
+        const values = annual.filter((_, year) => regimes[year] === regime);
+        return values.reduce((a, b) => a + b, 0) / values.length;
+      };
+      expect(meanOf('crash')).toBeLessThan(0);
+      expect(meanOf('bull')).toBeGreaterThan(0.05);
+    });
+
+    it('draws fat-tailed months that keep the annual model\'s mean and volatility', () => {
+      const history = [0.2, -0.1, 0.15, 0.05, 0.3, -0.25, 0.12, 0.08];
+      const years = 4000;
+      const [monthly] = generateCorrelatedMonthlyFatTailReturns(
+        [history], ['equity_index'], [[1]], years * 12, FAT_TAIL_PARAMS, seedrandom('monthly-fat-tail')
+      );
+      expect(monthly).toHaveLength(years * 12);
+
+      const rng = seedrandom('annual-fat-tail');
+      const annualDraws = Array.from({ length: years }, () =>
+        generateCorrelatedFatTailReturns([history], ['equity_index'], [[1]], FAT_TAIL_PARAMS, rng)[0]
+      );
+      const moments = (values: number[]) => {
+        const m = values.reduce((a, b) => a + b, 0) / values.length;
+        const variance = values.reduce((a, b) => a + (b - m) ** 2, 0) / values.length;
+        return { mean: m, stddev: Math.sqrt(variance), variance };
+      };
+      const compounded = moments(compoundMonthlyToAnnual(monthly));
+      const annual = moments(annualDraws);
+      expect(Math.abs(compounded.mean - annual.mean)).toBeLessThan(0.01);
+      expect(Math.abs(compounded.stddev - annual.stddev)).toBeLessThan(0.015);
+
+      // Monthly draws carry the heavy tails (positive excess kurtosis)
+      const logs = monthly.map(r => Math.log(1 + r));
+      const { mean, variance } = moments(logs);
+      const kurtosis = logs.reduce((a, b) => a + (b - mean) ** 4, 0) / logs.length / (variance * variance);
+      expect(kurtosis).toBeGreaterThan(4);
+    });
+  });
+
+  describe('stepSBLOCMonths', () => {
+    const config: SBLOCConfig = {
+      annualInterestRate: 0,
+      maxLTV: 0.65,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      annualWithdrawal: 0,
+      compoundingFrequency: 'annual',
+      startYear: 0,
+    };
+
+    it('catches a margin call in a V-shaped year the smoothed path misses', () => {
+      const state = initializeSBLOCState(config, 1_000_000, 550_000);
+      // Falls 20% in March, recovers in April, flat for the year overall
+      const vShape = [0, 0, -0.2, 0.25, 0, 0, 0, 0, 0, 0, 0, 0];
+      expect(compoundMonthlyToAnnual(vShape)[0]).toBeCloseTo(0, 12);
+
+      const smoothed = stepSBLOCYear(state, config, 0, 0, true);
+      expect(smoothed.marginCallTriggered).toBe(false);
+
+      const actual = stepSBLOCMonths(state, config, vShape, 0);
+      expect(actual.marginCallTriggered).toBe(true);
+      expect(actual.marginCallMonth).toBe(2);
+      expect(actual.liquidationEvent).not.toBeNull();
+    });
+
+    it('matches stepSBLOCYear for an evenly spread annual return', () => {
+      const withdrawing = { ...config, annualInterestRate: 0.07, annualWithdrawal: 60_000 };
+      const state = initializeSBLOCState(withdrawing, 1_000_000, 100_000);
+      const monthly = new Array(12).fill(Math.pow(1.08, 1 / 12) - 1);
+
+      const viaYear = stepSBLOCYear(state, withdrawing, 0.08, 0, true);
+      const viaMonths = stepSBLOCMonths(state, withdrawing, monthly, 0);
+      expect(viaMonths.newState).toEqual(viaYear.newState);
+      expect(viaMonths.interestCharged).toBeCloseTo(viaYear.interestCharged, 8);
+    });
+
+    it('rejects paths that are not 12 months long', () => {
+      const state = initializeSBLOCState(config, 1_000_000);
+      expect(() => stepSBLOCMonths(state, config, [0.01, 0.02], 0)).toThrow(/12 monthly returns/);
+    });
+  });
+
+  describe('runMonteCarlo with monthly time step', () => {
+    // Flat years whose months contain sharp, fully recovered drawdowns
+    const vMonths = Array.from({ length: 24 }, (_, m) =>
+      m % 12 === 2 ? -0.2 : m % 12 === 3 ? 0.25 : 0
+    );
+    const portfolio: PortfolioConfig = {
+      assets: [{
+        id: 'V',
+        weight: 1,
+        historicalReturns: [0, 0],
+        monthlyReturns: vMonths,
+        assetClass: 'equity_index',
+      }],
+      correlationMatrix: [[1]],
+    };
+
+    const config: SimulationConfig = {
+      iterations: 200,
+      timeHorizon: 10,
+      initialValue: 1_000_000,
+      inflationAdjusted: false,
+      inflationRate: 0,
+      resamplingMethod: 'simple',
+      seed: 'monthly-test',
+      sbloc: {
+        targetLTV: 0.65,
+        interestRate: 0,
+        annualWithdrawal: 0,
+        annualWithdrawalRaise: 0,
+        monthlyWithdrawal: true,
+        maintenanceMargin: 0.5,
+        liquidationHaircut: 0.05,
+        initialLocBalance: 550_000,
+      },
+    };
+
+    it('finds margin calls the annual model cannot see', async () => {
+      const annual = await runMonteCarlo(config, portfolio);
+      const monthly = await runMonteCarlo({ ...config, timeStep: 'monthly' }, portfolio);
+
+      const finalAnnual = annual.marginCallStats!.at(-1)!.cumulativeProbability;
+      const finalMonthly = monthly.marginCallStats!.at(-1)!.cumulativeProbability;
+      expect(finalAnnual).toBe(0);
+      expect(finalMonthly).toBeGreaterThan(50);
+    });
+
+    it('reports first-call timing by month', async () => {
+      const monthly = await runMonteCarlo({ ...config, timeStep: 'monthly' }, portfolio);
+
+      for (const stats of monthly.marginCallStats!) {
+        expect(stats.monthlyProbability).toHaveLength(12);
+        const total = stats.monthlyProbability!.reduce((a, b) => a + b, 0);
+        expect(total).toBeCloseTo(stats.probability, 10);
+      }
+
+      // Annual runs carry no month timing
+      const annual = await runMonteCarlo(config, portfolio);
+      expect(annual.marginCallStats![0].monthlyProbability).toBeUndefined();
+    });
+
+    it.each(['simple', 'block', 'regime', 'fat-tail'] as const)(
+      'replays %s monthly runs identically with the same seed',
+      async (method) => {
+        const bridged: PortfolioConfig = {
+          assets: [
+            { id: 'A', weight: 0.6, historicalReturns: [0.1, 0.15, -0.05, 0.08, -0.2, 0.12], assetClass: 'equity_index' },
+            { id: 'B', weight: 0.4, historicalReturns: [0.03, 0.04, 0.02, 0.05, 0.06, 0.01], assetClass: 'bond' },
+          ],
+          correlationMatrix: [[1, 0.2], [0.2, 1]],
+        };
+        const monthlyConfig: SimulationConfig = {
+          ...config,
+          resamplingMethod: method,
+          timeStep: 'monthly',
+          sbloc: { ...config.sbloc!, initialLocBalance: 0, annualWithdrawal: 40_000, interestRate: 0.07 },
+        };
+
+        const first = await runMonteCarlo(monthlyConfig, bridged);
+        const second = await runMonteCarlo(monthlyConfig, bridged);
+        expect(Array.from(second.terminalValues)).toEqual(Array.from(first.terminalValues));
+        expect(first.terminalValues.every(v => Number.isFinite(v))).toBe(true);
+      }
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assetMoments,
+  efficientFrontier,
+  MAX_OPTIMIZER_ASSETS,
+  portfolioMoments,
+  runPortfolioOptimizer,
+  type AssetMoments,
+} from '../optimizer';
+import type { PortfolioConfig, SimulationConfig } from '../types';
+
+describe('Portfolio optimizer', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      { id: 'SPY', weight: 0.6, historicalReturns: [0.25, -0.1, 0.15, 0.05, 0.3, -0.2, 0.12, 0.18] },
+      { id: 'AGG', weight: 0.3, historicalReturns: [0.04, 0.06, 0.02, 0.05, 0.03, 0.07, 0.01, 0.04] },
+      { id: 'GLD', weight: 0.1, historicalReturns: [-0.05, 0.2, 0.1, -0.1, 0.05, 0.25, 0.0, 0.08] },
+    ],
+    correlationMatrix: [
+      [1, -0.2, 0.1],
+      [-0.2, 1, 0.3],
+      [0.1, 0.3, 1],
+    ],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 1000,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'optimizer-test',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 60_000,
+      annualWithdrawalRaise: 0,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+  };
+
+  describe('efficientFrontier', () => {
+    it('matches the closed-form minimum-variance mix of two uncorrelated assets', () => {
+      const moments: AssetMoments = {
+        means: [0.08, 0.04],
+        covariance: [[0.04, 0], [0, 0.01]],
+      };
+      const [globalMin] = efficientFrontier(moments, 5);
+
+      // w1 = s2^2 / (s1^2 + s2^2)
+      expect(globalMin[0]).toBeCloseTo(0.2, 10);
+      expect(globalMin[1]).toBeCloseTo(0.8, 10);
+    });
+
+    it('runs long-only from minimum variance to the highest-return asset', () => {
+      const moments = assetMoments(portfolio);
+      const frontier = efficientFrontier(moments, 10);
+      const points = frontier.map(w => portfolioMoments(w, moments));
+
+      for (const weights of frontier) {
+        expect(weights.every(w => w >= 0)).toBe(true);
+        expect(weights.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+      }
+      for (let i = 1; i < points.length; i++) {
+        expect(points[i].expectedReturn).toBeGreaterThan(points[i - 1].expectedReturn);
+        expect(points[i].volatility).toBeGreaterThanOrEqual(points[i - 1].volatility - 1e-12);
+      }
+      expect(frontier[frontier.length - 1]).toEqual([1, 0, 0]);
+    });
+
+    it('is not dominated by any long-only portfolio', () => {
+      const moments = assetMoments(portfolio);
+      const frontier = efficientFrontier(moments, 25).map(w => portfolioMoments(w, moments));
+
+      // No grid portfolio earns at least as much as a frontier point with less risk
+      for (let a = 0; a <= 20; a++) {
+        for (let b = 0; a + b <= 20; b++) {
+          const mix = portfolioMoments([a / 20, b / 20, 1 - (a + b) / 20], moments);
+          for (const point of frontier) {
+            if (mix.expectedReturn >= point.expectedReturn) {
+              expect(mix.volatility).toBeGreaterThanOrEqual(point.volatility - 1e-9);
+            }
+          }
+        }
+      }
+    });
+
+    it('rejects portfolios with too many assets', () => {
+      const n = MAX_OPTIMIZER_ASSETS + 1;
+      const moments: AssetMoments = {
+        means: Array.from({ length: n }, (_, i) => 0.01 * i),
+        covariance: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 0.01 : 0))),
+      };
+      expect(() => efficientFrontier(moments)).toThrow(`at most ${MAX_OPTIMIZER_ASSETS}`);
+    });
+  });
+
+  describe('runPortfolioOptimizer', () => {
+    it('picks the highest-median frontier portfolio within the margin call cap', async () => {
+      const result = await runPortfolioOptimizer(config, portfolio, {
+        marginCallCap: 20,
+        points: 6,
+        iterations: 200,
+      });
+
+      expect(result.assetIds).toEqual(['SPY', 'AGG', 'GLD']);
+      expect(result.seed).toBe('optimizer-test');
+      expect(result.iterations).toBe(200);
+      expect(result.current.weights).toEqual([0.6, 0.3, 0.1]);
+
+      const withinCap = result.frontier.filter(p => p.marginCallProbability <= 20);
+      if (withinCap.length === 0) {
+        expect(result.bbdOptimalIndex).toBeNull();
+      } else {
+        const optimum = result.frontier[result.bbdOptimalIndex!];
+        expect(optimum.marginCallProbability).toBeLessThanOrEqual(20);
+        expect(optimum.medianNetWorth).toBe(Math.max(...withinCap.map(p => p.medianNetWorth)));
+      }
+    });
+
+    it('rejects caps outside 0-100', async () => {
+      await expect(runPortfolioOptimizer(config, portfolio, { marginCallCap: 150 }))
+        .rejects.toThrow('between 0 and 100');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo, tracePath } from '../monte-carlo';
+import { SHARD_SIZE } from '../sharding';
+import type { SimulationConfig, PortfolioConfig } from '../types';
+
+describe('Path explorer', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      {
+        id: 'A',
+        weight: 0.7,
+        historicalReturns: [0.10, 0.15, -0.05, 0.08, -0.20, 0.12, 0.05, -0.10, 0.18, 0.07],
+        assetClass: 'equity_index',
+      },
+      {
+        id: 'B',
+        weight: 0.3,
+        historicalReturns: [0.03, 0.04, 0.02, 0.05, 0.06, 0.01, 0.03, 0.02, 0.04, 0.03],
+        assetClass: 'bond',
+      },
+    ],
+    correlationMatrix: [[1.0, 0.2], [0.2, 1.0]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: SHARD_SIZE + 200,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'paths',
+    sbloc: {
+      targetLTV: 0.5,
+      interestRate: 0.07,
+      annualWithdrawal: 90_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.4,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+      rateModel: { process: 'mean-reverting', spread: 0.025 },
+    },
+  };
+
+  it('reports the representative iterations by terminal net worth', async () => {
+    const result = await runMonteCarlo(config, portfolio);
+    const { worst, p10, p50, p90 } = result.representativePaths!;
+    const terminal = result.terminalValues;
+
+    expect(terminal[worst]).toBe(Math.min(...terminal));
+    expect(terminal[worst]).toBeLessThanOrEqual(terminal[p10]);
+    expect(terminal[p10]).toBeLessThanOrEqual(terminal[p50]);
+    expect(terminal[p50]).toBeLessThanOrEqual(terminal[p90]);
+  });
+
+  it.each([17, SHARD_SIZE + 123])('replays iteration %i exactly as the run simulated it', async (iteration) => {
+    const result = await runMonteCarlo(config, portfolio);
+    const trace = await tracePath(config, portfolio, iteration);
+
+    expect(trace.iteration).toBe(iteration);
+    expect(trace.seed).toBe('paths');
+    expect(trace.assetIds).toEqual(['A', 'B']);
+    expect(trace.years).toHaveLength(config.timeHorizon);
+
+    const last = trace.years[config.timeHorizon - 1];
+    expect(last.netWorth).toBeCloseTo(result.terminalValues[iteration], 6);
+
+    for (const year of trace.years) {
+      expect(year.assetReturns).toHaveLength(2);
+      expect(year.netWorth).toBeCloseTo(year.portfolioValue - year.loanBalance, 6);
+      expect(year.interestRate).toBeGreaterThan(0);
+      expect(year.maxLTV).toBe(0.5);
+    }
+  });
+
+  it('rejects iterations outside the run and runs without a seed', async () => {
+    await expect(tracePath(config, portfolio, config.iterations)).rejects.toThrow('outside the run');
+    await expect(tracePath(config, portfolio, 1.5)).rejects.toThrow('outside the run');
+    await expect(tracePath({ ...config, seed: undefined }, portfolio, 0)).rejects.toThrow('seed');
+  });
+});
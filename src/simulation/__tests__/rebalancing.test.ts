@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo } from '../monte-carlo';
+import { driftWeights, isRebalanceDue, rebalanceWeights, resolveRebalancing } from '../rebalancing';
+import { calculateSellStrategyFromReturns } from '../../calculations/sell-strategy';
+import type { SimulationConfig, PortfolioConfig } from '../types';
+
+describe('Rebalancing', () => {
+  // Constant returns make every path identical: A gains 20% a year, B is flat
+  const portfolio: PortfolioConfig = {
+    assets: [
+      { id: 'A', weight: 0.6, historicalReturns: [0.2, 0.2, 0.2], assetClass: 'equity_index' },
+      { id: 'B', weight: 0.4, historicalReturns: [0, 0, 0], assetClass: 'bond' },
+    ],
+    correlationMatrix: [[1, 0], [0, 1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 20,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'rebalancing-test',
+  };
+
+  describe('weight helpers', () => {
+    it('drifts weights toward the better-performing asset', () => {
+      const weights = [0.6, 0.4];
+      const portfolioReturn = driftWeights(weights, [0.2, 0]);
+      expect(portfolioReturn).toBeCloseTo(0.12, 12);
+      expect(weights[0]).toBeCloseTo(0.72 / 1.12, 12);
+      expect(weights[0] + weights[1]).toBeCloseTo(1, 12);
+    });
+
+    it('reports the fraction sold when resetting to target', () => {
+      const weights = [0.7, 0.3];
+      expect(rebalanceWeights(weights, [0.6, 0.4])).toBeCloseTo(0.1, 12);
+      expect(weights).toEqual([0.6, 0.4]);
+    });
+
+    it('checks calendar points and drift bands', () => {
+      const annual = resolveRebalancing({ strategy: 'annual' });
+      const quarterly = resolveRebalancing({ strategy: 'quarterly' });
+      const threshold = resolveRebalancing({ strategy: 'threshold', thresholdBand: 0.05 });
+      const targets = [0.6, 0.4];
+
+      expect(isRebalanceDue(targets, targets, annual, 10, 12)).toBe(false);
+      expect(isRebalanceDue(targets, targets, annual, 11, 12)).toBe(true);
+      expect([0, 1, 2, 3, 4, 5].map(m => isRebalanceDue(targets, targets, quarterly, m, 12)))
+        .toEqual([false, false, true, false, false, true]);
+      expect(isRebalanceDue([0.64, 0.36], targets, threshold, 0, 1)).toBe(false);
+      expect(isRebalanceDue([0.66, 0.34], targets, threshold, 0, 1)).toBe(true);
+      expect(isRebalanceDue([0.9, 0.1], targets, resolveRebalancing({ strategy: 'none' }), 0, 1)).toBe(false);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    it('defaults to annual constant-mix rebalancing', async () => {
+      const implicit = await runMonteCarlo(config, portfolio);
+      const explicit = await runMonteCarlo({ ...config, rebalancing: { strategy: 'annual' } }, portfolio);
+
+      expect(Array.from(explicit.terminalValues)).toEqual(Array.from(implicit.terminalValues));
+      expect(implicit.statistics.median).toBeCloseTo(1_000_000 * Math.pow(1.12, 10), 0);
+      expect(implicit.weightDrift!.p50[0][0]).toBeCloseTo(0.72 / 1.12, 5);
+      expect(implicit.weightDrift!.meanRebalances).toBe(10);
+    });
+
+    it('lets weights drift without rebalancing', async () => {
+      const result = await runMonteCarlo({ ...config, rebalancing: { strategy: 'none' } }, portfolio);
+      const finalA = 0.6 * Math.pow(1.2, 10);
+
+      expect(result.statistics.median).toBeCloseTo(1_000_000 * (finalA + 0.4), 0);
+      expect(result.weightDrift!.p50[0][9]).toBeCloseTo(finalA / (finalA + 0.4), 5);
+      expect(result.weightDrift!.medianTurnover.every(t => t === 0)).toBe(true);
+      expect(result.weightDrift!.meanRebalances).toBe(0);
+    });
+
+    it('rebalances quarterly within annual steps', async () => {
+      const result = await runMonteCarlo({ ...config, rebalancing: { strategy: 'quarterly' } }, portfolio);
+      const quarterGrowth = 0.6 * Math.pow(1.2, 0.25) + 0.4;
+
+      expect(result.statistics.median).toBeCloseTo(1_000_000 * Math.pow(quarterGrowth, 40), 0);
+      expect(result.weightDrift!.meanRebalances).toBe(40);
+    });
+
+    it('rebalances only when a weight leaves its band', async () => {
+      const result = await runMonteCarlo(
+        { ...config, rebalancing: { strategy: 'threshold', thresholdBand: 0.05 } },
+        portfolio
+      );
+
+      // A reaches 64.3% after one year and 68.4% after two, so trades happen every other year
+      expect(result.weightDrift!.meanRebalances).toBe(5);
+      expect(result.weightDrift!.medianTurnover[0]).toBe(0);
+      expect(result.weightDrift!.medianTurnover[1]).toBeCloseTo(0.864 / 1.264 - 0.6, 5);
+    });
+
+    it('charges trading costs on rebalancing trades', async () => {
+      const free = await runMonteCarlo(config, portfolio);
+      const costly = await runMonteCarlo(
+        { ...config, rebalancing: { strategy: 'annual', transactionCost: 0.01 } },
+        portfolio
+      );
+
+      const sold = 0.72 / 1.12 - 0.6;
+      const yearGrowth = 1.12 * (1 - 2 * sold * 0.01);
+      expect(costly.statistics.median).toBeCloseTo(1_000_000 * Math.pow(yearGrowth, 10), 0);
+      expect(costly.statistics.median).toBeLessThan(free.statistics.median);
+    });
+
+    it('applies rebalancing to monthly time steps', async () => {
+      const monthly = await runMonteCarlo(
+        { ...config, timeStep: 'monthly', rebalancing: { strategy: 'quarterly' } },
+        portfolio
+      );
+      expect(monthly.weightDrift!.meanRebalances).toBe(40);
+    });
+
+    it('omits weight drift for single-asset portfolios', async () => {
+      const single: PortfolioConfig = {
+        assets: [{ ...portfolio.assets[0], weight: 1 }],
+        correlationMatrix: [[1]],
+      };
+      const result = await runMonteCarlo(config, single);
+      expect(result.weightDrift).toBeUndefined();
+    });
+
+    it('realises capital gains on rebalancing sales in the sell strategy', async () => {
+      const sellConfig: SimulationConfig = {
+        ...config,
+        sellStrategy: { costBasisRatio: 0.4, dividendYield: 0 },
+      };
+      const annual = await runMonteCarlo(sellConfig, portfolio);
+      const none = await runMonteCarlo({ ...sellConfig, rebalancing: { strategy: 'none' } }, portfolio);
+
+      expect(annual.sellStrategy!.taxes.medianRebalancing).toBeGreaterThan(0);
+      expect(none.sellStrategy!.taxes.medianRebalancing).toBe(0);
+    });
+
+    it('borrows the capital gains tax on rebalancing sales in BBD', async () => {
+      const bbdConfig: SimulationConfig = {
+        ...config,
+        timeHorizon: 1,
+        sbloc: {
+          targetLTV: 0.65,
+          interestRate: 0.07,
+          annualWithdrawal: 0,
+          annualWithdrawalRaise: 0,
+          monthlyWithdrawal: false,
+          maintenanceMargin: 0.5,
+          liquidationHaircut: 0.05,
+          initialLocBalance: 0,
+        },
+      };
+      const halfBasis: PortfolioConfig = {
+        ...portfolio,
+        assets: [{ ...portfolio.assets[0], costBasisRatio: 0.5 }, portfolio.assets[1]],
+      };
+      const annual = await runMonteCarlo(bbdConfig, halfBasis);
+      const none = await runMonteCarlo({ ...bbdConfig, rebalancing: { strategy: 'none' } }, halfBasis);
+
+      // Sells $48K of A ($720K with $300K basis): $28K gain taxed at 23.8%
+      const tax = 28_000 * 0.238;
+      expect(annual.estateAnalysis!.medianRebalancingTaxesBorrowed).toBeCloseTo(tax, 6);
+      expect(annual.sblocTrajectory!.loanBalance.p50[0]).toBeCloseTo(tax, 6);
+      expect(none.estateAnalysis!.medianRebalancingTaxesBorrowed).toBe(0);
+    });
+
+    it('charges rebalancing tax to both strategies at the same rate', async () => {
+      const taxModeling = {
+        enabled: true,
+        taxAdvantaged: false,
+        dividendYield: 0,
+        ordinaryTaxRate: 0.37,
+        ltcgTaxRate: 0.2,
+      };
+      // One year from the same lot book, so both strategies make the same sale
+      const bothConfig: SimulationConfig = {
+        ...config,
+        timeHorizon: 1,
+        liquidation: { order: 'pro-rata' },
+        sbloc: {
+          targetLTV: 0.65,
+          interestRate: 0.07,
+          annualWithdrawal: 0,
+          annualWithdrawalRaise: 0,
+          monthlyWithdrawal: false,
+          maintenanceMargin: 0.5,
+          liquidationHaircut: 0.05,
+          initialLocBalance: 0,
+        },
+        sellStrategy: { costBasisRatio: 0.4, dividendYield: 0 },
+        taxModeling,
+      };
+      const taxed = await runMonteCarlo(bothConfig, portfolio);
+      const untaxed = await runMonteCarlo(
+        { ...bothConfig, taxModeling: { ...taxModeling, enabled: false, ltcgTaxRate: 0 } },
+        portfolio
+      );
+
+      // Sells $48K of A ($720K with $240K basis): $32K gain taxed at 20%
+      expect(taxed.estateAnalysis!.medianRebalancingTaxesBorrowed).toBeCloseTo(6_400, 6);
+      expect(taxed.sellStrategy!.taxes.medianRebalancing).toBeCloseTo(6_400, 6);
+
+      expect(untaxed.estateAnalysis!.medianRebalancingTaxesBorrowed).toBe(0);
+      expect(untaxed.sellStrategy!.taxes.medianRebalancing).toBe(0);
+    });
+  });
+
+  describe('calculateSellStrategyFromReturns', () => {
+    it('taxes the gain on rebalancing sales and steps up the basis of the proceeds', () => {
+      const base = {
+        initialValue: 1_000_000,
+        annualWithdrawal: 0,
+        withdrawalGrowth: 0,
+        timeHorizon: 1,
+        capitalGainsRate: 0.2,
+        costBasisRatio: 0.5,
+        dividendYield: 0,
+      };
+
+      const withoutTrades = calculateSellStrategyFromReturns(base, [0.1]);
+      const withTrades = calculateSellStrategyFromReturns(base, [0.1], [0.1]);
+
+      // Sells $110K with $50K basis: $60K gain taxed at 20%
+      expect(withoutTrades.totalRebalancingTaxes).toBe(0);
+      expect(withTrades.totalRebalancingTaxes).toBeCloseTo(12_000, 6);
+      expect(withTrades.totalCapitalGainsTaxes).toBeCloseTo(12_000, 6);
+      expect(withTrades.terminalValue).toBeCloseTo(1_088_000, 6);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo, simulateShards, aggregateShards } from '../monte-carlo';
+import { SHARD_SIZE, partitionShards, shardCount, shardSeed } from '../sharding';
+import type { SimulationConfig, PortfolioConfig } from '../types';
+
+describe('Deterministic sharding', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      {
+        id: 'A',
+        weight: 0.6,
+        historicalReturns: [0.10, 0.15, -0.05, 0.08, -0.20, 0.12, 0.05, -0.10, 0.18, 0.07],
+        assetClass: 'equity_index',
+      },
+      {
+        id: 'B',
+        weight: 0.4,
+        historicalReturns: [0.03, 0.04, 0.02, 0.05, 0.06, 0.01, 0.03, 0.02, 0.04, 0.03],
+        assetClass: 'bond',
+      },
+    ],
+    correlationMatrix: [[1.0, 0.2], [0.2, 1.0]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 2 * SHARD_SIZE + 300,
+    timeHorizon: 8,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'shards',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 80_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+      rateModel: { process: 'mean-reverting', spread: 0.025 },
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  describe('partitionShards', () => {
+    it('covers every shard once in contiguous ranges', () => {
+      const ranges = partitionShards(10_500, 4);
+      expect(ranges).toEqual([
+        { first: 0, count: 3 },
+        { first: 3, count: 3 },
+        { first: 6, count: 3 },
+        { first: 9, count: 2 },
+      ]);
+      expect(ranges.reduce((n, r) => n + r.count, 0)).toBe(shardCount(10_500));
+    });
+
+    it('uses no more ranges than shards', () => {
+      expect(partitionShards(SHARD_SIZE, 8)).toEqual([{ first: 0, count: 1 }]);
+    });
+  });
+
+  it('seeds the first shard with the run seed', () => {
+    expect(shardSeed('run', 0)).toBe('run');
+    expect(shardSeed('run', 1)).not.toBe('run');
+  });
+
+  it.each([2, 3])('gives the same output split across %i workers as on one thread', async (workers) => {
+    const single = await runMonteCarlo(config, portfolio);
+
+    const parts = await Promise.all(
+      partitionShards(config.iterations, workers).map(range => simulateShards(config, portfolio, range))
+    );
+    // Ranges may finish in any order
+    const pooled = aggregateShards(config, portfolio, parts.reverse());
+
+    expect(Array.from(pooled.terminalValues)).toEqual(Array.from(single.terminalValues));
+    expect(pooled.yearlyPercentiles).toEqual(single.yearlyPercentiles);
+    expect(pooled.statistics).toEqual(single.statistics);
+    expect(pooled.sblocTrajectory).toEqual(single.sblocTrajectory);
+    expect(pooled.marginCallStats).toEqual(single.marginCallStats);
+    expect(pooled.debugStats).toEqual(single.debugStats);
+    expect(pooled.sellStrategy).toEqual(single.sellStrategy);
+    expect(pooled.weightDrift).toEqual(single.weightDrift);
+    expect(pooled.seed).toBe('shards');
+  });
+
+  it('draws each shard from its own stream', async () => {
+    const result = await runMonteCarlo({ ...config, sbloc: undefined, sellStrategy: undefined }, portfolio);
+    const first = Array.from(result.terminalValues.subarray(0, 100));
+    const second = Array.from(result.terminalValues.subarray(SHARD_SIZE, SHARD_SIZE + 100));
+
+    expect(second).not.toEqual(first);
+  });
+});
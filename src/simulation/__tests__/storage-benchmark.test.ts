@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { serialize } from 'node:v8';
+import {
+  percentile,
+  percentiles,
+  createSketches,
+  addToSketch,
+  mergeSketches,
+  sketchPercentiles,
+  SKETCH_ACCURACY,
+  SKETCH_BINS,
+} from '../../math';
+import { simulateShards } from '../monte-carlo';
+import { SHARD_SIZE, shardTransferables, type ShardData } from '../sharding';
+import type { SimulationConfig, PortfolioConfig } from '../types';
+
+/**
+ * JS objects and arrays in a value, counting a typed array as one allocation
+ */
+function countAllocations(value: unknown): number {
+  if (ArrayBuffer.isView(value)) return 1;
+  if (Array.isArray(value)) return 1 + value.reduce((n: number, v) => n + countAllocations(v), 0);
+  if (typeof value === 'object' && value !== null) {
+    return 1 + Object.values(value).reduce((n: number, v) => n + countAllocations(v), 0);
+  }
+  return 0;
+}
+
+describe('Typed array storage benchmark', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      {
+        id: 'A',
+        weight: 0.6,
+        historicalReturns: [0.10, 0.15, -0.05, 0.08, -0.20, 0.12, 0.05, -0.10, 0.18, 0.07],
+        assetClass: 'equity_index',
+        costBasisRatio: 0.3,
+      },
+      {
+        id: 'B',
+        weight: 0.4,
+        historicalReturns: [0.03, 0.04, 0.02, 0.05, 0.06, 0.01, 0.03, 0.02, 0.04, 0.03],
+        assetClass: 'bond',
+      },
+    ],
+    correlationMatrix: [[1.0, 0.2], [0.2, 1.0]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: SHARD_SIZE,
+    timeHorizon: 50,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'storage',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 60_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  /**
+   * The same results in the previous layout: net worth as nested arrays
+   * [year][iteration] and one result object per sell strategy iteration, with
+   * per-asset records per year. (The old per-year sell taxes and sell paths,
+   * now streamed into sketches, are left out, so the old layout is, if
+   * anything, understated.)
+   */
+  function toNestedLayout(data: ShardData) {
+    const { iterations } = data;
+    const years = config.timeHorizon;
+    const sell = data.sell!;
+    const ids = portfolio.assets.map(a => a.id);
+    const byAsset = (buffers: Float64Array[] | null, i: number) => buffers
+      ? Array.from({ length: years }, (_, year) =>
+          Object.fromEntries(ids.map((id, a) => [id, buffers[a][year * iterations + i]])))
+      : undefined;
+
+    return {
+      terminalValues: data.terminalValues,
+      yearlyValues: Array.from({ length: years }, (_, year) =>
+        Array.from(data.yearlyValues.subarray(year * iterations, (year + 1) * iterations))),
+      sellIterationResults: Array.from({ length: iterations }, (_, i) => ({
+        terminalValue: sell.terminalValues[i],
+        totalCapitalGainsTaxes: sell.capitalGainsTaxes[i],
+        totalDividendTaxes: sell.dividendTaxes[i],
+        totalRebalancingTaxes: sell.rebalancingTaxes[i],
+        depleted: sell.depleted[i] === 1,
+        realizedGainsByAsset: byAsset(sell.realizedGainsByAsset, i),
+        capitalGainsTaxesByAsset: byAsset(sell.capitalGainsTaxesByAsset, i),
+      })),
+    };
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps every per-iteration result in flat typed buffers', async () => {
+    const data = await simulateShards(config, portfolio, { first: 0, count: 1 });
+    const isTyped = (value: unknown) =>
+      value instanceof Float64Array || value instanceof Uint8Array || value instanceof Uint32Array;
+
+    // No per-iteration JS objects or nested arrays remain
+    const fields = [
+      ...Object.entries(data),
+      ...Object.entries(data.sell ?? {}).map(([key, value]) => [`sell.${key}`, value] as const),
+    ].filter(([key]) => key !== 'range' && key !== 'iterations' && key !== 'sell');
+    for (const [key, value] of fields) {
+      if (value === null) continue;
+      const ok = isTyped(value) || (Array.isArray(value) && value.every(isTyped));
+      expect(ok, key).toBe(true);
+    }
+  });
+
+  it('needs less memory and a constant number of allocations compared with the nested layout', async () => {
+    const data = await simulateShards(config, portfolio, { first: 0, count: 1 });
+    const nested = toNestedLayout(data);
+    const typed = { terminalValues: data.terminalValues, yearlyValues: data.yearlyValues, sell: data.sell };
+
+    // Structured-clone size is what posting the results back from a worker copies
+    const nestedBytes = serialize(nested).byteLength;
+    const typedBytes = serialize(typed).byteLength;
+    expect(typedBytes).toBeLessThan(nestedBytes * 0.75);
+
+    // The typed layout's buffers are all transferred rather than copied
+    const transferred = shardTransferables(data).reduce((n, buffer) => n + buffer.byteLength, 0);
+    expect(transferred).toBeGreaterThanOrEqual(typedBytes * 0.95);
+
+    // Allocations grow with iterations x years in the nested layout, not in the typed one
+    // Wrapper, terminal and net worth buffers, sell object with its five flat
+    // buffers and yearly sketches, and two per-asset lists of one buffer per asset
+    const assets = portfolio.assets.length;
+    expect(countAllocations(typed)).toBe(3 + 1 + 6 + 2 * (1 + assets));
+    expect(countAllocations(nested)).toBeGreaterThan(config.iterations * config.timeHorizon * 2);
+  });
+
+  it('summarizes yearly columns with one typed sort per year', () => {
+    const iterations = 2_000;
+    const years = 30;
+    const ps = [10, 25, 50, 75, 90];
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const buffer = Float64Array.from({ length: iterations * years }, () => random() * 1_000_000);
+    const arraySort = vi.spyOn(Array.prototype, 'sort');
+    const typedSort = vi.spyOn(Float64Array.prototype, 'sort');
+
+    // Previous approach: nested JS arrays and one comparator sort per percentile
+    const nested = Array.from({ length: years }, (_, year) =>
+      Array.from(buffer.subarray(year * iterations, (year + 1) * iterations))
+    );
+    const before = nested.map(column => ps.map(p => percentile(column, p)));
+    expect(arraySort).toHaveBeenCalledTimes(years * ps.length);
+
+    // Current approach: year-major buffer, one numeric sort per column
+    const after = Array.from({ length: years }, (_, year) =>
+      percentiles(buffer.subarray(year * iterations, (year + 1) * iterations), ps)
+    );
+    expect(typedSort).toHaveBeenCalledTimes(years);
+    expect(arraySort).toHaveBeenCalledTimes(years * ps.length);
+
+    expect(after).toEqual(before);
+  });
+
+  it('streams sell strategy yearly percentiles in sketches of a fixed size', async () => {
+    const one = await simulateShards(config, portfolio, { first: 0, count: 1 });
+    const two = await simulateShards({ ...config, iterations: 2 * SHARD_SIZE }, portfolio, { first: 0, count: 2 });
+
+    // Per-iteration buffers double with the iterations, the sketches do not
+    expect(two.yearlyValues.byteLength).toBe(2 * one.yearlyValues.byteLength);
+    expect(two.sell!.yearlySketches.byteLength).toBe(one.sell!.yearlySketches.byteLength);
+    expect(one.sell!.yearlySketches.length).toBe((config.timeHorizon + 1) * SKETCH_BINS);
+
+    // Every iteration is counted once per year
+    const year = config.timeHorizon;
+    const counts = two.sell!.yearlySketches.subarray(year * SKETCH_BINS, (year + 1) * SKETCH_BINS);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(2 * SHARD_SIZE);
+  });
+
+  it('merges sketches across batches within their relative accuracy', () => {
+    const ps = [10, 25, 50, 75, 90];
+    const scale = 1_000_000;
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    // Skewed values spanning three orders of magnitude, plus depleted zeros
+    const values = Float64Array.from({ length: 20_000 }, (_, i) =>
+      i % 50 === 0 ? 0 : scale * Math.exp(4 * random() - 2) * (1 + random()));
+
+    // Four batches sketched separately, as shards would be
+    const batches = [0, 1, 2, 3].map(k => {
+      const sketch = createSketches(1);
+      values.subarray(k * 5_000, (k + 1) * 5_000).forEach(v => addToSketch(sketch, 0, v, scale));
+      return sketch;
+    });
+    const merged = mergeSketches(batches);
+    const whole = createSketches(1);
+    values.forEach(v => addToSketch(whole, 0, v, scale));
+
+    expect(merged).toEqual(whole);
+    expect(merged.byteLength).toBe(batches[0].byteLength);
+
+    const exact = percentiles(values, ps);
+    sketchPercentiles(merged, 0, ps, scale).forEach((estimate, k) => {
+      expect(Math.abs(estimate - exact[k])).toBeLessThanOrEqual(exact[k] * SKETCH_ACCURACY);
+    });
+    expect(sketchPercentiles(merged, 0, [0], scale)).toEqual([0]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo } from '../monte-carlo';
+import { commonHistory, crisisReplay, runStressScenarios } from '../stress';
+import type { CrisisWindow, SimulationConfig, PortfolioConfig } from '../types';
+
+describe('Historical stress scenarios', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [
+      {
+        id: 'A',
+        weight: 0.7,
+        historicalReturns: [0.10, 0.15, -0.05, -0.45, 0.12, 0.05, -0.10, 0.18, 0.07, 0.09],
+        historicalYears: [2005, 2006, 2007, 2008, 2009, 2010, 2011, 2012, 2013, 2014],
+        assetClass: 'equity_index',
+      },
+      {
+        id: 'B',
+        weight: 0.3,
+        historicalReturns: [0.01, 0.03, 0.04, 0.02, 0.05, 0.06, 0.01, 0.03, 0.02, 0.04, 0.03],
+        historicalYears: [2004, 2005, 2006, 2007, 2008, 2009, 2010, 2011, 2012, 2013, 2014],
+        assetClass: 'bond',
+      },
+    ],
+    correlationMatrix: [[1.0, 0.2], [0.2, 1.0]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 500,
+    timeHorizon: 8,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'stress',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 60_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  const crash: CrisisWindow = { id: 'crash', name: 'Crash', startYear: 2008, endYear: 2008 };
+
+  it('aligns assets on the years they share', () => {
+    const history = commonHistory(portfolio);
+
+    expect(history.years[0]).toBe(2005);
+    expect(history.years).toHaveLength(10);
+    expect(history.returns[1][0]).toBe(0.03);
+    expect(() => commonHistory({
+      ...portfolio,
+      assets: [{ ...portfolio.assets[0], historicalYears: undefined }],
+    })).toThrow('calendar years');
+    expect(() => commonHistory({
+      ...portfolio,
+      assets: [{ ...portfolio.assets[0], historicalYears: portfolio.assets[0].historicalYears!.map(() => 2005) }],
+    })).toThrow('more than one return');
+  });
+
+  it('replays the crisis years, or a rolling window that wraps', () => {
+    const history = commonHistory(portfolio);
+
+    const start = crisisReplay(history, crash, 'crisis-start', 8);
+    expect(start.years).toEqual([2008]);
+    expect(start.returns).toEqual([[-0.45], [0.05]]);
+
+    const rolling = crisisReplay(history, crash, 'rolling', 8);
+    expect(rolling.years).toEqual([2008, 2009, 2010, 2011, 2012, 2013, 2014, 2005]);
+    expect(rolling.returns[0]).toHaveLength(8);
+
+    expect(() => crisisReplay(history, { ...crash, startYear: 2000, endYear: 2002 }, 'crisis-start', 8))
+      .toThrow('2000-2002');
+  });
+
+  it('forces the replayed years onto every iteration', async () => {
+    const flat = await runMonteCarlo({
+      ...config,
+      sbloc: undefined,
+      sellStrategy: undefined,
+      historicalReplay: { returns: [new Array(8).fill(0), new Array(8).fill(0)] },
+    }, portfolio);
+
+    expect(Array.from(flat.terminalValues).every(v => Math.abs(v - 1_000_000) < 1e-6)).toBe(true);
+    await expect(runMonteCarlo({ ...config, historicalReplay: { returns: [[0]] } }, portfolio))
+      .rejects.toThrow('one return series per asset');
+  });
+
+  it('compares BBD and selling after each crisis against the baseline', async () => {
+    const uncovered: CrisisWindow = { id: 'old', name: 'Old', startYear: 1973, endYear: 1974 };
+    const result = await runStressScenarios(config, portfolio, {
+      mode: 'crisis-start',
+      crises: [crash, uncovered],
+    });
+
+    expect(result.seed).toBe('stress');
+    expect(result.scenarios).toHaveLength(1);
+    expect(result.skipped).toEqual([{ crisis: uncovered, reason: expect.stringContaining('1973') }]);
+
+    const [scenario] = result.scenarios;
+    expect(scenario.replayedYears).toEqual([2008]);
+    expect(scenario.bbd.medianNetWorth).toBeLessThan(result.baseline.bbd.medianNetWorth);
+    expect(scenario.bbd.failureProbability).toBeGreaterThanOrEqual(result.baseline.bbd.failureProbability);
+    expect(scenario.sell!.medianNetWorth).toBeLessThan(result.baseline.sell!.medianNetWorth);
+  });
+});
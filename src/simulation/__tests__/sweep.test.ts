@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { applySweepValue, runParameterSweep, sweepRange } from '../sweep';
+import { runMonteCarlo } from '../monte-carlo';
+import type { PortfolioConfig, SimulationConfig } from '../types';
+
+describe('Parameter sweep', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [{ id: 'SPY', weight: 1, historicalReturns: [0.25, -0.1, 0.15, 0.05, 0.3, -0.2] }],
+    correlationMatrix: [[1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 50,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'sweep-test',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 50_000,
+      annualWithdrawalRaise: 0,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+  };
+
+  describe('sweepRange', () => {
+    it('spaces values evenly from min to max', () => {
+      expect(sweepRange(50_000, 150_000, 5)).toEqual([50_000, 75_000, 100_000, 125_000, 150_000]);
+      expect(sweepRange(0.05, 0.09, 1)).toEqual([0.05]);
+    });
+  });
+
+  describe('applySweepValue', () => {
+    it('overrides SBLOC and top-level fields without mutating the base', () => {
+      const swept = applySweepValue(config, 'interestRate', 0.09);
+      expect(swept.sbloc!.interestRate).toBe(0.09);
+      expect(config.sbloc!.interestRate).toBe(0.07);
+      expect(applySweepValue(config, 'timeHorizon', 14.6).timeHorizon).toBe(15);
+    });
+
+    it('rejects SBLOC fields when there is no SBLOC', () => {
+      expect(() => applySweepValue({ ...config, sbloc: undefined }, 'targetLTV', 0.5))
+        .toThrow('Max Borrowing');
+    });
+  });
+
+  describe('runParameterSweep', () => {
+    it('runs every cell with the base seed', async () => {
+      const result = await runParameterSweep(config, portfolio, {
+        x: { parameter: 'annualWithdrawal', values: [25_000, 75_000] },
+        y: { parameter: 'interestRate', values: [0.05, 0.09] },
+      });
+
+      expect(result.seed).toBe('sweep-test');
+      expect(result.cells).toHaveLength(2);
+      expect(result.cells[0]).toHaveLength(2);
+
+      // The cell matches a standalone run of the same configuration
+      const single = await runMonteCarlo(
+        { ...config, sbloc: { ...config.sbloc!, annualWithdrawal: 75_000, interestRate: 0.09 } },
+        portfolio
+      );
+      expect(result.cells[1][1].medianNetWorth).toBe(single.statistics.median);
+      expect(result.cells[1][1].successRate).toBe(single.statistics.successRate);
+    });
+
+    it('shows worse outcomes as withdrawals rise under common random numbers', async () => {
+      const result = await runParameterSweep(config, portfolio, {
+        x: { parameter: 'annualWithdrawal', values: sweepRange(0, 100_000, 3) },
+      });
+      const [low, mid, high] = result.cells[0];
+
+      expect(result.cells).toHaveLength(1);
+      expect(low.medianNetWorth).toBeGreaterThan(mid.medianNetWorth);
+      expect(mid.medianNetWorth).toBeGreaterThan(high.medianNetWorth);
+      expect(low.marginCallProbability).toBeLessThanOrEqual(high.marginCallProbability);
+    });
+
+    it('rejects invalid grids', async () => {
+      await expect(runParameterSweep(config, portfolio, {
+        x: { parameter: 'interestRate', values: [0.05] },
+        y: { parameter: 'interestRate', values: [0.07] },
+      })).rejects.toThrow('different parameters');
+
+      await expect(runParameterSweep(config, portfolio, {
+        x: { parameter: 'annualWithdrawal', values: sweepRange(0, 100_000, 11) },
+        y: { parameter: 'interestRate', values: sweepRange(0.05, 0.09, 10) },
+      })).rejects.toThrow('exceeds');
+    });
+  });
+});
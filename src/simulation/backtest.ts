@@ -0,0 +1,139 @@
+/**
+ * Historical Rolling-Window Backtest
+ *
+ * Runs the plan over every start year in the history shared by the
+ * portfolio's assets, with the actual returns that followed, as a
+ * non-synthetic check next to the Monte Carlo results. Each window is one
+ * fully replayed path through the regular engine, so BBD and Sell follow
+ * exactly the rules they follow in simulation.
+ *
+ * The SBLOC rate stays at its configured level: a simulated benchmark path
+ * would put synthetic data back into a historical test.
+ */
+
+import { percentile } from '../math';
+import { runMonteCarlo } from './monte-carlo';
+import { commonHistory } from './stress';
+import type {
+  BacktestConfig,
+  BacktestResult,
+  BacktestSummary,
+  BacktestWindow,
+  PortfolioConfig,
+  SimulationConfig,
+} from './types';
+
+/**
+ * Number of worst start years reported
+ */
+export const WORST_START_YEARS = 5;
+
+/**
+ * Summarize one strategy's outcomes across windows
+ *
+ * @param values Terminal net worth per window
+ * @param failures Whether each window failed (margin call or depletion)
+ * @param initialValue Starting portfolio value (the success threshold)
+ */
+function summarize(values: number[], failures: boolean[], initialValue: number): BacktestSummary {
+  const n = values.length;
+  return {
+    worst: Math.min(...values),
+    p10: percentile(values, 10),
+    median: percentile(values, 50),
+    p90: percentile(values, 90),
+    best: Math.max(...values),
+    successRate: (values.filter(v => v > initialValue).length / n) * 100,
+    failureRate: (failures.filter(Boolean).length / n) * 100,
+  };
+}
+
+/**
+ * Run the plan from every start year of the shared history
+ *
+ * Windows run sequentially, one replayed path each.
+ *
+ * @param config Simulation configuration (iterations and convergence are ignored)
+ * @param portfolio Portfolio whose assets carry historicalYears
+ * @param backtest Edge handling
+ * @param onProgress Optional progress callback (0-100 percent across all windows)
+ * @param signal Optional abort signal
+ * @returns Every window with the distribution of outcomes
+ * @throws Error if an asset has no calendar years or the assets share no years
+ *
+ * @example
+ * ```typescript
+ * const result = await runHistoricalBacktest(config, portfolio, { edge: 'wrap' });
+ * result.worstStartYears[0]; // e.g. 2000
+ * ```
+ */
+export async function runHistoricalBacktest(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  backtest: BacktestConfig,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<BacktestResult> {
+  const history = commonHistory(portfolio);
+  const n = history.years.length;
+  if (n === 0) {
+    throw new Error('The selected assets share no years of history');
+  }
+
+  const windows: BacktestWindow[] = [];
+  for (let start = 0; start < n; start++) {
+    const length = backtest.edge === 'wrap' ? config.timeHorizon : Math.min(config.timeHorizon, n - start);
+    const indices = Array.from({ length }, (_, k) => (start + k) % n);
+
+    const output = await runMonteCarlo(
+      {
+        ...config,
+        iterations: 1,
+        timeHorizon: length,
+        convergence: undefined,
+        sbloc: config.sbloc && { ...config.sbloc, rateModel: undefined },
+        historicalReplay: { returns: history.returns.map(returns => indices.map(k => returns[k])) },
+      },
+      portfolio,
+      undefined,
+      signal
+    );
+
+    const sell = output.sellStrategy;
+    windows.push({
+      startYear: history.years[start],
+      years: indices.map(k => history.years[k]),
+      bbdNetWorth: output.terminalValues[0],
+      marginCallYear: output.marginCallStats?.find(s => s.probability > 0)?.year ?? null,
+      ...(sell && {
+        sellNetWorth: sell.terminalValues[0],
+        sellDepleted: sell.depletionProbability > 0,
+      }),
+    });
+    onProgress?.(((start + 1) / n) * 100);
+  }
+
+  const hasSell = windows.every(w => w.sellNetWorth !== undefined);
+
+  return {
+    edge: backtest.edge,
+    initialValue: config.initialValue,
+    windows,
+    bbd: summarize(
+      windows.map(w => w.bbdNetWorth),
+      windows.map(w => w.marginCallYear !== null),
+      config.initialValue
+    ),
+    ...(hasSell && {
+      sell: summarize(
+        windows.map(w => w.sellNetWorth!),
+        windows.map(w => w.sellDepleted!),
+        config.initialValue
+      ),
+    }),
+    worstStartYears: [...windows]
+      .sort((a, b) => a.bbdNetWorth - b.bbdNetWorth)
+      .slice(0, WORST_START_YEARS)
+      .map(w => w.startYear),
+  };
+}
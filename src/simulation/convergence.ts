@@ -0,0 +1,220 @@
+/**
+ * Convergence Diagnostics
+ *
+ * Sampling error of the key Monte Carlo metrics: success rate, median
+ * terminal net worth and cumulative margin call probability. Estimates are
+ * taken after every shard, so they cover the same iterations whether a run
+ * is simulated on one thread or across a worker pool, and an adaptive run
+ * stops at the same shard whatever the pool size.
+ */
+
+import { percentile } from '../math';
+import { SHARD_SIZE, shardCount, type ShardData } from './sharding';
+import type { ConvergenceCheckpoint, MetricEstimate, SimulationConfig } from './types';
+
+/**
+ * z-score of the reported 95% confidence intervals
+ */
+const Z_95 = 1.959964;
+
+/**
+ * Wilson score interval for a proportion
+ *
+ * @param percent Observed proportion (0-100)
+ * @param n Number of trials
+ * @returns 95% interval (0-100)
+ */
+export function wilsonInterval(percent: number, n: number): [number, number] {
+  if (n <= 0) return [0, 100];
+  const p = percent / 100;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const halfWidth = (Z_95 / (1 + z2 / n)) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  return [Math.max(0, center - halfWidth) * 100, Math.min(1, center + halfWidth) * 100];
+}
+
+/**
+ * Distribution-free interval for a quantile from order statistics
+ *
+ * @param values Sample values (any order)
+ * @param q Quantile (0-1)
+ * @returns 95% interval in the units of the values
+ */
+export function quantileInterval(values: ArrayLike<number>, q: number): [number, number] {
+  const sorted = Float64Array.from(values).sort();
+  const n = sorted.length;
+  if (n === 0) return [0, 0];
+  const halfWidth = Z_95 * Math.sqrt(n * q * (1 - q));
+  const lower = Math.max(0, Math.floor(n * q - halfWidth) - 1);
+  const upper = Math.min(n - 1, Math.ceil(n * q + halfWidth) - 1);
+  return [sorted[lower], sorted[upper]];
+}
+
+/**
+ * Estimate of a proportion with its Wilson interval
+ */
+function proportionEstimate(count: number, n: number): MetricEstimate {
+  const value = n > 0 ? (count / n) * 100 : 0;
+  const [lower, upper] = wilsonInterval(value, n);
+  return {
+    value,
+    standardError: n > 0 ? Math.sqrt((value * (100 - value)) / n) : 0,
+    lower,
+    upper,
+  };
+}
+
+/**
+ * Estimate of the median with its order-statistic interval
+ *
+ * The standard error is backed out of the interval width, which needs no
+ * assumption about the shape of the distribution.
+ */
+function medianEstimate(values: ArrayLike<number>): MetricEstimate {
+  const [lower, upper] = quantileInterval(values, 0.5);
+  return {
+    value: percentile(values, 50),
+    standardError: (upper - lower) / (2 * Z_95),
+    lower,
+    upper,
+  };
+}
+
+/**
+ * Estimate the key metrics from terminal net worth
+ *
+ * @param netTerminalValues Terminal net worth per iteration
+ * @param initialValue Starting portfolio value (the success threshold)
+ * @param marginCallYears First margin call year per iteration (-1 if none), or null without SBLOC
+ * @returns Estimates with 95% confidence intervals
+ */
+export function estimateMetrics(
+  netTerminalValues: ArrayLike<number>,
+  initialValue: number,
+  marginCallYears: ArrayLike<number> | null
+): ConvergenceCheckpoint {
+  const n = netTerminalValues.length;
+  let successes = 0;
+  for (let i = 0; i < n; i++) {
+    if (netTerminalValues[i] > initialValue) successes++;
+  }
+
+  const checkpoint: ConvergenceCheckpoint = {
+    iterations: n,
+    successRate: proportionEstimate(successes, n),
+    median: medianEstimate(netTerminalValues),
+  };
+
+  if (marginCallYears) {
+    let called = 0;
+    for (let i = 0; i < n; i++) {
+      if (marginCallYears[i] > 0) called++;
+    }
+    checkpoint.marginCallProbability = proportionEstimate(called, n);
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Estimates of the key metrics after every shard of a run
+ *
+ * @param netTerminalValues Terminal net worth per iteration, in shard order
+ * @param initialValue Starting portfolio value
+ * @param marginCallYears First margin call year per iteration, or null without SBLOC
+ * @returns One checkpoint per shard, the last covering every iteration
+ */
+export function convergenceCheckpoints(
+  netTerminalValues: Float64Array,
+  initialValue: number,
+  marginCallYears: Float64Array | null
+): ConvergenceCheckpoint[] {
+  const n = netTerminalValues.length;
+  const checkpoints: ConvergenceCheckpoint[] = [];
+  for (let shard = 1; shard <= shardCount(n); shard++) {
+    const end = Math.min(shard * SHARD_SIZE, n);
+    checkpoints.push(estimateMetrics(
+      netTerminalValues.subarray(0, end),
+      initialValue,
+      marginCallYears?.subarray(0, end) ?? null
+    ));
+  }
+  return checkpoints;
+}
+
+/**
+ * Whether every key metric is estimated within the tolerance
+ *
+ * @param checkpoint Metric estimates
+ * @param tolerance Largest 95% half-width: percentage points for rates, percent of the median for the median
+ */
+export function hasConverged(checkpoint: ConvergenceCheckpoint, tolerance: number): boolean {
+  const halfWidth = (estimate: MetricEstimate) => (estimate.upper - estimate.lower) / 2;
+  const { successRate, median, marginCallProbability } = checkpoint;
+
+  return halfWidth(successRate) <= tolerance &&
+    halfWidth(median) <= (tolerance / 100) * Math.abs(median.value) &&
+    (!marginCallProbability || halfWidth(marginCallProbability) <= tolerance);
+}
+
+/**
+ * Shards an adaptive run must complete before its first check
+ */
+export function minimumShards(config: SimulationConfig): number {
+  return Math.max(1, shardCount(config.convergence?.minIterations ?? SHARD_SIZE));
+}
+
+/**
+ * Terminal net worth of a shard range (gross value less the final loan balance)
+ */
+function shardNetTerminalValues(data: ShardData, timeHorizon: number): Float64Array {
+  const { iterations, terminalValues, loanBalances } = data;
+  if (!loanBalances) return terminalValues;
+  const net = new Float64Array(iterations);
+  for (let i = 0; i < iterations; i++) {
+    net[i] = terminalValues[i] - loanBalances[(timeHorizon - 1) * iterations + i];
+  }
+  return net;
+}
+
+/**
+ * Shards in the shortest converged prefix of an adaptive run
+ *
+ * Prefixes are checked in shard order, so the answer does not depend on how
+ * the shards were batched across workers.
+ *
+ * @param parts Simulated shard ranges, contiguous from shard 0 (any order)
+ * @param config Simulation configuration with the convergence rule
+ * @param checked Shards whose prefixes are already known not to converge
+ * @returns Shard count of the first converged prefix, or null if none has
+ */
+export function convergedShards(
+  parts: ShardData[],
+  config: SimulationConfig,
+  checked: number = 0
+): number | null {
+  if (!config.convergence || parts.length === 0) return null;
+
+  const sorted = [...parts].sort((a, b) => a.range.first - b.range.first);
+  const n = sorted.reduce((total, p) => total + p.iterations, 0);
+  const netTerminalValues = new Float64Array(n);
+  const marginCallYears = config.sbloc ? new Float64Array(n) : null;
+  let offset = 0;
+  for (const part of sorted) {
+    netTerminalValues.set(shardNetTerminalValues(part, config.timeHorizon), offset);
+    marginCallYears?.set(part.marginCallYears ?? new Float64Array(part.iterations).fill(-1), offset);
+    offset += part.iterations;
+  }
+
+  const shards = sorted.reduce((total, p) => total + p.range.count, 0);
+  for (let shard = Math.max(checked + 1, minimumShards(config)); shard <= shards; shard++) {
+    const end = Math.min(shard * SHARD_SIZE, n);
+    const checkpoint = estimateMetrics(
+      netTerminalValues.subarray(0, end),
+      config.initialValue,
+      marginCallYears?.subarray(0, end) ?? null
+    );
+    if (hasConverged(checkpoint, config.convergence.tolerance)) return shard;
+  }
+  return null;
+}
@@ -11,7 +11,31 @@
  * Where ν (nu) is degrees of freedom. Lower ν = fatter tails.
  */
 
-import { AssetClass, FAT_TAIL_PARAMS } from './types';
+import { AssetClass, FAT_TAIL_PARAMS, FatTailParams, FatTailParamsOverrides } from './types';
+import { monthlyLogParams } from './monthly-returns';
+
+/**
+ * Merge user overrides over the default fat-tail parameters
+ *
+ * Degrees of freedom are rounded and clamped to at least 1 because studentT
+ * builds the chi-squared variate from that many squared normals.
+ *
+ * @param overrides Partial per-asset-class overrides (optional)
+ * @returns Complete parameter table for every asset class
+ */
+export function resolveFatTailParams(
+  overrides?: FatTailParamsOverrides
+): Record<AssetClass, FatTailParams> {
+  const resolved = {} as Record<AssetClass, FatTailParams>;
+
+  for (const assetClass of Object.keys(FAT_TAIL_PARAMS) as AssetClass[]) {
+    const merged = { ...FAT_TAIL_PARAMS[assetClass], ...overrides?.[assetClass] };
+    merged.degreesOfFreedom = Math.max(1, Math.round(merged.degreesOfFreedom));
+    resolved[assetClass] = merged;
+  }
+
+  return resolved;
+}
 
 /**
  * Generate a Student's t-distributed random variable
@@ -20,19 +44,23 @@ import { AssetClass, FAT_TAIL_PARAMS } from './types';
  * chi-squared distribution for t-distribution.
  *
  * @param degreesOfFreedom Degrees of freedom (lower = fatter tails)
+ * @param rng Random number generator returning values in [0, 1) (default: Math.random)
  * @returns Student's t-distributed random variable
  */
-export function studentT(degreesOfFreedom: number): number {
+export function studentT(
+  degreesOfFreedom: number,
+  rng: () => number = Math.random
+): number {
   // Generate chi-squared random variable with df degrees of freedom
   // Using sum of squared normals: χ²(k) = Σ(Z_i²) for i=1..k
   let chiSquared = 0;
   for (let i = 0; i < degreesOfFreedom; i++) {
-    const z = boxMullerNormal();
+    const z = boxMullerNormal(rng);
     chiSquared += z * z;
   }
 
   // Student's t = Z / sqrt(χ²/ν)
-  const z = boxMullerNormal();
+  const z = boxMullerNormal(rng);
   return z / Math.sqrt(chiSquared / degreesOfFreedom);
 }
 
@@ -41,11 +69,13 @@ export function studentT(degreesOfFreedom: number): number {
  *
  * Generates N(0,1) from uniform random variables.
  *
+ * @param rng Random number generator returning values in [0, 1)
  * @returns Standard normal random variable (mean=0, stddev=1)
  */
-function boxMullerNormal(): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+function boxMullerNormal(rng: () => number): number {
+  // 1 - rng() keeps u1 in (0, 1] so log(u1) stays finite
+  const u1 = 1 - rng();
+  const u2 = rng();
   return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 }
 
@@ -93,17 +123,21 @@ function choleskyDecomposition(correlationMatrix: number[][]): number[][] {
  *
  * @param historicalReturns Historical annual returns for the asset
  * @param assetClass Asset class (determines distribution parameters)
+ * @param paramsByClass Parameter table by asset class (defaults to FAT_TAIL_PARAMS)
+ * @param rng Random number generator returning values in [0, 1) (default: Math.random)
  * @returns Annual return with fat-tail behavior
  */
 export function generateFatTailReturn(
   historicalReturns: number[],
-  assetClass: AssetClass = 'equity_index'
+  assetClass: AssetClass = 'equity_index',
+  paramsByClass: Record<AssetClass, FatTailParams> = FAT_TAIL_PARAMS,
+  rng: () => number = Math.random
 ): number {
   if (historicalReturns.length === 0) {
     throw new Error('generateFatTailReturn: historicalReturns cannot be empty');
   }
 
-  const params = FAT_TAIL_PARAMS[assetClass];
+  const params = paramsByClass[assetClass];
 
   // Calculate empirical mean and stddev
   const mean = historicalReturns.reduce((sum, r) => sum + r, 0) / historicalReturns.length;
@@ -111,7 +145,7 @@ export function generateFatTailReturn(
   const stddev = Math.sqrt(variance);
 
   // Generate Student's t random variable
-  const t = studentT(params.degreesOfFreedom);
+  const t = studentT(params.degreesOfFreedom, rng);
 
   // Apply skew (negative skew makes crashes more likely than rallies)
   const skewedT = t + params.skewMultiplier * (t * t - 1);
@@ -138,13 +172,126 @@ export function generateFatTailReturn(
  * @param historicalReturnsArray Array of historical returns for each asset
  * @param assetClasses Array of asset classes (one per asset)
  * @param correlationMatrix NxN correlation matrix
+ * @param paramsByClass Parameter table by asset class (defaults to FAT_TAIL_PARAMS)
+ * @param rng Random number generator returning values in [0, 1) (default: Math.random)
  * @returns Array of correlated annual returns
  */
 export function generateCorrelatedFatTailReturns(
   historicalReturnsArray: number[][],
   assetClasses: AssetClass[],
-  correlationMatrix: number[][]
+  correlationMatrix: number[][],
+  paramsByClass: Record<AssetClass, FatTailParams> = FAT_TAIL_PARAMS,
+  rng: () => number = Math.random
 ): number[] {
+  // Calculate empirical statistics for each asset
+  const stats = empiricalStats(historicalReturnsArray, assetClasses, correlationMatrix, 'generateCorrelatedFatTailReturns');
+
+  // Cholesky decomposition of correlation matrix
+  const L = choleskyDecomposition(correlationMatrix);
+
+  // Correlated, skewed Student's t variables
+  const correlatedT = correlatedSkewedT(assetClasses, L, paramsByClass, rng);
+
+  // Scale by volatility, center at mean, apply survivorship bias
+  const returns = correlatedT.map((t, i) => {
+    const params = paramsByClass[assetClasses[i]];
+    const scaledReturn = stats[i].mean + t * stats[i].stddev * params.volatilityScaling;
+    const biasedReturn = scaledReturn + params.survivorshipBias;
+    // Clamp to reasonable range
+    return Math.max(-0.99, Math.min(10.0, biasedReturn));
+  });
+
+  return returns;
+}
+
+/**
+ * Generate correlated monthly fat-tail returns for multiple assets
+ *
+ * Each month draws skewed Student's t variables as
+ * generateCorrelatedFatTailReturns does for a year, standardized to zero mean
+ * and unit variance before they are correlated. The mean and volatility of
+ * the annual model (including the skew's shift of the mean) are converted to
+ * monthly log-return parameters (see monthlyLogParams), so 12 compounded
+ * months keep the annual model's mean and volatility while the heavy-tailed
+ * shocks land on individual months: a crash can happen and recover within
+ * a year.
+ *
+ * @param historicalReturnsArray Array of historical annual returns for each asset
+ * @param assetClasses Array of asset classes (one per asset)
+ * @param correlationMatrix NxN correlation matrix
+ * @param months Number of months to generate
+ * @param paramsByClass Parameter table by asset class (defaults to FAT_TAIL_PARAMS)
+ * @param rng Random number generator returning values in [0, 1) (default: Math.random)
+ * @returns Monthly returns per asset [asset][month]
+ */
+export function generateCorrelatedMonthlyFatTailReturns(
+  historicalReturnsArray: number[][],
+  assetClasses: AssetClass[],
+  correlationMatrix: number[][],
+  months: number,
+  paramsByClass: Record<AssetClass, FatTailParams> = FAT_TAIL_PARAMS,
+  rng: () => number = Math.random
+): number[][] {
+  const stats = empiricalStats(historicalReturnsArray, assetClasses, correlationMatrix, 'generateCorrelatedMonthlyFatTailReturns');
+  const L = choleskyDecomposition(correlationMatrix);
+
+  // Moments of each asset's skewed t, and the annual model's mean and volatility
+  const moments = assetClasses.map(assetClass =>
+    skewedTMoments(paramsByClass[assetClass].degreesOfFreedom, paramsByClass[assetClass].skewMultiplier)
+  );
+  const monthlyParams = stats.map((stat, i) => {
+    const params = paramsByClass[assetClasses[i]];
+    const scaledStddev = stat.stddev * params.volatilityScaling;
+    return monthlyLogParams(
+      stat.mean + params.survivorshipBias + scaledStddev * moments[i].mean,
+      scaledStddev * moments[i].stddev
+    );
+  });
+
+  const returns: number[][] = stats.map(() => new Array(months));
+  for (let month = 0; month < months; month++) {
+    const shocks = correlatedSkewedT(assetClasses, L, paramsByClass, rng, moments);
+    shocks.forEach((z, i) => {
+      const rawReturn = Math.exp(monthlyParams[i].mean + z * monthlyParams[i].stddev) - 1;
+      returns[i][month] = Math.max(-0.99, Math.min(10.0, rawReturn));
+    });
+  }
+
+  return returns;
+}
+
+/**
+ * Mean and standard deviation of the skewed t variable t + skew * (t² - 1)
+ *
+ * The variance is finite above 2 degrees of freedom, or above 4 with skew;
+ * heavier tails use the moments at that limit (3 or 5 degrees of freedom).
+ *
+ * @param degreesOfFreedom Degrees of freedom of t
+ * @param skewMultiplier Skew multiplier
+ * @returns Mean and standard deviation
+ */
+function skewedTMoments(
+  degreesOfFreedom: number,
+  skewMultiplier: number
+): { mean: number; stddev: number } {
+  const nu = Math.max(degreesOfFreedom, skewMultiplier === 0 ? 3 : 5);
+  const t2 = nu / (nu - 2);
+  const t4 = skewMultiplier === 0 ? 0 : (3 * nu * nu) / ((nu - 2) * (nu - 4));
+  // t and t² - E[t²] are uncorrelated, so their variances add
+  const variance = t2 + (skewMultiplier === 0 ? 0 : skewMultiplier * skewMultiplier * (t4 - t2 * t2));
+  return { mean: skewMultiplier * (t2 - 1), stddev: Math.sqrt(variance) };
+}
+
+/**
+ * Validate the inputs of a correlated draw and compute each asset's
+ * empirical mean and (population) standard deviation
+ */
+function empiricalStats(
+  historicalReturnsArray: number[][],
+  assetClasses: AssetClass[],
+  correlationMatrix: number[][],
+  caller: string
+): { mean: number; stddev: number }[] {
   const n = historicalReturnsArray.length;
 
   if (assetClasses.length !== n) {
@@ -155,44 +302,48 @@ export function generateCorrelatedFatTailReturns(
     throw new Error('correlationMatrix must be NxN where N is number of assets');
   }
 
-  // Calculate empirical statistics for each asset
-  const stats = historicalReturnsArray.map((returns) => {
+  return historicalReturnsArray.map((returns) => {
     if (returns.length === 0) {
-      throw new Error('generateCorrelatedFatTailReturns: historicalReturns cannot be empty');
+      throw new Error(`${caller}: historicalReturns cannot be empty`);
     }
     const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
     const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
     const stddev = Math.sqrt(variance);
     return { mean, stddev };
   });
+}
 
-  // Cholesky decomposition of correlation matrix
-  const L = choleskyDecomposition(correlationMatrix);
+/**
+ * Draw skewed Student's t variables, one per asset, correlated by the
+ * Cholesky factor L
+ *
+ * With moments, each variable is standardized before it is correlated.
+ */
+function correlatedSkewedT(
+  assetClasses: AssetClass[],
+  L: number[][],
+  paramsByClass: Record<AssetClass, FatTailParams>,
+  rng: () => number,
+  moments?: { mean: number; stddev: number }[]
+): number[] {
+  const n = assetClasses.length;
 
   // Generate independent Student's t variables
-  const tVariables = assetClasses.map((assetClass) => {
-    const params = FAT_TAIL_PARAMS[assetClass];
-    const t = studentT(params.degreesOfFreedom);
+  const tVariables = assetClasses.map((assetClass, i) => {
+    const params = paramsByClass[assetClass];
+    const t = studentT(params.degreesOfFreedom, rng);
     // Apply skew
-    return t + params.skewMultiplier * (t * t - 1);
+    const skewed = t + params.skewMultiplier * (t * t - 1);
+    return moments ? (skewed - moments[i].mean) / moments[i].stddev : skewed;
   });
 
   // Apply correlation structure: correlatedT = L * independentT
-  const correlatedT = Array(n).fill(0);
+  const correlatedT: number[] = Array(n).fill(0);
   for (let i = 0; i < n; i++) {
     for (let j = 0; j <= i; j++) {
       correlatedT[i] += L[i][j] * tVariables[j];
     }
   }
 
-  // Scale by volatility, center at mean, apply survivorship bias
-  const returns = correlatedT.map((t, i) => {
-    const params = FAT_TAIL_PARAMS[assetClasses[i]];
-    const scaledReturn = stats[i].mean + t * stats[i].stddev * params.volatilityScaling;
-    const biasedReturn = scaledReturn + params.survivorshipBias;
-    // Clamp to reasonable range
-    return Math.max(-0.99, Math.min(10.0, biasedReturn));
-  });
-
-  return returns;
+  return correlatedT;
 }
@@ -0,0 +1,228 @@
+/**
+ * Goal Seek
+ *
+ * Solves for the value of one configuration field that just meets a target
+ * outcome, e.g. the largest annual withdrawal that keeps the cumulative
+ * margin call probability at or below 10% (90% confidence).
+ *
+ * The search bisects over the field with every evaluation run on the same
+ * seed (common random numbers), so the target metric moves with the field
+ * alone and the bisection is not thrown off by sampling noise.
+ */
+
+import { percentile } from '../math';
+import { quantileInterval, wilsonInterval } from './convergence';
+import { runMonteCarlo } from './monte-carlo';
+import { applySweepValue, SWEEP_PARAMETERS } from './sweep';
+import type {
+  GoalSeekConfig,
+  GoalSeekParameter,
+  GoalSeekResult,
+  GoalSeekTarget,
+  PortfolioConfig,
+  SimulationConfig,
+  SimulationOutput,
+} from './types';
+
+/**
+ * Search behaviour of a goal seek parameter
+ */
+export interface GoalSeekParameterDefinition {
+  /** Display label */
+  label: string;
+  /**
+   * 'maximize' when larger values make the outcome worse (solve for the
+   * largest value meeting the target), 'minimize' when they make it better
+   */
+  direction: 'maximize' | 'minimize';
+  /** Default search range around the current configuration */
+  defaultBounds: (config: SimulationConfig) => [number, number];
+}
+
+/**
+ * Parameters goal seek can solve for
+ */
+export const GOAL_SEEK_PARAMETERS: Record<GoalSeekParameter, GoalSeekParameterDefinition> = {
+  annualWithdrawal: {
+    label: SWEEP_PARAMETERS.annualWithdrawal.label,
+    direction: 'maximize',
+    defaultBounds: (config) => [0, Math.max(2 * (config.sbloc?.annualWithdrawal ?? 0), 100_000)],
+  },
+  targetLTV: {
+    label: SWEEP_PARAMETERS.targetLTV.label,
+    direction: 'maximize',
+    defaultBounds: () => [0.05, 0.95],
+  },
+  initialValue: {
+    label: SWEEP_PARAMETERS.initialValue.label,
+    direction: 'minimize',
+    defaultBounds: (config) => [config.initialValue / 4, config.initialValue * 4],
+  },
+};
+
+/**
+ * Default bisection steps (resolves the range to 1/256)
+ */
+const DEFAULT_GOAL_SEEK_STEPS = 8;
+
+/**
+ * Target metric of one evaluation with its confidence interval
+ */
+interface GoalSeekEvaluation {
+  value: number;
+  metricValue: number;
+  confidenceInterval: [number, number];
+  meetsTarget: boolean;
+}
+
+/**
+ * Measure an output against the target
+ */
+function evaluate(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  target: GoalSeekTarget,
+  value: number
+): GoalSeekEvaluation {
+  const n = output.terminalValues.length;
+
+  switch (target.metric) {
+    case 'marginCallProbability': {
+      const stats = output.marginCallStats;
+      const metricValue = stats?.[stats.length - 1]?.cumulativeProbability ?? 0;
+      return {
+        value,
+        metricValue,
+        confidenceInterval: wilsonInterval(metricValue, n),
+        meetsTarget: metricValue <= target.max,
+      };
+    }
+    case 'successRate': {
+      const metricValue = output.statistics.successRate;
+      return {
+        value,
+        metricValue,
+        confidenceInterval: wilsonInterval(metricValue, n),
+        meetsTarget: metricValue >= target.min,
+      };
+    }
+    case 'p10NetWorth': {
+      // Same interpolated P10 as the dashboard shows for the run
+      const metricValue = percentile(output.terminalValues, 10);
+      return {
+        value,
+        metricValue,
+        confidenceInterval: quantileInterval(output.terminalValues, 0.1),
+        meetsTarget: metricValue > (target.min ?? config.initialValue),
+      };
+    }
+  }
+}
+
+/**
+ * Solve for the value of one field that just meets a target outcome
+ *
+ * Checks both ends of the search range, then bisects between a value that
+ * meets the target and one that does not. Every run uses the base
+ * configuration's seed (or one drawn from the clock if unset) and a fixed
+ * iteration count: goal.iterations, which should be the completed count of an
+ * auto-iteration run being annotated, else config.iterations. Assumes the
+ * target metric is monotonic in the field, which holds for withdrawals,
+ * borrowing limits and starting capital under common random numbers.
+ *
+ * @param config Base configuration; the solved field is overridden per run
+ * @param portfolio Portfolio with assets and correlations
+ * @param goal Field, target and search range
+ * @param onProgress Optional progress callback (0-100 percent across all runs)
+ * @param signal Optional abort signal
+ * @returns Solution with the target metric and its 95% confidence interval
+ * @throws Error if the search range is empty, the target is out of range or
+ *         goal.iterations is not a positive whole number
+ *
+ * @example
+ * ```typescript
+ * // Largest withdrawal with at most a 10% chance of a margin call
+ * const result = await solveForTarget(config, portfolio, {
+ *   parameter: 'annualWithdrawal',
+ *   target: { metric: 'marginCallProbability', max: 10 },
+ * });
+ * result.value; // e.g. 61_328
+ * ```
+ */
+export async function solveForTarget(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  goal: GoalSeekConfig,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<GoalSeekResult> {
+  const { parameter, target } = goal;
+  const definition = GOAL_SEEK_PARAMETERS[parameter];
+  const [low, high] = goal.bounds ?? definition.defaultBounds(config);
+  if (!(high > low)) {
+    throw new Error(`${definition.label} search range must have a lower bound below the upper bound`);
+  }
+  if (goal.iterations !== undefined && !(Number.isInteger(goal.iterations) && goal.iterations >= 1)) {
+    throw new Error('Goal seek iterations must be a positive whole number');
+  }
+  if (target.metric !== 'p10NetWorth') {
+    const percent = target.metric === 'marginCallProbability' ? target.max : target.min;
+    if (percent < 0 || percent > 100) {
+      throw new Error('Goal seek probability targets must be between 0 and 100');
+    }
+  }
+
+  const steps = Math.max(0, Math.floor(goal.steps ?? DEFAULT_GOAL_SEEK_STEPS));
+  const total = steps + 2;
+  const seed = config.seed ?? Date.now().toString();
+  const iterations = goal.iterations ?? config.iterations;
+  let evaluations = 0;
+
+  const run = async (value: number): Promise<GoalSeekEvaluation> => {
+    // Fixed iteration count: an adaptive stop would change the paths between evaluations
+    const runConfig = { ...applySweepValue(config, parameter, value), seed, iterations, convergence: undefined };
+    const output = await runMonteCarlo(
+      runConfig,
+      portfolio,
+      onProgress && ((percent) => onProgress(((evaluations + percent / 100) / total) * 100)),
+      signal
+    );
+    evaluations++;
+    return evaluate(output, runConfig, target, value);
+  };
+
+  // Safe end of the range first: if it misses, nothing in the range meets the target
+  const maximize = definition.direction === 'maximize';
+  const safe = await run(maximize ? low : high);
+  const finish = (solution: GoalSeekEvaluation, value: number | null, bounded: boolean): GoalSeekResult => {
+    onProgress?.(100);
+    return {
+      parameter,
+      target,
+      value,
+      bounded,
+      metricValue: solution.metricValue,
+      confidenceInterval: solution.confidenceInterval,
+      evaluations,
+      seed,
+    };
+  };
+  if (!safe.meetsTarget) return finish(safe, null, false);
+
+  const risky = await run(maximize ? high : low);
+  if (risky.meetsTarget) return finish(risky, risky.value, true);
+
+  // Invariant: `pass` meets the target, `fail` does not
+  let pass = safe;
+  let fail = risky;
+  for (let i = 0; i < steps; i++) {
+    const mid = await run((pass.value + fail.value) / 2);
+    if (mid.meetsTarget) {
+      pass = mid;
+    } else {
+      fail = mid;
+    }
+  }
+
+  return finish(pass, pass.value, false);
+}
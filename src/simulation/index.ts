@@ -3,14 +3,38 @@
  *
  * Provides Monte Carlo simulation with Web Worker support:
  * - Non-blocking execution via Web Worker
+ * - Runs split across a worker pool with deterministic sharding
  * - Progress reporting during simulation
  * - Cancellation support
  * - Zero-copy result transfer
  */
 
 import * as Comlink from 'comlink';
-import { getWorker, clearWorker } from './worker-loader';
-import type { SimulationConfig, PortfolioConfig, SimulationOutput } from './types';
+import { getWorker, getWorkerPool, clearWorker } from './worker-loader';
+import {
+  partitionShards,
+  shardCount,
+  shardRangeIterations,
+  shardTransferables,
+  type ShardData,
+} from './sharding';
+import { convergedShards } from './convergence';
+import type {
+  SimulationConfig,
+  PortfolioConfig,
+  SimulationOutput,
+  SweepConfig,
+  SweepResult,
+  GoalSeekConfig,
+  GoalSeekResult,
+  OptimizerConfig,
+  OptimizerResult,
+  PathTrace,
+  StressTestConfig,
+  StressTestResult,
+  BacktestConfig,
+  BacktestResult,
+} from './types';
 
 // Re-export all types
 export * from './types';
@@ -20,20 +44,93 @@ export { simpleBootstrap, blockBootstrap, optimalBlockLength } from './bootstrap
 export {
   nextRegime,
   generateRegimeReturns,
-  generateCorrelatedRegimeReturns
+  generateCorrelatedRegimeReturns,
+  generateCorrelatedMonthlyRegimeReturns,
+  monthlyTransitionMatrix
 } from './regime-switching';
 export * from './regime-calibration';
+export {
+  MONTHS_PER_YEAR,
+  MIN_MONTHLY_HISTORY,
+  hasMonthlyHistory,
+  estimateMonthlyVolatility,
+  monthlyLogParams,
+  bridgeAnnualReturns,
+  compoundMonthlyToAnnual
+} from './monthly-returns';
+export {
+  resolveRebalancing,
+  rebalancingPeriodsPerYear,
+  splitAnnualReturn,
+  driftWeights,
+  isRebalanceDue,
+  rebalanceWeights
+} from './rebalancing';
+export { REGIME_BENCHMARK_OFFSET, generateRatePath } from './interest-rates';
+export {
+  SWEEP_PARAMETERS,
+  MAX_SWEEP_CELLS,
+  sweepRange,
+  applySweepValue,
+  runParameterSweep,
+  type SweepParameterDefinition
+} from './sweep';
+export {
+  GOAL_SEEK_PARAMETERS,
+  solveForTarget,
+  type GoalSeekParameterDefinition
+} from './goal-seek';
+export {
+  MAX_OPTIMIZER_ASSETS,
+  assetMoments,
+  portfolioMoments,
+  efficientFrontier,
+  runPortfolioOptimizer,
+  type AssetMoments
+} from './optimizer';
+export {
+  CRISIS_WINDOWS,
+  commonHistory,
+  crisisReplay,
+  runStressScenarios,
+  type CommonHistory
+} from './stress';
+export { WORST_START_YEARS, runHistoricalBacktest } from './backtest';
+export {
+  SHARD_SIZE,
+  shardCount,
+  shardSeed,
+  partitionShards,
+  mergeShards,
+  type ShardRange,
+  type ShardData
+} from './sharding';
+export { simulateShards, aggregateShards, tracePath } from './monte-carlo';
+export {
+  wilsonInterval,
+  quantileInterval,
+  estimateMetrics,
+  convergenceCheckpoints,
+  hasConverged,
+  minimumShards,
+  convergedShards
+} from './convergence';
 export {
   studentT,
   generateFatTailReturn,
-  generateCorrelatedFatTailReturns
+  generateCorrelatedFatTailReturns,
+  generateCorrelatedMonthlyFatTailReturns,
+  resolveFatTailParams
 } from './fat-tail';
 
 /**
  * Run Monte Carlo simulation
  *
- * Executes simulation in Web Worker to prevent UI blocking.
- * Progress updates are delivered via callback.
+ * Executes simulation in Web Workers to prevent UI blocking. Iterations
+ * are split by shard across the worker pool; each shard has its own seed,
+ * so results are identical whatever the pool size. Progress updates cover
+ * the whole pool. With config.convergence set, the run stops once the key
+ * metrics have converged, at the same shard whatever the pool size.
  *
  * @param config Simulation configuration
  * @param portfolio Portfolio with assets and correlations
@@ -56,33 +153,278 @@ export async function runSimulation(
   portfolio: PortfolioConfig,
   onProgress?: (percent: number) => void
 ): Promise<SimulationOutput> {
+  const pool = await getWorkerPool();
+
+  // Verify workers are ready
+  await Promise.all(pool.map(w => w.healthCheck()));
+
+  // Every worker needs the same seed for the shards to replay the run
+  const seededConfig = { ...config, seed: config.seed ?? Date.now().toString() };
+  if (config.convergence) {
+    return runAdaptiveSimulation(pool, seededConfig, portfolio, onProgress);
+  }
+
+  const ranges = partitionShards(config.iterations, pool.length);
+
+  if (ranges.length === 1) {
+    // Wrap progress callback with Comlink.proxy for cross-thread calls
+    const proxyProgress = onProgress ? Comlink.proxy(onProgress) : undefined;
+    return pool[0].simulate(seededConfig, portfolio, proxyProgress);
+  }
+
+  // Overall progress weights each worker's range by its iterations
+  const rangeIterations = ranges.map(range => shardRangeIterations(range, config.iterations));
+  const completed = ranges.map(() => 0);
+  const reportProgress = (k: number, percent: number) => {
+    completed[k] = (percent / 100) * rangeIterations[k];
+    onProgress?.((completed.reduce((a, b) => a + b, 0) / config.iterations) * 100);
+  };
+
+  let parts: ShardData[];
+  try {
+    parts = await Promise.all(ranges.map((range, k) =>
+      pool[k].simulateRange(
+        seededConfig,
+        portfolio,
+        range,
+        onProgress ? Comlink.proxy((percent: number) => reportProgress(k, percent)) : undefined
+      )
+    ));
+  } catch (error) {
+    // One range failing or being cancelled stops the rest of the pool
+    pool.forEach(w => w.cancel());
+    throw error;
+  }
+
+  return pool[0].aggregate(
+    seededConfig,
+    portfolio,
+    Comlink.transfer(parts, parts.flatMap(shardTransferables))
+  );
+}
+
+/**
+ * Run an adaptive simulation across the worker pool
+ *
+ * Simulates waves of one shard per worker until a prefix of the shards has
+ * converged. Prefixes are checked in shard order, so the run stops at the
+ * same shard as a single-threaded run; shards past that point are discarded.
+ */
+async function runAdaptiveSimulation(
+  pool: Awaited<ReturnType<typeof getWorkerPool>>,
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  onProgress?: (percent: number) => void
+): Promise<SimulationOutput> {
+  const shards = shardCount(config.iterations);
+  const parts: ShardData[] = [];
+  let converged: number | null = null;
+
+  try {
+    while (converged === null && parts.length < shards) {
+      const first = parts.length;
+      const wave = pool.slice(0, Math.min(pool.length, shards - first));
+      const waveProgress = wave.map(() => 0);
+      const reportProgress = (k: number, percent: number) => {
+        waveProgress[k] = percent / 100;
+        onProgress?.(((first + waveProgress.reduce((a, b) => a + b, 0)) / shards) * 100);
+      };
+
+      parts.push(...await Promise.all(wave.map((w, k) =>
+        w.simulateRange(
+          config,
+          portfolio,
+          { first: first + k, count: 1 },
+          onProgress ? Comlink.proxy((percent: number) => reportProgress(k, percent)) : undefined
+        )
+      )));
+      converged = convergedShards(parts, config, first);
+    }
+  } catch (error) {
+    pool.forEach(w => w.cancel());
+    throw error;
+  }
+
+  const used = parts.slice(0, converged ?? parts.length);
+  const iterations = used.reduce((total, p) => total + p.iterations, 0);
+  return pool[0].aggregate(
+    { ...config, iterations },
+    portfolio,
+    Comlink.transfer(used, used.flatMap(shardTransferables))
+  );
+}
+
+/**
+ * Run a parameter sweep
+ *
+ * Executes every grid cell in the Web Worker with a shared seed.
+ * Progress updates cover the whole grid.
+ *
+ * @param config Base simulation configuration
+ * @param portfolio Portfolio with assets and correlations
+ * @param sweep Grid axes
+ * @param onProgress Optional progress callback (0-100 percent)
+ * @returns Promise resolving to per-cell headline metrics
+ * @throws DOMException with name 'AbortError' if cancelled
+ */
+export async function runSweep(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  sweep: SweepConfig,
+  onProgress?: (percent: number) => void
+): Promise<SweepResult> {
   const w = await getWorker();
+  await w.healthCheck();
+
+  const proxyProgress = onProgress ? Comlink.proxy(onProgress) : undefined;
 
-  // Verify worker is ready
+  return w.sweep(config, portfolio, sweep, proxyProgress);
+}
+
+/**
+ * Run a goal seek
+ *
+ * Bisects over one configuration field in the Web Worker, running every
+ * evaluation with a shared seed. Progress updates cover the whole search.
+ *
+ * @param config Base simulation configuration
+ * @param portfolio Portfolio with assets and correlations
+ * @param goal Field, target and search range
+ * @param onProgress Optional progress callback (0-100 percent)
+ * @returns Promise resolving to the solution with its confidence interval
+ * @throws DOMException with name 'AbortError' if cancelled
+ */
+export async function runGoalSeek(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  goal: GoalSeekConfig,
+  onProgress?: (percent: number) => void
+): Promise<GoalSeekResult> {
+  const w = await getWorker();
   await w.healthCheck();
 
-  // Wrap progress callback with Comlink.proxy for cross-thread calls
   const proxyProgress = onProgress ? Comlink.proxy(onProgress) : undefined;
 
-  return w.simulate(config, portfolio, proxyProgress);
+  return w.goalSeek(config, portfolio, goal, proxyProgress);
+}
+
+/**
+ * Run the portfolio optimizer
+ *
+ * Computes the efficient frontier and scores every frontier portfolio with
+ * a short simulation in the Web Worker. Progress updates cover all runs.
+ *
+ * @param config Base simulation configuration
+ * @param portfolio Portfolio with assets and correlations
+ * @param options Margin call cap, frontier size and evaluation iterations
+ * @param onProgress Optional progress callback (0-100 percent)
+ * @returns Promise resolving to the frontier with the BBD optimum
+ * @throws DOMException with name 'AbortError' if cancelled
+ */
+export async function runOptimizer(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  options: OptimizerConfig,
+  onProgress?: (percent: number) => void
+): Promise<OptimizerResult> {
+  const w = await getWorker();
+  await w.healthCheck();
+
+  const proxyProgress = onProgress ? Comlink.proxy(onProgress) : undefined;
+
+  return w.optimize(config, portfolio, options, proxyProgress);
+}
+
+/**
+ * Replay historical crises against BBD and selling
+ *
+ * Runs in a Web Worker; the baseline and every crisis share one seed.
+ *
+ * @param config Base simulation configuration
+ * @param portfolio Portfolio whose assets carry calendar years
+ * @param stress Replay mode and crises
+ * @param onProgress Optional progress callback (0-100 percent)
+ * @returns Promise resolving to the baseline and per-crisis results
+ * @throws DOMException with name 'AbortError' if cancelled
+ */
+export async function runStressTest(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  stress: StressTestConfig,
+  onProgress?: (percent: number) => void
+): Promise<StressTestResult> {
+  const w = await getWorker();
+  await w.healthCheck();
+
+  const proxyProgress = onProgress ? Comlink.proxy(onProgress) : undefined;
+
+  return w.stressTest(config, portfolio, stress, proxyProgress);
+}
+
+/**
+ * Backtest the plan over every historical start year
+ *
+ * Runs in a Web Worker; each start year replays the actual returns that
+ * followed it.
+ *
+ * @param config Simulation configuration
+ * @param portfolio Portfolio whose assets carry calendar years
+ * @param backtest Edge handling
+ * @param onProgress Optional progress callback (0-100 percent)
+ * @returns Promise resolving to the outcome per start year
+ * @throws DOMException with name 'AbortError' if cancelled
+ */
+export async function runBacktest(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  backtest: BacktestConfig,
+  onProgress?: (percent: number) => void
+): Promise<BacktestResult> {
+  const w = await getWorker();
+  await w.healthCheck();
+
+  const proxyProgress = onProgress ? Comlink.proxy(onProgress) : undefined;
+
+  return w.backtest(config, portfolio, backtest, proxyProgress);
+}
+
+/**
+ * Replay one iteration of a completed run
+ *
+ * Runs in a Web Worker; only the shard holding the iteration is simulated.
+ *
+ * @param config Configuration of the run, with the seed it used
+ * @param portfolio Portfolio of the run
+ * @param iteration Iteration index within the run
+ * @returns Promise resolving to the year-by-year detail of the iteration
+ */
+export async function runPathTrace(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  iteration: number
+): Promise<PathTrace> {
+  const w = await getWorker();
+  await w.healthCheck();
+
+  return w.trace(config, portfolio, iteration);
 }
 
 /**
  * Cancel in-progress simulation
  *
- * Signals the worker to abort the current simulation.
+ * Signals every worker in the pool to abort the current simulation.
  * The runSimulation promise will reject with AbortError.
  */
 export async function cancelSimulation(): Promise<void> {
-  const w = await getWorker();
-  w.cancel();
+  const pool = await getWorkerPool();
+  pool.forEach(w => w.cancel());
 }
 
 /**
- * Terminate the simulation worker
+ * Terminate the simulation workers
  *
- * Call when cleaning up or when worker is no longer needed.
- * Next simulation will create a fresh worker.
+ * Call when cleaning up or when workers are no longer needed.
+ * Next simulation will create a fresh pool.
  */
 export function terminateWorker(): void {
   clearWorker();
@@ -0,0 +1,105 @@
+/**
+ * Variable-Rate SBLOC Interest
+ *
+ * SBLOC rates float over a benchmark (SOFR, Fed funds) plus a fixed spread.
+ * This module simulates one benchmark path per iteration and turns it into
+ * the all-in rate charged each year (SBLOCSimConfig.rateModel).
+ *
+ * Benchmark process (annual steps, Vasicek-style):
+ *   b[t+1] = b[t] + speed * (target - b[t]) + volatility * Z
+ *
+ * For the 'regime' process the target is the long-run benchmark shifted by
+ * the market regime of the year, so rates fall in crashes and recoveries and
+ * drift up in bull markets. The benchmark never goes below zero; the all-in
+ * rate is clamped to the optional floor and cap.
+ */
+
+import { normalRandom } from '../math';
+import { nextRegime } from './regime-switching';
+import { DEFAULT_RATE_MODEL, REGIME_CONFIG } from './types';
+import type { InterestRateModelConfig, MarketRegime } from './types';
+
+/**
+ * Shift of the long-run benchmark target in each market regime
+ */
+export const REGIME_BENCHMARK_OFFSET: Record<MarketRegime, number> = {
+  bull: 0.005,
+  bear: -0.005,
+  crash: -0.02,
+  recovery: -0.01,
+};
+
+/**
+ * Simulate the all-in SBLOC rate for each year
+ *
+ * Year one is charged the configured starting rate; the benchmark then
+ * evolves once per year.
+ *
+ * @param initialRate All-in rate charged in year one (benchmark + spread)
+ * @param model Variable-rate configuration
+ * @param years Number of years
+ * @param regimes Market regime of each year ('regime' process). When omitted,
+ *   a regime path is drawn from the historical transition matrix
+ * @param rng Random number generator
+ * @returns All-in annual rate for each year
+ *
+ * @example
+ * ```typescript
+ * const rates = generateRatePath(0.07, { process: 'mean-reverting', spread: 0.025 }, 30);
+ * // rates[0] === 0.07; later years drift toward 0.035 + 0.025 = 6%
+ * ```
+ */
+export function generateRatePath(
+  initialRate: number,
+  model: InterestRateModelConfig,
+  years: number,
+  regimes?: MarketRegime[],
+  rng: () => number = Math.random
+): number[] {
+  const longRun = model.longRunBenchmark ?? DEFAULT_RATE_MODEL.longRunBenchmark;
+  const speed = model.reversionSpeed ?? DEFAULT_RATE_MODEL.reversionSpeed;
+  const volatility = model.volatility ?? DEFAULT_RATE_MODEL.volatility;
+
+  const regimePath = model.process === 'regime'
+    ? regimes ?? simulateRegimes(years, rng)
+    : undefined;
+
+  const rates: number[] = [];
+  let benchmark = Math.max(0, initialRate - model.spread);
+
+  for (let year = 0; year < years; year++) {
+    if (year > 0) {
+      const target = regimePath
+        ? longRun + REGIME_BENCHMARK_OFFSET[regimePath[year]]
+        : longRun;
+      benchmark = Math.max(0, benchmark + speed * (target - benchmark) + normalRandom(0, volatility, rng));
+    }
+    rates.push(clampRate(benchmark + model.spread, model.floor, model.cap));
+  }
+
+  return rates;
+}
+
+/**
+ * Clamp an all-in rate to an optional floor and cap
+ */
+function clampRate(rate: number, floor?: number, cap?: number): number {
+  let clamped = rate;
+  if (floor !== undefined) clamped = Math.max(floor, clamped);
+  if (cap !== undefined) clamped = Math.min(cap, clamped);
+  return clamped;
+}
+
+/**
+ * Draw a regime path from the historical transition matrix, starting in a bull market
+ */
+function simulateRegimes(years: number, rng: () => number): MarketRegime[] {
+  const matrix = REGIME_CONFIG.historical.transitions;
+  const regimes: MarketRegime[] = [];
+  let regime: MarketRegime = 'bull';
+  for (let year = 0; year < years; year++) {
+    regimes.push(regime);
+    regime = nextRegime(regime, matrix, rng);
+  }
+  return regimes;
+}
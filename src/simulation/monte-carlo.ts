@@ -5,36 +5,83 @@
  * using bootstrap or regime-switching return generation.
  *
  * Features:
+ * - Annual or monthly time steps (monthly paths drawn, resampled or bridged)
+ * - Rebalancing policies with per-iteration weight drift tracking
  * - Batch processing with progress reporting
+ * - Deterministic sharding so runs can be split across workers
  * - AbortSignal support for cancellation
  * - Seeded RNG for reproducibility
  * - Inflation adjustment (real vs nominal returns)
  */
 
 import seedrandom from 'seedrandom';
-import { mean, stddev, percentile } from '../math';
+import { mean, stddev, percentile, percentiles, createSketches, addToSketch, sketchPercentiles } from '../math';
 import {
   simpleBootstrap,
   blockBootstrap,
   correlatedBootstrap,
   correlatedBlockBootstrap,
 } from './bootstrap';
-import { generateCorrelatedRegimeReturns } from './regime-switching';
+import { generateCorrelatedRegimeReturns, generateCorrelatedMonthlyRegimeReturns } from './regime-switching';
 // Note: regime-calibration module is no longer used for main simulation
 // The multiplier-based approach from REGIME_CONFIG is used instead
-import { generateCorrelatedFatTailReturns } from './fat-tail';
-import type { AssetClass } from './types';
 import {
+  generateCorrelatedFatTailReturns,
+  generateCorrelatedMonthlyFatTailReturns,
+  resolveFatTailParams,
+} from './fat-tail';
+import { generateRatePath } from './interest-rates';
+import {
+  MONTHS_PER_YEAR,
+  hasMonthlyHistory,
+  estimateMonthlyVolatility,
+  bridgeAnnualReturns,
+} from './monthly-returns';
+import {
+  resolveRebalancing,
+  rebalancingPeriodsPerYear,
+  splitAnnualReturn,
+  driftWeights,
+  isRebalanceDue,
+  rebalanceWeights,
+} from './rebalancing';
+import type { AssetClass, FatTailParams, MarketRegime } from './types';
+import {
+  getEffectiveLTV,
   initializeSBLOCState,
   stepSBLOCYear,
+  stepSBLOCMonths,
+  type AssetHolding,
+  type LTVByAssetClass,
   type SBLOCConfig as SBLOCEngineConfig,
   type SBLOCState,
+  type SBLOCYearResult,
 } from '../sbloc';
 import {
   calculateSellStrategyFromReturns,
   type SellStrategyFromReturnsConfig,
   type SellIterationResult,
 } from '../calculations/sell-strategy';
+import {
+  capitalGainsTaxByAsset,
+  createTaxLots,
+  rebalanceTaxLots,
+  type TaxLot,
+} from '../calculations/tax-lots';
+import { calculateEstateTax, resolveFederalExemption } from '../calculations/estate-tax';
+import { incrementalIncomeTax } from '../calculations/income-tax';
+import { DEFAULT_SELL_CONFIG } from '../config';
+import {
+  SHARD_SIZE,
+  shardCount,
+  shardSeed,
+  shardRangeIterations,
+  mergeShards,
+  type SellShardData,
+  type ShardData,
+  type ShardRange,
+} from './sharding';
+import { convergenceCheckpoints, convergedShards, hasConverged, minimumShards } from './convergence';
 import type {
   SimulationConfig,
   PortfolioConfig,
@@ -46,26 +93,48 @@ import type {
   RegimeCalibrationMode,
   RegimeParamsMap,
   SellStrategyOutput,
+  SellAssetTaxes,
+  SBLOCDebugStats,
   AssetHistoricalStats,
+  WeightDrift,
+  EstateTaxConfig,
+  EstateTaxSummary,
+  PathTrace,
+  PathYear,
 } from './types';
 import {
   DEFAULT_REGIME_PARAMS,
-  FAT_TAIL_PARAMS,
   CONSERVATIVE_TRANSITION_MATRIX,
   REGIME_CONFIG,
 } from './types';
 
-/** Batch size for progress reporting (smaller = better UI responsiveness) */
+/** Batch size for progress reporting (smaller = better UI responsiveness; divides SHARD_SIZE) */
 const BATCH_SIZE = 500;
 
 /** Default inflation rate (3%) */
 const DEFAULT_INFLATION_RATE = 0.03;
 
+/** Percentiles of the p10-p90 bands, in order */
+const BAND_PERCENTILES = [10, 25, 50, 75, 90];
+
+/** Collateral class used for advance rates (unclassified assets count as equities) */
+const COLLATERAL_CLASS_BY_ASSET_CLASS: Record<AssetClass, AssetHolding['assetClass']> = {
+  equity_stock: 'equity',
+  equity_index: 'equity',
+  commodity: 'equity',
+  bond: 'bond',
+};
+
 /**
  * Run Monte Carlo simulation
  *
  * Executes configurable iterations of portfolio growth simulation,
- * using bootstrap or regime-switching return generation.
+ * using bootstrap or regime-switching return generation. Every shard is
+ * simulated on this thread; the result matches a run split across workers.
+ *
+ * With config.convergence set, shards are simulated one at a time and the
+ * run stops at the first shard where the key metrics have converged
+ * (config.iterations is then the cap).
  *
  * @param config Simulation configuration
  * @param portfolio Portfolio with assets and correlations
@@ -79,33 +148,222 @@ export async function runMonteCarlo(
   onProgress?: (percent: number) => void,
   signal?: AbortSignal
 ): Promise<SimulationOutput> {
+  // The effective seed is reported back with the output so any run can be replayed exactly
+  const seededConfig = { ...config, seed: config.seed ?? Date.now().toString() };
+  const shards = shardCount(config.iterations);
+  const parts: ShardData[] = [];
+
+  if (config.convergence) {
+    for (let shard = 0; shard < shards; shard++) {
+      parts.push(await simulateShards(
+        seededConfig,
+        portfolio,
+        { first: shard, count: 1 },
+        onProgress && (percent => onProgress(((shard + percent / 100) / shards) * 100)),
+        signal
+      ));
+      if (convergedShards(parts, seededConfig, shard) !== null) break;
+    }
+  } else {
+    parts.push(await simulateShards(seededConfig, portfolio, { first: 0, count: shards }, onProgress, signal));
+  }
+
+  // Yield to allow progress update to render
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  const completed = parts.reduce((total, p) => total + p.iterations, 0);
+  return aggregateShards({ ...seededConfig, iterations: completed }, portfolio, parts);
+}
+
+/**
+ * Simulate a range of shards
+ *
+ * Each shard draws from streams seeded by shardSeed, so the iterations of a
+ * shard are the same whichever worker simulates it.
+ *
+ * @param config Simulation configuration (seed must be set for the run to be reproducible)
+ * @param portfolio Portfolio with assets and correlations
+ * @param range Shards to simulate
+ * @param onProgress Optional progress callback (percent of this range: 0-100)
+ * @param signal Optional AbortSignal for cancellation
+ * @returns Raw per-iteration data of the range
+ */
+export async function simulateShards(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  range: ShardRange,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<ShardData> {
+  return runShardRange(config, portfolio, range, null, onProgress, signal);
+}
+
+/**
+ * Replay one iteration of a run and record it year by year
+ *
+ * Only the shard holding the iteration is replayed, up to the iteration
+ * itself, so the path matches the run exactly at a fraction of its cost.
+ *
+ * @param config Configuration of the run (seed must be set)
+ * @param portfolio Portfolio of the run
+ * @param iteration Iteration index within the run
+ * @param signal Optional AbortSignal for cancellation
+ * @returns Year-by-year detail of the iteration
+ * @throws Error if the seed is missing or the iteration is outside the run
+ */
+export async function tracePath(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  iteration: number,
+  signal?: AbortSignal
+): Promise<PathTrace> {
+  if (!config.seed) {
+    throw new Error('Tracing a path requires the seed of its run');
+  }
+  if (!Number.isInteger(iteration) || iteration < 0 || iteration >= config.iterations) {
+    throw new Error(`Iteration ${iteration} is outside the run (0-${config.iterations - 1})`);
+  }
+
+  const shard = Math.floor(iteration / SHARD_SIZE);
+  const recorder: PathRecorder = { iteration: iteration - shard * SHARD_SIZE, years: [] };
+  await runShardRange(config, portfolio, { first: shard, count: 1 }, recorder, undefined, signal);
+
+  return {
+    iteration,
+    seed: config.seed,
+    assetIds: portfolio.assets.map(a => a.id),
+    years: recorder.years,
+  };
+}
+
+/**
+ * Collects the years of one iteration while a shard is simulated
+ */
+interface PathRecorder {
+  /** Iteration index within the shard */
+  iteration: number;
+  /** Recorded years */
+  years: PathYear[];
+}
+
+/**
+ * Simulate a range of shards, optionally recording one iteration
+ *
+ * With a recorder, simulation stops after the recorded iteration.
+ */
+async function runShardRange(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  range: ShardRange,
+  recorder: PathRecorder | null,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<ShardData> {
   const {
-    iterations,
     timeHorizon,
     initialValue,
     inflationAdjusted,
     inflationRate = DEFAULT_INFLATION_RATE,
     resamplingMethod,
     blockSize,
-    seed,
   } = config;
+  const seed = config.seed ?? Date.now().toString();
+
+  // Iterations of this range; arrays below are indexed from the range start
+  const iterations = recorder
+    ? recorder.iteration + 1
+    : shardRangeIterations(range, config.iterations);
 
-  // Create seeded RNG for reproducibility
-  const rng = seedrandom(seed ?? Date.now().toString());
+  // Seeded market stream, reset at the start of every shard
+  const firstShardSeed = shardSeed(seed, range.first);
+  let rng = seedrandom(firstShardSeed);
 
   // Terminal values array (transferred back to main thread)
   const terminalValues = new Float64Array(iterations);
 
   // Track yearly values for percentile calculation
-  // Structure: yearlyValues[year][iteration]
-  const yearlyValues: number[][] = Array.from(
-    { length: timeHorizon },
-    () => new Array(iterations)
-  );
+  // Structure: yearlyValues[year * iterations + iteration]
+  const yearlyValues = new Float64Array(timeHorizon * iterations);
 
   const numAssets = portfolio.assets.length;
   const weights = portfolio.assets.map(a => a.weight);
 
+  // Historical returns replayed at the start of every iteration
+  const replay = config.historicalReplay?.returns ?? null;
+  if (replay && (replay.length !== numAssets || replay.some(returns => returns.length > timeHorizon))) {
+    throw new Error('Historical replay needs one return series per asset, no longer than the time horizon');
+  }
+
+  // Rebalancing policy: weights drift with returns and are reset to target
+  // at the policy's rebalancing points
+  const rebalancing = resolveRebalancing(config.rebalancing);
+  const periodsPerYear = rebalancingPeriodsPerYear(rebalancing, config.timeStep);
+  const tradingCost = rebalancing.transactionCost;
+
+  // Weight drift tracking (multi-asset portfolios only)
+  // Structure: yearEndWeights[asset][year * iterations + iteration]
+  const trackDrift = numAssets > 1;
+  const yearEndWeights = trackDrift
+    ? portfolio.assets.map(() => new Float64Array(timeHorizon * iterations))
+    : null;
+  const yearlyTurnover = trackDrift ? new Float64Array(timeHorizon * iterations) : null;
+  const rebalanceCounts = trackDrift ? new Float64Array(iterations) : null;
+
+  // Per-asset cost basis: SBLOC collateral always carries a lot book (forced-sale
+  // gains are reported, not deducted); the sell strategy switches from a single
+  // cost basis ratio to lots when any asset has its own basis or an ordering is set
+  const liquidationOrder = config.liquidation?.order ?? 'pro-rata';
+  const liquidationAssetId = config.liquidation?.assetId;
+  const defaultCostBasisRatio = config.sellStrategy?.costBasisRatio ?? DEFAULT_SELL_CONFIG.costBasisRatio;
+  const sellUsesTaxLots = config.liquidation !== undefined ||
+    portfolio.assets.some(a => a.costBasisRatio !== undefined || (a.lots?.length ?? 0) > 0);
+  const trackAssetReturns = !!config.sbloc || (!!config.sellStrategy && sellUsesTaxLots);
+  const targetWeightsById: Record<string, number> = {};
+  portfolio.assets.forEach((asset, a) => {
+    targetWeightsById[asset.id] = weights[a];
+  });
+  // Asset-class collateral: the margin call LTV follows the drifting holdings
+  // Structure: effectiveLTVs[year * iterations + iteration]
+  const collateralLimits = config.sbloc?.ltvByAssetClass;
+  const collateralClasses = portfolio.assets.map(a =>
+    a.assetClass ? COLLATERAL_CLASS_BY_ASSET_CLASS[a.assetClass] : 'equity'
+  );
+  const effectiveLTVs = collateralLimits ? new Float64Array(timeHorizon * iterations) : null;
+
+  // Variable-rate SBLOC interest: rate paths come from their own seeded stream
+  // so market returns match a fixed-rate run with the same seed
+  // Structure: interestRates[year * iterations + iteration]
+  const rateModel = config.sbloc?.rateModel;
+  let rateRng = rateModel ? seedrandom(`${firstShardSeed}:rates`) : null;
+  const interestRates = rateModel ? new Float64Array(timeHorizon * iterations) : null;
+
+  const liquidationCapitalGainsRate = config.taxModeling?.taxAdvantaged
+    ? 0
+    : (config.taxModeling?.ltcgTaxRate ?? DEFAULT_SELL_CONFIG.capitalGainsRate);
+  // Progressive brackets for dividend and Sell strategy taxes (taxable accounts only)
+  const incomeTax = config.taxModeling?.enabled && !config.taxModeling.taxAdvantaged
+    ? config.taxModeling.incomeTax
+    : undefined;
+
+  // Fat-tail parameters with any user overrides applied
+  const fatTailParams = resolveFatTailParams(config.fatTailParams);
+
+  // Monthly mode: the regime and fat-tail models draw months directly; the
+  // bootstrap methods resample real months when every asset has monthly
+  // history, otherwise they bridge each annual draw into a monthly path
+  const monthlyMode = config.timeStep === 'monthly';
+  const bootstrapMethod = resamplingMethod === 'simple' || resamplingMethod === 'block';
+  const useMonthlyHistory = monthlyMode && bootstrapMethod && hasMonthlyHistory(portfolio.assets);
+  const monthlyVolatility = monthlyMode && bootstrapMethod && !useMonthlyHistory
+    ? portfolio.assets.map(estimateMonthlyVolatility)
+    : [];
+  if (monthlyMode) {
+    const source = !bootstrapMethod
+      ? `drawing monthly ${resamplingMethod} returns`
+      : useMonthlyHistory ? 'resampling historical months' : 'bridging annual draws into monthly paths';
+    console.log(`[MC] Monthly time step: ${source}`);
+  }
+
   // Compute historical stats for regime multiplier approach
   let assetHistoricalStats: AssetHistoricalStats[] | undefined;
 
@@ -116,34 +374,28 @@ export async function runMonteCarlo(
     console.log(`  Survivorship bias: ${(regimeConfig.survivorshipBias * 100).toFixed(1)}%`);
 
     // Compute historical mean/stddev for each asset (multiplier-based approach)
-    assetHistoricalStats = portfolio.assets.map((asset) => {
-      const returns = asset.historicalReturns;
-      const assetMean = returns.length > 0 ? mean(returns) : 0.10;
-      const assetStddev = returns.length > 1 ? stddev(returns) : 0.20;
-      const assetClass = asset.assetClass ?? 'equity_stock';
-
-      console.log(`Asset ${asset.id} (${assetClass}):`, {
-        historicalMean: (assetMean * 100).toFixed(1) + '%',
-        historicalStddev: (assetStddev * 100).toFixed(1) + '%',
-        dataPoints: returns.length,
+    assetHistoricalStats = computeAssetHistoricalStats(portfolio);
+    assetHistoricalStats.forEach((stats, a) => {
+      console.log(`Asset ${stats.id} (${stats.assetClass}):`, {
+        historicalMean: (stats.mean * 100).toFixed(1) + '%',
+        historicalStddev: (stats.stddev * 100).toFixed(1) + '%',
+        dataPoints: portfolio.assets[a].historicalReturns.length,
       });
-
-      return {
-        id: asset.id,
-        mean: assetMean,
-        stddev: assetStddev,
-        assetClass,
-      };
     });
   }
 
-  // Track SBLOC state per iteration per year (only if sbloc config provided)
-  let sblocStates: SBLOCState[][] | null = null;
-  let marginCallYears: number[] | null = null; // First margin call year per iteration (-1 if none)
-  let marginCallCounts: number[] | null = null; // Total margin calls per iteration
-  let totalHaircutLosses: number[] | null = null; // Total haircut losses per iteration
-  let totalInterestCharged: number[] | null = null; // Total interest charged per iteration
-  let totalDividendTaxesBorrowed: number[] | null = null; // Total dividend taxes borrowed per iteration
+  // Track SBLOC loan balances per iteration per year (only if sbloc config provided)
+  // Structure: loanBalances[year * iterations + iteration]
+  let loanBalances: Float64Array | null = null;
+  let marginCallYears: Float64Array | null = null; // First margin call year per iteration (-1 if none)
+  let marginCallMonths: Float64Array | null = null; // First margin call month of year (0-11) per iteration (-1 if none)
+  let marginCallCounts: Float64Array | null = null; // Total margin calls per iteration
+  let totalHaircutLosses: Float64Array | null = null; // Total haircut losses per iteration
+  let totalInterestCharged: Float64Array | null = null; // Total interest charged per iteration
+  let totalDividendTaxesBorrowed: Float64Array | null = null; // Total dividend taxes borrowed per iteration
+  let totalRebalancingTaxesBorrowed: Float64Array | null = null; // Total rebalancing taxes borrowed per iteration
+  let liquidationGainsByAsset: Float64Array[] | null = null; // Forced-sale gains [asset][iteration]
+  let liquidationTaxesByAsset: Float64Array[] | null = null; // Forced-sale capital gains tax [asset][iteration]
 
   // SBLOC configuration values (extracted for use in year loop)
   const sblocBaseWithdrawal = config.sbloc?.annualWithdrawal ?? 0;
@@ -151,29 +403,36 @@ export async function runMonteCarlo(
   const sblocWithdrawalStartYear = config.timeline?.withdrawalStartYear ?? 0;
 
   // Track portfolio returns for diagnostics
-  let iterationReturns: number[] | null = null; // Cumulative return per iteration
-  let firstFailureYear: number[] | null = null; // Year when portfolio first failed (-1 if never)
+  let iterationReturns: Float64Array | null = null; // Cumulative return per iteration
+  let firstFailureYear: Float64Array | null = null; // Year when portfolio first failed (-1 if never)
 
   // Track sell strategy results per iteration (only if sellStrategy config provided)
-  let sellIterationResults: SellIterationResult[] | null = null;
-  let sellYearlyValues: number[][] | null = null; // [iteration][year]
+  const sell = config.sellStrategy
+    ? createSellShardData(iterations, timeHorizon, numAssets, sellUsesTaxLots)
+    : null;
 
   if (config.sbloc) {
-    sblocStates = Array.from({ length: iterations }, () => []);
-    marginCallYears = new Array(iterations).fill(-1);
-    marginCallCounts = new Array(iterations).fill(0);
-    totalHaircutLosses = new Array(iterations).fill(0);
-    totalInterestCharged = new Array(iterations).fill(0);
-    totalDividendTaxesBorrowed = new Array(iterations).fill(0);
-    iterationReturns = new Array(iterations).fill(0);
-    firstFailureYear = new Array(iterations).fill(-1);
+    loanBalances = new Float64Array(timeHorizon * iterations);
+    marginCallYears = new Float64Array(iterations).fill(-1);
+    marginCallMonths = new Float64Array(iterations).fill(-1);
+    marginCallCounts = new Float64Array(iterations);
+    totalHaircutLosses = new Float64Array(iterations);
+    totalInterestCharged = new Float64Array(iterations);
+    totalDividendTaxesBorrowed = new Float64Array(iterations);
+    totalRebalancingTaxesBorrowed = new Float64Array(iterations);
+    liquidationGainsByAsset = portfolio.assets.map(() => new Float64Array(iterations));
+    liquidationTaxesByAsset = portfolio.assets.map(() => new Float64Array(iterations));
+    iterationReturns = new Float64Array(iterations);
+    firstFailureYear = new Float64Array(iterations).fill(-1);
 
     // Log dividend tax configuration
     const dividendTaxEnabled = config.taxModeling?.enabled && !config.taxModeling?.taxAdvantaged;
     if (dividendTaxEnabled) {
       const divYield = (config.taxModeling!.dividendYield * 100).toFixed(2);
-      const divTaxRate = (config.taxModeling!.ordinaryTaxRate * 100).toFixed(1);
-      console.log(`[MC] BBD dividend tax borrowing enabled: ${divYield}% yield × ${divTaxRate}% tax rate`);
+      const divTaxRate = incomeTax
+        ? `${incomeTax.filingStatus} brackets${incomeTax.state ? ` + ${incomeTax.state}` : ''}`
+        : `${(config.taxModeling!.ordinaryTaxRate * 100).toFixed(1)}% tax rate`;
+      console.log(`[MC] BBD dividend tax borrowing enabled: ${divYield}% yield × ${divTaxRate}`);
       console.log(`[MC] BBD borrows to pay dividend taxes (portfolio stays whole)`);
       console.log(`[MC] Sell strategy liquidates to pay same taxes (reduces compound growth)`);
     } else {
@@ -204,11 +463,6 @@ export async function runMonteCarlo(
     }
   }
 
-  if (config.sellStrategy) {
-    sellIterationResults = [];
-    sellYearlyValues = Array.from({ length: iterations }, () => []);
-  }
-
   // Run iterations in batches
   for (let batch = 0; batch < iterations; batch += BATCH_SIZE) {
     // Check for cancellation
@@ -216,37 +470,155 @@ export async function runMonteCarlo(
       throw new DOMException('Simulation cancelled', 'AbortError');
     }
 
+    // Each shard draws from its own seeded streams
+    if (batch > 0 && batch % SHARD_SIZE === 0) {
+      const nextShardSeed = shardSeed(seed, range.first + batch / SHARD_SIZE);
+      rng = seedrandom(nextShardSeed);
+      rateRng = rateModel ? seedrandom(`${nextShardSeed}:rates`) : null;
+    }
+
     const batchEnd = Math.min(batch + BATCH_SIZE, iterations);
 
     for (let i = batch; i < batchEnd; i++) {
-      // Generate returns for this iteration
-      const assetReturns = generateIterationReturns(
-        resamplingMethod,
-        timeHorizon,
-        portfolio,
-        rng,
-        blockSize,
-        config.regimeCalibration,
-        assetHistoricalStats
-      );
+      // Generate returns for this iteration ([asset][year], or [asset][month] in monthly mode)
+      // Regime-switching draws also report the regime path for regime-linked rates
+      const iterationRegimes: MarketRegime[] = [];
+      const assetReturns = monthlyMode
+        ? generateMonthlyIterationReturns(
+          resamplingMethod,
+          timeHorizon,
+          portfolio,
+          rng,
+          monthlyVolatility,
+          useMonthlyHistory,
+          blockSize,
+          config.regimeCalibration,
+          assetHistoricalStats,
+          fatTailParams,
+          iterationRegimes
+        )
+        : generateIterationReturns(
+          resamplingMethod,
+          timeHorizon,
+          portfolio,
+          rng,
+          blockSize,
+          config.regimeCalibration,
+          assetHistoricalStats,
+          fatTailParams,
+          iterationRegimes
+        );
+
+      // Replayed history overrides the first years. The draws above still
+      // advance the streams, so later years match the unstressed run.
+      if (replay) {
+        applyHistoricalReplay(assetReturns, replay, monthlyMode);
+      }
+
+      // SBLOC rate for each year (fixed unless a rate model is set)
+      const ratePath = rateModel && rateRng && config.sbloc
+        ? generateRatePath(
+          config.sbloc.interestRate,
+          rateModel,
+          timeHorizon,
+          iterationRegimes.length > 0 ? iterationRegimes : undefined,
+          rateRng
+        )
+        : null;
 
       // Simulate portfolio growth
       let portfolioValue = initialValue;
       let cumulativeReturn = 1; // Track cumulative return for this iteration
 
-      // Track portfolio returns for sell strategy (one per year)
+      // Track portfolio returns and rebalancing turnover for sell strategy (one per year)
       const iterationPortfolioReturns: number[] = [];
+      const iterationTurnover: number[] = [];
+      const iterationAssetReturns: Record<string, number>[] = [];
+
+      // SBLOC state at the end of the previous year, and its collateral lots
+      // (carried separately to keep the state small)
+      let sblocState: SBLOCState | undefined;
+      let sblocLots: TaxLot[] | undefined;
+
+      // Holdings start at target weights and drift between rebalancing trades
+      const currentWeights = weights.slice();
+      const periodReturns: number[] = new Array(numAssets);
+
+      // SBLOC step of the current year, kept when this iteration is recorded
+      const recording = recorder !== null && i === recorder.iteration;
+      let recordedStep: { result: SBLOCYearResult; interestRate: number; maxLTV: number } | null = null;
 
       for (let year = 0; year < timeHorizon; year++) {
-        // Calculate weighted portfolio return
+        // Calculate weighted portfolio return period by period (compounded over
+        // the year's months in monthly mode), drifting and rebalancing weights
         let portfolioReturn = 0;
-        for (let a = 0; a < numAssets; a++) {
-          portfolioReturn += weights[a] * assetReturns[a][year];
+        const monthlyPortfolioReturns: number[] | null = monthlyMode ? new Array(MONTHS_PER_YEAR) : null;
+        let growth = 1;
+        let turnover = 0;
+        let collateralLTV = config.sbloc?.targetLTV ?? 0;
+        for (let period = 0; period < periodsPerYear; period++) {
+          for (let a = 0; a < numAssets; a++) {
+            periodReturns[a] = monthlyMode
+              ? assetReturns[a][year * MONTHS_PER_YEAR + period]
+              : splitAnnualReturn(assetReturns[a][year], periodsPerYear);
+          }
+          let periodReturn = driftWeights(currentWeights, periodReturns);
+
+          // Record year-end weights before any year-end rebalance
+          if (yearEndWeights && period === periodsPerYear - 1) {
+            for (let a = 0; a < numAssets; a++) {
+              yearEndWeights[a][year * iterations + i] = currentWeights[a];
+            }
+          }
+
+          // Lendable value is assessed on the year-end holdings
+          if (collateralLimits && effectiveLTVs && period === periodsPerYear - 1) {
+            collateralLTV = blendedAdvanceRate(currentWeights, collateralClasses, collateralLimits);
+            effectiveLTVs[year * iterations + i] = collateralLTV;
+          }
+
+          if (isRebalanceDue(currentWeights, weights, rebalancing, period, periodsPerYear)) {
+            const sold = rebalanceWeights(currentWeights, weights);
+            if (sold > 0) {
+              turnover += sold;
+              if (rebalanceCounts) {
+                rebalanceCounts[i]++;
+              }
+              // Trading costs apply to both the sells and the buys
+              if (tradingCost > 0) {
+                periodReturn = (1 + periodReturn) * (1 - 2 * sold * tradingCost) - 1;
+              }
+            }
+          }
+
+          if (monthlyPortfolioReturns) {
+            monthlyPortfolioReturns[period] = periodReturn;
+          }
+          growth *= 1 + periodReturn;
+          portfolioReturn = periodReturn;
+        }
+        if (periodsPerYear > 1) {
+          portfolioReturn = growth - 1;
+        }
+
+        iterationTurnover.push(turnover);
+        if (yearlyTurnover) {
+          yearlyTurnover[year * iterations + i] = turnover;
         }
 
         // Store portfolio return for sell strategy
         iterationPortfolioReturns.push(portfolioReturn);
 
+        // Annual return per asset, for tax lot growth
+        let yearAssetReturns: Record<string, number> | undefined;
+        if (trackAssetReturns) {
+          yearAssetReturns = {};
+          for (let a = 0; a < numAssets; a++) {
+            yearAssetReturns[portfolio.assets[a].id] = annualAssetReturn(assetReturns[a], year, monthlyMode);
+          }
+          iterationAssetReturns.push(yearAssetReturns);
+        }
+
         // Track cumulative return
         cumulativeReturn *= (1 + portfolioReturn);
 
@@ -259,7 +631,7 @@ export async function runMonteCarlo(
         }
 
         // SBLOC simulation step (if enabled)
-        if (config.sbloc && sblocStates && marginCallYears) {
+        if (config.sbloc && loanBalances && marginCallYears) {
           // Calculate effective withdrawal for this year (with annual raises and chapters)
           // Note: We compute effectiveWithdrawal externally (using sblocRaiseRate growth)
           // rather than using the SBLOC engine's withdrawalGrowthRate. This keeps the
@@ -293,44 +665,112 @@ export async function runMonteCarlo(
           const dividendYield = config.taxModeling?.enabled && !config.taxModeling?.taxAdvantaged
             ? (config.taxModeling.dividendYield ?? 0)
             : 0;
-          const dividendTaxRate = config.taxModeling?.enabled && !config.taxModeling?.taxAdvantaged
+          let dividendTaxRate = config.taxModeling?.enabled && !config.taxModeling?.taxAdvantaged
             ? (config.taxModeling.ordinaryTaxRate ?? 0)
             : 0;
+          // Real-dollar runs keep today's bracket thresholds
+          const indexation = inflationAdjusted ? 1 : Math.pow(1 + inflationRate, year);
+          let dividendIncome = 0;
+          if (incomeTax && dividendYield > 0) {
+            // Average rate of the year's dividends through the brackets
+            dividendIncome = (year === 0 ? initialValue : sblocState!.portfolioValue) *
+              (1 + portfolioReturn) * dividendYield;
+            dividendTaxRate = dividendIncome > 0
+              ? incrementalIncomeTax(0, dividendIncome, incomeTax, indexation) / dividendIncome
+              : 0;
+          }
+
+          // With asset-class collateral the blended advance rate replaces the target LTV,
+          // and the warning threshold keeps its distance below it proportionally
+          const maxLTV = collateralLimits ? collateralLTV : config.sbloc.targetLTV;
+          const maintenanceMargin = collateralLimits && config.sbloc.targetLTV > 0
+            ? config.sbloc.maintenanceMargin * (collateralLTV / config.sbloc.targetLTV)
+            : config.sbloc.maintenanceMargin;
+
+          const annualInterestRate = ratePath ? ratePath[year] : config.sbloc.interestRate;
+          if (interestRates) {
+            interestRates[year * iterations + i] = annualInterestRate;
+          }
 
           const sblocConfig: SBLOCEngineConfig = {
-            annualInterestRate: config.sbloc.interestRate,
-            maxLTV: config.sbloc.targetLTV, // Margin call triggers when LTV exceeds target (e.g., 65%)
-            maintenanceMargin: config.sbloc.maintenanceMargin,
+            annualInterestRate,
+            maxLTV, // Margin call triggers when LTV exceeds the limit (e.g., 65%)
+            maintenanceMargin,
             liquidationHaircut: config.sbloc.liquidationHaircut,
             annualWithdrawal: effectiveWithdrawal,
             compoundingFrequency: 'annual',
             startYear: sblocWithdrawalStartYear,
             dividendYield,
             dividendTaxRate,
+            liquidationOrder,
+            liquidationAssetId,
+            capitalGainsRate: liquidationCapitalGainsRate,
           };
 
           // Get current SBLOC state or initialize
-          const prevState = year === 0
-            ? initializeSBLOCState(sblocConfig, initialValue, config.sbloc.initialLocBalance)
-            : sblocStates[i][year - 1];
+          if (year === 0) {
+            sblocLots = createTaxLots(portfolio.assets, initialValue, defaultCostBasisRatio);
+          }
+          const prevState: SBLOCState = {
+            ...(year === 0
+              ? initializeSBLOCState(sblocConfig, initialValue, config.sbloc.initialLocBalance)
+              : sblocState!),
+            lots: sblocLots,
+          };
 
           // Step SBLOC forward one year
           // Note: portfolioReturn is the annual return. The SBLOC engine applies this
           // return to its internal portfolio tracking (independent of MC's portfolioValue).
           // After the SBLOC step, we sync MC's portfolioValue to match the SBLOC state.
-          // stepSBLOCYear handles monthly vs annual mode internally based on monthlyWithdrawal flag
-          const yearResult = stepSBLOCYear(
-            prevState,
-            sblocConfig,
-            portfolioReturn,
-            year,
-            config.sbloc.monthlyWithdrawal ?? false
-          );
-          sblocStates[i].push(yearResult.newState);
+          // stepSBLOCYear handles monthly vs annual mode internally based on monthlyWithdrawal flag.
+          // In monthly time-step mode the engine instead steps along the simulated months,
+          // always with monthly withdrawals and interest.
+          const yearResult = monthlyPortfolioReturns
+            ? stepSBLOCMonths(
+              prevState,
+              sblocConfig,
+              monthlyPortfolioReturns,
+              year,
+              yearAssetMonthlyReturns(assetReturns, portfolio, year)
+            )
+            : stepSBLOCYear(
+              prevState,
+              sblocConfig,
+              portfolioReturn,
+              year,
+              config.sbloc.monthlyWithdrawal ?? false,
+              yearAssetReturns
+            );
+
+          // Rebalancing trades realign the lots and realise gains. The tax is the
+          // Sell strategy's (stacked on the year's dividends under brackets), and
+          // BBD borrows it like its dividend taxes.
+          const { lots: nextLots, ...storedState } = yearResult.newState;
+          sblocLots = nextLots;
+          if (sblocLots && turnover > 0) {
+            const rebalanceSale = rebalanceTaxLots(sblocLots, targetWeightsById, liquidationOrder);
+            const rebalanceTax = rebalanceSale.gain <= 0
+              ? 0
+              : incomeTax
+                ? incrementalIncomeTax(dividendIncome, rebalanceSale.gain, incomeTax, indexation)
+                : rebalanceSale.gain * liquidationCapitalGainsRate;
+            storedState.loanBalance += rebalanceTax;
+            if (totalRebalancingTaxesBorrowed) {
+              totalRebalancingTaxesBorrowed[i] += rebalanceTax;
+            }
+          }
+          sblocState = storedState;
+          loanBalances[year * iterations + i] = storedState.loanBalance;
+          if (recording) {
+            recordedStep = { result: yearResult, interestRate: annualInterestRate, maxLTV };
+          }
 
-          // Track first margin call year
+          // Track first margin call year (and month, when stepped monthly)
           if (yearResult.marginCallTriggered && marginCallYears[i] === -1) {
             marginCallYears[i] = year + 1;
+            if (marginCallMonths && yearResult.marginCallMonth !== undefined) {
+              marginCallMonths[i] = yearResult.marginCallMonth;
+            }
           }
 
           // Track margin call counts and haircut losses
@@ -346,6 +786,16 @@ export async function runMonteCarlo(
           if (totalDividendTaxesBorrowed) {
             totalDividendTaxesBorrowed[i] += yearResult.dividendTaxBorrowed;
           }
+          if (yearResult.realizedGains && liquidationGainsByAsset && liquidationTaxesByAsset) {
+            const taxes = capitalGainsTaxByAsset(yearResult.realizedGains, liquidationCapitalGainsRate);
+            yearResult.realizedGains.forEach((realization, k) => {
+              const a = portfolio.assets.findIndex(asset => asset.id === realization.assetId);
+              if (a >= 0) {
+                liquidationGainsByAsset![a][i] += realization.gain;
+                liquidationTaxesByAsset![a][i] += taxes[k];
+              }
+            });
+          }
 
           // Track first failure year
           if (yearResult.portfolioFailed && firstFailureYear && firstFailureYear[i] === -1) {
@@ -362,17 +812,39 @@ export async function runMonteCarlo(
 
         // Store yearly value
         // For SBLOC simulations, store NET WORTH (portfolio - loan) instead of gross portfolio
-        if (config.sbloc && sblocStates) {
-          const currentState = sblocStates[i][year];
-          const loanBalance = currentState?.loanBalance ?? 0;
-          yearlyValues[year][i] = portfolioValue - loanBalance;
+        if (config.sbloc && sblocState) {
+          yearlyValues[year * iterations + i] = portfolioValue - sblocState.loanBalance;
         } else {
-          yearlyValues[year][i] = portfolioValue;
+          yearlyValues[year * iterations + i] = portfolioValue;
+        }
+
+        if (recording) {
+          const step = recordedStep?.result;
+          const loanBalance = sblocState?.loanBalance ?? 0;
+          recorder!.years.push({
+            year: year + 1,
+            assetReturns: assetReturns.map(returns => annualAssetReturn(returns, year, monthlyMode)),
+            portfolioReturn,
+            regime: iterationRegimes[year],
+            portfolioValue,
+            netWorth: portfolioValue - loanBalance,
+            withdrawal: step?.withdrawalMade ?? 0,
+            interestRate: recordedStep?.interestRate,
+            interestCharged: step?.interestCharged ?? 0,
+            loanBalance,
+            ltv: portfolioValue > 0 ? loanBalance / portfolioValue : 0,
+            maxLTV: recordedStep?.maxLTV,
+            marginCall: step?.marginCallTriggered ?? false,
+            assetsLiquidated: step?.liquidationEvent?.assetsLiquidated ?? 0,
+            haircut: step?.liquidationEvent?.haircut ?? 0,
+            liquidationTax: step?.capitalGainsTax ?? 0,
+            turnover,
+          });
         }
       }
 
       // Run sell strategy for this iteration (if enabled)
-      if (config.sellStrategy && sellIterationResults && sellYearlyValues) {
+      if (config.sellStrategy && sell) {
         const sellConfig: SellStrategyFromReturnsConfig = {
           initialValue,
           annualWithdrawal: sblocBaseWithdrawal,
@@ -380,16 +852,27 @@ export async function runMonteCarlo(
           timeHorizon,
           costBasisRatio: config.sellStrategy.costBasisRatio,
           dividendYield: config.sellStrategy.dividendYield,
-          // capitalGainsRate and dividendTaxRate use defaults from DEFAULT_SELL_CONFIG
+          // Flat capitalGainsRate and dividendTaxRate use defaults from DEFAULT_SELL_CONFIG.
+          // Rebalancing trades are taxed at BBD's rate, so both strategies carry the
+          // same rebalancing tax (none when tax modeling is off).
+          rebalancingCapitalGainsRate: liquidationCapitalGainsRate,
+          // Sell values stay nominal, so bracket thresholds always grow with inflation.
+          ...(incomeTax && { incomeTax, bracketInflation: inflationRate }),
+          ...(sellUsesTaxLots && {
+            lots: createTaxLots(portfolio.assets, initialValue, defaultCostBasisRatio),
+            liquidationOrder,
+            liquidationAssetId,
+          }),
         };
 
         const sellResult = calculateSellStrategyFromReturns(
           sellConfig,
-          iterationPortfolioReturns
+          iterationPortfolioReturns,
+          iterationTurnover,
+          iterationAssetReturns
         );
 
-        sellIterationResults.push(sellResult);
-        sellYearlyValues[i] = sellResult.yearlyValues;
+        recordSellIteration(sell, i, iterations, sellResult, portfolio, initialValue);
       }
 
       // Store terminal value
@@ -415,8 +898,100 @@ export async function runMonteCarlo(
     onProgress(100); // Ensure 100% is shown before post-processing
   }
 
-  // Yield to allow progress update to render
-  await new Promise(resolve => setTimeout(resolve, 0));
+  return {
+    range,
+    iterations,
+    terminalValues,
+    yearlyValues,
+    yearEndWeights,
+    yearlyTurnover,
+    rebalanceCounts,
+    effectiveLTVs,
+    interestRates,
+    loanBalances,
+    marginCallYears,
+    marginCallMonths,
+    marginCallCounts,
+    totalHaircutLosses,
+    totalInterestCharged,
+    totalDividendTaxesBorrowed,
+    totalRebalancingTaxesBorrowed,
+    liquidationGainsByAsset,
+    liquidationTaxesByAsset,
+    iterationReturns,
+    firstFailureYear,
+    sell,
+  };
+}
+
+/**
+ * Merge simulated shards and compute the simulation output
+ *
+ * Sell strategy yearly percentiles are computed incrementally: each shard
+ * streams its yearly values into fixed-bin quantile sketches, which are
+ * summed across shards and read here, so that storage stays the same size
+ * whatever the iteration count. Net worth bands are path-coherent and
+ * follow whole iterations by terminal rank, so their year-major buffers
+ * (and the other columns kept per iteration) are sorted once per year here.
+ *
+ * @param config Simulation configuration the shards were simulated with (including its seed)
+ * @param portfolio Portfolio with assets and correlations
+ * @param parts Results of shard ranges covering every iteration (any order)
+ * @returns Simulation output with terminal values and statistics
+ */
+export function aggregateShards(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  parts: ShardData[]
+): SimulationOutput {
+  const {
+    timeHorizon,
+    initialValue,
+    inflationAdjusted,
+    inflationRate = DEFAULT_INFLATION_RATE,
+    resamplingMethod,
+  } = config;
+  const effectiveSeed = config.seed ?? '';
+
+  const {
+    iterations,
+    terminalValues,
+    yearlyValues,
+    yearEndWeights,
+    yearlyTurnover,
+    rebalanceCounts,
+    effectiveLTVs,
+    interestRates,
+    loanBalances,
+    marginCallYears,
+    marginCallMonths,
+    marginCallCounts,
+    totalHaircutLosses,
+    totalInterestCharged,
+    totalDividendTaxesBorrowed,
+    totalRebalancingTaxesBorrowed,
+    liquidationGainsByAsset,
+    liquidationTaxesByAsset,
+    iterationReturns,
+    firstFailureYear,
+    sell,
+  } = mergeShards(parts, timeHorizon);
+
+  const weights = portfolio.assets.map(a => a.weight);
+  const liquidationOrder = config.liquidation?.order ?? 'pro-rata';
+  const sellUsesTaxLots = config.liquidation !== undefined ||
+    portfolio.assets.some(a => a.costBasisRatio !== undefined || (a.lots?.length ?? 0) > 0);
+  const monthlyMode = config.timeStep === 'monthly';
+  const fatTailParams = resolveFatTailParams(config.fatTailParams);
+  const assetHistoricalStats = resamplingMethod === 'regime'
+    ? computeAssetHistoricalStats(portfolio)
+    : undefined;
+  const sblocBaseWithdrawal = config.sbloc?.annualWithdrawal ?? 0;
+  const sblocRaiseRate = config.sbloc?.annualWithdrawalRaise ?? 0;
+  const sblocWithdrawalStartYear = config.timeline?.withdrawalStartYear ?? 0;
+
+  // Terminal gross portfolio values, before the loan is netted out below
+  const finalGrossPortfolios = loanBalances ? terminalValues.slice() : new Float64Array(0);
 
   // ============================================================================
   // CRITICAL FIX: Convert terminal portfolio values to NET WORTH for BBD strategy
@@ -433,11 +1008,10 @@ export async function runMonteCarlo(
   // For non-SBLOC simulations, loan is $0 so net worth = portfolio value (no change).
   // ============================================================================
 
-  if (config.sbloc && sblocStates) {
+  if (config.sbloc && loanBalances) {
     // Replace terminalValues with terminal NET WORTH for each iteration
     for (let i = 0; i < iterations; i++) {
-      const finalState = sblocStates[i][timeHorizon - 1];
-      const loanBalance = finalState?.loanBalance ?? 0;
+      const loanBalance = loanBalances[(timeHorizon - 1) * iterations + i];
       const portfolioValue = terminalValues[i];
       const netWorth = portfolioValue - loanBalance;
       terminalValues[i] = netWorth;
@@ -448,22 +1022,29 @@ export async function runMonteCarlo(
     console.log('[MC Debug] No SBLOC: terminalValues already correct (portfolio values, no loan)');
   }
 
-  // Calculate statistics from terminal net worth
-  const terminalArray = Array.from(terminalValues);
-
   // Diagnostic logging for CAGR debugging
-  const negativeCount = terminalArray.filter(v => v < 0).length;
-  const zeroCount = terminalArray.filter(v => v === 0).length;
-  const minTerminal = Math.min(...terminalArray);
-  const maxTerminal = Math.max(...terminalArray);
+  const negativeCount = terminalValues.filter(v => v < 0).length;
+  const zeroCount = terminalValues.filter(v => v === 0).length;
+  const minTerminal = terminalValues.reduce((min, v) => Math.min(min, v), Infinity);
+  const maxTerminal = terminalValues.reduce((max, v) => Math.max(max, v), -Infinity);
   console.log(`[MC Debug] Terminal values: min=${minTerminal.toFixed(0)}, max=${maxTerminal.toFixed(0)}, negative=${negativeCount}, zero=${zeroCount}, total=${iterations}`);
   if (negativeCount > 0) {
     console.warn(`[MC Debug] WARNING: ${negativeCount} negative terminal values found!`);
-    const negatives = terminalArray.filter(v => v < 0).slice(0, 5);
+    const negatives = Array.from(terminalValues.filter(v => v < 0).slice(0, 5));
     console.warn(`[MC Debug] Sample negative values:`, negatives);
   }
 
-  const statistics = calculateStatistics(terminalArray, initialValue);
+  // Calculate statistics from terminal net worth
+  const statistics = calculateStatistics(terminalValues, initialValue);
+
+  // Running estimates of the key metrics, one checkpoint per shard
+  const checkpoints = convergenceCheckpoints(terminalValues, initialValue, config.sbloc ? marginCallYears : null);
+  const final = checkpoints[checkpoints.length - 1];
+  statistics.confidence = {
+    successRate: final.successRate,
+    median: final.median,
+    ...(final.marginCallProbability && { marginCallProbability: final.marginCallProbability }),
+  };
   console.log(`[MC Debug] Statistics: median=${statistics.median.toFixed(0)}, mean=${statistics.mean.toFixed(0)}, successRate=${statistics.successRate.toFixed(1)}%`);
 
   // Additional SBLOC diagnostics
@@ -483,7 +1064,6 @@ export async function runMonteCarlo(
     const meanInterest = mean(totalInterestCharged);
 
     // Track final gross portfolio values
-    const finalGrossPortfolios = sblocStates!.map(states => states[timeHorizon - 1]?.portfolioValue ?? 0);
     const medianGrossPortfolio = percentile(finalGrossPortfolios, 50);
     const meanGrossPortfolio = mean(finalGrossPortfolios);
 
@@ -517,21 +1097,35 @@ export async function runMonteCarlo(
   let sblocTrajectory: SBLOCTrajectory | undefined;
   let marginCallStats: MarginCallStats[] | undefined;
   let estateAnalysis: SimulationOutput['estateAnalysis'] | undefined;
-
-  if (config.sbloc && sblocStates && marginCallYears) {
-    // Aggregate loan balances by year
-    const loanBalancesByYear = sblocStates[0].map((_, yearIdx) =>
-      sblocStates!.map(iterStates => iterStates[yearIdx]?.loanBalance ?? 0)
-    );
+  // Estate tax thresholds are in today's dollars; nominal results index them to the year of death
+  const estateTaxIndexation = inflationAdjusted ? 1 : Math.pow(1 + inflationRate, timeHorizon);
+
+  if (config.sbloc && loanBalances && marginCallYears) {
+    // Loan balance percentiles by year, one year's column at a time
+    const loanPercentiles = yearlyPercentileColumns(loanBalances, timeHorizon, iterations, BAND_PERCENTILES);
+    const loanBand = (k: number): number[] => loanPercentiles.map(yv => yv[k]);
+
+    // Interest = loan balance percentile less the withdrawals borrowed so far
+    const cumulativeInterestAt = (k: number): number[] =>
+      loanPercentiles.map((yv, idx) => {
+        const cumWithdrawal = calculateCumulativeWithdrawalAtYear(
+          idx + 1,
+          sblocBaseWithdrawal,
+          sblocRaiseRate,
+          sblocWithdrawalStartYear,
+          config.withdrawalChapters
+        );
+        return Math.max(0, yv[k] - cumWithdrawal);
+      });
 
     sblocTrajectory = {
       years: Array.from({ length: timeHorizon }, (_, i) => i + 1),
       loanBalance: {
-        p10: loanBalancesByYear.map(yv => percentile(yv, 10)),
-        p25: loanBalancesByYear.map(yv => percentile(yv, 25)),
-        p50: loanBalancesByYear.map(yv => percentile(yv, 50)),
-        p75: loanBalancesByYear.map(yv => percentile(yv, 75)),
-        p90: loanBalancesByYear.map(yv => percentile(yv, 90)),
+        p10: loanBand(0),
+        p25: loanBand(1),
+        p50: loanBand(2),
+        p75: loanBand(3),
+        p90: loanBand(4),
       },
       cumulativeWithdrawals: calculateCumulativeWithdrawals(
         timeHorizon,
@@ -540,27 +1134,29 @@ export async function runMonteCarlo(
         sblocWithdrawalStartYear,
         config.withdrawalChapters
       ),
+      ...(effectiveLTVs && {
+        effectiveLTV: summarizeEffectiveLTV(effectiveLTVs, timeHorizon, iterations),
+      }),
       cumulativeInterest: {
-        p50: loanBalancesByYear.map((yv, idx) => {
-          const cumWithdrawal = calculateCumulativeWithdrawalAtYear(
-            idx + 1,
-            sblocBaseWithdrawal,
-            sblocRaiseRate,
-            sblocWithdrawalStartYear,
-            config.withdrawalChapters
-          );
-          const medianLoan = percentile(yv, 50);
-          return Math.max(0, medianLoan - cumWithdrawal);
-        }),
+        p10: cumulativeInterestAt(0),
+        p50: cumulativeInterestAt(2),
+        p90: cumulativeInterestAt(4),
       },
+      ...(interestRates && {
+        interestRate: summarizeInterestRates(interestRates, timeHorizon, iterations),
+      }),
     };
 
     // Compute margin call statistics
-    marginCallStats = computeMarginCallStats(marginCallYears, timeHorizon, iterations);
+    marginCallStats = computeMarginCallStats(
+      marginCallYears,
+      timeHorizon,
+      iterations,
+      monthlyMode ? marginCallMonths ?? undefined : undefined
+    );
 
     // Compute estate analysis (median case)
-    const finalStates = sblocStates.map(iterStates => iterStates[timeHorizon - 1]);
-    const medianLoan = percentile(finalStates.map(s => s?.loanBalance ?? 0), 50);
+    const medianLoan = loanPercentiles[timeHorizon - 1][2];
     // IMPORTANT: statistics.median is now NET WORTH (already has loan subtracted)
     const medianNetWorth = statistics.median;
     const bbdNetEstate = medianNetWorth;
@@ -569,6 +1165,9 @@ export async function runMonteCarlo(
     const medianDividendTaxesBorrowed = totalDividendTaxesBorrowed
       ? percentile(totalDividendTaxesBorrowed, 50)
       : 0;
+    const medianRebalancingTaxesBorrowed = totalRebalancingTaxesBorrowed
+      ? percentile(totalRebalancingTaxesBorrowed, 50)
+      : 0;
 
     // Estimate taxes if sold (will be replaced by integrated sell strategy results if available)
     // For sell strategy, we need to calculate gross portfolio value to estimate embedded gains
@@ -583,14 +1182,28 @@ export async function runMonteCarlo(
       sellNetEstate,
       bbdAdvantage: bbdNetEstate - sellNetEstate,
       medianDividendTaxesBorrowed,
+      medianRebalancingTaxesBorrowed,
     };
+
+    // Apply estate tax to each iteration's net worth at death
+    if (config.estateTax) {
+      const bbdEstateTax = summarizeEstateTax(terminalValues, config.estateTax, estateTaxIndexation);
+      estateAnalysis = {
+        ...estateAnalysis,
+        bbdNetEstate: bbdEstateTax.netToHeirs.p50,
+        bbdAdvantage: bbdEstateTax.netToHeirs.p50 - sellNetEstate,
+        estateTax: {
+          federalExemption: resolveFederalExemption(config.estateTax, estateTaxIndexation),
+          bbd: bbdEstateTax,
+        },
+      };
+    }
   }
 
   // Build debug stats if SBLOC is enabled
   let debugStats: SimulationOutput['debugStats'];
-  if (config.sbloc && marginCallCounts && totalHaircutLosses && totalInterestCharged && totalDividendTaxesBorrowed && sblocStates && iterationReturns && firstFailureYear) {
+  if (config.sbloc && marginCallCounts && totalHaircutLosses && totalInterestCharged && totalDividendTaxesBorrowed && loanBalances && iterationReturns && firstFailureYear) {
     const mcCounts = marginCallCounts;
-    const finalGrossPortfolios = sblocStates.map(states => states[timeHorizon - 1]?.portfolioValue ?? 0);
 
     // Analyze failure patterns
     const failedIterations = firstFailureYear.filter(y => y > 0);
@@ -677,7 +1290,7 @@ export async function runMonteCarlo(
       // Fat-tail parameters used (if fat-tail method)
       fatTailParameters: resamplingMethod === 'fat-tail' ? portfolio.assets.map(asset => {
         const assetClass = asset.assetClass ?? 'equity_index';
-        const params = FAT_TAIL_PARAMS[assetClass];
+        const params = fatTailParams[assetClass];
         return {
           assetId: asset.id,
           assetClass,
@@ -687,6 +1300,11 @@ export async function runMonteCarlo(
           volatilityScaling: params.volatilityScaling,
         };
       }) : undefined,
+      // Forced-sale gains per asset, from the collateral lot book
+      liquidationGainsByAsset: liquidationGainsByAsset && liquidationTaxesByAsset
+        ? summarizeLiquidationGains(portfolio, liquidationGainsByAsset, liquidationTaxesByAsset)
+        : undefined,
+      liquidationOrder,
       // Path-coherent percentile info (Phase 23-09)
       pathCoherentPercentiles: {
         p10SimIndex: simulationIndices.p10,
@@ -728,7 +1346,7 @@ export async function runMonteCarlo(
       // Fat-tail parameters
       fatTailParameters: portfolio.assets.map(asset => {
         const assetClass = asset.assetClass ?? 'equity_index';
-        const params = FAT_TAIL_PARAMS[assetClass];
+        const params = fatTailParams[assetClass];
         return {
           assetId: asset.id,
           assetClass,
@@ -752,56 +1370,40 @@ export async function runMonteCarlo(
 
   // Compute sell strategy statistics (if enabled)
   let sellStrategyOutput: SellStrategyOutput | undefined;
-  if (config.sellStrategy && sellIterationResults && sellYearlyValues) {
-    console.log('[MC Debug] Computing sell strategy statistics from', sellIterationResults.length, 'iterations');
+  if (config.sellStrategy && sell) {
+    console.log('[MC Debug] Computing sell strategy statistics from', iterations, 'iterations');
 
     // Extract terminal values
-    const sellTerminalValues = sellIterationResults.map(r => r.terminalValue);
+    const sellTerminalValues = sell.terminalValues;
 
     // Calculate success rate (terminal > initial)
     const sellSuccessCount = sellTerminalValues.filter(v => v > initialValue).length;
     const sellSuccessRate = (sellSuccessCount / iterations) * 100;
 
     // Calculate depletion probability
-    const sellDepletedCount = sellIterationResults.filter(r => r.depleted).length;
+    const sellDepletedCount = sell.depleted.reduce((count, d) => count + d, 0);
     const sellDepletionProbability = (sellDepletedCount / iterations) * 100;
 
     // Calculate percentiles
-    const sellPercentiles = {
-      p10: percentile(sellTerminalValues, 10),
-      p25: percentile(sellTerminalValues, 25),
-      p50: percentile(sellTerminalValues, 50),
-      p75: percentile(sellTerminalValues, 75),
-      p90: percentile(sellTerminalValues, 90),
-    };
+    const [p10, p25, p50, p75, p90] = percentiles(sellTerminalValues, BAND_PERCENTILES);
+    const sellPercentiles = { p10, p25, p50, p75, p90 };
 
     // Calculate tax metrics
-    const capitalGainsTaxes = sellIterationResults.map(r => r.totalCapitalGainsTaxes);
-    const dividendTaxes = sellIterationResults.map(r => r.totalDividendTaxes);
-    const totalTaxes = sellIterationResults.map(r => r.totalCapitalGainsTaxes + r.totalDividendTaxes);
+    const { capitalGainsTaxes, dividendTaxes, rebalancingTaxes } = sell;
+    const totalTaxes = capitalGainsTaxes.map((tax, i) => tax + dividendTaxes[i]);
 
     const sellTaxes = {
       medianCapitalGains: percentile(capitalGainsTaxes, 50),
       medianDividend: percentile(dividendTaxes, 50),
       medianTotal: percentile(totalTaxes, 50),
+      medianRebalancing: percentile(rebalancingTaxes, 50),
     };
 
-    // Calculate yearly percentiles across all iterations
-    const sellYearlyPercentiles: YearlyPercentiles[] = [];
-    for (let year = 0; year <= timeHorizon; year++) {
-      const yearValues = sellYearlyValues
-        .map(iterYearly => iterYearly[year])
-        .filter(v => v !== undefined);
-
-      sellYearlyPercentiles.push({
-        year,
-        p10: percentile(yearValues, 10),
-        p25: percentile(yearValues, 25),
-        p50: percentile(yearValues, 50),
-        p75: percentile(yearValues, 75),
-        p90: percentile(yearValues, 90),
-      });
-    }
+    // Yearly percentiles across all iterations (year 0 included), from the streamed sketches
+    const sellYearlyPercentiles: YearlyPercentiles[] = Array.from({ length: timeHorizon + 1 }, (_, year) => {
+      const [p10, p25, p50, p75, p90] = sketchPercentiles(sell.yearlySketches, year, BAND_PERCENTILES, initialValue);
+      return { year, p10, p25, p50, p75, p90 };
+    });
 
     sellStrategyOutput = {
       terminalValues: sellTerminalValues,
@@ -810,6 +1412,9 @@ export async function runMonteCarlo(
       taxes: sellTaxes,
       depletionProbability: sellDepletionProbability,
       yearlyPercentiles: sellYearlyPercentiles,
+      byAsset: sellUsesTaxLots
+        ? summarizeSellAssetTaxes(portfolio, sell, timeHorizon, iterations)
+        : undefined,
     };
 
     console.log('[MC Debug] Sell strategy results:', {
@@ -822,7 +1427,12 @@ export async function runMonteCarlo(
     // Update estate analysis to use integrated sell strategy results (if estate analysis exists)
     if (estateAnalysis) {
       const bbdNetEstate = estateAnalysis.bbdNetEstate;
-      const sellNetEstate = sellPercentiles.p50; // Use integrated sell strategy median terminal value
+      // Estate tax applies to every iteration's sell terminal value
+      const sellEstateTax = config.estateTax
+        ? summarizeEstateTax(sellTerminalValues, config.estateTax, estateTaxIndexation)
+        : undefined;
+      // Use integrated sell strategy median terminal value
+      const sellNetEstate = sellEstateTax ? sellEstateTax.netToHeirs.p50 : sellPercentiles.p50;
       const bbdAdvantage = bbdNetEstate - sellNetEstate;
       const medianDividendTaxesBorrowed = estateAnalysis.medianDividendTaxesBorrowed ?? 0;
 
@@ -831,6 +1441,10 @@ export async function runMonteCarlo(
         sellNetEstate,
         bbdAdvantage,
         medianDividendTaxesBorrowed,
+        medianRebalancingTaxesBorrowed: estateAnalysis.medianRebalancingTaxesBorrowed,
+        ...(estateAnalysis.estateTax && sellEstateTax && {
+          estateTax: { ...estateAnalysis.estateTax, sell: sellEstateTax },
+        }),
       };
 
       // Log estate comparison with dividend tax details
@@ -840,6 +1454,10 @@ export async function runMonteCarlo(
       console.log(`[MC Debug] BBD median net estate: $${bbdNetEstate.toFixed(0)}`);
       console.log(`[MC Debug] Sell median net estate: $${sellNetEstate.toFixed(0)}`);
       console.log(`[MC Debug] BBD advantage: $${bbdAdvantage.toFixed(0)} (${((bbdAdvantage/sellNetEstate)*100).toFixed(1)}%)`);
+      if (estateAnalysis.estateTax?.sell) {
+        const { bbd, sell } = estateAnalysis.estateTax;
+        console.log(`[MC Debug] Median estate tax: BBD $${(bbd.medianFederalTax + bbd.medianStateTax).toFixed(0)}, Sell $${(sell.medianFederalTax + sell.medianStateTax).toFixed(0)}`);
+      }
       if (medianDividendTaxesBorrowed > 0) {
         console.log(`[MC Debug] Median dividend taxes borrowed (BBD): $${medianDividendTaxesBorrowed.toFixed(0)}`);
         console.log(`[MC Debug]   (These taxes are "in the loan" at death, forgiven by step-up)`);
@@ -852,6 +1470,19 @@ export async function runMonteCarlo(
     }
   }
 
+  // Summarize weight drift under the rebalancing policy
+  const weightDrift = yearEndWeights && yearlyTurnover && rebalanceCounts
+    ? summarizeWeightDrift(
+      portfolio.assets.map(a => a.id),
+      weights,
+      yearEndWeights,
+      yearlyTurnover,
+      rebalanceCounts,
+      timeHorizon,
+      iterations
+    )
+    : undefined;
+
   return {
     terminalValues,
     yearlyPercentiles,
@@ -861,9 +1492,93 @@ export async function runMonteCarlo(
     estateAnalysis,
     debugStats,
     sellStrategy: sellStrategyOutput,
+    weightDrift,
+    seed: effectiveSeed,
+    representativePaths: {
+      p10: simulationIndices.p10,
+      p50: simulationIndices.p50,
+      p90: simulationIndices.p90,
+      worst: simulationIndices.worst,
+    },
+    convergence: {
+      checkpoints,
+      ...(config.convergence && {
+        tolerance: config.convergence.tolerance,
+        converged: checkpoints.length >= minimumShards(config) &&
+          hasConverged(final, config.convergence.tolerance),
+      }),
+    },
   };
 }
 
+/**
+ * Allocate sell strategy buffers for a shard range
+ */
+function createSellShardData(
+  iterations: number,
+  timeHorizon: number,
+  numAssets: number,
+  byAsset: boolean
+): SellShardData {
+  const perAsset = () => byAsset
+    ? Array.from({ length: numAssets }, () => new Float64Array(timeHorizon * iterations))
+    : null;
+  return {
+    terminalValues: new Float64Array(iterations),
+    capitalGainsTaxes: new Float64Array(iterations),
+    dividendTaxes: new Float64Array(iterations),
+    rebalancingTaxes: new Float64Array(iterations),
+    depleted: new Uint8Array(iterations),
+    yearlySketches: createSketches(timeHorizon + 1),
+    realizedGainsByAsset: perAsset(),
+    capitalGainsTaxesByAsset: perAsset(),
+  };
+}
+
+/**
+ * Store one iteration's sell strategy result in the shard buffers
+ */
+function recordSellIteration(
+  sell: SellShardData,
+  i: number,
+  iterations: number,
+  result: SellIterationResult,
+  portfolio: PortfolioConfig,
+  initialValue: number
+): void {
+  sell.terminalValues[i] = result.terminalValue;
+  sell.capitalGainsTaxes[i] = result.totalCapitalGainsTaxes;
+  sell.dividendTaxes[i] = result.totalDividendTaxes;
+  sell.rebalancingTaxes[i] = result.totalRebalancingTaxes;
+  sell.depleted[i] = result.depleted ? 1 : 0;
+  result.yearlyValues.forEach((value, year) => {
+    addToSketch(sell.yearlySketches, year, value, initialValue);
+  });
+  portfolio.assets.forEach((asset, a) => {
+    result.realizedGainsByAsset?.forEach((gains, year) => {
+      sell.realizedGainsByAsset![a][year * iterations + i] = gains[asset.id] ?? 0;
+    });
+    result.capitalGainsTaxesByAsset?.forEach((taxes, year) => {
+      sell.capitalGainsTaxesByAsset![a][year * iterations + i] = taxes[asset.id] ?? 0;
+    });
+  });
+}
+
+/**
+ * Historical mean and standard deviation of each asset (regime multiplier approach)
+ */
+function computeAssetHistoricalStats(portfolio: PortfolioConfig): AssetHistoricalStats[] {
+  return portfolio.assets.map((asset) => {
+    const returns = asset.historicalReturns;
+    return {
+      id: asset.id,
+      mean: returns.length > 0 ? mean(returns) : 0.10,
+      stddev: returns.length > 1 ? stddev(returns) : 0.20,
+      assetClass: asset.assetClass ?? 'equity_stock',
+    };
+  });
+}
+
 /**
  * Generate returns for one simulation iteration
  */
@@ -874,7 +1589,9 @@ function generateIterationReturns(
   rng: () => number,
   blockSize?: number,
   regimeCalibration?: RegimeCalibrationMode,
-  assetHistoricalStats?: AssetHistoricalStats[]
+  assetHistoricalStats?: AssetHistoricalStats[],
+  fatTailParams?: Record<AssetClass, FatTailParams>,
+  regimesOut?: MarketRegime[]
 ): number[][] {
   const numAssets = portfolio.assets.length;
 
@@ -882,7 +1599,7 @@ function generateIterationReturns(
     // Use regime-switching with multiplier-based approach (aligned with reference)
     const calibrationMode = regimeCalibration ?? 'historical';
 
-    const { returns } = generateCorrelatedRegimeReturns(
+    const { returns, regimes } = generateCorrelatedRegimeReturns(
       years,
       numAssets,
       portfolio.correlationMatrix,
@@ -894,6 +1611,7 @@ function generateIterationReturns(
       calibrationMode,
       assetHistoricalStats // NEW: multiplier-based approach
     );
+    regimesOut?.push(...regimes);
     return returns;
   }
 
@@ -909,7 +1627,9 @@ function generateIterationReturns(
       const yearReturns = generateCorrelatedFatTailReturns(
         allHistoricalReturns,
         assetClasses,
-        portfolio.correlationMatrix
+        portfolio.correlationMatrix,
+        fatTailParams,
+        rng
       );
 
       // Assign year returns to each asset
@@ -935,11 +1655,359 @@ function generateIterationReturns(
   }
 }
 
+/**
+ * Generate monthly returns for one simulation iteration
+ *
+ * The regime model switches regimes and the fat-tail model draws shocks
+ * month by month, with their annual parameters scaled to a month. Bootstrap
+ * methods resample historical months when every asset has monthly history
+ * (the block size is given in years and scaled to months); without it they
+ * draw annual returns and bridge them into monthly paths that compound to
+ * the same annual totals.
+ *
+ * @returns Monthly returns per asset [asset][year * 12 + month]
+ */
+function generateMonthlyIterationReturns(
+  method: SimulationConfig['resamplingMethod'],
+  years: number,
+  portfolio: PortfolioConfig,
+  rng: () => number,
+  monthlyVolatility: number[],
+  useMonthlyHistory: boolean,
+  blockSize?: number,
+  regimeCalibration?: RegimeCalibrationMode,
+  assetHistoricalStats?: AssetHistoricalStats[],
+  fatTailParams?: Record<AssetClass, FatTailParams>,
+  regimesOut?: MarketRegime[]
+): number[][] {
+  const numAssets = portfolio.assets.length;
+  const months = years * MONTHS_PER_YEAR;
+
+  if (method === 'regime') {
+    const { returns, regimes } = generateCorrelatedMonthlyRegimeReturns(
+      years,
+      numAssets,
+      portfolio.correlationMatrix,
+      rng,
+      'bull',
+      regimeCalibration ?? 'historical',
+      assetHistoricalStats
+    );
+    regimesOut?.push(...regimes);
+    return returns;
+  }
+
+  if (method === 'fat-tail') {
+    return generateCorrelatedMonthlyFatTailReturns(
+      portfolio.assets.map(asset => asset.historicalReturns),
+      portfolio.assets.map(asset => asset.assetClass ?? 'equity_index'),
+      portfolio.correlationMatrix,
+      months,
+      fatTailParams,
+      rng
+    );
+  }
+
+  if (useMonthlyHistory) {
+    const allMonthlyReturns = portfolio.assets.map(asset => asset.monthlyReturns ?? []);
+    if (method === 'block') {
+      const monthlyBlockSize = blockSize !== undefined ? blockSize * MONTHS_PER_YEAR : undefined;
+      return correlatedBlockBootstrap(allMonthlyReturns, months, rng, monthlyBlockSize);
+    }
+    return correlatedBootstrap(allMonthlyReturns, months, rng);
+  }
+
+  const annualReturns = generateIterationReturns(
+    method,
+    years,
+    portfolio,
+    rng,
+    blockSize,
+    regimeCalibration,
+    assetHistoricalStats,
+    fatTailParams,
+    regimesOut
+  );
+  return bridgeAnnualReturns(annualReturns, monthlyVolatility, portfolio.correlationMatrix, rng);
+}
+
+/**
+ * Percentiles of each year's column of a year-major buffer
+ *
+ * Columns are sorted one at a time, so only one year's copy is alive.
+ *
+ * @param values Year-major values [year * iterations + iteration]
+ * @param years Number of year columns
+ * @param iterations Number of iterations
+ * @param ps Percentiles to read (0-100)
+ * @returns Requested percentiles per year: [year][k]
+ */
+function yearlyPercentileColumns(
+  values: Float64Array,
+  years: number,
+  iterations: number,
+  ps: number[]
+): number[][] {
+  return Array.from({ length: years }, (_, year) =>
+    percentiles(values.subarray(year * iterations, (year + 1) * iterations), ps)
+  );
+}
+
+/**
+ * Summarize year-end weights and rebalancing turnover across iterations
+ *
+ * @param assetIds Asset identifiers
+ * @param targetWeights Target weights
+ * @param yearEndWeights Drifted year-end weights [asset][year * iterations + iteration]
+ * @param yearlyTurnover Fraction sold for rebalancing [year * iterations + iteration]
+ * @param rebalanceCounts Rebalancing trades per iteration
+ * @param timeHorizon Number of years
+ * @param iterations Number of iterations
+ * @returns Weight drift percentiles by asset and year
+ */
+function summarizeWeightDrift(
+  assetIds: string[],
+  targetWeights: number[],
+  yearEndWeights: Float64Array[],
+  yearlyTurnover: Float64Array,
+  rebalanceCounts: Float64Array,
+  timeHorizon: number,
+  iterations: number
+): WeightDrift {
+  const p10: number[][] = [];
+  const p50: number[][] = [];
+  const p90: number[][] = [];
+  for (const assetWeights of yearEndWeights) {
+    const byYear = yearlyPercentileColumns(assetWeights, timeHorizon, iterations, [10, 50, 90]);
+    p10.push(byYear.map(values => values[0]));
+    p50.push(byYear.map(values => values[1]));
+    p90.push(byYear.map(values => values[2]));
+  }
+
+  return {
+    assetIds,
+    targetWeights: targetWeights.slice(),
+    years: Array.from({ length: timeHorizon }, (_, year) => year + 1),
+    p10,
+    p50,
+    p90,
+    medianTurnover: yearlyPercentileColumns(yearlyTurnover, timeHorizon, iterations, [50]).map(([p]) => p),
+    meanRebalances: mean(rebalanceCounts),
+  };
+}
+
+/**
+ * Overwrite the first years of an iteration's returns with replayed history
+ *
+ * In monthly mode each replayed year is spread evenly over its months.
+ *
+ * @param assetReturns Simulated returns [asset][year or month], updated in place
+ * @param replay Annual returns to replay [asset][year]
+ * @param monthlyMode Whether returns are monthly
+ */
+function applyHistoricalReplay(assetReturns: number[][], replay: number[][], monthlyMode: boolean): void {
+  replay.forEach((returns, a) => {
+    returns.forEach((annualReturn, year) => {
+      if (!monthlyMode) {
+        assetReturns[a][year] = annualReturn;
+        return;
+      }
+      const monthlyReturn = splitAnnualReturn(annualReturn, MONTHS_PER_YEAR);
+      for (let m = 0; m < MONTHS_PER_YEAR; m++) {
+        assetReturns[a][year * MONTHS_PER_YEAR + m] = monthlyReturn;
+      }
+    });
+  });
+}
+
+/**
+ * Compounded return of one asset over one simulated year
+ *
+ * @param returns Simulated returns of the asset (monthly or annual)
+ * @param year Simulation year (0-based)
+ * @param monthlyMode Whether returns are monthly
+ */
+function annualAssetReturn(returns: number[], year: number, monthlyMode: boolean): number {
+  if (!monthlyMode) return returns[year];
+  let growth = 1;
+  for (let m = 0; m < MONTHS_PER_YEAR; m++) {
+    growth *= 1 + returns[year * MONTHS_PER_YEAR + m];
+  }
+  return growth - 1;
+}
+
+/**
+ * Slice one year of monthly returns per asset, keyed by asset id
+ *
+ * @param assetReturns Monthly returns [asset][month]
+ * @param portfolio Portfolio (for asset ids)
+ * @param year Simulation year (0-based)
+ * @returns 12 monthly returns per asset id
+ */
+function yearAssetMonthlyReturns(
+  assetReturns: number[][],
+  portfolio: PortfolioConfig,
+  year: number
+): Record<string, number[]> {
+  const returns: Record<string, number[]> = {};
+  portfolio.assets.forEach((asset, a) => {
+    returns[asset.id] = assetReturns[a].slice(year * MONTHS_PER_YEAR, (year + 1) * MONTHS_PER_YEAR);
+  });
+  return returns;
+}
+
+/**
+ * Summarize gains realised by forced liquidations per asset
+ *
+ * @param portfolio Portfolio (for asset ids)
+ * @param gainsByAsset Lifetime realised gains [asset][iteration]
+ * @param taxesByAsset Lifetime capital gains tax [asset][iteration]
+ * @returns Median and mean per asset
+ */
+function summarizeLiquidationGains(
+  portfolio: PortfolioConfig,
+  gainsByAsset: Float64Array[],
+  taxesByAsset: Float64Array[]
+): NonNullable<SBLOCDebugStats['liquidationGainsByAsset']> {
+  return portfolio.assets.map((asset, a) => {
+    const gains = Array.from(gainsByAsset[a]);
+    const taxes = Array.from(taxesByAsset[a]);
+    return {
+      assetId: asset.id,
+      realizedGains: { median: percentile(gains, 50), mean: mean(gains) },
+      capitalGainsTax: { median: percentile(taxes, 50), mean: mean(taxes) },
+    };
+  });
+}
+
+/**
+ * Summarize sell strategy gains and taxes per asset across iterations
+ *
+ * @param portfolio Portfolio (for asset ids)
+ * @param sell Sell strategy buffers tracked with tax lots
+ * @param timeHorizon Number of years
+ * @param iterations Number of iterations
+ * @returns Median realised gains and taxes per asset and year
+ */
+function summarizeSellAssetTaxes(
+  portfolio: PortfolioConfig,
+  sell: SellShardData,
+  timeHorizon: number,
+  iterations: number
+): SellAssetTaxes[] {
+  return portfolio.assets.map((asset, a) => {
+    const gains = sell.realizedGainsByAsset?.[a] ?? new Float64Array(timeHorizon * iterations);
+    const taxes = sell.capitalGainsTaxesByAsset?.[a] ?? new Float64Array(timeHorizon * iterations);
+
+    // Lifetime taxes per iteration, summed across the year columns
+    const lifetimeTaxes = new Float64Array(iterations);
+    for (let year = 0; year < timeHorizon; year++) {
+      for (let i = 0; i < iterations; i++) {
+        lifetimeTaxes[i] += taxes[year * iterations + i];
+      }
+    }
+
+    return {
+      assetId: asset.id,
+      medianRealizedGains: yearlyPercentileColumns(gains, timeHorizon, iterations, [50]).map(([p]) => p),
+      medianTaxes: yearlyPercentileColumns(taxes, timeHorizon, iterations, [50]).map(([p]) => p),
+      medianTotalTax: percentile(lifetimeTaxes, 50),
+    };
+  });
+}
+
+/**
+ * Value-weighted advance rate of the current holdings
+ *
+ * @param weights Current asset weights (0-1)
+ * @param classes Collateral class of each asset
+ * @param limits Advance rate by collateral class
+ * @returns Effective LTV limit (0-1)
+ */
+function blendedAdvanceRate(
+  weights: number[],
+  classes: AssetHolding['assetClass'][],
+  limits: LTVByAssetClass
+): number {
+  return getEffectiveLTV(
+    { assets: weights.map((value, a) => ({ value, assetClass: classes[a] })) },
+    limits
+  );
+}
+
+/**
+ * Percentiles of the effective LTV limit by year
+ */
+function summarizeEffectiveLTV(
+  effectiveLTVs: Float64Array,
+  timeHorizon: number,
+  iterations: number
+): NonNullable<SBLOCTrajectory['effectiveLTV']> {
+  const byYear = yearlyPercentileColumns(effectiveLTVs, timeHorizon, iterations, [10, 50, 90]);
+  return {
+    p10: byYear.map(values => values[0]),
+    p50: byYear.map(values => values[1]),
+    p90: byYear.map(values => values[2]),
+  };
+}
+
+/**
+ * Distribution of the SBLOC rate charged by year
+ */
+function summarizeInterestRates(
+  interestRates: Float64Array,
+  timeHorizon: number,
+  iterations: number
+): NonNullable<SBLOCTrajectory['interestRate']> {
+  const byYear = yearlyPercentileColumns(interestRates, timeHorizon, iterations, [10, 50, 90]);
+  return {
+    p10: byYear.map(values => values[0]),
+    p50: byYear.map(values => values[1]),
+    p90: byYear.map(values => values[2]),
+    mean: byYear.map((_, year) => mean(interestRates.subarray(year * iterations, (year + 1) * iterations))),
+  };
+}
+
+/**
+ * Estate and inheritance tax outcome of one strategy across iterations
+ */
+function summarizeEstateTax(
+  estates: ArrayLike<number>,
+  estateTax: EstateTaxConfig,
+  indexation: number
+): EstateTaxSummary {
+  const netToHeirs: number[] = [];
+  const federalTaxes: number[] = [];
+  const stateTaxes: number[] = [];
+  let taxedCount = 0;
+
+  for (let i = 0; i < estates.length; i++) {
+    const result = calculateEstateTax(estates[i], estateTax, indexation);
+    netToHeirs.push(result.netToHeirs);
+    federalTaxes.push(result.federalTax);
+    stateTaxes.push(result.stateTax);
+    if (result.totalTax > 0) taxedCount++;
+  }
+
+  return {
+    netToHeirs: {
+      p10: percentile(netToHeirs, 10),
+      p25: percentile(netToHeirs, 25),
+      p50: percentile(netToHeirs, 50),
+      p75: percentile(netToHeirs, 75),
+      p90: percentile(netToHeirs, 90),
+    },
+    medianFederalTax: percentile(federalTaxes, 50),
+    medianStateTax: percentile(stateTaxes, 50),
+    taxableProbability: estates.length > 0 ? (taxedCount / estates.length) * 100 : 0,
+  };
+}
+
 /**
  * Calculate summary statistics from terminal values
  */
 function calculateStatistics(
-  values: number[],
+  values: Float64Array,
   initialValue: number
 ): SimulationStatistics {
   const successCount = values.filter(v => v > initialValue).length;
@@ -975,16 +2043,12 @@ function calculateStatistics(
  * See extractPathCoherentPercentiles for PATH-COHERENT alternative.
  */
 function calculateYearlyPercentiles(
-  yearlyValues: number[][]
+  yearlyValues: Float64Array,
+  timeHorizon: number,
+  iterations: number
 ): YearlyPercentiles[] {
-  return yearlyValues.map((values, year) => ({
-    year: year + 1,
-    p10: percentile(values, 10),
-    p25: percentile(values, 25),
-    p50: percentile(values, 50),
-    p75: percentile(values, 75),
-    p90: percentile(values, 90),
-  }));
+  return yearlyPercentileColumns(yearlyValues, timeHorizon, iterations, BAND_PERCENTILES)
+    .map(([p10, p25, p50, p75, p90], year) => ({ year: year + 1, p10, p25, p50, p75, p90 }));
 }
 
 /**
@@ -999,6 +2063,8 @@ interface PathCoherentResult {
     p50: number;
     p75: number;
     p90: number;
+    /** Lowest terminal value */
+    worst: number;
   };
 }
 
@@ -1013,31 +2079,29 @@ interface PathCoherentResult {
  * Result: Each percentile line represents ONE coherent simulation path,
  * not a cross-section of different simulations at each year.
  *
- * @param yearlyValues 2D array [year][iteration] of portfolio values
+ * @param yearlyValues Year-major portfolio values [year * iterations + iteration]
  * @param terminalValues Final net worth for each iteration
  * @returns Object with percentile paths and simulation indices
  */
 function extractPathCoherentPercentiles(
-  yearlyValues: number[][],
-  terminalValues: Float64Array | number[]
+  yearlyValues: Float64Array,
+  terminalValues: Float64Array
 ): PathCoherentResult {
   const iterations = terminalValues.length;
-  const years = yearlyValues.length;
+  const years = iterations > 0 ? yearlyValues.length / iterations : 0;
 
-  // Create array of [iteration index, terminal value] pairs
-  const rankedSimulations = Array.from(terminalValues)
-    .map((value, index) => ({ index, terminalValue: value }))
-    // Filter out invalid values (NaN, Infinity)
-    .filter(s => isFinite(s.terminalValue))
-    // Sort by terminal value (lowest to highest)
-    .sort((a, b) => a.terminalValue - b.terminalValue);
+  // Rank iteration indices by terminal value (lowest to highest),
+  // filtering out invalid values (NaN, Infinity)
+  const rankedSimulations = Array.from({ length: iterations }, (_, index) => index)
+    .filter(index => isFinite(terminalValues[index]))
+    .sort((a, b) => terminalValues[a] - terminalValues[b]);
 
   const n = rankedSimulations.length;
 
   // Find simulation index for each percentile
   const getPercentileIndex = (p: number) => {
     const rank = Math.min(Math.floor((p / 100) * n), n - 1);
-    return rankedSimulations[rank].index;
+    return rankedSimulations[rank];
   };
 
   const simulationIndices = {
@@ -1046,37 +2110,43 @@ function extractPathCoherentPercentiles(
     p50: getPercentileIndex(50),
     p75: getPercentileIndex(75),
     p90: getPercentileIndex(90),
+    worst: rankedSimulations[0],
   };
 
   // Extract complete paths for each percentile
   const percentiles: YearlyPercentiles[] = [];
 
   for (let year = 0; year < years; year++) {
+    const offset = year * iterations;
     percentiles.push({
       year: year + 1,
-      p10: yearlyValues[year][simulationIndices.p10],
-      p25: yearlyValues[year][simulationIndices.p25],
-      p50: yearlyValues[year][simulationIndices.p50],
-      p75: yearlyValues[year][simulationIndices.p75],
-      p90: yearlyValues[year][simulationIndices.p90],
+      p10: yearlyValues[offset + simulationIndices.p10],
+      p25: yearlyValues[offset + simulationIndices.p25],
+      p50: yearlyValues[offset + simulationIndices.p50],
+      p75: yearlyValues[offset + simulationIndices.p75],
+      p90: yearlyValues[offset + simulationIndices.p90],
     });
   }
 
   console.log('[MC] Path-coherent percentiles extracted');
-  console.log(`[MC]   P10 from simulation #${simulationIndices.p10} (terminal: $${rankedSimulations.find(s => s.index === simulationIndices.p10)?.terminalValue.toFixed(0)})`);
-  console.log(`[MC]   P50 from simulation #${simulationIndices.p50} (terminal: $${rankedSimulations.find(s => s.index === simulationIndices.p50)?.terminalValue.toFixed(0)})`);
-  console.log(`[MC]   P90 from simulation #${simulationIndices.p90} (terminal: $${rankedSimulations.find(s => s.index === simulationIndices.p90)?.terminalValue.toFixed(0)})`);
+  console.log(`[MC]   P10 from simulation #${simulationIndices.p10} (terminal: $${terminalValues[simulationIndices.p10]?.toFixed(0)})`);
+  console.log(`[MC]   P50 from simulation #${simulationIndices.p50} (terminal: $${terminalValues[simulationIndices.p50]?.toFixed(0)})`);
+  console.log(`[MC]   P90 from simulation #${simulationIndices.p90} (terminal: $${terminalValues[simulationIndices.p90]?.toFixed(0)})`);
 
   return { percentiles, simulationIndices };
 }
 
 /**
  * Compute margin call statistics by year
+ *
+ * When first margin call months are provided (monthly runs), each year also
+ * gets the probability of the first call landing in each of its 12 months.
  */
 function computeMarginCallStats(
-  marginCallYears: number[],
+  marginCallYears: Float64Array,
   timeHorizon: number,
-  iterations: number
+  iterations: number,
+  marginCallMonths?: Float64Array
 ): MarginCallStats[] {
   const stats: MarginCallStats[] = [];
 
@@ -1084,11 +2154,23 @@ function computeMarginCallStats(
     const callsThisYear = marginCallYears.filter(y => y === year).length;
     const callsByYear = marginCallYears.filter(y => y > 0 && y <= year).length;
 
-    stats.push({
+    const yearStats: MarginCallStats = {
       year,
       probability: (callsThisYear / iterations) * 100,
       cumulativeProbability: (callsByYear / iterations) * 100,
-    });
+    };
+
+    if (marginCallMonths) {
+      const callsByMonth = new Array(MONTHS_PER_YEAR).fill(0);
+      for (let i = 0; i < marginCallYears.length; i++) {
+        if (marginCallYears[i] === year && marginCallMonths[i] >= 0) {
+          callsByMonth[marginCallMonths[i]]++;
+        }
+      }
+      yearStats.monthlyProbability = callsByMonth.map(count => (count / iterations) * 100);
+    }
+
+    stats.push(yearStats);
   }
 
   return stats;
@@ -0,0 +1,177 @@
+/**
+ * Monthly Return Paths
+ *
+ * Generates month-by-month asset returns for the monthly simulation mode
+ * (SimulationConfig.timeStep = 'monthly').
+ *
+ * Three sources of monthly paths:
+ * - Monthly models: the regime and fat-tail models draw every month from their
+ *   annual parameters scaled to a month (see monthlyLogParams), with regime
+ *   transitions taken month by month.
+ * - Monthly history: when every asset carries at least MIN_MONTHLY_HISTORY
+ *   historical monthly returns, the bootstrap methods resample real months
+ *   (same calendar month for all assets, preserving cross-asset correlation).
+ * - Bridged annual draws: otherwise each bootstrapped annual return is split into
+ *   12 monthly returns by a Brownian bridge. The 12 months compound exactly to
+ *   the annual draw, so the annual distribution of every return model is
+ *   unchanged, but the path in between has realistic intra-year volatility.
+ *   A 2008/2020-style year can therefore fall 30% by spring and still close
+ *   the year roughly flat.
+ */
+
+import { stddev, choleskyDecomposition, normalRandom } from '../math';
+import type { AssetConfig } from './types';
+
+/** Months per simulated year */
+export const MONTHS_PER_YEAR = 12;
+
+/** Minimum monthly returns per asset before the bootstrap resamples real months */
+export const MIN_MONTHLY_HISTORY = 24;
+
+/** Monthly log-return volatility used when an asset has no usable history (~20% annual) */
+const FALLBACK_MONTHLY_VOLATILITY = 0.2 / Math.sqrt(MONTHS_PER_YEAR);
+
+/** Floor for simulated returns (a position cannot lose more than 100%) */
+const MIN_RETURN = -0.99;
+
+/**
+ * Whether every asset has enough monthly history to resample real months
+ *
+ * @param assets Portfolio assets
+ * @returns True if all assets have at least MIN_MONTHLY_HISTORY monthly returns
+ */
+export function hasMonthlyHistory(assets: AssetConfig[]): boolean {
+  return assets.length > 0 &&
+    assets.every(asset => (asset.monthlyReturns?.length ?? 0) >= MIN_MONTHLY_HISTORY);
+}
+
+/**
+ * Estimate an asset's monthly log-return volatility
+ *
+ * Uses the asset's monthly history when available; otherwise scales the
+ * annual log-return volatility by 1/sqrt(12).
+ *
+ * @param asset Asset configuration
+ * @returns Standard deviation of monthly log returns
+ */
+export function estimateMonthlyVolatility(asset: AssetConfig): number {
+  const monthly = asset.monthlyReturns ?? [];
+  if (monthly.length >= MIN_MONTHLY_HISTORY) {
+    return stddev(monthly.map(r => Math.log(1 + Math.max(MIN_RETURN, r))));
+  }
+
+  const annual = asset.historicalReturns;
+  if (annual.length < 2) {
+    return FALLBACK_MONTHLY_VOLATILITY;
+  }
+  return stddev(annual.map(r => Math.log(1 + Math.max(MIN_RETURN, r)))) / Math.sqrt(MONTHS_PER_YEAR);
+}
+
+/**
+ * Monthly log-return mean and volatility for an annual return distribution
+ *
+ * Fits a lognormal distribution to the annual mean and standard deviation of
+ * simple returns and spreads it evenly over 12 months, so 12 compounded
+ * monthly draws have the annual mean and standard deviation.
+ *
+ * @param annualMean Mean annual simple return (e.g., 0.08)
+ * @param annualStddev Standard deviation of annual simple returns
+ * @returns Mean and standard deviation of monthly log returns
+ */
+export function monthlyLogParams(
+  annualMean: number,
+  annualStddev: number
+): { mean: number; stddev: number } {
+  const growth = 1 + Math.max(MIN_RETURN, annualMean);
+  const logVariance = Math.log(1 + (annualStddev * annualStddev) / (growth * growth));
+  return {
+    mean: (Math.log(growth) - logVariance / 2) / MONTHS_PER_YEAR,
+    stddev: Math.sqrt(logVariance / MONTHS_PER_YEAR),
+  };
+}
+
+/**
+ * Split annual returns into monthly returns with a Brownian bridge
+ *
+ * For each year, correlated monthly log-return shocks are drawn, de-meaned
+ * within the year and shifted so the 12 months sum to the annual log return.
+ * Compounding the result reproduces the annual return exactly.
+ *
+ * @param annualReturns Annual returns per asset [asset][year]
+ * @param monthlyVolatility Monthly log-return volatility per asset
+ * @param correlationMatrix Asset correlation matrix (NxN)
+ * @param rng Random number generator (0-1)
+ * @returns Monthly returns per asset [asset][year * 12 + month]
+ * @throws Error if the correlation matrix is not positive-definite
+ */
+export function bridgeAnnualReturns(
+  annualReturns: number[][],
+  monthlyVolatility: number[],
+  correlationMatrix: number[][],
+  rng: () => number = Math.random
+): number[][] {
+  const numAssets = annualReturns.length;
+  const years = numAssets > 0 ? annualReturns[0].length : 0;
+  const L = choleskyDecomposition(correlationMatrix);
+  if (L === null) {
+    throw new Error('Invalid correlation matrix: not positive-definite');
+  }
+
+  const monthly: number[][] = annualReturns.map(() => new Array(years * MONTHS_PER_YEAR));
+  const shocks: number[][] = Array.from({ length: numAssets }, () => new Array(MONTHS_PER_YEAR));
+  const z: number[] = new Array(numAssets);
+
+  for (let year = 0; year < years; year++) {
+    // Correlated standard normal shocks for each month
+    for (let month = 0; month < MONTHS_PER_YEAR; month++) {
+      for (let j = 0; j < numAssets; j++) {
+        z[j] = normalRandom(0, 1, rng);
+      }
+      for (let i = 0; i < numAssets; i++) {
+        let value = 0;
+        for (let j = 0; j <= i; j++) {
+          value += L[i][j] * z[j];
+        }
+        shocks[i][month] = value;
+      }
+    }
+
+    for (let asset = 0; asset < numAssets; asset++) {
+      const annualLog = Math.log(1 + Math.max(MIN_RETURN, annualReturns[asset][year]));
+      const drift = annualLog / MONTHS_PER_YEAR;
+      // Exact mean (not the rounded statistics helper) so the months compound to the annual return
+      let shockSum = 0;
+      for (let month = 0; month < MONTHS_PER_YEAR; month++) {
+        shockSum += shocks[asset][month];
+      }
+      const shockMean = shockSum / MONTHS_PER_YEAR;
+      const vol = monthlyVolatility[asset];
+
+      for (let month = 0; month < MONTHS_PER_YEAR; month++) {
+        const logReturn = drift + vol * (shocks[asset][month] - shockMean);
+        monthly[asset][year * MONTHS_PER_YEAR + month] = Math.exp(logReturn) - 1;
+      }
+    }
+  }
+
+  return monthly;
+}
+
+/**
+ * Compound monthly returns into one return per year
+ *
+ * @param monthlyReturns Monthly returns (length must be a multiple of 12)
+ * @returns Annual returns, one per 12 months
+ */
+export function compoundMonthlyToAnnual(monthlyReturns: number[]): number[] {
+  const years = Math.floor(monthlyReturns.length / MONTHS_PER_YEAR);
+  const annual: number[] = new Array(years);
+  for (let year = 0; year < years; year++) {
+    let growth = 1;
+    for (let month = 0; month < MONTHS_PER_YEAR; month++) {
+      growth *= 1 + monthlyReturns[year * MONTHS_PER_YEAR + month];
+    }
+    annual[year] = growth - 1;
+  }
+  return annual;
+}
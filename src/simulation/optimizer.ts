@@ -0,0 +1,318 @@
+/**
+ * Portfolio Optimizer
+ *
+ * Computes the long-only mean-variance efficient frontier of the selected
+ * assets from their historical returns and correlation matrix, then scores
+ * each frontier portfolio for Buy-Borrow-Die with a short Monte Carlo run:
+ * the BBD optimum is the frontier portfolio with the highest median terminal
+ * net worth whose margin call probability stays within a cap.
+ *
+ * Frontier portfolios are solved exactly by enumerating the assets held
+ * (the active set) and solving the equality-constrained problem on each,
+ * which is fast for the handful of assets a portfolio holds.
+ */
+
+import { mean, stddev } from '../math';
+import { runMonteCarlo } from './monte-carlo';
+import type {
+  FrontierPoint,
+  OptimizerConfig,
+  OptimizerResult,
+  PortfolioConfig,
+  SimulationConfig,
+} from './types';
+
+/**
+ * Most assets the optimizer will enumerate holdings for (2^n subsets)
+ */
+export const MAX_OPTIMIZER_ASSETS = 12;
+
+/**
+ * Default number of frontier portfolios
+ */
+const DEFAULT_FRONTIER_POINTS = 15;
+
+/**
+ * Default iterations of each evaluation run
+ */
+const DEFAULT_OPTIMIZER_ITERATIONS = 500;
+
+/**
+ * Weights below this are treated as zero when checking feasibility
+ */
+const WEIGHT_TOLERANCE = 1e-9;
+
+/**
+ * Expected returns and covariance of the portfolio's assets
+ */
+export interface AssetMoments {
+  /** Mean annual return per asset */
+  means: number[];
+  /** Annual return covariance matrix */
+  covariance: number[][];
+}
+
+/**
+ * Estimate asset moments from historical returns and the correlation matrix
+ *
+ * @param portfolio Portfolio with assets and correlations
+ * @returns Means and covariance in asset order
+ */
+export function assetMoments(portfolio: PortfolioConfig): AssetMoments {
+  const means = portfolio.assets.map(a => mean(a.historicalReturns));
+  const vols = portfolio.assets.map(a => stddev(a.historicalReturns));
+  const covariance = vols.map((vi, i) =>
+    vols.map((vj, j) => (portfolio.correlationMatrix[i]?.[j] ?? (i === j ? 1 : 0)) * vi * vj)
+  );
+  return { means, covariance };
+}
+
+/**
+ * Expected return and volatility of a weighted portfolio
+ */
+export function portfolioMoments(
+  weights: number[],
+  moments: AssetMoments
+): { expectedReturn: number; volatility: number } {
+  let expectedReturn = 0;
+  let variance = 0;
+  for (let i = 0; i < weights.length; i++) {
+    expectedReturn += weights[i] * moments.means[i];
+    for (let j = 0; j < weights.length; j++) {
+      variance += weights[i] * weights[j] * moments.covariance[i][j];
+    }
+  }
+  return { expectedReturn, volatility: Math.sqrt(Math.max(0, variance)) };
+}
+
+/**
+ * Solve Ax = b by Gaussian elimination with partial pivoting
+ *
+ * @returns Solution, or null if A is singular
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let acc = m[row][n];
+    for (let k = row + 1; k < n; k++) acc -= m[row][k] * x[k];
+    x[row] = acc / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Minimum-variance weights holding only the assets in `support`
+ *
+ * Solves the KKT system for fully invested weights (and, with a target,
+ * the given expected return). Returns null when the system is singular or
+ * the solution would need a short position.
+ */
+function minVarianceOnSupport(
+  moments: AssetMoments,
+  support: number[],
+  targetReturn?: number
+): number[] | null {
+  const k = support.length;
+  const constraints = targetReturn === undefined ? 1 : 2;
+  const size = k + constraints;
+  const a = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const b = new Array<number>(size).fill(0);
+
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j < k; j++) {
+      a[i][j] = 2 * moments.covariance[support[i]][support[j]];
+    }
+    a[i][k] = a[k][i] = 1;
+    if (targetReturn !== undefined) {
+      a[i][k + 1] = a[k + 1][i] = moments.means[support[i]];
+    }
+  }
+  b[k] = 1;
+  if (targetReturn !== undefined) b[k + 1] = targetReturn;
+
+  const solution = solveLinearSystem(a, b);
+  if (!solution || solution.slice(0, k).some(w => w < -WEIGHT_TOLERANCE)) return null;
+
+  const weights = new Array<number>(moments.means.length).fill(0);
+  support.forEach((asset, i) => {
+    weights[asset] = Math.max(0, solution[i]);
+  });
+  return weights;
+}
+
+/**
+ * Long-only minimum-variance weights over every possible set of holdings
+ *
+ * @param candidates Assets that may be held (default: all)
+ */
+function minVariance(
+  moments: AssetMoments,
+  targetReturn?: number,
+  candidates: number[] = moments.means.map((_, i) => i)
+): number[] | null {
+  let best: number[] | null = null;
+  let bestVariance = Infinity;
+
+  for (let mask = 1; mask < 1 << candidates.length; mask++) {
+    const support = candidates.filter((_, i) => mask & (1 << i));
+    const weights = minVarianceOnSupport(moments, support, targetReturn);
+    if (!weights) continue;
+
+    const { volatility } = portfolioMoments(weights, moments);
+    if (volatility * volatility < bestVariance) {
+      bestVariance = volatility * volatility;
+      best = weights;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Long-only efficient frontier
+ *
+ * Runs from the global minimum-variance portfolio to the highest-return
+ * asset in evenly spaced expected return steps.
+ *
+ * @param moments Asset means and covariance
+ * @param points Number of frontier portfolios
+ * @returns Weights per frontier portfolio, in ascending expected return
+ * @throws Error if there are no assets or more than MAX_OPTIMIZER_ASSETS
+ */
+export function efficientFrontier(moments: AssetMoments, points: number = DEFAULT_FRONTIER_POINTS): number[][] {
+  const n = moments.means.length;
+  if (n === 0) {
+    throw new Error('Optimizer needs at least one asset');
+  }
+  if (n > MAX_OPTIMIZER_ASSETS) {
+    throw new Error(`Optimizer supports at most ${MAX_OPTIMIZER_ASSETS} assets`);
+  }
+
+  const globalMin = minVariance(moments);
+  if (!globalMin) {
+    throw new Error('Optimizer could not find a minimum-variance portfolio');
+  }
+
+  const minReturn = portfolioMoments(globalMin, moments).expectedReturn;
+  const maxReturn = Math.max(...moments.means);
+  const count = Math.max(2, Math.floor(points));
+  if (maxReturn - minReturn < 1e-9) return [globalMin];
+
+  // The top of the frontier holds only the highest-return assets
+  const topAssets = moments.means
+    .map((m, i) => (maxReturn - m < 1e-12 ? i : -1))
+    .filter(i => i >= 0);
+  const top = minVariance(moments, undefined, topAssets)!;
+
+  const frontier = [globalMin];
+  for (let step = 1; step < count - 1; step++) {
+    const target = minReturn + ((maxReturn - minReturn) * step) / (count - 1);
+    const weights = minVariance(moments, target);
+    if (weights) frontier.push(weights);
+  }
+  frontier.push(top);
+  return frontier;
+}
+
+/**
+ * Compute the efficient frontier and score it for Buy-Borrow-Die
+ *
+ * Each frontier portfolio and the current weights are simulated with the
+ * base configuration at reduced iterations and one shared seed, so they are
+ * compared on the same market paths.
+ *
+ * @param config Base configuration (SBLOC settings drive margin call risk)
+ * @param portfolio Portfolio with assets, current weights and correlations
+ * @param options Margin call cap, frontier size and evaluation iterations
+ * @param onProgress Optional progress callback (0-100 percent across all runs)
+ * @param signal Optional abort signal
+ * @returns Frontier with simulated metrics and the BBD optimum
+ * @throws Error if the margin call cap is out of range or the asset count is unsupported
+ *
+ * @example
+ * ```typescript
+ * const result = await runPortfolioOptimizer(config, portfolio, { marginCallCap: 10 });
+ * if (result.bbdOptimalIndex !== null) {
+ *   const weights = result.frontier[result.bbdOptimalIndex].weights;
+ * }
+ * ```
+ */
+export async function runPortfolioOptimizer(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  options: OptimizerConfig,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizerResult> {
+  if (options.marginCallCap < 0 || options.marginCallCap > 100) {
+    throw new Error('Margin call cap must be between 0 and 100');
+  }
+
+  const moments = assetMoments(portfolio);
+  const frontierWeights = efficientFrontier(moments, options.points);
+  const currentWeights = portfolio.assets.map(a => a.weight);
+  const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_OPTIMIZER_ITERATIONS));
+  const seed = config.seed ?? Date.now().toString();
+  const runConfig = { ...config, iterations, seed, convergence: undefined };
+  const total = frontierWeights.length + 1;
+  let completed = 0;
+
+  const evaluate = async (weights: number[]): Promise<FrontierPoint> => {
+    const output = await runMonteCarlo(
+      runConfig,
+      { ...portfolio, assets: portfolio.assets.map((a, i) => ({ ...a, weight: weights[i] })) },
+      onProgress && ((percent) => onProgress(((completed + percent / 100) / total) * 100)),
+      signal
+    );
+    completed++;
+    const marginCalls = output.marginCallStats;
+    return {
+      weights,
+      ...portfolioMoments(weights, moments),
+      medianNetWorth: output.statistics.median,
+      marginCallProbability: marginCalls?.[marginCalls.length - 1]?.cumulativeProbability ?? 0,
+    };
+  };
+
+  const frontier: FrontierPoint[] = [];
+  for (const weights of frontierWeights) {
+    frontier.push(await evaluate(weights));
+  }
+  const current = await evaluate(currentWeights);
+
+  let bbdOptimalIndex: number | null = null;
+  frontier.forEach((point, index) => {
+    if (point.marginCallProbability > options.marginCallCap) return;
+    if (bbdOptimalIndex === null || point.medianNetWorth > frontier[bbdOptimalIndex].medianNetWorth) {
+      bbdOptimalIndex = index;
+    }
+  });
+
+  onProgress?.(100);
+  return {
+    assetIds: portfolio.assets.map(a => a.id),
+    frontier,
+    current,
+    bbdOptimalIndex,
+    marginCallCap: options.marginCallCap,
+    iterations,
+    seed,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Rebalancing Policies
+ *
+ * Tracks portfolio weights as they drift with asset returns and decides
+ * when a rebalancing policy (SimulationConfig.rebalancing) resets them to
+ * the target allocation.
+ *
+ * Each simulated year is divided into rebalancing periods:
+ * - Monthly time step: 12 periods (the simulated months)
+ * - Annual time step: 1 period, or 4 for quarterly rebalancing, with each
+ *   asset's annual return split into 4 equal compounding quarters
+ *
+ * Weights drift within a year and are checked at every period end. With the
+ * default policy (annual, no cost) and annual time steps, every year starts
+ * at the target weights, which reproduces the constant-mix returns of
+ * simulations configured before rebalancing policies existed.
+ */
+
+import { MONTHS_PER_YEAR } from './monthly-returns';
+import { DEFAULT_REBALANCING } from './types';
+import type { RebalancingConfig, TimeStep } from './types';
+
+/** Quarters per simulated year */
+const QUARTERS_PER_YEAR = 4;
+
+/**
+ * Fill in defaults for a rebalancing configuration
+ *
+ * @param config Rebalancing configuration (undefined = DEFAULT_REBALANCING)
+ * @returns Complete rebalancing configuration
+ */
+export function resolveRebalancing(config?: RebalancingConfig): Required<RebalancingConfig> {
+  return {
+    strategy: config?.strategy ?? DEFAULT_REBALANCING.strategy,
+    thresholdBand: config?.thresholdBand ?? DEFAULT_REBALANCING.thresholdBand,
+    transactionCost: config?.transactionCost ?? DEFAULT_REBALANCING.transactionCost,
+  };
+}
+
+/**
+ * Number of rebalancing periods per simulated year
+ *
+ * @param policy Rebalancing configuration
+ * @param timeStep Simulation time step
+ * @returns 12 for monthly steps, 4 for quarterly rebalancing on annual steps, otherwise 1
+ */
+export function rebalancingPeriodsPerYear(
+  policy: RebalancingConfig,
+  timeStep: TimeStep = 'annual'
+): number {
+  if (timeStep === 'monthly') {
+    return MONTHS_PER_YEAR;
+  }
+  return policy.strategy === 'quarterly' ? QUARTERS_PER_YEAR : 1;
+}
+
+/**
+ * Split an annual return into equal compounding periods
+ *
+ * @param annualReturn Annual return (e.g., 0.10 for 10%)
+ * @param periods Number of periods
+ * @returns Per-period return that compounds to the annual return
+ */
+export function splitAnnualReturn(annualReturn: number, periods: number): number {
+  if (periods === 1) {
+    return annualReturn;
+  }
+  return Math.pow(Math.max(0, 1 + annualReturn), 1 / periods) - 1;
+}
+
+/**
+ * Apply one period of asset returns to the portfolio weights
+ *
+ * Weights are updated in place to the post-return allocation. If the
+ * portfolio is wiped out the weights are left unchanged.
+ *
+ * @param weights Current weights (0-1, sum to 1), updated in place
+ * @param periodReturns Return of each asset for the period
+ * @returns Portfolio return for the period
+ */
+export function driftWeights(weights: number[], periodReturns: number[]): number {
+  let portfolioReturn = 0;
+  for (let a = 0; a < weights.length; a++) {
+    portfolioReturn += weights[a] * periodReturns[a];
+  }
+
+  const growth = 1 + portfolioReturn;
+  if (growth > 0) {
+    for (let a = 0; a < weights.length; a++) {
+      weights[a] = weights[a] * (1 + periodReturns[a]) / growth;
+    }
+  }
+
+  return portfolioReturn;
+}
+
+/**
+ * Whether the policy rebalances at the end of a period
+ *
+ * @param weights Current (drifted) weights
+ * @param targetWeights Target weights
+ * @param policy Rebalancing configuration
+ * @param periodIndex Period within the year (0-based)
+ * @param periodsPerYear Rebalancing periods per year
+ * @returns True if the weights should be reset to target
+ */
+export function isRebalanceDue(
+  weights: number[],
+  targetWeights: number[],
+  policy: Required<RebalancingConfig>,
+  periodIndex: number,
+  periodsPerYear: number
+): boolean {
+  switch (policy.strategy) {
+    case 'none':
+      return false;
+    case 'annual':
+      return periodIndex === periodsPerYear - 1;
+    case 'quarterly': {
+      const periodsPerQuarter = Math.max(1, Math.round(periodsPerYear / QUARTERS_PER_YEAR));
+      return (periodIndex + 1) % periodsPerQuarter === 0;
+    }
+    case 'threshold':
+      return weights.some((w, a) => Math.abs(w - targetWeights[a]) > policy.thresholdBand);
+  }
+}
+
+/**
+ * Reset weights to target
+ *
+ * @param weights Current weights, overwritten with the targets
+ * @param targetWeights Target weights
+ * @returns Turnover: fraction of the portfolio sold (equal to the fraction bought)
+ */
+export function rebalanceWeights(weights: number[], targetWeights: number[]): number {
+  let traded = 0;
+  for (let a = 0; a < weights.length; a++) {
+    traded += Math.abs(weights[a] - targetWeights[a]);
+    weights[a] = targetWeights[a];
+  }
+  return traded / 2;
+}
@@ -29,6 +29,7 @@ import {
   REGIME_CONFIG,
   getRegimeMultipliers,
 } from './types';
+import { MONTHS_PER_YEAR, monthlyLogParams } from './monthly-returns';
 
 /**
  * Result of regime-switching return generation
@@ -312,3 +313,125 @@ export function generateCorrelatedRegimeReturns(
 
   return { returns, regimes };
 }
+
+/**
+ * Convert an annual transition matrix to monthly transitions
+ *
+ * Each regime's monthly probability of staying is its annual probability to
+ * the power 1/12, so the chance of a regime lasting a whole year is unchanged.
+ * The monthly exits are split in proportion to the annual ones.
+ *
+ * @param matrix Annual transition matrix
+ * @returns Monthly transition matrix
+ */
+export function monthlyTransitionMatrix(matrix: TransitionMatrix): TransitionMatrix {
+  const regimes: MarketRegime[] = ['bull', 'bear', 'crash', 'recovery'];
+  const monthly = {} as TransitionMatrix;
+
+  for (const from of regimes) {
+    const row = matrix[from];
+    const stay = Math.pow(row[from], 1 / MONTHS_PER_YEAR);
+    const annualExit = 1 - row[from];
+    const monthlyRow = { bull: 0, bear: 0, crash: 0, recovery: 0 };
+    for (const to of regimes) {
+      monthlyRow[to] = to === from
+        ? stay
+        : annualExit > 0 ? row[to] * (1 - stay) / annualExit : 0;
+    }
+    monthly[from] = monthlyRow;
+  }
+
+  return monthly;
+}
+
+/**
+ * Generate correlated monthly returns across multiple assets using regime model
+ *
+ * The regime changes month by month (see monthlyTransitionMatrix) and each
+ * month's return is drawn from its regime's annual distribution scaled to a
+ * month (see monthlyLogParams). A regime can therefore start or end mid-year,
+ * and a crash shows up as the months it lasts rather than as a smoothed year.
+ *
+ * Annual regime parameters follow generateCorrelatedRegimeReturns: the
+ * multiplier-based approach when assetHistoricalStats is given, otherwise
+ * DEFAULT_REGIME_PARAMS shared by all assets.
+ *
+ * @param years Number of years to generate
+ * @param numAssets Number of assets in portfolio
+ * @param correlationMatrix Asset correlation matrix (from historical data)
+ * @param rng Random number generator
+ * @param initialRegime Starting regime
+ * @param calibrationMode Mode for regime multipliers and survivorship bias (default: 'historical')
+ * @param assetHistoricalStats Per-asset historical statistics for multiplier approach
+ * @returns Monthly returns [asset][year * 12 + month] and the regime that held
+ *   for most of each year
+ */
+export function generateCorrelatedMonthlyRegimeReturns(
+  years: number,
+  numAssets: number,
+  correlationMatrix: number[][],
+  rng: () => number,
+  initialRegime: MarketRegime = 'bull',
+  calibrationMode: RegimeCalibrationMode = 'historical',
+  assetHistoricalStats?: AssetHistoricalStats[]
+): CorrelatedRegimeReturnsResult {
+  const regimeConfig = REGIME_CONFIG[calibrationMode];
+  const matrix = monthlyTransitionMatrix(regimeConfig.transitions);
+  const survivorshipBias = regimeConfig.survivorshipBias;
+  const months = years * MONTHS_PER_YEAR;
+  const useStats = assetHistoricalStats !== undefined && assetHistoricalStats.length === numAssets;
+
+  // Monthly log-return parameters per regime and asset
+  const regimeNames: MarketRegime[] = ['bull', 'bear', 'crash', 'recovery'];
+  const params = {} as Record<MarketRegime, { mean: number; stddev: number }[]>;
+  for (const regime of regimeNames) {
+    params[regime] = Array.from({ length: numAssets }, (_, asset) => {
+      if (useStats) {
+        const stats = assetHistoricalStats![asset];
+        const multipliers = getRegimeMultipliers(regime, stats.assetClass, calibrationMode);
+        return monthlyLogParams(
+          (stats.mean * multipliers.meanMultiplier) + multipliers.meanAdjustment - survivorshipBias,
+          stats.stddev * multipliers.volMultiplier
+        );
+      }
+      const { mean, stddev } = DEFAULT_REGIME_PARAMS[regime];
+      return monthlyLogParams(mean - survivorshipBias, stddev);
+    });
+  }
+
+  // Generate monthly regime sequence first
+  const monthlyRegimes: MarketRegime[] = [];
+  let currentRegime = initialRegime;
+  for (let month = 0; month < months; month++) {
+    monthlyRegimes.push(currentRegime);
+    currentRegime = nextRegime(currentRegime, matrix, rng);
+  }
+
+  const returns: number[][] = Array.from({ length: numAssets }, () => new Array(months));
+  for (let month = 0; month < months; month++) {
+    const monthParams = params[monthlyRegimes[month]];
+    const correlated = correlatedSamples(numAssets, correlationMatrix, rng, 0, 1);
+    for (let asset = 0; asset < numAssets; asset++) {
+      const { mean, stddev } = monthParams[asset];
+      const rawReturn = Math.exp(mean + stddev * correlated[asset]) - 1;
+      returns[asset][month] = Math.max(MIN_RETURN_CLAMP, Math.min(MAX_RETURN_CLAMP, rawReturn));
+    }
+  }
+
+  // Summarize each year by the regime of most of its months
+  const regimes: MarketRegime[] = [];
+  for (let year = 0; year < years; year++) {
+    const counts = { bull: 0, bear: 0, crash: 0, recovery: 0 };
+    let yearRegime = monthlyRegimes[year * MONTHS_PER_YEAR];
+    for (let month = 0; month < MONTHS_PER_YEAR; month++) {
+      const regime = monthlyRegimes[year * MONTHS_PER_YEAR + month];
+      counts[regime]++;
+      if (counts[regime] > counts[yearRegime]) {
+        yearRegime = regime;
+      }
+    }
+    regimes.push(yearRegime);
+  }
+
+  return { returns, regimes };
+}
@@ -0,0 +1,310 @@
+/**
+ * Deterministic Simulation Sharding
+ *
+ * Iterations are split into fixed-size shards, each drawing from its own
+ * seeded random streams. The shard layout depends only on the iteration
+ * count, so a run gives identical results whether its shards are simulated
+ * on one thread or spread across a pool of workers.
+ *
+ * Workers simulate contiguous shard ranges and return the raw per-iteration
+ * data; the ranges are merged back in shard order before post-processing.
+ * All per-iteration data lives in flat typed array buffers, which keeps
+ * memory proportional to the values stored and lets workers transfer
+ * results without copying. Values only needed as yearly percentiles are
+ * counted in fixed-bin quantile sketches instead, whose size does not grow
+ * with the iteration count and which merge exactly across shards.
+ */
+
+import { mergeSketches } from '../math';
+
+/**
+ * Iterations per shard (a multiple of the Monte Carlo batch size)
+ */
+export const SHARD_SIZE = 1000;
+
+/**
+ * Contiguous range of shards simulated together
+ */
+export interface ShardRange {
+  /** Index of the first shard */
+  first: number;
+  /** Number of shards */
+  count: number;
+}
+
+/**
+ * Raw per-iteration sell strategy results of a shard range
+ */
+export interface SellShardData {
+  /** Terminal portfolio value per iteration */
+  terminalValues: Float64Array;
+  /** Lifetime capital gains taxes per iteration */
+  capitalGainsTaxes: Float64Array;
+  /** Lifetime dividend taxes per iteration */
+  dividendTaxes: Float64Array;
+  /** Capital gains taxes from rebalancing trades per iteration */
+  rebalancingTaxes: Float64Array;
+  /** 1 where the portfolio was depleted, else 0 */
+  depleted: Uint8Array;
+  /** Quantile sketches of portfolio value, one per year from year 0 to timeHorizon inclusive */
+  yearlySketches: Uint32Array;
+  /** Capital gains realized per asset, year-major (only with tax lots): [asset][year * iterations + iteration] */
+  realizedGainsByAsset: Float64Array[] | null;
+  /** Capital gains taxes per asset, year-major (only with tax lots) */
+  capitalGainsTaxesByAsset: Float64Array[] | null;
+}
+
+/**
+ * Raw per-iteration results of a shard range
+ *
+ * Year-major arrays are laid out as [year * iterations + iteration].
+ * Fields are null when the feature that produces them is off.
+ */
+export interface ShardData {
+  /** Shards these iterations came from */
+  range: ShardRange;
+  /** Iterations in the range */
+  iterations: number;
+  /** Terminal gross portfolio value per iteration */
+  terminalValues: Float64Array;
+  /** Net worth, year-major */
+  yearlyValues: Float64Array;
+  /** Year-end weight per asset, year-major: [asset][year * iterations + iteration] */
+  yearEndWeights: Float64Array[] | null;
+  /** Rebalancing turnover, year-major */
+  yearlyTurnover: Float64Array | null;
+  /** Rebalancing trades per iteration */
+  rebalanceCounts: Float64Array | null;
+  /** Blended collateral LTV, year-major */
+  effectiveLTVs: Float64Array | null;
+  /** SBLOC interest rate, year-major */
+  interestRates: Float64Array | null;
+  /** SBLOC loan balance, year-major */
+  loanBalances: Float64Array | null;
+  /** First margin call year per iteration (-1 if none) */
+  marginCallYears: Float64Array | null;
+  /** First margin call month of year per iteration (-1 if none) */
+  marginCallMonths: Float64Array | null;
+  /** Margin calls per iteration */
+  marginCallCounts: Float64Array | null;
+  /** Haircut losses per iteration */
+  totalHaircutLosses: Float64Array | null;
+  /** Interest charged per iteration */
+  totalInterestCharged: Float64Array | null;
+  /** Dividend taxes borrowed per iteration */
+  totalDividendTaxesBorrowed: Float64Array | null;
+  /** Capital gains taxes on rebalancing trades borrowed per iteration */
+  totalRebalancingTaxesBorrowed: Float64Array | null;
+  /** Forced-sale gains: [asset][iteration] */
+  liquidationGainsByAsset: Float64Array[] | null;
+  /** Forced-sale capital gains tax: [asset][iteration] */
+  liquidationTaxesByAsset: Float64Array[] | null;
+  /** Cumulative portfolio return per iteration */
+  iterationReturns: Float64Array | null;
+  /** First failure year per iteration (-1 if never) */
+  firstFailureYear: Float64Array | null;
+  /** Sell strategy results */
+  sell: SellShardData | null;
+}
+
+/**
+ * Number of shards for an iteration count
+ */
+export function shardCount(iterations: number): number {
+  return Math.ceil(iterations / SHARD_SIZE);
+}
+
+/**
+ * Seed of one shard
+ *
+ * The first shard uses the run seed itself, so runs of up to SHARD_SIZE
+ * iterations draw the same paths as an unsharded run.
+ */
+export function shardSeed(seed: string, shard: number): string {
+  return shard === 0 ? seed : `${seed}:shard:${shard}`;
+}
+
+/**
+ * Iterations in a shard range (the last shard of a run may be partial)
+ */
+export function shardRangeIterations(range: ShardRange, iterations: number): number {
+  const start = range.first * SHARD_SIZE;
+  return Math.max(0, Math.min((range.first + range.count) * SHARD_SIZE, iterations) - start);
+}
+
+/**
+ * Split a run's shards into contiguous ranges, one per worker
+ *
+ * @param iterations Total iterations
+ * @param workers Number of workers available
+ * @returns Non-empty ranges in shard order (fewer than workers for small runs)
+ */
+export function partitionShards(iterations: number, workers: number): ShardRange[] {
+  const total = shardCount(iterations);
+  const parts = Math.max(1, Math.min(Math.floor(workers), total));
+  const ranges: ShardRange[] = [];
+  let first = 0;
+  for (let k = 0; k < parts; k++) {
+    const count = Math.floor(total / parts) + (k < total % parts ? 1 : 0);
+    ranges.push({ first, count });
+    first += count;
+  }
+  return ranges;
+}
+
+/**
+ * Concatenate per-iteration typed arrays of consecutive parts
+ */
+function concatTyped<T extends Float64Array | Uint8Array>(
+  parts: (T | null)[],
+  create: (length: number) => T
+): T | null {
+  if (parts.some(p => p === null)) return null;
+  const merged = create(parts.reduce((n, p) => n + p!.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part!, offset);
+    offset += part!.length;
+  }
+  return merged;
+}
+
+/**
+ * Interleave year-major typed arrays of consecutive parts
+ */
+function concatYearMajor(
+  parts: (Float64Array | null)[],
+  counts: number[],
+  years: number
+): Float64Array | null {
+  if (parts.some(p => p === null)) return null;
+  const iterations = counts.reduce((a, b) => a + b, 0);
+  const merged = new Float64Array(years * iterations);
+  for (let year = 0; year < years; year++) {
+    let offset = year * iterations;
+    parts.forEach((part, k) => {
+      merged.set(part!.subarray(year * counts[k], (year + 1) * counts[k]), offset);
+      offset += counts[k];
+    });
+  }
+  return merged;
+}
+
+/**
+ * Merge one typed array per asset across consecutive parts
+ */
+function concatPerAsset(
+  parts: (Float64Array[] | null)[],
+  merge: (arrays: Float64Array[]) => Float64Array | null
+): Float64Array[] | null {
+  if (parts.some(p => p === null)) return null;
+  return parts[0]!.map((_, a) => merge(parts.map(p => p![a]))!);
+}
+
+const float64 = (length: number) => new Float64Array(length);
+
+/**
+ * Merge the sell strategy results of consecutive parts
+ */
+function mergeSell(parts: (SellShardData | null)[], counts: number[], timeHorizon: number): SellShardData | null {
+  if (parts.some(p => p === null)) return null;
+  const sell = parts as SellShardData[];
+  const yearMajor = (arrays: Float64Array[]) => concatYearMajor(arrays, counts, timeHorizon);
+
+  return {
+    terminalValues: concatTyped(sell.map(p => p.terminalValues), float64)!,
+    capitalGainsTaxes: concatTyped(sell.map(p => p.capitalGainsTaxes), float64)!,
+    dividendTaxes: concatTyped(sell.map(p => p.dividendTaxes), float64)!,
+    rebalancingTaxes: concatTyped(sell.map(p => p.rebalancingTaxes), float64)!,
+    depleted: concatTyped(sell.map(p => p.depleted), length => new Uint8Array(length))!,
+    yearlySketches: mergeSketches(sell.map(p => p.yearlySketches)),
+    realizedGainsByAsset: concatPerAsset(sell.map(p => p.realizedGainsByAsset), yearMajor),
+    capitalGainsTaxesByAsset: concatPerAsset(sell.map(p => p.capitalGainsTaxesByAsset), yearMajor),
+  };
+}
+
+/**
+ * Merge shard ranges into one, in shard order
+ *
+ * @param parts Results of contiguous shard ranges (any order)
+ * @param timeHorizon Years simulated
+ * @returns Data covering every iteration, laid out as an unsharded run
+ */
+export function mergeShards(parts: ShardData[], timeHorizon: number): ShardData {
+  if (parts.length === 0) {
+    throw new Error('No shard results to merge');
+  }
+  const sorted = [...parts].sort((a, b) => a.range.first - b.range.first);
+  if (sorted.length === 1) return sorted[0];
+
+  const counts = sorted.map(p => p.iterations);
+  const yearMajor = (arrays: (Float64Array | null)[]) => concatYearMajor(arrays, counts, timeHorizon);
+  const perIteration = (arrays: (Float64Array | null)[]) => concatTyped(arrays, float64);
+
+  return {
+    range: { first: sorted[0].range.first, count: sorted.reduce((n, p) => n + p.range.count, 0) },
+    iterations: counts.reduce((a, b) => a + b, 0),
+    terminalValues: perIteration(sorted.map(p => p.terminalValues))!,
+    yearlyValues: yearMajor(sorted.map(p => p.yearlyValues))!,
+    yearEndWeights: concatPerAsset(sorted.map(p => p.yearEndWeights), yearMajor),
+    yearlyTurnover: yearMajor(sorted.map(p => p.yearlyTurnover)),
+    rebalanceCounts: perIteration(sorted.map(p => p.rebalanceCounts)),
+    effectiveLTVs: yearMajor(sorted.map(p => p.effectiveLTVs)),
+    interestRates: yearMajor(sorted.map(p => p.interestRates)),
+    loanBalances: yearMajor(sorted.map(p => p.loanBalances)),
+    marginCallYears: perIteration(sorted.map(p => p.marginCallYears)),
+    marginCallMonths: perIteration(sorted.map(p => p.marginCallMonths)),
+    marginCallCounts: perIteration(sorted.map(p => p.marginCallCounts)),
+    totalHaircutLosses: perIteration(sorted.map(p => p.totalHaircutLosses)),
+    totalInterestCharged: perIteration(sorted.map(p => p.totalInterestCharged)),
+    totalDividendTaxesBorrowed: perIteration(sorted.map(p => p.totalDividendTaxesBorrowed)),
+    totalRebalancingTaxesBorrowed: perIteration(sorted.map(p => p.totalRebalancingTaxesBorrowed)),
+    liquidationGainsByAsset: concatPerAsset(sorted.map(p => p.liquidationGainsByAsset), perIteration),
+    liquidationTaxesByAsset: concatPerAsset(sorted.map(p => p.liquidationTaxesByAsset), perIteration),
+    iterationReturns: perIteration(sorted.map(p => p.iterationReturns)),
+    firstFailureYear: perIteration(sorted.map(p => p.firstFailureYear)),
+    sell: mergeSell(sorted.map(p => p.sell), counts, timeHorizon),
+  };
+}
+
+/**
+ * Typed array buffers of a shard result, for zero-copy transfer
+ */
+export function shardTransferables(data: ShardData): ArrayBuffer[] {
+  const arrays: (Float64Array | Uint8Array | Uint32Array | null)[] = [
+    data.terminalValues,
+    data.yearlyValues,
+    data.yearlyTurnover,
+    data.rebalanceCounts,
+    data.effectiveLTVs,
+    data.interestRates,
+    data.loanBalances,
+    data.marginCallYears,
+    data.marginCallMonths,
+    data.marginCallCounts,
+    data.totalHaircutLosses,
+    data.totalInterestCharged,
+    data.totalDividendTaxesBorrowed,
+    data.totalRebalancingTaxesBorrowed,
+    data.iterationReturns,
+    data.firstFailureYear,
+    ...(data.yearEndWeights ?? []),
+    ...(data.liquidationGainsByAsset ?? []),
+    ...(data.liquidationTaxesByAsset ?? []),
+  ];
+  if (data.sell) {
+    arrays.push(
+      data.sell.terminalValues,
+      data.sell.capitalGainsTaxes,
+      data.sell.dividendTaxes,
+      data.sell.rebalancingTaxes,
+      data.sell.depleted,
+      data.sell.yearlySketches,
+      ...(data.sell.realizedGainsByAsset ?? []),
+      ...(data.sell.capitalGainsTaxesByAsset ?? [])
+    );
+  }
+  return arrays
+    .filter((a): a is Float64Array | Uint8Array | Uint32Array => a !== null)
+    .map(a => a.buffer as ArrayBuffer);
+}
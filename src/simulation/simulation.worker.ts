@@ -5,15 +5,40 @@
  * All exported functions become async on the main thread.
  *
  * Features:
- * - Non-blocking Monte Carlo simulation
+ * - Non-blocking Monte Carlo simulation, parameter sweeps, goal seek and
+ *   portfolio optimization
+ * - Shard ranges for runs split across a worker pool
+ * - Replay of single iterations for the path explorer
+ * - Historical crisis stress scenarios and rolling-window backtests
  * - Zero-copy Float64Array transfer
  * - Cancellation via AbortController
  * - Health check for worker readiness
  */
 
 import * as Comlink from 'comlink';
-import { runMonteCarlo } from './monte-carlo';
-import type { SimulationConfig, PortfolioConfig, SimulationOutput } from './types';
+import { runMonteCarlo, simulateShards, aggregateShards, tracePath } from './monte-carlo';
+import { shardTransferables, type ShardData, type ShardRange } from './sharding';
+import { runParameterSweep } from './sweep';
+import { solveForTarget } from './goal-seek';
+import { runPortfolioOptimizer } from './optimizer';
+import { runStressScenarios } from './stress';
+import { runHistoricalBacktest } from './backtest';
+import type {
+  SimulationConfig,
+  PortfolioConfig,
+  SimulationOutput,
+  SweepConfig,
+  SweepResult,
+  GoalSeekConfig,
+  GoalSeekResult,
+  OptimizerConfig,
+  OptimizerResult,
+  PathTrace,
+  StressTestConfig,
+  StressTestResult,
+  BacktestConfig,
+  BacktestResult,
+} from './types';
 
 /** Current abort controller for cancellation */
 let currentAbortController: AbortController | null = null;
@@ -24,7 +49,7 @@ let currentAbortController: AbortController | null = null;
  * @param config Simulation parameters
  * @param portfolio Portfolio configuration
  * @param onProgress Progress callback (wrapped by Comlink.proxy on main thread)
- * @returns Simulation results with transferable Float64Array
+ * @returns Simulation results with transferable Float64Arrays
  */
 export async function simulate(
   config: SimulationConfig,
@@ -42,8 +67,240 @@ export async function simulate(
       currentAbortController.signal
     );
 
-    // Transfer the Float64Array buffer for zero-copy performance
-    return Comlink.transfer(result, [result.terminalValues.buffer]);
+    // Transfer the Float64Array buffers for zero-copy performance
+    return Comlink.transfer(result, outputTransferables(result));
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Simulate a range of shards in worker
+ *
+ * @param config Simulation parameters (with the run's seed)
+ * @param portfolio Portfolio configuration
+ * @param range Shards to simulate
+ * @param onProgress Progress callback for this range (wrapped by Comlink.proxy on main thread)
+ * @returns Raw per-iteration data with transferable Float64Arrays
+ */
+export async function simulateRange(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  range: ShardRange,
+  onProgress?: (percent: number) => void
+): Promise<ShardData> {
+  currentAbortController = new AbortController();
+
+  try {
+    const data = await simulateShards(
+      config,
+      portfolio,
+      range,
+      onProgress,
+      currentAbortController.signal
+    );
+
+    return Comlink.transfer(data, shardTransferables(data));
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Merge shard ranges simulated across the pool into the simulation output
+ *
+ * @param config Simulation parameters (with the run's seed)
+ * @param portfolio Portfolio configuration
+ * @param parts Shard ranges covering every iteration
+ * @returns Simulation results with transferable Float64Arrays
+ */
+export function aggregate(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  parts: ShardData[]
+): SimulationOutput {
+  const result = aggregateShards(config, portfolio, parts);
+  return Comlink.transfer(result, outputTransferables(result));
+}
+
+/**
+ * Large buffers of a simulation output, for zero-copy transfer
+ */
+function outputTransferables(result: SimulationOutput): ArrayBuffer[] {
+  const buffers = [result.terminalValues.buffer as ArrayBuffer];
+  if (result.sellStrategy) {
+    buffers.push(result.sellStrategy.terminalValues.buffer as ArrayBuffer);
+  }
+  return buffers;
+}
+
+/**
+ * Run a parameter sweep in worker
+ *
+ * @param config Base simulation parameters
+ * @param portfolio Portfolio configuration
+ * @param sweepConfig Grid axes
+ * @param onProgress Progress callback (wrapped by Comlink.proxy on main thread)
+ * @returns Headline metrics for every grid cell
+ */
+export async function sweep(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  sweepConfig: SweepConfig,
+  onProgress?: (percent: number) => void
+): Promise<SweepResult> {
+  currentAbortController = new AbortController();
+
+  try {
+    return await runParameterSweep(
+      config,
+      portfolio,
+      sweepConfig,
+      onProgress,
+      currentAbortController.signal
+    );
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Run a goal seek in worker
+ *
+ * @param config Base simulation parameters
+ * @param portfolio Portfolio configuration
+ * @param goal Field, target and search range
+ * @param onProgress Progress callback (wrapped by Comlink.proxy on main thread)
+ * @returns Solution with its confidence interval
+ */
+export async function goalSeek(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  goal: GoalSeekConfig,
+  onProgress?: (percent: number) => void
+): Promise<GoalSeekResult> {
+  currentAbortController = new AbortController();
+
+  try {
+    return await solveForTarget(
+      config,
+      portfolio,
+      goal,
+      onProgress,
+      currentAbortController.signal
+    );
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Run the portfolio optimizer in worker
+ *
+ * @param config Base simulation parameters
+ * @param portfolio Portfolio configuration
+ * @param options Margin call cap, frontier size and evaluation iterations
+ * @param onProgress Progress callback (wrapped by Comlink.proxy on main thread)
+ * @returns Efficient frontier with the BBD optimum
+ */
+export async function optimize(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  options: OptimizerConfig,
+  onProgress?: (percent: number) => void
+): Promise<OptimizerResult> {
+  currentAbortController = new AbortController();
+
+  try {
+    return await runPortfolioOptimizer(
+      config,
+      portfolio,
+      options,
+      onProgress,
+      currentAbortController.signal
+    );
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Run historical crisis stress scenarios in worker
+ *
+ * @param config Base simulation parameters
+ * @param portfolio Portfolio whose assets carry calendar years
+ * @param stress Replay mode and crises
+ * @param onProgress Progress callback (wrapped by Comlink.proxy on main thread)
+ * @returns Baseline and per-crisis BBD and Sell results
+ */
+export async function stressTest(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  stress: StressTestConfig,
+  onProgress?: (percent: number) => void
+): Promise<StressTestResult> {
+  currentAbortController = new AbortController();
+
+  try {
+    return await runStressScenarios(
+      config,
+      portfolio,
+      stress,
+      onProgress,
+      currentAbortController.signal
+    );
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Run a historical rolling-window backtest in worker
+ *
+ * @param config Simulation parameters
+ * @param portfolio Portfolio whose assets carry calendar years
+ * @param options Edge handling
+ * @param onProgress Progress callback (wrapped by Comlink.proxy on main thread)
+ * @returns BBD and Sell outcome per historical start year
+ */
+export async function backtest(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  options: BacktestConfig,
+  onProgress?: (percent: number) => void
+): Promise<BacktestResult> {
+  currentAbortController = new AbortController();
+
+  try {
+    return await runHistoricalBacktest(
+      config,
+      portfolio,
+      options,
+      onProgress,
+      currentAbortController.signal
+    );
+  } finally {
+    currentAbortController = null;
+  }
+}
+
+/**
+ * Replay one iteration of a run in worker
+ *
+ * @param config Configuration of the run (with its seed)
+ * @param portfolio Portfolio configuration
+ * @param iteration Iteration index within the run
+ * @returns Year-by-year detail of the iteration
+ */
+export async function trace(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  iteration: number
+): Promise<PathTrace> {
+  currentAbortController = new AbortController();
+
+  try {
+    return await tracePath(config, portfolio, iteration, currentAbortController.signal);
   } finally {
     currentAbortController = null;
   }
@@ -66,4 +323,4 @@ export function healthCheck(): string {
 }
 
 // Expose for both Comlink and raw worker contexts
-Comlink.expose({ simulate, cancel, healthCheck });
+Comlink.expose({ simulate, simulateRange, aggregate, sweep, goalSeek, optimize, stressTest, backtest, trace, cancel, healthCheck });
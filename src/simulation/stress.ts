@@ -0,0 +1,200 @@
+/**
+ * Historical Stress Scenarios
+ *
+ * Replays named market crises from the portfolio's own return history to
+ * test sequence-of-returns risk. Either the crisis years open every
+ * iteration and the remaining years are resampled as usual, or history from
+ * the crisis start covers the whole horizon (a rolling window).
+ *
+ * Every scenario runs with the same seed as an unstressed baseline, so the
+ * resampled years are the same draws in every scenario and differences come
+ * from the replayed crisis alone. BBD and Sell outcomes both come from the
+ * regular Monte Carlo engine.
+ */
+
+import { runMonteCarlo } from './monte-carlo';
+import type {
+  CrisisWindow,
+  PortfolioConfig,
+  SimulationConfig,
+  SimulationOutput,
+  StressComparison,
+  StressMode,
+  StressScenarioResult,
+  StressTestConfig,
+  StressTestResult,
+} from './types';
+
+/**
+ * Crises replayed by default
+ */
+export const CRISIS_WINDOWS: CrisisWindow[] = [
+  { id: 'dot-com', name: 'Dot-com Crash', startYear: 2000, endYear: 2002 },
+  { id: 'gfc', name: 'Global Financial Crisis', startYear: 2008, endYear: 2008 },
+  { id: 'lost-decade', name: 'Lost Decade', startYear: 2000, endYear: 2009 },
+  { id: 'rate-shock', name: '2022 Rate Shock', startYear: 2022, endYear: 2022 },
+];
+
+/**
+ * Returns of the calendar years every asset has data for
+ */
+export interface CommonHistory {
+  /** Calendar years, ascending */
+  years: number[];
+  /** Annual returns per asset in portfolio order: [asset][year index] */
+  returns: number[][];
+}
+
+/**
+ * Years of history shared by every asset in the portfolio
+ *
+ * @param portfolio Portfolio whose assets carry historicalYears
+ * @returns Shared years with their returns (empty when there are none)
+ * @throws Error if an asset has no calendar years for its returns, or
+ *   more than one return in a year
+ */
+export function commonHistory(portfolio: PortfolioConfig): CommonHistory {
+  const byYear = portfolio.assets.map(asset => {
+    const years = asset.historicalYears;
+    if (!years || years.length !== asset.historicalReturns.length) {
+      throw new Error(`${asset.id} has no calendar years for its returns`);
+    }
+    if (new Set(years).size !== years.length) {
+      throw new Error(`${asset.id} has more than one return per calendar year`);
+    }
+    return new Map(years.map((year, k) => [year, asset.historicalReturns[k]]));
+  });
+
+  const years = [...(byYear[0]?.keys() ?? [])]
+    .filter(year => byYear.every(returns => returns.has(year)))
+    .sort((a, b) => a - b);
+
+  return {
+    years,
+    returns: byYear.map(returns => years.map(year => returns.get(year)!)),
+  };
+}
+
+/**
+ * Calendar years and returns replayed for a crisis
+ *
+ * @param history Shared history of the portfolio
+ * @param crisis Crisis to replay
+ * @param mode Replay mode
+ * @param timeHorizon Years simulated
+ * @returns Years in simulation order and returns per asset
+ * @throws Error if the history does not cover the crisis
+ */
+export function crisisReplay(
+  history: CommonHistory,
+  crisis: CrisisWindow,
+  mode: StressMode,
+  timeHorizon: number
+): { years: number[]; returns: number[][] } {
+  const start = history.years.indexOf(crisis.startYear);
+  const crisisLength = crisis.endYear - crisis.startYear + 1;
+  if (start < 0 || history.years[start + crisisLength - 1] !== crisis.endYear) {
+    throw new Error(`History does not cover ${crisis.startYear}-${crisis.endYear}`);
+  }
+
+  // Rolling windows wrap to the oldest shared year when history runs out
+  const length = mode === 'rolling' ? timeHorizon : Math.min(crisisLength, timeHorizon);
+  const indices = Array.from({ length }, (_, k) => (start + k) % history.years.length);
+
+  return {
+    years: indices.map(k => history.years[k]),
+    returns: history.returns.map(returns => indices.map(k => returns[k])),
+  };
+}
+
+/**
+ * Reduce a simulation output to BBD and Sell headline results
+ */
+function toStressComparison(output: SimulationOutput): StressComparison {
+  const marginCalls = output.marginCallStats;
+  const finalYear = output.yearlyPercentiles[output.yearlyPercentiles.length - 1];
+  const sell = output.sellStrategy;
+
+  return {
+    bbd: {
+      medianNetWorth: output.statistics.median,
+      p10NetWorth: finalYear?.p10 ?? 0,
+      successRate: output.statistics.successRate,
+      failureProbability: marginCalls?.[marginCalls.length - 1]?.cumulativeProbability ?? 0,
+    },
+    ...(sell && {
+      sell: {
+        medianNetWorth: sell.percentiles.p50,
+        p10NetWorth: sell.percentiles.p10,
+        successRate: sell.successRate,
+        failureProbability: sell.depletionProbability,
+      },
+    }),
+  };
+}
+
+/**
+ * Replay each crisis and compare BBD with selling
+ *
+ * The baseline and every scenario run sequentially with the base
+ * configuration's seed (or one drawn from the clock if unset). Crises the
+ * portfolio's shared history does not cover are skipped with a reason.
+ *
+ * @param config Base configuration
+ * @param portfolio Portfolio whose assets carry historicalYears
+ * @param stress Replay mode and crises
+ * @param onProgress Optional progress callback (0-100 percent across all runs)
+ * @param signal Optional abort signal
+ * @returns Baseline and per-crisis results with the shared seed
+ * @throws Error if an asset has no calendar years for its returns
+ *
+ * @example
+ * ```typescript
+ * const result = await runStressScenarios(config, portfolio, { mode: 'crisis-start' });
+ * result.scenarios[0].bbd.failureProbability; // margin call risk after a dot-com start
+ * ```
+ */
+export async function runStressScenarios(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  stress: StressTestConfig,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<StressTestResult> {
+  const history = commonHistory(portfolio);
+  const seed = config.seed ?? Date.now().toString();
+  // Scenarios compare on the same draws, so each runs the full iteration count
+  const baseConfig: SimulationConfig = { ...config, seed, convergence: undefined, historicalReplay: undefined };
+
+  const skipped: StressTestResult['skipped'] = [];
+  const replays: { crisis: CrisisWindow; years: number[]; returns: number[][] }[] = [];
+  for (const crisis of stress.crises ?? CRISIS_WINDOWS) {
+    try {
+      replays.push({ crisis, ...crisisReplay(history, crisis, stress.mode, config.timeHorizon) });
+    } catch (error) {
+      skipped.push({ crisis, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const total = replays.length + 1;
+  const runProgress = (completed: number) =>
+    onProgress && ((percent: number) => onProgress(((completed + percent / 100) / total) * 100));
+
+  const baseline = toStressComparison(
+    await runMonteCarlo(baseConfig, portfolio, runProgress(0), signal)
+  );
+
+  const scenarios: StressScenarioResult[] = [];
+  for (const [k, { crisis, years, returns }] of replays.entries()) {
+    const output = await runMonteCarlo(
+      { ...baseConfig, historicalReplay: { returns } },
+      portfolio,
+      runProgress(k + 1),
+      signal
+    );
+    scenarios.push({ crisis, replayedYears: years, ...toStressComparison(output) });
+  }
+
+  onProgress?.(100);
+  return { mode: stress.mode, seed, iterations: config.iterations, baseline, scenarios, skipped };
+}
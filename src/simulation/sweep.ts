@@ -0,0 +1,184 @@
+/**
+ * Parameter Sweep
+ *
+ * Runs the Monte Carlo simulation over a one- or two-dimensional grid of
+ * configurations (e.g. annual withdrawal x SBLOC rate) to map where a plan
+ * stops being sustainable.
+ *
+ * Every cell is simulated with the same seed (common random numbers), so
+ * all cells see the same market paths and differences between cells come
+ * from the parameters alone rather than sampling noise.
+ */
+
+import { runMonteCarlo } from './monte-carlo';
+import type {
+  PortfolioConfig,
+  SimulationConfig,
+  SimulationOutput,
+  SweepCell,
+  SweepConfig,
+  SweepParameter,
+  SweepResult,
+} from './types';
+
+/**
+ * Display metadata for a sweepable parameter
+ */
+export interface SweepParameterDefinition {
+  /** Display label */
+  label: string;
+  /** Display unit; percent values are stored as decimals */
+  unit: 'currency' | 'percent' | 'years';
+  /** Suggested range in config units */
+  defaultRange: [number, number];
+  /** Whether the field belongs to the SBLOC configuration */
+  sbloc: boolean;
+}
+
+/**
+ * Parameters that can be swept
+ */
+export const SWEEP_PARAMETERS: Record<SweepParameter, SweepParameterDefinition> = {
+  annualWithdrawal: { label: 'Annual Withdrawal', unit: 'currency', defaultRange: [25_000, 150_000], sbloc: true },
+  annualWithdrawalRaise: { label: 'Withdrawal Growth', unit: 'percent', defaultRange: [0, 0.05], sbloc: true },
+  targetLTV: { label: 'Max Borrowing (LTV)', unit: 'percent', defaultRange: [0.4, 0.8], sbloc: true },
+  interestRate: { label: 'SBLOC Interest Rate', unit: 'percent', defaultRange: [0.04, 0.10], sbloc: true },
+  maintenanceMargin: { label: 'Maintenance Margin', unit: 'percent', defaultRange: [0.3, 0.6], sbloc: true },
+  initialValue: { label: 'Initial Investment', unit: 'currency', defaultRange: [1_000_000, 10_000_000], sbloc: false },
+  timeHorizon: { label: 'Time Horizon', unit: 'years', defaultRange: [10, 40], sbloc: false },
+  inflationRate: { label: 'Inflation Rate', unit: 'percent', defaultRange: [0.02, 0.05], sbloc: false },
+};
+
+/**
+ * Largest grid a sweep will run (rows x columns)
+ */
+export const MAX_SWEEP_CELLS = 100;
+
+/**
+ * Evenly spaced values from min to max inclusive
+ *
+ * @param min First value
+ * @param max Last value
+ * @param steps Number of values (1 returns [min])
+ * @returns Sweep values
+ *
+ * @example
+ * ```typescript
+ * sweepRange(50_000, 150_000, 5);
+ * // Returns: [50000, 75000, 100000, 125000, 150000]
+ * ```
+ */
+export function sweepRange(min: number, max: number, steps: number): number[] {
+  const count = Math.max(1, Math.floor(steps));
+  if (count === 1) return [min];
+  return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+}
+
+/**
+ * Return a copy of the configuration with one swept field replaced
+ *
+ * @throws Error if an SBLOC field is swept without an SBLOC configuration
+ */
+export function applySweepValue(
+  config: SimulationConfig,
+  parameter: SweepParameter,
+  value: number
+): SimulationConfig {
+  if (SWEEP_PARAMETERS[parameter].sbloc) {
+    if (!config.sbloc) {
+      throw new Error(`${SWEEP_PARAMETERS[parameter].label} sweep requires an SBLOC configuration`);
+    }
+    return { ...config, sbloc: { ...config.sbloc, [parameter]: value } };
+  }
+
+  // Horizons are whole years
+  const fieldValue = parameter === 'timeHorizon' ? Math.round(value) : value;
+  return { ...config, [parameter]: fieldValue };
+}
+
+/**
+ * Reduce a simulation output to the headline metrics of a sweep cell
+ */
+function toSweepCell(output: SimulationOutput): SweepCell {
+  const marginCalls = output.marginCallStats;
+  return {
+    successRate: output.statistics.successRate,
+    marginCallProbability: marginCalls?.[marginCalls.length - 1]?.cumulativeProbability ?? 0,
+    medianNetWorth: output.statistics.median,
+  };
+}
+
+/**
+ * Run the simulation for every cell of a parameter grid
+ *
+ * Cells run sequentially with the base configuration's seed (or one drawn
+ * from the clock if unset), and only each cell's headline metrics are kept.
+ *
+ * @param config Base configuration; swept fields are overridden per cell
+ * @param portfolio Portfolio with assets and correlations
+ * @param sweep Grid axes
+ * @param onProgress Optional progress callback (0-100 percent across all cells)
+ * @param signal Optional abort signal
+ * @returns Cells by row then column, with the shared seed
+ * @throws Error if an axis is empty, both axes vary the same field, or the
+ *   grid exceeds MAX_SWEEP_CELLS
+ *
+ * @example
+ * ```typescript
+ * const result = await runParameterSweep(config, portfolio, {
+ *   x: { parameter: 'annualWithdrawal', values: sweepRange(50_000, 150_000, 5) },
+ *   y: { parameter: 'interestRate', values: sweepRange(0.05, 0.09, 5) },
+ * });
+ * result.cells[0][4].successRate; // 5% rate, $150K withdrawal
+ * ```
+ */
+export async function runParameterSweep(
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  sweep: SweepConfig,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<SweepResult> {
+  const { x, y } = sweep;
+  if (x.values.length === 0 || (y && y.values.length === 0)) {
+    throw new Error('Sweep axes must have at least one value');
+  }
+  if (y && y.parameter === x.parameter) {
+    throw new Error('Sweep axes must vary different parameters');
+  }
+
+  const rows = y ? y.values : [undefined];
+  const total = rows.length * x.values.length;
+  if (total > MAX_SWEEP_CELLS) {
+    throw new Error(`Sweep grid of ${total} cells exceeds the limit of ${MAX_SWEEP_CELLS}`);
+  }
+
+  const seed = config.seed ?? Date.now().toString();
+  const cells: SweepCell[][] = [];
+  let completed = 0;
+
+  for (const yValue of rows) {
+    const rowConfig = y && yValue !== undefined
+      ? applySweepValue(config, y.parameter, yValue)
+      : config;
+    const row: SweepCell[] = [];
+
+    for (const xValue of x.values) {
+      // Cells compare on the same paths, so every cell runs the full iteration count
+      const cellConfig = { ...applySweepValue(rowConfig, x.parameter, xValue), seed, convergence: undefined };
+      const output = await runMonteCarlo(
+        cellConfig,
+        portfolio,
+        onProgress && ((percent) => onProgress(((completed + percent / 100) / total) * 100)),
+        signal
+      );
+      row.push(toSweepCell(output));
+      completed++;
+    }
+
+    cells.push(row);
+  }
+
+  onProgress?.(100);
+  return { x, y, cells, seed };
+}
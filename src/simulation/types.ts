@@ -5,6 +5,8 @@
  * Supports simple bootstrap, block bootstrap, and regime-switching return generation.
  */
 
+import type { LTVByAssetClass } from '../sbloc/types';
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -40,8 +42,57 @@ export interface SBLOCSimConfig {
   liquidationHaircut: number;
   /** Initial LOC balance (pre-existing debt) */
   initialLocBalance: number;
+  /**
+   * Advance rates by asset class. When set, the margin call LTV each year is
+   * the value-weighted advance rate of the drifting holdings (bonds count as
+   * bonds, everything else as equities) instead of targetLTV, and
+   * maintenanceMargin is scaled by the same factor.
+   */
+  ltvByAssetClass?: LTVByAssetClass;
+  /**
+   * Variable-rate model. When set, interestRate is the year-one rate and later
+   * years follow a simulated benchmark plus a fixed spread. Omitted = fixed rate.
+   */
+  rateModel?: InterestRateModelConfig;
 }
 
+/**
+ * Benchmark rate process for variable-rate SBLOC interest
+ * - mean-reverting: Vasicek-style drift toward a long-run benchmark
+ * - regime: the same process, with the long-run target shifted by the market
+ *   regime (rates are cut in crashes and rise in bull markets)
+ */
+export type BenchmarkRateProcess = 'mean-reverting' | 'regime';
+
+/**
+ * Variable-rate SBLOC interest configuration
+ */
+export interface InterestRateModelConfig {
+  /** Benchmark process */
+  process: BenchmarkRateProcess;
+  /** Spread over the benchmark (e.g., 0.025). Year-one benchmark = interestRate - spread */
+  spread: number;
+  /** Long-run benchmark the process reverts to (default 0.035) */
+  longRunBenchmark?: number;
+  /** Fraction of the gap to the long-run benchmark closed each year (default 0.2) */
+  reversionSpeed?: number;
+  /** Annual standard deviation of benchmark changes (default 0.01) */
+  volatility?: number;
+  /** Minimum all-in rate (default none) */
+  floor?: number;
+  /** Maximum all-in rate (default none) */
+  cap?: number;
+}
+
+/**
+ * Default benchmark process parameters (roughly the post-1990 Fed funds history)
+ */
+export const DEFAULT_RATE_MODEL: Required<Pick<InterestRateModelConfig, 'longRunBenchmark' | 'reversionSpeed' | 'volatility'>> = {
+  longRunBenchmark: 0.035,
+  reversionSpeed: 0.2,
+  volatility: 0.01,
+};
+
 /**
  * Withdrawal chapter configuration for multi-phase strategies
  *
@@ -101,6 +152,32 @@ export interface TaxModelingConfig {
   ordinaryTaxRate: number;
   /** Long-term capital gains tax rate (e.g., 0.238 for 23.8%) */
   ltcgTaxRate: number;
+  /**
+   * Progressive brackets for BBD dividend and rebalancing taxes and Sell
+   * strategy taxes (omitted = the flat rates above). Forced sales on margin
+   * calls keep ltcgTaxRate.
+   */
+  incomeTax?: IncomeTaxConfig;
+}
+
+/**
+ * Federal filing status
+ */
+export type FilingStatus = 'single' | 'married-joint' | 'married-separate' | 'head-of-household';
+
+/**
+ * Progressive federal and state taxes on portfolio income
+ *
+ * Dollar amounts are in today's dollars; bracket thresholds are indexed with
+ * inflationRate in nominal terms.
+ */
+export interface IncomeTaxConfig {
+  /** Federal filing status */
+  filingStatus: FilingStatus;
+  /** State income tax schedule (key of STATE_INCOME_TAXES; omitted = none) */
+  state?: string;
+  /** Annual ordinary income from outside the portfolio, e.g. wages or a pension (USD) */
+  otherIncome?: number;
 }
 
 /**
@@ -150,6 +227,97 @@ export const SURVIVORSHIP_BIAS: Record<RegimeCalibrationMode, number> = {
   conservative: 0.020, // 2.0% annual adjustment
 };
 
+/**
+ * Simulation time step
+ */
+export type TimeStep = 'annual' | 'monthly';
+
+/**
+ * Rebalancing policy
+ * - none: buy and hold, weights drift with returns
+ * - annual / quarterly: reset to target weights on a calendar schedule
+ * - threshold: reset when any weight drifts outside its band
+ */
+export type RebalancingStrategy = 'none' | 'annual' | 'quarterly' | 'threshold';
+
+/**
+ * Rebalancing configuration
+ */
+export interface RebalancingConfig {
+  /** Rebalancing policy */
+  strategy: RebalancingStrategy;
+  /** Drift band for 'threshold', in absolute weight (e.g., 0.05 for ±5 points). Default 0.05 */
+  thresholdBand?: number;
+  /** Trading cost per dollar traded (e.g., 0.001 for 0.1%). Default 0 */
+  transactionCost?: number;
+}
+
+/**
+ * Default rebalancing: annual, free. Matches the constant-mix assumption
+ * of simulations configured before rebalancing policies existed.
+ */
+export const DEFAULT_REBALANCING: Required<RebalancingConfig> = {
+  strategy: 'annual',
+  thresholdBand: 0.05,
+  transactionCost: 0,
+};
+
+/**
+ * Order in which holdings are sold for withdrawals and forced liquidations
+ * - pro-rata: every lot sells the same fraction (average cost basis)
+ * - highest-basis: lots with the highest basis-to-value ratio sell first
+ * - lowest-gain: lots with the smallest unrealised gain (in dollars) sell first
+ * - specific-asset: one chosen asset sells first, then the rest by highest basis
+ */
+export type LiquidationOrder = 'pro-rata' | 'highest-basis' | 'lowest-gain' | 'specific-asset';
+
+/**
+ * Liquidation ordering configuration
+ */
+export interface LiquidationConfig {
+  /** Sale ordering */
+  order: LiquidationOrder;
+  /** Asset sold first when order is 'specific-asset' */
+  assetId?: string;
+}
+
+/**
+ * Federal estate tax exemption scenario
+ * - current-law: today's per-person exemption (DEFAULT_CALCULATION_CONFIG.estateTaxExemption)
+ * - sunset: the exemption reverts to roughly half of today's amount
+ * - custom: a user-supplied exemption
+ */
+export type EstateExemptionScenario = 'current-law' | 'sunset' | 'custom';
+
+/**
+ * Estate and inheritance tax applied to what each strategy leaves to heirs
+ *
+ * Dollar thresholds are in today's dollars. When results are nominal
+ * (inflationAdjusted false) they are indexed with inflationRate to the year of death.
+ */
+export interface EstateTaxConfig {
+  /** Federal exemption scenario (default: 'current-law') */
+  exemptionScenario?: EstateExemptionScenario;
+  /** Per-person federal exemption for the 'custom' scenario (USD) */
+  exemption?: number;
+  /** Federal estate tax rate above the exemption (default: 0.40) */
+  federalRate?: number;
+  /** Married couple electing portability: the spouse's unused exemption doubles it */
+  portability?: boolean;
+  /** State estate or inheritance tax schedule (key of STATE_DEATH_TAXES) */
+  state?: string;
+}
+
+/**
+ * One purchase lot within an asset position
+ */
+export interface CostBasisLot {
+  /** Fraction of the asset position held in this lot (0-1) */
+  share: number;
+  /** Cost basis as a fraction of the lot's current value (0-1) */
+  costBasisRatio: number;
+}
+
 /**
  * Simulation configuration - controls how Monte Carlo runs
  */
@@ -170,8 +338,25 @@ export interface SimulationConfig {
   regimeCalibration?: RegimeCalibrationMode;
   /** Block size for block bootstrap (auto-calculated if not provided) */
   blockSize?: number;
+  /** Per-asset-class fat-tail parameter overrides (only used when resamplingMethod is 'fat-tail') */
+  fatTailParams?: FatTailParamsOverrides;
   /** Random seed for reproducibility */
   seed?: string;
+  /**
+   * Simulation time step (default: 'annual').
+   * 'monthly' steps portfolio and SBLOC month by month along monthly return
+   * paths (drawn month by month by the regime and fat-tail models, resampled or
+   * bridged by the bootstrap methods), so intra-year drawdowns can trigger
+   * margin calls.
+   */
+  timeStep?: TimeStep;
+  /** Rebalancing policy (default: DEFAULT_REBALANCING) */
+  rebalancing?: RebalancingConfig;
+  /**
+   * Sale ordering across tax lots (default: pro-rata). Also enables per-asset
+   * cost basis tracking in the sell strategy when no asset carries its own basis.
+   */
+  liquidation?: LiquidationConfig;
   /** Timeline configuration for BBD strategy */
   timeline?: TimelineConfig;
   /** SBLOC configuration (optional - if omitted, no SBLOC simulation) */
@@ -182,6 +367,19 @@ export interface SimulationConfig {
   taxModeling?: TaxModelingConfig;
   /** Sell strategy configuration for BBD vs Sell comparison */
   sellStrategy?: SellStrategyConfig;
+  /** Estate and inheritance tax at death (omitted = no estate tax) */
+  estateTax?: EstateTaxConfig;
+  /**
+   * Adaptive iteration count (omitted = run exactly `iterations`). When set,
+   * `iterations` is the cap and the run stops at the first shard where every
+   * key metric is estimated within the tolerance.
+   */
+  convergence?: ConvergenceConfig;
+  /**
+   * Historical returns forced onto the first years of every iteration
+   * (omitted = fully stochastic). Later years are drawn as usual.
+   */
+  historicalReplay?: HistoricalReplayConfig;
 }
 
 /**
@@ -204,10 +402,21 @@ export interface AssetConfig {
   weight: number;
   /** Historical annual returns for bootstrap resampling */
   historicalReturns: number[];
+  /** Calendar year of each historical return (optional, needed for stress scenarios) */
+  historicalYears?: number[];
+  /**
+   * Historical monthly returns, calendar-aligned across assets (optional).
+   * Resampled directly by the bootstrap methods in monthly mode.
+   */
+  monthlyReturns?: number[];
   /** Regime-specific parameters (optional, used when resamplingMethod is 'regime') */
   regimeParams?: RegimeParamsMap;
   /** Asset class for fat-tail distribution (optional, used when resamplingMethod is 'fat-tail') */
   assetClass?: AssetClass;
+  /** Cost basis as a fraction of position value (optional, default: sell strategy costBasisRatio) */
+  costBasisRatio?: number;
+  /** Purchase lots with their own cost basis (optional, overrides costBasisRatio) */
+  lots?: CostBasisLot[];
 }
 
 // ============================================================================
@@ -233,6 +442,13 @@ export interface FatTailParams {
   skewMultiplier: number;
 }
 
+/**
+ * User overrides for fat-tail parameters, merged over FAT_TAIL_PARAMS
+ *
+ * Any asset class or field left out keeps its default value.
+ */
+export type FatTailParamsOverrides = Partial<Record<AssetClass, Partial<FatTailParams>>>;
+
 /**
  * Default fat-tail parameters by asset class
  *
@@ -308,6 +524,510 @@ export interface TransitionMatrix {
   recovery: { bull: number; bear: number; crash: number; recovery: number };
 }
 
+// ============================================================================
+// Parameter Sweep Types
+// ============================================================================
+
+/**
+ * SimulationConfig field varied by a parameter sweep
+ */
+export type SweepParameter =
+  | 'annualWithdrawal'
+  | 'annualWithdrawalRaise'
+  | 'targetLTV'
+  | 'interestRate'
+  | 'maintenanceMargin'
+  | 'initialValue'
+  | 'timeHorizon'
+  | 'inflationRate';
+
+/**
+ * One axis of a parameter sweep
+ */
+export interface SweepAxis {
+  /** Field to vary */
+  parameter: SweepParameter;
+  /** Values to run, in config units (decimals for rates) */
+  values: number[];
+}
+
+/**
+ * One- or two-dimensional grid of configurations to simulate
+ */
+export interface SweepConfig {
+  /** Horizontal axis (columns) */
+  x: SweepAxis;
+  /** Vertical axis (rows). Omitted for a one-dimensional sweep */
+  y?: SweepAxis;
+}
+
+/**
+ * Headline results of one sweep cell
+ */
+export interface SweepCell {
+  /** Percentage of iterations ending above initial value (0-100) */
+  successRate: number;
+  /** Cumulative margin call probability by the final year (0-100, 0 without SBLOC) */
+  marginCallProbability: number;
+  /** Median terminal net worth */
+  medianNetWorth: number;
+}
+
+/**
+ * Results of a parameter sweep
+ */
+export interface SweepResult {
+  /** Horizontal axis */
+  x: SweepAxis;
+  /** Vertical axis (one-dimensional sweeps have none) */
+  y?: SweepAxis;
+  /** Cells by row (y index) then column (x index); one row for 1D sweeps */
+  cells: SweepCell[][];
+  /** Seed shared by every cell (common random numbers) */
+  seed: string;
+}
+
+// ============================================================================
+// Goal Seek Types
+// ============================================================================
+
+/**
+ * SimulationConfig field solved for by goal seek
+ */
+export type GoalSeekParameter = Extract<SweepParameter, 'annualWithdrawal' | 'targetLTV' | 'initialValue'>;
+
+/**
+ * Outcome a goal seek must satisfy
+ *
+ * - marginCallProbability: cumulative margin call probability by the final
+ *   year at most `max` (0-100)
+ * - successRate: success rate at least `min` (0-100)
+ * - p10NetWorth: 10th percentile terminal net worth above `min` (defaults
+ *   to the initial value of the configuration being evaluated)
+ */
+export type GoalSeekTarget =
+  | { metric: 'marginCallProbability'; max: number }
+  | { metric: 'successRate'; min: number }
+  | { metric: 'p10NetWorth'; min?: number };
+
+/**
+ * Goal seek request
+ */
+export interface GoalSeekConfig {
+  /** Field to solve for */
+  parameter: GoalSeekParameter;
+  /** Outcome to satisfy */
+  target: GoalSeekTarget;
+  /** Search range in config units (defaults per parameter) */
+  bounds?: [number, number];
+  /** Bisection steps after the bounds are checked (default: 8) */
+  steps?: number;
+  /**
+   * Iterations per evaluation (default: config.iterations). With
+   * config.convergence set, config.iterations is only the cap: pass the
+   * number of iterations the run being annotated actually completed.
+   */
+  iterations?: number;
+}
+
+/**
+ * Goal seek solution
+ */
+export interface GoalSeekResult {
+  /** Field solved for */
+  parameter: GoalSeekParameter;
+  /** Outcome satisfied */
+  target: GoalSeekTarget;
+  /**
+   * Best value meeting the target (largest withdrawal or LTV, smallest
+   * initial value), or null if no value in the search range meets it
+   */
+  value: number | null;
+  /** Whether the solution sits on the search bound (the whole range meets the target) */
+  bounded: boolean;
+  /** Target metric at the solution (at the closest bound when infeasible) */
+  metricValue: number;
+  /** 95% confidence interval of the target metric at the solution */
+  confidenceInterval: [number, number];
+  /** Simulations run */
+  evaluations: number;
+  /** Seed shared by every evaluation (common random numbers) */
+  seed: string;
+}
+
+// ============================================================================
+// Portfolio Optimizer Types
+// ============================================================================
+
+/**
+ * Portfolio optimizer request
+ */
+export interface OptimizerConfig {
+  /** Maximum cumulative margin call probability (0-100) for the BBD optimum */
+  marginCallCap: number;
+  /** Number of frontier portfolios (default: 15) */
+  points?: number;
+  /** Iterations of each short evaluation run (default: 500) */
+  iterations?: number;
+}
+
+/**
+ * One long-only portfolio with its mean-variance and simulated metrics
+ */
+export interface FrontierPoint {
+  /** Weights (0-1) in the order of the portfolio's assets */
+  weights: number[];
+  /** Expected annual return (mean of historical returns) */
+  expectedReturn: number;
+  /** Annual volatility from historical volatilities and correlations */
+  volatility: number;
+  /** Median terminal net worth from the short evaluation run */
+  medianNetWorth: number;
+  /** Cumulative margin call probability by the final year (0-100, 0 without SBLOC) */
+  marginCallProbability: number;
+}
+
+/**
+ * Efficient frontier with the BBD optimum
+ */
+export interface OptimizerResult {
+  /** Asset ids in weight order */
+  assetIds: string[];
+  /** Minimum-variance portfolios in ascending expected return */
+  frontier: FrontierPoint[];
+  /** The portfolio's current weights, evaluated the same way */
+  current: FrontierPoint;
+  /**
+   * Frontier portfolio with the highest median net worth whose margin call
+   * probability is within the cap, or null if none is
+   */
+  bbdOptimalIndex: number | null;
+  /** Margin call cap applied (0-100) */
+  marginCallCap: number;
+  /** Iterations of each evaluation run */
+  iterations: number;
+  /** Seed shared by every evaluation (common random numbers) */
+  seed: string;
+}
+
+// ============================================================================
+// Convergence Types
+// ============================================================================
+
+/**
+ * Stopping rule of an adaptive ("auto") iteration count
+ */
+export interface ConvergenceConfig {
+  /**
+   * Largest acceptable 95% confidence half-width: percentage points for
+   * success rate and margin call probability, percent of the median for
+   * median net worth
+   */
+  tolerance: number;
+  /** Iterations to run before the first check (default: one shard) */
+  minIterations?: number;
+}
+
+/**
+ * Monte Carlo estimate of a metric with its sampling error
+ */
+export interface MetricEstimate {
+  /** Point estimate */
+  value: number;
+  /** Standard error of the estimate */
+  standardError: number;
+  /** Lower bound of the 95% confidence interval */
+  lower: number;
+  /** Upper bound of the 95% confidence interval */
+  upper: number;
+}
+
+/**
+ * Sampling error of the key metrics
+ */
+export interface StatisticsConfidence {
+  /** Success rate (0-100) */
+  successRate: MetricEstimate;
+  /** Median terminal net worth */
+  median: MetricEstimate;
+  /** Cumulative margin call probability (0-100, SBLOC runs only) */
+  marginCallProbability?: MetricEstimate;
+}
+
+/**
+ * Key metric estimates after a number of iterations
+ */
+export interface ConvergenceCheckpoint extends StatisticsConfidence {
+  /** Iterations the estimates are based on */
+  iterations: number;
+}
+
+/**
+ * Running estimates of the key metrics as iterations accumulate
+ */
+export interface ConvergenceDiagnostics {
+  /** Estimates after every completed shard, in iteration order */
+  checkpoints: ConvergenceCheckpoint[];
+  /** Tolerance of an adaptive run */
+  tolerance?: number;
+  /** Whether an adaptive run met its tolerance before the iteration cap */
+  converged?: boolean;
+}
+
+// ============================================================================
+// Stress Scenario Types
+// ============================================================================
+
+/**
+ * Returns replayed at the start of every iteration
+ */
+export interface HistoricalReplayConfig {
+  /** Annual returns per asset in portfolio order: [asset][year] */
+  returns: number[][];
+}
+
+/**
+ * Named historical window of market stress
+ */
+export interface CrisisWindow {
+  /** Stable identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** First calendar year of the window */
+  startYear: number;
+  /** Last calendar year of the window (inclusive) */
+  endYear: number;
+}
+
+/**
+ * How a crisis is replayed
+ *
+ * - 'crisis-start': the crisis years open every iteration, later years are resampled
+ * - 'rolling': history from the crisis start covers the whole horizon,
+ *   wrapping to the oldest common year when it runs out
+ */
+export type StressMode = 'crisis-start' | 'rolling';
+
+/**
+ * Stress test request
+ */
+export interface StressTestConfig {
+  /** Replay mode */
+  mode: StressMode;
+  /** Crises to replay (default: CRISIS_WINDOWS) */
+  crises?: CrisisWindow[];
+}
+
+/**
+ * Headline results of one strategy in one scenario
+ */
+export interface StressOutcome {
+  /** Median terminal net worth */
+  medianNetWorth: number;
+  /** 10th percentile terminal net worth */
+  p10NetWorth: number;
+  /** Percentage of iterations ending above initial value (0-100) */
+  successRate: number;
+  /**
+   * Percentage of iterations with a margin call (BBD) or a depleted
+   * portfolio (Sell), 0-100
+   */
+  failureProbability: number;
+}
+
+/**
+ * BBD and Sell results of one scenario
+ */
+export interface StressComparison {
+  /** Buy-Borrow-Die with the SBLOC */
+  bbd: StressOutcome;
+  /** Selling to fund withdrawals (when a sell strategy is configured) */
+  sell?: StressOutcome;
+}
+
+/**
+ * Results of replaying one crisis
+ */
+export interface StressScenarioResult extends StressComparison {
+  /** Crisis replayed */
+  crisis: CrisisWindow;
+  /** Calendar years replayed, in simulation order */
+  replayedYears: number[];
+}
+
+/**
+ * Results of a stress test
+ */
+export interface StressTestResult {
+  /** Replay mode */
+  mode: StressMode;
+  /** Seed shared by the baseline and every scenario */
+  seed: string;
+  /** Iterations per scenario */
+  iterations: number;
+  /** Unstressed run for reference */
+  baseline: StressComparison;
+  /** Crises that could be replayed */
+  scenarios: StressScenarioResult[];
+  /** Crises skipped, with the reason */
+  skipped: { crisis: CrisisWindow; reason: string }[];
+}
+
+// ============================================================================
+// Backtest Types
+// ============================================================================
+
+/**
+ * How start years near the end of history are handled
+ *
+ * - 'wrap': continue from the oldest shared year, so every window spans the horizon
+ * - 'truncate': stop at the newest shared year, so late windows are shorter
+ */
+export type BacktestEdge = 'wrap' | 'truncate';
+
+/**
+ * Backtest request
+ */
+export interface BacktestConfig {
+  /** Handling of windows that run past the newest year */
+  edge: BacktestEdge;
+}
+
+/**
+ * Outcome of one historical start year
+ */
+export interface BacktestWindow {
+  /** First calendar year of the window */
+  startYear: number;
+  /** Calendar years replayed, in simulation order */
+  years: number[];
+  /** BBD terminal net worth */
+  bbdNetWorth: number;
+  /** Simulation year of the first margin call (1-based), or null if none */
+  marginCallYear: number | null;
+  /** Sell strategy terminal value (when a sell strategy is configured) */
+  sellNetWorth?: number;
+  /** Whether the sell strategy ran out of assets */
+  sellDepleted?: boolean;
+}
+
+/**
+ * Distribution of one strategy's outcomes across start years
+ */
+export interface BacktestSummary {
+  /** Lowest terminal net worth */
+  worst: number;
+  /** 10th percentile terminal net worth */
+  p10: number;
+  /** Median terminal net worth */
+  median: number;
+  /** 90th percentile terminal net worth */
+  p90: number;
+  /** Highest terminal net worth */
+  best: number;
+  /** Percentage of windows ending above initial value (0-100) */
+  successRate: number;
+  /**
+   * Percentage of windows with a margin call (BBD) or a depleted
+   * portfolio (Sell), 0-100
+   */
+  failureRate: number;
+}
+
+/**
+ * Results of a rolling-window backtest
+ */
+export interface BacktestResult {
+  /** Edge handling used */
+  edge: BacktestEdge;
+  /** Starting portfolio value (the success threshold) */
+  initialValue: number;
+  /** One window per start year, oldest first */
+  windows: BacktestWindow[];
+  /** BBD outcome distribution */
+  bbd: BacktestSummary;
+  /** Sell outcome distribution (when a sell strategy is configured) */
+  sell?: BacktestSummary;
+  /** Start years with the lowest BBD net worth, worst first */
+  worstStartYears: number[];
+}
+
+// ============================================================================
+// Path Explorer Types
+// ============================================================================
+
+/**
+ * Iterations that stand for notable outcomes of a run
+ *
+ * Ranked like the path-coherent percentile bands, so each path is the one
+ * drawn on the probability cone.
+ */
+export interface RepresentativePaths {
+  /** Iteration ranked at the 10th percentile of terminal net worth */
+  p10: number;
+  /** Iteration ranked at the median of terminal net worth */
+  p50: number;
+  /** Iteration ranked at the 90th percentile of terminal net worth */
+  p90: number;
+  /** Iteration with the lowest terminal net worth */
+  worst: number;
+}
+
+/**
+ * One year of a traced iteration
+ */
+export interface PathYear {
+  /** Simulation year (1-based) */
+  year: number;
+  /** Annual return per asset, in portfolio asset order */
+  assetReturns: number[];
+  /** Portfolio return after rebalancing and trading costs */
+  portfolioReturn: number;
+  /** Market regime of the year (regime-switching model only) */
+  regime?: MarketRegime;
+  /** Gross portfolio value at year end */
+  portfolioValue: number;
+  /** Portfolio value less the SBLOC balance at year end */
+  netWorth: number;
+  /** SBLOC draw for spending this year */
+  withdrawal: number;
+  /** SBLOC interest rate this year (SBLOC runs only) */
+  interestRate?: number;
+  /** Interest added to the loan this year */
+  interestCharged: number;
+  /** SBLOC balance at year end */
+  loanBalance: number;
+  /** Loan-to-value at year end (0-1) */
+  ltv: number;
+  /** Margin call LTV this year (SBLOC runs only) */
+  maxLTV?: number;
+  /** Whether a margin call was triggered this year */
+  marginCall: boolean;
+  /** Holdings sold by forced liquidation this year */
+  assetsLiquidated: number;
+  /** Forced-sale haircut lost this year */
+  haircut: number;
+  /** Capital gains tax on forced sales this year */
+  liquidationTax: number;
+  /** Fraction of the portfolio sold for rebalancing this year (0-1) */
+  turnover: number;
+}
+
+/**
+ * Year-by-year detail of one simulated iteration
+ */
+export interface PathTrace {
+  /** Iteration index within the run */
+  iteration: number;
+  /** Seed of the run the iteration belongs to */
+  seed: string;
+  /** Asset ids in the order of PathYear.assetReturns */
+  assetIds: string[];
+  /** One entry per simulated year */
+  years: PathYear[];
+}
+
 // ============================================================================
 // Progress and Status Types
 // ============================================================================
@@ -344,9 +1064,24 @@ export interface SBLOCTrajectory {
   };
   /** Cumulative withdrawals by year */
   cumulativeWithdrawals: number[];
-  /** Cumulative interest paid (median) by year */
+  /** Cumulative interest paid by year (loan balance less cumulative withdrawals) */
   cumulativeInterest: {
+    p10: number[];
+    p50: number[];
+    p90: number[];
+  };
+  /** Interest rate charged (0-1) by year; present when a variable-rate model is set */
+  interestRate?: {
+    p10: number[];
+    p50: number[];
+    p90: number[];
+    mean: number[];
+  };
+  /** Effective LTV limit (0-1) by year; present when ltvByAssetClass is set */
+  effectiveLTV?: {
+    p10: number[];
     p50: number[];
+    p90: number[];
   };
 }
 
@@ -360,20 +1095,55 @@ export interface MarginCallStats {
   probability: number;
   /** Cumulative probability by this year (0-100) */
   cumulativeProbability: number;
+  /**
+   * Probability of the first margin call landing in each month of this year
+   * (12 entries, 0-100, summing to probability). Only present for monthly runs.
+   */
+  monthlyProbability?: number[];
+}
+
+/**
+ * Estate tax outcome of one strategy across iterations
+ */
+export interface EstateTaxSummary {
+  /** Percentiles of the estate left to heirs after estate and inheritance tax */
+  netToHeirs: {
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+  };
+  /** Median federal estate tax */
+  medianFederalTax: number;
+  /** Median state estate or inheritance tax */
+  medianStateTax: number;
+  /** Percentage of iterations owing any estate or inheritance tax (0-100) */
+  taxableProbability: number;
 }
 
 /**
  * Estate analysis data for BBD comparison
  */
 export interface EstateAnalysis {
-  /** Median BBD net estate (portfolio - loan) */
+  /** Median BBD net estate (portfolio - loan, less estate tax when configured) */
   bbdNetEstate: number;
-  /** Median sell strategy net estate (portfolio - taxes) */
+  /** Median sell strategy net estate (portfolio - taxes, less estate tax when configured) */
   sellNetEstate: number;
   /** BBD advantage (positive means BBD is better) */
   bbdAdvantage: number;
   /** Median dividend taxes borrowed by BBD (in loan at death, forgiven by step-up) */
   medianDividendTaxesBorrowed?: number;
+  /** Median capital gains taxes on rebalancing trades borrowed by BBD */
+  medianRebalancingTaxesBorrowed?: number;
+  /** Estate tax per strategy (only present if estateTax config provided) */
+  estateTax?: {
+    /** Federal exemption at death, after indexation and portability */
+    federalExemption: number;
+    bbd: EstateTaxSummary;
+    /** Present once the sell strategy has been simulated */
+    sell?: EstateTaxSummary;
+  };
 }
 
 /**
@@ -456,6 +1226,17 @@ export interface SBLOCDebugStats {
     survivorshipBias: number;
     volatilityScaling: number;
   }[];
+  /**
+   * Gains realised per asset by forced liquidations (lifetime, across iterations),
+   * with the capital gains tax they trigger. The tax is reported, not deducted.
+   */
+  liquidationGainsByAsset?: {
+    assetId: string;
+    realizedGains: { median: number; mean: number };
+    capitalGainsTax: { median: number; mean: number };
+  }[];
+  /** Lot ordering used by forced liquidations */
+  liquidationOrder?: LiquidationOrder;
   /**
    * Path-coherent percentile extraction info (Phase 23-09)
    * Shows which simulation index represents each percentile line
@@ -482,7 +1263,7 @@ export interface SBLOCDebugStats {
  */
 export interface SellStrategyOutput {
   /** Terminal portfolio values across all iterations */
-  terminalValues: number[];
+  terminalValues: Float64Array;
   /** Success rate - percentage where terminal > initial (0-100) */
   successRate: number;
   /** Percentile values of terminal outcomes */
@@ -501,11 +1282,52 @@ export interface SellStrategyOutput {
     medianDividend: number;
     /** Median total taxes (capital gains + dividend) */
     medianTotal: number;
+    /** Median lifetime capital gains taxes from rebalancing trades (included in medianCapitalGains) */
+    medianRebalancing?: number;
   };
   /** Depletion probability (percentage reaching zero) */
   depletionProbability: number;
   /** Yearly percentiles across all iterations */
   yearlyPercentiles: YearlyPercentiles[];
+  /** Realised gains and taxes per asset (present when the sell strategy tracks tax lots) */
+  byAsset?: SellAssetTaxes[];
+}
+
+/**
+ * Sell strategy capital gains for one asset
+ */
+export interface SellAssetTaxes {
+  /** Asset identifier */
+  assetId: string;
+  /** Median capital gains realised from the asset in each year */
+  medianRealizedGains: number[];
+  /** Median capital gains tax attributed to the asset in each year */
+  medianTaxes: number[];
+  /** Median lifetime capital gains tax attributed to the asset */
+  medianTotalTax: number;
+}
+
+/**
+ * Portfolio weight drift across iterations
+ *
+ * Weights are observed at each year end, before any year-end rebalance,
+ * so they show how far holdings drift between rebalancing trades.
+ */
+export interface WeightDrift {
+  /** Asset identifiers, in portfolio order */
+  assetIds: string[];
+  /** Target weights (0-1) */
+  targetWeights: number[];
+  /** Simulation years (1-based) */
+  years: number[];
+  /** Year-end weight percentiles per asset [asset][year] (0-1) */
+  p10: number[][];
+  p50: number[][];
+  p90: number[][];
+  /** Median fraction of the portfolio sold for rebalancing in each year (0-1) */
+  medianTurnover: number[];
+  /** Mean number of rebalancing trades per iteration */
+  meanRebalances: number;
 }
 
 /**
@@ -528,6 +1350,14 @@ export interface SimulationOutput {
   debugStats?: SBLOCDebugStats;
   /** Sell strategy output (only present if sellStrategy config provided) */
   sellStrategy?: SellStrategyOutput;
+  /** Weight drift under the rebalancing policy (multi-asset portfolios only) */
+  weightDrift?: WeightDrift;
+  /** Seed the RNG was initialized with (replaying with it reproduces this output) */
+  seed?: string;
+  /** Running estimates of the key metrics across the run */
+  convergence?: ConvergenceDiagnostics;
+  /** Iterations to open in the path explorer */
+  representativePaths?: RepresentativePaths;
 }
 
 /**
@@ -560,6 +1390,8 @@ export interface SimulationStatistics {
   stddev: number;
   /** Percentage of iterations ending above initial value (0-100) */
   successRate: number;
+  /** 95% confidence intervals of the key metrics */
+  confidence?: StatisticsConfidence;
   // Extended metrics (computed post-simulation in UI layer)
   /** Compound Annual Growth Rate from initial to median terminal value */
   cagr?: number;
@@ -4,10 +4,30 @@
  * Handles conditional worker loading for both build modes:
  * - PWA build: Uses Comlink worker via vite-plugin-comlink
  * - Portable build: Uses inline worker with Comlink.wrap
+ *
+ * Simulations are split across a pool of workers sized by the
+ * available hardware threads; other tools run on the first worker.
  */
 
 import * as Comlink from 'comlink';
-import type { SimulationConfig, PortfolioConfig, SimulationOutput } from './types';
+import { endpointSymbol } from 'vite-plugin-comlink/symbol';
+import type {
+  SimulationConfig,
+  PortfolioConfig,
+  SimulationOutput,
+  SweepConfig,
+  SweepResult,
+  GoalSeekConfig,
+  GoalSeekResult,
+  OptimizerConfig,
+  OptimizerResult,
+  PathTrace,
+  StressTestConfig,
+  StressTestResult,
+  BacktestConfig,
+  BacktestResult,
+} from './types';
+import type { ShardData, ShardRange } from './sharding';
 
 // Type for the worker API
 interface SimulationWorkerAPI {
@@ -16,31 +36,122 @@ interface SimulationWorkerAPI {
     portfolio: PortfolioConfig,
     onProgress?: (percent: number) => void
   ): Promise<SimulationOutput>;
+  simulateRange(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    range: ShardRange,
+    onProgress?: (percent: number) => void
+  ): Promise<ShardData>;
+  aggregate(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    parts: ShardData[]
+  ): Promise<SimulationOutput>;
+  sweep(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    sweep: SweepConfig,
+    onProgress?: (percent: number) => void
+  ): Promise<SweepResult>;
+  goalSeek(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    goal: GoalSeekConfig,
+    onProgress?: (percent: number) => void
+  ): Promise<GoalSeekResult>;
+  optimize(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    options: OptimizerConfig,
+    onProgress?: (percent: number) => void
+  ): Promise<OptimizerResult>;
+  stressTest(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    stress: StressTestConfig,
+    onProgress?: (percent: number) => void
+  ): Promise<StressTestResult>;
+  backtest(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    backtest: BacktestConfig,
+    onProgress?: (percent: number) => void
+  ): Promise<BacktestResult>;
+  trace(
+    config: SimulationConfig,
+    portfolio: PortfolioConfig,
+    iteration: number
+  ): Promise<PathTrace>;
   cancel(): void;
   healthCheck(): string;
 }
 
-let worker: Comlink.Remote<SimulationWorkerAPI> | null = null;
+/** Most workers in the simulation pool */
+const MAX_POOL_SIZE = 8;
 
-export async function getWorker(): Promise<Comlink.Remote<SimulationWorkerAPI>> {
-  if (worker) return worker;
+// Pending or resolved workers; overlapping callers share one creation
+let worker: Promise<Comlink.Remote<SimulationWorkerAPI>> | null = null;
+let pool: Promise<Comlink.Remote<SimulationWorkerAPI>[]> | null = null;
 
+/** Raw handles of every worker created, so clearWorker can terminate them */
+let handles: Worker[] = [];
+
+async function createWorker(): Promise<Comlink.Remote<SimulationWorkerAPI>> {
   if (typeof __PORTABLE_BUILD__ !== 'undefined' && __PORTABLE_BUILD__) {
     // Portable build: use inline worker
     const InlineWorker = await import('./simulation.worker?worker&inline');
     const rawWorker = new InlineWorker.default();
-    worker = Comlink.wrap<SimulationWorkerAPI>(rawWorker);
-  } else {
-    // PWA build: use Comlink worker
-    worker = new ComlinkWorker<typeof import('./simulation.worker')>(
-      new URL('./simulation.worker', import.meta.url),
-      { type: 'module' }
-    );
+    handles.push(rawWorker);
+    return Comlink.wrap<SimulationWorkerAPI>(rawWorker);
   }
 
+  // PWA build: use Comlink worker
+  const comlinkWorker = new ComlinkWorker<typeof import('./simulation.worker')>(
+    new URL('./simulation.worker', import.meta.url),
+    { type: 'module' }
+  );
+  handles.push(comlinkWorker[endpointSymbol]);
+  return comlinkWorker;
+}
+
+export async function getWorker(): Promise<Comlink.Remote<SimulationWorkerAPI>> {
+  worker ??= createWorker().catch(error => {
+    worker = null;
+    throw error;
+  });
   return worker;
 }
 
+/**
+ * Get the simulation worker pool
+ *
+ * One worker per hardware thread, less one for the main thread, and
+ * capped at MAX_POOL_SIZE. The first worker is the one getWorker returns.
+ */
+export async function getWorkerPool(): Promise<Comlink.Remote<SimulationWorkerAPI>[]> {
+  pool ??= createPool().catch(error => {
+    pool = null;
+    throw error;
+  });
+  return pool;
+}
+
+async function createPool(): Promise<Comlink.Remote<SimulationWorkerAPI>[]> {
+  const threads = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 1 : 1;
+  const size = Math.max(1, Math.min(MAX_POOL_SIZE, threads - 1));
+  const workers = [await getWorker()];
+  while (workers.length < size) {
+    workers.push(await createWorker());
+  }
+  return workers;
+}
+
+/**
+ * Terminate every worker created so far and forget the pool
+ */
 export function clearWorker(): void {
+  handles.forEach(handle => handle.terminate());
+  handles = [];
   worker = null;
+  pool = null;
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { computeComparisonMetrics, computeScenarioMatrix } from '../delta-calculations';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { PortfolioConfig, SimulationConfig, SimulationOutput } from '../../simulation/types';
+
+describe('computeScenarioMatrix', () => {
+  // Constant returns make every path identical
+  const portfolio: PortfolioConfig = {
+    assets: [{ id: 'SPY', weight: 1, historicalReturns: [0.05, 0.05] }],
+    correlationMatrix: [[1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 10,
+    timeHorizon: 10,
+    initialValue: 1_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    seed: 'scenario-matrix-test',
+  };
+
+  const withdrawals = [0, 20_000, 40_000];
+
+  const runScenarios = (): Promise<SimulationOutput[]> =>
+    Promise.all(withdrawals.map(annualWithdrawal => runMonteCarlo({
+      ...config,
+      sbloc: {
+        targetLTV: 0.65,
+        interestRate: 0.07,
+        annualWithdrawal,
+        annualWithdrawalRaise: 0,
+        monthlyWithdrawal: false,
+        maintenanceMargin: 0.5,
+        liquidationHaircut: 0.05,
+        initialLocBalance: 0,
+      },
+    }, portfolio)));
+
+  it('reports each scenario against the chosen baseline', async () => {
+    const outputs = await runScenarios();
+    const rows = computeScenarioMatrix(outputs, 1);
+    const finalValue = rows.find(row => row.key === 'finalValue')!;
+
+    expect(finalValue.values).toEqual(outputs.map(o => o.statistics.median));
+    expect(finalValue.deltas[1]).toBeNull();
+    expect(finalValue.deltas[0]).toEqual(computeComparisonMetrics(outputs[1], outputs[0]).finalValue);
+    expect(finalValue.deltas[0]!.direction).toBe('up');
+    expect(finalValue.deltas[2]!.direction).toBe('down');
+  });
+
+  it('flags risk metrics where an increase is worse', async () => {
+    const outputs = await runScenarios();
+    const rows = computeScenarioMatrix(outputs, 0);
+    const marginCall = rows.find(row => row.key === 'marginCallProbability')!;
+
+    expect(marginCall.higherIsBetter).toBe(false);
+    expect(marginCall.values).toHaveLength(3);
+  });
+
+  it('omits metrics no scenario models', async () => {
+    const outputs = await runScenarios();
+    const keys = computeScenarioMatrix(outputs, 0).map(row => row.key);
+
+    expect(keys).toContain('successRate');
+    expect(keys).not.toContain('bbdNetToHeirs');
+    expect(keys).not.toContain('cagr');
+    expect(computeScenarioMatrix([], 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { generateInsights } from '../insight-generator';
+import type { GoalSeekResult, SimulationConfig } from '../../simulation/types';
+
+describe('generateInsights', () => {
+  const config: SimulationConfig = {
+    iterations: 1000,
+    timeHorizon: 30,
+    initialValue: 5_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0,
+    resamplingMethod: 'simple',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 200_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+  };
+
+  const input = {
+    statistics: { mean: 8e6, median: 7e6, stddev: 3e6, successRate: 95 },
+    marginCallStats: [{ year: 30, probability: 1, cumulativeProbability: 32 }],
+    config,
+  };
+
+  const leverageAction = (goalSeek?: GoalSeekResult) =>
+    generateInsights({ ...input, goalSeek }).find(i => i.title === 'Elevated Leverage Risk')?.action;
+
+  it('quotes the withdrawal cut from the goal seek solution', () => {
+    const action = leverageAction({
+      parameter: 'annualWithdrawal',
+      target: { metric: 'marginCallProbability', max: 15 },
+      value: 151_000,
+      bounded: false,
+      metricValue: 14.6,
+      confidenceInterval: [12.5, 16.9],
+      evaluations: 10,
+      seed: 'abc',
+    });
+
+    // 1 - 151K / 200K = 24.5%, rounded up to 25% (150K)
+    expect(action).toContain('reduce withdrawals by 25% to $150K/yr');
+    expect(action).toContain('at or below 15%');
+  });
+
+  it('does not estimate a cut without a solution', () => {
+    const action = leverageAction();
+    expect(action).toContain('reduce withdrawals');
+    expect(action).not.toMatch(/\d+%/);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { PdfDocument, readJpegSize } from '../pdf-document';
+import { generatePdfReport } from '../pdf-report';
+import { buildPrintableData } from '../print-utils';
+import { runMonteCarlo } from '../../simulation/monte-carlo';
+import type { PortfolioConfig, SimulationConfig } from '../../simulation/types';
+
+/**
+ * Check the cross-reference table points at every object and count the pages.
+ */
+function inspectPdf(bytes: Uint8Array): { pages: number; text: string } {
+  const text = new TextDecoder('latin1').decode(bytes);
+  expect(text.startsWith('%PDF-1.4')).toBe(true);
+  expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+  const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+  expect(text.slice(startxref, startxref + 4)).toBe('xref');
+  const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+  offsets.forEach((offset, i) => {
+    expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+  });
+
+  return { pages: Number(text.match(/\/Count (\d+)/)![1]), text };
+}
+
+describe('PdfDocument', () => {
+  it('measures, wraps and escapes text', () => {
+    const pdf = new PdfDocument();
+    expect(pdf.measureText('Hello', 'regular', 10)).toBeCloseTo(22.78);
+    expect(pdf.measureText('Hello', 'bold', 10)).toBeGreaterThan(22.78);
+    expect(pdf.wrapText('one two three four', 45)).toEqual(['one two', 'three four']);
+
+    pdf.addPage();
+    pdf.text('Net (P50) \\ – 5€', 72, 72);
+    const { pages, text } = inspectPdf(pdf.toBytes());
+    expect(pages).toBe(1);
+    expect(text).toContain('(Net \\(P50\\) \\\\ \x96 5\x80) Tj');
+  });
+
+  it('reads JPEG dimensions from the frame header', () => {
+    const jpeg = Uint8Array.from([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+      0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x02, 0x58, 0x03, 0x00, 0x00,
+    ]);
+    expect(readJpegSize(jpeg)).toEqual({ width: 600, height: 300 });
+    expect(() => readJpegSize(Uint8Array.from([0x89, 0x50]))).toThrow('Not a JPEG image');
+  });
+});
+
+describe('generatePdfReport', () => {
+  const portfolio: PortfolioConfig = {
+    assets: [{ id: 'SPY', weight: 1, historicalReturns: [0.12, -0.08, 0.21, 0.05, 0.15, -0.02, 0.09] }],
+    correlationMatrix: [[1]],
+  };
+
+  const config: SimulationConfig = {
+    iterations: 200,
+    timeHorizon: 40,
+    initialValue: 2_000_000,
+    inflationAdjusted: false,
+    inflationRate: 0.025,
+    resamplingMethod: 'simple',
+    seed: 'pdf-report',
+    sbloc: {
+      targetLTV: 0.65,
+      interestRate: 0.07,
+      annualWithdrawal: 80_000,
+      annualWithdrawalRaise: 0.03,
+      monthlyWithdrawal: false,
+      maintenanceMargin: 0.5,
+      liquidationHaircut: 0.05,
+      initialLocBalance: 0,
+    },
+    sellStrategy: { costBasisRatio: 0.4, dividendYield: 0.02 },
+  };
+
+  it('builds report data from the simulation output', async () => {
+    const output = await runMonteCarlo(config, portfolio);
+    const data = buildPrintableData(output, config, portfolio);
+
+    expect(data.keyMetrics.terminalValue).toBe(output.statistics.median);
+    expect(data.keyMetrics.withdrawalRate).toBeCloseTo(4);
+    expect(data.portfolio).toEqual([{ symbol: 'SPY', weight: 1 }]);
+    expect(data.yearlyRows).toHaveLength(40);
+    expect(data.yearlyRows![0].withdrawal).toBeCloseTo(80_000);
+    expect(data.yearlyRows!.every(r => r.loanBalance !== null && r.sellMedian !== null)).toBe(true);
+    expect(data.assumptions).toContainEqual({ label: 'Random seed', value: 'pdf-report' });
+  });
+
+  it('paginates deterministically with the table header on every page', async () => {
+    const output = await runMonteCarlo(config, portfolio);
+    const data = buildPrintableData(output, config, portfolio);
+
+    const first = await generatePdfReport(data);
+    const second = await generatePdfReport(data);
+    expect(second).toEqual(first);
+
+    const { pages, text } = inspectPdf(first);
+    // Cover, then 40 table rows spilling onto a second page, then assumptions
+    expect(pages).toBeGreaterThanOrEqual(3);
+    expect(text.match(/\(Sell Median\) Tj/g)).toHaveLength(2);
+    expect(text).toContain(`(Page ${pages} of ${pages}) Tj`);
+    expect(text).toContain('(Disclosures) Tj');
+  });
+});
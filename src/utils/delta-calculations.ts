@@ -1,10 +1,11 @@
 /**
  * Delta Calculations
  *
- * Utilities for computing metric deltas between simulations for comparison mode.
+ * Utilities for computing metric deltas between simulations for comparison mode
+ * and the metrics matrix of an N-way scenario comparison.
  */
 
-import type { SimulationOutput, SimulationStatistics } from '../simulation/types';
+import type { EstateTaxSummary, SimulationOutput, SimulationStatistics } from '../simulation/types';
 
 /**
  * Direction of change between previous and current values
@@ -23,6 +24,27 @@ export interface DeltaMetrics {
   direction: DeltaDirection;
 }
 
+/**
+ * Percentiles of the estate left to heirs after estate tax
+ */
+export interface HeirsPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * Net-to-heirs comparison of one strategy across two simulations
+ */
+export interface HeirsComparison {
+  /** Median net to heirs delta */
+  median: DeltaMetrics;
+  /** Previous simulation percentiles */
+  previous: HeirsPercentiles;
+  /** Current simulation percentiles */
+  current: HeirsPercentiles;
+}
+
 /**
  * Comprehensive comparison metrics for simulation outputs
  */
@@ -37,6 +59,12 @@ export interface ComparisonMetrics {
   cagr?: DeltaMetrics;
   /** Margin call probability delta (optional, SBLOC only) */
   marginCallProbability?: DeltaMetrics;
+  /** Net to heirs after estate tax (optional, both simulations model estate tax) */
+  netToHeirs?: {
+    bbd: HeirsComparison;
+    /** Present when both simulations include the sell strategy */
+    sell?: HeirsComparison;
+  };
 }
 
 /**
@@ -80,10 +108,26 @@ export function calculateDelta(previous: number, current: number): DeltaMetrics
   };
 }
 
+/**
+ * Compare one strategy's net-to-heirs percentiles across two simulations
+ */
+function compareHeirs(previous: EstateTaxSummary, current: EstateTaxSummary): HeirsComparison {
+  const pick = ({ netToHeirs }: EstateTaxSummary): HeirsPercentiles => ({
+    p10: netToHeirs.p10,
+    p50: netToHeirs.p50,
+    p90: netToHeirs.p90,
+  });
+  return {
+    median: calculateDelta(previous.netToHeirs.p50, current.netToHeirs.p50),
+    previous: pick(previous),
+    current: pick(current),
+  };
+}
+
 /**
  * Compute comprehensive comparison metrics between two simulation outputs
  *
- * Handles optional fields gracefully (CAGR, margin call stats).
+ * Handles optional fields gracefully (CAGR, margin call stats, estate tax).
  *
  * @param previous - Previous simulation output (baseline)
  * @param current - Current simulation output (new)
@@ -134,5 +178,144 @@ export function computeComparisonMetrics(
     );
   }
 
+  // Optional: Net to heirs (if both simulations applied estate tax)
+  const prevEstateTax = previous.estateAnalysis?.estateTax;
+  const currEstateTax = current.estateAnalysis?.estateTax;
+  if (prevEstateTax && currEstateTax) {
+    metrics.netToHeirs = {
+      bbd: compareHeirs(prevEstateTax.bbd, currEstateTax.bbd),
+      sell: prevEstateTax.sell && currEstateTax.sell
+        ? compareHeirs(prevEstateTax.sell, currEstateTax.sell)
+        : undefined,
+    };
+  }
+
   return metrics;
 }
+
+/**
+ * Metric compared across a scenario set
+ */
+export type ScenarioMetricKey =
+  | 'finalValue'
+  | 'successRate'
+  | 'cagr'
+  | 'marginCallProbability'
+  | 'bbdNetToHeirs'
+  | 'sellNetToHeirs';
+
+/**
+ * One metric across every scenario, with deltas against the baseline
+ */
+export interface ScenarioMetricRow {
+  key: ScenarioMetricKey;
+  /** Display label */
+  label: string;
+  /** How values are displayed (percent values are 0-100) */
+  format: 'currency' | 'percent';
+  /** Whether an increase is an improvement (false for risk metrics) */
+  higherIsBetter: boolean;
+  /** Value per scenario (null when the scenario does not model the metric) */
+  values: (number | null)[];
+  /** Delta against the baseline per scenario (null for the baseline itself) */
+  deltas: (DeltaMetrics | null)[];
+}
+
+/**
+ * Metric definitions for the scenario matrix, in display order
+ */
+const SCENARIO_METRICS: {
+  key: ScenarioMetricKey;
+  label: string;
+  format: 'currency' | 'percent';
+  higherIsBetter: boolean;
+  value: (output: SimulationOutput) => number | undefined;
+  delta: (metrics: ComparisonMetrics) => DeltaMetrics | undefined;
+}[] = [
+  {
+    key: 'finalValue',
+    label: 'Median Final Value',
+    format: 'currency',
+    higherIsBetter: true,
+    value: output => output.statistics.median,
+    delta: metrics => metrics.finalValue,
+  },
+  {
+    key: 'successRate',
+    label: 'Success Rate',
+    format: 'percent',
+    higherIsBetter: true,
+    value: output => output.statistics.successRate,
+    delta: metrics => metrics.successRate,
+  },
+  {
+    key: 'cagr',
+    label: 'CAGR',
+    format: 'percent',
+    higherIsBetter: true,
+    value: output => output.statistics.cagr !== undefined ? output.statistics.cagr * 100 : undefined,
+    delta: metrics => metrics.cagr && {
+      ...metrics.cagr,
+      absolute: metrics.cagr.absolute * 100,
+    },
+  },
+  {
+    key: 'marginCallProbability',
+    label: 'Margin Call Risk',
+    format: 'percent',
+    higherIsBetter: false,
+    value: output => output.marginCallStats
+      ? output.marginCallStats[output.marginCallStats.length - 1]?.cumulativeProbability ?? 0
+      : undefined,
+    delta: metrics => metrics.marginCallProbability,
+  },
+  {
+    key: 'bbdNetToHeirs',
+    label: 'Net to Heirs (BBD)',
+    format: 'currency',
+    higherIsBetter: true,
+    value: output => output.estateAnalysis?.estateTax?.bbd.netToHeirs.p50,
+    delta: metrics => metrics.netToHeirs?.bbd.median,
+  },
+  {
+    key: 'sellNetToHeirs',
+    label: 'Net to Heirs (Sell)',
+    format: 'currency',
+    higherIsBetter: true,
+    value: output => output.estateAnalysis?.estateTax?.sell?.netToHeirs.p50,
+    delta: metrics => metrics.netToHeirs?.sell?.median,
+  },
+];
+
+/**
+ * Compute the metrics matrix for an N-way scenario comparison
+ *
+ * Each scenario is compared against the baseline with computeComparisonMetrics.
+ * Metrics no scenario models (e.g. net to heirs without estate tax) are omitted.
+ *
+ * @param outputs - Simulation outputs, one per scenario
+ * @param baselineIndex - Index of the baseline scenario in outputs
+ * @returns One row per metric with values and baseline deltas per scenario
+ */
+export function computeScenarioMatrix(
+  outputs: SimulationOutput[],
+  baselineIndex: number
+): ScenarioMetricRow[] {
+  const baseline = outputs[baselineIndex];
+  if (!baseline) return [];
+
+  const comparisons = outputs.map((output, index) =>
+    index === baselineIndex ? null : computeComparisonMetrics(baseline, output)
+  );
+
+  return SCENARIO_METRICS
+    .map(({ key, label, format, higherIsBetter, value, delta }) => ({
+      key,
+      label,
+      format,
+      higherIsBetter,
+      values: outputs.map(output => value(output) ?? null),
+      deltas: comparisons.map(metrics => (metrics && delta(metrics)) ?? null),
+    }))
+    .filter(row => row.values.some(v => v !== null));
+}
@@ -23,7 +23,12 @@ export {
 export {
   calculateDelta,
   computeComparisonMetrics,
+  computeScenarioMatrix,
   type DeltaMetrics,
   type DeltaDirection,
   type ComparisonMetrics,
+  type HeirsComparison,
+  type HeirsPercentiles,
+  type ScenarioMetricKey,
+  type ScenarioMetricRow,
 } from './delta-calculations';
@@ -5,7 +5,13 @@
  * Analyzes margin call risk, growth assumptions, success rates,
  * and other factors to provide recommendations.
  */
-import type { SimulationStatistics, SimulationConfig, MarginCallStats, SBLOCTrajectory } from '../simulation/types';
+import type {
+  SimulationStatistics,
+  SimulationConfig,
+  MarginCallStats,
+  SBLOCTrajectory,
+  GoalSeekResult,
+} from '../simulation/types';
 
 // ============================================================================
 // Types
@@ -85,6 +91,8 @@ export interface InsightGeneratorInput {
   sblocTrajectory?: SBLOCTrajectory;
   /** Calculated CAGR (from UI) */
   cagr?: number;
+  /** Optional goal seek solution for the maximum safe annual withdrawal */
+  goalSeek?: GoalSeekResult | null;
 }
 
 // ============================================================================
@@ -103,6 +111,38 @@ export const DEFAULT_INSIGHT_CONFIG: InsightConfig = {
 // Insight Generation
 // ============================================================================
 
+/**
+ * Withdrawal half of the leverage risk action.
+ *
+ * Uses the goal seek solution when one was solved for annual withdrawals
+ * against a margin call target; otherwise no reduction is quoted.
+ */
+function withdrawalAction(input: InsightGeneratorInput): string {
+  const solution = input.goalSeek;
+  const current = input.config.sbloc?.annualWithdrawal ?? 0;
+  if (
+    !solution ||
+    solution.parameter !== 'annualWithdrawal' ||
+    solution.target.metric !== 'marginCallProbability' ||
+    current <= 0
+  ) {
+    return 'or reduce withdrawals';
+  }
+
+  if (solution.value === null) {
+    return `or lower borrowing; no withdrawal level keeps margin call risk under ${solution.target.max}%`;
+  }
+
+  // Round the cut up so the quoted withdrawal stays on the safe side of the solution
+  const reduction = Math.ceil((1 - solution.value / current) * 100);
+  if (reduction <= 0) {
+    return 'or reduce withdrawals';
+  }
+  const safeWithdrawal = current * (1 - reduction / 100);
+  return `or reduce withdrawals by ${reduction}% to $${(safeWithdrawal / 1000).toFixed(0)}K/yr ` +
+    `to hold margin call risk at or below ${solution.target.max}%`;
+}
+
 /**
  * Generate actionable insights based on simulation results.
  *
@@ -127,7 +167,6 @@ export function generateInsights(
   if (input.marginCallStats && input.marginCallStats.length > 0) {
     const finalProb = input.marginCallStats[input.marginCallStats.length - 1].cumulativeProbability;
     if (finalProb > config.marginCallWarningThreshold) {
-      const withdrawalReduction = Math.ceil(finalProb / 5) * 5; // Round up to nearest 5%
       const cashBuffer = Math.ceil(input.config.initialValue * 0.1 / 10000) * 10000; // 10% rounded to $10K
 
       insights.push({
@@ -135,7 +174,7 @@ export function generateInsights(
         icon: 'warning',
         title: 'Elevated Leverage Risk',
         message: `Your ${finalProb.toFixed(1)}% margin call probability exceeds the typical comfort threshold of ${config.marginCallWarningThreshold}%.`,
-        action: `Build $${(cashBuffer / 1000).toFixed(0)}K cash buffer or reduce withdrawals by ${withdrawalReduction}%`,
+        action: `Build $${(cashBuffer / 1000).toFixed(0)}K cash buffer ${withdrawalAction(input)}`,
       });
     }
   }
@@ -0,0 +1,388 @@
+/**
+ * Minimal PDF document writer.
+ *
+ * Writes letter-size PDF 1.4 files with the standard Helvetica fonts, filled
+ * and stroked shapes and JPEG images - enough to lay out reports without a
+ * PDF library. Coordinates are in points from the top-left corner of the
+ * page; the writer flips them to PDF's bottom-left origin.
+ *
+ * Text is encoded as WinAnsi (Windows-1252). Characters outside it are
+ * written as '?'.
+ */
+
+/**
+ * Font used for a text run.
+ */
+export type PdfFont = 'regular' | 'bold';
+
+/**
+ * JPEG image ready to embed.
+ */
+export interface PdfImage {
+  /** JPEG file bytes */
+  data: Uint8Array;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
+/**
+ * Options for a text run.
+ */
+export interface PdfTextOptions {
+  font?: PdfFont;
+  /** Font size in points (default: 10) */
+  size?: number;
+  /** Hex color (default: '#1e293b') */
+  color?: string;
+  /** Horizontal alignment relative to x (default: 'left') */
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * Options for a rectangle.
+ */
+export interface PdfShapeOptions {
+  /** Hex fill color (omitted = no fill) */
+  fill?: string;
+  /** Hex stroke color (omitted = no stroke) */
+  stroke?: string;
+  /** Stroke width in points (default: 1) */
+  lineWidth?: number;
+}
+
+/** Letter page width in points */
+export const PDF_PAGE_WIDTH = 612;
+
+/** Letter page height in points */
+export const PDF_PAGE_HEIGHT = 792;
+
+/**
+ * Helvetica advance widths (1/1000 em) for characters 32-126.
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/**
+ * Helvetica-Bold advance widths (1/1000 em) for characters 32-126.
+ */
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * Windows-1252 codes of the characters it places in 0x80-0x9F, with their
+ * Helvetica width.
+ */
+const WIN_ANSI_EXTRAS: Record<string, [code: number, width: number]> = {
+  '€': [0x80, 556],
+  '…': [0x85, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '™': [0x99, 1000],
+};
+
+/**
+ * Read the pixel size of a JPEG from its start-of-frame marker.
+ *
+ * @throws Error if the data is not a JPEG
+ */
+export function readJpegSize(data: Uint8Array): { width: number; height: number } {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('JPEG image has no frame header');
+}
+
+/**
+ * Format a number for a content stream.
+ */
+function num(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+/**
+ * Convert a hex color to PDF RGB components.
+ */
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+    .map(c => num(c / 255))
+    .join(' ');
+}
+
+/**
+ * Encode text as a WinAnsi PDF string literal body.
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    let byte: number;
+    if (WIN_ANSI_EXTRAS[char]) {
+      byte = WIN_ANSI_EXTRAS[char][0];
+    } else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      byte = code;
+    } else {
+      byte = 63; // '?'
+    }
+    const c = String.fromCharCode(byte);
+    encoded += c === '\\' || c === '(' || c === ')' ? `\\${c}` : c;
+  }
+  return encoded;
+}
+
+/**
+ * Convert a string of byte-valued characters to bytes.
+ */
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+}
+
+/**
+ * PDF document built page by page.
+ *
+ * @example
+ * ```typescript
+ * const pdf = new PdfDocument();
+ * pdf.addPage();
+ * pdf.text('Hello', 72, 72, { font: 'bold', size: 18 });
+ * const bytes = pdf.toBytes();
+ * ```
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+  private current = -1;
+
+  /**
+   * Number of pages added so far.
+   */
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page and make it current.
+   * @returns Index of the new page
+   */
+  addPage(): number {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  /**
+   * Make an existing page current, e.g. to add footers after layout.
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`No page ${index}`);
+    }
+    this.current = index;
+  }
+
+  /**
+   * Width of a text run in points.
+   */
+  measureText(text: string, font: PdfFont = 'regular', size: number = 10): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      total += code >= 32 && code <= 126
+        ? widths[code - 32]
+        : WIN_ANSI_EXTRAS[char]?.[1] ?? 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Break text into lines that fit a width, at spaces.
+   * Words longer than the width are kept whole on their own line.
+   */
+  wrapText(text: string, width: number, font: PdfFont = 'regular', size: number = 10): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && this.measureText(candidate, font, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  /**
+   * Draw a text run with its baseline at y.
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { font = 'regular', size = 10, color = '#1e293b', align = 'left' } = options;
+    const width = this.measureText(text, font, size);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.write(
+      `BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ` +
+      `${num(left)} ${num(PDF_PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * Draw a rectangle with its top-left corner at (x, y).
+   */
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    const { fill, stroke, lineWidth = 1 } = options;
+    if (!fill && !stroke) return;
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.write(
+      `${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}` +
+      `${num(x)} ${num(PDF_PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re ${paint}`
+    );
+  }
+
+  /**
+   * Draw a straight line.
+   */
+  line(x1: number, y1: number, x2: number, y2: number, color: string = '#e2e8f0', lineWidth: number = 1): void {
+    this.write(
+      `${rgb(color)} RG ${num(lineWidth)} w ` +
+      `${num(x1)} ${num(PDF_PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Draw a JPEG image scaled into a box with its top-left corner at (x, y).
+   * Embedding the same image object twice stores it once.
+   */
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    let index = this.images.indexOf(image);
+    if (index < 0) {
+      index = this.images.push(image) - 1;
+    }
+    this.write(
+      `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PDF_PAGE_HEIGHT - y - height)} cm /Im${index + 1} Do Q`
+    );
+  }
+
+  /**
+   * Serialize the document.
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) {
+      throw new Error('PDF document has no pages');
+    }
+
+    // Object numbers: catalog, page tree, two fonts, images, then a page and
+    // its content stream for each page
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const pageRefs = this.pages.map((_, i) => `${firstPage + i * 2} 0 R`);
+    const imageRefs = this.images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(' ');
+
+    const objects: Array<string | Uint8Array> = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    this.images.forEach(image => {
+      const header = latin1(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+      );
+      const footer = latin1('\nendstream');
+      const bytes = new Uint8Array(header.length + image.data.length + footer.length);
+      bytes.set(header);
+      bytes.set(image.data, header.length);
+      bytes.set(footer, header.length + image.data.length);
+      objects.push(bytes);
+    });
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${imageRefs ? ` /XObject << ${imageRefs} >>` : ''} >> ` +
+        `/Contents ${firstPage + i * 2 + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+    const push = (chunk: Uint8Array) => {
+      chunks.push(chunk);
+      length += chunk.length;
+    };
+
+    objects.forEach((object, i) => {
+      offsets.push(length);
+      push(latin1(`${i + 1} 0 obj\n`));
+      push(typeof object === 'string' ? latin1(object) : object);
+      push(latin1('\nendobj\n'));
+    });
+
+    const xref = length;
+    push(latin1(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('') +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+    ));
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return bytes;
+  }
+
+  /**
+   * Append operators to the current page.
+   */
+  private write(operations: string): void {
+    if (this.current < 0) {
+      throw new Error('PDF document has no pages');
+    }
+    this.pages[this.current].push(operations);
+  }
+}
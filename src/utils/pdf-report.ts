@@ -0,0 +1,430 @@
+/**
+ * PDF report generation.
+ *
+ * Lays out a client report from structured PrintableData - cover with key
+ * metrics and the portfolio, charts, the year-by-year projection,
+ * assumptions and disclosures - and writes it as a PDF in the browser.
+ * Sections start on fixed pages and blocks that do not fit move whole to
+ * the next page, so the same data always paginates the same way. The file
+ * downloads directly: no popup window or print dialog is involved.
+ */
+
+import { PdfDocument, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, readJpegSize, type PdfImage } from './pdf-document';
+import type { ChartImages, PrintableData, PrintableYearRow } from './print-utils';
+
+/**
+ * Options for the PDF report.
+ */
+export interface PdfReportOptions {
+  /** Logo for the cover (any image URL, including data URLs) */
+  logoUrl?: string;
+  /** Report title (default: 'Simulation Report') */
+  title?: string;
+}
+
+// Layout (points)
+const MARGIN = 54;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - MARGIN;
+const MAX_CHART_HEIGHT = 270;
+const TABLE_ROW_HEIGHT = 16;
+
+// Brand palette, matching the dashboard
+const COLOR_PRIMARY = '#0d9488';
+const COLOR_TEXT = '#1e293b';
+const COLOR_MUTED = '#64748b';
+const COLOR_BORDER = '#e2e8f0';
+const COLOR_SURFACE = '#f8fafc';
+const COLOR_SUCCESS = '#059669';
+
+/**
+ * Charts in report order, with their section titles.
+ */
+const REPORT_CHARTS: Array<{ key: keyof ChartImages; title: string }> = [
+  { key: 'probabilityCone', title: 'Portfolio Projection' },
+  { key: 'histogram', title: 'Terminal Value Distribution' },
+  { key: 'sblocBalance', title: 'SBLOC Balance Projection' },
+  { key: 'marginCall', title: 'Margin Call Risk' },
+  { key: 'bbdComparison', title: 'BBD vs Sell Strategy Comparison' },
+  { key: 'comparisonLine', title: 'Strategy Comparison Over Time' },
+  { key: 'cumulativeCosts', title: 'Cumulative Costs' },
+  { key: 'terminalComparison', title: 'Terminal Value Comparison' },
+  { key: 'sblocUtilization', title: 'SBLOC Utilization' },
+];
+
+/**
+ * Disclosures printed at the end of every report.
+ */
+const DISCLOSURES = [
+  'The projections in this report are hypothetical. They are produced by a Monte Carlo simulation that resamples historical returns of the selected assets, do not reflect actual investment results and are not guarantees of future results. Results vary with each run unless a fixed random seed is used.',
+  'Past performance does not predict future returns. Historical data may not capture the full range of future market conditions, including losses larger than those in the data.',
+  'Securities-based lending carries risks, including margin calls and forced liquidation at unfavourable prices. Interest rates, advance rates and lending terms are set by the lender and may change at any time.',
+  'Tax calculations are simplified estimates under current law and the settings shown. Tax law, brackets and exemptions change, and individual circumstances differ.',
+  'This report is for informational and educational purposes only and does not constitute investment, tax or legal advice. Consult qualified professionals before acting on it.',
+];
+
+/**
+ * Format a dollar amount without cents.
+ */
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+/**
+ * Format a dollar amount in compact notation for table cells.
+ */
+function formatCurrencyCompact(value: number | null): string {
+  if (value === null) return '-';
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: Math.abs(value) >= 1_000_000 ? 'compact' : 'standard',
+    maximumFractionDigits: Math.abs(value) >= 1_000_000 ? 2 : 0,
+  }).format(value);
+}
+
+/**
+ * Load an image URL and re-encode it as a JPEG on a white background.
+ *
+ * @returns The JPEG, or null if the image cannot be loaded (or outside a browser)
+ */
+export async function loadPdfImage(url: string): Promise<PdfImage | null> {
+  if (typeof document === 'undefined') return null;
+
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    // JPEG has no alpha: flatten transparent chart backgrounds onto white
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) return null;
+    const data = new Uint8Array(await blob.arrayBuffer());
+    return { data, ...readJpegSize(data) };
+  } catch (error) {
+    console.warn('Failed to load image for PDF report:', error);
+    return null;
+  }
+}
+
+/**
+ * Cursor-based page layout over a PdfDocument.
+ */
+class ReportLayout {
+  readonly pdf = new PdfDocument();
+  y = MARGIN;
+
+  /**
+   * Start a new page with the cursor at the top margin.
+   */
+  newPage(): void {
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  /**
+   * Move to a new page unless a block of the given height fits.
+   * @returns true if a page was started
+   */
+  ensure(height: number): boolean {
+    if (this.y + height <= CONTENT_BOTTOM) return false;
+    this.newPage();
+    return true;
+  }
+
+  /**
+   * Section heading with a rule. Kept on the page of the content that follows.
+   */
+  heading(title: string, keepWith: number = 0): void {
+    this.ensure(36 + keepWith);
+    this.pdf.text(title, MARGIN, this.y + 16, { font: 'bold', size: 14, color: COLOR_PRIMARY });
+    this.pdf.line(MARGIN, this.y + 24, MARGIN + CONTENT_WIDTH, this.y + 24, COLOR_BORDER);
+    this.y += 36;
+  }
+
+  /**
+   * Wrapped paragraph.
+   */
+  paragraph(text: string, size: number = 9, color: string = COLOR_MUTED): void {
+    const lineHeight = size * 1.4;
+    const lines = this.pdf.wrapText(text, CONTENT_WIDTH, 'regular', size);
+    this.ensure(lines.length * lineHeight);
+    lines.forEach(line => {
+      this.pdf.text(line, MARGIN, this.y + size, { size, color });
+      this.y += lineHeight;
+    });
+    this.y += size * 0.6;
+  }
+}
+
+/**
+ * Cover page: title, key metrics and portfolio allocation.
+ */
+function layoutCover(layout: ReportLayout, data: PrintableData, title: string, logo: PdfImage | null): void {
+  const { pdf } = layout;
+  const { keyMetrics, paramSummary } = data;
+  layout.newPage();
+
+  // Brand band
+  pdf.rect(0, 0, PDF_PAGE_WIDTH, 150, { fill: COLOR_PRIMARY });
+  let brandX = MARGIN;
+  if (logo) {
+    const size = 48;
+    pdf.image(logo, MARGIN, 51, size * (logo.width / logo.height), size);
+    brandX += size * (logo.width / logo.height) + 14;
+  }
+  pdf.text('eVelo', brandX, 80, { font: 'bold', size: 28, color: '#ffffff' });
+  pdf.text('Portfolio Strategy Simulator', brandX, 98, { size: 11, color: '#ffffff' });
+
+  pdf.text(title, MARGIN, 214, { font: 'bold', size: 26 });
+  pdf.text(
+    `${paramSummary.timeHorizon}-year projection · ${paramSummary.iterations.toLocaleString()} Monte Carlo iterations`,
+    MARGIN, 238, { size: 12, color: COLOR_MUTED }
+  );
+  pdf.text(`Generated ${data.timestamp}`, MARGIN, 256, { size: 10, color: COLOR_MUTED });
+  layout.y = 286;
+
+  // Key metrics: two rows of three cards
+  layout.heading('Key Metrics');
+  const metrics: Array<{ label: string; value: string; color?: string }> = [
+    { label: 'Initial Portfolio', value: formatCurrency(keyMetrics.initialValue) },
+    { label: 'Median Terminal Value', value: formatCurrency(keyMetrics.terminalValue) },
+    {
+      label: 'Success Rate',
+      value: `${keyMetrics.successRate.toFixed(1)}%`,
+      color: keyMetrics.successRate >= 90 ? COLOR_SUCCESS : undefined,
+    },
+    { label: 'CAGR', value: `${(keyMetrics.cagr * 100).toFixed(1)}%` },
+    { label: 'Annual Withdrawal', value: formatCurrency(keyMetrics.annualWithdrawal) },
+    { label: 'Withdrawal Rate', value: `${keyMetrics.withdrawalRate.toFixed(1)}%` },
+  ];
+  const gap = 12;
+  const cardWidth = (CONTENT_WIDTH - gap * 2) / 3;
+  const cardHeight = 58;
+  metrics.forEach((metric, i) => {
+    const x = MARGIN + (i % 3) * (cardWidth + gap);
+    const y = layout.y + Math.floor(i / 3) * (cardHeight + gap);
+    pdf.rect(x, y, cardWidth, cardHeight, { fill: COLOR_SURFACE, stroke: COLOR_BORDER });
+    pdf.text(metric.label.toUpperCase(), x + 12, y + 20, { size: 8, color: COLOR_MUTED });
+    pdf.text(metric.value, x + 12, y + 44, { font: 'bold', size: 16, color: metric.color ?? COLOR_TEXT });
+  });
+  layout.y += cardHeight * 2 + gap + 28;
+
+  // Portfolio allocation bars
+  const assets = data.portfolio ?? [];
+  if (assets.length > 0) {
+    layout.heading('Portfolio', TABLE_ROW_HEIGHT);
+    const barX = MARGIN + 80;
+    const barWidth = CONTENT_WIDTH - 80 - 60;
+    assets.forEach(asset => {
+      layout.ensure(TABLE_ROW_HEIGHT + 2);
+      pdf.text(asset.symbol, MARGIN, layout.y + 11, { font: 'bold', size: 10 });
+      pdf.rect(barX, layout.y + 3, barWidth, 9, { fill: COLOR_SURFACE });
+      pdf.rect(barX, layout.y + 3, barWidth * Math.min(1, Math.max(0, asset.weight)), 9, { fill: COLOR_PRIMARY });
+      pdf.text(`${(asset.weight * 100).toFixed(1)}%`, MARGIN + CONTENT_WIDTH, layout.y + 11, { size: 10, align: 'right' });
+      layout.y += TABLE_ROW_HEIGHT + 2;
+    });
+  }
+}
+
+/**
+ * Chart pages: one block per chart, moved whole to the next page when it does not fit.
+ */
+function layoutCharts(layout: ReportLayout, charts: Array<{ title: string; image: PdfImage }>): void {
+  if (charts.length === 0) return;
+  layout.newPage();
+
+  charts.forEach(({ title, image }) => {
+    let width = CONTENT_WIDTH;
+    let height = width * (image.height / image.width);
+    if (height > MAX_CHART_HEIGHT) {
+      height = MAX_CHART_HEIGHT;
+      width = height * (image.width / image.height);
+    }
+    layout.heading(title, height);
+    layout.pdf.image(image, MARGIN + (CONTENT_WIDTH - width) / 2, layout.y, width, height);
+    layout.y += height + 24;
+  });
+}
+
+/**
+ * Year-by-year table, with the header repeated on every page it spans.
+ */
+function layoutYearlyTable(layout: ReportLayout, rows: PrintableYearRow[]): void {
+  if (rows.length === 0) return;
+  const { pdf } = layout;
+
+  const hasSbloc = rows.some(r => r.loanBalance !== null);
+  const hasSell = rows.some(r => r.sellMedian !== null);
+  const columns: Array<{ label: string; value: (row: PrintableYearRow) => string }> = [
+    { label: 'Year', value: r => r.year.toString() },
+    ...(hasSbloc ? [
+      { label: 'Withdrawal', value: (r: PrintableYearRow) => formatCurrencyCompact(r.withdrawal) },
+      { label: 'Loan Balance', value: (r: PrintableYearRow) => formatCurrencyCompact(r.loanBalance) },
+    ] : []),
+    { label: 'P10', value: r => formatCurrencyCompact(r.p10) },
+    { label: 'Median', value: r => formatCurrencyCompact(r.p50) },
+    { label: 'P90', value: r => formatCurrencyCompact(r.p90) },
+    ...(hasSell ? [{ label: 'Sell Median', value: (r: PrintableYearRow) => formatCurrencyCompact(r.sellMedian) }] : []),
+  ];
+  // Year column is narrow; the rest share the remaining width, right-aligned
+  const yearWidth = 40;
+  const valueWidth = (CONTENT_WIDTH - yearWidth) / (columns.length - 1);
+  const columnRight = (i: number) => MARGIN + yearWidth + valueWidth * i - 6;
+
+  const drawHeader = () => {
+    pdf.rect(MARGIN, layout.y, CONTENT_WIDTH, TABLE_ROW_HEIGHT + 4, { fill: COLOR_SURFACE });
+    columns.forEach((column, i) => {
+      if (i === 0) {
+        pdf.text(column.label, MARGIN + 6, layout.y + 13, { font: 'bold', size: 8, color: COLOR_MUTED });
+      } else {
+        pdf.text(column.label, columnRight(i), layout.y + 13, { font: 'bold', size: 8, color: COLOR_MUTED, align: 'right' });
+      }
+    });
+    layout.y += TABLE_ROW_HEIGHT + 4;
+  };
+
+  layout.newPage();
+  layout.heading('Year-by-Year Projection');
+  layout.paragraph(
+    'Net worth percentiles at the end of each year across all iterations.' +
+    (hasSbloc ? ' Net worth is portfolio value less the SBLOC balance.' : '') +
+    (hasSell ? ' Sell Median is the median portfolio when withdrawals are funded by selling assets instead.' : '')
+  );
+  drawHeader();
+
+  rows.forEach((row, r) => {
+    if (layout.ensure(TABLE_ROW_HEIGHT)) {
+      drawHeader();
+    }
+    if (r % 2 === 1) {
+      pdf.rect(MARGIN, layout.y, CONTENT_WIDTH, TABLE_ROW_HEIGHT, { fill: COLOR_SURFACE });
+    }
+    columns.forEach((column, i) => {
+      if (i === 0) {
+        pdf.text(column.value(row), MARGIN + 6, layout.y + 11, { size: 9 });
+      } else {
+        pdf.text(column.value(row), columnRight(i), layout.y + 11, {
+          size: 9,
+          font: column.label === 'Median' ? 'bold' : 'regular',
+          align: 'right',
+        });
+      }
+    });
+    layout.y += TABLE_ROW_HEIGHT;
+  });
+  layout.y += 24;
+}
+
+/**
+ * Assumptions as a two-column table, followed by the disclosures.
+ */
+function layoutAssumptions(layout: ReportLayout, data: PrintableData): void {
+  const { pdf } = layout;
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const rows = [
+    { label: 'Time horizon', value: `${data.paramSummary.timeHorizon} years` },
+    { label: 'Iterations', value: data.paramSummary.iterations.toLocaleString() },
+    { label: 'Inflation rate', value: pct(data.paramSummary.inflationRate) },
+    { label: 'SBLOC interest rate', value: pct(data.paramSummary.sblocRate) },
+    { label: 'Maximum LTV', value: pct(data.paramSummary.maxLtv) },
+    ...(data.assumptions ?? []),
+  ];
+
+  layout.heading('Assumptions', TABLE_ROW_HEIGHT);
+  rows.forEach(row => {
+    layout.ensure(TABLE_ROW_HEIGHT + 2);
+    pdf.text(row.label, MARGIN, layout.y + 11, { size: 9, color: COLOR_MUTED });
+    pdf.text(row.value, MARGIN + CONTENT_WIDTH / 2, layout.y + 11, { font: 'bold', size: 9 });
+    pdf.line(MARGIN, layout.y + TABLE_ROW_HEIGHT + 1, MARGIN + CONTENT_WIDTH, layout.y + TABLE_ROW_HEIGHT + 1, COLOR_BORDER, 0.5);
+    layout.y += TABLE_ROW_HEIGHT + 2;
+  });
+  layout.y += 24;
+
+  layout.heading('Disclosures', 40);
+  DISCLOSURES.forEach(text => layout.paragraph(text));
+}
+
+/**
+ * Footer with page numbers on every page but the cover.
+ */
+function layoutFooters(layout: ReportLayout, title: string): void {
+  const { pdf } = layout;
+  const total = pdf.pageCount;
+  for (let i = 1; i < total; i++) {
+    pdf.setPage(i);
+    const y = PDF_PAGE_HEIGHT - 32;
+    pdf.line(MARGIN, y - 10, MARGIN + CONTENT_WIDTH, y - 10, COLOR_BORDER, 0.5);
+    pdf.text(`eVelo ${title}`, MARGIN, y, { size: 8, color: COLOR_MUTED });
+    pdf.text(`Page ${i + 1} of ${total}`, MARGIN + CONTENT_WIDTH, y, { size: 8, color: COLOR_MUTED, align: 'right' });
+  }
+}
+
+/**
+ * Generate the PDF report.
+ *
+ * Chart images and the logo are re-encoded as JPEG; images that fail to
+ * load are left out.
+ *
+ * @returns PDF file bytes
+ */
+export async function generatePdfReport(
+  data: PrintableData,
+  options: PdfReportOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const title = options.title ?? 'Simulation Report';
+  const logo = options.logoUrl ? await loadPdfImage(options.logoUrl) : null;
+
+  const charts: Array<{ title: string; image: PdfImage }> = [];
+  for (const { key, title: chartTitle } of REPORT_CHARTS) {
+    const url = data.chartImages[key];
+    const image = url ? await loadPdfImage(url) : null;
+    if (image) charts.push({ title: chartTitle, image });
+  }
+
+  const layout = new ReportLayout();
+  layoutCover(layout, data, title, logo);
+  layoutCharts(layout, charts);
+  layoutYearlyTable(layout, data.yearlyRows ?? []);
+  if (!data.yearlyRows?.length) layout.newPage();
+  layoutAssumptions(layout, data);
+  layoutFooters(layout, title);
+
+  return layout.pdf.toBytes();
+}
+
+/**
+ * Generate the PDF report and download it.
+ *
+ * @param filename - File name (default: evelo-report-YYYY-MM-DD.pdf)
+ */
+export async function downloadPdfReport(
+  data: PrintableData,
+  options: PdfReportOptions = {},
+  filename?: string
+): Promise<void> {
+  const bytes = await generatePdfReport(data, options);
+  const date = new Date().toISOString().split('T')[0];
+  const blob = new Blob([bytes], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename || `evelo-report-${date}.pdf`;
+  anchor.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -6,6 +6,7 @@
 
 // Import logo directly - works as data URL in portable builds, file path in PWA
 import { logoUrl } from '../assets/logo';
+import type { PortfolioConfig, SimulationConfig, SimulationOutput } from '../simulation/types';
 
 /**
  * Chart images extracted from the dashboard.
@@ -227,13 +228,161 @@ export interface ExtractedDashboardData {
 }
 
 /**
- * Legacy interface for backward compatibility.
+ * Portfolio allocation entry for the report.
+ */
+export interface PrintableAsset {
+  symbol: string;
+  /** Weight as a decimal (0.6 = 60%) */
+  weight: number;
+}
+
+/**
+ * One year of the report's yearly table.
+ */
+export interface PrintableYearRow {
+  year: number;
+  /** Withdrawal taken that year (null without SBLOC) */
+  withdrawal: number | null;
+  /** Median SBLOC balance (null without SBLOC) */
+  loanBalance: number | null;
+  p10: number;
+  p50: number;
+  p90: number;
+  /** Median Sell strategy portfolio (null without the Sell strategy) */
+  sellMedian: number | null;
+}
+
+/**
+ * Labelled assumption listed in the report.
+ */
+export interface PrintableAssumption {
+  label: string;
+  value: string;
+}
+
+/**
+ * Structured report data, built from the simulation output rather than the
+ * rendered dashboard.
  */
 export interface PrintableData {
   keyMetrics: KeyMetrics;
   paramSummary: ParamSummary;
   chartImages: ChartImages;
   timestamp: string;
+  /** Portfolio allocation */
+  portfolio?: PrintableAsset[];
+  /** Net worth percentiles by year, with SBLOC and Sell strategy columns when simulated */
+  yearlyRows?: PrintableYearRow[];
+  /** Modelling assumptions beyond the parameter summary */
+  assumptions?: PrintableAssumption[];
+}
+
+/**
+ * Display names of the return models
+ */
+const RETURN_MODEL_LABELS: Record<SimulationConfig['resamplingMethod'], string> = {
+  simple: 'Bootstrap resampling',
+  block: 'Block bootstrap',
+  regime: 'Regime switching',
+  'fat-tail': 'Fat-tailed (Student-t)',
+};
+
+/**
+ * Build report data from a simulation run.
+ *
+ * @param output - Simulation output to report
+ * @param config - Configuration the run was produced with
+ * @param portfolio - Portfolio the run was produced with
+ * @param chartImages - Chart images to include (see extractAllChartImages)
+ */
+export function buildPrintableData(
+  output: SimulationOutput,
+  config: SimulationConfig,
+  portfolio: PortfolioConfig,
+  chartImages: ChartImages = {}
+): PrintableData {
+  const { statistics } = output;
+  const sbloc = config.sbloc;
+  const trajectory = output.sblocTrajectory;
+  const sell = output.sellStrategy;
+  const annualWithdrawal = sbloc?.annualWithdrawal ?? 0;
+  const pct = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+  const cumulative = trajectory?.cumulativeWithdrawals;
+  const yearlyRows: PrintableYearRow[] = output.yearlyPercentiles
+    .filter(p => p.year >= 1)
+    .map(p => {
+      const k = trajectory?.years.indexOf(p.year) ?? -1;
+      return {
+        year: p.year,
+        withdrawal: cumulative && p.year <= cumulative.length
+          ? cumulative[p.year - 1] - (p.year > 1 ? cumulative[p.year - 2] : 0)
+          : null,
+        loanBalance: trajectory && k >= 0 ? trajectory.loanBalance.p50[k] : null,
+        p10: p.p10,
+        p50: p.p50,
+        p90: p.p90,
+        sellMedian: sell?.yearlyPercentiles.find(s => s.year === p.year)?.p50 ?? null,
+      };
+    });
+
+  const rebalancing = config.rebalancing?.strategy ?? 'annual';
+  const tax = config.taxModeling;
+  const assumptions: PrintableAssumption[] = [
+    { label: 'Return model', value: RETURN_MODEL_LABELS[config.resamplingMethod] },
+    { label: 'Time step', value: config.timeStep === 'monthly' ? 'Monthly' : 'Annual' },
+    { label: 'Values shown in', value: config.inflationAdjusted ? "Today's dollars" : 'Nominal dollars' },
+    { label: 'Rebalancing', value: rebalancing[0].toUpperCase() + rebalancing.slice(1) },
+    ...(output.seed ? [{ label: 'Random seed', value: output.seed }] : []),
+  ];
+  if (sbloc) {
+    assumptions.push(
+      { label: 'Withdrawal growth', value: `${pct(sbloc.annualWithdrawalRaise)} per year` },
+      { label: 'Withdrawal frequency', value: sbloc.monthlyWithdrawal ? 'Monthly' : 'Annual' },
+      { label: 'Maintenance margin', value: pct(sbloc.maintenanceMargin) },
+      { label: 'Liquidation haircut', value: pct(sbloc.liquidationHaircut) },
+      { label: 'SBLOC interest', value: sbloc.rateModel ? 'Variable rate' : 'Fixed rate' },
+    );
+  }
+  if (tax?.enabled) {
+    assumptions.push(tax.taxAdvantaged
+      ? { label: 'Taxes', value: 'Tax-advantaged account' }
+      : { label: 'Taxes', value: tax.incomeTax
+          ? `Progressive brackets (${tax.incomeTax.filingStatus.replace(/-/g, ' ')}${tax.incomeTax.state ? `, ${tax.incomeTax.state}` : ''})`
+          : `Dividends ${pct(tax.ordinaryTaxRate)}, capital gains ${pct(tax.ltcgTaxRate)}` });
+  }
+  if (config.sellStrategy) {
+    assumptions.push(
+      { label: 'Sell strategy cost basis', value: pct(config.sellStrategy.costBasisRatio) },
+      { label: 'Sell strategy dividend yield', value: pct(config.sellStrategy.dividendYield) },
+    );
+  }
+
+  return {
+    keyMetrics: {
+      initialValue: config.initialValue,
+      terminalValue: statistics.median,
+      successRate: statistics.successRate,
+      cagr: statistics.cagr
+        ?? (config.initialValue > 0 && statistics.median > 0
+          ? Math.pow(statistics.median / config.initialValue, 1 / config.timeHorizon) - 1
+          : 0),
+      annualWithdrawal,
+      withdrawalRate: config.initialValue > 0 ? (annualWithdrawal / config.initialValue) * 100 : 0,
+    },
+    paramSummary: {
+      timeHorizon: config.timeHorizon,
+      iterations: output.terminalValues.length,
+      inflationRate: config.inflationRate,
+      sblocRate: sbloc?.interestRate ?? 0,
+      maxLtv: sbloc?.targetLTV ?? 0,
+    },
+    chartImages,
+    timestamp: new Date().toLocaleString(),
+    portfolio: portfolio.assets.map(a => ({ symbol: a.id, weight: a.weight })),
+    yearlyRows,
+    assumptions,
+  };
 }
 
 /**